@@ -136,7 +136,9 @@ export default function AgentsPage() {
                 <p className="max-w-xl text-sm text-muted-foreground">
                   Create your own specialized AI agent tailored to your unique workflow and requirements.
                 </p>
-                <button className="mt-2 rounded-full bg-primary px-5 sm:px-6 py-2 sm:py-2.5 text-sm font-medium text-primary-foreground transition-colors hover:bg-primary/90">
+                <button
+                  onClick={() => void navigateWithMainPanelFade(router, "/agents/custom")}
+                  className="mt-2 rounded-full bg-primary px-5 sm:px-6 py-2 sm:py-2.5 text-sm font-medium text-primary-foreground transition-colors hover:bg-primary/90">
                   Create Custom Agent
                 </button>
               </div>
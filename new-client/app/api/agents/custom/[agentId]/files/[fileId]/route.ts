@@ -0,0 +1,26 @@
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { deleteCustomAgentFile } from "@/lib/data/custom-agents";
+import { withRouteGuard } from "@/lib/route-guard";
+
+function statusForError(message: string) {
+  if (/not found/i.test(message)) return 404;
+  if (/invalid/i.test(message)) return 400;
+  return 500;
+}
+
+export const DELETE = withRouteGuard({ access: "user", routeClass: "standard" }, async (
+  _request: NextRequest,
+  { params }: { params: Promise<{ agentId: string; fileId: string }> }
+) => {
+  try {
+    const { agentId, fileId } = await params;
+    await deleteCustomAgentFile(agentId, fileId);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to delete agent file";
+    return NextResponse.json({ error: message }, { status: statusForError(message) });
+  }
+});
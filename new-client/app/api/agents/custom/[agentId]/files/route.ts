@@ -0,0 +1,46 @@
+export const runtime = "nodejs";
+export const maxDuration = 120; // Vector store indexing is polled before responding
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { listCustomAgentFiles, uploadCustomAgentFile } from "@/lib/data/custom-agents";
+import { withRouteGuard } from "@/lib/route-guard";
+
+function statusForError(message: string) {
+  if (/not found/i.test(message)) return 404;
+  if (/invalid|empty|exceeds/i.test(message)) return 400;
+  return 500;
+}
+
+export const GET = withRouteGuard({ access: "user", routeClass: "standard" }, async (
+  _request: NextRequest,
+  { params }: { params: Promise<{ agentId: string }> }
+) => {
+  try {
+    const { agentId } = await params;
+    const files = await listCustomAgentFiles(agentId);
+    return NextResponse.json({ files });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to load agent files";
+    return NextResponse.json({ error: message }, { status: statusForError(message) });
+  }
+});
+
+export const POST = withRouteGuard({ access: "user", routeClass: "upload" }, async (
+  request: NextRequest,
+  { params }: { params: Promise<{ agentId: string }> }
+) => {
+  try {
+    const { agentId } = await params;
+    const form = await request.formData();
+    const file = form.get("file");
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "No file provided" }, { status: 400 });
+    }
+    const agentFile = await uploadCustomAgentFile(agentId, file);
+    return NextResponse.json({ file: agentFile });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to upload agent file";
+    return NextResponse.json({ error: message }, { status: statusForError(message) });
+  }
+});
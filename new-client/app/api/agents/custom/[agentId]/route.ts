@@ -0,0 +1,65 @@
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import {
+  deleteCustomAgent,
+  getCustomAgent,
+  updateCustomAgent,
+  type CustomAgentInput,
+} from "@/lib/data/custom-agents";
+import { withRouteGuard } from "@/lib/route-guard";
+
+function statusForError(message: string) {
+  if (/not authenticated/i.test(message)) return 401;
+  if (/not found/i.test(message)) return 404;
+  if (/invalid/i.test(message)) return 400;
+  return 500;
+}
+
+export const GET = withRouteGuard({ access: "user", routeClass: "standard" }, async (
+  _request: NextRequest,
+  { params }: { params: Promise<{ agentId: string }> }
+) => {
+  try {
+    const { agentId } = await params;
+    const agent = await getCustomAgent(agentId);
+    return NextResponse.json({ agent });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to load agent";
+    return NextResponse.json({ error: message }, { status: statusForError(message) });
+  }
+});
+
+/** Partial update: only the fields present in the body change. */
+export const PATCH = withRouteGuard({ access: "user", routeClass: "standard" }, async (
+  request: NextRequest,
+  { params }: { params: Promise<{ agentId: string }> }
+) => {
+  try {
+    const { agentId } = await params;
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Invalid agent" }, { status: 400 });
+    }
+    const agent = await updateCustomAgent(agentId, body as Partial<CustomAgentInput>);
+    return NextResponse.json({ agent });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to update agent";
+    return NextResponse.json({ error: message }, { status: statusForError(message) });
+  }
+});
+
+export const DELETE = withRouteGuard({ access: "user", routeClass: "standard" }, async (
+  _request: NextRequest,
+  { params }: { params: Promise<{ agentId: string }> }
+) => {
+  try {
+    const { agentId } = await params;
+    await deleteCustomAgent(agentId);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to delete agent";
+    return NextResponse.json({ error: message }, { status: statusForError(message) });
+  }
+});
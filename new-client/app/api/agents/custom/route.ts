@@ -0,0 +1,36 @@
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { createCustomAgent, listCustomAgents, type CustomAgentInput } from "@/lib/data/custom-agents";
+import { withRouteGuard } from "@/lib/route-guard";
+
+function statusForError(message: string) {
+  if (/not authenticated/i.test(message)) return 401;
+  if (/invalid/i.test(message)) return 400;
+  return 500;
+}
+
+export const GET = withRouteGuard({ access: "user", routeClass: "standard" }, async () => {
+  try {
+    const agents = await listCustomAgents();
+    return NextResponse.json({ agents });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to load agents";
+    return NextResponse.json({ error: message }, { status: statusForError(message) });
+  }
+});
+
+export const POST = withRouteGuard({ access: "user", routeClass: "standard" }, async (request: NextRequest) => {
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Invalid agent" }, { status: 400 });
+    }
+    const agent = await createCustomAgent(body as Partial<CustomAgentInput>);
+    return NextResponse.json({ agent });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to create agent";
+    return NextResponse.json({ error: message }, { status: statusForError(message) });
+  }
+});
@@ -0,0 +1,27 @@
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { getDataInterpreterSession } from "@/lib/data/data-interpreter";
+import { withRouteGuard } from "@/lib/route-guard";
+
+function statusForError(message: string) {
+  if (/not authenticated/i.test(message)) return 401;
+  if (/not found/i.test(message)) return 404;
+  if (/invalid/i.test(message)) return 400;
+  return 500;
+}
+
+export const GET = withRouteGuard({ access: "user", routeClass: "standard" }, async (
+  _request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) => {
+  try {
+    const { sessionId } = await params;
+    const session = await getDataInterpreterSession(sessionId);
+    return NextResponse.json({ session });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to load data session";
+    return NextResponse.json({ error: message }, { status: statusForError(message) });
+  }
+});
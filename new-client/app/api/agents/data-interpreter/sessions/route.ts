@@ -0,0 +1,39 @@
+export const runtime = "nodejs";
+export const maxDuration = 60; // Large datasets are parsed and profiled before responding
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { createDataInterpreterSession, listDataInterpreterSessions } from "@/lib/data/data-interpreter";
+import { withRouteGuard } from "@/lib/route-guard";
+
+function statusForError(message: string) {
+  if (/not authenticated/i.test(message)) return 401;
+  if (/not found/i.test(message)) return 404;
+  if (/invalid|empty|exceeds/i.test(message)) return 400;
+  return 500;
+}
+
+export const GET = withRouteGuard({ access: "user", routeClass: "standard" }, async () => {
+  try {
+    const sessions = await listDataInterpreterSessions();
+    return NextResponse.json({ sessions });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to load data sessions";
+    return NextResponse.json({ error: message }, { status: statusForError(message) });
+  }
+});
+
+export const POST = withRouteGuard({ access: "user", routeClass: "upload" }, async (request: NextRequest) => {
+  try {
+    const form = await request.formData();
+    const file = form.get("file");
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "No file provided" }, { status: 400 });
+    }
+    const session = await createDataInterpreterSession(file);
+    return NextResponse.json({ session });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to create data session";
+    return NextResponse.json({ error: message }, { status: statusForError(message) });
+  }
+});
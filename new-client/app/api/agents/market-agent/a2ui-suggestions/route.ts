@@ -10,6 +10,7 @@ import {
   extractSuggestionEvents,
   parseSuggestionResponsePayload,
 } from "@/lib/market-agent/a2ui";
+import { withRouteGuard } from "@/lib/route-guard";
 
 const MODEL_ID = "gpt-5-mini";
 const SYSTEM_PROMPT = SUGGESTION_JSON_SYSTEM_PROMPT;
@@ -43,7 +44,7 @@ const composeUserMessage = (body: SuggestionRequestBody, dedupeIds: string[]) =>
   return `User message:\n${body.userMessage ?? ""}\n\nAgent state + snapshot:\n${JSON.stringify(payload, null, 2)}`;
 };
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard({ access: "user", routeClass: "chat" }, async (request: NextRequest) => {
   try {
     const body = (await request.json()) as SuggestionRequestBody;
     console.log("[a2ui] Incoming request", {
@@ -157,4 +158,4 @@ export async function POST(request: NextRequest) {
     console.error("[a2ui] Failed to generate suggestions", error);
     return NextResponse.json({ events: [] }, { status: 500 });
   }
-}
+});
@@ -1,8 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 
 import { supabaseServer } from "@/lib/supabase/server";
-import { requireUserIdServer } from "@/lib/supabase/user";
 import { updateMarketAgentUiEventStatus } from "@/lib/data/market-agent";
+import { withRouteGuard } from "@/lib/route-guard";
 
 const ALLOWED_CADENCES = new Set([60, 120, 300, 600, 1800, 3600]);
 
@@ -13,9 +13,13 @@ type ApplyCadenceBody = {
   mode?: "market_hours" | "always_on";
 };
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard({ access: "user", routeClass: "standard" }, async (
+  request: NextRequest,
+  _context: unknown,
+  auth
+) => {
   try {
-    const userId = await requireUserIdServer();
+    const userId = auth.userId;
     const body = (await request.json()) as ApplyCadenceBody;
     const instanceId = body.agentInstanceId;
     const eventId = body.eventId;
@@ -48,4 +52,4 @@ export async function POST(request: NextRequest) {
     const message = error instanceof Error ? error.message : "Failed to apply cadence";
     return NextResponse.json({ error: message }, { status: 500 });
   }
-}
+});
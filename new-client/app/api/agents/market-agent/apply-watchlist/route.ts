@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 
 import { getMarketAgentInstance, updateMarketAgentUiEventStatus } from "@/lib/data/market-agent";
 import { supabaseServer } from "@/lib/supabase/server";
-import { requireUserIdServer } from "@/lib/supabase/user";
+import { withRouteGuard } from "@/lib/route-guard";
 
 const WATCHLIST_LIMIT = 25;
 const TICKER_PATTERN = /^[A-Z0-9.\-]{1,6}$/;
@@ -14,9 +14,13 @@ type ApplyWatchlistBody = {
   action?: "add" | "remove";
 };
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard({ access: "user", routeClass: "standard" }, async (
+  request: NextRequest,
+  _context: unknown,
+  auth
+) => {
   try {
-    const userId = await requireUserIdServer();
+    const userId = auth.userId;
     const body = (await request.json()) as ApplyWatchlistBody;
     const instanceId = body.agentInstanceId;
     const eventId = body.eventId;
@@ -83,4 +87,4 @@ export async function POST(request: NextRequest) {
     const message = error instanceof Error ? error.message : "Failed to update watchlist";
     return NextResponse.json({ error: message }, { status: 500 });
   }
-}
+});
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 
-import { requireUserIdServer } from "@/lib/supabase/user";
 import { updateMarketAgentUiEventStatus, MarketAgentUiEventStatus } from "@/lib/data/market-agent";
+import { withRouteGuard } from "@/lib/route-guard";
 
 type UpdateStatusBody = {
   agentInstanceId?: string;
@@ -11,9 +11,8 @@ type UpdateStatusBody = {
 
 const ALLOWED_STATUSES: MarketAgentUiEventStatus[] = ["applied", "dismissed"];
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard({ access: "user", routeClass: "standard" }, async (request: NextRequest) => {
   try {
-    await requireUserIdServer();
     const body = (await request.json()) as UpdateStatusBody;
     const instanceId = body.agentInstanceId;
     const eventId = body.eventId;
@@ -27,4 +26,4 @@ export async function POST(request: NextRequest) {
     const message = error instanceof Error ? error.message : "Failed to update suggestion status";
     return NextResponse.json({ error: message }, { status: 500 });
   }
-}
+});
@@ -1,7 +1,8 @@
 import { NextResponse } from "next/server";
 import { supabaseServerAdmin } from "@/lib/supabase/server";
+import { withRouteGuard } from "@/lib/route-guard";
 
-export async function POST(req: Request) {
+export const POST = withRouteGuard({ access: "public", routeClass: "auth" }, async (req: Request) => {
   try {
     const body = await req.json();
     const email = (body?.email ?? "").toString().trim().toLowerCase();
@@ -42,4 +43,4 @@ export async function POST(req: Request) {
   } catch (err: any) {
     return NextResponse.json({ error: err?.message ?? String(err) }, { status: 500 });
   }
-}
+});
@@ -1,10 +1,11 @@
 import { NextResponse } from "next/server";
 import { SUPABASE_PKCE_VERIFIER_KEY } from "@/lib/supabase/constants";
+import { withRouteGuard } from "@/lib/route-guard";
 
 const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const SUPABASE_ANON_KEY = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
 
-export async function POST(req: Request) {
+export const POST = withRouteGuard({ access: "public", routeClass: "auth" }, async (req: Request) => {
   try {
     if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
       return NextResponse.json({ error: "Missing Supabase configuration" }, { status: 500 });
@@ -64,4 +65,4 @@ export async function POST(req: Request) {
   } catch (e: any) {
     return NextResponse.json({ error: e?.message ?? String(e) }, { status: 500 });
   }
-}
+});
@@ -1,8 +1,9 @@
 import { NextResponse } from "next/server";
 import { cookies } from "next/headers";
 import { SUPABASE_PKCE_VERIFIER_KEY } from "@/lib/supabase/constants";
+import { withRouteGuard } from "@/lib/route-guard";
 
-export async function POST(request: Request) {
+export const POST = withRouteGuard({ access: "public", routeClass: "auth" }, async (request: Request) => {
   try {
     const { pkce } = await request.json();
     if (typeof pkce !== "string" || pkce.length < 10) {
@@ -26,13 +27,13 @@ export async function POST(request: Request) {
   } catch {
     return NextResponse.json({ error: "invalid_json" }, { status: 400 });
   }
-}
+});
 
-export async function GET() {
+export const GET = withRouteGuard({ access: "public", routeClass: "auth" }, async () => {
   const cookieStore = cookies();
   const pkceCookie = (cookieStore as any)?.get?.(SUPABASE_PKCE_VERIFIER_KEY);
   if (!pkceCookie?.value) {
     return NextResponse.json({ pkce: null }, { status: 404 });
   }
   return NextResponse.json({ pkce: pkceCookie.value });
-}
+});
@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { randomBytes } from "crypto";
 import { supabaseServerAdmin } from "@/lib/supabase/server";
 import { buildTokenAuthEmail } from "@/lib/auth/tokenAuth";
+import { withRouteGuard } from "@/lib/route-guard";
 
 const TOKEN_LENGTH_BYTES = 16;
 
@@ -9,7 +10,7 @@ function generateToken() {
   return randomBytes(TOKEN_LENGTH_BYTES).toString("hex");
 }
 
-export async function POST() {
+export const POST = withRouteGuard({ access: "public", routeClass: "auth" }, async () => {
   try {
     const supabase = await supabaseServerAdmin();
     const token = generateToken();
@@ -61,4 +62,4 @@ export async function POST() {
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,68 @@
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import {
+  deleteAutomation,
+  getAutomation,
+  updateAutomation,
+  type AutomationInput,
+} from "@/lib/data/automations";
+import { withRouteGuard } from "@/lib/route-guard";
+
+function statusForError(message: string) {
+  if (/not authenticated/i.test(message)) return 401;
+  if (/not found/i.test(message)) return 404;
+  if (/invalid/i.test(message)) return 400;
+  return 500;
+}
+
+export const GET = withRouteGuard({ access: "user", routeClass: "standard" }, async (
+  _request: NextRequest,
+  { params }: { params: Promise<{ automationId: string }> }
+) => {
+  try {
+    const { automationId } = await params;
+    const automation = await getAutomation(automationId);
+    return NextResponse.json({ automation });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to load automation";
+    return NextResponse.json({ error: message }, { status: statusForError(message) });
+  }
+});
+
+/** Partial update: fields missing from the body keep their current values. */
+export const PATCH = withRouteGuard({ access: "user", routeClass: "standard" }, async (
+  request: NextRequest,
+  { params }: { params: Promise<{ automationId: string }> }
+) => {
+  try {
+    const { automationId } = await params;
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Invalid automation" }, { status: 400 });
+    }
+    const automation = await updateAutomation(
+      automationId,
+      body as Partial<AutomationInput> & { rotateWebhookToken?: boolean }
+    );
+    return NextResponse.json({ automation });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to update automation";
+    return NextResponse.json({ error: message }, { status: statusForError(message) });
+  }
+});
+
+export const DELETE = withRouteGuard({ access: "user", routeClass: "standard" }, async (
+  _request: NextRequest,
+  { params }: { params: Promise<{ automationId: string }> }
+) => {
+  try {
+    const { automationId } = await params;
+    await deleteAutomation(automationId);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to delete automation";
+    return NextResponse.json({ error: message }, { status: statusForError(message) });
+  }
+});
@@ -0,0 +1,49 @@
+export const runtime = "nodejs";
+export const maxDuration = 300; // Steps run sequentially: model calls, web search and webhook posts
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { runAutomation } from "@/lib/automations/runner";
+import { loadAutomationAdmin, loadOwnedAutomationForRun } from "@/lib/data/automations";
+import { withRouteGuard } from "@/lib/route-guard";
+
+function statusForError(message: string) {
+  if (/not authenticated/i.test(message)) return 401;
+  if (/not found/i.test(message)) return 404;
+  if (/invalid/i.test(message)) return 400;
+  return 500;
+}
+
+function isCronDispatch(request: NextRequest) {
+  const cronHeader = request.headers.get("x-automation-cron");
+  const cronSecret = process.env.CRON_SECRET ?? process.env.AUTOMATION_CRON_SECRET;
+  return !!cronHeader && !!cronSecret && cronHeader === cronSecret;
+}
+
+/** Manual runs come from the owner; scheduled runs are dispatched by /api/automations/cron. */
+export const POST = withRouteGuard({ access: "internal", routeClass: "chat", isInternal: isCronDispatch }, async (
+  _request: NextRequest,
+  { params }: { params: Promise<{ automationId: string }> },
+  auth
+) => {
+  try {
+    const isCron = auth.kind === "internal";
+    const { automationId } = await params;
+
+    const automation = isCron
+      ? await loadAutomationAdmin(automationId)
+      : await loadOwnedAutomationForRun(automationId);
+    if (!automation) {
+      return NextResponse.json({ error: "Automation not found" }, { status: 404 });
+    }
+    if (isCron && !automation.enabled) {
+      return NextResponse.json({ ok: true, skipped: "disabled" });
+    }
+
+    const run = await runAutomation(automation, { trigger: isCron ? "schedule" : "manual" });
+    return NextResponse.json({ ok: true, run });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to run automation";
+    return NextResponse.json({ error: message }, { status: statusForError(message) });
+  }
+});
@@ -0,0 +1,27 @@
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { listAutomationRuns } from "@/lib/data/automations";
+import { withRouteGuard } from "@/lib/route-guard";
+
+function statusForError(message: string) {
+  if (/not authenticated/i.test(message)) return 401;
+  if (/not found/i.test(message)) return 404;
+  if (/invalid/i.test(message)) return 400;
+  return 500;
+}
+
+export const GET = withRouteGuard({ access: "user", routeClass: "standard" }, async (
+  _request: NextRequest,
+  { params }: { params: Promise<{ automationId: string }> }
+) => {
+  try {
+    const { automationId } = await params;
+    const runs = await listAutomationRuns(automationId);
+    return NextResponse.json({ runs });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to load automation runs";
+    return NextResponse.json({ error: message }, { status: statusForError(message) });
+  }
+});
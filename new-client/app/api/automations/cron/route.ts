@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+
+import { claimDueAutomationsAdmin, recordFailedAutomationDispatchAdmin } from "@/lib/data/automations";
+import { withRouteGuard } from "@/lib/route-guard";
+
+export const runtime = "nodejs";
+
+function resolveBaseUrl() {
+  const explicit = process.env.NEXT_PUBLIC_SITE_URL;
+  if (explicit) return explicit.replace(/\/+$/, "");
+  const vercel = process.env.VERCEL_URL;
+  if (vercel) return `https://${vercel}`;
+  return null;
+}
+
+export const GET = withRouteGuard({ access: "system", routeClass: "system" }, async (request: Request) => {
+  const cronHeader = request.headers.get("x-vercel-cron");
+  const authHeader = request.headers.get("authorization") ?? "";
+  const bearerToken = authHeader.startsWith("Bearer ") ? authHeader.slice(7) : "";
+  const cronSecret = process.env.CRON_SECRET ?? process.env.AUTOMATION_CRON_SECRET;
+  const authorized = cronSecret ? bearerToken === cronSecret : cronHeader === "1";
+
+  if (!authorized) {
+    console.warn("[automations-cron] unauthorized request");
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!cronSecret) {
+    // Dispatched runs authenticate with the secret; without one they would be rejected.
+    console.error("[automations-cron] missing CRON_SECRET");
+    return NextResponse.json({ error: "Missing cron secret" }, { status: 500 });
+  }
+
+  const baseUrl = resolveBaseUrl();
+  if (!baseUrl) {
+    console.error("[automations-cron] missing site URL");
+    return NextResponse.json({ error: "Missing site URL" }, { status: 500 });
+  }
+
+  const dueAutomations = await claimDueAutomationsAdmin(new Date());
+  console.info("[automations-cron] tick", { dueAutomations: dueAutomations.length });
+  if (dueAutomations.length === 0) {
+    return NextResponse.json({ ok: true, scheduled: 0 });
+  }
+
+  const results = await Promise.allSettled(
+    dueAutomations.map(async (automation) => {
+      const response = await fetch(`${baseUrl}/api/automations/${automation.id}/run`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-automation-cron": cronSecret,
+        },
+        body: JSON.stringify({ trigger: "schedule" }),
+      });
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(payload?.error ? `${response.status} ${payload.error}` : `HTTP ${response.status}`);
+      }
+    })
+  );
+
+  // The claim already moved next_run_at on, so a failed dispatch is recorded as a failed run
+  // rather than retried; the automation runs again at its next slot.
+  let failed = 0;
+  for (const [index, result] of results.entries()) {
+    if (result.status === "fulfilled") continue;
+    failed += 1;
+    const automation = dueAutomations[index];
+    const reason = result.reason instanceof Error ? result.reason.message : String(result.reason);
+    console.warn("[automations-cron] run dispatch failed", { automationId: automation.id, reason });
+    try {
+      await recordFailedAutomationDispatchAdmin(automation, "schedule", reason);
+    } catch (error) {
+      console.error("[automations-cron] failed to record dispatch failure", { automationId: automation.id, error });
+    }
+  }
+  return NextResponse.json({ ok: true, scheduled: results.length - failed, failed, attempted: dueAutomations.length });
+});
@@ -0,0 +1,83 @@
+export const runtime = "nodejs";
+export const maxDuration = 300;
+
+import { after, NextRequest, NextResponse } from "next/server";
+
+import { runAutomation } from "@/lib/automations/runner";
+import { loadAutomationByWebhookTokenAdmin } from "@/lib/data/automations";
+import { withRouteGuard } from "@/lib/route-guard";
+
+const MAX_BODY_BYTES = 64 * 1024;
+
+/**
+ * The body as text, or null once it passes maxBytes. Counts bytes as they stream in and stops
+ * reading at the cap, since content-length may be missing (chunked) or wrong.
+ */
+async function readLimitedText(request: NextRequest, maxBytes: number): Promise<string | null> {
+  if (!request.body) return "";
+
+  const reader = request.body.getReader();
+  const decoder = new TextDecoder();
+  let received = 0;
+  let text = "";
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel().catch(() => {});
+      return null;
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+  return text + decoder.decode();
+}
+
+/**
+ * Inbound webhook trigger. The token in the URL is the credential; the request body is available
+ * to steps as {{payload}}. Responds 202 straight away and runs the automation after the response.
+ */
+export const POST = withRouteGuard({ access: "system", routeClass: "system" }, async (
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) => {
+  try {
+    // A declared oversized body is refused before the token lookup and without reading it.
+    const contentLength = Number(request.headers.get("content-length") || "0");
+    if (Number.isFinite(contentLength) && contentLength > MAX_BODY_BYTES) {
+      return NextResponse.json({ error: "Payload too large" }, { status: 413 });
+    }
+
+    const { token } = await params;
+    const automation = await loadAutomationByWebhookTokenAdmin(token);
+    if (!automation) {
+      return NextResponse.json({ error: "Automation not found" }, { status: 404 });
+    }
+    if (!automation.enabled) {
+      return NextResponse.json({ error: "Automation is disabled" }, { status: 409 });
+    }
+
+    const raw = await readLimitedText(request, MAX_BODY_BYTES);
+    if (raw === null) {
+      return NextResponse.json({ error: "Payload too large" }, { status: 413 });
+    }
+    let payload: unknown = raw;
+    try {
+      payload = raw ? JSON.parse(raw) : null;
+    } catch {
+      // Non-JSON bodies are passed to the steps as text.
+    }
+
+    after(async () => {
+      try {
+        await runAutomation(automation, { trigger: "webhook", payload });
+      } catch (error) {
+        console.error("[automations] webhook run failed", { automationId: automation.id, error });
+      }
+    });
+    return NextResponse.json({ ok: true, accepted: true }, { status: 202 });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to trigger automation";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+});
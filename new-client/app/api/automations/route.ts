@@ -0,0 +1,36 @@
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { createAutomation, listAutomations, type AutomationInput } from "@/lib/data/automations";
+import { withRouteGuard } from "@/lib/route-guard";
+
+function statusForError(message: string) {
+  if (/not authenticated/i.test(message)) return 401;
+  if (/invalid/i.test(message)) return 400;
+  return 500;
+}
+
+export const GET = withRouteGuard({ access: "user", routeClass: "standard" }, async () => {
+  try {
+    const automations = await listAutomations();
+    return NextResponse.json({ automations });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to load automations";
+    return NextResponse.json({ error: message }, { status: statusForError(message) });
+  }
+});
+
+export const POST = withRouteGuard({ access: "user", routeClass: "standard" }, async (request: NextRequest) => {
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Invalid automation" }, { status: 400 });
+    }
+    const automation = await createAutomation(body as Partial<AutomationInput>);
+    return NextResponse.json({ automation });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to create automation";
+    return NextResponse.json({ error: message }, { status: statusForError(message) });
+  }
+});
@@ -0,0 +1,55 @@
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { cancelChatTurnJob, failStaleChatTurnJob, getChatTurnJob, isChatTurnJobStale } from "@/lib/jobs/chat-turn";
+import { supabaseServer } from "@/lib/supabase/server";
+import { withRouteGuard } from "@/lib/route-guard";
+
+function statusForError(message: string) {
+  if (/not authenticated/i.test(message)) return 401;
+  if (/not found/i.test(message)) return 404;
+  return 500;
+}
+
+async function loadOwnedJob(jobId: string, userId: string) {
+  const supabase = await supabaseServer();
+  const job = await getChatTurnJob(supabase, jobId);
+  if (!job || job.userId !== userId) {
+    throw new Error("Chat turn job not found");
+  }
+  return { supabase, job };
+}
+
+export const GET = withRouteGuard({ access: "user", routeClass: "standard" }, async (
+  _request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> },
+  auth
+) => {
+  try {
+    const { jobId } = await params;
+    const { supabase, job } = await loadOwnedJob(jobId, auth.userId);
+    const stale = isChatTurnJobStale(job);
+    return NextResponse.json({ job: stale ? await failStaleChatTurnJob(supabase, job) : job, stale });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to load chat turn job";
+    return NextResponse.json({ error: message }, { status: statusForError(message) });
+  }
+});
+
+/** Stops a running turn. The chat route notices on its next flush or heartbeat. */
+export const DELETE = withRouteGuard({ access: "user", routeClass: "standard" }, async (
+  _request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> },
+  auth
+) => {
+  try {
+    const { jobId } = await params;
+    const { supabase, job } = await loadOwnedJob(jobId, auth.userId);
+    const cancelled = await cancelChatTurnJob(supabase, job.id);
+    return NextResponse.json({ ok: Boolean(cancelled), job: cancelled ?? job });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to cancel chat turn job";
+    return NextResponse.json({ error: message }, { status: statusForError(message) });
+  }
+});
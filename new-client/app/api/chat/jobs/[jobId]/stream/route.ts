@@ -0,0 +1,33 @@
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { createChatTurnReplayStream, getChatTurnJob, parseReplayOffset } from "@/lib/jobs/chat-turn";
+import { supabaseServer } from "@/lib/supabase/server";
+import { withRouteGuard } from "@/lib/route-guard";
+
+/**
+ * Replays a chat turn's NDJSON events from `?offset=` (default: the start), then follows the log
+ * until the turn ends. The output is the same stream the original POST /api/chat response carried.
+ */
+export const GET = withRouteGuard({ access: "user", routeClass: "standard" }, async (
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> },
+  auth
+) => {
+  const { jobId } = await params;
+  const supabase = await supabaseServer();
+  const job = await getChatTurnJob(supabase, jobId).catch(() => null);
+  if (!job || job.userId !== auth.userId) {
+    return NextResponse.json({ error: "Chat turn job not found" }, { status: 404 });
+  }
+
+  const offset = parseReplayOffset(request.nextUrl.searchParams.get("offset"));
+  return new Response(createChatTurnReplayStream(supabase, job.id, { offset, signal: request.signal }), {
+    headers: {
+      "Content-Type": "application/x-ndjson",
+      "Cache-Control": "no-cache",
+      "X-Chat-Job-Id": job.id,
+    },
+  });
+});
@@ -1,10 +1,9 @@
 // Use the Node.js runtime to maximize the initial-response window for image-heavy requests
 export const runtime = "nodejs";
 
-import { NextRequest, NextResponse } from "next/server";
+import { after, NextRequest, NextResponse } from "next/server";
 import { Buffer } from "buffer";
 import { supabaseServer, supabaseServerAdmin } from "@/lib/supabase/server";
-import { getCurrentUserIdServer } from "@/lib/supabase/user";
 import type {
   ModelFamily,
   ReasoningEffort,
@@ -33,9 +32,14 @@ import {
 import { getUserPlan } from "@/app/actions/plan-actions";
 import { getMonthlySpending } from "@/app/actions/usage-actions";
 import { hasExceededLimit, getPlanLimit } from "@/lib/usage-limits";
+import {
+  releaseBudgetReservation,
+  reserveChatBudget,
+  settleBudgetReservation,
+  type BudgetReservation,
+} from "@/lib/budget";
 import { getRelevantMemories, type PersonalizationMemorySettings, type MemoryStrategy } from "@/lib/memory-router";
 import type { MemoryItem } from "@/lib/memory";
-import { writeMemory, deleteMemory } from "@/lib/memory";
 import { logUsageRecord } from "@/lib/usage";
 import {
   applyPermanentInstructionMutations,
@@ -45,15 +49,37 @@ import {
 import type { RouterDecision } from "@/lib/router/types";
 import { buildContextForMainModel, type ContextMessage } from "@/lib/context/buildContextForMainModel";
 import { updateTopicSnapshot } from "@/lib/topics/updateTopicSnapshot";
+import {
+  buildAutoTopicDescription,
+  buildAutoTopicLabel,
+  buildAutoTopicSummary,
+} from "@/lib/topics/autoTopicText";
+import { enqueueChatPostResponseJobs } from "@/lib/jobs/chat-post-response";
+import { createChatTurnJob, type ChatTurnJobRecorder } from "@/lib/jobs/chat-turn";
+import { runBackgroundJobs } from "@/lib/jobs/worker";
 import { toFile } from "openai";
 import { buildOpenAIClientOptions } from "@/lib/openai/client";
-import { runDecisionRouter } from "@/lib/router/decision-router";
-import { runWriterRouter } from "@/lib/router/write-router";
+import { getChatProvider, resolveChatProviderForFamily } from "@/lib/providers/registry";
+import type { ChatResponseStream } from "@/lib/providers/types";
+import { runDecisionRouter, type DecisionRouterInput } from "@/lib/router/decision-router";
+import { createRequestTrace, saveRequestTrace } from "@/lib/request-trace";
 import { runWebSearchPipeline, type WebPipelineResult } from "@/lib/search/fast-web-pipeline";
 import { writeSearchQueries, type QueryWriterResult } from "@/lib/search/search-llm";
 import { estimateTokens } from "@/lib/tokens/estimateTokens";
+import { loadActiveBranch, resolveActiveBranch } from "@/lib/message-branches";
+import { parseProjectSettings, type ProjectSettings } from "@/lib/data/projects";
+import { loadCustomAgentForChat } from "@/lib/data/custom-agents";
+import { parseCustomAgentId, type CustomAgentTool } from "@/lib/agents/customAgents";
+import {
+  buildDataInterpreterInstructions,
+  ensureDataInterpreterContainer,
+  loadNotebookRecap,
+  parseDataInterpreterDataset,
+  recordNotebookSteps,
+} from "@/lib/data/data-interpreter";
 import { lookup } from "node:dns/promises";
 import { isIP } from "node:net";
+import { withRouteGuard } from "@/lib/route-guard";
 
 const CONTEXT_LIMIT_TOKENS = 400_000;
 const MEMORY_WRITES_ENABLED = true;
@@ -75,7 +101,6 @@ const CONTEXT_CACHE_TAIL_MESSAGE_COUNT = 0;
 const GROK_FAST_FAMILY = "grok-4-1-fast";
 const GROK_FAST_NON_REASONING_MODEL_ID = "grok-4-1-fast-non-reasoning-latest";
 const GROK_FAST_REASONING_MODEL_ID = "grok-4-1-fast-reasoning-latest";
-const GROK_BASE_URL = "https://api.x.ai/v1";
 
 function formatWebPipelineContext(result: WebPipelineResult) {
   const queriesLine = result.queries.length ? `Queries: ${result.queries.join(" | ")}` : "";
@@ -374,239 +399,6 @@ function resolveGeminiImageModel(choice: string | undefined | null): string | nu
   return null;
 }
 
-// Kept for reference/debugging; streaming path is used in production image generation.
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-async function callGeminiGenerateContent(params: {
-  apiKey: string;
-  model: string;
-  prompt: string;
-}): Promise<{
-  text: string;
-  images: Array<{ mimeType: string; data: string }>;
-  usage: { inputTokens: number; outputTokens: number; totalTokens: number } | null;
-}> {
-  const { apiKey, model, prompt } = params;
-  const url = `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(
-    model
-  )}:generateContent?key=${encodeURIComponent(apiKey)}`;
-
-  const body = {
-    contents: [
-      {
-        role: "user",
-        parts: [{ text: prompt }],
-      },
-    ],
-    generationConfig: {
-      responseModalities: ["TEXT", "IMAGE"],
-    },
-  };
-
-  const res = await fetch(url, {
-    method: "POST",
-    headers: { "Content-Type": "application/json", "x-goog-api-key": apiKey },
-    body: JSON.stringify(body),
-  });
-
-  if (!res.ok) {
-    const errText = await res.text().catch(() => "");
-    const trimmed = errText.length > 400 ? `${errText.slice(0, 400)}…` : errText;
-    throw new Error(`Gemini API error (${res.status}): ${trimmed || res.statusText}`);
-  }
-
-  const payload = (await res.json()) as any;
-  const parts: any[] = payload?.candidates?.[0]?.content?.parts ?? [];
-  const images: Array<{ mimeType: string; data: string }> = [];
-  const texts: string[] = [];
-
-  for (const part of parts) {
-    const text = typeof part?.text === "string" ? part.text : null;
-    if (text) texts.push(text);
-
-    const inline = part?.inlineData ?? part?.inline_data ?? null;
-    const mimeType =
-      typeof inline?.mimeType === "string"
-        ? inline.mimeType
-        : typeof inline?.mime_type === "string"
-          ? inline.mime_type
-          : null;
-    const data = typeof inline?.data === "string" ? inline.data : null;
-    if (mimeType && data) {
-      images.push({ mimeType, data });
-    }
-  }
-
-  const usageMeta = payload?.usageMetadata ?? payload?.usage_metadata ?? null;
-  const inputTokens =
-    Number(usageMeta?.promptTokenCount ?? usageMeta?.prompt_token_count ?? 0) || 0;
-  const outputTokens =
-    Number(usageMeta?.candidatesTokenCount ?? usageMeta?.candidates_token_count ?? 0) || 0;
-  const totalTokens =
-    Number(usageMeta?.totalTokenCount ?? usageMeta?.total_token_count ?? 0) ||
-    inputTokens + outputTokens;
-
-  return {
-    text: texts.filter(Boolean).join("\n\n").trim(),
-    images,
-    usage: usageMeta ? { inputTokens, outputTokens, totalTokens } : null,
-  };
-}
-
-async function callGeminiStreamGenerateContent(params: {
-  apiKey: string;
-  model: string;
-  prompt: string;
-  onTextDelta: (delta: string) => void | Promise<void>;
-}): Promise<{
-  fullText: string;
-  image: { mimeType: string; data: string } | null;
-  usage: { inputTokens: number; outputTokens: number; totalTokens: number } | null;
-}> {
-  const { apiKey, model, prompt, onTextDelta } = params;
-  const url = `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(
-    model
-  )}:streamGenerateContent?alt=sse&key=${encodeURIComponent(apiKey)}`;
-
-  const body = {
-    contents: [
-      {
-        role: "user",
-        parts: [{ text: prompt }],
-      },
-    ],
-    generationConfig: {
-      responseModalities: ["TEXT", "IMAGE"],
-    },
-  };
-
-  const res = await fetch(url, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Accept: "text/event-stream",
-      "x-goog-api-key": apiKey,
-    },
-    body: JSON.stringify(body),
-  });
-
-  if (!res.ok) {
-    const errText = await res.text().catch(() => "");
-    const trimmed = errText.length > 400 ? `${errText.slice(0, 400)}…` : errText;
-    throw new Error(`Gemini API error (${res.status}): ${trimmed || res.statusText}`);
-  }
-
-  const reader = res.body?.getReader();
-  if (!reader) {
-    throw new Error("Gemini streaming response had no body");
-  }
-
-  const decoder = new TextDecoder();
-  let buffer = "";
-  let fullText = "";
-  let image: { mimeType: string; data: string } | null = null;
-  let usage: { inputTokens: number; outputTokens: number; totalTokens: number } | null = null;
-
-  const extractFromEvent = async (payload: any) => {
-    const parts: any[] = payload?.candidates?.[0]?.content?.parts ?? [];
-
-    // Text: sometimes streamed as cumulative, sometimes as deltas; normalize to deltas.
-    const chunkText = parts
-      .map((p) => (typeof p?.text === "string" ? p.text : ""))
-      .filter(Boolean)
-      .join("");
-    if (chunkText) {
-      let delta = chunkText;
-      if (fullText && chunkText.startsWith(fullText)) {
-        delta = chunkText.slice(fullText.length);
-      } else if (fullText && fullText.startsWith(chunkText)) {
-        delta = "";
-      }
-      if (delta) {
-        fullText += delta;
-        await onTextDelta(delta);
-      } else if (!fullText) {
-        // If the first chunk is cumulative, capture it.
-        fullText = chunkText;
-        await onTextDelta(chunkText);
-      }
-    }
-
-    // Image: usually arrives near the end
-    if (!image) {
-      for (const part of parts) {
-        const inline = part?.inlineData ?? part?.inline_data ?? null;
-        const mimeType =
-          typeof inline?.mimeType === "string"
-            ? inline.mimeType
-            : typeof inline?.mime_type === "string"
-              ? inline.mime_type
-              : null;
-        const data = typeof inline?.data === "string" ? inline.data : null;
-        if (mimeType && data) {
-          image = { mimeType, data };
-          break;
-        }
-      }
-    }
-
-    // Usage metadata may be included in later events
-    const usageMeta = payload?.usageMetadata ?? payload?.usage_metadata ?? null;
-    if (usageMeta) {
-      const inputTokens =
-        Number(usageMeta?.promptTokenCount ?? usageMeta?.prompt_token_count ?? 0) || 0;
-      const outputTokens =
-        Number(usageMeta?.candidatesTokenCount ?? usageMeta?.candidates_token_count ?? 0) || 0;
-      const totalTokens =
-        Number(usageMeta?.totalTokenCount ?? usageMeta?.total_token_count ?? 0) ||
-        inputTokens + outputTokens;
-      usage = { inputTokens, outputTokens, totalTokens };
-    }
-  };
-
-  try {
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      buffer += decoder.decode(value, { stream: true });
-
-      // SSE events are separated by blank lines.
-      while (true) {
-        const sepLf = buffer.indexOf("\n\n");
-        const sepCrLf = buffer.indexOf("\r\n\r\n");
-        const sep =
-          sepLf !== -1 && (sepCrLf === -1 || sepLf < sepCrLf) ? sepLf : sepCrLf;
-        const sepLen = sep === sepCrLf ? 4 : 2;
-        if (sep === -1) break;
-        const rawEvent = buffer.slice(0, sep);
-        buffer = buffer.slice(sep + sepLen);
-
-        const lines = rawEvent
-          .split(/\r?\n/)
-          .map((l) => l.trimEnd())
-          .filter(Boolean);
-        const dataLines = lines
-          .filter((l) => l.startsWith("data:"))
-          .map((l) => l.slice(5).trimStart());
-        if (!dataLines.length) continue;
-
-        const dataStr = dataLines.join("\n").trim();
-        if (!dataStr || dataStr === "[DONE]") continue;
-
-        try {
-          const payload = JSON.parse(dataStr);
-          await extractFromEvent(payload);
-        } catch {
-          // ignore malformed chunks
-        }
-      }
-    }
-  } finally {
-    reader.releaseLock();
-  }
-
-  return { fullText: fullText.trim(), image, usage };
-}
-
 async function rehostAssistantInlineImages(params: {
   userId: string;
   conversationId: string;
@@ -757,7 +549,8 @@ async function buildSimpleContextMessages(
   userId: string,
   includeExternalChats: boolean,
   externalChatIds: string[] | undefined,
-  maxTokens: number
+  maxTokens: number,
+  branchMessageIds?: Set<string> | null
 ): Promise<{
   messages: Array<{ role: "system" | "user" | "assistant"; content: string; type: "message" }>;
   source: "simple";
@@ -782,7 +575,9 @@ async function buildSimpleContextMessages(
     .eq("conversation_id", conversationId)
     .order("created_at", { ascending: true });
 
-  const rows: MessageRow[] = Array.isArray(data) ? (data as MessageRow[]) : [];
+  const rows: MessageRow[] = (Array.isArray(data) ? (data as MessageRow[]) : []).filter(
+    (row) => !branchMessageIds || branchMessageIds.has(row.id)
+  );
   let tokensUsed = 0;
   const selected: MessageRow[] = [];
   // Walk from newest to oldest, keeping within budget, then reverse to send oldest->newest
@@ -886,15 +681,17 @@ async function buildSimpleContextMessages(
 
       const { data: convoRows } = await supabase
         .from("conversations")
-        .select("id, title")
+        .select("id, title, active_leaf_message_id")
         .eq("user_id", userId)
         .in("id", candidateIds);
 
       const titleById = new Map<string, string>();
+      const activeLeafById = new Map<string, string | null>();
       if (Array.isArray(convoRows)) {
         for (const row of convoRows as any[]) {
           if (row?.id) {
             titleById.set(row.id as string, (row.title as string) || "Untitled chat");
+            activeLeafById.set(row.id as string, (row.active_leaf_message_id as string | null) ?? null);
           }
         }
       }
@@ -907,11 +704,13 @@ async function buildSimpleContextMessages(
 
         const { data: chatMessages } = await supabase
           .from("messages")
-          .select("id, role, content, created_at")
+          .select("id, role, content, created_at, parent_message_id")
           .eq("conversation_id", cid)
           .order("created_at", { ascending: true });
 
-        const chatRows = Array.isArray(chatMessages) ? (chatMessages as any[]) : [];
+        const allChatRows = Array.isArray(chatMessages) ? (chatMessages as any[]) : [];
+        const chatPathIds = new Set(resolveActiveBranch(allChatRows, activeLeafById.get(cid) ?? null).pathIds);
+        const chatRows = allChatRows.filter((row) => chatPathIds.has(row.id));
         if (!chatRows.length) continue;
 
         let block = `\n=== Other chat (read-only) ===\nTitle: ${title}\nChat ID: ${cid}\nLast active: ${new Date(lastUsedIso).toISOString()}\n`;
@@ -1231,6 +1030,8 @@ interface ChatRequestBody {
   forceWebSearch?: boolean;
   skipUserInsert?: boolean;
   retryOfAssistantMessageId?: string;
+  // Edit of an earlier user message: the new message is inserted as its sibling on a new branch.
+  editOfMessageId?: string;
   simpleContextMode?: boolean;
   simpleContextExternalChatIds?: string[];
   advancedContextTopicIds?: string[];
@@ -1499,97 +1300,6 @@ function getApproximateLocationFromHeaders(
   return { location, timezone: timezoneHeader };
 }
 
-function extractKeywords(text: string, topicLabel?: string | null): string[] {
-  const STOP = new Set([
-    "the",
-    "and",
-    "for",
-    "with",
-    "this",
-    "that",
-    "have",
-    "from",
-    "into",
-    "about",
-    "your",
-    "you",
-    "are",
-    "was",
-    "were",
-    "will",
-    "would",
-    "shall",
-    "should",
-    "could",
-    "there",
-    "here",
-    "they",
-    "them",
-    "their",
-    "our",
-    "ours",
-    "has",
-    "had",
-    "can",
-    "but",
-    "not",
-    "just",
-    "like",
-    "then",
-    "than",
-    "when",
-    "what",
-    "why",
-    "how",
-    "who",
-    "where",
-    "which",
-    "also",
-    "into",
-    "within",
-  ]);
-
-  const base = [text || "", topicLabel || ""]
-    .join(" ")
-    .toLowerCase()
-    .replace(/[^a-z0-9\s]/g, " ");
-  const freq = new Map<string, number>();
-  for (const token of base.split(/\s+/)) {
-    if (!token || token.length < 3 || token.length > 24) continue;
-    if (STOP.has(token)) continue;
-    freq.set(token, (freq.get(token) ?? 0) + 1);
-  }
-
-  const sorted = Array.from(freq.entries())
-    .sort((a, b) => b[1] - a[1])
-    .slice(0, 12)
-    .map(([k]) => k);
-
-  return sorted;
-}
-
-function buildAutoTopicLabel(message: string): string {
-  const clean = (message || "").replace(/\s+/g, " ").trim();
-  const words = clean.split(" ").slice(0, 5);
-  const label = words
-    .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
-    .join(" ")
-    .trim();
-  return label || "New Topic";
-}
-
-function buildAutoTopicDescription(message: string): string | null {
-  const clean = (message || "").replace(/\s+/g, " ").trim();
-  if (!clean) return null;
-  return clean.length > 240 ? `${clean.slice(0, 240)}…` : clean;
-}
-
-function buildAutoTopicSummary(message: string): string | null {
-  const clean = (message || "").replace(/\s+/g, " ").trim();
-  if (!clean) return null;
-  return clean.length > 240 ? `${clean.slice(0, 240)}…` : clean;
-}
-
 const BASE_SYSTEM_PROMPT =
   "# Identity\\n" +
   "You are a helpful, web-connected assistant. Follow the user instructions.\\n\\n" +
@@ -1635,7 +1345,7 @@ async function loadPersonalizationSettingsServer(
 
 function buildSystemPromptWithPersonalization(
   basePrompt: string,
-  settings: { customInstructions?: string; baseStyle?: string },
+  settings: { customInstructions?: string; baseStyle?: string; projectInstructions?: string },
   memories: MemoryItem[],
   permanentInstructions: PermanentInstructionCacheItem[] = []
 ): string {
@@ -1687,6 +1397,11 @@ function buildSystemPromptWithPersonalization(
     prompt += "\\n\\n**Custom Instructions:**\\n" + settings.customInstructions.trim();
   }
 
+  // Project instructions come after the user-wide ones so they win where the two disagree.
+  if (settings.projectInstructions && settings.projectInstructions.trim()) {
+    prompt += "\\n\\n**Project Instructions (apply to every chat in this project):**\\n" + settings.projectInstructions.trim();
+  }
+
   if (permanentInstructions.length > 0) {
     prompt += "\\n\\n**Permanent Instructions (ALWAYS follow these):**";
     for (const inst of permanentInstructions) {
@@ -2117,8 +1832,17 @@ function safeJsonParse(value: string) {
   }
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard({ access: "user", routeClass: "chat" }, async (
+  request: NextRequest,
+  _context: unknown,
+  auth
+) => {
   const requestStartMs = Date.now();
+  const requestTrace = createRequestTrace();
+  // Releases the turn's budget reservation unless it was settled. The request releases it on any
+  // early return or throw before streaming; once the stream takes over, the stream does.
+  let releaseUnsettledBudget: (() => Promise<void>) | null = null;
+  let budgetHandedToStream = false;
   try {
     const body = (await request.json()) as ChatRequestBody;
     console.log("[chatApi] POST received", {
@@ -2143,6 +1867,7 @@ export async function POST(request: NextRequest) {
         speedModeEnabled = false,
         skipUserInsert,
         retryOfAssistantMessageId,
+        editOfMessageId,
         forceWebSearch = false,
         attachments,
         location,
@@ -2242,13 +1967,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const userId = await getCurrentUserIdServer();
-    if (!userId) {
-      return NextResponse.json(
-        { error: "User not authenticated" },
-        { status: 401 }
-      );
-    }
+    const userId = auth.userId;
     const personalizationSettingsPromise = loadPersonalizationSettingsServer(userId);
 
     // Reserve a query-writer promise slot; the actual work starts after billing validation.
@@ -2279,7 +1998,16 @@ export async function POST(request: NextRequest) {
     let simpleContextPromise: Promise<any> | null = null;
 
     const conversation = conversationData as ConversationRow;
-    const abortSignal = request.signal;
+    // A client disconnect cancels the turn only until its job is opened. From then on the client can
+    // drop and reconnect by job id; stopping goes through DELETE /api/chat/jobs/[jobId].
+    const turnAbortController = new AbortController();
+    const abortSignal = turnAbortController.signal;
+    let turnJob: ChatTurnJobRecorder | null = null;
+    const cancelIfNoJob = () => {
+      if (!turnJob) turnAbortController.abort();
+    };
+    if (request.signal.aborted) cancelIfNoJob();
+    request.signal.addEventListener("abort", cancelIfNoJob);
     const removeAssistantPlaceholder = async () => {
       if (!assistantMessageRow) return;
       try {
@@ -2295,18 +2023,43 @@ export async function POST(request: NextRequest) {
       return true;
     };
 
-    let projectMeta: { id: string; name: string | null } | null = null;
+    let projectMeta: {
+      id: string;
+      name: string | null;
+      vectorStoreId: string | null;
+      settings: ProjectSettings;
+    } | null = null;
     if (conversation.project_id) {
       const { data: projectRow } = await supabaseAny
         .from("projects")
-        .select("id, name")
+        .select(
+          "id, name, vector_store_id, instructions, default_model_family, default_speed_mode, default_search_controls, pinned_memory_types"
+        )
         .eq("id", conversation.project_id)
         .maybeSingle();
       if (projectRow) {
-        projectMeta = { id: projectRow.id, name: projectRow.name };
+        projectMeta = {
+          id: projectRow.id,
+          name: projectRow.name,
+          vectorStoreId:
+            typeof projectRow.vector_store_id === "string" && projectRow.vector_store_id.trim()
+              ? projectRow.vector_store_id.trim()
+              : null,
+          settings: parseProjectSettings(projectRow),
+        };
       }
     }
 
+    // A user-defined agent ("custom:<id>") adds its prompt, narrows the tools and can pick the model.
+    const customAgentRowId = parseCustomAgentId(agentId);
+    const customAgent = customAgentRowId
+      ? await loadCustomAgentForChat(supabaseAny, userId, customAgentRowId)
+      : null;
+    const agentAllowsTool = (tool: CustomAgentTool) => !customAgent || customAgent.allowedTools.includes(tool);
+    const agentAllowsWebSearch = agentAllowsTool("web_search");
+    const agentAllowsFileSearch = agentAllowsTool("file_search");
+    const agentAllowsCodeInterpreter = agentAllowsTool("code_interpreter");
+
     // Validate projectId if provided
     if (projectId && conversation.project_id !== projectId) {
       return NextResponse.json(
@@ -2320,7 +2073,7 @@ export async function POST(request: NextRequest) {
       try {
         const { data: retryTarget, error: retryFetchError } = await supabaseAny
           .from("messages")
-          .select("id, conversation_id, role")
+          .select("id, conversation_id, role, parent_message_id")
           .eq("id", retryOfAssistantMessageId)
           .maybeSingle();
 
@@ -2340,6 +2093,20 @@ export async function POST(request: NextRequest) {
             role: retryTarget.role,
           });
         } else {
+          // Keep the tree connected: anything built on the retried reply hangs off its parent instead,
+          // and the new reply continues from that parent.
+          const retryParentId = (retryTarget.parent_message_id as string | null) ?? null;
+          await supabaseAny
+            .from("messages")
+            .update({ parent_message_id: retryParentId })
+            .eq("parent_message_id", retryOfAssistantMessageId);
+          await supabaseAny
+            .from("conversations")
+            .update({ active_leaf_message_id: retryParentId })
+            .eq("id", conversationId)
+            .eq("user_id", userId);
+          conversation.active_leaf_message_id = retryParentId;
+
           const { error: retryDeleteError } = await supabaseAny
             .from("messages")
             .delete()
@@ -2353,6 +2120,29 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Edits fork from the edited message's parent; anything else continues the active branch.
+    let editTarget: { id: string; parent_message_id: string | null } | null = null;
+    if (editOfMessageId) {
+      const { data: editRow, error: editFetchError } = await supabaseAny
+        .from("messages")
+        .select("id, conversation_id, role, parent_message_id")
+        .eq("id", editOfMessageId)
+        .maybeSingle();
+      if (editFetchError || !editRow || editRow.conversation_id !== conversationId || editRow.role !== "user") {
+        return NextResponse.json(
+          { error: "Edited message not found" },
+          { status: 404 }
+        );
+      }
+      if (skipUserInsert) {
+        return NextResponse.json(
+          { error: "Edits must insert a new user message" },
+          { status: 400 }
+        );
+      }
+      editTarget = { id: editRow.id, parent_message_id: editRow.parent_message_id ?? null };
+    }
+
     // Conversation metadata (used for CI sessions and vector store).
     let conversationMetadata: any =
       conversation.metadata && typeof conversation.metadata === "object" ? (conversation.metadata as any) : {};
@@ -2375,6 +2165,22 @@ export async function POST(request: NextRequest) {
         }
       }
     }
+    // Data Interpreter sessions pin the conversation's container to one that holds the dataset.
+    const dataInterpreterDataset = parseDataInterpreterDataset(conversationMetadata);
+    let dataInterpreterContainerPath: string | null = null;
+    if (dataInterpreterDataset && agentAllowsCodeInterpreter) {
+      try {
+        const prepared = await ensureDataInterpreterContainer(supabaseAny, {
+          conversationId,
+          userId,
+          metadata: conversationMetadata,
+        });
+        conversationMetadata = prepared.metadata;
+        dataInterpreterContainerPath = prepared.containerPath;
+      } catch (err) {
+        console.error("[data-interpreter] Failed to prepare container:", err);
+      }
+    }
     const ciMeta = conversationMetadata.codeInterpreter && typeof conversationMetadata.codeInterpreter === "object"
       ? conversationMetadata.codeInterpreter
       : {};
@@ -2408,12 +2214,24 @@ export async function POST(request: NextRequest) {
       return meta;
     };
 
-    const recentMessagesPromise = supabaseAny
-      .from("messages")
-      .select("*")
-      .eq("conversation_id", conversationId)
-      .order("created_at", { ascending: false })
-      .limit(20);
+    // The leaf is resolved before the user insert so the path is the history this turn builds on.
+    const activeBranchPromise = loadActiveBranch(
+      supabaseAny,
+      conversationId,
+      editTarget
+        ? { leafId: editTarget.parent_message_id }
+        : conversation.active_leaf_message_id
+          ? { leafId: conversation.active_leaf_message_id }
+          : undefined
+    );
+    const recentMessagesPromise = activeBranchPromise.then(
+      async (branch) => {
+        const recentIds = branch.pathIds.slice(-20);
+        if (!recentIds.length) return { data: [] as MessageRow[], error: null };
+        return supabaseAny.from("messages").select("*").in("id", recentIds);
+      },
+      (error: unknown) => ({ data: null, error })
+    );
     const topicRowsPromise = supabaseAny
       .from("conversation_topics")
       .select("id, conversation_id, label, summary, description, parent_topic_id")
@@ -2437,6 +2255,9 @@ export async function POST(request: NextRequest) {
           role: "user",
           content: message,
           metadata: buildUserMetadata(),
+          ...(editTarget
+            ? { parent_message_id: editTarget.parent_message_id, branch_id: crypto.randomUUID() }
+            : {}),
         })
         .select()
         .single();
@@ -2548,6 +2369,12 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Messages on the branch this turn continues; context builders ignore other branches.
+    const activeBranch = await activeBranchPromise.catch(() => null);
+    const branchMessageIds = activeBranch
+      ? new Set([...activeBranch.pathIds, ...(userMessageRow?.id ? [userMessageRow.id] : [])])
+      : null;
+
     // Exclude the current user prompt from router contexts to avoid duplication.
       const recentMessagesForRouting: MessageRow[] = Array.isArray(recentMessages)
         ? recentMessages.filter((m: MessageRow) => m.id !== userMessageRow?.id)
@@ -2590,12 +2417,13 @@ export async function POST(request: NextRequest) {
           userId,
           includeExternalChats,
           normalizedExternalChatIds,
-          CONTEXT_LIMIT_TOKENS
+          CONTEXT_LIMIT_TOKENS,
+          branchMessageIds
         );
       })();
     }
 
-    if (useCustomWebSearch && trimmedMessage) {
+    if (useCustomWebSearch && agentAllowsWebSearch && trimmedMessage) {
       const recentMessagesForSearch = (recentMessagesForRouting || [])
         .slice(-6)
         .map((m: any) => ({
@@ -2641,7 +2469,17 @@ export async function POST(request: NextRequest) {
         languageCode: primaryLang || undefined,
         },
         preferredSourceUrls,
-        searchControls,
+        // Controls left on Auto fall back to the project's search defaults.
+        searchControls: {
+          sourceLimit:
+            searchControls?.sourceLimit && searchControls.sourceLimit !== "auto"
+              ? searchControls.sourceLimit
+              : projectMeta?.settings.defaultSearchControls.sourceLimit ?? searchControls?.sourceLimit,
+          excerptMode:
+            searchControls?.excerptMode && searchControls.excerptMode !== "auto"
+              ? searchControls.excerptMode
+              : projectMeta?.settings.defaultSearchControls.excerptMode ?? searchControls?.excerptMode,
+        },
       };
       numericSourceLimit =
         typeof customWebSearchInput.searchControls?.sourceLimit === "number"
@@ -2730,8 +2568,21 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate and normalize model settings with progressive restrictions based on usage
+    // Project defaults stand in for whatever the composer left on Auto (Speed Mode still wins).
+    const projectSettings = projectMeta?.settings ?? null;
     let modelFamily = normalizeModelFamily(modelFamilyOverride ?? "auto");
-    const speedMode = normalizeSpeedMode(speedModeOverride ?? "auto");
+    // The agent's default model is more specific than the project's.
+    if (modelFamily === "auto" && customAgent && !forceSpeedMode) {
+      modelFamily = customAgent.defaultModelFamily;
+    }
+    if (modelFamily === "auto" && projectSettings && !forceSpeedMode) {
+      modelFamily = projectSettings.defaultModelFamily;
+    }
+    const requestedSpeedMode = normalizeSpeedMode(speedModeOverride ?? "auto");
+    const speedMode =
+      requestedSpeedMode === "auto" && projectSettings && !forceSpeedMode
+        ? projectSettings.defaultSpeedMode
+        : requestedSpeedMode;
     const reasoningEffortHint = reasoningEffortOverride;
     if (forceSpeedMode && modelFamily === "auto") {
       modelFamily = "gpt-5-nano";
@@ -2837,14 +2688,23 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    if (generationMode === "image" && !agentAllowsTool("image_generation")) {
+      return NextResponse.json(
+        { error: `Image generation is turned off for the agent "${customAgent?.name ?? "agent"}"` },
+        { status: 400 }
+      );
+    }
+
     if (generationMode === "image") {
-      const apiKey = process.env.GOOGLE_API_KEY || process.env.GEMINI_API_KEY;
-      if (!apiKey) {
+      const imageProvider = getChatProvider("gemini");
+      const missingImageConfig = imageProvider.getMissingConfig();
+      if (missingImageConfig || !imageProvider.generateImage) {
         return NextResponse.json(
-          { error: "Missing image API key (set GOOGLE_API_KEY or GEMINI_API_KEY)" },
+          { error: `Missing image API key (set ${missingImageConfig ?? "GOOGLE_API_KEY or GEMINI_API_KEY"})` },
           { status: 500 }
         );
       }
+      const generateImage = imageProvider.generateImage.bind(imageProvider);
 
       const resolvedModel = resolveGeminiImageModel(imageModel);
       if (!resolvedModel) {
@@ -2873,8 +2733,7 @@ export async function POST(request: NextRequest) {
             controller.enqueue(encoder.encode(JSON.stringify(obj) + "\n"));
 
           try {
-            const result = await callGeminiStreamGenerateContent({
-              apiKey,
+            const result = await generateImage({
               model: resolvedModel,
               prompt: message,
               onTextDelta: async (delta) => {
@@ -2961,6 +2820,7 @@ export async function POST(request: NextRequest) {
                   metadata: metadataPayload,
                   preamble: null,
                   topic_id: null,
+                  ...(userMessageRow?.id ? { parent_message_id: userMessageRow.id } : {}),
                 })
                 .select()
                 .single();
@@ -3072,30 +2932,35 @@ export async function POST(request: NextRequest) {
     if (!allowLLMRouters) {
       console.log("[chatApi] Speed Mode enabled - skipping LLM routers (decision/writer).");
     }
+    const decisionInput: DecisionRouterInput = {
+      userMessage: message,
+      recentMessages: (recentMessagesForRouting || []).slice(-6).map((m: any) => ({
+        role: m.role,
+        content: m.content,
+        topic_id: (m as any).topic_id ?? null,
+      })),
+      activeTopicId,
+      currentConversationId: conversationId,
+      speedMode,
+      modelPreference: modelFamily,
+      memories: memoriesForDecision,
+      topics: Array.isArray(topicsForRouter) ? topicsForRouter : [],
+      artifacts: Array.isArray(artifactsForRouter) ? artifactsForRouter : [],
+    };
     const decision = await runDecisionRouter({
-      input: {
-        userMessage: message,
-        recentMessages: (recentMessagesForRouting || []).slice(-6).map((m: any) => ({
-          role: m.role,
-          content: m.content,
-          topic_id: (m as any).topic_id ?? null,
-        })),
-        activeTopicId,
-        currentConversationId: conversationId,
-        speedMode,
-        modelPreference: modelFamily,
-        memories: memoriesForDecision,
-        topics: Array.isArray(topicsForRouter) ? topicsForRouter : [],
-        artifacts: Array.isArray(artifactsForRouter) ? artifactsForRouter : [],
-      },
+      input: decisionInput,
       allowLLM: allowLLMRouters,
       userId,
       conversationId,
     });
     if (await exitIfAborted()) {
-      return;
+      // The client is gone; nothing reads this response.
+      return new Response(null, { status: 204 });
     }
     console.log("[decision-router] output:", JSON.stringify(decision, null, 2));
+    // Copy before the cost-based overrides below rewrite the model.
+    requestTrace.trace.decision = { input: decisionInput, output: { ...decision }, llmAllowed: allowLLMRouters };
+    requestTrace.mark("decision");
 
     const effortIsMediumOrHigher =
       decision.effort === "medium" || decision.effort === "high" || decision.effort === "xhigh";
@@ -3234,15 +3099,14 @@ export async function POST(request: NextRequest) {
       resolvedFamily: grokRequested ? GROK_FAST_FAMILY : decision.model,
       reasoning: grokRequested && !effortIsMediumOrHigher ? undefined : { effort: decision.effort },
       routedBy: "code" as const,
-      availableMemoryTypes: decision.memoryTypesToLoad,
+      availableMemoryTypes: Array.from(
+        new Set([...decision.memoryTypesToLoad, ...(projectMeta?.settings.pinnedMemoryTypes ?? [])])
+      ),
       memoriesToWrite: [] as any[],
       memoriesToDelete: [] as any[],
       permanentInstructionsToWrite: [] as any[],
       permanentInstructionsToDelete: [] as any[],
     };
-    const isGrokModel =
-      modelConfig.model === GROK_FAST_NON_REASONING_MODEL_ID ||
-      modelConfig.model === GROK_FAST_REASONING_MODEL_ID;
     const reasoningEffort = decision.effort ?? "none";
 
     // Load personalization settings (used for both context building and memory selection)
@@ -3327,6 +3191,7 @@ export async function POST(request: NextRequest) {
 	        conversationId,
 	        routerDecision: resolvedTopicDecision,
 	        manualTopicIds,
+	        branchMessageIds,
 	      });
 	      contextMessages = contextResult.messages;
 	      contextSource = contextResult.source;
@@ -3334,6 +3199,14 @@ export async function POST(request: NextRequest) {
         contextMessageIds = contextResult.includedMessageIds;
 	      summaryCount = contextResult.summaryCount;
       artifactMessagesCount = contextResult.artifactCount;
+      requestTrace.setContext({
+        source: contextSource,
+        includedTopicIds,
+        includedMessageIds: contextMessageIds,
+        summaryCount,
+        artifactCount: artifactMessagesCount,
+      });
+      requestTrace.mark("context");
       console.log(
         `[context-builder] ${contextSource} mode - context ${contextMessages.length} msgs (summaries: ${summaryCount}, artifacts: ${artifactMessagesCount}, topics: ${
           includedTopicIds.length ? includedTopicIds.join(", ") : "none"
@@ -3437,6 +3310,7 @@ export async function POST(request: NextRequest) {
             : ["identity"];
         const memoryStrategy: MemoryStrategy = {
           types: memoryTypes,
+          query: message,
           limit: 10,
         };
 
@@ -3449,6 +3323,8 @@ export async function POST(request: NextRequest) {
           { availableMemoryTypes }
         );
         console.log(`[memory] Loaded ${relevantMemories.length} relevant memories`);
+        requestTrace.trace.memories = relevantMemories.map((m) => ({ id: m.id, type: m.type, title: m.title }));
+        requestTrace.mark("memories");
       }
     } catch (error) {
       console.error("[memory] Failed to load memories:", error);
@@ -3469,7 +3345,8 @@ export async function POST(request: NextRequest) {
         try {
           const res = await fetch(`${request.nextUrl.origin}/api/files/read`, {
             method: "POST",
-            headers: { "Content-Type": "application/json" },
+            // Forward the session so the route guard sees the same signed-in user.
+            headers: { "Content-Type": "application/json", cookie: request.headers.get("cookie") ?? "" },
             body: JSON.stringify({ filePath: relPath }),
           });
           if (!res.ok) {
@@ -3733,6 +3610,17 @@ export async function POST(request: NextRequest) {
     supabaseAny,
     contextMessageIds
   );
+  // Project knowledge base files are searchable from every chat in the project.
+  if (projectMeta?.vectorStoreId && !vectorStoreIdsForRequest.includes(projectMeta.vectorStoreId)) {
+    vectorStoreIdsForRequest.unshift(projectMeta.vectorStoreId);
+  }
+  // So are the selected agent's knowledge files; an agent without file_search gets none.
+  if (customAgent?.vectorStoreId && !vectorStoreIdsForRequest.includes(customAgent.vectorStoreId)) {
+    vectorStoreIdsForRequest.unshift(customAgent.vectorStoreId);
+  }
+  if (!agentAllowsFileSearch) {
+    vectorStoreIdsForRequest.length = 0;
+  }
   console.log(`[chatApi] Final message length: ${expandedMessageWithAttachments.length} chars`);
   console.log(
     `[chatApi] Vector store IDs (context): ${
@@ -3757,6 +3645,12 @@ export async function POST(request: NextRequest) {
         ? BASE_SYSTEM_PROMPT
         : stripMemoryBehaviorBlock(BASE_SYSTEM_PROMPT),
       workspaceInstruction,
+      ...(customAgent?.systemPrompt
+        ? [`You are acting as the user's custom agent "${customAgent.name}". Follow its instructions:\n${customAgent.systemPrompt}`]
+        : []),
+      ...(dataInterpreterDataset
+        ? [buildDataInterpreterInstructions(dataInterpreterDataset, dataInterpreterContainerPath)]
+        : []),
       `When it is helpful to show images (e.g., the user asks for pictures), you may include inline images using Markdown image syntax like ![alt](https://...direct-image-url). Limit to at most ${MAX_ASSISTANT_IMAGES_PER_MESSAGE} images per message.\n- Prefer DIRECT image URLs that return an image content-type (image/jpeg, image/png, image/webp, image/gif).\n- Avoid unstable random-image endpoints like source.unsplash.com (they often fail or change). If you use Unsplash, prefer direct images.unsplash.com URLs or a normal page URL with an OG image.\n- If you only have a page URL, include it as an image URL (the server will try to resolve an OG image).`,
       "You can inline-read files when the user includes tokens like <<file:relative/path/to/file>> in their prompt. Replace those tokens with the file content and use it in your reasoning.",
     ];
@@ -3784,9 +3678,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (dataInterpreterDataset) {
+      const notebookRecap = await loadNotebookRecap(supabaseAny, conversationId);
+      if (notebookRecap) liveInstructionParts.push(notebookRecap);
+    }
+
     const cachedSystemInstructions = buildSystemPromptWithPersonalization(
       cachedSystemInstructionParts.join("\n\n"),
-      personalizationSettings ?? {},
+      { ...(personalizationSettings ?? {}), projectInstructions: projectMeta?.settings.instructions ?? undefined },
       [],
       permanentInstructions
     );
@@ -3851,46 +3750,112 @@ export async function POST(request: NextRequest) {
       type: "message" as const,
     };
 
-    // Initialize OpenAI client - use dynamic import to avoid hard dependency at build time
-    let openai: OpenAIClient;
-    
-    const selectedApiKey = isGrokModel ? process.env.GROK_API_KEY : process.env.OPENAI_API_KEY;
-    const selectedBaseUrl = isGrokModel ? GROK_BASE_URL : undefined;
-    if (!selectedApiKey) {
-      const missingKey = isGrokModel ? "GROK_API_KEY" : "OPENAI_API_KEY";
-      console.error(`${missingKey} is not set in environment`);
-      return NextResponse.json(
-        {
-          error: "Model API key not configured",
-          details: `${missingKey} environment variable is missing`,
+    // Reserve the turn's worst-case cost up front; downgrade or refuse when it doesn't fit.
+    let budgetReservation: BudgetReservation | null = null;
+    let budgetClient: any = null;
+    let turnSpendUsd = 0;
+    try {
+      const contextTokenEstimate =
+        estimateTokens(cachedSystemInstructions) +
+        estimateTokens(memoryBlock ?? "") +
+        estimateTokens(liveInstructionParts.join("\n\n")) +
+        estimateTokens(expandedMessageWithAttachments) +
+        baseMessagesForAPI.reduce(
+          (sum: number, m: ContextMessage) =>
+            sum + estimateTokens(typeof m.content === "string" ? m.content : JSON.stringify(m.content)),
+          0
+        );
+      budgetClient = await supabaseServerAdmin();
+      const budgetResult = await reserveChatBudget({
+        supabase: budgetClient,
+        userId,
+        projectId: conversation.project_id ?? null,
+        conversationId,
+        requested: {
+          model: modelConfig.model,
+          resolvedFamily: modelConfig.resolvedFamily,
+          effort: modelConfig.reasoning?.effort ?? null,
         },
-        { status: 500 }
-      );
+        inputTokens: contextTokenEstimate,
+        tools: {
+          fileSearch: vectorStoreIdsForRequest.length > 0,
+          webSearch: useCustomWebSearch && agentAllowsWebSearch,
+          codeInterpreter: agentAllowsCodeInterpreter,
+          codeInterpreterBilled: Boolean(
+            configuredCiContainerId && billedCiContainerIds.includes(configuredCiContainerId)
+          ),
+        },
+        attachments: {
+          images: userContentParts.filter((part) => part?.type === "input_image").length,
+          files: inputFileParts.length,
+        },
+      });
+      if (!budgetResult.ok) {
+        const { refusal } = budgetResult;
+        console.log(
+          `[budget] Refused turn for ${userId}: needs $${refusal.requiredUsd.toFixed(4)}, $${refusal.availableUsd.toFixed(4)} left of $${refusal.limitUsd.toFixed(2)} (${refusal.reason})`
+        );
+        return NextResponse.json(
+          {
+            error: "Budget exceeded",
+            message:
+              refusal.reason === "project_limit"
+                ? `This project has $${refusal.availableUsd.toFixed(2)} left of its $${refusal.limitUsd.toFixed(2)} monthly cap, which isn't enough for this request. Raise the project cap or continue outside the project.`
+                : `This request could cost up to $${refusal.requiredUsd.toFixed(2)}, but only $${refusal.availableUsd.toFixed(2)} of your $${refusal.limitUsd.toFixed(2)} monthly limit is left. Please upgrade your plan to continue.`,
+            reason: refusal.reason,
+            currentSpending: monthlySpending,
+            limit: refusal.limitUsd,
+            planType: userPlan,
+            forceLimitReachedLabel: refusal.reason === "user_limit",
+          },
+          { status: 429 }
+        );
+      }
+      budgetReservation = budgetResult.reservation;
+      const reservationId = budgetReservation.id;
+      const reservationClient = budgetClient;
+      releaseUnsettledBudget = async () => {
+        releaseUnsettledBudget = null;
+        await releaseBudgetReservation(reservationClient, reservationId);
+      };
+      if (budgetReservation.downgradedFrom) {
+        console.log(
+          `[budget] Downgraded ${budgetReservation.downgradedFrom} -> ${budgetReservation.model} to fit remaining budget`
+        );
+        modelConfig = {
+          ...modelConfig,
+          model: budgetReservation.model,
+          resolvedFamily: budgetReservation.resolvedFamily,
+          reasoning: budgetReservation.effort ? { effort: budgetReservation.effort } : undefined,
+        };
+      }
+    } catch (budgetErr) {
+      // Infrastructure failure (e.g. the reservation RPC is missing): the plan-limit check above
+      // still applies, so continue without a reservation rather than failing the turn.
+      console.error("[budget] Failed to reserve budget; continuing without a reservation:", budgetErr);
     }
-    try {
-      const OpenAIClass = await getOpenAIConstructor();
-      openai = new OpenAIClass(
-        buildOpenAIClientOptions({
-          apiKey: selectedApiKey,
-          ...(selectedBaseUrl ? { baseURL: selectedBaseUrl } : {}),
-        })
-      );
-      console.log(
-        `OpenAI client initialized successfully (${isGrokModel ? "xAI" : "OpenAI"})`
-      );
-    } catch (importError) {
-      console.error(
-        "OpenAI SDK not installed. Please run: npm install openai",
-        importError
-      );
+
+    // Resolve the chat provider for this model family (OpenAI, xAI or a configured endpoint).
+    const { provider: chatProvider, model: providerModel } = resolveChatProviderForFamily(
+      modelConfig.resolvedFamily as Exclude<ModelFamily, "auto">,
+      modelConfig.model
+    );
+    const missingProviderConfig = chatProvider.getMissingConfig();
+    if (missingProviderConfig) {
+      console.error(`${missingProviderConfig} is not set in environment`);
       return NextResponse.json(
         {
-          error:
-            "OpenAI SDK not configured. Please install the openai package and set OPENAI_API_KEY.",
+          error: "Model API key not configured",
+          details: `${missingProviderConfig} environment variable is missing`,
         },
         { status: 500 }
       );
     }
+    const providerCapabilities = chatProvider.capabilities;
+    console.log(`Chat provider selected (${chatProvider.label})`, {
+      provider: chatProvider.id,
+      model: providerModel,
+    });
 
     // Use generic Tool to avoid strict preview-only type union on WebSearchTool in SDK types
     // NOTE: web_search tool is NOT used; we use our fast-web-pipeline instead
@@ -3901,7 +3866,7 @@ export async function POST(request: NextRequest) {
     
     // Memory management is now handled by the router model
     // No need for save_memory tool - router decides what to save based on user prompts
-    let responseStream: any;
+    let responseStream: ChatResponseStream | null = null;
     let webSearchCallCount = 0;
     let fileSearchCallCount = 0;
     let discoveredCiContainerId: string | null = configuredCiContainerId;
@@ -3949,6 +3914,8 @@ export async function POST(request: NextRequest) {
               metadata: { containerId },
             });
           billedCiContainerIds.push(containerId);
+          turnSpendUsd += CODE_INTERPRETER_SESSION_COST;
+          requestTrace.cost("code_interpreter_session", CODE_INTERPRETER_SESSION_COST);
           console.log(`[usage] Logged code_interpreter session container=${containerId} cost=$${CODE_INTERPRETER_SESSION_COST.toFixed(2)}`);
         } catch (err) {
           console.error("[usage] Failed to log code_interpreter session cost:", err);
@@ -4024,8 +3991,25 @@ export async function POST(request: NextRequest) {
     let assistantMessageRow: MessageRow | null = null;
     let assistantInsertPromise: Promise<MessageRow | null> | null = null;
 
-    const readableStream = new ReadableStream({
-      async start(controller) {
+    try {
+      turnJob = await createChatTurnJob(supabaseAny, {
+        userId,
+        conversationId,
+        userMessageId: userMessageRow?.id ?? null,
+        onCancel: () => turnAbortController.abort(),
+      });
+    } catch (jobErr) {
+      console.error("[chat-turn-job] Failed to open turn job; the turn won't survive a disconnect:", jobErr);
+    }
+    let settleTurn = () => {};
+    const turnSettled = new Promise<void>((resolve) => {
+      settleTurn = resolve;
+    });
+    let postResponseJobsQueued = false;
+    let turnFailed = false;
+
+    const turnStreamSource = {
+      async start(controller: ReadableStreamDefaultController<Uint8Array>) {
         let controllerClosed = false;
         const closeControllerIfNeeded = () => {
           if (controllerClosed) return;
@@ -4050,8 +4034,13 @@ export async function POST(request: NextRequest) {
           void exitIfAborted();
         };
         abortSignal.addEventListener("abort", handleRequestAbort);
+        // With a turn job the client going away only detaches the stream; events keep being logged.
+        const handleClientDisconnect = () => closeControllerIfNeeded();
+        request.signal.addEventListener("abort", handleClientDisconnect);
           const encoder = new TextEncoder();
           const enqueueJson = (payload: Record<string, unknown>) => {
+            turnJob?.push(payload);
+            if (controllerClosed) return;
             controller.enqueue(encoder.encode(`${JSON.stringify(payload)}\n`));
           };
           sendStatusUpdate = (status: SearchStatusEvent) => enqueueJson({ status });
@@ -4120,6 +4109,19 @@ export async function POST(request: NextRequest) {
           }
           pipelineGate = customWebSearchResult?.gate?.enoughEvidence === true;
           pipelineSkipped = customWebSearchResult?.skipped === true;
+          if (customWebSearchResult) {
+            requestTrace.trace.web = {
+              queries: customWebSearchResult.queries ?? [],
+              sources: customWebSearchResult.sources ?? [],
+              resultCount: customWebSearchResult.results?.length ?? 0,
+              enoughEvidence: pipelineGate,
+              skipped: pipelineSkipped,
+              skipReason: customWebSearchResult.skipReason ?? null,
+              serpCacheHits: customWebSearchResult.serpCacheHits ?? 0,
+              pageCacheHits: customWebSearchResult.pageCacheHits ?? 0,
+            };
+          }
+          requestTrace.mark("webPipeline");
           customWebSearchContext =
             customWebSearchResult && pipelineGate
               ? formatWebPipelineContext(customWebSearchResult)
@@ -4145,7 +4147,7 @@ export async function POST(request: NextRequest) {
           return;
         }
 
-        const allowWebSearch = !useCustomWebSearch || (!pipelineGate && !pipelineSkipped);
+        const allowWebSearch = agentAllowsWebSearch && (!useCustomWebSearch || (!pipelineGate && !pipelineSkipped));
         const requireWebSearch = forceWebSearch && (!useCustomWebSearch || !pipelineGate);
         const webSearchInstructionParts = [
           ...(useCustomWebSearch && pipelineGate
@@ -4183,12 +4185,14 @@ export async function POST(request: NextRequest) {
         const messagesForAPI = [...baseMessagesForAPI, ...liveInstructionMessages, userMessageForAPI];
 
         const toolsForRequest: any[] = [];
-        if (!isGrokModel) {
+        if (providerCapabilities.hostedTools) {
           // Use only our fast-web-pipeline for web search, not OpenAI's built-in web_search tool
           if (vectorStoreIdsForRequest.length) {
             toolsForRequest.push(fileSearchTool as Tool);
           }
-          toolsForRequest.push(codeInterpreterTool);
+          if (agentAllowsCodeInterpreter) {
+            toolsForRequest.push(codeInterpreterTool);
+          }
         }
         // Do not use OpenAI's web_search tool; web search is handled by our fast-web-pipeline callback
         const toolChoice: ToolChoiceOptions | undefined = undefined;
@@ -4222,7 +4226,7 @@ export async function POST(request: NextRequest) {
         });
 
         const streamOptions: any = {
-          model: modelConfig.model,
+          model: providerModel,
           instructions: cachedSystemInstructions,
           input: messagesForAPI,
           stream: true,
@@ -4234,9 +4238,6 @@ export async function POST(request: NextRequest) {
             ...(userMessageRow?.id ? { message_id: userMessageRow.id } : {}),
           },
         };
-        if (isGrokModel) {
-          delete streamOptions.metadata; // xAI does not accept a metadata field
-        }
         const styleTuning = getStyleTuning(personalizationSettings?.baseStyle);
         if (styleTuning.textVerbosity) {
           streamOptions.text = { format: { type: "text" }, verbosity: styleTuning.textVerbosity };
@@ -4248,7 +4249,7 @@ export async function POST(request: NextRequest) {
         if (supportsExtendedCache) {
           streamOptions.prompt_cache_retention = "24h";
         }
-        if (projectId) {
+        if (projectId && streamOptions.metadata) {
           streamOptions.metadata.project_id = projectId;
         }
         if (toolsForRequest.length) {
@@ -4257,9 +4258,17 @@ export async function POST(request: NextRequest) {
         if (toolChoice) {
           streamOptions.tool_choice = toolChoice;
         }
-        if (!isGrokModel && modelConfig.reasoning) {
+        if (dataInterpreterDataset && toolsForRequest.includes(codeInterpreterTool)) {
+          // Notebook steps keep the sandbox logs, which the API only returns when asked for.
+          streamOptions.include = ["code_interpreter_call.outputs"];
+        }
+        if (providerCapabilities.reasoningEffort && modelConfig.reasoning) {
           streamOptions.reasoning = { effort: modelConfig.reasoning.effort };
         }
+        if (budgetReservation) {
+          // Bounds the real cost to what was reserved (reasoning tokens count toward this cap).
+          streamOptions.max_output_tokens = budgetReservation.maxOutputTokens;
+        }
         // service_tier left unset to use standard tier for all plans.
 
         console.log("[chatApi] LLM payload", {
@@ -4275,7 +4284,8 @@ export async function POST(request: NextRequest) {
 
         try {
           const streamStartPromise = (async () => {
-            responseStream = await openai.responses.stream(streamOptions);
+            // The provider drops any fields its capabilities don't cover (metadata, tools, reasoning).
+            responseStream = await chatProvider.streamResponse(streamOptions);
             streamStartMs = Date.now();
             return "started" as const;
           })();
@@ -4301,7 +4311,7 @@ export async function POST(request: NextRequest) {
             });
             enqueueJson({ token: fallbackMessage });
             enqueueJson({ done: true });
-            controller.close();
+            closeControllerIfNeeded();
             return;
           }
           console.log(
@@ -4310,6 +4320,16 @@ export async function POST(request: NextRequest) {
             useFlex ? "(flex)" : "(standard)"
           );
           requestStartMs = Date.now();
+          requestTrace.mark("streamStart");
+          requestTrace.trace.model = {
+            requested: modelFamily,
+            used: modelConfig.model,
+            resolvedFamily: modelConfig.resolvedFamily ?? null,
+            effort: reasoningEffort ?? null,
+            routedBy: modelConfig.routedBy ?? null,
+            downgradedFrom: budgetReservation?.downgradedFrom ?? null,
+            maxOutputTokens: budgetReservation?.maxOutputTokens ?? null,
+          };
           if (await stopIfAborted()) {
             return;
           }
@@ -4328,7 +4348,7 @@ export async function POST(request: NextRequest) {
           enqueueJson({ error: "stream_start_failed" });
           enqueueJson({ token: "Failed to start the model stream. Please retry." });
           enqueueJson({ done: true });
-          controller.close();
+          closeControllerIfNeeded();
           return;
         }
         let doneSent = false;
@@ -4356,8 +4376,9 @@ export async function POST(request: NextRequest) {
                   conversation_id: conversationId,
                   role: "assistant",
                   content: initialContent,
-                  metadata: { streaming: true, reasoningEffort },
+                  metadata: { streaming: true, reasoningEffort, ...(turnJob ? { turnJobId: turnJob.id } : {}) },
                   topic_id: resolvedTopicDecision.primaryTopicId ?? null,
+                  ...(userMessageRow?.id ? { parent_message_id: userMessageRow.id } : {}),
                 })
                 .select()
                 .single();
@@ -4380,6 +4401,7 @@ export async function POST(request: NextRequest) {
           assistantInsertPromise.then((row) => {
             if (row) {
               assistantMessageRow = row;
+              turnJob?.setAssistantMessageId(row.id);
             }
           });
         };
@@ -4405,6 +4427,7 @@ export async function POST(request: NextRequest) {
               enqueueJson({ token });
               if (!firstTokenAtMs) {
                 firstTokenAtMs = Date.now();
+                requestTrace.mark("firstToken");
                 // Send model metadata on first token so UI can update model tag immediately
                 enqueueJson({
                   model_info: {
@@ -4447,12 +4470,15 @@ export async function POST(request: NextRequest) {
               if (isStart && !ciStatusActive) {
                 ciStatusActive = true;
                 sendStatusUpdate({ type: "code-interpreter-start" });
+                requestTrace.toolCall({ type: "code_interpreter", status: "started" });
               } else if (isDone && ciStatusActive) {
                 ciStatusActive = false;
                 sendStatusUpdate({ type: "code-interpreter-complete" });
+                requestTrace.toolCall({ type: "code_interpreter", status: "completed" });
               } else if (isError) {
                 ciStatusActive = false;
                 sendStatusUpdate({ type: "code-interpreter-error" });
+                requestTrace.toolCall({ type: "code_interpreter", status: "failed" });
               }
             } else if (
               event.type === "response.web_search_call.in_progress" ||
@@ -4469,6 +4495,11 @@ export async function POST(request: NextRequest) {
               });
               noteDomainsFromCall((event as { item?: unknown }).item as WebSearchCall);
               webSearchCallCount += 1;
+              requestTrace.toolCall({
+                type: "web_search",
+                query: (event as { query?: string }).query ?? null,
+                status: "completed",
+              });
             } else if (event.type === "response.file_search_call.in_progress") {
               sendStatusUpdate({
                 type: "file-search-start",
@@ -4480,6 +4511,11 @@ export async function POST(request: NextRequest) {
                 query: (event as { query?: string }).query ?? "file search",
               });
               fileSearchCallCount += 1;
+              requestTrace.toolCall({
+                type: "file_search",
+                query: (event as { query?: string }).query ?? null,
+                status: "completed",
+              });
             } else if (event.type === "response.function_call.in_progress") {
               // Memory tool called
               const functionName = (event as any).function?.name;
@@ -4501,6 +4537,7 @@ export async function POST(request: NextRequest) {
               });
               
               console.log(`[function-tool] Function call completed: ${functionName}`);
+              requestTrace.toolCall({ type: "function", name: functionName ?? null, status: "completed" });
             } else if (
               event.type === "response.output_item.added" ||
               event.type === "response.output_item.done"
@@ -4611,6 +4648,9 @@ export async function POST(request: NextRequest) {
           );
 
           console.log("[usage] Calculated cost:", estimatedCost);
+          turnSpendUsd += estimatedCost;
+          requestTrace.trace.usage = { inputTokens, cachedTokens, outputTokens };
+          requestTrace.cost(modelConfig.model, estimatedCost);
 
           // Compute context usage (input + cached tokens) against the 350k limit
           const totalContextTokens = inputTokens + cachedTokens;
@@ -4654,6 +4694,8 @@ export async function POST(request: NextRequest) {
         // Tool call costs
         if (userId && customWebSearchResult?.cost?.serpRequests) {
           const serpCost = customWebSearchResult.cost.serpEstimatedUsd ?? 0;
+          turnSpendUsd += serpCost;
+          requestTrace.cost("brightdata:serp", serpCost);
           if (serpCost > 0) {
             try {
               await logUsageRecord({
@@ -4680,6 +4722,8 @@ export async function POST(request: NextRequest) {
         }
         if (userId && customWebSearchResult?.cost?.brightdataUnlockerRequests) {
           const unlockerCost = customWebSearchResult.cost.brightdataUnlockerEstimatedUsd ?? 0;
+          turnSpendUsd += unlockerCost;
+          requestTrace.cost("brightdata:unlocker", unlockerCost);
           if (unlockerCost > 0) {
             try {
               await logUsageRecord({
@@ -4707,6 +4751,8 @@ export async function POST(request: NextRequest) {
 
         if (userId) {
           const webSearchCost = calculateToolCallCost("web_search", webSearchCallCount);
+          turnSpendUsd += webSearchCost;
+          requestTrace.cost("tool:web_search", webSearchCost);
           if (webSearchCallCount > 0 && webSearchCost > 0) {
             try {
               await logUsageRecord({
@@ -4732,6 +4778,8 @@ export async function POST(request: NextRequest) {
             }
 
             const fileSearchCost = calculateToolCallCost("file_search", fileSearchCallCount);
+            turnSpendUsd += fileSearchCost;
+            requestTrace.cost("tool:file_search", fileSearchCost);
             if (fileSearchCallCount > 0 && fileSearchCost > 0) {
               try {
                 await logUsageRecord({
@@ -4790,6 +4838,7 @@ export async function POST(request: NextRequest) {
           if (rehostedImages.length) {
             (metadataPayload as any).inlineImages = rehostedImages;
           }
+          metadataPayload.traceId = requestTrace.id;
           const combinedDomains = mergeDomainLabels(
             metadataPayload.searchedDomains,
             liveSearchDomainList
@@ -4861,6 +4910,7 @@ export async function POST(request: NextRequest) {
 	                metadata: metadataPayload,
 	                preamble: preambleBuffer || null,
 	                topic_id: resolvedTopicDecision.primaryTopicId ?? null,
+	                ...(userMessageRow?.id ? { parent_message_id: userMessageRow.id } : {}),
 	              })
 	              .select()
 	              .single();
@@ -4888,7 +4938,8 @@ export async function POST(request: NextRequest) {
 	            }
 	          }
 
-          // Run writer router now that we have the assistant reply (topic metadata, memories, artifacts).
+          // The writer router (topic metadata, memories, artifacts), code-block artifact extraction
+          // and the topic snapshot run on the background worker once the reply is saved.
           const WRITER_ROUTER_CONTINUE_INTERVAL = 5; // run every N user turns on continue_active so context remains in the 6-message window
           const writerRouterGate = (() => {
             if (decision.topicAction === "new" || decision.topicAction === "reopen_existing") {
@@ -4912,285 +4963,12 @@ export async function POST(request: NextRequest) {
               userTurnsSinceLast,
             };
           })();
-
-          let writer: Awaited<ReturnType<typeof runWriterRouter>> | null = null;
-          if (writerRouterGate.run) {
-            try {
-            const writerRecentMessages: Array<{ role: "user" | "assistant" | "system"; content: string }> = (
-              recentMessagesForRouting || []
-            )
-              .slice(-6)
-              .map((m: any) => ({
-                  role: (m.role as "user" | "assistant" | "system") ?? "user",
-                  content: m.content ?? "",
-                }));
-              const writerMemoryMessages: Array<{ role: "user" | "assistant" | "system"; content: string }> = [
-                ...writerRecentMessages.filter((m) => m.role === "user"),
-                { role: "user", content: message },
-              ];
-            const writerTopicId = resolvedTopicDecision.primaryTopicId ?? activeTopicId ?? null;
-            const writerTopicMeta =
-              writerTopicId && Array.isArray(topicsForRouter)
-                ? (topicsForRouter as any[]).find((t: any) => t.id === writerTopicId) ?? null
-                : null;
-            const writerTopics = writerTopicMeta
-              ? [
-                  {
-                    id: writerTopicMeta.id,
-                    label: writerTopicMeta.label,
-                    summary: writerTopicMeta.summary ?? null,
-                    description: writerTopicMeta.description ?? null,
-                  },
-                ]
-              : [];
-            writer = await runWriterRouter(
-              {
-                userMessageText: message,
-                assistantMessageText: assistantContent,
-                recentMessages: writerRecentMessages,
-                memoryRelevantMessages: writerMemoryMessages.slice(-6),
-                topics: writerTopics,
-                currentTopic: {
-                  id: writerTopicId ?? null,
-                  label: writerTopicMeta?.label ?? currentTopicMeta?.label ?? null,
-                  summary: writerTopicMeta?.summary ?? currentTopicMeta?.summary ?? null,
-                  description: writerTopicMeta?.description ?? currentTopicMeta?.description ?? null,
-                },
-              },
-                decision.topicAction,
-                { allowLLM: allowLLMRouters, userId, conversationId }
-              );
-              console.log("[writer-router] output (post-stream):", JSON.stringify(writer, null, 2));
-              if (persistedAssistantRow?.id) {
-                try {
-                  const baseMeta =
-                    persistedAssistantRow.metadata &&
-                    typeof persistedAssistantRow.metadata === "object" &&
-                    !Array.isArray(persistedAssistantRow.metadata)
-                      ? (persistedAssistantRow.metadata as Record<string, unknown>)
-                      : {};
-                  const nextMeta = {
-                    ...baseMeta,
-                    writer_router_ran: true,
-                  };
-                  const { error: writerMetaErr } = await supabaseAny
-                    .from("messages")
-                    .update({ metadata: nextMeta })
-                    .eq("id", persistedAssistantRow.id);
-                  if (writerMetaErr) {
-                    console.warn("[writer-router] Failed to tag assistant message metadata:", writerMetaErr);
-                  } else {
-                    persistedAssistantRow = { ...persistedAssistantRow, metadata: nextMeta } as any;
-                  }
-                } catch (tagErr) {
-                  console.warn("[writer-router] Failed to tag writer run on message:", tagErr);
-                }
-              }
-            } catch (writerErr) {
-              console.error("[writer-router] failed post-stream:", writerErr);
-            }
-          } else {
+          if (!writerRouterGate.run) {
             console.log(
               `[writer-router] skipped (reason=${writerRouterGate.reason}, userTurnsSinceLast=${writerRouterGate.userTurnsSinceLast})`
             );
           }
 
-          // Apply topic metadata writes (create/update) from writer router.
-          const normalizeTopicText = (value?: string | null) => {
-            if (!value) return null;
-            const trimmed = value.trim();
-            if (!trimmed) return null;
-            const lower = trimmed.toLowerCase();
-            if (["none", "null", "n/a", "na", "skip"].includes(lower)) return null;
-            return trimmed;
-          };
-          const topicMetaLookup = new Map(
-            (Array.isArray(topicsForRouter) ? topicsForRouter : []).map((t: any) => [t.id, t])
-          );
-          const findTopicMeta = (id?: string | null) => {
-            if (!id) return null;
-            return topicMetaLookup.get(id) ?? null;
-          };
-          const mergeTopicText = (
-            existing: string | null | undefined,
-            incoming: string | null | undefined,
-            limit: number
-          ): string | null => {
-            const existingClean = normalizeTopicText(existing);
-            const incomingClean = normalizeTopicText(incoming);
-            if (!incomingClean) return existingClean ?? null;
-            if (!existingClean) return incomingClean.slice(0, limit);
-
-            const tokenize = (value: string) =>
-              value
-                .toLowerCase()
-                .replace(/[^a-z0-9\s]/g, " ")
-                .split(/\s+/)
-                .filter(Boolean);
-            const a = tokenize(existingClean);
-            const b = tokenize(incomingClean);
-            const overlap = (() => {
-              if (!a.length || !b.length) return 0;
-              const setA = new Set(a);
-              let hit = 0;
-              for (const token of b) {
-                if (setA.has(token)) hit += 1;
-              }
-              const union = setA.size + b.length - hit;
-              return union > 0 ? hit / union : 0;
-            })();
-
-            // If the new text mostly overlaps or is a focused update, prefer replacement.
-            const shouldReplace =
-              overlap >= 0.5 ||
-              incomingClean.length <= Math.max(60, existingClean.length * 0.6) ||
-              incomingClean.toLowerCase().includes("updated") ||
-              existingClean.toLowerCase().includes(incomingClean.toLowerCase());
-
-            if (shouldReplace) {
-              return incomingClean.slice(0, limit);
-            }
-
-            if (incomingClean.toLowerCase().includes(existingClean.toLowerCase())) {
-              return incomingClean.slice(0, limit);
-            }
-
-            const combined = `${existingClean}; ${incomingClean}`;
-            return combined.slice(0, limit);
-          };
-          const topicIdSet = new Set(
-            (Array.isArray(topicsForRouter) ? topicsForRouter : []).map((t: any) => t.id)
-          );
-          if (resolvedPrimaryTopicId) topicIdSet.add(resolvedPrimaryTopicId);
-          const writerTopicWrites: Array<{
-            action: "create" | "update" | "skip";
-            targetTopicId: string | null;
-            label: string | null;
-            summary: string | null;
-            description: string | null;
-          }> = [];
-          if (writer?.topicWrite) writerTopicWrites.push(writer.topicWrite as any);
-          if (Array.isArray(writer?.additionalTopicWrites)) {
-            writerTopicWrites.push(
-              ...writer.additionalTopicWrites.map((tw: any) => ({ ...tw, action: "update" as const }))
-            );
-          }
-
-          for (const topicWrite of writerTopicWrites) {
-            if (!topicWrite || topicWrite.action === "skip") continue;
-            if (topicWrite.action === "create") {
-              const label =
-                normalizeTopicText(topicWrite.label) ||
-                buildAutoTopicLabel(message);
-              const descriptionInput =
-                normalizeTopicText(topicWrite.description) ||
-                buildAutoTopicDescription(message);
-              const summaryInput =
-                normalizeTopicText(topicWrite.summary) ||
-                buildAutoTopicSummary(message);
-
-              if (resolvedPrimaryTopicId) {
-                const existingMeta =
-                  findTopicMeta(resolvedPrimaryTopicId) ?? currentTopicMeta;
-                const nextDescription = mergeTopicText(
-                  existingMeta?.description,
-                  descriptionInput,
-                  500
-                );
-                const nextSummary = mergeTopicText(
-                  existingMeta?.summary,
-                  summaryInput,
-                  500
-                );
-                const normalizedExistingDescription = normalizeTopicText(existingMeta?.description);
-                const normalizedExistingSummary = normalizeTopicText(existingMeta?.summary);
-                const updatePayload: Record<string, any> = {
-                  label: label.slice(0, 120),
-                };
-                if (nextDescription && nextDescription !== normalizedExistingDescription) {
-                  updatePayload.description = nextDescription;
-                }
-                if (nextSummary && nextSummary !== normalizedExistingSummary) {
-                  updatePayload.summary = nextSummary;
-                }
-                const { error: updateErr } = await supabaseAny
-                  .from("conversation_topics")
-                  .update(updatePayload)
-                  .eq("id", resolvedPrimaryTopicId);
-                if (updateErr) {
-                  console.error("[topic-router] Failed to update stub topic metadata:", updateErr);
-                } else {
-                  console.log(`[topic-router] Updated stub topic ${resolvedPrimaryTopicId} metadata from writer router`);
-                  topicCreatedEvent = {
-                    id: resolvedPrimaryTopicId,
-                    label,
-                  };
-                }
-              } else {
-                const { data: insertedTopic, error: topicErr } = await supabaseAny
-                  .from("conversation_topics")
-                  .insert([
-                    {
-                      conversation_id: conversationId,
-                      label: label.slice(0, 120),
-                      description: mergeTopicText(null, descriptionInput, 500),
-                      summary: mergeTopicText(null, summaryInput, 500),
-                      parent_topic_id: decision.newParentTopicId ?? null,
-                    },
-                  ])
-                  .select()
-                  .single();
-                if (topicErr || !insertedTopic) {
-                  console.error("[topic-router] Failed to create topic:", topicErr);
-                } else {
-                  resolvedPrimaryTopicId = insertedTopic.id;
-                  topicIdSet.add(insertedTopic.id);
-                  console.log(`[topic-router] Created topic ${insertedTopic.id} label="${insertedTopic.label}"`);
-                  topicCreatedEvent = {
-                    id: insertedTopic.id,
-                    label,
-                  };
-                }
-              }
-            } else if (topicWrite.action === "update") {
-              const targetId =
-                topicWrite.targetTopicId ??
-                resolvedPrimaryTopicId ??
-                activeTopicId;
-              if (!targetId || !topicIdSet.has(targetId)) {
-                continue;
-              }
-              const updatePayload: Record<string, any> = {};
-              const label = normalizeTopicText(topicWrite.label);
-              const targetMeta = findTopicMeta(targetId);
-              const summary = mergeTopicText(targetMeta?.summary, topicWrite.summary, 500);
-              const description = mergeTopicText(targetMeta?.description, topicWrite.description, 500);
-              if (label) updatePayload.label = label.slice(0, 120);
-              const normalizedExistingSummary = normalizeTopicText(targetMeta?.summary);
-              const normalizedExistingDescription = normalizeTopicText(targetMeta?.description);
-              if (summary && summary !== normalizedExistingSummary) updatePayload.summary = summary;
-              if (description && description !== normalizedExistingDescription) updatePayload.description = description;
-              if (!Object.keys(updatePayload).length) continue;
-              const { error: updateErr } = await supabaseAny
-                .from("conversation_topics")
-                .update(updatePayload)
-                .eq("id", targetId);
-              if (updateErr) {
-                console.error(`[topic-router] Failed to update topic ${targetId} metadata:`, updateErr);
-              } else {
-                console.log(`[topic-router] Updated topic ${targetId} metadata from writer router`);
-              }
-            }
-          }
-
-          // Capture writer outputs for downstream persistence.
-          if (writer) {
-            (modelConfig as any).memoriesToWrite = writer.memoriesToWrite || [];
-            (modelConfig as any).memoriesToDelete = writer.memoriesToDelete || [];
-            (modelConfig as any).permanentInstructionsToWrite = writer.permanentInstructionsToWrite || [];
-            (modelConfig as any).permanentInstructionsToDelete = writer.permanentInstructionsToDelete || [];
-            (modelConfig as any).artifactsToWrite = writer.artifactsToWrite || [];
-          }
           if (topicCreatedEvent) {
             (metadataPayload as any).topicCreated = topicCreatedEvent;
           }
@@ -5198,89 +4976,70 @@ export async function POST(request: NextRequest) {
             return;
           }
 
-          // Apply permanent instruction writes/deletes after streaming (router + heuristics).
-          {
-            const permanentInstructionWrites = (modelConfig as any).permanentInstructionsToWrite || [];
-            let permanentInstructionDeletes = (modelConfig as any).permanentInstructionsToDelete || [];
-
-            const loadedInstructions = permanentInstructionState?.instructions ?? [];
-            const lowerMsg = message.toLowerCase();
-            const existingDeleteIds = new Set(
-              (permanentInstructionDeletes || []).map((d: any) => d?.id).filter(Boolean)
-            );
-            const deleteCandidates: { id: string; reason?: string }[] = [];
-            const addDeleteIfMissing = (id: string, reason?: string) => {
-              if (!id || existingDeleteIds.has(id)) return;
-              existingDeleteIds.add(id);
-              deleteCandidates.push({ id, reason });
-            };
-
-            const wantsFullClear = false;
-            if (wantsFullClear) {
-              for (const inst of loadedInstructions) {
-                addDeleteIfMissing(inst.id, "User requested to clear permanent instructions");
-              }
-            } else {
-              const userWantsNicknameRemoved = /stop\s+call(?:ing)?\s+me|don['ƒ?T]t\s+call\s+me|do\s+not\s+call\s+me|forget\s+.*call\s+me/i.test(
-                lowerMsg
-              );
-              const nameMatch = lowerMsg.match(/call\s+me\s+([a-z0-9 .,'\"-]+)/i);
-              const nameToken = nameMatch?.[1]?.trim().toLowerCase();
-
-              for (const inst of loadedInstructions) {
-                const text = `${inst.title || ""} ${inst.content}`.toLowerCase();
-                const isNickname = text.includes("call me") || text.includes("address") || text.includes("nickname");
-                const mentionsName = nameToken ? text.includes(nameToken) : false;
-
-                if (userWantsNicknameRemoved && (isNickname || mentionsName)) {
-                  addDeleteIfMissing(inst.id, "User revoked nickname");
-                } else if (nameToken && text.includes(nameToken) && lowerMsg.includes("forget")) {
-                  addDeleteIfMissing(inst.id, "User revoked a named permanent instruction");
-                }
-              }
-            }
-
-            if (deleteCandidates.length) {
-              permanentInstructionDeletes = [
-                ...(permanentInstructionDeletes || []),
-                ...deleteCandidates,
-              ];
-            }
+          await saveRequestTrace(supabaseAny, {
+            recorder: requestTrace,
+            userId,
+            conversationId,
+            messageId: persistedAssistantRow?.id ?? null,
+          });
 
-            let permanentInstructionsChanged = false;
-            if (permanentInstructionWrites.length || permanentInstructionDeletes.length) {
-              try {
-                permanentInstructionsChanged = await applyPermanentInstructionMutations({
-                  supabase: supabaseAny,
-                  userId,
-                  conversationId,
-                  writes: permanentInstructionWrites,
-                  deletes: permanentInstructionDeletes,
-                });
-              } catch (permErr) {
-                console.error("[permanent-instructions] Failed to apply router instructions:", permErr);
-              }
+          if (dataInterpreterDataset) {
+            try {
+              await recordNotebookSteps(supabaseAny, {
+                conversationId,
+                userId,
+                messageId: persistedAssistantRow?.id ?? null,
+                question: message,
+                output: (finalResponse as any)?.output,
+                files: codeInterpreterFiles,
+              });
+            } catch (notebookErr) {
+              console.error("[data-interpreter] Failed to record notebook steps:", notebookErr);
             }
+          }
 
-            if (permanentInstructionsChanged) {
-              try {
-                const loadResult = await loadPermanentInstructions({
-                  supabase: supabaseAny,
-                  userId,
-                  conversationId,
-                  conversation,
-                  forceRefresh: true,
-                });
-                permanentInstructionState = loadResult;
-              } catch (permReloadErr) {
-                console.error("[permanent-instructions] Failed to refresh instructions:", permReloadErr);
-              }
+          if (persistedAssistantRow) {
+            const toTopicMeta = (t: any) => ({
+              id: t.id,
+              label: t.label,
+              summary: t.summary ?? null,
+              description: t.description ?? null,
+            });
+            try {
+              const jobClient = await supabaseServerAdmin();
+              await enqueueChatPostResponseJobs(jobClient, {
+                assistantMessageId: persistedAssistantRow.id,
+                writer: writerRouterGate.run
+                  ? {
+                      userId,
+                      conversationId,
+                      assistantMessageId: persistedAssistantRow.id,
+                      userMessageTopicId: userMessageRow?.topic_id ?? null,
+                      userMessageText: message,
+                      recentMessages: (recentMessagesForRouting || []).slice(-6).map((m: any) => ({
+                        role: (m.role as "user" | "assistant" | "system") ?? "user",
+                        content: m.content ?? "",
+                      })),
+                      topicAction: decision.topicAction,
+                      newParentTopicId: decision.newParentTopicId ?? null,
+                      decisionTopicId: resolvedTopicDecision.primaryTopicId ?? null,
+                      primaryTopicId: resolvedPrimaryTopicId,
+                      activeTopicId,
+                      topics: (Array.isArray(topicsForRouter) ? topicsForRouter : []).map(toTopicMeta),
+                      currentTopic: currentTopicMeta ? toTopicMeta(currentTopicMeta) : null,
+                      allowLLM: allowLLMRouters,
+                      allowMemoryWrites: personalizationSettings.allowSavingMemory && MEMORY_WRITES_ENABLED,
+                      traceId: requestTrace.id,
+                    }
+                  : null,
+              });
+              postResponseJobsQueued = true;
+            } catch (jobErr) {
+              console.error("[jobs] Failed to queue post-response work:", jobErr);
             }
           }
 
-          let assistantRowForMeta = persistedAssistantRow;
-
-          if (!assistantRowForMeta) {
+          if (!persistedAssistantRow) {
             enqueueJson({
               meta: {
                 assistantMessageRowId: `error-${Date.now()}`,
@@ -5295,198 +5054,26 @@ export async function POST(request: NextRequest) {
               },
             });
           } else {
-            try {
-              const memoriesToWrite = Array.isArray((modelConfig as any).memoriesToWrite)
-                ? (modelConfig as any).memoriesToWrite.filter(
-                    (memory: any) =>
-                      memory &&
-                      typeof memory.type === "string" &&
-                      memory.type.trim().length > 0 &&
-                      typeof memory.title === "string" &&
-                      memory.title.trim().length > 0 &&
-                      typeof memory.content === "string" &&
-                      memory.content.trim().length > 0
-                  )
-                : [];
-              const canWriteMemories =
-                personalizationSettings.allowSavingMemory && MEMORY_WRITES_ENABLED && memoriesToWrite.length > 0;
-              if (canWriteMemories) {
-                console.log(`[router-memory] Writing ${memoriesToWrite.length} memories from router decision`);
-                let vectorWritesBlocked = false;
-                for (const memory of memoriesToWrite) {
-                  if (vectorWritesBlocked) break;
-                  try {
-                    await writeMemory({
-                      type: memory.type,
-                      title: memory.title,
-                      content: memory.content,
-                      enabled: true,
-                      conversationId,
-                    });
-                    console.log(`[router-memory] Wrote memory: ${memory.title} (type: ${memory.type})`);
-                  } catch (err: any) {
-                    const msg = String(err?.message || err || "");
-                    if (msg.toLowerCase().includes("vector") || String(err?.code || "").includes("42704")) {
-                      vectorWritesBlocked = true;
-                      console.warn("[router-memory] Skipping memory writes; vector extension/column missing");
-                      break;
-                    } else {
-                      console.error("[router-memory] Failed to write memory:", err);
-                    }
-                  }
-                }
-              }
-
-              const memoriesToDelete = Array.isArray((modelConfig as any).memoriesToDelete)
-                ? (modelConfig as any).memoriesToDelete.filter(
-                    (m: any) =>
-                      m &&
-                      typeof m.id === "string" &&
-                      m.id.trim().length > 0 &&
-                      typeof m.reason === "string" &&
-                      m.reason.trim().length > 0
-                  )
-                : [];
-              if (memoriesToDelete.length > 0) {
-                console.log(`[router-memory] Deleting ${memoriesToDelete.length} memories from router decision`);
-
-                for (const memDel of memoriesToDelete) {
-                  try {
-                    await deleteMemory(memDel.id, userId);
-                    console.log(`[router-memory] Deleted memory: ${memDel.id} (reason: ${memDel.reason})`);
-                  } catch (delErr) {
-                    console.error(`[router-memory] Failed to delete memory ${memDel.id}:`, delErr);
-                  }
-                }
-              }
-            } catch (memError) {
-              console.error("[router-memory] Failed to write/delete memories from router:", memError);
-            }
-
-            // Write artifacts chosen by writer router (using assistant reply as source).
-            try {
-              if (!assistantRowForMeta) {
-                console.warn("[artifacts] Skipping artifact write; missing assistant message row.");
-              } else {
-                const assistantRow = assistantRowForMeta;
-                const artifactsFromRouter = Array.isArray((modelConfig as any).artifactsToWrite)
-                  ? (modelConfig as any).artifactsToWrite.filter(
-                      (a: any) =>
-                        a &&
-                        typeof a.type === "string" &&
-                        a.type.trim().length > 0 &&
-                        typeof a.title === "string" &&
-                        a.title.trim().length > 0 &&
-                        typeof a.content === "string" &&
-                        a.content.trim().length >= 1
-                    )
-                  : [];
-                const topicIdForArtifacts =
-                  assistantRow.topic_id ??
-                  resolvedTopicDecision.primaryTopicId ??
-                  userMessageRow?.topic_id ??
-                  null;
-                const canWriteArtifacts = Boolean(topicIdForArtifacts) && artifactsFromRouter.length > 0;
-                if (canWriteArtifacts) {
-                  if (assistantRow.topic_id !== topicIdForArtifacts) {
-                    try {
-                      await supabaseAny
-                        .from("messages")
-                        .update({ topic_id: topicIdForArtifacts })
-                        .eq("id", assistantRow.id);
-                      assistantRowForMeta = { ...assistantRowForMeta, topic_id: topicIdForArtifacts } as any;
-                    } catch (topicUpdateErr) {
-                      console.error("[artifacts] Failed to backfill assistant topic_id:", topicUpdateErr);
-                    }
-                  }
-                  const inserts = artifactsFromRouter.map((art: any) => {
-                    const content = String(art.content || "").trim();
-                    const title = String(art.title || "").trim().slice(0, 200) || "Artifact";
-                    const type = typeof art.type === "string" ? art.type : "other";
-                    const summary = content.replace(/\s+/g, " ").slice(0, 180);
-                    const tokenEstimate = Math.max(50, Math.round(Math.max(summary.length, content.length) / 4));
-                    const keywords = extractKeywords([title, summary, content].join(" "), undefined);
-                    return {
-                      conversation_id: assistantRow.conversation_id,
-                      topic_id: topicIdForArtifacts,
-                      created_by_message_id: assistantRow.id,
-                      type,
-                      title,
-                      summary,
-                      content,
-                      token_estimate: tokenEstimate,
-                      keywords,
-                    };
-                  });
-
-                  try {
-                    let artifactClient: any = supabaseAny;
-                    try {
-                      artifactClient = await supabaseServerAdmin();
-                    } catch (adminErr) {
-                      console.warn("[artifacts] Admin client unavailable; falling back to user client:", adminErr);
-                    }
-                    await artifactClient.from("artifacts").insert(inserts);
-                    console.log(`[artifacts] Inserted ${inserts.length} artifacts from writer router`);
-                  } catch (error: any) {
-                    console.error("[artifacts] Failed to insert artifacts:", error);
-                    if (String(error?.message || "").includes("keywords")) {
-                      const insertsNoKeywords = inserts.map((insert: any) => {
-                        const rest = { ...insert };
-                        delete (rest as any).keywords;
-                        return rest;
-                      });
-                      try {
-                        let artifactClient: any = supabaseAny;
-                        try {
-                          artifactClient = await supabaseServerAdmin();
-                        } catch (adminErr) {
-                          console.warn("[artifacts] Admin client unavailable; falling back to user client:", adminErr);
-                        }
-                        await artifactClient.from("artifacts").insert(insertsNoKeywords);
-                        console.log(`[artifacts] Inserted ${insertsNoKeywords.length} artifacts without keywords (keywords column missing)`);
-                      } catch (err2) {
-                        console.error("[artifacts] Retry insert without keywords failed:", err2);
-                      }
-                    }
-                  }
-                }
-              }
-            } catch (artifactErr) {
-              console.error("[artifacts] Failed to write artifacts from router:", artifactErr);
-            }
-
+            turnJob?.setAssistantMessageId(persistedAssistantRow.id);
             enqueueJson({
               meta: {
-                assistantMessageRowId: assistantRowForMeta?.id ?? null,
+                assistantMessageRowId: persistedAssistantRow.id,
                 userMessageRowId: userMessageRow?.id,
                 model: modelConfig.model,
                 reasoningEffort,
                 resolvedFamily: modelConfig.resolvedFamily,
                 speedModeUsed: speedMode,
-                finalContent: assistantRowForMeta?.content ?? assistantContent,
+                finalContent: persistedAssistantRow.content ?? assistantContent,
                 metadata:
-                  (assistantRowForMeta?.metadata as AssistantMessageMetadata | null) ??
+                  (persistedAssistantRow.metadata as AssistantMessageMetadata | null) ??
                   metadataPayload,
                 ...(contextUsage ? { contextUsage } : {}),
               },
             });
-
-            if (assistantRowForMeta?.topic_id) {
-              try {
-                await updateTopicSnapshot({
-                  supabase: supabaseAny,
-                  topicId: assistantRowForMeta.topic_id,
-                  latestMessage: assistantRowForMeta,
-                });
-              } catch (snapshotErr) {
-                console.error("[topic-router] Failed to refresh topic snapshot for assistant:", snapshotErr);
-              }
-            }
-
           }
         } catch (error) {
           console.error("Stream error:", error);
+          turnFailed = true;
           enqueueJson({ error: "upstream_error" });
         } finally {
           if (!doneSent) {
@@ -5495,14 +5082,55 @@ export async function POST(request: NextRequest) {
           }
           closeControllerIfNeeded();
           abortSignal.removeEventListener("abort", handleRequestAbort);
+          request.signal.removeEventListener("abort", handleClientDisconnect);
+          if (budgetReservation) {
+            releaseUnsettledBudget = null;
+            await settleBudgetReservation(budgetClient, budgetReservation.id, turnSpendUsd);
+          }
+        }
+      },
+    };
+
+    // The turn's own start() returns early in several places; this wrapper always records the
+    // job's outcome, releases a budget reservation the turn never settled and releases the after()
+    // hook below.
+    budgetHandedToStream = true;
+    const readableStream = new ReadableStream({
+      async start(controller) {
+        try {
+          await turnStreamSource.start(controller);
+        } catch (err) {
+          turnFailed = true;
+          throw err;
+        } finally {
+          request.signal.removeEventListener("abort", cancelIfNoJob);
+          await releaseUnsettledBudget?.();
+          if (turnJob) {
+            await turnJob.finish(abortSignal.aborted ? "cancelled" : turnFailed ? "failed" : "completed");
+          }
+          settleTurn();
         }
       },
     });
 
+    // Keeps the function alive until the turn finishes even if the client has gone, then gives the
+    // post-response jobs a first run; anything left over is retried by the worker cron.
+    after(async () => {
+      await turnSettled;
+      if (!postResponseJobsQueued) return;
+      try {
+        const jobClient = await supabaseServerAdmin();
+        await runBackgroundJobs(jobClient, { workerId: `chat:${turnJob?.id ?? requestTrace.id}`, maxJobs: 10 });
+      } catch (workerErr) {
+        console.error("[jobs] Post-response worker run failed:", workerErr);
+      }
+    });
+
     return new Response(readableStream, {
       headers: {
         "Content-Type": "application/x-ndjson",
         "Cache-Control": "no-cache",
+        ...(turnJob ? { "X-Chat-Job-Id": turnJob.id } : {}),
       },
     });
   } catch (error) {
@@ -5535,10 +5163,18 @@ export async function POST(request: NextRequest) {
         "Cache-Control": "no-cache",
       },
     });
+  } finally {
+    if (!budgetHandedToStream) {
+      await releaseUnsettledBudget?.();
+    }
   }
-}
+});
 
-export async function DELETE(request: NextRequest) {
+export const DELETE = withRouteGuard({ access: "user", routeClass: "standard" }, async (
+  request: NextRequest,
+  _context: unknown,
+  auth
+) => {
   try {
     const body = (await request.json()) as { messageId: string };
     const { messageId } = body;
@@ -5550,13 +5186,7 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    const userId = await getCurrentUserIdServer();
-    if (!userId) {
-      return NextResponse.json(
-        { error: "Unauthorized" },
-        { status: 401 }
-      );
-    }
+    const userId = auth.userId;
 
     const supabase = await supabaseServer();
     const supabaseAny = supabase as any;
@@ -5613,5 +5243,5 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
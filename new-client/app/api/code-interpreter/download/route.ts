@@ -4,7 +4,7 @@ export const maxDuration = 30;
 import { NextRequest, NextResponse } from "next/server";
 import { createOpenAIClient, getOpenAIRequestId } from "@/lib/openai/client";
 import { supabaseServer } from "@/lib/supabase/server";
-import { getCurrentUserIdServer } from "@/lib/supabase/user";
+import { withRouteGuard } from "@/lib/route-guard";
 
 function sanitizeFilename(filename: string): string {
   const trimmed = filename.trim();
@@ -12,7 +12,11 @@ function sanitizeFilename(filename: string): string {
   return trimmed.replace(/[\\\/:*?"<>|]+/g, "_");
 }
 
-export async function GET(req: NextRequest) {
+export const GET = withRouteGuard({ access: "user", routeClass: "standard" }, async (
+  req: NextRequest,
+  _context: unknown,
+  auth
+) => {
   const url = new URL(req.url);
   const messageId = url.searchParams.get("messageId") || "";
   const containerId = url.searchParams.get("containerId") || "";
@@ -22,10 +26,7 @@ export async function GET(req: NextRequest) {
     return NextResponse.json({ error: "messageId, containerId, and fileId are required" }, { status: 400 });
   }
 
-  const userId = await getCurrentUserIdServer();
-  if (!userId) {
-    return NextResponse.json({ error: "User not authenticated" }, { status: 401 });
-  }
+  const userId = auth.userId;
 
   const supabase = await supabaseServer();
   const supabaseAny = supabase as any;
@@ -106,4 +107,4 @@ export async function GET(req: NextRequest) {
       "Cache-Control": "private, no-store, max-age=0",
     },
   });
-}
+});
@@ -0,0 +1,100 @@
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { supabaseServer } from "@/lib/supabase/server";
+import {
+  SEGMENT_SUMMARY_CHAR_LIMIT,
+  compactTopic,
+  getTopicSummary,
+  updateTopicSummarySegment,
+  updateTopicSummaryText,
+} from "@/lib/topics/compaction";
+import { withRouteGuard } from "@/lib/route-guard";
+
+function statusForError(message: string) {
+  if (/not authenticated/i.test(message)) return 401;
+  if (/not found/i.test(message)) return 404;
+  if (/invalid|too long/i.test(message)) return 400;
+  return 500;
+}
+
+// RLS limits topics to the caller's conversations, so a topic that doesn't load isn't theirs.
+async function loadOwnedTopic(topicId: string) {
+  const supabase = await supabaseServer();
+  const topic = await getTopicSummary(supabase, topicId);
+  if (!topic) {
+    throw new Error("Topic not found");
+  }
+  return { supabase, topic };
+}
+
+/** The topic's rolling summary: its segments (oldest first) and what's left uncompacted. */
+export const GET = withRouteGuard({ access: "user", routeClass: "standard" }, async (
+  _request: NextRequest,
+  { params }: { params: Promise<{ topicId: string }> }
+) => {
+  try {
+    const { topicId } = await params;
+    const { topic } = await loadOwnedTopic(topicId);
+    return NextResponse.json({ topic });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to load topic summary";
+    return NextResponse.json({ error: message }, { status: statusForError(message) });
+  }
+});
+
+/**
+ * Edits the summary. `{ segmentId, summary }` rewrites one segment; `{ summary }` alone sets the
+ * topic's own summary. Edited segments are kept as written and feed later roll-ups.
+ */
+export const PATCH = withRouteGuard({ access: "user", routeClass: "standard" }, async (
+  request: NextRequest,
+  { params }: { params: Promise<{ topicId: string }> }
+) => {
+  try {
+    const { topicId } = await params;
+    const body = (await request.json().catch(() => null)) as { segmentId?: unknown; summary?: unknown } | null;
+    if (!body || (typeof body.summary !== "string" && body.summary !== null)) {
+      throw new Error("Invalid summary");
+    }
+    const summary = typeof body.summary === "string" ? body.summary : null;
+    if (summary && summary.length > SEGMENT_SUMMARY_CHAR_LIMIT) {
+      throw new Error(`Summary is too long (max ${SEGMENT_SUMMARY_CHAR_LIMIT} characters)`);
+    }
+    const { supabase } = await loadOwnedTopic(topicId);
+
+    if (typeof body.segmentId === "string" && body.segmentId) {
+      if (!summary?.trim()) {
+        throw new Error("Invalid summary: segments can't be empty");
+      }
+      const segments = await updateTopicSummarySegment(supabase, topicId, body.segmentId, summary);
+      if (!segments) {
+        throw new Error("Summary segment not found");
+      }
+    } else {
+      await updateTopicSummaryText(supabase, topicId, summary);
+    }
+
+    return NextResponse.json({ topic: await getTopicSummary(supabase, topicId) });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to update topic summary";
+    return NextResponse.json({ error: message }, { status: statusForError(message) });
+  }
+});
+
+/** Compacts the topic now instead of waiting for it to reach the threshold. */
+export const POST = withRouteGuard({ access: "user", routeClass: "chat" }, async (
+  _request: NextRequest,
+  { params }: { params: Promise<{ topicId: string }> }
+) => {
+  try {
+    const { topicId } = await params;
+    const { supabase } = await loadOwnedTopic(topicId);
+    const compacted = await compactTopic(supabase, topicId);
+    return NextResponse.json({ compacted, topic: await getTopicSummary(supabase, topicId) });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to compact topic";
+    return NextResponse.json({ error: message }, { status: statusForError(message) });
+  }
+});
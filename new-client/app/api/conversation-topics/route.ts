@@ -1,14 +1,15 @@
 export const runtime = "nodejs";
 
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase/server";
-import { getCurrentUserIdServer } from "@/lib/supabase/user";
+import { withRouteGuard } from "@/lib/route-guard";
 
-export async function GET() {
-  const userId = await getCurrentUserIdServer();
-  if (!userId) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+export const GET = withRouteGuard({ access: "user", routeClass: "standard" }, async (
+  _request: NextRequest,
+  _context: unknown,
+  auth
+) => {
+  const userId = auth.userId;
 
   const supabase = await supabaseServer();
   const supabaseAny = supabase as any;
@@ -88,4 +89,4 @@ export async function GET() {
       };
     }),
   });
-}
+});
@@ -0,0 +1,66 @@
+// app/api/conversations/export/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import {
+  buildConversationBundle,
+  renderConversationBundleMarkdown,
+} from "@/lib/data/conversation-export";
+import type { ConversationExportFormat } from "@/lib/types/conversation-bundle";
+import { withRouteGuard } from "@/lib/route-guard";
+
+function toFilename(value: string | null | undefined, fallback: string) {
+  const slug = (value ?? "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return slug || fallback;
+}
+
+export const GET = withRouteGuard({ access: "user", routeClass: "standard" }, async (req: NextRequest) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const conversationId = searchParams.get("conversationId");
+    const projectId = searchParams.get("projectId");
+    const format = (searchParams.get("format") ?? "markdown") as ConversationExportFormat;
+
+    if (!conversationId && !projectId) {
+      return NextResponse.json(
+        { error: "conversationId or projectId is required" },
+        { status: 400 }
+      );
+    }
+    if (format !== "markdown" && format !== "json") {
+      return NextResponse.json({ error: "format must be markdown or json" }, { status: 400 });
+    }
+
+    const bundle = await buildConversationBundle({ conversationId, projectId });
+    const baseName = bundle.project
+      ? toFilename(bundle.project.name, "project")
+      : toFilename(bundle.conversations[0]?.title, "chat");
+
+    if (format === "json") {
+      return new NextResponse(JSON.stringify(bundle, null, 2), {
+        status: 200,
+        headers: {
+          "Content-Type": "application/json; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${baseName}.json"`,
+        },
+      });
+    }
+
+    return new NextResponse(renderConversationBundleMarkdown(bundle), {
+      status: 200,
+      headers: {
+        "Content-Type": "text/markdown; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${baseName}.md"`,
+      },
+    });
+  } catch (error: any) {
+    const message = error?.message || "Export failed";
+    const status = /not found/i.test(message) ? 404 : /invalid/i.test(message) ? 400 : 500;
+    if (status === 500) {
+      console.error("[export] Failed to export conversations:", error);
+    }
+    return NextResponse.json({ error: message }, { status });
+  }
+});
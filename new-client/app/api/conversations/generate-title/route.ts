@@ -1,7 +1,6 @@
 // app/api/conversations/generate-title/route.ts
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase/server";
-import { getCurrentUserIdServer } from "@/lib/supabase/user";
 import {
   isPlaceholderTitle,
   normalizeGeneratedTitle,
@@ -9,8 +8,13 @@ import {
 import { calculateCost } from "@/lib/pricing";
 import { logUsageRecord } from "@/lib/usage";
 import { callDeepInfraLlama } from "@/lib/deepInfraLlama";
+import { withRouteGuard } from "@/lib/route-guard";
 
-export async function POST(req: NextRequest) {
+export const POST = withRouteGuard({ access: "user", routeClass: "chat" }, async (
+  req: NextRequest,
+  _context: unknown,
+  auth
+) => {
   try {
     const { conversationId, userMessage } = await req.json();
 
@@ -30,11 +34,7 @@ export async function POST(req: NextRequest) {
 
     const supabase = await supabaseServer();
     const supabaseAny = supabase as any;
-    const userId = await getCurrentUserIdServer();
-    
-    if (!userId) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const userId = auth.userId;
 
     const { data: conversation, error: convError } = await supabaseAny
       .from("conversations")
@@ -172,4 +172,4 @@ export async function POST(req: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,59 @@
+export const runtime = "nodejs";
+export const maxDuration = 300; // Large exports insert many message batches; topic rebuilds are queued
+
+import { NextRequest, NextResponse } from "next/server";
+import { importConversations } from "@/lib/data/conversation-import";
+import { withRouteGuard } from "@/lib/route-guard";
+
+const MAX_IMPORT_BYTES = 50 * 1024 * 1024;
+
+export const POST = withRouteGuard({ access: "user", routeClass: "upload" }, async (req: NextRequest) => {
+  try {
+    let payload: unknown;
+    let projectId: string | null = null;
+    let rebuildTopics = false;
+
+    const contentType = req.headers.get("content-type") ?? "";
+    if (contentType.includes("multipart/form-data")) {
+      const form = await req.formData();
+      const file = form.get("file");
+      if (!(file instanceof File)) {
+        return NextResponse.json({ error: "file is required" }, { status: 400 });
+      }
+      if (file.size > MAX_IMPORT_BYTES) {
+        return NextResponse.json({ error: "Import file is too large" }, { status: 413 });
+      }
+      try {
+        payload = JSON.parse(await file.text());
+      } catch {
+        return NextResponse.json({ error: "Import file is not valid JSON" }, { status: 400 });
+      }
+      const rawProjectId = form.get("projectId");
+      projectId = typeof rawProjectId === "string" && rawProjectId ? rawProjectId : null;
+      rebuildTopics = form.get("rebuildTopics") === "true";
+    } else {
+      const body = await req.json();
+      payload = body?.data;
+      projectId = typeof body?.projectId === "string" && body.projectId ? body.projectId : null;
+      rebuildTopics = body?.rebuildTopics === true;
+    }
+
+    if (payload == null) {
+      return NextResponse.json({ error: "Nothing to import" }, { status: 400 });
+    }
+
+    const result = await importConversations({ payload, projectId, rebuildTopics });
+    return NextResponse.json(result, { status: 200 });
+  } catch (error: any) {
+    const message = error?.message || "Import failed";
+    const status = /not found/i.test(message)
+      ? 404
+      : /invalid|unrecognized|limited|no conversations/i.test(message)
+        ? 400
+        : 500;
+    if (status === 500) {
+      console.error("[import] Failed to import conversations:", error);
+    }
+    return NextResponse.json({ error: message }, { status });
+  }
+});
@@ -0,0 +1,19 @@
+// app/api/conversations/shares/[shareId]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { revokeConversationShare } from "@/lib/data/conversation-shares";
+import { withRouteGuard } from "@/lib/route-guard";
+
+export const DELETE = withRouteGuard({ access: "user", routeClass: "standard" }, async (
+  _req: NextRequest,
+  { params }: { params: Promise<{ shareId: string }> }
+) => {
+  try {
+    const { shareId } = await params;
+    const share = await revokeConversationShare(shareId);
+    return NextResponse.json({ share });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to revoke share";
+    const status = /not found/i.test(message) ? 404 : /invalid/i.test(message) ? 400 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+});
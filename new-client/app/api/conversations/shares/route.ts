@@ -0,0 +1,41 @@
+// app/api/conversations/shares/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { createConversationShare, listConversationShares } from "@/lib/data/conversation-shares";
+import { withRouteGuard } from "@/lib/route-guard";
+
+function statusForError(message: string) {
+  if (/not found/i.test(message)) return 404;
+  if (/invalid|no messages/i.test(message)) return 400;
+  return 500;
+}
+
+export const GET = withRouteGuard({ access: "user", routeClass: "standard" }, async (req: NextRequest) => {
+  try {
+    const conversationId = new URL(req.url).searchParams.get("conversationId");
+    const shares = await listConversationShares({ conversationId });
+    return NextResponse.json({ shares });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to load shares";
+    return NextResponse.json({ error: message }, { status: statusForError(message) });
+  }
+});
+
+export const POST = withRouteGuard({ access: "user", routeClass: "standard" }, async (req: NextRequest) => {
+  try {
+    const body = (await req.json().catch(() => null)) as {
+      conversationId?: string;
+      expiresInDays?: number | null;
+    } | null;
+    if (!body?.conversationId) {
+      return NextResponse.json({ error: "conversationId is required" }, { status: 400 });
+    }
+    const share = await createConversationShare({
+      conversationId: body.conversationId,
+      expiresInDays: typeof body.expiresInDays === "number" ? body.expiresInDays : null,
+    });
+    return NextResponse.json({ share });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to create share";
+    return NextResponse.json({ error: message }, { status: statusForError(message) });
+  }
+});
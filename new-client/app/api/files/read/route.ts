@@ -4,6 +4,7 @@ export const maxDuration = 30;
 import { NextRequest, NextResponse } from "next/server";
 import { promises as fs } from "fs";
 import path from "path";
+import { withRouteGuard } from "@/lib/route-guard";
 
 // Restrict readable roots to the workspace folder only
 const WORKSPACE_ROOT = path.resolve(process.cwd());
@@ -11,10 +12,15 @@ const MAX_BYTES = 200 * 1024; // 200KB safety limit
 
 function isPathSafe(requestedPath: string) {
   const resolved = path.resolve(WORKSPACE_ROOT, requestedPath);
-  return resolved.startsWith(WORKSPACE_ROOT + path.sep);
+  if (!resolved.startsWith(WORKSPACE_ROOT + path.sep)) return false;
+  // Hidden files and folders (.env*, .git, .next) hold secrets and build output, never user content.
+  return !path
+    .relative(WORKSPACE_ROOT, resolved)
+    .split(path.sep)
+    .some((segment) => segment.startsWith("."));
 }
 
-export async function POST(req: NextRequest) {
+export const POST = withRouteGuard({ access: "user", routeClass: "standard" }, async (req: NextRequest) => {
   try {
     const body = (await req.json()) as { filePath?: string };
     const { filePath } = body;
@@ -38,4 +44,4 @@ export async function POST(req: NextRequest) {
     const message = error instanceof Error ? error.message : String(error);
     return NextResponse.json({ error: "Internal error", details: message }, { status: 500 });
   }
-}
+});
@@ -9,15 +9,15 @@ import { supabaseServerAdmin } from "@/lib/supabase/server";
 import {
   ensureGuestSession,
   incrementGuestSessionRequest,
-  attachGuestCookie,
   shouldResetDailyCounter,
   GUEST_PROMPT_LIMIT_PER_DAY,
   addGuestUsage,
 } from "@/lib/guest-session";
 import { calculateCost } from "@/lib/pricing";
 import type { ResponseStreamEvent, Tool } from "openai/resources/responses/responses";
+import { withRouteGuard } from "@/lib/route-guard";
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard({ access: "guest", routeClass: "chat" }, async (request: NextRequest, _context, auth) => {
   type GuestChatRequest = {
     message: string;
     model?: string;
@@ -25,6 +25,11 @@ export async function POST(request: NextRequest) {
     history?: { role: "user" | "assistant"; content: string }[];
   };
 
+  // Signed-in users chat through /api/chat, where turns are saved and billed to their plan.
+  if (auth.kind !== "guest") {
+    return NextResponse.json({ error: "Guest chat is only available while signed out" }, { status: 403 });
+  }
+
   try {
     console.log("[guest-chat] Received request");
     const body = (await request.json()) as GuestChatRequest;
@@ -46,12 +51,9 @@ export async function POST(request: NextRequest) {
           last_seen: string | null;
         }
       | null = null;
-    let cookieValue: string | undefined;
     try {
       supabase = await supabaseServerAdmin();
-      const ensured = await ensureGuestSession(request, supabase);
-      session = ensured.session;
-      cookieValue = ensured.cookieValue;
+      session = await ensureGuestSession(supabase, auth.guestSessionId);
     } catch (err) {
       console.warn("[guest-chat] Supabase unavailable, using in-memory guest session fallback:", err);
       session = {
@@ -68,15 +70,13 @@ export async function POST(request: NextRequest) {
       requestCount = 0;
     }
     if (session && supabase && requestCount >= GUEST_PROMPT_LIMIT_PER_DAY) {
-      const limitResponse = NextResponse.json(
+      return NextResponse.json(
         {
           error: "Guest limit reached",
           message: `Guests can send ${GUEST_PROMPT_LIMIT_PER_DAY} prompts per day. Please sign in or wait until tomorrow.`,
         },
         { status: 429 }
       );
-      attachGuestCookie(limitResponse, cookieValue);
-      return limitResponse;
     }
 
     if (supabase && session) {
@@ -309,7 +309,6 @@ export async function POST(request: NextRequest) {
         "Cache-Control": "no-cache",
       },
     });
-    attachGuestCookie(response, cookieValue);
     return response;
   } catch (err: any) {
     return NextResponse.json(
@@ -317,5 +316,5 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
@@ -2,8 +2,8 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase/server";
-import { requireUserIdServer } from "@/lib/supabase/user";
 import type { Json } from "@/lib/supabase/types";
+import { withRouteGuard } from "@/lib/route-guard";
 
 type CTARequest = {
   taskId?: string;
@@ -14,7 +14,11 @@ type CTARequest = {
   createdAt?: string;
 };
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard({ access: "user", routeClass: "standard" }, async (
+  request: NextRequest,
+  _context: unknown,
+  auth
+) => {
   try {
     const body = (await request.json().catch(() => ({}))) as CTARequest;
     const taskId = body.taskId?.trim();
@@ -32,7 +36,7 @@ export async function POST(request: NextRequest) {
     }
 
     const supabase = await supabaseServer();
-    const userId = await requireUserIdServer();
+    const userId = auth.userId;
 
     const { data: convo, error: convoError } = await supabase
       .from("conversations")
@@ -127,4 +131,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -2,12 +2,13 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { createOpenAIClient, getOpenAIRequestId } from "@/lib/openai/client";
+import { withRouteGuard } from "@/lib/route-guard";
 
 type DecideRequest = {
   draft?: string;
 };
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard({ access: "user", routeClass: "chat" }, async (request: NextRequest) => {
   try {
     const body = (await request.json()) as DecideRequest;
     const draft = body.draft?.trim();
@@ -91,4 +92,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -5,10 +5,10 @@ import { createOpenAIClient, getOpenAIRequestId } from "@/lib/openai/client";
 import type { ResponseStreamEvent } from "openai/resources/responses/responses";
 import type { ResponseInputItem } from "openai/resources/responses/responses";
 import { supabaseServer } from "@/lib/supabase/server";
-import { requireUserIdServer } from "@/lib/supabase/user";
 import type { Json } from "@/lib/supabase/types";
 import { encodingForModel } from "js-tiktoken";
 import { A2UI_TAG_END, A2UI_TAG_START, extractSuggestionPayloadFromText, stripSuggestionPayloadFromText } from "@/lib/market-agent/a2ui";
+import { withRouteGuard } from "@/lib/route-guard";
 
 type DraftRequestBody = {
   prompt?: string;
@@ -49,7 +49,11 @@ const parseCtaDecision = (payload: unknown): HumanizerCtaDecision | null => {
   return { show, reason: reason || undefined };
 };
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard({ access: "user", routeClass: "chat" }, async (
+  request: NextRequest,
+  _context: unknown,
+  auth
+) => {
   try {
     const body = (await request.json().catch(() => ({}))) as DraftRequestBody;
     const prompt = body.prompt?.trim();
@@ -74,7 +78,7 @@ export async function POST(request: NextRequest) {
     }
 
     const supabase = await supabaseServer();
-    const userId = await requireUserIdServer();
+    const userId = auth.userId;
     console.info("[human-writing][draft] user resolved", { userId });
 
     // Find or create conversation for this task
@@ -430,4 +434,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -2,9 +2,13 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase/server";
-import { requireUserIdServer } from "@/lib/supabase/user";
+import { withRouteGuard } from "@/lib/route-guard";
 
-export async function GET(request: NextRequest) {
+export const GET = withRouteGuard({ access: "user", routeClass: "standard" }, async (
+  request: NextRequest,
+  _context: unknown,
+  auth
+) => {
   try {
     const { searchParams } = new URL(request.url);
     const taskId = searchParams.get("taskId")?.trim();
@@ -13,7 +17,7 @@ export async function GET(request: NextRequest) {
     }
 
     const supabase = await supabaseServer();
-    const userId = await requireUserIdServer();
+    const userId = auth.userId;
 
     const { data: convo, error: convoError } = await supabase
       .from("conversations")
@@ -106,4 +110,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -2,11 +2,11 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase/server";
-import { requireUserIdServer } from "@/lib/supabase/user";
 import { rephrasyHumanize } from "@/lib/rephrasy";
 import { createOpenAIClient, getOpenAIRequestId } from "@/lib/openai/client";
 import { logUsageEvent } from "@/lib/usage";
 import type { Json, MessageInsert } from "@/lib/supabase/types";
+import { withRouteGuard } from "@/lib/route-guard";
 
 async function reviewOnly(params: { humanizedText: string; originalText: string }) {
   const { humanizedText, originalText } = params;
@@ -149,7 +149,11 @@ async function applyPatches(params: { humanizedText: string; reviewerNotes: stri
   return { finalText: finalText || humanizedText, requestId, raw: rawOutput, usage: usageSummary } as any;
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard({ access: "user", routeClass: "chat" }, async (
+  request: NextRequest,
+  _context: unknown,
+  auth
+) => {
   try {
     const body = (await request.json().catch(() => ({}))) as {
       text?: string;
@@ -173,7 +177,7 @@ export async function POST(request: NextRequest) {
     }
 
     const supabase = await supabaseServer();
-    const userId = await requireUserIdServer();
+    const userId = auth.userId;
 
     // Lookup conversation
     const { data: convo, error: convoError } = await supabase
@@ -467,4 +471,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
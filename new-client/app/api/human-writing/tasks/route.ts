@@ -1,12 +1,16 @@
 "use server";
 
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase/server";
-import { requireUserIdServer } from "@/lib/supabase/user";
+import { withRouteGuard } from "@/lib/route-guard";
 
-export async function GET() {
+export const GET = withRouteGuard({ access: "user", routeClass: "standard" }, async (
+  _request: NextRequest,
+  _context: unknown,
+  auth
+) => {
   try {
-    const userId = await requireUserIdServer();
+    const userId = auth.userId;
     const supabase = await supabaseServer();
 
     const { data, error } = await supabase
@@ -29,5 +33,5 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
 
@@ -3,6 +3,7 @@ export const runtime = "nodejs";
 import { NextRequest } from "next/server";
 import { lookup } from "node:dns/promises";
 import { isIP } from "node:net";
+import { withRouteGuard } from "@/lib/route-guard";
 
 const MAX_IMAGE_BYTES = 12 * 1024 * 1024; // slightly above thumbnail needs
 const FETCH_TIMEOUT_MS = 10_000;
@@ -113,7 +114,7 @@ async function readLimitedArrayBuffer(res: Response, maxBytes: number): Promise<
   return buf;
 }
 
-export async function GET(req: NextRequest): Promise<Response> {
+export const GET = withRouteGuard({ access: "guest", routeClass: "proxy" }, async (req: NextRequest): Promise<Response> => {
   const urlParam = req.nextUrl.searchParams.get("url") || "";
   if (!urlParam || urlParam.length > 4096) {
     return new Response("Missing url", { status: 400 });
@@ -178,4 +179,4 @@ export async function GET(req: NextRequest): Promise<Response> {
   } catch {
     return new Response("Fetch failed", { status: 502 });
   }
-}
+});
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+
+import { runBackgroundJobs } from "@/lib/jobs/worker";
+import { supabaseServerAdmin } from "@/lib/supabase/server";
+import { withRouteGuard } from "@/lib/route-guard";
+
+export const runtime = "nodejs";
+
+const MAX_JOBS_PER_TICK = 50;
+
+// Drains the background job queue. Chat turns give their own jobs a first run right after the
+// reply; this picks up retries and anything a turn didn't get to. Scheduled like /api/sga/cron,
+// or polled by scripts/job-worker.ps1 when running locally.
+export const GET = withRouteGuard({ access: "system", routeClass: "system" }, async (request: Request) => {
+  const cronHeader = request.headers.get("x-vercel-cron");
+  const authHeader = request.headers.get("authorization") ?? "";
+  const bearerToken = authHeader.startsWith("Bearer ") ? authHeader.slice(7) : "";
+  const cronSecret = process.env.CRON_SECRET;
+  const authorized = cronSecret ? bearerToken === cronSecret : cronHeader === "1";
+
+  if (!authorized) {
+    console.warn("[jobs-worker] unauthorized request");
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const supabase = await supabaseServerAdmin();
+    const result = await runBackgroundJobs(supabase, {
+      workerId: `cron:${crypto.randomUUID()}`,
+      maxJobs: MAX_JOBS_PER_TICK,
+    });
+    console.info("[jobs-worker] tick", result);
+    return NextResponse.json({ ok: true, ...result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("[jobs-worker] tick failed:", message);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+});
@@ -1,11 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 
 import { ensureMarketAgentConversation } from "@/lib/data/market-agent";
-import { requireUserIdServer } from "@/lib/supabase/user";
+import { withRouteGuard } from "@/lib/route-guard";
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard({ access: "user", routeClass: "chat" }, async (request: NextRequest) => {
   try {
-    await requireUserIdServer();
     const body = (await request.json()) as { instanceId?: string };
     if (!body?.instanceId) {
       return NextResponse.json({ error: "instanceId is required" }, { status: 400 });
@@ -17,4 +16,4 @@ export async function POST(request: NextRequest) {
     const message = error instanceof Error ? error.message : "Failed to create market agent conversation";
     return NextResponse.json({ error: message }, { status: 500 });
   }
-}
+});
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+
+import { runDueMarketAgents } from "@/lib/market-agent/runner";
+import { withRouteGuard } from "@/lib/route-guard";
+
+export const runtime = "nodejs";
+
+export const GET = withRouteGuard({ access: "system", routeClass: "system" }, async (request: Request) => {
+  const cronHeader = request.headers.get("x-vercel-cron");
+  const authHeader = request.headers.get("authorization") ?? "";
+  const bearerToken = authHeader.startsWith("Bearer ") ? authHeader.slice(7) : "";
+  const cronSecret = process.env.CRON_SECRET ?? process.env.MARKET_AGENT_CRON_SECRET;
+  const authorized = cronSecret ? bearerToken === cronSecret : cronHeader === "1";
+
+  if (!authorized) {
+    console.warn("[market-agent-cron] unauthorized request");
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const results = await runDueMarketAgents();
+    const reported = results.filter((result) => result.status === "reported").length;
+    const failed = results.filter((result) => result.status === "failed").length;
+
+    console.info("[market-agent-cron] tick", {
+      runningInstances: results.length,
+      reported,
+      failed,
+    });
+
+    return NextResponse.json({ ok: true, reported, failed, checked: results.length, results });
+  } catch (error) {
+    console.error("[market-agent-cron] tick failed", error);
+    const message = error instanceof Error ? error.message : "Market agent cron failed";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+});
@@ -1,17 +1,21 @@
 import { NextResponse } from "next/server";
 
 import { supabaseServer, supabaseServerAdmin } from "@/lib/supabase/server";
-import { getCurrentUserIdServer } from "@/lib/supabase/user";
 import { getMarketAgentInstance } from "@/lib/data/market-agent";
+import { withRouteGuard } from "@/lib/route-guard";
 
 export const runtime = "nodejs";
 
-export async function GET(request: Request) {
+export const GET = withRouteGuard({ access: "user", routeClass: "standard" }, async (
+  request: Request,
+  _context: unknown,
+  auth
+) => {
   try {
     const url = new URL(request.url);
     const instanceId = url.searchParams.get("instanceId");
 
-    const userId = await getCurrentUserIdServer();
+    const userId = auth.userId;
     const admin = await supabaseServerAdmin().catch(() => null);
     const supabase = await supabaseServer();
     const supabaseAny = supabase as any;
@@ -60,4 +64,4 @@ export async function GET(request: Request) {
       { status: 500 }
     );
   }
-}
+});
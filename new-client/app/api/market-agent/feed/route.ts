@@ -1,11 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 
 import { getMarketAgentFeed } from "@/lib/data/market-agent";
-import { requireUserIdServer } from "@/lib/supabase/user";
+import { withRouteGuard } from "@/lib/route-guard";
 
-export async function GET(request: NextRequest) {
+export const GET = withRouteGuard({ access: "user", routeClass: "standard" }, async (request: NextRequest) => {
   try {
-    await requireUserIdServer();
     const url = new URL(request.url);
     const instanceId = url.searchParams.get("instanceId");
     const limitParam = url.searchParams.get("limit");
@@ -21,4 +20,4 @@ export async function GET(request: NextRequest) {
     const message = error instanceof Error ? error.message : "Failed to load market agent feed";
     return NextResponse.json({ error: message }, { status: 500 });
   }
-}
+});
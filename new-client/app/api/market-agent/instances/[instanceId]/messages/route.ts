@@ -28,7 +28,7 @@ import {
   stripSuggestionPayloadFromText,
 } from "@/lib/market-agent/a2ui";
 import { supabaseServer } from "@/lib/supabase/server";
-import { requireUserIdServer } from "@/lib/supabase/user";
+import { withRouteGuard } from "@/lib/route-guard";
 
 const MODEL_ID = "gpt-5-nano";
 const CONTEXT_LIMIT_TOKENS = 400_000;
@@ -111,12 +111,11 @@ function extractInstanceId(request: NextRequest, params?: { instanceId?: string
   return segments[segments.length - 2] || null;
 }
 
-export async function GET(
+export const GET = withRouteGuard({ access: "user", routeClass: "standard" }, async (
   request: NextRequest,
   context: { params: Promise<{ instanceId: string }> },
-) {
+) => {
   try {
-    await requireUserIdServer();
     const params = await context.params;
     const instanceId = extractInstanceId(request, params);
     if (!instanceId) {
@@ -128,14 +127,15 @@ export async function GET(
     const message = error instanceof Error ? error.message : "Failed to load chat messages";
     return NextResponse.json({ error: message }, { status: 500 });
   }
-}
+});
 
-export async function POST(
+export const POST = withRouteGuard({ access: "user", routeClass: "chat" }, async (
   request: NextRequest,
   context: { params: Promise<{ instanceId: string }> },
-) {
+  auth
+) => {
   try {
-    const userId = await requireUserIdServer();
+    const userId = auth.userId;
     const params = await context.params;
     const instanceId = extractInstanceId(request, params);
     if (!instanceId) {
@@ -622,5 +622,5 @@ export async function POST(
     const message = error instanceof Error ? error.message : "Failed to create chat message";
     return NextResponse.json({ error: message }, { status: 500 });
   }
-}
+});
 
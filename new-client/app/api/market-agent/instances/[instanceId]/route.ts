@@ -5,14 +5,15 @@ import {
   getMarketAgentInstance,
   updateMarketAgentStatus,
 } from "@/lib/data/market-agent";
-import { requireUserIdServer } from "@/lib/supabase/user";
+import { withRouteGuard } from "@/lib/route-guard";
 
-export async function GET(
+export const GET = withRouteGuard({ access: "user", routeClass: "standard" }, async (
   _request: NextRequest,
-  { params }: { params: Promise<{ instanceId: string }> }
-) {
+  { params }: { params: Promise<{ instanceId: string }> },
+  auth
+) => {
   try {
-    const userId = await requireUserIdServer();
+    const userId = auth.userId;
     const { instanceId } = await params;
     if (!instanceId) {
       return NextResponse.json({ error: "Invalid instance id" }, { status: 400 });
@@ -26,14 +27,13 @@ export async function GET(
     const message = error instanceof Error ? error.message : "Failed to load market agent instance";
     return NextResponse.json({ error: message }, { status: 500 });
   }
-}
+});
 
-export async function PATCH(
+export const PATCH = withRouteGuard({ access: "user", routeClass: "standard" }, async (
   request: NextRequest,
   { params }: { params: Promise<{ instanceId: string }> }
-) {
+) => {
   try {
-    await requireUserIdServer();
     const { instanceId } = await params;
     const body = (await request.json()) as { status?: "draft" | "running" | "paused" };
     const status =
@@ -53,14 +53,13 @@ export async function PATCH(
     const message = error instanceof Error ? error.message : "Failed to update market agent instance";
     return NextResponse.json({ error: message }, { status: 500 });
   }
-}
+});
 
-export async function DELETE(
+export const DELETE = withRouteGuard({ access: "user", routeClass: "standard" }, async (
   _request: NextRequest,
   { params }: { params: Promise<{ instanceId: string }> }
-) {
+) => {
   try {
-    await requireUserIdServer();
     const { instanceId } = await params;
     await deleteMarketAgentInstance(instanceId);
     return NextResponse.json({ ok: true });
@@ -68,4 +67,4 @@ export async function DELETE(
     const message = error instanceof Error ? error.message : "Failed to delete market agent instance";
     return NextResponse.json({ error: message }, { status: 500 });
   }
-}
+});
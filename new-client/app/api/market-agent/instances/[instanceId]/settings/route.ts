@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 
 import { supabaseServer } from "@/lib/supabase/server";
-import { requireUserIdServer } from "@/lib/supabase/user";
+import { withRouteGuard } from "@/lib/route-guard";
 
 type ReportDepth = "short" | "standard" | "deep";
 
@@ -67,12 +67,13 @@ async function persistWatchlist(
   return symbols;
 }
 
-export async function PATCH(
+export const PATCH = withRouteGuard({ access: "user", routeClass: "standard" }, async (
   request: NextRequest,
-  { params }: { params: Promise<{ instanceId: string }> }
-) {
+  { params }: { params: Promise<{ instanceId: string }> },
+  auth
+) => {
   try {
-    const userId = await requireUserIdServer();
+    const userId = auth.userId;
     const supabase = await supabaseServer();
     const supabaseAny = supabase as any;
     const { instanceId } = await params;
@@ -129,4 +130,4 @@ export async function PATCH(
     const message = error instanceof Error ? error.message : "Failed to update market agent settings";
     return NextResponse.json({ error: message }, { status: 500 });
   }
-}
+});
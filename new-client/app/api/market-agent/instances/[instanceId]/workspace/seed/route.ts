@@ -7,15 +7,16 @@ import {
   getMarketAgentThesis,
   upsertMarketAgentThesis,
 } from "@/lib/data/market-agent";
-import { requireUserIdServer } from "@/lib/supabase/user";
+import { withRouteGuard } from "@/lib/route-guard";
 
-export async function POST(request: Request, context: { params: Promise<{ instanceId: string }> }) {
+export const POST = withRouteGuard({ access: "user", routeClass: "standard" }, async (
+  request: Request,
+  context: { params: Promise<{ instanceId: string }> },
+  auth
+) => {
 
   const { instanceId } = await context.params;
-  const userId = await requireUserIdServer();
-  if (!userId) {
-    return NextResponse.json({ error: "unauthorized" }, { status: 401 });
-  }
+  const userId = auth.userId;
 
   const instance = await getMarketAgentInstance(instanceId, userId);
   if (!instance) {
@@ -87,4 +88,4 @@ export async function POST(request: Request, context: { params: Promise<{ instan
   const events = await getMarketAgentEvents({ instanceId, limit: 20 });
 
   return NextResponse.json({ thesis, events });
-}
+});
@@ -4,22 +4,20 @@ import {
   createMarketAgentInstance,
   listMarketAgentInstances,
 } from "@/lib/data/market-agent";
-import { requireUserIdServer } from "@/lib/supabase/user";
+import { withRouteGuard } from "@/lib/route-guard";
 
-export async function GET() {
+export const GET = withRouteGuard({ access: "user", routeClass: "standard" }, async () => {
   try {
-    await requireUserIdServer();
     const instances = await listMarketAgentInstances();
     return NextResponse.json({ instances });
   } catch (error) {
     const message = error instanceof Error ? error.message : "Failed to load market agent instances";
     return NextResponse.json({ error: message }, { status: 500 });
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard({ access: "user", routeClass: "standard" }, async (request: NextRequest) => {
   try {
-    await requireUserIdServer();
     const body = (await request.json()) as {
       label?: string;
       cadenceSeconds?: number;
@@ -53,4 +51,4 @@ export async function POST(request: NextRequest) {
     const message = error instanceof Error ? error.message : "Failed to create market agent instance";
     return NextResponse.json({ error: message }, { status: 500 });
   }
-}
+});
@@ -0,0 +1,34 @@
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { createChatTurnReplayStream, findChatTurnJobForMessage, parseReplayOffset } from "@/lib/jobs/chat-turn";
+import { supabaseServer } from "@/lib/supabase/server";
+import { withRouteGuard } from "@/lib/route-guard";
+
+/**
+ * Resumes the stream of an assistant message that is still being written (or was, when the page
+ * went away). Events are replayed from `?offset=`, the number of NDJSON lines the client already
+ * handled, and the stream follows the turn until it ends.
+ */
+export const GET = withRouteGuard({ access: "user", routeClass: "standard" }, async (
+  request: NextRequest,
+  { params }: { params: Promise<{ messageId: string }> },
+  auth
+) => {
+  const { messageId } = await params;
+  const supabase = await supabaseServer();
+  const job = await findChatTurnJobForMessage(supabase, messageId).catch(() => null);
+  if (!job || job.userId !== auth.userId) {
+    return NextResponse.json({ error: "No stream found for this message" }, { status: 404 });
+  }
+
+  const offset = parseReplayOffset(request.nextUrl.searchParams.get("offset"));
+  return new Response(createChatTurnReplayStream(supabase, job.id, { offset, signal: request.signal }), {
+    headers: {
+      "Content-Type": "application/x-ndjson",
+      "Cache-Control": "no-cache",
+      "X-Chat-Job-Id": job.id,
+    },
+  });
+});
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { switchConversationBranch } from "@/lib/data/messages";
+import { withRouteGuard } from "@/lib/route-guard";
+
+export const POST = withRouteGuard({ access: "user", routeClass: "standard" }, async (request: Request) => {
+  try {
+    const { conversationId, messageId } = (await request.json()) as {
+      conversationId?: string;
+      messageId?: string;
+    };
+
+    if (!conversationId || !messageId) {
+      return NextResponse.json(
+        { error: "conversationId and messageId are required" },
+        { status: 400 }
+      );
+    }
+
+    const page = await switchConversationBranch(conversationId, messageId);
+
+    return NextResponse.json({
+      messages: page.messages,
+      hasMore: page.hasMore,
+      oldestTimestamp: page.oldestTimestamp,
+      branches: page.branches,
+    });
+  } catch (error) {
+    console.error("Error in branch endpoint:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+});
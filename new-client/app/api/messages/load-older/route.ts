@@ -1,7 +1,8 @@
 import { NextResponse } from "next/server";
 import { getMessagesForConversationPage } from "@/lib/data/messages";
+import { withRouteGuard } from "@/lib/route-guard";
 
-export async function POST(request: Request) {
+export const POST = withRouteGuard({ access: "user", routeClass: "standard" }, async (request: Request) => {
   try {
     const { conversationId, before, limit } = (await request.json()) as {
       conversationId?: string;
@@ -22,9 +23,10 @@ export async function POST(request: Request) {
       messages: page.messages,
       hasMore: page.hasMore,
       oldestTimestamp: page.oldestTimestamp,
+      branches: page.branches,
     });
   } catch (error) {
     console.error("Error in load-older endpoint:", error);
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
   }
-}
+});
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { searchMessages } from "@/lib/data/message-search";
+import type {
+  MessageSearchAttachmentKind,
+  MessageSearchFilters,
+  MessageSearchRole,
+} from "@/lib/types/message-search";
+import { withRouteGuard } from "@/lib/route-guard";
+
+const ROLES: MessageSearchRole[] = ["user", "assistant"];
+const ATTACHMENT_KINDS: MessageSearchAttachmentKind[] = ["any", "image", "pdf", "document", "spreadsheet", "audio"];
+
+export const POST = withRouteGuard({ access: "user", routeClass: "standard" }, async (request: Request) => {
+  try {
+    const { query, filters, limit } = (await request.json()) as {
+      query?: string;
+      filters?: MessageSearchFilters;
+      limit?: number;
+    };
+
+    if (!query || typeof query !== "string" || !query.trim()) {
+      return NextResponse.json({ error: "query is required" }, { status: 400 });
+    }
+    if (query.length > 500) {
+      return NextResponse.json({ error: "query is too long" }, { status: 400 });
+    }
+
+    const sanitizedFilters: MessageSearchFilters = {
+      projectId: typeof filters?.projectId === "string" && filters.projectId ? filters.projectId : null,
+      from: typeof filters?.from === "string" ? filters.from : null,
+      to: typeof filters?.to === "string" ? filters.to : null,
+      role: filters?.role && ROLES.includes(filters.role) ? filters.role : null,
+      attachment:
+        filters?.attachment && ATTACHMENT_KINDS.includes(filters.attachment) ? filters.attachment : null,
+    };
+
+    const result = await searchMessages({
+      query,
+      filters: sanitizedFilters,
+      limit: typeof limit === "number" && limit > 0 ? limit : undefined,
+    });
+
+    return NextResponse.json(result);
+  } catch (error: any) {
+    if (error?.message === "Invalid project ID") {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Error in message search endpoint:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+});
@@ -1,8 +1,9 @@
 import { NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase/server";
 import type { Json } from "@/lib/supabase/types";
+import { withRouteGuard } from "@/lib/route-guard";
 
-export async function POST(request: Request) {
+export const POST = withRouteGuard({ access: "user", routeClass: "standard" }, async (request: Request) => {
   try {
     const { messageId, metadata } = await request.json() as { messageId: string; metadata: Json };
 
@@ -36,4 +37,4 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-}
+});
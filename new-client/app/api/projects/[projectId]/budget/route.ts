@@ -0,0 +1,46 @@
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { getProjectBudgetStatus, updateProjectBudget } from "@/lib/data/projects";
+import { withRouteGuard } from "@/lib/route-guard";
+
+function statusForError(message: string) {
+  if (/not found/i.test(message)) return 404;
+  if (/invalid/i.test(message)) return 400;
+  return 500;
+}
+
+export const GET = withRouteGuard({ access: "user", routeClass: "standard" }, async (
+  _request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) => {
+  try {
+    const { projectId } = await params;
+    const status = await getProjectBudgetStatus(projectId);
+    return NextResponse.json(status);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to load project budget";
+    return NextResponse.json({ error: message }, { status: statusForError(message) });
+  }
+});
+
+export const PUT = withRouteGuard({ access: "user", routeClass: "standard" }, async (
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) => {
+  try {
+    const { projectId } = await params;
+    const body = await request.json().catch(() => null);
+    const raw = body?.monthlyBudgetUsd;
+    if (raw !== null && typeof raw !== "number") {
+      return NextResponse.json({ error: "Invalid budget" }, { status: 400 });
+    }
+    await updateProjectBudget({ projectId, monthlyBudgetUsd: raw });
+    const status = await getProjectBudgetStatus(projectId);
+    return NextResponse.json(status);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to update project budget";
+    return NextResponse.json({ error: message }, { status: statusForError(message) });
+  }
+});
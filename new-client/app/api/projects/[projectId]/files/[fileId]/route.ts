@@ -0,0 +1,46 @@
+export const runtime = "nodejs";
+export const maxDuration = 120; // Replacement is indexed before the old file is removed
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { deleteProjectFile, replaceProjectFile } from "@/lib/data/project-files";
+import { withRouteGuard } from "@/lib/route-guard";
+
+function statusForError(message: string) {
+  if (/not found/i.test(message)) return 404;
+  if (/invalid|empty|exceeds/i.test(message)) return 400;
+  return 500;
+}
+
+export const PUT = withRouteGuard({ access: "user", routeClass: "upload" }, async (
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string; fileId: string }> }
+) => {
+  try {
+    const { projectId, fileId } = await params;
+    const form = await request.formData();
+    const file = form.get("file");
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "No file provided" }, { status: 400 });
+    }
+    const projectFile = await replaceProjectFile(projectId, fileId, file);
+    return NextResponse.json({ file: projectFile });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to replace project file";
+    return NextResponse.json({ error: message }, { status: statusForError(message) });
+  }
+});
+
+export const DELETE = withRouteGuard({ access: "user", routeClass: "standard" }, async (
+  _request: NextRequest,
+  { params }: { params: Promise<{ projectId: string; fileId: string }> }
+) => {
+  try {
+    const { projectId, fileId } = await params;
+    await deleteProjectFile(projectId, fileId);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to delete project file";
+    return NextResponse.json({ error: message }, { status: statusForError(message) });
+  }
+});
@@ -0,0 +1,46 @@
+export const runtime = "nodejs";
+export const maxDuration = 120; // Vector store indexing is polled before responding
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { getProjectKnowledgeBase, uploadProjectFile } from "@/lib/data/project-files";
+import { withRouteGuard } from "@/lib/route-guard";
+
+function statusForError(message: string) {
+  if (/not found/i.test(message)) return 404;
+  if (/invalid|empty|exceeds/i.test(message)) return 400;
+  return 500;
+}
+
+export const GET = withRouteGuard({ access: "user", routeClass: "standard" }, async (
+  _request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) => {
+  try {
+    const { projectId } = await params;
+    const knowledgeBase = await getProjectKnowledgeBase(projectId);
+    return NextResponse.json(knowledgeBase);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to load project files";
+    return NextResponse.json({ error: message }, { status: statusForError(message) });
+  }
+});
+
+export const POST = withRouteGuard({ access: "user", routeClass: "upload" }, async (
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) => {
+  try {
+    const { projectId } = await params;
+    const form = await request.formData();
+    const file = form.get("file");
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "No file provided" }, { status: 400 });
+    }
+    const projectFile = await uploadProjectFile(projectId, file);
+    return NextResponse.json({ file: projectFile });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to upload project file";
+    return NextResponse.json({ error: message }, { status: statusForError(message) });
+  }
+});
@@ -0,0 +1,46 @@
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { getProjectSettings, updateProjectSettings, type ProjectSettings } from "@/lib/data/projects";
+import { withRouteGuard } from "@/lib/route-guard";
+
+function statusForError(message: string) {
+  if (/not authenticated/i.test(message)) return 401;
+  if (/not found/i.test(message)) return 404;
+  if (/invalid/i.test(message)) return 400;
+  return 500;
+}
+
+export const GET = withRouteGuard({ access: "user", routeClass: "standard" }, async (
+  _request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) => {
+  try {
+    const { projectId } = await params;
+    const settings = await getProjectSettings(projectId);
+    return NextResponse.json(settings);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to load project settings";
+    return NextResponse.json({ error: message }, { status: statusForError(message) });
+  }
+});
+
+/** Partial update: only the fields present in the body change. */
+export const PUT = withRouteGuard({ access: "user", routeClass: "standard" }, async (
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) => {
+  try {
+    const { projectId } = await params;
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Invalid settings" }, { status: 400 });
+    }
+    const settings = await updateProjectSettings({ projectId, settings: body as Partial<ProjectSettings> });
+    return NextResponse.json(settings);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to update project settings";
+    return NextResponse.json({ error: message }, { status: statusForError(message) });
+  }
+});
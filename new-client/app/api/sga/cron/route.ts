@@ -3,6 +3,7 @@ import { NextResponse } from "next/server";
 import { listSgaInstancesAdmin } from "@/lib/data/sga";
 import { supabaseServerAdmin } from "@/lib/supabase/server";
 import type { SgaInstance } from "@/lib/types/sga";
+import { withRouteGuard } from "@/lib/route-guard";
 
 export const runtime = "nodejs";
 
@@ -36,7 +37,7 @@ function getCadenceMinutes(instance: SgaInstance) {
   return DEFAULT_MINUTES;
 }
 
-export async function GET(request: Request) {
+export const GET = withRouteGuard({ access: "system", routeClass: "system" }, async (request: Request) => {
   const cronHeader = request.headers.get("x-vercel-cron");
   const authHeader = request.headers.get("authorization") ?? "";
   const bearerToken = authHeader.startsWith("Bearer ") ? authHeader.slice(7) : "";
@@ -116,4 +117,4 @@ export async function GET(request: Request) {
     console.warn("[sga-cron] run dispatch failures", { failed });
   }
   return NextResponse.json({ ok: true, scheduled, attempted: dueInstances.length });
-}
+});
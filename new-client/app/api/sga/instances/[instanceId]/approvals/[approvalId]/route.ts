@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { loadSgaInstance, loadSgaWorldState, mapLogTypeToKind } from "@/lib/data/sga";
+import { decideSgaApproval, expireSgaApprovals, getSgaApproval } from "@/lib/sga/approvals";
+import { resolveSgaConnectionSecrets } from "@/lib/sga/secrets";
+import { supabaseServer } from "@/lib/supabase/server";
+import { withRouteGuard } from "@/lib/route-guard";
+
+export const POST = withRouteGuard({ access: "user", routeClass: "standard" }, async (
+  request: NextRequest,
+  { params }: { params: Promise<{ instanceId: string; approvalId: string }> },
+  auth
+) => {
+  try {
+    const userId = auth.userId;
+    const { instanceId, approvalId } = await params;
+    if (!instanceId || !approvalId) {
+      return NextResponse.json({ error: "Invalid approval id" }, { status: 400 });
+    }
+
+    const body = (await request.json().catch(() => ({}))) as { decision?: string; note?: string };
+    if (body?.decision !== "approve" && body?.decision !== "reject") {
+      return NextResponse.json({ error: "decision must be \"approve\" or \"reject\"" }, { status: 400 });
+    }
+
+    const instance = await loadSgaInstance(instanceId, { includeSecrets: true });
+    if (!instance) {
+      return NextResponse.json({ error: "SGA instance not found" }, { status: 404 });
+    }
+
+    const supabase = await supabaseServer();
+    await expireSgaApprovals(supabase, instanceId);
+    const approval = await getSgaApproval(supabase, instanceId, approvalId);
+    if (!approval) {
+      return NextResponse.json({ error: "Approval not found" }, { status: 404 });
+    }
+    if (approval.status !== "pending") {
+      return NextResponse.json({ error: `Approval is already ${approval.status}`, approval }, { status: 409 });
+    }
+
+    // Approving resumes the run that proposed the action, so it opens the connection's secrets.
+    const connections =
+      body.decision === "approve"
+        ? await resolveSgaConnectionSecrets(supabase, {
+            instanceId,
+            connections: instance.connections ?? [],
+            actor: userId,
+            purpose: "approval",
+            runId: approval.runId,
+          })
+        : instance.connections;
+    const decided = await decideSgaApproval(supabase, {
+      instance: { ...instance, connections },
+      approval,
+      decision: body.decision,
+      note: typeof body.note === "string" ? body.note : null,
+      userId,
+    });
+    if (!decided) {
+      return NextResponse.json({ error: "Approval is no longer pending" }, { status: 409 });
+    }
+
+    const events = decided.logs.map((entry, index) => ({
+      id: `${approval.id}-${entry.log_type}-${index}`,
+      instanceId,
+      kind: mapLogTypeToKind(entry.log_type),
+      createdAt: entry.created_at,
+      title: entry.content,
+      summary: typeof entry.metadata?.preview === "string" ? entry.metadata.preview : "",
+      severity: entry.severity,
+      metadata: entry.metadata,
+    }));
+    const worldState = await loadSgaWorldState(instanceId);
+    return NextResponse.json({ ok: true, approval: decided.approval, events, worldState });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to decide SGA approval";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+});
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { loadSgaInstance } from "@/lib/data/sga";
+import { expireSgaApprovals, listSgaApprovals } from "@/lib/sga/approvals";
+import { supabaseServer } from "@/lib/supabase/server";
+import { withRouteGuard } from "@/lib/route-guard";
+
+export const GET = withRouteGuard({ access: "user", routeClass: "standard" }, async (
+  _request: NextRequest,
+  { params }: { params: Promise<{ instanceId: string }> }
+) => {
+  try {
+    const { instanceId } = await params;
+    if (!instanceId) {
+      return NextResponse.json({ error: "Invalid instance id" }, { status: 400 });
+    }
+
+    const instance = await loadSgaInstance(instanceId);
+    if (!instance) {
+      return NextResponse.json({ error: "SGA instance not found" }, { status: 404 });
+    }
+
+    const supabase = await supabaseServer();
+    await expireSgaApprovals(supabase, instanceId);
+    const approvals = await listSgaApprovals(supabase, instanceId);
+    return NextResponse.json({ approvals });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to load SGA approvals";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+});
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 
 import { loadSgaEvents, loadSgaInstance } from "@/lib/data/sga";
-import { requireUserIdServer } from "@/lib/supabase/user";
+import { withRouteGuard } from "@/lib/route-guard";
 
 function extractInstanceId(request: NextRequest, params?: { instanceId?: string }) {
   if (params?.instanceId) return params.instanceId;
@@ -9,12 +9,11 @@ function extractInstanceId(request: NextRequest, params?: { instanceId?: string
   return segments[segments.length - 2] || null;
 }
 
-export async function GET(
+export const GET = withRouteGuard({ access: "user", routeClass: "standard" }, async (
   request: NextRequest,
   context: { params: Promise<{ instanceId: string }> }
-) {
+) => {
   try {
-    await requireUserIdServer();
     const params = await context.params;
     const instanceId = extractInstanceId(request, params);
     if (!instanceId) {
@@ -32,4 +31,4 @@ export async function GET(
     const message = error instanceof Error ? error.message : "Failed to load SGA events";
     return NextResponse.json({ error: message }, { status: 500 });
   }
-}
+});
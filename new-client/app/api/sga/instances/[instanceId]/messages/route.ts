@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 
 import { insertSgaMessage, listSgaMessages, loadSgaInstance } from "@/lib/data/sga";
-import { requireUserIdServer } from "@/lib/supabase/user";
+import { withRouteGuard } from "@/lib/route-guard";
 
 const MODEL_ID = "gpt-5-nano";
 const DEFAULT_GREETING = "Standing by for governance directives and timeline updates.";
@@ -12,12 +12,11 @@ function extractInstanceId(request: NextRequest, params?: { instanceId?: string
   return segments[segments.length - 2] || null;
 }
 
-export async function GET(
+export const GET = withRouteGuard({ access: "user", routeClass: "standard" }, async (
   request: NextRequest,
   context: { params: Promise<{ instanceId: string }> }
-) {
+) => {
   try {
-    await requireUserIdServer();
     const params = await context.params;
     const instanceId = extractInstanceId(request, params);
     if (!instanceId) {
@@ -46,14 +45,13 @@ export async function GET(
     const message = error instanceof Error ? error.message : "Failed to load SGA chat messages";
     return NextResponse.json({ error: message }, { status: 500 });
   }
-}
+});
 
-export async function POST(
+export const POST = withRouteGuard({ access: "user", routeClass: "standard" }, async (
   request: NextRequest,
   context: { params: Promise<{ instanceId: string }> }
-) {
+) => {
   try {
-    await requireUserIdServer();
     const params = await context.params;
     const instanceId = extractInstanceId(request, params);
     if (!instanceId) {
@@ -87,4 +85,4 @@ export async function POST(
     const message = error instanceof Error ? error.message : "Failed to create SGA chat message";
     return NextResponse.json({ error: message }, { status: 500 });
   }
-}
+});
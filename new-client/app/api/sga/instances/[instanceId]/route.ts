@@ -10,15 +10,14 @@ import {
   updateSgaPolicy,
   updateSgaStatus,
 } from "@/lib/data/sga";
-import { requireUserIdServer } from "@/lib/supabase/user";
 import type { SgaAuthorityLevel, SgaConnection, SgaPolicy, SgaStatus } from "@/lib/types/sga";
+import { withRouteGuard } from "@/lib/route-guard";
 
-export async function PATCH(
+export const PATCH = withRouteGuard({ access: "user", routeClass: "standard" }, async (
   request: NextRequest,
   { params }: { params: Promise<{ instanceId: string }> }
-) {
+) => {
   try {
-    await requireUserIdServer();
     const { instanceId } = await params;
     const body = (await request.json()) as {
       status?: SgaStatus;
@@ -90,14 +89,13 @@ export async function PATCH(
     const message = error instanceof Error ? error.message : "Failed to update SGA instance";
     return NextResponse.json({ error: message }, { status: 500 });
   }
-}
+});
 
-export async function DELETE(
+export const DELETE = withRouteGuard({ access: "user", routeClass: "standard" }, async (
   request: NextRequest,
   { params }: { params: Promise<{ instanceId: string }> }
-) {
+) => {
   try {
-    await requireUserIdServer();
     const { instanceId } = await params;
     if (!instanceId) {
       return NextResponse.json({ error: "Invalid instance id" }, { status: 400 });
@@ -108,4 +106,4 @@ export async function DELETE(
     const message = error instanceof Error ? error.message : "Failed to delete SGA instance";
     return NextResponse.json({ error: message }, { status: 500 });
   }
-}
+});
@@ -1,137 +1,41 @@
 import { NextRequest, NextResponse } from "next/server";
 
-import { loadSgaInstance, loadSgaInstanceAdmin } from "@/lib/data/sga";
+import {
+  loadSgaInstance,
+  loadSgaInstanceAdmin,
+  loadSgaWorldState,
+  loadSgaWorldStateAdmin,
+  mapLogTypeToKind,
+  parsePolicy,
+} from "@/lib/data/sga";
+import { expireSgaApprovals, loadSgaApprovalReviews, queueSgaApprovals } from "@/lib/sga/approvals";
+import { runGovernorCycle, SGA_PHASES } from "@/lib/sga/governor";
+import { readLedger } from "@/lib/sga/policy";
+import { resolveSgaConnectionSecrets } from "@/lib/sga/secrets";
+import {
+  buildSimulationReport,
+  createSimulationTransport,
+  loadRecordedResponses,
+  parseSimulationFixtures,
+  saveSgaSimulation,
+} from "@/lib/sga/simulation";
 import { supabaseServer, supabaseServerAdmin } from "@/lib/supabase/server";
-import { requireUserIdServer } from "@/lib/supabase/user";
-import type { SgaConnection } from "@/lib/types/sga";
+import type { SgaAuthorityLevel } from "@/lib/types/sga";
+import { withRouteGuard } from "@/lib/route-guard";
 
-const REQUEST_TIMEOUT_MS = 15000;
-const MAX_PREVIEW_CHARS = 2000;
-const MAX_DETAIL_LOGS = 75;
-
-function truncate(value: string, max = MAX_PREVIEW_CHARS) {
-  if (value.length <= max) return value;
-  return `${value.slice(0, max)}...`;
-}
-
-function normalizeEndpoint(endpoint: string) {
-  return endpoint.trim();
-}
-
-function patternMatches(value: string, pattern: string) {
-  const trimmed = pattern.trim();
-  if (!trimmed) return false;
-  if (trimmed === "*") return true;
-  if (trimmed.includes("*")) {
-    const escaped = trimmed.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
-    const regex = new RegExp(`^${escaped}$`, "i");
-    return regex.test(value);
-  }
-  return value.includes(trimmed);
-}
-
-function isEndpointAllowed(endpoint: string, allowList: string[], denyList: string[]) {
-  if (denyList.some((pattern) => patternMatches(endpoint, pattern))) {
-    return false;
-  }
-  if (allowList.length === 0) return true;
-  return allowList.some((pattern) => patternMatches(endpoint, pattern));
+function isCronDispatch(request: NextRequest) {
+  const cronSecret = request.headers.get("x-sga-cron");
+  return !!cronSecret && !!process.env.SGA_CRON_SECRET && cronSecret === process.env.SGA_CRON_SECRET;
 }
 
-function resolveEndpointUrl(connection: SgaConnection, endpoint: string) {
-  if (endpoint.startsWith("http://") || endpoint.startsWith("https://")) {
-    return endpoint;
-  }
-  if (!connection.baseUrl) return null;
-  const base = connection.baseUrl.replace(/\/+$/, "");
-  const path = endpoint.replace(/^\/+/, "");
-  return `${base}/${path}`;
-}
-
-function buildAuthHeader(connection: SgaConnection) {
-  if (!connection.authType || connection.authType === "none" || !connection.authValue) {
-    return null;
-  }
-  const headerName =
-    connection.authHeader?.trim() ||
-    (connection.authType === "api_key" ? "x-api-key" : "Authorization");
-  if (connection.authType === "api_key") {
-    return { name: headerName, value: connection.authValue };
-  }
-  if (connection.authType === "basic") {
-    return { name: headerName, value: `Basic ${connection.authValue}` };
-  }
-  return { name: headerName, value: `Bearer ${connection.authValue}` };
-}
-
-function stripQuery(value: string) {
-  const trimmed = value.trim();
-  if (!trimmed) return trimmed;
-  try {
-    const parsed = new URL(trimmed);
-    parsed.search = "";
-    parsed.hash = "";
-    return parsed.toString();
-  } catch {
-    return trimmed.split("?")[0]?.split("#")[0] ?? trimmed;
-  }
-}
-
-async function fetchEndpoint(url: string, headers: Record<string, string>) {
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
-  const start = Date.now();
-  try {
-    const response = await fetch(url, {
-      method: "GET",
-      headers,
-      signal: controller.signal,
-    });
-    const contentType = response.headers.get("content-type") || "";
-    let preview = "";
-    try {
-      if (contentType.includes("application/json")) {
-        const json = await response.json();
-        preview = truncate(JSON.stringify(json));
-      } else {
-        preview = truncate(await response.text());
-      }
-    } catch (error) {
-      preview = "Unable to parse response body.";
-    }
-    return {
-      ok: response.ok,
-      status: response.status,
-      durationMs: Date.now() - start,
-      preview,
-    };
-  } catch (error) {
-    const message = error instanceof Error ? error.message : "Request failed";
-    return {
-      ok: false,
-      status: null,
-      durationMs: Date.now() - start,
-      preview: truncate(message),
-      error: message,
-    };
-  } finally {
-    clearTimeout(timeout);
-  }
-}
-
-export async function POST(
+export const POST = withRouteGuard({ access: "internal", routeClass: "chat", isInternal: isCronDispatch }, async (
   request: NextRequest,
-  { params }: { params: Promise<{ instanceId: string }> }
-) {
+  { params }: { params: Promise<{ instanceId: string }> },
+  auth
+) => {
   try {
-    const cronSecret = request.headers.get("x-sga-cron");
-    const isCron =
-      !!cronSecret &&
-      !!process.env.SGA_CRON_SECRET &&
-      cronSecret === process.env.SGA_CRON_SECRET;
-    if (!isCron) {
-      await requireUserIdServer();
-    }
+    const isCron = auth.kind === "internal";
+    const userId = auth.kind === "user" ? auth.userId : null;
     const { instanceId } = await params;
     if (!instanceId) {
       return NextResponse.json({ error: "Invalid instance id" }, { status: 400 });
@@ -140,6 +44,10 @@ export async function POST(
     const body = (await request.json().catch(() => ({}))) as {
       trigger?: string;
       stage?: string;
+      mode?: string;
+      authorityLevel?: number;
+      policy?: unknown;
+      fixtures?: unknown;
     };
     const trigger = body?.trigger === "schedule" ? "schedule" : "manual";
     const stage = body?.stage === "schedule_only" ? "schedule_only" : "run";
@@ -162,6 +70,48 @@ export async function POST(
     const runStartedAt = new Date().toISOString();
     const cycleId = `cycle-${Date.now()}`;
 
+    if (body?.mode === "simulation") {
+      // Dry run: optional authority level and policy overrides, reads replayed, writes captured.
+      // Only the report is stored; runs, logs, the ledger and the approval queue are left alone.
+      const authorityLevel = [0, 1, 2, 3, 4].includes(Number(body.authorityLevel))
+        ? (Number(body.authorityLevel) as SgaAuthorityLevel)
+        : instance.authorityLevel;
+      const policy = body.policy ? parsePolicy(body.policy) : instance.policy;
+      if (!policy) {
+        throw new Error("SGA instance has no policy");
+      }
+      const { data: configRow } = await supabaseWrite
+        .from("governor_instances")
+        .select("config")
+        .eq("id", instanceId)
+        .maybeSingle();
+      const config: Record<string, unknown> =
+        configRow && typeof configRow.config === "object" && configRow.config !== null ? configRow.config : {};
+      const recordings = await loadRecordedResponses(supabaseWrite, instanceId);
+      const { transport, reads } = createSimulationTransport(parseSimulationFixtures(body.fixtures), recordings);
+      const previousWorldState = await (isCron
+        ? loadSgaWorldStateAdmin(instanceId)
+        : loadSgaWorldState(instanceId)
+      ).catch(() => null);
+
+      const cycle = await runGovernorCycle({
+        instance: { ...instance, authorityLevel, policy },
+        policy,
+        cycleId,
+        trigger: "simulation",
+        ledger: readLedger(config, new Date()),
+        previousWorldState,
+        reviews: await loadSgaApprovalReviews(supabaseWrite, instanceId),
+        log: () => {},
+        transport,
+      });
+      const simulation = await saveSgaSimulation(
+        supabaseWrite,
+        buildSimulationReport({ instanceId, authorityLevel, policy, cycle, reads })
+      );
+      return NextResponse.json({ ok: true, simulation });
+    }
+
     if (stage === "schedule_only") {
       const { data: waitingRow, error: waitingError } = await supabaseWrite
         .from("governor_runs")
@@ -268,177 +218,113 @@ export async function POST(
       metadata: { trigger, phase: 0 },
     });
 
-    addLog({
-      run_id: runId,
-      instance_id: instanceId,
-      log_type: "phase_start",
-      phase: 1,
-      severity: "info",
-      content: "Phase 1 started (observe).",
-      metadata: { trigger, phase: 1 },
-    });
-    const connections = instance.connections ?? [];
-    const connectionReports: Array<Record<string, unknown>> = [];
-    const errorSummaries: Array<Record<string, unknown>> = [];
-    let endpointsChecked = 0;
-    let failures = 0;
-
-    for (const connection of connections) {
-      if (!["read", "read_write", "custom"].includes(connection.permission)) {
-        connectionReports.push({
-          id: connection.id,
-          name: connection.name,
-          skipped: true,
-          reason: "Read access disabled",
-        });
-        continue;
-      }
-
-      const endpoints = (connection.readEndpoints ?? []).map(normalizeEndpoint).filter(Boolean);
-      if (!endpoints.length) {
-        connectionReports.push({
-          id: connection.id,
-          name: connection.name,
-          skipped: true,
-          reason: "No read endpoints configured",
-        });
-        continue;
-      }
-
-      const allowedEndpoints = endpoints.filter((endpoint) =>
-        isEndpointAllowed(endpoint, connection.allowList ?? [], connection.denyList ?? [])
-      );
-
-      if (!allowedEndpoints.length) {
-        connectionReports.push({
-          id: connection.id,
-          name: connection.name,
-          skipped: true,
-          reason: "Allow/deny rules blocked all endpoints",
-        });
-        continue;
-      }
+    // Read config through the write client: cron runs have no user session, and the update
+    // below replaces the whole config object.
+    const { data: existingInstance } = await supabaseWrite
+      .from("governor_instances")
+      .select("config")
+      .eq("id", instanceId)
+      .maybeSingle();
+    const existingConfig: Record<string, unknown> =
+      existingInstance && typeof existingInstance.config === "object" && existingInstance.config !== null
+        ? existingInstance.config
+        : {};
+    const previousWorldState = await (isCron
+      ? loadSgaWorldStateAdmin(instanceId)
+      : loadSgaWorldState(instanceId)
+    ).catch(() => null);
+
+    const policy = instance.policy;
+    if (!policy) {
+      throw new Error("SGA instance has no policy");
+    }
 
-      const baseHeaders: Record<string, string> = {
-        Accept: "application/json",
-        ...(connection.headers ?? {}),
-      };
-      const authHeader = buildAuthHeader(connection);
-      if (authHeader) {
-        baseHeaders[authHeader.name] = authHeader.value;
-      }
+    // Expire stale approvals before the cycle so their actions can be requested again.
+    await expireSgaApprovals(supabaseWrite, instanceId);
+    const reviews = await loadSgaApprovalReviews(supabaseWrite, instanceId);
 
-      const endpointResults = [];
-      for (const endpoint of allowedEndpoints) {
-        const resolvedUrl = resolveEndpointUrl(connection, endpoint);
-        if (!resolvedUrl) {
-          failures += 1;
-          endpointResults.push({
-            endpoint,
-            ok: false,
-            status: null,
-            durationMs: 0,
-            preview: "Missing base URL.",
-          });
-          errorSummaries.push({
-            connection: connection.name,
-            endpoint,
-            error: "Missing base URL",
-          });
-          continue;
-        }
-
-        const result = await fetchEndpoint(resolvedUrl, baseHeaders);
-        endpointsChecked += 1;
-        if (!result.ok) {
-          failures += 1;
-          errorSummaries.push({
-            connection: connection.name,
-            endpoint,
-            status: result.status,
-            error: result.preview,
-          });
-        }
-        addLog({
-          run_id: runId,
-          instance_id: instanceId,
-          log_type: "api_call",
-          phase: 1,
-          severity: result.ok ? "info" : "medium",
-          content: `GET ${stripQuery(resolvedUrl)} -> ${result.status ?? "error"}`,
-          metadata: {
-            connection: connection.name,
-            endpoint,
-            url: stripQuery(resolvedUrl),
-            ok: result.ok,
-            status: result.status,
-            durationMs: result.durationMs,
-            preview: result.preview,
-          },
-        });
-        endpointResults.push({
-          endpoint,
-          url: resolvedUrl,
-          ok: result.ok,
-          status: result.status,
-          durationMs: result.durationMs,
-          preview: result.preview,
-        });
-      }
+    // Secrets are decrypted here and only live for this cycle's requests; each use is audited.
+    const connections = await resolveSgaConnectionSecrets(supabaseWrite, {
+      instanceId,
+      connections: instance.connections ?? [],
+      actor: userId ?? "cron",
+      purpose: "run",
+      runId,
+    });
 
-      connectionReports.push({
-        id: connection.id,
-        name: connection.name,
-        endpoints: endpointResults,
-      });
-    }
+    const cycle = await runGovernorCycle({
+      instance: { ...instance, connections },
+      policy,
+      cycleId,
+      trigger,
+      ledger: readLedger(existingConfig, new Date()),
+      previousWorldState,
+      reviews,
+      log: (entry) => addLog({ run_id: runId, instance_id: instanceId, ...entry }),
+      onPhase: async (phase) => {
+        const phaseIndex = SGA_PHASES.indexOf(phase);
+        await supabaseWrite
+          .from("governor_runs")
+          .update({
+            current_phase: phaseIndex,
+            phase_data: { phase, phase_index: phaseIndex, trigger, ts_start: runStartedAt },
+            updated_at: new Date().toISOString(),
+          })
+          .eq("id", runId);
+      },
+    });
 
     const runFinishedAt = new Date().toISOString();
-    const summary = `Observed ${connectionReports.length} connections / ${endpointsChecked} endpoints with ${failures} failures.`;
-    const severity = failures > 0 ? "medium" : "info";
-    const riskRegister =
-      failures > 0
-        ? [
-            {
-              id: `risk-${cycleId}`,
-              label: "Connector errors",
-              level: failures > 3 ? "high" : "medium",
-              note: `${failures} endpoint failures detected during the latest scan.`,
-            },
-          ]
-        : [];
+    const { summary, severity, observation, ledger } = cycle;
+    const budgets = {
+      dailyTimeBudgetHours: instance.dailyTimeBudgetHours,
+      dailyCostBudgetUsd: instance.dailyCostBudgetUsd,
+      todayEstimatedSpendUsd: ledger.todayUsd,
+    };
 
     const phaseData = {
       cycle_id: cycleId,
       ts_start: runStartedAt,
       ts_end: runFinishedAt,
       mode: trigger === "manual" ? "MANUAL" : "NORMAL",
-      phase: "observe",
-      phase_index: 1,
+      phase: cycle.lastPhase,
+      phase_index: SGA_PHASES.indexOf(cycle.lastPhase),
       currentObjective: instance.primaryObjective,
-      constraints: ["Observe-only mode: read-only API access."],
-      riskRegister,
-      capabilitiesSummary: connections.map((connection) => ({
-        id: connection.id,
-        displayName: connection.name,
-        kind: "data_source",
-        domainTags: [],
-        riskLevel: "low",
-      })),
-      openTasks: [],
-      budgets: {
-        dailyTimeBudgetHours: instance.dailyTimeBudgetHours,
-        dailyCostBudgetUsd: instance.dailyCostBudgetUsd,
-        todayEstimatedSpendUsd: instance.todayEstimatedSpendUsd,
-      },
+      constraints: cycle.constraints,
+      riskRegister: cycle.riskRegister,
+      capabilitiesSummary: cycle.capabilitiesSummary,
+      openTasks: cycle.openTasks,
+      budgets,
       observation: {
         trigger,
         summary,
-        connectionsChecked: connectionReports.length,
-        endpointsChecked,
-        failures,
-        results: connectionReports,
+        connectionsChecked: observation.connectionsChecked,
+        endpointsChecked: observation.endpointsChecked,
+        failures: observation.failures,
+        results: observation.results,
+      },
+      orientation: { health: cycle.health },
+      plan: {
+        decisions: cycle.actions.map((outcome) => ({
+          connection: outcome.connectionName,
+          action: outcome.action.action,
+          method: outcome.action.method,
+          endpoint: outcome.action.endpoint,
+          riskLevel: outcome.action.riskLevel,
+          verdict: outcome.verdict,
+          reason: outcome.reason,
+          estimatedCostUsd: outcome.estimatedCostUsd,
+          status: outcome.result?.status ?? null,
+          verification: outcome.verification ?? null,
+        })),
+      },
+      spend: {
+        cycleUsd: cycle.cycleCostUsd,
+        todayUsd: ledger.todayUsd,
+        monthUsd: ledger.monthUsd,
+        caps: cycle.caps,
       },
+      phases: cycle.phases,
     };
 
     const { data: completedRow, error: completedError } = await supabaseWrite
@@ -449,7 +335,7 @@ export async function POST(
           status: "completed",
           cycle_id: cycleId,
           mode: trigger === "manual" ? "MANUAL" : "NORMAL",
-          current_phase: 1,
+          current_phase: phaseData.phase_index,
           phase_data: phaseData,
           created_at: runFinishedAt,
           updated_at: runFinishedAt,
@@ -462,54 +348,39 @@ export async function POST(
       throw new Error(completedError?.message ?? "Failed to record run completion");
     }
 
-    const { data: existingInstance } = await supabaseAny
-      .from("governor_instances")
-      .select("config")
-      .eq("id", instanceId)
-      .maybeSingle();
-    const existingConfig =
-      existingInstance && typeof existingInstance.config === "object" && existingInstance.config !== null
-        ? existingInstance.config
-        : {};
+    const approvals = await queueSgaApprovals(supabaseWrite, {
+      instance,
+      runId: completedRow.id,
+      cycleId,
+      outcomes: cycle.actions,
+      reviews,
+    });
+    if (approvals.length > 0) {
+      addLog({
+        run_id: runId,
+        instance_id: instanceId,
+        log_type: "approval_pause",
+        phase: SGA_PHASES.indexOf("decide"),
+        severity: "medium",
+        content: `Paused for approval: ${approvals.map((approval) => `${approval.action} via ${approval.connectionName}`).join(", ")}.`,
+        metadata: { approvalIds: approvals.map((approval) => approval.id) },
+      });
+    }
+
     await supabaseWrite
       .from("governor_instances")
       .update({
-        config: { ...existingConfig, last_cycle_at: runFinishedAt, last_decision_at: runFinishedAt },
+        config: {
+          ...existingConfig,
+          last_cycle_at: runFinishedAt,
+          last_decision_at: runFinishedAt,
+          governor_ledger: ledger,
+          today_estimated_spend_usd: ledger.todayUsd,
+        },
         updated_at: runFinishedAt,
       })
       .eq("id", instanceId);
 
-    addLog({
-      run_id: completedRow.id,
-      instance_id: instanceId,
-      log_type: "phase_complete",
-      phase: 1,
-      severity,
-      content: `Phase 1 completed. ${summary}`,
-      metadata: {
-        trigger,
-        phase: 1,
-        connectionsChecked: connectionReports.length,
-        endpointsChecked,
-        failures,
-      },
-    });
-
-    if (errorSummaries.length > 0) {
-      addLog({
-        run_id: completedRow.id,
-        instance_id: instanceId,
-        log_type: "error",
-        phase: 1,
-        severity: failures > 3 ? "high" : "medium",
-        content: "Connector errors detected during observation.",
-        metadata: {
-          trigger,
-          errors: errorSummaries.slice(0, 10),
-        },
-      });
-    }
-
     if (logs.length > 0) {
       const { error: logsError } = await supabaseWrite.from("governor_logs").insert(logs);
       if (logsError) {
@@ -543,10 +414,10 @@ export async function POST(
       lastUpdatedAt: runFinishedAt,
       currentObjective: instance.primaryObjective,
       constraints: phaseData.constraints,
-      riskRegister,
+      riskRegister: phaseData.riskRegister,
       capabilitiesSummary: phaseData.capabilitiesSummary,
-      openTasks: [],
-      budgets: phaseData.budgets,
+      openTasks: phaseData.openTasks,
+      budgets,
     };
 
     const eventPayload = {
@@ -554,7 +425,7 @@ export async function POST(
       instanceId,
       kind: "situation_scan",
       createdAt: runFinishedAt,
-      title: "Observation cycle",
+      title: "Governor cycle",
       summary,
       severity,
     };
@@ -563,7 +434,7 @@ export async function POST(
       ...logs.map((entry, index) => ({
         id: `${completedRow.id}-${entry.log_type}-${index}`,
         instanceId,
-        kind: entry.log_type === "error" ? "error" : "situation_scan",
+        kind: mapLogTypeToKind(entry.log_type),
         createdAt: entry.created_at ?? runFinishedAt,
         title: entry.content,
         summary: (entry.metadata as any)?.preview ?? "",
@@ -577,16 +448,20 @@ export async function POST(
       runId,
       summary,
       stats: {
-        connectionsChecked: connectionReports.length,
-        endpointsChecked,
-        failures,
+        connectionsChecked: observation.connectionsChecked,
+        endpointsChecked: observation.endpointsChecked,
+        failures: observation.failures,
+        actionsPlanned: cycle.actions.length,
+        actionsExecuted: cycle.actions.filter((outcome) => outcome.result).length,
+        costUsd: cycle.cycleCostUsd,
       },
       worldState: worldStatePayload,
       event: eventPayload,
       events: eventsPayload,
+      approvals,
     });
   } catch (error) {
     const message = error instanceof Error ? error.message : "Failed to run SGA cycle";
     return NextResponse.json({ error: message }, { status: 500 });
   }
-}
+});
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { loadSgaInstance } from "@/lib/data/sga";
+import { listSgaSecretAudit } from "@/lib/sga/secrets";
+import { supabaseServer } from "@/lib/supabase/server";
+import { withRouteGuard } from "@/lib/route-guard";
+
+export const GET = withRouteGuard({ access: "user", routeClass: "standard" }, async (
+  _request: NextRequest,
+  { params }: { params: Promise<{ instanceId: string }> }
+) => {
+  try {
+    const { instanceId } = await params;
+    if (!instanceId) {
+      return NextResponse.json({ error: "Invalid instance id" }, { status: 400 });
+    }
+
+    const instance = await loadSgaInstance(instanceId);
+    if (!instance) {
+      return NextResponse.json({ error: "SGA instance not found" }, { status: 404 });
+    }
+
+    const supabase = await supabaseServer();
+    const audit = await listSgaSecretAudit(supabase, instanceId);
+    return NextResponse.json({ audit });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to load secret audit log";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+});
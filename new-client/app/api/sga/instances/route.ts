@@ -1,23 +1,21 @@
 import { NextRequest, NextResponse } from "next/server";
 
 import { createSgaInstance, loadSgaInstances } from "@/lib/data/sga";
-import { requireUserIdServer } from "@/lib/supabase/user";
 import type { SgaInstance } from "@/lib/types/sga";
+import { withRouteGuard } from "@/lib/route-guard";
 
-export async function GET() {
+export const GET = withRouteGuard({ access: "user", routeClass: "standard" }, async () => {
   try {
-    await requireUserIdServer();
     const instances = await loadSgaInstances();
     return NextResponse.json({ instances });
   } catch (error) {
     const message = error instanceof Error ? error.message : "Failed to load SGA instances";
     return NextResponse.json({ error: message }, { status: 500 });
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard({ access: "user", routeClass: "standard" }, async (request: NextRequest) => {
   try {
-    await requireUserIdServer();
     const body = (await request.json()) as Partial<SgaInstance>;
 
     const assuranceLevel =
@@ -48,4 +46,4 @@ export async function POST(request: NextRequest) {
     const message = error instanceof Error ? error.message : "Failed to create SGA instance";
     return NextResponse.json({ error: message }, { status: 500 });
   }
-}
+});
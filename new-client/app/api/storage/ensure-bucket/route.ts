@@ -3,8 +3,9 @@ export const maxDuration = 30;
 
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { withRouteGuard } from "@/lib/route-guard";
 
-export async function POST() {
+export const POST = withRouteGuard({ access: "user", routeClass: "standard" }, async () => {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
   const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
   const bucket = "attachments";
@@ -47,4 +48,4 @@ export async function POST() {
     const msg = e instanceof Error ? e.message : String(e);
     return NextResponse.json({ error: msg }, { status: 500 });
   }
-}
+});
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getCurrentUserIdServer } from "@/lib/supabase/user";
+import { withRouteGuard } from "@/lib/route-guard";
 
 export const runtime = "nodejs";
 
@@ -8,12 +8,13 @@ const PLAN_PRICE_MAP: Record<string, string | undefined> = {
   max: process.env.STRIPE_PRICE_MAX,
 };
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard({ access: "user", routeClass: "standard" }, async (
+  request: NextRequest,
+  _context: unknown,
+  auth
+) => {
   try {
-    const userId = await getCurrentUserIdServer();
-    if (!userId) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const userId = auth.userId;
 
     const secretKey = process.env.STRIPE_SECRET_KEY;
     if (!secretKey) {
@@ -70,4 +71,4 @@ export async function POST(request: NextRequest) {
     console.error("[stripe] Unexpected error", error);
     return NextResponse.json({ error: "internal_error" }, { status: 500 });
   }
-}
+});
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseServerAdmin } from "@/lib/supabase/server";
-import { getCurrentUserIdServer } from "@/lib/supabase/user";
+import { withRouteGuard } from "@/lib/route-guard";
 
 export const runtime = "nodejs";
 
@@ -63,12 +63,13 @@ async function applyPlanUpdate(userId: string, planType: "free" | "plus" | "max"
   }
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard({ access: "user", routeClass: "standard" }, async (
+  request: NextRequest,
+  _context: unknown,
+  auth
+) => {
   try {
-    const userId = await getCurrentUserIdServer();
-    if (!userId) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const userId = auth.userId;
 
     const secretKey = process.env.STRIPE_SECRET_KEY;
     if (!secretKey) {
@@ -236,4 +237,4 @@ export async function POST(request: NextRequest) {
     console.error("[stripe-sync] Unexpected error", error);
     return NextResponse.json({ error: "internal_error" }, { status: 500 });
   }
-}
+});
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase/server";
-import { getCurrentUserIdServer } from "@/lib/supabase/user";
+import { withRouteGuard } from "@/lib/route-guard";
 
 export const runtime = "nodejs";
 
@@ -16,12 +16,13 @@ function formatPaymentLabel(brand?: string | null, last4?: string | null) {
   return `${safeBrand || "CARD"} *${safeLast4}`;
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard({ access: "user", routeClass: "standard" }, async (
+  request: NextRequest,
+  _context: unknown,
+  auth
+) => {
   try {
-    const userId = await getCurrentUserIdServer();
-    if (!userId) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const userId = auth.userId;
 
     const secretKey = process.env.STRIPE_SECRET_KEY;
     if (!secretKey) {
@@ -140,4 +141,4 @@ export async function POST(request: NextRequest) {
     console.error("[stripe] Upgrade preview error", error);
     return NextResponse.json({ error: "internal_error" }, { status: 500 });
   }
-}
+});
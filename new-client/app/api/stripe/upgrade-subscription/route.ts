@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase/server";
-import { getCurrentUserIdServer } from "@/lib/supabase/user";
+import { withRouteGuard } from "@/lib/route-guard";
 
 export const runtime = "nodejs";
 
@@ -22,12 +22,13 @@ function resolvePlanFromPrice(priceId?: string | null): "plus" | "max" | null {
   return null;
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard({ access: "user", routeClass: "standard" }, async (
+  request: NextRequest,
+  _context: unknown,
+  auth
+) => {
   try {
-    const userId = await getCurrentUserIdServer();
-    if (!userId) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const userId = auth.userId;
 
     const secretKey = process.env.STRIPE_SECRET_KEY;
     if (!secretKey) {
@@ -507,4 +508,4 @@ export async function POST(request: NextRequest) {
     console.error("[stripe] Upgrade subscription error", error);
     return NextResponse.json({ error: "internal_error" }, { status: 500 });
   }
-}
+});
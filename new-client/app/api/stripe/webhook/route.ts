@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseServerAdmin } from "@/lib/supabase/server";
 import crypto from "node:crypto";
+import { withRouteGuard } from "@/lib/route-guard";
 
 export const runtime = "nodejs";
 
@@ -88,7 +89,7 @@ async function applyPlanUpdate(userId: string, planType: "free" | "plus" | "max"
   }
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard({ access: "system", routeClass: "system" }, async (request: NextRequest) => {
   const secret = process.env.STRIPE_WEBHOOK_SECRET;
   if (!secret) {
     console.error("[stripe-webhook] Missing STRIPE_WEBHOOK_SECRET");
@@ -144,4 +145,4 @@ export async function POST(request: NextRequest) {
   }
 
   return NextResponse.json({ received: true });
-}
+});
@@ -0,0 +1,26 @@
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { getRequestTrace } from "@/lib/data/request-traces";
+import { withRouteGuard } from "@/lib/route-guard";
+
+function statusForError(message: string) {
+  if (/not found/i.test(message)) return 404;
+  if (/invalid/i.test(message)) return 400;
+  return 500;
+}
+
+export const GET = withRouteGuard({ access: "user", routeClass: "standard" }, async (
+  _request: NextRequest,
+  { params }: { params: Promise<{ traceId: string }> }
+) => {
+  try {
+    const { traceId } = await params;
+    const record = await getRequestTrace(traceId);
+    return NextResponse.json(record);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to load trace";
+    return NextResponse.json({ error: message }, { status: statusForError(message) });
+  }
+});
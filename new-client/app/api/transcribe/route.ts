@@ -2,11 +2,11 @@ export const runtime = "nodejs";
 
 import { NextResponse } from "next/server";
 import { createOpenAIClient, getOpenAIRequestId } from "@/lib/openai/client";
-import { supabaseServer } from "@/lib/supabase/server";
 import { logUsageRecord } from "@/lib/usage";
 import { estimateTokens } from "@/lib/tokens/estimateTokens";
 import { measureAudioDurationSeconds } from "@/lib/audio-duration";
 import { calculateGpt4oTranscribeCost } from "@/lib/pricing";
+import { withRouteGuard } from "@/lib/route-guard";
 
 function getOpenAIClient() {
   const apiKey = process.env.OPENAI_API_KEY;
@@ -21,7 +21,7 @@ function average(values: number[]) {
   return values.reduce((sum, value) => sum + value, 0) / values.length;
 }
 
-export async function POST(request: Request) {
+export const POST = withRouteGuard({ access: "guest", routeClass: "chat" }, async (request: Request, _context, auth) => {
   try {
     const formData = await request.formData();
     const audioBlob = formData.get("audio");
@@ -68,10 +68,7 @@ export async function POST(request: Request) {
 
     // Track Whisper usage costs
     try {
-      const supabase = await supabaseServer();
-      const { data: { user } } = await supabase.auth.getUser();
-      
-      if (user) {
+      if (auth.kind === "user") {
         const fileSizeBytes = buffer.length;
         const durationSeconds = await measureAudioDurationSeconds(buffer, fileName, mimeType);
         const transcriptTokens = estimateTokens(transcript);
@@ -84,7 +81,7 @@ export async function POST(request: Request) {
         );
 
         await logUsageRecord({
-          userId: user.id,
+          userId: auth.userId,
           conversationId: null,
           model: "gpt-4o-transcribe",
           inputTokens: 0,
@@ -105,4 +102,4 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-}
+});
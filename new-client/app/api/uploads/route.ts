@@ -3,12 +3,13 @@ export const maxDuration = 60; // Allow time for large file uploads
 
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { withRouteGuard } from "@/lib/route-guard";
 
 function safeFileName(name: string) {
   return name.replace(/[^a-zA-Z0-9._-]/g, "_");
 }
 
-export async function POST(req: NextRequest) {
+export const POST = withRouteGuard({ access: "user", routeClass: "upload" }, async (req: NextRequest) => {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
   const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
   if (!url || !serviceKey) {
@@ -62,4 +63,4 @@ export async function POST(req: NextRequest) {
     url: pub?.publicUrl ?? null,
     mime: file.type || null,
   });
-}
+});
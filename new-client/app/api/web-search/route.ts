@@ -1,7 +1,8 @@
 import { NextResponse } from "next/server";
 import { runWebSearchPipeline } from "@/lib/search/fast-web-pipeline";
+import { withRouteGuard } from "@/lib/route-guard";
 
-export async function POST(request: Request) {
+export const POST = withRouteGuard({ access: "user", routeClass: "search" }, async (request: Request, _context, auth) => {
   try {
     const payload = await request.json();
     const prompt = typeof payload?.prompt === "string" ? payload.prompt.trim() : "";
@@ -9,10 +10,15 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Missing prompt" }, { status: 400 });
     }
 
-    const result = await runWebSearchPipeline(prompt, payload?.options ?? {});
+    // Usage is billed to the caller, whatever the client put in the options.
+    const result = await runWebSearchPipeline(prompt, {
+      ...(payload?.options ?? {}),
+      userId: auth.userId,
+      conversationId: null,
+    });
     return NextResponse.json(result, { status: 200 });
   } catch (error) {
     console.error("[web-search] pipeline error", error);
     return NextResponse.json({ error: "Search pipeline failed" }, { status: 500 });
   }
-}
+});
@@ -30,9 +30,11 @@ export default async function ConversationPage({
 
   const conversation = await getConversationById(conversationId);
 
+  const highlightMessageId =
+    typeof resolvedSearchParams.messageId === "string" ? resolvedSearchParams.messageId : null;
   const messagesPage = conversation
-    ? await getMessagesForConversationPage(conversationId)
-    : { messages: [], hasMore: false, oldestTimestamp: null };
+    ? await getMessagesForConversationPage(conversationId, { includeMessageId: highlightMessageId })
+    : { messages: [], hasMore: false, oldestTimestamp: null, branches: {} };
   const messagesData = messagesPage.messages;
 
   const conversations = conversation
@@ -58,6 +60,7 @@ export default async function ConversationPage({
     content: message.content ?? "",
     timestamp: message.created_at ?? new Date().toISOString(),
     metadata: (message as any).metadata ?? null,
+    branch: messagesPage.branches[message.id] ?? null,
   }));
 
   return (
@@ -27,7 +27,11 @@ export default async function ProjectChatPage({
     return notFound();
   }
 
-  const messagesPage = await getMessagesForConversationPage(chatId);
+  const highlightMessageId =
+    typeof resolvedSearchParams.messageId === "string" ? resolvedSearchParams.messageId : null;
+  const messagesPage = await getMessagesForConversationPage(chatId, {
+    includeMessageId: highlightMessageId,
+  });
   const messagesData = messagesPage.messages;
 
   const conversations = [
@@ -45,6 +49,7 @@ export default async function ProjectChatPage({
     content: message.content ?? "",
     timestamp: message.created_at ?? new Date().toISOString(),
     metadata: (message as any).metadata ?? null,
+    branch: messagesPage.branches[message.id] ?? null,
   }));
 
   return (
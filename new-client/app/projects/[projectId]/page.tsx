@@ -14,6 +14,10 @@ import { Button } from "@/components/ui/button";
 import { SettingsModal } from "@/components/settings-modal";
 import { useProjects } from "@/components/projects/projects-provider";
 import { NewProjectModal } from "@/components/projects/new-project-modal";
+import { ProjectFilesPanel } from "@/components/projects/project-files-panel";
+import { ProjectBudgetCap } from "@/components/projects/project-budget-cap";
+import { ProjectSettingsPanel } from "@/components/projects/project-settings-panel";
+import { ShareConversationDialog } from "@/components/share-conversation-dialog";
 import { ProjectIconEditor } from "@/components/project-icon-editor";
 import { usePersistentSidebarOpen } from "@/lib/hooks/use-sidebar-open";
 import { useChatStore } from "@/components/chat/chat-provider";
@@ -24,6 +28,7 @@ import { requestAutoNaming } from "@/lib/autoNaming";
 import { useUserIdentity } from "@/components/user-identity-provider";
 import { useFlipListAnimation } from "@/lib/hooks/use-flip-list";
 import { navigateWithMainPanelFade, runMainPanelEnterIfNeeded } from "@/lib/view-transitions";
+import { downloadConversationExport } from "@/lib/conversation-utils";
 
 import type { StoredChat, StoredMessage } from "@/components/chat/chat-provider";
 
@@ -54,7 +59,8 @@ const getLatestMessageTimestamp = (messages: StoredMessage[], fallback?: string)
 type ActiveAction =
   | { type: 'renameChat'; chatId: string; currentTitle?: string }
   | { type: 'moveChat'; chatId: string; currentProjectId?: string }
-  | { type: 'deleteChat'; chatId: string; currentTitle?: string };
+  | { type: 'deleteChat'; chatId: string; currentTitle?: string }
+  | { type: 'shareChat'; chatId: string; currentTitle?: string };
 
 export default function ProjectDetailPage() {
   const params = useParams<{ projectId: string }>();
@@ -255,6 +261,10 @@ export default function ProjectDetailPage() {
   const queueDeleteChat = (chatId: string, currentTitle?: string) => {
     setActiveAction({ type: 'deleteChat', chatId, currentTitle })
   }
+
+  const queueShareChat = (chatId: string, currentTitle?: string) => {
+    setActiveAction({ type: 'shareChat', chatId, currentTitle })
+  }
   const confirmRename = async () => {
     if (!activeAction || activeAction.type !== 'renameChat') return
     const nextName = pendingName.trim()
@@ -422,8 +432,10 @@ export default function ProjectDetailPage() {
                               <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover/chat:opacity-100 transition-opacity duration-200">
                                 <ChatContextMenu
                                   removeLabel={`Remove from ${project?.name ?? 'project'}`}
+                                  onShare={() => queueShareChat(chat.id, chat.title)}
                                   onRename={() => queueRenameChat(chat.id, chat.title)}
                                   onMoveToProject={() => queueMoveChat(chat.id, projectId)}
+                                  onExport={(format) => downloadConversationExport({ conversationId: chat.id, format })}
                                   onRemoveFromProject={async () => {
                                     // Optimistically update local store so the chat appears
                                     // in "All Chats" immediately without a page reload.
@@ -460,6 +472,9 @@ export default function ProjectDetailPage() {
                   </div>
                 )}
               </div>
+              {projectId && <ProjectFilesPanel projectId={projectId} readOnly={isGuest} />}
+              {projectId && <ProjectSettingsPanel projectId={projectId} readOnly={isGuest} />}
+              {projectId && <ProjectBudgetCap projectId={projectId} readOnly={isGuest} />}
             </div>
           </div>
         </div>
@@ -580,6 +595,13 @@ export default function ProjectDetailPage() {
         </div>
       </Dialog>
 
+      <ShareConversationDialog
+        open={Boolean(activeAction && activeAction.type === 'shareChat')}
+        conversationId={activeAction && activeAction.type === 'shareChat' ? activeAction.chatId : null}
+        title={activeAction && activeAction.type === 'shareChat' ? activeAction.currentTitle : undefined}
+        onClose={clearAction}
+      />
+
       <SettingsModal
         isOpen={isSettingsOpen}
         onClose={() => {
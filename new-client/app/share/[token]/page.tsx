@@ -0,0 +1,32 @@
+// app/share/[token]/page.tsx
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { SharedConversationView } from "@/components/shared-conversation-view";
+import { getSharedConversation } from "@/lib/data/conversation-shares";
+
+type PageParams = Promise<{ token: string }>;
+
+export const dynamic = "force-dynamic";
+
+export async function generateMetadata({ params }: { params: PageParams }): Promise<Metadata> {
+  const { token } = await params;
+  const shared = await getSharedConversation(token);
+  return {
+    title: shared ? `${shared.snapshot.title} · Shared chat` : "Shared chat",
+    robots: { index: false, follow: false },
+  };
+}
+
+export default async function SharedConversationPage({ params }: { params: PageParams }) {
+  const { token } = await params;
+  const shared = await getSharedConversation(token);
+  if (!shared) {
+    notFound();
+  }
+
+  return (
+    <main className="min-h-[100dvh] bg-background text-foreground dark">
+      <SharedConversationView snapshot={shared.snapshot} expiresAt={shared.expiresAt} />
+    </main>
+  );
+}
@@ -0,0 +1,672 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { ArrowDown, ArrowUp, History, Loader2, Pencil, Play, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import type { AutomationInput } from "@/lib/data/automations";
+import { VALID_MODEL_FAMILIES, describeModelFamily } from "@/lib/modelConfig";
+import {
+  AUTOMATION_STEP_LABELS,
+  AUTOMATION_STEP_TYPES,
+  type Automation,
+  type AutomationRun,
+  type AutomationStep,
+  type AutomationStepType,
+} from "@/lib/types/automations";
+import { cn } from "@/lib/utils";
+
+const selectClassName = "h-8 rounded-md border border-input bg-transparent px-2 text-xs text-foreground";
+
+const CRON_PRESETS = [
+  { label: "Every hour", value: "0 * * * *" },
+  { label: "Every day at 08:00 UTC", value: "0 8 * * *" },
+  { label: "Weekdays at 08:00 UTC", value: "0 8 * * 1-5" },
+  { label: "Mondays at 09:00 UTC", value: "0 9 * * 1" },
+];
+
+const MODEL_FAMILIES = VALID_MODEL_FAMILIES.filter(
+  (family): family is AutomationInput["modelFamily"] => family !== "auto"
+);
+
+const EMPTY_DRAFT: AutomationInput = {
+  name: "",
+  description: null,
+  triggerType: "cron",
+  cronExpression: "0 8 * * *",
+  steps: [{ type: "web_search", query: "" }, { type: "summarize", instructions: "" }],
+  modelFamily: "gpt-5-mini",
+  enabled: true,
+};
+
+// Which automation the editor is open for: null while creating a new one.
+type Editing = { automationId: string | null; draft: AutomationInput };
+
+async function readError(res: Response, fallback: string) {
+  const data = await res.json().catch(() => null);
+  return typeof data?.error === "string" ? data.error : fallback;
+}
+
+function emptyStep(type: AutomationStepType): AutomationStep {
+  switch (type) {
+    case "chat_prompt":
+      return { type, prompt: "" };
+    case "web_search":
+      return { type, query: "" };
+    case "summarize":
+      return { type, instructions: "" };
+    case "post_webhook":
+      return { type, url: "" };
+  }
+}
+
+function formatDateTime(value: string | null) {
+  return value ? new Date(value).toLocaleString() : "—";
+}
+
+function describeTrigger(automation: Automation) {
+  if (automation.triggerType === "webhook") return "Webhook";
+  return `Cron ${automation.cronExpression} (UTC)`;
+}
+
+function webhookUrl(token: string) {
+  const origin = typeof window === "undefined" ? "" : window.location.origin;
+  return `${origin}/api/automations/hooks/${token}`;
+}
+
+function StepEditor({
+  step,
+  index,
+  count,
+  onChange,
+  onMove,
+  onRemove,
+}: {
+  step: AutomationStep;
+  index: number;
+  count: number;
+  onChange: (step: AutomationStep) => void;
+  onMove: (offset: -1 | 1) => void;
+  onRemove: () => void;
+}) {
+  const renderField = () => {
+    switch (step.type) {
+      case "chat_prompt":
+        return (
+          <Textarea
+            placeholder="Prompt, e.g. Draft a status update from: {{previous}}"
+            value={step.prompt}
+            onChange={(event) => onChange({ ...step, prompt: event.target.value })}
+            className="min-h-20 text-sm"
+          />
+        );
+      case "web_search":
+        return (
+          <Input
+            placeholder="Search query, e.g. latest news about our competitors {{date}}"
+            value={step.query}
+            onChange={(event) => onChange({ ...step, query: event.target.value })}
+          />
+        );
+      case "summarize":
+        return (
+          <Input
+            placeholder="Optional instructions, e.g. five bullets with links"
+            value={step.instructions}
+            onChange={(event) => onChange({ ...step, instructions: event.target.value })}
+          />
+        );
+      case "post_webhook":
+        return (
+          <Input
+            placeholder="https://hooks.example.com/…"
+            value={step.url}
+            onChange={(event) => onChange({ ...step, url: event.target.value })}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-2 rounded-lg border border-border/60 p-3">
+      <div className="flex items-center gap-2">
+        <span className="text-xs font-medium text-muted-foreground">Step {index + 1}</span>
+        <select
+          className={selectClassName}
+          aria-label={`Step ${index + 1} type`}
+          value={step.type}
+          onChange={(event) => onChange(emptyStep(event.target.value as AutomationStepType))}
+        >
+          {AUTOMATION_STEP_TYPES.map((type) => (
+            <option key={type} value={type}>
+              {AUTOMATION_STEP_LABELS[type]}
+            </option>
+          ))}
+        </select>
+        <div className="ml-auto flex gap-1">
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            aria-label="Move step up"
+            disabled={index === 0}
+            onClick={() => onMove(-1)}
+          >
+            <ArrowUp className="h-3.5 w-3.5" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            aria-label="Move step down"
+            disabled={index === count - 1}
+            onClick={() => onMove(1)}
+          >
+            <ArrowDown className="h-3.5 w-3.5" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            aria-label="Remove step"
+            disabled={count === 1}
+            onClick={onRemove}
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+      {renderField()}
+    </div>
+  );
+}
+
+function RunHistory({ automationId }: { automationId: string }) {
+  const [runs, setRuns] = useState<AutomationRun[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRuns = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await fetch(`/api/automations/${automationId}/runs`, { cache: "no-store" });
+      if (!res.ok) throw new Error(await readError(res, "Failed to load runs"));
+      const data = await res.json();
+      setRuns(Array.isArray(data?.runs) ? (data.runs as AutomationRun[]) : []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load runs");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [automationId]);
+
+  useEffect(() => {
+    void loadRuns();
+  }, [loadRuns]);
+
+  return (
+    <div className="space-y-2 rounded-xl border border-border bg-card/40 p-4">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-semibold text-foreground">Run history</p>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          aria-label="Refresh runs"
+          disabled={isLoading}
+          onClick={() => void loadRuns()}
+        >
+          {isLoading ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <RefreshCw className="h-3.5 w-3.5" />}
+        </Button>
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      {!isLoading && !runs.length && <p className="text-xs text-muted-foreground">No runs yet.</p>}
+      <ul className="space-y-2">
+        {runs.map((run) => (
+          <li key={run.id} className="rounded-md border border-border/60 p-2 text-xs">
+            <details>
+              <summary className="flex cursor-pointer flex-wrap items-center gap-x-3 gap-y-1">
+                <span
+                  className={cn(
+                    "font-medium",
+                    run.status === "failed"
+                      ? "text-red-400"
+                      : run.status === "running"
+                        ? "text-amber-400"
+                        : "text-foreground"
+                  )}
+                >
+                  {run.status}
+                </span>
+                <span className="text-muted-foreground">{run.trigger}</span>
+                <span className="text-muted-foreground">{formatDateTime(run.startedAt)}</span>
+                <span className="text-muted-foreground">${run.costUsd.toFixed(4)}</span>
+                {run.conversationId && (
+                  <Link href={`/c/${run.conversationId}`} className="ml-auto text-primary hover:underline">
+                    Open conversation
+                  </Link>
+                )}
+              </summary>
+              <div className="mt-2 space-y-2">
+                {run.error && <p className="text-red-400">{run.error}</p>}
+                {run.stepResults.map((result, index) => (
+                  <div key={index} className="space-y-1">
+                    <p className="text-muted-foreground">
+                      {index + 1}. {AUTOMATION_STEP_LABELS[result.type]} · {result.status} ·{" "}
+                      {(result.durationMs / 1000).toFixed(1)}s · ${result.costUsd.toFixed(4)}
+                    </p>
+                    {(result.error || result.output) && (
+                      <pre className="max-h-40 overflow-auto whitespace-pre-wrap rounded-md bg-muted/30 p-2 text-[11px] text-foreground">
+                        {result.error || result.output}
+                      </pre>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </details>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export function AutomationBuilder() {
+  const [automations, setAutomations] = useState<Automation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editing, setEditing] = useState<Editing | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAutomations = useCallback(async () => {
+    try {
+      const res = await fetch("/api/automations", { cache: "no-store" });
+      if (!res.ok) throw new Error(await readError(res, "Failed to load automations"));
+      const data = await res.json();
+      setAutomations(Array.isArray(data?.automations) ? (data.automations as Automation[]) : []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load automations");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadAutomations();
+  }, [loadAutomations]);
+
+  const startEditing = (automation: Automation | null) => {
+    setError(null);
+    setEditing({
+      automationId: automation?.id ?? null,
+      draft: automation
+        ? {
+            name: automation.name,
+            description: automation.description,
+            triggerType: automation.triggerType,
+            cronExpression: automation.cronExpression ?? EMPTY_DRAFT.cronExpression,
+            steps: automation.steps,
+            modelFamily: automation.modelFamily,
+            enabled: automation.enabled,
+          }
+        : EMPTY_DRAFT,
+    });
+  };
+
+  const updateDraft = (patch: Partial<AutomationInput>) => {
+    setEditing((prev) => (prev ? { ...prev, draft: { ...prev.draft, ...patch } } : prev));
+  };
+
+  const updateSteps = (update: (steps: AutomationStep[]) => AutomationStep[]) => {
+    setEditing((prev) => (prev ? { ...prev, draft: { ...prev.draft, steps: update(prev.draft.steps) } } : prev));
+  };
+
+  const patchAutomation = async (automationId: string, body: Record<string, unknown>, fallback: string) => {
+    const res = await fetch(`/api/automations/${automationId}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    if (!res.ok) throw new Error(await readError(res, fallback));
+    await loadAutomations();
+  };
+
+  const saveAutomation = async () => {
+    if (!editing) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(
+        editing.automationId ? `/api/automations/${editing.automationId}` : "/api/automations",
+        {
+          method: editing.automationId ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(editing.draft),
+        }
+      );
+      if (!res.ok) throw new Error(await readError(res, "Failed to save automation"));
+      await loadAutomations();
+      setEditing(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save automation");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const runNow = async (automation: Automation) => {
+    setBusyId(automation.id);
+    setError(null);
+    setHistoryId(automation.id);
+    try {
+      const res = await fetch(`/api/automations/${automation.id}/run`, { method: "POST" });
+      if (!res.ok) throw new Error(await readError(res, "Failed to run automation"));
+      await loadAutomations();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to run automation");
+    } finally {
+      setBusyId(null);
+      setHistoryVersion((version) => version + 1);
+    }
+  };
+
+  const toggleEnabled = async (automation: Automation) => {
+    setBusyId(automation.id);
+    setError(null);
+    try {
+      await patchAutomation(automation.id, { enabled: !automation.enabled }, "Failed to update automation");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update automation");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const rotateToken = async (automation: Automation) => {
+    if (!window.confirm("Issue a new webhook URL? The current one stops working.")) return;
+    setBusyId(automation.id);
+    setError(null);
+    try {
+      await patchAutomation(automation.id, { rotateWebhookToken: true }, "Failed to rotate webhook URL");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to rotate webhook URL");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const deleteAutomation = async (automation: Automation) => {
+    if (!window.confirm(`Delete the automation "${automation.name}" and its run history?`)) return;
+    setBusyId(automation.id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/automations/${automation.id}`, { method: "DELETE" });
+      if (!res.ok) throw new Error(await readError(res, "Failed to delete automation"));
+      if (editing?.automationId === automation.id) setEditing(null);
+      if (historyId === automation.id) setHistoryId(null);
+      await loadAutomations();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete automation");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const renderEditor = () => {
+    if (!editing) return null;
+    const { draft } = editing;
+    return (
+      <form
+        className="space-y-4 rounded-xl border border-border bg-card/40 p-4 sm:p-6"
+        onSubmit={(event) => {
+          event.preventDefault();
+          void saveAutomation();
+        }}
+      >
+        <p className="text-sm font-semibold text-foreground">
+          {editing.automationId ? "Edit automation" : "New automation"}
+        </p>
+
+        <div className="grid gap-3 sm:grid-cols-2">
+          <Input
+            placeholder="Name"
+            value={draft.name}
+            maxLength={80}
+            onChange={(event) => updateDraft({ name: event.target.value })}
+          />
+          <Input
+            placeholder="Short description (optional)"
+            value={draft.description ?? ""}
+            maxLength={300}
+            onChange={(event) => updateDraft({ description: event.target.value })}
+          />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            className={selectClassName}
+            aria-label="Trigger"
+            value={draft.triggerType}
+            onChange={(event) => updateDraft({ triggerType: event.target.value as AutomationInput["triggerType"] })}
+          >
+            <option value="cron">Trigger: Schedule</option>
+            <option value="webhook">Trigger: Webhook</option>
+          </select>
+          {draft.triggerType === "cron" && (
+            <>
+              <Input
+                className="h-8 w-40 font-mono text-xs"
+                placeholder="0 8 * * *"
+                aria-label="Cron expression (UTC)"
+                value={draft.cronExpression ?? ""}
+                onChange={(event) => updateDraft({ cronExpression: event.target.value })}
+              />
+              <select
+                className={selectClassName}
+                aria-label="Schedule presets"
+                value=""
+                onChange={(event) => event.target.value && updateDraft({ cronExpression: event.target.value })}
+              >
+                <option value="">Presets…</option>
+                {CRON_PRESETS.map((preset) => (
+                  <option key={preset.value} value={preset.value}>
+                    {preset.label}
+                  </option>
+                ))}
+              </select>
+            </>
+          )}
+          <select
+            className={selectClassName}
+            aria-label="Model"
+            value={draft.modelFamily}
+            onChange={(event) => updateDraft({ modelFamily: event.target.value as AutomationInput["modelFamily"] })}
+          >
+            {MODEL_FAMILIES.map((family) => (
+              <option key={family} value={family}>
+                {describeModelFamily(family)}
+              </option>
+            ))}
+          </select>
+        </div>
+        <p className="text-[11px] text-muted-foreground">
+          {draft.triggerType === "cron"
+            ? "Schedules use five-field cron syntax in UTC and must be at least 15 minutes apart."
+            : "A webhook URL is issued when you save. Its request body is available to steps as {{payload}}."}{" "}
+          Steps can use {"{{previous}}"} for the last step&apos;s output and {"{{date}}"} for the run date.
+        </p>
+
+        <div className="space-y-2">
+          {draft.steps.map((step, index) => (
+            <StepEditor
+              key={index}
+              step={step}
+              index={index}
+              count={draft.steps.length}
+              onChange={(next) => updateSteps((steps) => steps.map((entry, i) => (i === index ? next : entry)))}
+              onMove={(offset) =>
+                updateSteps((steps) => {
+                  const next = [...steps];
+                  const [moved] = next.splice(index, 1);
+                  next.splice(index + offset, 0, moved);
+                  return next;
+                })
+              }
+              onRemove={() => updateSteps((steps) => steps.filter((_, i) => i !== index))}
+            />
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="h-7 px-2 text-xs"
+            disabled={draft.steps.length >= 8}
+            onClick={() => updateSteps((steps) => [...steps, emptyStep("chat_prompt")])}
+          >
+            <Plus className="mr-1 h-3.5 w-3.5" />
+            Add step
+          </Button>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button type="submit" size="sm" disabled={isSaving || !draft.name.trim()}>
+            {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : editing.automationId ? "Save" : "Create automation"}
+          </Button>
+          <Button type="button" variant="ghost" size="sm" disabled={isSaving} onClick={() => setEditing(null)}>
+            Cancel
+          </Button>
+        </div>
+      </form>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm text-muted-foreground">
+          {isLoading && !automations.length
+            ? "Loading automations…"
+            : `${automations.length} automation${automations.length === 1 ? "" : "s"} · each run gets its own conversation`}
+        </p>
+        {!editing && (
+          <Button size="sm" onClick={() => startEditing(null)}>
+            <Plus className="mr-1 h-4 w-4" />
+            New automation
+          </Button>
+        )}
+      </div>
+
+      {error && <p className="whitespace-pre-wrap text-xs text-red-400">{error}</p>}
+      {renderEditor()}
+
+      <div className="space-y-3">
+        {automations.map((automation) => (
+          <div key={automation.id} className="space-y-3">
+            <div className="flex items-start gap-3 rounded-xl border border-border bg-card/30 p-4">
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm font-medium text-foreground">
+                  {automation.name}
+                  {!automation.enabled && <span className="ml-2 text-xs text-muted-foreground">(paused)</span>}
+                </p>
+                {automation.description && (
+                  <p className="line-clamp-2 text-xs text-muted-foreground">{automation.description}</p>
+                )}
+                <p className="mt-1 text-[11px] text-muted-foreground">
+                  {describeTrigger(automation)} ·{" "}
+                  {automation.steps.map((step) => AUTOMATION_STEP_LABELS[step.type]).join(" → ")} ·{" "}
+                  {describeModelFamily(automation.modelFamily)}
+                </p>
+                <p className="text-[11px] text-muted-foreground">
+                  Last run {formatDateTime(automation.lastRunAt)}
+                  {automation.triggerType === "cron" && automation.enabled
+                    ? ` · next run ${formatDateTime(automation.nextRunAt)}`
+                    : ""}
+                </p>
+                {automation.webhookToken && (
+                  <div className="mt-1 flex items-center gap-2">
+                    <code className="min-w-0 truncate rounded bg-muted/30 px-1.5 py-0.5 text-[11px] text-foreground">
+                      POST {webhookUrl(automation.webhookToken)}
+                    </code>
+                    <button
+                      type="button"
+                      className="shrink-0 text-[11px] text-primary hover:underline"
+                      disabled={busyId === automation.id}
+                      onClick={() => void rotateToken(automation)}
+                    >
+                      New URL
+                    </button>
+                  </div>
+                )}
+              </div>
+              <div className="flex shrink-0 flex-wrap justify-end gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  disabled={busyId === automation.id}
+                  onClick={() => void toggleEnabled(automation)}
+                >
+                  {automation.enabled ? "Pause" : "Resume"}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  aria-label={`Run ${automation.name} now`}
+                  disabled={busyId === automation.id}
+                  onClick={() => void runNow(automation)}
+                >
+                  {busyId === automation.id ? (
+                    <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                  ) : (
+                    <Play className="h-3.5 w-3.5" />
+                  )}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  aria-label={`Run history of ${automation.name}`}
+                  onClick={() => setHistoryId((current) => (current === automation.id ? null : automation.id))}
+                >
+                  <History className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  aria-label={`Edit ${automation.name}`}
+                  onClick={() => startEditing(automation)}
+                >
+                  <Pencil className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  aria-label={`Delete ${automation.name}`}
+                  disabled={busyId === automation.id}
+                  onClick={() => void deleteAutomation(automation)}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            </div>
+            {historyId === automation.id && (
+              <RunHistory key={`${automation.id}:${historyVersion}`} automationId={automation.id} />
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
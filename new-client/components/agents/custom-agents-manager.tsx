@@ -0,0 +1,425 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { FileText, Loader2, Pencil, Plus, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  CUSTOM_AGENT_ICONS,
+  CUSTOM_AGENT_TOOLS,
+  CUSTOM_AGENT_TOOL_LABELS,
+  getCustomAgentIcon,
+  type CustomAgent,
+  type CustomAgentTool,
+} from "@/lib/agents/customAgents";
+import type { CustomAgentFile, CustomAgentInput } from "@/lib/data/custom-agents";
+import { useCustomAgents } from "@/lib/hooks/use-custom-agents";
+import { VALID_MODEL_FAMILIES, describeModelFamily, type ModelFamily } from "@/lib/modelConfig";
+import { cn } from "@/lib/utils";
+
+const selectClassName = "h-8 rounded-md border border-input bg-transparent px-2 text-xs text-foreground";
+
+const EMPTY_DRAFT: CustomAgentInput = {
+  name: "",
+  description: null,
+  icon: "bot",
+  systemPrompt: "",
+  allowedTools: [...CUSTOM_AGENT_TOOLS],
+  defaultModelFamily: "auto",
+};
+
+// Which agent the editor is open for: null while creating a new one.
+type Editing = { agentId: string | null; draft: CustomAgentInput };
+
+async function readError(res: Response, fallback: string) {
+  const data = await res.json().catch(() => null);
+  return typeof data?.error === "string" ? data.error : fallback;
+}
+
+function AgentKnowledgeFiles({ agentId }: { agentId: string }) {
+  const [files, setFiles] = useState<CustomAgentFile[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUploading, setIsUploading] = useState(false);
+  const [busyFileId, setBusyFileId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+
+  const loadFiles = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/agents/custom/${agentId}/files`, { cache: "no-store" });
+      if (!res.ok) throw new Error(await readError(res, "Failed to load agent files"));
+      const data = await res.json();
+      setFiles(Array.isArray(data?.files) ? (data.files as CustomAgentFile[]) : []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load agent files");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [agentId]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    void loadFiles();
+  }, [loadFiles]);
+
+  const handleUpload = async (list: FileList | null) => {
+    if (!list?.length) return;
+    setIsUploading(true);
+    setError(null);
+    const failures: string[] = [];
+    for (const file of Array.from(list)) {
+      const form = new FormData();
+      form.append("file", file);
+      const res = await fetch(`/api/agents/custom/${agentId}/files`, { method: "POST", body: form });
+      if (!res.ok) {
+        failures.push(`${file.name}: ${await readError(res, "upload failed")}`);
+      }
+    }
+    if (failures.length) setError(failures.join("\n"));
+    await loadFiles();
+    setIsUploading(false);
+  };
+
+  const handleDelete = async (file: CustomAgentFile) => {
+    if (!window.confirm(`Remove "${file.name}" from this agent?`)) return;
+    setBusyFileId(file.id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/agents/custom/${agentId}/files/${file.id}`, { method: "DELETE" });
+      if (!res.ok) throw new Error(await readError(res, "Failed to delete file"));
+      await loadFiles();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete file");
+    } finally {
+      setBusyFileId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs font-medium text-muted-foreground">Knowledge files (searched with file search)</p>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          className="hidden"
+          onChange={(event) => {
+            void handleUpload(event.target.files);
+            event.target.value = "";
+          }}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="h-7 px-2 text-xs"
+          disabled={isUploading}
+          onClick={() => inputRef.current?.click()}
+        >
+          {isUploading ? <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" /> : <Upload className="mr-1 h-3.5 w-3.5" />}
+          Upload
+        </Button>
+      </div>
+      {isLoading ? (
+        <p className="text-xs text-muted-foreground">Loading files…</p>
+      ) : files.length ? (
+        <ul className="space-y-1">
+          {files.map((file) => (
+            <li key={file.id} className="flex items-center gap-2 rounded-md border border-border/60 px-2 py-1.5 text-xs">
+              <FileText className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+              <span className="min-w-0 flex-1 truncate text-foreground">{file.name}</span>
+              <span
+                className={cn(
+                  "shrink-0",
+                  file.status === "failed" ? "text-red-400" : "text-muted-foreground"
+                )}
+                title={file.error ?? undefined}
+              >
+                {file.status}
+              </span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                aria-label={`Remove ${file.name}`}
+                disabled={busyFileId === file.id}
+                onClick={() => void handleDelete(file)}
+              >
+                {busyFileId === file.id ? (
+                  <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                ) : (
+                  <Trash2 className="h-3.5 w-3.5" />
+                )}
+              </Button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-muted-foreground">No files yet.</p>
+      )}
+      {error && <p className="whitespace-pre-wrap text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
+
+export function CustomAgentsManager() {
+  const { agents, isLoading, refreshAgents } = useCustomAgents();
+  const [editing, setEditing] = useState<Editing | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const startEditing = (agent: CustomAgent | null) => {
+    setError(null);
+    setEditing({
+      agentId: agent?.id ?? null,
+      draft: agent
+        ? {
+            name: agent.name,
+            description: agent.description,
+            icon: agent.icon,
+            systemPrompt: agent.systemPrompt,
+            allowedTools: agent.allowedTools,
+            defaultModelFamily: agent.defaultModelFamily,
+          }
+        : EMPTY_DRAFT,
+    });
+  };
+
+  const updateDraft = (patch: Partial<CustomAgentInput>) => {
+    setEditing((prev) => (prev ? { ...prev, draft: { ...prev.draft, ...patch } } : prev));
+  };
+
+  const toggleTool = (tool: CustomAgentTool) => {
+    if (!editing) return;
+    const { allowedTools } = editing.draft;
+    updateDraft({
+      allowedTools: allowedTools.includes(tool)
+        ? allowedTools.filter((entry) => entry !== tool)
+        : [...allowedTools, tool],
+    });
+  };
+
+  const saveAgent = async () => {
+    if (!editing) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(
+        editing.agentId ? `/api/agents/custom/${editing.agentId}` : "/api/agents/custom",
+        {
+          method: editing.agentId ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(editing.draft),
+        }
+      );
+      if (!res.ok) throw new Error(await readError(res, "Failed to save agent"));
+      const data = await res.json();
+      await refreshAgents();
+      // A new agent stays open so knowledge files can be added to it straight away.
+      if (!editing.agentId && data?.agent) {
+        startEditing(data.agent as CustomAgent);
+      } else {
+        setEditing(null);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save agent");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteAgent = async (agent: CustomAgent) => {
+    if (!window.confirm(`Delete the agent "${agent.name}" and its knowledge files?`)) return;
+    setDeletingId(agent.id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/agents/custom/${agent.id}`, { method: "DELETE" });
+      if (!res.ok) throw new Error(await readError(res, "Failed to delete agent"));
+      if (editing?.agentId === agent.id) setEditing(null);
+      await refreshAgents();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete agent");
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const renderEditor = () => {
+    if (!editing) return null;
+    const { draft } = editing;
+    return (
+      <form
+        className="space-y-4 rounded-xl border border-border bg-card/40 p-4 sm:p-6"
+        onSubmit={(event) => {
+          event.preventDefault();
+          void saveAgent();
+        }}
+      >
+        <p className="text-sm font-semibold text-foreground">{editing.agentId ? "Edit agent" : "New agent"}</p>
+
+        <div className="flex flex-wrap gap-1.5">
+          {Object.entries(CUSTOM_AGENT_ICONS).map(([key, Icon]) => (
+            <button
+              key={key}
+              type="button"
+              aria-label={`Use ${key} icon`}
+              onClick={() => updateDraft({ icon: key })}
+              className={cn(
+                "flex h-8 w-8 items-center justify-center rounded-md border transition-colors",
+                draft.icon === key ? "border-primary bg-primary/10" : "border-border hover:border-primary/50"
+              )}
+            >
+              <Icon className="h-4 w-4 text-foreground" />
+            </button>
+          ))}
+        </div>
+
+        <div className="grid gap-3 sm:grid-cols-2">
+          <Input
+            placeholder="Name"
+            value={draft.name}
+            maxLength={60}
+            onChange={(event) => updateDraft({ name: event.target.value })}
+          />
+          <Input
+            placeholder="Short description (optional)"
+            value={draft.description ?? ""}
+            maxLength={200}
+            onChange={(event) => updateDraft({ description: event.target.value })}
+          />
+        </div>
+
+        <Textarea
+          placeholder="System prompt: who the agent is, how it should answer, what it should avoid…"
+          value={draft.systemPrompt}
+          onChange={(event) => updateDraft({ systemPrompt: event.target.value })}
+          className="min-h-40 text-sm"
+        />
+
+        <div className="flex flex-wrap items-center gap-2">
+          {CUSTOM_AGENT_TOOLS.map((tool) => {
+            const active = draft.allowedTools.includes(tool);
+            return (
+              <button
+                key={tool}
+                type="button"
+                onClick={() => toggleTool(tool)}
+                className={cn(
+                  "rounded-full border px-2.5 py-0.5 text-xs transition-colors",
+                  active
+                    ? "border-primary bg-primary/10 text-foreground"
+                    : "border-border text-muted-foreground hover:text-foreground"
+                )}
+              >
+                {CUSTOM_AGENT_TOOL_LABELS[tool]}
+              </button>
+            );
+          })}
+          <select
+            className={selectClassName}
+            aria-label="Default model"
+            value={draft.defaultModelFamily}
+            onChange={(event) => updateDraft({ defaultModelFamily: event.target.value as ModelFamily })}
+          >
+            {VALID_MODEL_FAMILIES.map((family) => (
+              <option key={family} value={family}>
+                {family === "auto" ? "Model: Auto" : describeModelFamily(family)}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {editing.agentId ? (
+          <AgentKnowledgeFiles agentId={editing.agentId} />
+        ) : (
+          <p className="text-xs text-muted-foreground">Save the agent to add knowledge files.</p>
+        )}
+
+        <div className="flex items-center gap-2">
+          <Button type="submit" size="sm" disabled={isSaving || !draft.name.trim()}>
+            {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : editing.agentId ? "Save" : "Create agent"}
+          </Button>
+          <Button type="button" variant="ghost" size="sm" disabled={isSaving} onClick={() => setEditing(null)}>
+            {editing.agentId ? "Done" : "Cancel"}
+          </Button>
+        </div>
+      </form>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm text-muted-foreground">
+          {isLoading && !agents.length
+            ? "Loading agents…"
+            : `${agents.length} agent${agents.length === 1 ? "" : "s"} · pick them from the agent menu in any chat`}
+        </p>
+        {!editing && (
+          <Button size="sm" onClick={() => startEditing(null)}>
+            <Plus className="mr-1 h-4 w-4" />
+            New agent
+          </Button>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      {renderEditor()}
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        {agents.map((agent) => {
+          const Icon = getCustomAgentIcon(agent.icon);
+          return (
+            <div key={agent.id} className="flex items-start gap-3 rounded-xl border border-border bg-card/30 p-4">
+              <span className="flex h-9 w-9 shrink-0 items-center justify-center rounded-lg border border-border/50 bg-muted/30">
+                <Icon className="h-4 w-4 text-foreground" />
+              </span>
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm font-medium text-foreground">{agent.name}</p>
+                <p className="line-clamp-2 text-xs text-muted-foreground">
+                  {agent.description || agent.systemPrompt || "No instructions yet."}
+                </p>
+                <p className="mt-1 text-[11px] text-muted-foreground">
+                  {agent.allowedTools.length
+                    ? agent.allowedTools.map((tool) => CUSTOM_AGENT_TOOL_LABELS[tool]).join(", ")
+                    : "No tools"}
+                  {agent.defaultModelFamily !== "auto" ? ` · ${describeModelFamily(agent.defaultModelFamily)}` : ""}
+                  {agent.fileCount ? ` · ${agent.fileCount} file${agent.fileCount === 1 ? "" : "s"}` : ""}
+                </p>
+              </div>
+              <div className="flex shrink-0 gap-1">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  aria-label={`Edit ${agent.name}`}
+                  onClick={() => startEditing(agent)}
+                >
+                  <Pencil className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  aria-label={`Delete ${agent.name}`}
+                  disabled={deletingId === agent.id}
+                  onClick={() => void deleteAgent(agent)}
+                >
+                  {deletingId === agent.id ? (
+                    <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                  ) : (
+                    <Trash2 className="h-3.5 w-3.5" />
+                  )}
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,278 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { Download, FileSpreadsheet, Loader2, MessageSquare, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { ColumnProfile } from "@/lib/data-interpreter/profile";
+import type {
+  DataInterpreterSession,
+  DataInterpreterSessionDetail,
+  NotebookStep,
+} from "@/lib/data/data-interpreter";
+import { cn } from "@/lib/utils";
+
+const DATASET_ACCEPT = ".csv,.tsv,.psv,.ndjson,.jsonl,.xlsx,.xlsm";
+
+async function readError(res: Response, fallback: string) {
+  const data = await res.json().catch(() => null);
+  return typeof data?.error === "string" ? data.error : fallback;
+}
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function formatStat(value: number | string | undefined) {
+  if (value === undefined) return "";
+  if (typeof value === "string") return value;
+  return Number.isInteger(value) ? value.toLocaleString() : value.toFixed(3);
+}
+
+function describeColumnRange(column: ColumnProfile) {
+  const parts: string[] = [];
+  if (column.min !== undefined && column.max !== undefined) {
+    parts.push(`${formatStat(column.min)} – ${formatStat(column.max)}`);
+  }
+  if (column.mean !== undefined) parts.push(`mean ${formatStat(column.mean)}`);
+  return parts.join(" · ");
+}
+
+function downloadHref(step: NotebookStep, containerId: string, fileId: string) {
+  const params = new URLSearchParams({ messageId: step.messageId ?? "", containerId, fileId });
+  return `/api/code-interpreter/download?${params.toString()}`;
+}
+
+function SchemaTable({ session }: { session: DataInterpreterSessionDetail }) {
+  const { profile } = session.dataset;
+  return (
+    <div className="space-y-2 rounded-xl border border-border bg-card/40 p-4">
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <p className="text-sm font-semibold text-foreground">Schema</p>
+        <p className="text-xs text-muted-foreground">
+          {profile.format.toUpperCase()} · {profile.rowCount.toLocaleString()} rows × {profile.columnCount} columns
+          {profile.profiledRows < profile.rowCount
+            ? ` · profiled from ${profile.profiledRows.toLocaleString()} rows`
+            : ""}
+        </p>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-xs">
+          <thead className="text-muted-foreground">
+            <tr className="border-b border-border">
+              <th className="py-1.5 pr-3 font-medium">Column</th>
+              <th className="py-1.5 pr-3 font-medium">Type</th>
+              <th className="py-1.5 pr-3 font-medium">Nulls</th>
+              <th className="py-1.5 pr-3 font-medium">Distinct</th>
+              <th className="py-1.5 pr-3 font-medium">Range</th>
+              <th className="py-1.5 font-medium">Examples</th>
+            </tr>
+          </thead>
+          <tbody>
+            {profile.columns.map((column) => (
+              <tr key={column.name} className="border-b border-border/50 align-top last:border-0">
+                <td className="py-1.5 pr-3 font-medium text-foreground">{column.name}</td>
+                <td className="py-1.5 pr-3 text-muted-foreground">{column.type}</td>
+                <td className="py-1.5 pr-3 text-muted-foreground">{column.nulls.toLocaleString()}</td>
+                <td className="py-1.5 pr-3 text-muted-foreground">
+                  {column.distinct.toLocaleString()}
+                  {column.distinctCapped ? "+" : ""}
+                </td>
+                <td className="py-1.5 pr-3 text-muted-foreground">{describeColumnRange(column)}</td>
+                <td className="py-1.5 text-muted-foreground">{column.samples.join(", ")}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {profile.notes.map((note) => (
+        <p key={note} className="text-[11px] text-muted-foreground">
+          {note}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+function Notebook({ steps }: { steps: NotebookStep[] }) {
+  if (!steps.length) {
+    return (
+      <div className="rounded-xl border border-dashed border-border p-4 text-xs text-muted-foreground">
+        No analysis yet. Ask a question in the chat and each code run will be added here.
+      </div>
+    );
+  }
+  return (
+    <div className="space-y-3">
+      {steps.map((step) => (
+        <div key={step.id} className="space-y-2 rounded-xl border border-border bg-card/40 p-4">
+          <div className="flex items-baseline justify-between gap-2">
+            <p className="text-xs font-semibold text-foreground">Step {step.stepIndex}</p>
+            <p className="text-[11px] text-muted-foreground">{new Date(step.createdAt).toLocaleString()}</p>
+          </div>
+          {step.question && <p className="text-sm text-foreground">{step.question}</p>}
+          <pre className="max-h-72 overflow-auto rounded-md bg-muted/30 p-3 text-[11px] leading-relaxed text-foreground">
+            {step.code || "(no code)"}
+          </pre>
+          {step.logs && (
+            <pre className="max-h-48 overflow-auto rounded-md border border-border/50 p-3 text-[11px] leading-relaxed text-muted-foreground">
+              {step.logs}
+            </pre>
+          )}
+          {step.files.length > 0 && step.messageId && (
+            <div className="flex flex-wrap gap-2">
+              {step.files.map((file) => (
+                <a
+                  key={`${file.containerId}:${file.fileId}`}
+                  href={downloadHref(step, file.containerId, file.fileId)}
+                  className="inline-flex items-center gap-1 rounded-md border border-border px-2 py-1 text-xs text-foreground hover:border-primary/50"
+                >
+                  <Download className="h-3 w-3" />
+                  {file.filename}
+                </a>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function DataInterpreterWorkspace() {
+  const [sessions, setSessions] = useState<DataInterpreterSession[]>([]);
+  const [selected, setSelected] = useState<DataInterpreterSessionDetail | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUploading, setIsUploading] = useState(false);
+  const [loadingSessionId, setLoadingSessionId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      const res = await fetch("/api/agents/data-interpreter/sessions", { cache: "no-store" });
+      if (!res.ok) throw new Error(await readError(res, "Failed to load data sessions"));
+      const data = await res.json();
+      setSessions(Array.isArray(data?.sessions) ? (data.sessions as DataInterpreterSession[]) : []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load data sessions");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadSessions();
+  }, [loadSessions]);
+
+  const openSession = async (sessionId: string) => {
+    setLoadingSessionId(sessionId);
+    setError(null);
+    try {
+      const res = await fetch(`/api/agents/data-interpreter/sessions/${sessionId}`, { cache: "no-store" });
+      if (!res.ok) throw new Error(await readError(res, "Failed to load data session"));
+      const data = await res.json();
+      setSelected(data.session as DataInterpreterSessionDetail);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load data session");
+    } finally {
+      setLoadingSessionId(null);
+    }
+  };
+
+  const uploadDataset = async (file: File) => {
+    setIsUploading(true);
+    setError(null);
+    try {
+      const form = new FormData();
+      form.append("file", file);
+      const res = await fetch("/api/agents/data-interpreter/sessions", { method: "POST", body: form });
+      if (!res.ok) throw new Error(await readError(res, "Failed to upload dataset"));
+      const data = await res.json();
+      await loadSessions();
+      if (data?.session?.id) await openSession(data.session.id as string);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to upload dataset");
+    } finally {
+      setIsUploading(false);
+      if (inputRef.current) inputRef.current.value = "";
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-muted-foreground">
+          {isLoading
+            ? "Loading sessions…"
+            : `${sessions.length} session${sessions.length === 1 ? "" : "s"} · CSV, TSV, PSV, NDJSON or XLSX up to 50 MB`}
+        </p>
+        <input
+          ref={inputRef}
+          type="file"
+          accept={DATASET_ACCEPT}
+          className="hidden"
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            if (file) void uploadDataset(file);
+          }}
+        />
+        <Button size="sm" disabled={isUploading} onClick={() => inputRef.current?.click()}>
+          {isUploading ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <Upload className="mr-1 h-4 w-4" />}
+          {isUploading ? "Profiling…" : "Upload dataset"}
+        </Button>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        {sessions.map((session) => (
+          <button
+            key={session.id}
+            type="button"
+            onClick={() => void openSession(session.id)}
+            className={cn(
+              "flex items-start gap-3 rounded-xl border bg-card/30 p-4 text-left transition-colors",
+              selected?.id === session.id ? "border-primary" : "border-border hover:border-primary/50"
+            )}
+          >
+            <span className="flex h-9 w-9 shrink-0 items-center justify-center rounded-lg border border-border/50 bg-muted/30">
+              {loadingSessionId === session.id ? (
+                <Loader2 className="h-4 w-4 animate-spin text-foreground" />
+              ) : (
+                <FileSpreadsheet className="h-4 w-4 text-foreground" />
+              )}
+            </span>
+            <span className="min-w-0 flex-1">
+              <span className="block truncate text-sm font-medium text-foreground">{session.dataset.name}</span>
+              <span className="block text-[11px] text-muted-foreground">
+                {session.dataset.format.toUpperCase()} · {session.dataset.profile.rowCount.toLocaleString()} rows ×{" "}
+                {session.dataset.profile.columnCount} columns · {formatBytes(session.dataset.sizeBytes)}
+                {session.stepCount ? ` · ${session.stepCount} step${session.stepCount === 1 ? "" : "s"}` : ""}
+              </span>
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {selected && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <p className="text-lg font-semibold text-foreground">{selected.dataset.name}</p>
+            <Button asChild size="sm" variant="outline">
+              <Link href={`/c/${selected.id}`}>
+                <MessageSquare className="mr-1 h-4 w-4" />
+                Ask questions in chat
+              </Link>
+            </Button>
+          </div>
+          <SchemaTable session={selected} />
+          <p className="text-sm font-semibold text-foreground">Notebook</p>
+          <Notebook steps={selected.steps} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -19,6 +19,7 @@ import { uploadFilesAndGetUrls } from "@/lib/uploads";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { AgentPickerPanel } from "@/components/chat/agent-picker-panel";
 import { getFeaturedAgentById } from "@/lib/agents/featuredAgents";
+import { useCustomAgents } from "@/lib/hooks/use-custom-agents";
 
 type UploadedFragment = {
   id: string;
@@ -153,7 +154,8 @@ export function ChatComposer({
   const selectedAgentId = isAgentControlled
     ? selectedAgentIdProp ?? null
     : selectedAgentByConversation[conversationKey] ?? null;
-  const selectedAgent = getFeaturedAgentById(selectedAgentId);
+  const { agents: customAgents } = useCustomAgents();
+  const selectedAgent = getFeaturedAgentById(selectedAgentId, customAgents);
   const selectedAgentName = selectedAgent?.name ?? selectedAgentId ?? "";
   const SelectedAgentIcon = selectedAgent?.icon ?? Bot;
   const shouldShowAgentPill = Boolean(selectedAgentId);
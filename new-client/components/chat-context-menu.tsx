@@ -2,7 +2,7 @@
 
 import { useState, useRef, useEffect } from 'react'
 import { createPortal } from 'react-dom'
-import { MoreHorizontal, Share, Edit3, FolderInput, Archive, Trash2 } from 'lucide-react'
+import { MoreHorizontal, Share, Edit3, FolderInput, Archive, Trash2, Download } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 
 interface ChatContextMenuProps {
@@ -12,10 +12,11 @@ interface ChatContextMenuProps {
   onRemoveFromProject?: () => void
   onDelete?: () => void
   onArchive?: () => void
+  onExport?: (format: 'markdown' | 'json') => void
   removeLabel?: string
 }
 
-export function ChatContextMenu({ onShare, onRename, onMoveToProject, onRemoveFromProject, onDelete, onArchive, removeLabel }: ChatContextMenuProps) {
+export function ChatContextMenu({ onShare, onRename, onMoveToProject, onRemoveFromProject, onDelete, onArchive, onExport, removeLabel }: ChatContextMenuProps) {
   const [isOpen, setIsOpen] = useState(false)
   const [isPositioned, setIsPositioned] = useState(false)
   const [menuCoords, setMenuCoords] = useState<{ left: number; top: number; position: 'above' | 'below' } | null>(null)
@@ -183,6 +184,36 @@ export function ChatContextMenu({ onShare, onRename, onMoveToProject, onRemoveFr
               {typeof removeLabel === 'string' ? removeLabel : 'Remove from project'}
             </button>
           )}
+          {onExport && (
+            <>
+              <button
+                onClick={(e) => {
+                  e.preventDefault()
+                  e.stopPropagation()
+                  onExport('markdown')
+                  setIsOpen(false)
+                  setIsPositioned(false)
+                }}
+                className="flex w-full items-center gap-3 rounded-md px-3 py-2 text-sm text-popover-foreground hover:bg-accent"
+              >
+                <Download className="h-4 w-4" />
+                Export as Markdown
+              </button>
+              <button
+                onClick={(e) => {
+                  e.preventDefault()
+                  e.stopPropagation()
+                  onExport('json')
+                  setIsOpen(false)
+                  setIsPositioned(false)
+                }}
+                className="flex w-full items-center gap-3 rounded-md px-3 py-2 text-sm text-popover-foreground hover:bg-accent"
+              >
+                <Download className="h-4 w-4" />
+                Export as JSON
+              </button>
+            </>
+          )}
           <div className="border-t border-border mt-1" />
           <button
             onClick={(e) => {
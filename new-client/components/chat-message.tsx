@@ -8,12 +8,14 @@ import {
   DropdownMenuRadioItem,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu'
-import { Copy, ExternalLink, Check, Download, Globe } from 'lucide-react'
+import { Activity, Copy, ExternalLink, Check, ChevronLeft, ChevronRight, Download, Globe, Pencil } from 'lucide-react'
 import Image from 'next/image'
 import { memo, useEffect, useRef, useState } from 'react'
 import type { AssistantMessageMetadata, CitationMetadata } from '@/lib/chatTypes'
+import type { MessageBranchInfo } from '@/lib/message-branches'
 import { MessageInsightChips } from '@/components/chat/message-insight-chips'
 import { MarkdownContent } from '@/components/markdown-content'
+import { RequestTraceDialog } from '@/components/chat/request-trace-dialog'
 
 const MemoMessageInsightChips = memo(MessageInsightChips)
 
@@ -35,6 +37,10 @@ interface ChatMessageProps {
   modelTagClickable?: boolean
   forceFullWidth?: boolean
   forceStaticBubble?: boolean
+  // Editing a user message forks the conversation from that point.
+  onEdit?: (content: string) => void
+  branch?: MessageBranchInfo | null
+  onSwitchBranch?: (direction: -1 | 1) => void
 }
 
 export const ChatMessage = memo(function ChatMessage({
@@ -54,11 +60,15 @@ export const ChatMessage = memo(function ChatMessage({
   modelTagClickable = true,
   forceFullWidth = false,
   forceStaticBubble = false,
+  onEdit,
+  branch,
+  onSwitchBranch,
 }: ChatMessageProps) {
   const [copied, setCopied] = useState(false)
   const [retryModel, setRetryModel] = useState('')
   const [showSources, setShowSources] = useState(false)
   const [showFiles, setShowFiles] = useState(false)
+  const [showTrace, setShowTrace] = useState(false)
   const [isAnimating, setIsAnimating] = useState(Boolean(enableEntryAnimation))
   const animationTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
 
@@ -232,6 +242,22 @@ export const ChatMessage = memo(function ChatMessage({
   }
 
   const [showUserCopyHover, setShowUserCopyHover] = useState(false)
+  const [isEditing, setIsEditing] = useState(false)
+  const [editDraft, setEditDraft] = useState(content)
+
+  const startEditing = () => {
+    setEditDraft(content)
+    setIsEditing(true)
+  }
+
+  const submitEdit = () => {
+    const next = editDraft.trim()
+    if (!next || !onEdit) return
+    setIsEditing(false)
+    if (next !== content.trim()) {
+      onEdit(next)
+    }
+  }
   const rootAttributes = messageId ? { "data-agent-message-id": messageId } : {}
 
   const userBubbleClass = forceStaticBubble
@@ -281,6 +307,33 @@ export const ChatMessage = memo(function ChatMessage({
               ))}
             </div>
           )}
+          {isEditing ? (
+            <div className="w-full max-w-[92%] sm:max-w-[85%] rounded-2xl border border-border bg-muted/40 p-2">
+              <textarea
+                autoFocus
+                value={editDraft}
+                onChange={(event) => setEditDraft(event.target.value)}
+                onKeyDown={(event) => {
+                  if (event.key === 'Enter' && !event.shiftKey && !event.nativeEvent.isComposing) {
+                    event.preventDefault()
+                    submitEdit()
+                  } else if (event.key === 'Escape') {
+                    setIsEditing(false)
+                  }
+                }}
+                rows={Math.min(10, Math.max(2, editDraft.split('\n').length))}
+                className="w-full resize-none bg-transparent px-1 text-base leading-relaxed text-foreground outline-none"
+              />
+              <div className="mt-2 flex justify-end gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setIsEditing(false)}>
+                  Cancel
+                </Button>
+                <Button size="sm" onClick={submitEdit} disabled={!editDraft.trim()}>
+                  Send
+                </Button>
+              </div>
+            </div>
+          ) : (
           <div className="relative w-full flex justify-end">
             <div
               className="relative max-w-[92%] sm:max-w-[85%] pb-0 min-w-0"
@@ -290,23 +343,64 @@ export const ChatMessage = memo(function ChatMessage({
               <div className={userBubbleClass}>
                 <p className="text-base leading-relaxed break-words [overflow-wrap:anywhere]">{content}</p>
               </div>
-              <div
-                className={`absolute -bottom-4 right-0 transition-opacity ${
-                  showUserCopyHover ? 'opacity-100 pointer-events-auto' : 'opacity-0 pointer-events-none'
-                }`}
-              >
-                <Button
-                  variant="ghost"
-                  size="icon-sm"
-                  onClick={handleCopy}
-                  aria-label="Copy message"
-                  className="h-8 w-8 flex-shrink-0 rounded-full text-muted-foreground hover:text-foreground hover:bg-accent/60 transition-colors"
+              <div className="absolute -bottom-4 right-0 flex items-center">
+                <div
+                  className={`flex items-center transition-opacity ${
+                    showUserCopyHover ? 'opacity-100 pointer-events-auto' : 'opacity-0 pointer-events-none'
+                  }`}
                 >
-                  {copied ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />}
-                </Button>
+                  {onEdit && (
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      onClick={startEditing}
+                      aria-label="Edit message"
+                      className="h-8 w-8 flex-shrink-0 rounded-full text-muted-foreground hover:text-foreground hover:bg-accent/60 transition-colors"
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    onClick={handleCopy}
+                    aria-label="Copy message"
+                    className="h-8 w-8 flex-shrink-0 rounded-full text-muted-foreground hover:text-foreground hover:bg-accent/60 transition-colors"
+                  >
+                    {copied ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />}
+                  </Button>
+                </div>
+                {branch && branch.siblingIds.length > 1 && (
+                  <div className="flex items-center text-xs text-muted-foreground">
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      onClick={() => onSwitchBranch?.(-1)}
+                      disabled={!onSwitchBranch || branch.index <= 0}
+                      aria-label="Previous version"
+                      className="h-7 w-7 rounded-full"
+                    >
+                      <ChevronLeft className="h-3.5 w-3.5" />
+                    </Button>
+                    <span className="tabular-nums">
+                      {branch.index + 1}/{branch.siblingIds.length}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      onClick={() => onSwitchBranch?.(1)}
+                      disabled={!onSwitchBranch || branch.index >= branch.siblingIds.length - 1}
+                      aria-label="Next version"
+                      className="h-7 w-7 rounded-full"
+                    >
+                      <ChevronRight className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                )}
               </div>
             </div>
           </div>
+          )}
       </div>
     </div>
   )
@@ -401,6 +495,19 @@ export const ChatMessage = memo(function ChatMessage({
                     <span className="hidden xs:inline">{showSources ? 'Hide sources' : 'Sources'}</span>
                   </Button>
                 )}
+
+                {!isGuest && typeof typedMetadata?.traceId === 'string' && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 gap-1.5 text-xs text-muted-foreground hover:text-foreground flex-shrink-0"
+                    title="Inspect how this answer was produced"
+                    onClick={() => setShowTrace(true)}
+                  >
+                    <Activity className="h-3.5 w-3.5" />
+                    <span className="hidden xs:inline">Trace</span>
+                  </Button>
+                )}
                 
                 {!isGuest && displayModelName && showModelActions && (
                   modelTagClickable && Boolean(onRetry) ? (
@@ -524,6 +631,13 @@ export const ChatMessage = memo(function ChatMessage({
                 </div>
               </div>
             )}
+          {showTrace && (
+            <RequestTraceDialog
+              open={showTrace}
+              traceId={typedMetadata?.traceId ?? null}
+              onClose={() => setShowTrace(false)}
+            />
+          )}
         </div>
       </div>
     </div>
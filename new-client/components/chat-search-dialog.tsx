@@ -0,0 +1,230 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Loader2, Search, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Dialog } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { navigateWithMainPanelFade } from '@/lib/view-transitions'
+import type {
+  MessageSearchAttachmentKind,
+  MessageSearchHit,
+  MessageSearchResponse,
+  MessageSearchRole,
+} from '@/lib/types/message-search'
+
+interface ChatSearchDialogProps {
+  open: boolean
+  onClose: () => void
+  projects: Array<{ id: string; name: string }>
+  onNavigate?: () => void
+}
+
+const SEARCH_DEBOUNCE_MS = 300
+
+const selectClassName =
+  'h-8 rounded-md border border-input bg-transparent px-2 text-xs text-foreground'
+
+function formatHitDate(value: string | null) {
+  if (!value) return ''
+  const parsed = new Date(value)
+  if (Number.isNaN(parsed.getTime())) return ''
+  return parsed.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })
+}
+
+// Keyword snippets wrap matches in « »; render them as <mark> without injecting HTML.
+function HighlightedSnippet({ text }: { text: string }) {
+  const parts = text.split(/(«[^»]*»)/g)
+  return (
+    <>
+      {parts.map((part, idx) =>
+        part.startsWith('«') && part.endsWith('»') ? (
+          <mark key={idx} className="rounded bg-primary/20 px-0.5 text-foreground">
+            {part.slice(1, -1)}
+          </mark>
+        ) : (
+          <span key={idx}>{part}</span>
+        )
+      )}
+    </>
+  )
+}
+
+export function ChatSearchDialog({ open, onClose, projects, onNavigate }: ChatSearchDialogProps) {
+  const router = useRouter()
+  const [query, setQuery] = useState('')
+  const [projectId, setProjectId] = useState('')
+  const [role, setRole] = useState<MessageSearchRole | ''>('')
+  const [attachment, setAttachment] = useState<MessageSearchAttachmentKind | ''>('')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [hits, setHits] = useState<MessageSearchHit[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const requestIdRef = useRef(0)
+
+  useEffect(() => {
+    if (!open) return
+    const trimmed = query.trim()
+    if (!trimmed) {
+      setHits([])
+      setError(null)
+      setIsLoading(false)
+      return
+    }
+
+    const requestId = ++requestIdRef.current
+    const timer = setTimeout(async () => {
+      setIsLoading(true)
+      setError(null)
+      try {
+        // Date inputs are local calendar days; `to` is exclusive so include the whole end day.
+        const toExclusive = to ? new Date(new Date(`${to}T00:00:00`).getTime() + 86_400_000).toISOString() : null
+        const res = await fetch('/api/messages/search', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            query: trimmed,
+            filters: {
+              projectId: projectId || null,
+              role: role || null,
+              attachment: attachment || null,
+              from: from ? new Date(`${from}T00:00:00`).toISOString() : null,
+              to: toExclusive,
+            },
+          }),
+        })
+        const payload = (await res.json()) as MessageSearchResponse & { error?: string }
+        if (requestId !== requestIdRef.current) return
+        if (!res.ok) {
+          throw new Error(payload?.error || 'Search failed')
+        }
+        setHits(payload.hits ?? [])
+      } catch (err) {
+        if (requestId !== requestIdRef.current) return
+        console.error('Chat search failed', err)
+        setError(err instanceof Error ? err.message : 'Search failed')
+        setHits([])
+      } finally {
+        if (requestId === requestIdRef.current) {
+          setIsLoading(false)
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => clearTimeout(timer)
+  }, [open, query, projectId, role, attachment, from, to])
+
+  const openHit = (hit: MessageSearchHit) => {
+    const base = hit.projectId
+      ? `/projects/${hit.projectId}/c/${hit.conversationId}`
+      : `/c/${hit.conversationId}`
+    onClose()
+    onNavigate?.()
+    void navigateWithMainPanelFade(router, `${base}?messageId=${encodeURIComponent(hit.messageId)}`)
+  }
+
+  return (
+    <Dialog open={open} onClose={onClose} contentClassName="max-w-2xl">
+      <div className="space-y-3">
+        <div className="flex items-center gap-2">
+          <Search className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+          <Input
+            autoFocus
+            placeholder="Search all chats"
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            className="border-0 shadow-none focus-visible:ring-0"
+          />
+          {isLoading && <Loader2 className="h-4 w-4 flex-shrink-0 animate-spin text-muted-foreground" />}
+          <Button variant="ghost" size="icon" onClick={onClose} aria-label="Close">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <select className={selectClassName} value={projectId} onChange={(e) => setProjectId(e.target.value)}>
+            <option value="">All projects</option>
+            {projects.map((project) => (
+              <option key={project.id} value={project.id}>
+                {project.name}
+              </option>
+            ))}
+          </select>
+          <select
+            className={selectClassName}
+            value={role}
+            onChange={(e) => setRole(e.target.value as MessageSearchRole | '')}
+          >
+            <option value="">Anyone</option>
+            <option value="user">You</option>
+            <option value="assistant">Assistant</option>
+          </select>
+          <select
+            className={selectClassName}
+            value={attachment}
+            onChange={(e) => setAttachment(e.target.value as MessageSearchAttachmentKind | '')}
+          >
+            <option value="">Any message</option>
+            <option value="any">With attachments</option>
+            <option value="image">Images</option>
+            <option value="pdf">PDFs</option>
+            <option value="document">Documents</option>
+            <option value="spreadsheet">Spreadsheets</option>
+            <option value="audio">Audio</option>
+          </select>
+          <input
+            type="date"
+            aria-label="From date"
+            className={selectClassName}
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+          />
+          <span className="text-xs text-muted-foreground">to</span>
+          <input
+            type="date"
+            aria-label="To date"
+            className={selectClassName}
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+          />
+        </div>
+
+        <div className="max-h-[60vh] overflow-y-auto border-t border-border pt-2">
+          {error ? (
+            <p className="px-2 py-6 text-center text-sm text-destructive">{error}</p>
+          ) : hits.length === 0 ? (
+            <p className="px-2 py-6 text-center text-sm text-muted-foreground">
+              {query.trim() ? (isLoading ? 'Searching…' : 'No matching messages') : 'Type to search messages across all chats'}
+            </p>
+          ) : (
+            <ul className="space-y-1">
+              {hits.map((hit) => (
+                <li key={hit.messageId}>
+                  <button
+                    type="button"
+                    onClick={() => openHit(hit)}
+                    className="w-full rounded-lg px-3 py-2 text-left hover:bg-accent"
+                  >
+                    <div className="flex items-center justify-between gap-3">
+                      <span className="truncate text-sm font-medium text-foreground">
+                        {hit.conversationTitle || 'Untitled chat'}
+                      </span>
+                      <span className="flex-shrink-0 text-xs text-muted-foreground">
+                        {hit.role === 'user' ? 'You' : 'Assistant'} · {formatHitDate(hit.createdAt)}
+                      </span>
+                    </div>
+                    <p className="mt-1 line-clamp-2 text-xs text-muted-foreground">
+                      <HighlightedSnippet text={hit.snippet} />
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </Dialog>
+  )
+}
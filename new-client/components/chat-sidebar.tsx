@@ -3,7 +3,7 @@
 import { KeyboardEvent, useEffect, useMemo, useRef, useState } from 'react'
 import { Button } from '@/components/ui/button'
 import { ScrollArea } from '@/components/ui/scroll-area'
-import { Plus, Sparkles, ChevronDown, ChevronRight, FolderPlus, X } from 'lucide-react'
+import { Plus, Sparkles, ChevronDown, ChevronRight, FolderPlus, X, Search } from 'lucide-react'
 import Link from 'next/link'
 import { UserProfileMenu } from '@/components/user-profile-menu'
 import { usePathname, useRouter } from 'next/navigation'
@@ -14,6 +14,8 @@ import {
 } from '@/app/actions/chat-actions'
 import { deleteProjectAction, renameProjectAction } from '@/app/actions/project-actions'
 import { ChatContextMenu } from '@/components/chat-context-menu'
+import { ChatSearchDialog } from '@/components/chat-search-dialog'
+import { ShareConversationDialog } from '@/components/share-conversation-dialog'
 import { ProjectContextMenu } from '@/components/project-context-menu'
 import { AnimatedTitle } from '@/components/chat/animated-title'
 import { Dialog } from '@/components/ui/dialog'
@@ -21,6 +23,7 @@ import { Input } from '@/components/ui/input'
 import { getProjectIcon, getProjectColor } from '@/components/project-icon-picker'
 import { useFlipListAnimation } from '@/lib/hooks/use-flip-list'
 import { navigateWithMainPanelFade } from '@/lib/view-transitions'
+import { downloadConversationExport } from '@/lib/conversation-utils'
 
 interface Conversation {
   id: string
@@ -87,6 +90,7 @@ export function ChatSidebar({
   )
 
   const projects: Project[] = propProjects || []
+  const [isSearchOpen, setIsSearchOpen] = useState(false)
   const conversationIds = useMemo(() => conversations.map((c) => c.id), [conversations])
   const allChatsListRef = useRef<HTMLDivElement | null>(null)
   useFlipListAnimation({ containerRef: allChatsListRef, ids: conversationIds, enabled: isOpen && !chatsCollapsed })
@@ -127,6 +131,7 @@ export function ChatSidebar({
     | { type: 'renameChat'; chatId: string; currentTitle?: string }
     | { type: 'moveChat'; chatId: string; currentProjectId?: string }
     | { type: 'deleteChat'; chatId: string; currentTitle?: string }
+    | { type: 'shareChat'; chatId: string; currentTitle?: string }
 
   const [activeAction, setActiveAction] = useState<ActiveAction | null>(null)
   const [pendingName, setPendingName] = useState('')
@@ -169,6 +174,10 @@ export function ChatSidebar({
     setActiveAction({ type: 'deleteChat', chatId, currentTitle })
   }
 
+  const queueShareChat = (chatId: string, currentTitle?: string) => {
+    setActiveAction({ type: 'shareChat', chatId, currentTitle })
+  }
+
   const renameAction =
     activeAction && (activeAction.type === 'renameProject' || activeAction.type === 'renameChat')
       ? activeAction
@@ -178,6 +187,7 @@ export function ChatSidebar({
       ? activeAction
       : null
   const moveAction = activeAction && activeAction.type === 'moveChat' ? activeAction : null
+  const shareAction = activeAction && activeAction.type === 'shareChat' ? activeAction : null
 
   const confirmRename = async () => {
     if (!renameAction) return
@@ -308,6 +318,16 @@ export function ChatSidebar({
               {isOpen && "New Chat"}
             </Button>
             
+            <Button
+              onClick={() => setIsSearchOpen(true)}
+              variant="ghost"
+              className={primaryButtonClass}
+              title={!isOpen ? "Search chats" : undefined}
+            >
+              <Search className="h-4 w-4 flex-shrink-0" />
+              {isOpen && "Search chats"}
+            </Button>
+
             <Link
               href="/agents"
               className="block"
@@ -395,6 +415,7 @@ export function ChatSidebar({
                                 <div className="flex-shrink-0">
                                   <ProjectContextMenu
                                     onRename={() => void queueRenameProject(project.id, project.name)}
+                                    onExport={(format) => downloadConversationExport({ projectId: project.id, format })}
                                     onDelete={() => void queueDeleteProject(project.id, project.name)}
                                   />
                                 </div>
@@ -431,7 +452,7 @@ export function ChatSidebar({
                                       <div className="flex-shrink-0 ml-2">
                                         <ChatContextMenu
                                           removeLabel={`Remove from ${project.name}`}
-                                          onShare={() => console.log('Share', chat.id)}
+                                          onShare={() => queueShareChat(chat.id, chat.title)}
                                           onRename={() => void queueRenameChat(chat.id, chat.title)}
                                           onMoveToProject={() => void queueMoveChat(chat.id, project.id)}
                                           onRemoveFromProject={async () => {
@@ -444,6 +465,7 @@ export function ChatSidebar({
                                             }
                                           }}
                                           onArchive={() => console.log('Archive', chat.id)}
+                                          onExport={(format) => downloadConversationExport({ conversationId: chat.id, format })}
                                           onDelete={() => void queueDeleteChat(chat.id, chat.title)}
                                         />
                                       </div>
@@ -512,6 +534,7 @@ export function ChatSidebar({
                                         </div>
                                         <ProjectContextMenu
                                           onRename={() => void queueRenameProject(project.id, project.name)}
+                                          onExport={(format) => downloadConversationExport({ projectId: project.id, format })}
                                           onDelete={() => void queueDeleteProject(project.id, project.name)}
                                         />
                                       </div>
@@ -566,10 +589,11 @@ export function ChatSidebar({
                               </div>
                               <div className="flex-shrink-0 ml-2">
                                 <ChatContextMenu
-                                  onShare={() => console.log('Share', conv.id)}
+                                  onShare={() => queueShareChat(conv.id, conv.title)}
                                   onRename={() => void queueRenameChat(conv.id, conv.title)}
                                   onMoveToProject={() => void queueMoveChat(conv.id)}
                                   onArchive={() => console.log('Archive', conv.id)}
+                                  onExport={(format) => downloadConversationExport({ conversationId: conv.id, format })}
                                   onDelete={() => void queueDeleteChat(conv.id, conv.title)}
                                 />
                               </div>
@@ -600,6 +624,13 @@ export function ChatSidebar({
         </div>
       </div>
 
+      <ChatSearchDialog
+        open={isSearchOpen}
+        onClose={() => setIsSearchOpen(false)}
+        projects={projects}
+        onNavigate={closeSidebarIfMobile}
+      />
+
       <Dialog open={Boolean(renameAction)} onClose={clearAction}>
         <div className="space-y-3">
           <div className="flex items-start justify-between gap-3">
@@ -749,6 +780,13 @@ export function ChatSidebar({
           </div>
         </div>
       </Dialog>
+
+      <ShareConversationDialog
+        open={Boolean(shareAction)}
+        conversationId={shareAction?.chatId ?? null}
+        title={shareAction?.currentTitle}
+        onClose={clearAction}
+      />
     </>
   )
 }
@@ -1,9 +1,11 @@
 "use client";
 
 import { DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator } from "@/components/ui/dropdown-menu";
-import { FEATURED_AGENTS } from "@/lib/agents/featuredAgents";
+import { FEATURED_AGENTS, toFeaturedAgent, type FeaturedAgent } from "@/lib/agents/featuredAgents";
+import { useCustomAgents } from "@/lib/hooks/use-custom-agents";
 import { cn } from "@/lib/utils";
-import { Check, X } from "lucide-react";
+import { Check, Plus, X } from "lucide-react";
+import Link from "next/link";
 import { useEffect, useState } from "react";
 
 export function AgentPickerPanel({
@@ -20,6 +22,8 @@ export function AgentPickerPanel({
   maxAgents?: number;
 }) {
   const agents = FEATURED_AGENTS.slice(0, Math.max(0, Math.min(4, maxAgents)));
+  const { agents: customAgentRows } = useCustomAgents();
+  const customAgents: FeaturedAgent[] = customAgentRows.map(toFeaturedAgent);
   const canClear = Boolean(onClearAgentId && selectedAgentId);
   const [flashAgentId, setFlashAgentId] = useState<string | null>(null);
 
@@ -88,6 +92,43 @@ export function AgentPickerPanel({
         })}
       </div>
 
+      <DropdownMenuSeparator />
+      <DropdownMenuLabel className="px-3 pb-1 pt-2 text-xs font-medium text-muted-foreground">
+        Your agents
+      </DropdownMenuLabel>
+      <div className="max-h-56 overflow-y-auto px-2 pb-2">
+        {customAgents.map((agent) => {
+          const Icon = agent.icon;
+          const selected = agent.id === selectedAgentId;
+          return (
+            <DropdownMenuItem
+              key={agent.id}
+              onSelect={() => handleSelect(agent.id)}
+              className={cn(
+                "cursor-pointer gap-2.5 rounded-lg px-2 py-1.5",
+                selected ? "bg-accent/40" : "",
+                flashAgentId === agent.id ? "animate-pulse" : ""
+              )}
+            >
+              <span className="flex h-7 w-7 shrink-0 items-center justify-center rounded-md border border-border/50 bg-muted/30">
+                <Icon className="h-3.5 w-3.5 text-foreground" />
+              </span>
+              <div className="min-w-0 flex-1">
+                <div className="truncate text-sm text-foreground">{agent.name}</div>
+                <div className="truncate text-xs text-muted-foreground">{agent.description}</div>
+              </div>
+              {selected ? <Check className="h-3.5 w-3.5 text-primary" /> : null}
+            </DropdownMenuItem>
+          );
+        })}
+        <DropdownMenuItem asChild className="cursor-pointer gap-2.5 rounded-lg px-2 py-1.5 text-xs text-muted-foreground">
+          <Link href="/agents/custom">
+            <Plus className="h-3.5 w-3.5" />
+            {customAgents.length ? "Manage your agents" : "Create your own agent"}
+          </Link>
+        </DropdownMenuItem>
+      </div>
+
       {canClear ? (
         <>
           <DropdownMenuSeparator />
@@ -11,8 +11,9 @@ import { ChatSidebar } from "@/components/chat-sidebar";
 import { ChatMessage } from "@/components/chat-message";
 import { ChatComposer, type SearchControls } from "@/components/chat-composer";
 import { Button } from "@/components/ui/button";
-import { ArrowDown, Check, ChevronDown, Image as ImageIcon, Menu, Plus, X } from "lucide-react";
+import { ArrowDown, Check, ChevronDown, Image as ImageIcon, Menu, Plus, ScrollText, X } from "lucide-react";
 import { StatusBubble } from "@/components/chat/status-bubble";
+import { TopicSummaryDialog } from "@/components/chat/topic-summary-dialog";
 import dynamic from "next/dynamic";
 import supabaseBrowserClient from "@/lib/supabase/browser-client";
 import { ApiUsageBadge } from "@/components/api-usage-badge";
@@ -41,6 +42,7 @@ import type { ModelFamily, SpeedMode, ReasoningEffort, ModelSettings } from "@/l
 import { isPlaceholderTitle } from "@/lib/conversation-utils";
 import { requestAutoNaming } from "@/lib/autoNaming";
 import type { AssistantMessageMetadata } from "@/lib/chatTypes";
+import type { MessageBranchInfo } from "@/lib/message-branches";
 import { formatSearchedDomainsLine, formatThoughtDurationLabel } from "@/lib/metadata";
 import { MessageInsightChips } from "@/components/chat/message-insight-chips";
 import type { MarketAgentFeedEvent } from "@/lib/data/market-agent";
@@ -81,8 +83,22 @@ interface ServerMessage {
   content: string;
   timestamp: string;
   metadata?: Record<string, unknown> | null;
+  branch?: MessageBranchInfo | null;
 }
 
+type BranchPagePayload = {
+  messages?: Array<{
+    id: string;
+    role?: string | null;
+    content?: string | null;
+    created_at?: string | null;
+    metadata?: Record<string, unknown> | null;
+  }>;
+  hasMore?: boolean;
+  oldestTimestamp?: string | null;
+  branches?: Record<string, MessageBranchInfo>;
+};
+
 const RUNTIME_INDICATOR_SLOT_ID = "__runtime-indicator__" as const;
 
 interface RuntimeIndicatorSlotMessage {
@@ -184,6 +200,8 @@ const ADVANCED_CONTEXT_TOPIC_SELECTION_KEY =
   "llm-client:advanced-context-topic-ids-by-chat";
 const STREAMING_ACTIVE_STORAGE_KEY = "llm-client:streaming-active";
 const STREAMING_CHAT_ID_STORAGE_KEY = "llm-client:streaming-chat-id";
+const STREAMING_TURN_STORAGE_KEY = "llm-client:streaming-turn";
+const MAX_STREAM_RESUME_ATTEMPTS = 3;
 const STREAM_UPDATE_INTERVAL_MS = 50;
 const COMPOSER_NAV_SLIDE_DURATION_MS = 240;
 const CENTERED_COMPOSER_OFFSET = "calc(-52vh + 120px)";
@@ -209,6 +227,36 @@ function readModelSelectionFromStorage(): string | null {
   }
 }
 
+type StreamingTurn = { jobId: string; chatId: string };
+
+// The turn job behind the in-flight answer, kept per tab so a reload can reattach to its stream
+// even before the assistant message has been saved.
+function writeStreamingTurn(turn: StreamingTurn | null) {
+  if (typeof window === "undefined") return;
+  try {
+    if (turn) {
+      window.sessionStorage.setItem(STREAMING_TURN_STORAGE_KEY, JSON.stringify(turn));
+    } else {
+      window.sessionStorage.removeItem(STREAMING_TURN_STORAGE_KEY);
+    }
+  } catch {
+    // Ignore persistence failures
+  }
+}
+
+function readStreamingTurn(): StreamingTurn | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const raw = window.sessionStorage.getItem(STREAMING_TURN_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    return parsed && typeof parsed.jobId === "string" && typeof parsed.chatId === "string"
+      ? { jobId: parsed.jobId, chatId: parsed.chatId }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
 type AutoStreamPrefs = {
   generationMode?: "chat" | "image";
   imageModel?: "nano-banana" | "nano-banana-pro";
@@ -399,6 +447,7 @@ export default function ChatPageShell({
     createChat,
     appendMessages,
     prependMessages,
+    replaceMessages,
     updateMessage,
     updateChatTitle,
     removeMessage,
@@ -927,6 +976,10 @@ export default function ChatPageShell({
   const guestResponseIdsRef = useRef<Record<string, string | undefined>>({});
   const inFlightRequests = useRef<Set<string>>(new Set());
   const streamAbortControllerRef = useRef<AbortController | null>(null);
+  // Server-side job for the turn being streamed; the stop button cancels it explicitly.
+  const streamTurnJobIdRef = useRef<string | null>(null);
+  // Chats already checked for an unfinished answer to reattach to, so each is resumed at most once.
+  const resumeCheckedChatIdsRef = useRef<Set<string>>(new Set());
   const stopRequestedRef = useRef(false);
   const lastTokenAtRef = useRef<number>(0);
   const activeStreamStateRef = useRef<{
@@ -1590,6 +1643,7 @@ export default function ChatPageShell({
             content: m.content,
             timestamp: m.timestamp,
             metadata: m.metadata ?? null,
+            branch: m.branch ?? null,
           }))
         : [];
 
@@ -1771,18 +1825,7 @@ export default function ChatPageShell({
         }),
       });
 
-      const payload = (await res.json()) as {
-        messages?: Array<{
-          id: string;
-          role?: string | null;
-          content?: string | null;
-          created_at?: string | null;
-          metadata?: Record<string, unknown> | null;
-        }>;
-        hasMore?: boolean;
-        oldestTimestamp?: string | null;
-        error?: string;
-      };
+      const payload = (await res.json()) as BranchPagePayload & { error?: string };
 
       if (!res.ok) {
         throw new Error(payload?.error || "Failed to load older messages");
@@ -1794,6 +1837,7 @@ export default function ChatPageShell({
         content: message.content ?? "",
         timestamp: message.created_at ?? new Date().toISOString(),
         metadata: message.metadata ?? null,
+        branch: payload.branches?.[message.id] ?? null,
       }));
 
       prependMessages(activeConversationId, incoming);
@@ -2517,6 +2561,7 @@ export default function ChatPageShell({
           window.sessionStorage.removeItem(STREAMING_CHAT_ID_STORAGE_KEY);
         } catch {}
       }
+      writeStreamingTurn(null);
       // Clear timing/pending data to avoid stale chips or stuck UI
       responseTimingRef.current = { start: null, firstToken: null, assistantMessageId: null };
       pendingThinkingInfoRef.current = null;
@@ -2616,6 +2661,7 @@ export default function ChatPageShell({
       marketAgentContext?: { instanceId?: string | null; eventId?: string | null } | null;
       userMessageMetadata?: Record<string, unknown> | null;
       searchControls?: SearchControls;
+      editOfMessageId?: string;
     }
   ) => {
     const requestKey = `${conversationId}:${message}`;
@@ -2788,9 +2834,11 @@ export default function ChatPageShell({
               : undefined,
             agentId: extras?.agentId ?? null,
             marketAgentContext: extras?.marketAgentContext ?? null,
+            editOfMessageId: extras?.editOfMessageId,
           }),
           signal: controller.signal,
         });
+      streamTurnJobIdRef.current = response.headers.get("X-Chat-Job-Id");
 
       if (!response.ok) {
         // Stop streaming state and indicators on error
@@ -2800,7 +2848,14 @@ export default function ChatPageShell({
         if (response.status === 429) {
           try {
             const errorData = await response.json();
-            if (errorData.error === "Usage limit exceeded") {
+            if (errorData.error === "Budget exceeded" && errorData.reason === "project_limit") {
+              // Project caps are set by the user; explain in the thread instead of the upgrade modal.
+              updateMessage(chatId, responseTimingRef.current.assistantMessageId ?? assistantMessageId, {
+                content: String(errorData.message ?? "This project's monthly budget cap has been reached."),
+              });
+              return;
+            }
+            if (errorData.error === "Usage limit exceeded" || errorData.error === "Budget exceeded") {
               window.dispatchEvent(new CustomEvent("usage-limit-exceeded", {
                 detail: {
                   currentSpending: errorData.currentSpending,
@@ -2841,20 +2896,69 @@ export default function ChatPageShell({
         return;
       }
 
-	      const reader = response.body?.getReader();
+	      let reader = response.body?.getReader();
       if (!reader) {
         console.error("No response body reader");
         finalizeStreamingState();
         return;
       }
+      const turnJobId = streamTurnJobIdRef.current;
+      if (turnJobId) {
+        writeStreamingTurn({ jobId: turnJobId, chatId });
+      }
 
-	      const decoder = new TextDecoder();
+	      let decoder = new TextDecoder();
         let ndjsonBuffer = "";
+        // Lines handled so far; the turn's event log is indexed the same way, so a dropped
+        // connection picks up from here instead of falling back to polling the saved message.
+        let streamEventOffset = 0;
+        let resumeAttempts = 0;
+        const resumeFromTurnJob = async () => {
+          if (!turnJobId || stopRequestedRef.current || resumeAttempts >= MAX_STREAM_RESUME_ATTEMPTS) {
+            return null;
+          }
+          resumeAttempts += 1;
+          try {
+            const resumed = await fetch(
+              `/api/chat/jobs/${turnJobId}/stream?offset=${streamEventOffset}`,
+              { signal: controller.signal }
+            );
+            return resumed.ok && resumed.body ? resumed.body.getReader() : null;
+          } catch {
+            return null;
+          }
+        };
+        const swapReader = (next: NonNullable<typeof reader>) => {
+          try {
+            reader?.releaseLock();
+          } catch {}
+          reader = next;
+          decoder = new TextDecoder();
+          ndjsonBuffer = "";
+        };
 
 	      try {
 	        while (true) {
-	          const { done, value } = await reader.read();
-	          if (done) break;
+            let chunk: Awaited<ReturnType<typeof reader.read>>;
+            try {
+              chunk = await reader.read();
+            } catch (readError) {
+              const resumed = await resumeFromTurnJob();
+              if (!resumed) throw readError;
+              swapReader(resumed);
+              continue;
+            }
+	          const { done, value } = chunk;
+	          if (done) {
+              if (!sawDone) {
+                const resumed = await resumeFromTurnJob();
+                if (resumed) {
+                  swapReader(resumed);
+                  continue;
+                }
+              }
+              break;
+            }
 
 	          ndjsonBuffer += decoder.decode(value, { stream: true });
 
@@ -2866,6 +2970,10 @@ export default function ChatPageShell({
               if (!line.trim()) continue;
 	            try {
 	              const parsed = JSON.parse(line);
+                // `job` lines are notices from a replay, not events of the turn itself.
+                if (parsed.job) continue;
+                streamEventOffset += 1;
+                resumeAttempts = 0;
 
 		              if (parsed.token) {
 		                lastTokenAtRef.current = Date.now();
@@ -3077,6 +3185,7 @@ export default function ChatPageShell({
 	    } finally {
 	      if (streamAbortControllerRef.current === controller) {
 	        streamAbortControllerRef.current = null;
+	        streamTurnJobIdRef.current = null;
 	      }
 	      inFlightRequests.current.delete(requestKey);
 	      flushStreamUpdate();
@@ -3144,6 +3253,12 @@ export default function ChatPageShell({
     stopRequestedRef.current = true;
     controller.abort();
     streamAbortControllerRef.current = null;
+    const turnJobId = streamTurnJobIdRef.current;
+    streamTurnJobIdRef.current = null;
+    if (turnJobId) {
+      // Dropping the connection leaves the turn running on the server; cancel its job as well.
+      void fetch(`/api/chat/jobs/${turnJobId}`, { method: "DELETE" }).catch(() => {});
+    }
     setIsStreaming(false);
     if (typeof window !== "undefined") {
       try {
@@ -3151,6 +3266,7 @@ export default function ChatPageShell({
         window.sessionStorage.removeItem(STREAMING_CHAT_ID_STORAGE_KEY);
       } catch {}
     }
+    writeStreamingTurn(null);
     setReserveRuntimeIndicatorSpace(false);
     activeStreamStateRef.current = null;
     setActiveIndicatorMessageId(null);
@@ -3197,6 +3313,186 @@ export default function ChatPageShell({
 	    };
 	  }, [isStreaming, recoverInterruptedStream]);
 
+  // Reattaches to a turn that was still streaming when the page went away. The replay starts from
+  // the first event, so the partial text saved on the message is rebuilt rather than appended to.
+  const resumeTurnStream = useCallback(
+    async (options: { chatId: string; streamPath: string; messageId: string; appendPlaceholder: boolean }) => {
+      const { chatId, streamPath, appendPlaceholder } = options;
+      let messageId = options.messageId;
+      const controller = new AbortController();
+      streamAbortControllerRef.current = controller;
+      setIsStreaming(true);
+      if (typeof window !== "undefined") {
+        try {
+          window.sessionStorage.setItem(STREAMING_ACTIVE_STORAGE_KEY, "1");
+          window.sessionStorage.setItem(STREAMING_CHAT_ID_STORAGE_KEY, chatId);
+        } catch {}
+      }
+      setReserveRuntimeIndicatorSpace(true);
+      setThinkingStatus({ variant: "thinking", label: "Reconnecting" });
+      setActiveIndicatorMessageId(messageId);
+      if (appendPlaceholder) {
+        appendMessages(chatId, [
+          {
+            id: messageId,
+            role: "assistant",
+            content: "",
+            timestamp: new Date().toISOString(),
+            metadata: { streaming: true },
+          },
+        ]);
+      }
+
+      let content = "";
+      let preamble = "";
+      let offset = 0;
+      let sawToken = false;
+      let sawDone = false;
+      try {
+        // A replay that hands back events resets the failure count; one that doesn't counts against it.
+        let failures = 0;
+        while (!sawDone && failures < MAX_STREAM_RESUME_ATTEMPTS) {
+          let madeProgress = false;
+          try {
+            const response = await fetch(`${streamPath}?offset=${offset}`, { signal: controller.signal });
+            if (!response.ok || !response.body) break;
+            streamTurnJobIdRef.current = response.headers.get("X-Chat-Job-Id");
+            const reader = response.body.getReader();
+            const decoder = new TextDecoder();
+            let ndjsonBuffer = "";
+            try {
+              while (!sawDone) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                ndjsonBuffer += decoder.decode(value, { stream: true });
+                let newlineIndex = ndjsonBuffer.indexOf("\n");
+                while (newlineIndex !== -1 && !sawDone) {
+                  const line = ndjsonBuffer.slice(0, newlineIndex);
+                  ndjsonBuffer = ndjsonBuffer.slice(newlineIndex + 1);
+                  newlineIndex = ndjsonBuffer.indexOf("\n");
+                  if (!line.trim()) continue;
+                  let parsed: any;
+                  try {
+                    parsed = JSON.parse(line);
+                  } catch {
+                    continue;
+                  }
+                  // `job` lines are notices from the replay (e.g. "reconnect from here"), not turn events.
+                  if (parsed.job) continue;
+                  offset += 1;
+                  madeProgress = true;
+                  if (parsed.token) {
+                    content += parsed.token;
+                    if (!sawToken) {
+                      sawToken = true;
+                      hideThinkingIndicator();
+                      clearSearchIndicator();
+                      clearFileReadingIndicator();
+                      clearAnalyzingIndicator();
+                    }
+                  } else if (typeof parsed.preamble_delta === "string") {
+                    preamble += parsed.preamble_delta;
+                  } else if (typeof parsed.preamble === "string") {
+                    preamble += parsed.preamble;
+                  } else if (parsed.status) {
+                    handleStatusEvent(parsed.status as SearchStatusEvent);
+                  } else if (parsed.type === "web_search_domain" && typeof parsed.domain === "string") {
+                    addSearchDomain(parsed.domain);
+                  } else if (parsed.meta) {
+                    const newId =
+                      typeof parsed.meta.assistantMessageRowId === "string"
+                        ? (parsed.meta.assistantMessageRowId as string)
+                        : messageId;
+                    if (typeof parsed.meta.finalContent === "string" && parsed.meta.finalContent) {
+                      content = parsed.meta.finalContent;
+                    }
+                    updateMessage(chatId, messageId, {
+                      id: newId,
+                      content,
+                      ...(parsed.meta.metadata ? { metadata: parsed.meta.metadata as AssistantMessageMetadata } : {}),
+                    });
+                    messageId = newId;
+                    setActiveIndicatorMessageId(newId);
+                    resetThinkingIndicator();
+                  } else if (parsed.done) {
+                    sawDone = true;
+                  }
+                }
+                if (sawToken) {
+                  updateMessage(chatId, messageId, { content, ...(preamble ? { preamble } : {}) });
+                }
+              }
+            } finally {
+              reader.releaseLock();
+            }
+          } catch (error) {
+            if (controller.signal.aborted) break;
+            console.warn("[chatDebug] Stream resume interrupted:", error);
+          }
+          failures = madeProgress ? 0 : failures + 1;
+        }
+      } finally {
+        if (streamAbortControllerRef.current === controller) {
+          streamAbortControllerRef.current = null;
+          streamTurnJobIdRef.current = null;
+        }
+        const wasStopRequested = stopRequestedRef.current;
+        stopRequestedRef.current = false;
+        if (!wasStopRequested) {
+          finalizeStreamingState();
+          if (appendPlaceholder && !sawToken) {
+            removeMessage(chatId, messageId);
+          }
+        }
+      }
+    },
+    [
+      addSearchDomain,
+      appendMessages,
+      clearAnalyzingIndicator,
+      clearFileReadingIndicator,
+      clearSearchIndicator,
+      finalizeStreamingState,
+      handleStatusEvent,
+      hideThinkingIndicator,
+      removeMessage,
+      resetThinkingIndicator,
+      updateMessage,
+    ]
+  );
+
+  useEffect(() => {
+    if (!selectedChatId || isStreaming || messages.length === 0) return;
+    if (resumeCheckedChatIdsRef.current.has(selectedChatId)) return;
+    resumeCheckedChatIdsRef.current.add(selectedChatId);
+
+    const last = messages[messages.length - 1];
+    const lastMetadata = last.metadata as Record<string, unknown> | null | undefined;
+    if (
+      last.role === "assistant" &&
+      lastMetadata?.streaming === true &&
+      !last.id.startsWith("assistant-streaming-")
+    ) {
+      void resumeTurnStream({
+        chatId: selectedChatId,
+        streamPath: `/api/messages/${last.id}/stream`,
+        messageId: last.id,
+        appendPlaceholder: false,
+      });
+      return;
+    }
+    // Reloaded before the first token: there's no assistant row yet, only the turn this tab started.
+    const storedTurn = readStreamingTurn();
+    if (storedTurn && storedTurn.chatId === selectedChatId && last.role === "user") {
+      void resumeTurnStream({
+        chatId: selectedChatId,
+        streamPath: `/api/chat/jobs/${storedTurn.jobId}/stream`,
+        messageId: `assistant-streaming-${Date.now()}`,
+        appendPlaceholder: true,
+      });
+    }
+  }, [isStreaming, messages, resumeTurnStream, selectedChatId]);
+
   const buildAttachmentsFromMetadata = useCallback(
     (metadata?: Record<string, unknown> | null): UploadedFragment[] => {
       if (!metadata || typeof metadata !== "object") return [];
@@ -3310,6 +3606,108 @@ export default function ChatPageShell({
     projectId,
   ]); // Run when conversation changes or message count changes
 
+  // Replace the visible thread with a fresh page of the active branch (after an edit or a switch).
+  const applyActiveBranchPage = useCallback(
+    (chatId: string, payload: BranchPagePayload) => {
+      replaceMessages(
+        chatId,
+        (payload.messages ?? []).map((message) => ({
+          id: message.id,
+          role: (message.role ?? "assistant") as "user" | "assistant",
+          content: message.content ?? "",
+          timestamp: message.created_at ?? new Date().toISOString(),
+          metadata: message.metadata ?? null,
+          branch: payload.branches?.[message.id] ?? null,
+        }))
+      );
+      setHasMoreMessages(Boolean(payload.hasMore));
+      setOldestMessageTimestamp(payload.oldestTimestamp ?? null);
+    },
+    [replaceMessages]
+  );
+
+  const handleEditMessage = async (messageId: string, nextContent: string) => {
+    if (!selectedChatId || isStreaming) return;
+    const chatId = selectedChatId;
+    const messageIndex = messages.findIndex((m) => m.id === messageId);
+    const original = messages[messageIndex];
+    // Optimistic (not yet persisted) messages cannot be forked from.
+    if (!original || original.role !== "user" || original.id.startsWith("user-")) return;
+
+    const siblingIds = original.branch?.siblingIds ?? [original.id];
+    const editedMessageId = `user-${Date.now()}`;
+    const editedMessage: StoredMessage = {
+      id: editedMessageId,
+      role: "user",
+      content: nextContent,
+      timestamp: new Date().toISOString(),
+      metadata: original.metadata,
+      branch: { siblingIds: [...siblingIds, editedMessageId], index: siblingIds.length },
+    };
+    replaceMessages(chatId, [...messages.slice(0, messageIndex), editedMessage]);
+
+    setReserveRuntimeIndicatorSpace(true);
+    showThinkingIndicator();
+    autoScrollEnabledRef.current = true;
+    autoScrollLockedRef.current = false;
+    autoScrollCooldownUntilRef.current = 0;
+    requestAnimationFrame(() => scrollToBottom("smooth"));
+
+    const attachments = buildAttachmentsFromMetadata(original.metadata as Record<string, unknown> | null);
+    await streamModelResponse(
+      chatId,
+      selectedProjectId || undefined,
+      nextContent,
+      chatId,
+      false,
+      attachments.length ? attachments : undefined,
+      undefined,
+      {
+        agentId: selectedAgentId,
+        userMessageMetadata: (original.metadata as Record<string, unknown> | null) ?? null,
+        searchControls: activeSearchControls,
+        editOfMessageId: original.id,
+      }
+    );
+
+    // Pick up server ids and sibling counts for the new branch.
+    try {
+      const res = await fetch("/api/messages/load-older", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ conversationId: chatId, limit: MESSAGE_PAGE_SIZE }),
+      });
+      if (res.ok) {
+        applyActiveBranchPage(chatId, (await res.json()) as BranchPagePayload);
+      }
+    } catch (error) {
+      console.error("Failed to reload branch after edit:", error);
+    }
+  };
+
+  const handleSwitchBranch = async (messageId: string, direction: -1 | 1) => {
+    if (!selectedChatId || isStreaming) return;
+    const chatId = selectedChatId;
+    const branch = messages.find((m) => m.id === messageId)?.branch;
+    const targetId = branch?.siblingIds[branch.index + direction];
+    if (!targetId) return;
+
+    try {
+      const res = await fetch("/api/messages/branch", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ conversationId: chatId, messageId: targetId }),
+      });
+      const payload = (await res.json()) as BranchPagePayload & { error?: string };
+      if (!res.ok) {
+        throw new Error(payload?.error || "Failed to switch branch");
+      }
+      applyActiveBranchPage(chatId, payload);
+    } catch (error) {
+      console.error("Failed to switch branch:", error);
+    }
+  };
+
   const handleRetryWithModel = async (retryModelName: string, messageId: string) => {
     if (!selectedChatId) return;
 
@@ -4016,6 +4414,29 @@ export default function ChatPageShell({
     return nextItems;
   }, [messages, shouldDisplayRuntimeIndicator, activeIndicatorMessageId]);
 
+  // Opening a search hit (?messageId=) centers that message once it is in the list.
+  const searchTargetMessageId =
+    typeof searchParams?.messageId === "string" ? searchParams.messageId : null;
+  const handledSearchTargetRef = useRef<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!searchTargetMessageId || handledSearchTargetRef.current === searchTargetMessageId) return;
+    const index = chatListItems.findIndex((item) => item.id === searchTargetMessageId);
+    if (index < 0) return;
+    handledSearchTargetRef.current = searchTargetMessageId;
+    // Run after the initial bottom scroll so it doesn't override the jump.
+    const scrollTimer = setTimeout(() => {
+      virtuosoRef.current?.scrollToIndex({ index, align: "center", behavior: "auto" });
+      setHighlightedMessageId(searchTargetMessageId);
+    }, 200);
+    const clearTimer = setTimeout(() => setHighlightedMessageId(null), 2600);
+    return () => {
+      clearTimeout(scrollTimer);
+      clearTimeout(clearTimer);
+    };
+  }, [chatListItems, searchTargetMessageId]);
+
 
   // Ensure we never shrink the bottom spacer while a runtime indicator is visible; keeps page height stable.
   useEffect(() => {
@@ -4638,7 +5059,11 @@ export default function ChatPageShell({
                           </div>
                         )}
                         <div className="px-4 sm:px-6">
-                          <div className="w-full max-w-[min(48rem,calc(100vw-32px))] min-w-0 mx-auto px-1.5 sm:px-0 overflow-hidden">
+                          <div
+                            className={`w-full max-w-[min(48rem,calc(100vw-32px))] min-w-0 mx-auto px-1.5 sm:px-0 overflow-hidden rounded-xl transition-colors duration-700 ${
+                              highlightedMessageId === message.id ? "bg-primary/10" : ""
+                            }`}
+                          >
                             <ChatMessage
                               {...message}
                               messageId={message.id}
@@ -4652,6 +5077,16 @@ export default function ChatPageShell({
                                   ? (model) => handleRetryWithModel(model, message.id)
                                   : undefined
                               }
+                              onEdit={
+                                message.role === "user" && !isStreaming
+                                  ? (content) => void handleEditMessage(message.id, content)
+                                  : undefined
+                              }
+                              onSwitchBranch={
+                                !isStreaming
+                                  ? (direction) => void handleSwitchBranch(message.id, direction)
+                                  : undefined
+                              }
                               forceFullWidth
                               forceStaticBubble={message.role === "assistant"}
                             />
@@ -4846,6 +5281,7 @@ function ContextUsageIndicator({
   >(null);
   const [topicsLoading, setTopicsLoading] = useState(false);
   const [topicsError, setTopicsError] = useState<string | null>(null);
+  const [summaryTopicId, setSummaryTopicId] = useState<string | null>(null);
   const topicsRequestRef = useRef<AbortController | null>(null);
   const percent = Math.min(100, Math.max(0, Math.round(usage.percent ?? 0)));
   const remainingPercent = Math.max(0, 100 - percent);
@@ -4972,6 +5408,26 @@ function ContextUsageIndicator({
     [onChangeAdvancedTopicIds]
   );
 
+  // Rendered inside a menu item, so it keeps pointer events from toggling the item's checkbox.
+  const renderTopicSummaryButton = (topicId: string) => (
+    <button
+      type="button"
+      className="ml-auto shrink-0 rounded p-0.5 text-muted-foreground hover:bg-muted hover:text-foreground"
+      aria-label="View topic summary"
+      title="View and edit summary"
+      onPointerDown={(e) => e.stopPropagation()}
+      onPointerUp={(e) => e.stopPropagation()}
+      onClick={(e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setIsConfigureOpen(false);
+        setSummaryTopicId(topicId);
+      }}
+    >
+      <ScrollText className="h-3.5 w-3.5" />
+    </button>
+  );
+
   return (
     <div
       className="relative flex items-center gap-2 text-xs text-muted-foreground"
@@ -5174,6 +5630,7 @@ function ContextUsageIndicator({
 	                                       {topic.tokenEstimate ? `${Math.round(topic.tokenEstimate / 1000)}k tokens` : "No token estimate"}
 	                                     </div>
 	                                   </div>
+	                                   {renderTopicSummaryButton(topic.id)}
 	                                 </DropdownMenuCheckboxItem>
 	                               );
 	                             })
@@ -5211,6 +5668,7 @@ function ContextUsageIndicator({
 	                                       {chatLabel}{projectLabel}
 	                                     </div>
 	                                   </div>
+	                                   {renderTopicSummaryButton(topic.id)}
 	                                 </DropdownMenuCheckboxItem>
 	                               );
 	                             })
@@ -5253,6 +5711,11 @@ function ContextUsageIndicator({
           </div>
         </div>
       ) : null}
+      <TopicSummaryDialog
+        open={summaryTopicId !== null}
+        topicId={summaryTopicId}
+        onClose={() => setSummaryTopicId(null)}
+      />
     </div>
   );
 }
@@ -4,6 +4,7 @@ import { createContext, useCallback, useContext, useEffect, useMemo, useState }
 import supabaseClient from "@/lib/supabase/browser-client";
 import type { Database } from "@/lib/supabase/types";
 import type { AssistantMessageMetadata } from "@/lib/chatTypes";
+import { resolveActiveBranch, type MessageBranchInfo } from "@/lib/message-branches";
 
 const STREAMING_ACTIVE_STORAGE_KEY = "llm-client:streaming-active";
 
@@ -15,6 +16,8 @@ export type StoredMessage = {
   model?: string;
   metadata?: AssistantMessageMetadata | Record<string, unknown> | null;
   preamble?: string | null;
+  // Present when the message has edited siblings (see lib/message-branches).
+  branch?: MessageBranchInfo | null;
 };
 
 export type StoredChat = {
@@ -38,6 +41,7 @@ type ChatContextValue = {
   }) => string;
   appendMessages: (chatId: string, newMessages: StoredMessage[]) => void;
   prependMessages: (chatId: string, newMessages: StoredMessage[]) => void;
+  replaceMessages: (chatId: string, messages: StoredMessage[]) => void;
   updateMessage: (chatId: string, messageId: string, updates: Partial<StoredMessage>) => void;
   updateChatTitle: (chatId: string, title: string) => void;
   ensureChat: (chat: StoredChat) => void;
@@ -92,23 +96,41 @@ export function ChatProvider({ children, initialChats = [], userId }: ChatProvid
         .order("created_at", { ascending: true })
         .returns<Database["public"]["Tables"]["messages"]["Row"][]>();
 
-      const messageMap = new Map<string, StoredMessage[]>();
-      const latestMessageTime = new Map<string, string>();
+      // Only the active branch of each conversation is kept in the store.
+      const rowsByConversation = new Map<string, Database["public"]["Tables"]["messages"]["Row"][]>();
       (messageRows ?? []).forEach((msg) => {
         const convId = msg.conversation_id;
         if (!convId) return;
-        const messages = messageMap.get(convId) ?? [];
-        const timestamp = msg.created_at ?? new Date().toISOString();
-        messages.push({
-          id: msg.id,
-          role: (msg.role as "user" | "assistant") || "assistant",
-          content: msg.content ?? "",
-          timestamp,
-          metadata: msg.metadata as AssistantMessageMetadata | Record<string, unknown> | null,
-          preamble: (msg as any).preamble ?? null,
+        const list = rowsByConversation.get(convId) ?? [];
+        list.push(msg);
+        rowsByConversation.set(convId, list);
+      });
+
+      const messageMap = new Map<string, StoredMessage[]>();
+      const latestMessageTime = new Map<string, string>();
+      rows.forEach((row) => {
+        const convRows = rowsByConversation.get(row.id);
+        if (!convRows?.length) return;
+        const { pathIds, branchInfo } = resolveActiveBranch(convRows, row.active_leaf_message_id ?? null);
+        const rowById = new Map(convRows.map((msg) => [msg.id, msg] as const));
+        const messages: StoredMessage[] = [];
+        pathIds.forEach((id) => {
+          const msg = rowById.get(id);
+          if (!msg) return;
+          const timestamp = msg.created_at ?? new Date().toISOString();
+          messages.push({
+            id: msg.id,
+            role: (msg.role as "user" | "assistant") || "assistant",
+            content: msg.content ?? "",
+            timestamp,
+            metadata: msg.metadata as AssistantMessageMetadata | Record<string, unknown> | null,
+            preamble: (msg as any).preamble ?? null,
+            branch: branchInfo[msg.id] ?? null,
+          });
         });
-        messageMap.set(convId, messages);
-        latestMessageTime.set(convId, timestamp);
+        messageMap.set(row.id, messages);
+        const latest = convRows[convRows.length - 1]?.created_at;
+        if (latest) latestMessageTime.set(row.id, latest);
       });
 
       // Preserve existing messages for chats already in memory; don't wipe messages to [] on refresh
@@ -240,6 +262,18 @@ export function ChatProvider({ children, initialChats = [], userId }: ChatProvid
     );
   }, []);
 
+  const replaceMessages = useCallback((chatId: string, messages: StoredMessage[]) => {
+    setChats((prev) =>
+      prev.map((chat) => {
+        if (chat.id !== chatId) return chat;
+        return {
+          ...chat,
+          messages,
+        };
+      })
+    );
+  }, []);
+
   const updateMessage = useCallback(
     (chatId: string, messageId: string, updates: Partial<StoredMessage>) => {
       setChats((prev) =>
@@ -636,6 +670,7 @@ export function ChatProvider({ children, initialChats = [], userId }: ChatProvid
       createChat,
       appendMessages,
       prependMessages,
+      replaceMessages,
       updateMessage,
       updateChatTitle,
       ensureChat,
@@ -644,6 +679,7 @@ export function ChatProvider({ children, initialChats = [], userId }: ChatProvid
     [
       appendMessages,
       prependMessages,
+      replaceMessages,
       chats,
       createChat,
       ensureChat,
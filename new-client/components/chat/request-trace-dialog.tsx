@@ -0,0 +1,278 @@
+'use client'
+
+import { useEffect, useState, type ReactNode } from 'react'
+import { Check, Copy, Loader2, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Dialog } from '@/components/ui/dialog'
+import { decisionFixtureFromTrace } from '@/lib/router/eval/fixtures'
+import type { RequestTraceRecord } from '@/lib/types/request-trace'
+
+interface RequestTraceDialogProps {
+  open: boolean
+  traceId: string | null
+  onClose: () => void
+}
+
+const TIMING_ORDER = ['decision', 'context', 'memories', 'webPipeline', 'streamStart', 'firstToken', 'complete']
+
+const formatMs = (ms: number) => (ms >= 1000 ? `${(ms / 1000).toFixed(2)}s` : `${Math.round(ms)}ms`)
+const formatUsd = (usd: number) => (usd > 0 && usd < 0.0001 ? '<$0.0001' : `$${usd.toFixed(4)}`)
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div className="space-y-1.5">
+      <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">{title}</p>
+      {children}
+    </div>
+  )
+}
+
+function Row({ label, value }: { label: string; value: ReactNode }) {
+  return (
+    <div className="flex items-baseline justify-between gap-3 text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="min-w-0 truncate text-right font-mono text-xs text-foreground">{value ?? '—'}</span>
+    </div>
+  )
+}
+
+export function RequestTraceDialog({ open, traceId, onClose }: RequestTraceDialogProps) {
+  const [record, setRecord] = useState<RequestTraceRecord | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [copied, setCopied] = useState<'json' | 'fixture' | null>(null)
+
+  useEffect(() => {
+    if (!open || !traceId) return
+    let cancelled = false
+    setIsLoading(true)
+    setError(null)
+    setCopied(null)
+    fetch(`/api/traces/${traceId}`, { cache: 'no-store' })
+      .then(async (res) => {
+        const data = await res.json().catch(() => null)
+        if (!res.ok) throw new Error(data?.error || 'Failed to load trace')
+        if (!cancelled) setRecord(data as RequestTraceRecord)
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load trace')
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [open, traceId])
+
+  const copy = async (kind: 'json' | 'fixture', text: string) => {
+    try {
+      await navigator.clipboard.writeText(text)
+      setCopied(kind)
+    } catch {}
+  }
+
+  const trace = record?.trace
+  const timings = trace
+    ? Object.entries(trace.timings).sort(
+        ([a], [b]) =>
+          (TIMING_ORDER.indexOf(a) + 1 || TIMING_ORDER.length + 1) -
+          (TIMING_ORDER.indexOf(b) + 1 || TIMING_ORDER.length + 1)
+      )
+    : []
+
+  return (
+    <Dialog open={open && Boolean(traceId)} onClose={onClose} contentClassName="max-w-2xl">
+      <div className="space-y-4">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <p className="text-lg font-semibold text-foreground">Request trace</p>
+            <p className="text-sm text-muted-foreground">
+              How this answer was produced: routing, context, memories, search, tools and cost.
+            </p>
+          </div>
+          <Button variant="ghost" size="icon" onClick={onClose} aria-label="Close">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading trace…
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : record && trace ? (
+          <div className="max-h-[65vh] space-y-5 overflow-y-auto pr-1">
+            <Section title="Model">
+              <Row label="Requested" value={trace.model.requested} />
+              <Row label="Used" value={trace.model.used} />
+              <Row label="Effort" value={trace.model.effort} />
+              <Row label="Routed by" value={trace.model.routedBy} />
+              {trace.model.downgradedFrom && <Row label="Downgraded from" value={trace.model.downgradedFrom} />}
+              {trace.model.maxOutputTokens !== null && (
+                <Row label="Output cap" value={trace.model.maxOutputTokens.toLocaleString()} />
+              )}
+            </Section>
+
+            {trace.decision && (
+              <Section title="Decision router">
+                <Row label="LLM routing" value={trace.decision.llmAllowed ? 'on' : 'off (speed mode)'} />
+                {trace.decision.output && (
+                  <>
+                    <Row label="Topic action" value={trace.decision.output.topicAction} />
+                    <Row label="Primary topic" value={trace.decision.output.primaryTopicId} />
+                    <Row label="Model / effort" value={`${trace.decision.output.model} / ${trace.decision.output.effort}`} />
+                    <Row
+                      label="Memory types"
+                      value={trace.decision.output.memoryTypesToLoad.join(', ') || 'none'}
+                    />
+                  </>
+                )}
+              </Section>
+            )}
+
+            {trace.context && (
+              <Section title="Context">
+                <Row label="Source" value={trace.context.source} />
+                <Row label="Topics" value={trace.context.includedTopicIds.join(', ') || 'none'} />
+                <Row label="Messages" value={trace.context.includedMessageIds.length} />
+                <Row label="Summaries / artifacts" value={`${trace.context.summaryCount} / ${trace.context.artifactCount}`} />
+              </Section>
+            )}
+
+            <Section title={`Memories (${trace.memories.length})`}>
+              {trace.memories.length ? (
+                <ul className="space-y-1 text-sm">
+                  {trace.memories.map((memory) => (
+                    <li key={memory.id} className="truncate">
+                      <span className="text-muted-foreground">{memory.type}</span> · {memory.title}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-muted-foreground">None loaded.</p>
+              )}
+            </Section>
+
+            {trace.web && (
+              <Section title="Web search">
+                <Row
+                  label="Outcome"
+                  value={
+                    trace.web.skipped
+                      ? `skipped${trace.web.skipReason ? ` (${trace.web.skipReason})` : ''}`
+                      : trace.web.enoughEvidence
+                        ? 'used'
+                        : 'not enough evidence'
+                  }
+                />
+                <Row label="Results" value={trace.web.resultCount} />
+                <Row label="Cache hits (serp / pages)" value={`${trace.web.serpCacheHits} / ${trace.web.pageCacheHits}`} />
+                {trace.web.queries.length > 0 && (
+                  <ul className="list-disc space-y-0.5 pl-5 text-sm">
+                    {trace.web.queries.map((query) => (
+                      <li key={query}>{query}</li>
+                    ))}
+                  </ul>
+                )}
+                {trace.web.sources.length > 0 && (
+                  <ul className="space-y-0.5 text-sm">
+                    {trace.web.sources.map((source) => (
+                      <li key={source.url} className="truncate">
+                        <a href={source.url} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                          {source.title || source.url}
+                        </a>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </Section>
+            )}
+
+            {trace.toolCalls.length > 0 && (
+              <Section title="Tool calls">
+                <ul className="space-y-0.5 font-mono text-xs">
+                  {trace.toolCalls.map((call, idx) => (
+                    <li key={`${call.type}-${idx}`} className="flex justify-between gap-3">
+                      <span className="truncate">
+                        {call.name || call.type}
+                        {call.query ? ` "${call.query}"` : ''} · {call.status}
+                      </span>
+                      <span className="text-muted-foreground">{formatMs(call.atMs)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </Section>
+            )}
+
+            {timings.length > 0 && (
+              <Section title="Timings (since request start)">
+                {timings.map(([phase, ms]) => (
+                  <Row key={phase} label={phase} value={formatMs(ms)} />
+                ))}
+              </Section>
+            )}
+
+            <Section title="Usage and cost">
+              {trace.usage && (
+                <Row
+                  label="Tokens (in / cached / out)"
+                  value={`${trace.usage.inputTokens.toLocaleString()} / ${trace.usage.cachedTokens.toLocaleString()} / ${trace.usage.outputTokens.toLocaleString()}`}
+                />
+              )}
+              {trace.costs.map((cost, idx) => (
+                <Row key={`${cost.label}-${idx}`} label={cost.label} value={formatUsd(cost.usd)} />
+              ))}
+              <Row label="Total" value={formatUsd(trace.totalCostUsd)} />
+            </Section>
+
+            {trace.error && (
+              <Section title="Error">
+                <p className="text-sm text-destructive">{trace.error}</p>
+              </Section>
+            )}
+          </div>
+        ) : null}
+
+        {record && trace && (
+          <div className="flex flex-wrap justify-end gap-2">
+            {trace.decision?.input && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-1.5"
+                title="Copy a decision-router fixture for scripts/eval-routers.ts"
+                onClick={() =>
+                  void copy(
+                    'fixture',
+                    JSON.stringify(
+                      decisionFixtureFromTrace({
+                        traceId: record.id,
+                        input: trace.decision!.input!,
+                        output: trace.decision!.output,
+                      })
+                    )
+                  )
+                }
+              >
+                {copied === 'fixture' ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />}
+                Copy as eval fixture
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-1.5"
+              onClick={() => void copy('json', JSON.stringify(record, null, 2))}
+            >
+              {copied === 'json' ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />}
+              Copy JSON
+            </Button>
+          </div>
+        )}
+      </div>
+    </Dialog>
+  )
+}
@@ -0,0 +1,234 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Layers, Loader2, Pencil, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Dialog } from '@/components/ui/dialog'
+import { Textarea } from '@/components/ui/textarea'
+import type { TopicSummarySegment } from '@/lib/supabase/types'
+
+interface TopicSummaryDialogProps {
+  open: boolean
+  topicId: string | null
+  onClose: () => void
+}
+
+type TopicSummary = {
+  id: string
+  label: string
+  summary: string | null
+  tokenEstimate: number
+  effectiveTokens: number
+  compactedThrough: string | null
+  compactedAt: string | null
+  segments: TopicSummarySegment[]
+}
+
+// Which text is being edited: a segment by id, or the topic's own summary.
+type EditTarget = { segmentId: string | null; text: string }
+
+const formatTokens = (tokens: number) => (tokens >= 1000 ? `${Math.round(tokens / 1000)}k` : String(tokens))
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString() : '—')
+
+export function TopicSummaryDialog({ open, topicId, onClose }: TopicSummaryDialogProps) {
+  const [topic, setTopic] = useState<TopicSummary | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isCompacting, setIsCompacting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [editing, setEditing] = useState<EditTarget | null>(null)
+
+  useEffect(() => {
+    if (!open || !topicId) return
+    let cancelled = false
+    setIsLoading(true)
+    setError(null)
+    setEditing(null)
+    fetch(`/api/conversation-topics/${topicId}/summary`, { cache: 'no-store' })
+      .then(async (res) => {
+        const data = await res.json().catch(() => null)
+        if (!res.ok) throw new Error(data?.error || 'Failed to load topic summary')
+        if (!cancelled) setTopic(data.topic as TopicSummary)
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load topic summary')
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [open, topicId])
+
+  const save = async () => {
+    if (!topicId || !editing) return
+    setIsSaving(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/conversation-topics/${topicId}/summary`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(
+          editing.segmentId ? { segmentId: editing.segmentId, summary: editing.text } : { summary: editing.text }
+        ),
+      })
+      const data = await res.json().catch(() => null)
+      if (!res.ok) throw new Error(data?.error || 'Failed to save summary')
+      setTopic(data.topic as TopicSummary)
+      setEditing(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save summary')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const compactNow = async () => {
+    if (!topicId) return
+    setIsCompacting(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/conversation-topics/${topicId}/summary`, { method: 'POST' })
+      const data = await res.json().catch(() => null)
+      if (!res.ok) throw new Error(data?.error || 'Failed to compact topic')
+      setTopic(data.topic as TopicSummary)
+      if (!data.compacted) setError('Nothing to compact yet: the topic fits in its recent window.')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to compact topic')
+    } finally {
+      setIsCompacting(false)
+    }
+  }
+
+  const renderEditor = () => (
+    <div className="space-y-2">
+      <Textarea
+        value={editing?.text ?? ''}
+        onChange={(event) => setEditing((prev) => (prev ? { ...prev, text: event.target.value } : prev))}
+        className="min-h-32 text-sm"
+        autoFocus
+      />
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={() => setEditing(null)} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={save} disabled={isSaving}>
+          {isSaving && <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />}
+          Save
+        </Button>
+      </div>
+    </div>
+  )
+
+  return (
+    <Dialog open={open && Boolean(topicId)} onClose={onClose} contentClassName="max-w-2xl">
+      <div className="space-y-4">
+        <div className="flex items-start justify-between gap-3">
+          <div className="min-w-0">
+            <p className="truncate text-lg font-semibold text-foreground">{topic?.label ?? 'Topic summary'}</p>
+            <p className="text-sm text-muted-foreground">
+              Older messages in long topics are replaced by these summaries when building context. Edit them to
+              correct or keep details.
+            </p>
+          </div>
+          <Button variant="ghost" size="icon" onClick={onClose} aria-label="Close">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading summary…
+          </div>
+        ) : topic ? (
+          <div className="max-h-[65vh] space-y-5 overflow-y-auto pr-1">
+            <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+              <span>
+                {formatTokens(topic.tokenEstimate)} tokens of messages · {formatTokens(topic.effectiveTokens)} in
+                context
+                {topic.compactedAt ? ` · compacted ${formatDate(topic.compactedAt)}` : ''}
+              </span>
+              <Button variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={compactNow} disabled={isCompacting}>
+                {isCompacting ? (
+                  <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />
+                ) : (
+                  <Layers className="mr-1 h-3.5 w-3.5" />
+                )}
+                Compact now
+              </Button>
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            <div className="space-y-1.5">
+              <div className="flex items-center justify-between">
+                <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Topic summary</p>
+                {editing?.segmentId !== null && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    aria-label="Edit topic summary"
+                    onClick={() => setEditing({ segmentId: null, text: topic.summary ?? '' })}
+                  >
+                    <Pencil className="h-3.5 w-3.5" />
+                  </Button>
+                )}
+              </div>
+              {editing && editing.segmentId === null ? (
+                renderEditor()
+              ) : (
+                <p className="whitespace-pre-wrap text-sm text-foreground">
+                  {topic.summary || <span className="text-muted-foreground">No summary yet.</span>}
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                Compacted history ({topic.segments.length})
+              </p>
+              {topic.segments.length ? (
+                topic.segments.map((segment) => (
+                  <div key={segment.id} className="space-y-1.5 rounded-md border border-border/60 p-3">
+                    <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                      <span>
+                        {formatDate(segment.start_at)} – {formatDate(segment.end_at)} · {segment.message_count} messages
+                        {segment.level > 0 ? ` · level ${segment.level}` : ''}
+                        {segment.edited_at ? ' · edited' : ''}
+                      </span>
+                      {editing?.segmentId !== segment.id && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          aria-label="Edit segment"
+                          onClick={() => setEditing({ segmentId: segment.id, text: segment.summary })}
+                        >
+                          <Pencil className="h-3.5 w-3.5" />
+                        </Button>
+                      )}
+                    </div>
+                    {editing?.segmentId === segment.id ? (
+                      renderEditor()
+                    ) : (
+                      <p className="whitespace-pre-wrap text-sm text-foreground">{segment.summary}</p>
+                    )}
+                  </div>
+                ))
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  Nothing compacted yet. Long topics are summarized automatically.
+                </p>
+              )}
+            </div>
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : null}
+      </div>
+    </Dialog>
+  )
+}
@@ -2,17 +2,19 @@
 
 import { useState, useRef, useEffect } from 'react'
 import { createPortal } from 'react-dom'
-import { MoreHorizontal, Edit3, Trash2 } from 'lucide-react'
+import { MoreHorizontal, Edit3, Trash2, Download } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 
 interface ProjectContextMenuProps {
   onRename?: () => void
   onDelete?: () => void
+  onExport?: (format: 'markdown' | 'json') => void
 }
 
 export function ProjectContextMenu({
   onRename,
-  onDelete
+  onDelete,
+  onExport
 }: ProjectContextMenuProps) {
   const [isOpen, setIsOpen] = useState(false)
   const [isPositioned, setIsPositioned] = useState(false)
@@ -129,6 +131,36 @@ export function ProjectContextMenu({
               <Edit3 className="h-4 w-4" />
               Rename project
             </button>
+            {onExport && (
+              <>
+                <button
+                  onClick={(e) => {
+                    e.preventDefault()
+                    e.stopPropagation()
+                    onExport('markdown')
+                    setIsOpen(false)
+                    setIsPositioned(false)
+                  }}
+                  className="flex w-full items-center gap-3 rounded-md px-3 py-2 text-sm text-popover-foreground hover:bg-accent"
+                >
+                  <Download className="h-4 w-4" />
+                  Export as Markdown
+                </button>
+                <button
+                  onClick={(e) => {
+                    e.preventDefault()
+                    e.stopPropagation()
+                    onExport('json')
+                    setIsOpen(false)
+                    setIsPositioned(false)
+                  }}
+                  className="flex w-full items-center gap-3 rounded-md px-3 py-2 text-sm text-popover-foreground hover:bg-accent"
+                >
+                  <Download className="h-4 w-4" />
+                  Export as JSON
+                </button>
+              </>
+            )}
             <button
               onClick={(e) => {
                 e.preventDefault()
@@ -0,0 +1,150 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Loader2, Wallet } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { ProjectBudgetStatus } from "@/lib/data/projects";
+
+interface ProjectBudgetCapProps {
+  projectId: string;
+  readOnly?: boolean;
+}
+
+const formatUsd = (value: number) => `$${value.toFixed(2)}`;
+
+async function readError(res: Response, fallback: string) {
+  const data = await res.json().catch(() => null);
+  return typeof data?.error === "string" ? data.error : fallback;
+}
+
+export function ProjectBudgetCap({ projectId, readOnly = false }: ProjectBudgetCapProps) {
+  const [status, setStatus] = useState<ProjectBudgetStatus | null>(null);
+  const [draft, setDraft] = useState("");
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/projects/${projectId}/budget`, { cache: "no-store" });
+      if (!res.ok) throw new Error(await readError(res, "Failed to load project budget"));
+      setStatus((await res.json()) as ProjectBudgetStatus);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load project budget");
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    if (readOnly) return;
+    void loadStatus();
+  }, [loadStatus, readOnly]);
+
+  const saveBudget = async (monthlyBudgetUsd: number | null) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/projects/${projectId}/budget`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ monthlyBudgetUsd }),
+      });
+      if (!res.ok) throw new Error(await readError(res, "Failed to update project budget"));
+      setStatus((await res.json()) as ProjectBudgetStatus);
+      setIsEditing(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update project budget");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = () => {
+    const trimmed = draft.trim();
+    if (!trimmed) {
+      void saveBudget(null);
+      return;
+    }
+    const value = Number(trimmed.replace(/^\$/, ""));
+    if (!Number.isFinite(value) || value <= 0) {
+      setError("Enter a positive dollar amount, or leave empty for no cap.");
+      return;
+    }
+    void saveBudget(value);
+  };
+
+  if (readOnly) return null;
+
+  const cap = status?.monthlyBudgetUsd ?? null;
+  const spent = status?.spentThisMonthUsd ?? 0;
+  const ratio = cap ? Math.min(1, spent / cap) : 0;
+
+  return (
+    <div className="space-y-3 rounded-xl border border-border bg-card/40 p-4">
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex items-start gap-2">
+          <Wallet className="mt-0.5 h-4 w-4 text-muted-foreground" />
+          <div>
+            <p className="text-sm font-semibold text-foreground">Monthly budget</p>
+            <p className="text-xs text-muted-foreground">
+              {status
+                ? cap
+                  ? `${formatUsd(spent)} of ${formatUsd(cap)} used this month`
+                  : `${formatUsd(spent)} spent this month · no cap`
+                : "Loading…"}
+            </p>
+          </div>
+        </div>
+        {!isEditing && status && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              setDraft(cap ? cap.toFixed(2) : "");
+              setError(null);
+              setIsEditing(true);
+            }}
+          >
+            {cap ? "Edit cap" : "Set cap"}
+          </Button>
+        )}
+      </div>
+
+      {cap ? (
+        <div className="h-1.5 overflow-hidden rounded-full bg-muted">
+          <div
+            className={`h-full ${ratio >= 1 ? "bg-red-400" : ratio >= 0.8 ? "bg-amber-400" : "bg-primary"}`}
+            style={{ width: `${ratio * 100}%` }}
+          />
+        </div>
+      ) : null}
+
+      {isEditing && (
+        <form
+          className="flex items-center gap-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            handleSubmit();
+          }}
+        >
+          <Input
+            autoFocus
+            inputMode="decimal"
+            placeholder="No cap"
+            value={draft}
+            onChange={(event) => setDraft(event.target.value)}
+            className="h-8 max-w-[140px]"
+          />
+          <Button type="submit" size="sm" disabled={isSaving}>
+            {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}
+          </Button>
+          <Button type="button" variant="ghost" size="sm" disabled={isSaving} onClick={() => setIsEditing(false)}>
+            Cancel
+          </Button>
+        </form>
+      )}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
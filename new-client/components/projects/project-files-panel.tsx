@@ -0,0 +1,232 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { FileText, Loader2, RefreshCw, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { ProjectFile, ProjectKnowledgeBase } from "@/lib/data/project-files";
+
+interface ProjectFilesPanelProps {
+  projectId: string;
+  readOnly?: boolean;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+const formatCost = (value: number) => {
+  if (value > 0 && value < 0.01) return "<$0.01";
+  return `$${value.toFixed(2)}`;
+};
+
+async function readError(res: Response, fallback: string) {
+  const data = await res.json().catch(() => null);
+  return typeof data?.error === "string" ? data.error : fallback;
+}
+
+export function ProjectFilesPanel({ projectId, readOnly = false }: ProjectFilesPanelProps) {
+  const [knowledgeBase, setKnowledgeBase] = useState<ProjectKnowledgeBase | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyFileId, setBusyFileId] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const uploadInputRef = useRef<HTMLInputElement | null>(null);
+  const replaceInputRef = useRef<HTMLInputElement | null>(null);
+  const replaceTargetRef = useRef<ProjectFile | null>(null);
+
+  const loadFiles = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/projects/${projectId}/files`, { cache: "no-store" });
+      if (!res.ok) throw new Error(await readError(res, "Failed to load project files"));
+      setKnowledgeBase((await res.json()) as ProjectKnowledgeBase);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load project files");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    if (readOnly) {
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    void loadFiles();
+  }, [loadFiles, readOnly]);
+
+  const handleUpload = async (files: FileList | null) => {
+    if (!files?.length) return;
+    setIsUploading(true);
+    setError(null);
+    const failures: string[] = [];
+    for (const file of Array.from(files)) {
+      const form = new FormData();
+      form.append("file", file);
+      const res = await fetch(`/api/projects/${projectId}/files`, { method: "POST", body: form });
+      if (!res.ok) {
+        failures.push(`${file.name}: ${await readError(res, "upload failed")}`);
+      }
+    }
+    if (failures.length) setError(failures.join("\n"));
+    await loadFiles();
+    setIsUploading(false);
+  };
+
+  const handleReplace = async (files: FileList | null) => {
+    const target = replaceTargetRef.current;
+    replaceTargetRef.current = null;
+    const file = files?.[0];
+    if (!target || !file) return;
+    setBusyFileId(target.id);
+    setError(null);
+    try {
+      const form = new FormData();
+      form.append("file", file);
+      const res = await fetch(`/api/projects/${projectId}/files/${target.id}`, {
+        method: "PUT",
+        body: form,
+      });
+      if (!res.ok) throw new Error(await readError(res, "Failed to replace file"));
+      await loadFiles();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to replace file");
+    } finally {
+      setBusyFileId(null);
+    }
+  };
+
+  const handleDelete = async (file: ProjectFile) => {
+    if (!window.confirm(`Remove "${file.name}" from this project?`)) return;
+    setBusyFileId(file.id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/projects/${projectId}/files/${file.id}`, { method: "DELETE" });
+      if (!res.ok) throw new Error(await readError(res, "Failed to delete file"));
+      await loadFiles();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete file");
+    } finally {
+      setBusyFileId(null);
+    }
+  };
+
+  const files = knowledgeBase?.files ?? [];
+
+  return (
+    <div className="space-y-3 rounded-xl border border-border bg-card/40 p-4">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <p className="text-sm font-semibold text-foreground">Project files</p>
+          <p className="text-xs text-muted-foreground">
+            Searchable from every chat in this project.
+            {knowledgeBase && knowledgeBase.totalBytes > 0
+              ? ` ${formatBytes(knowledgeBase.totalBytes)} stored · ~${formatCost(knowledgeBase.dailyCost)}/day (${formatCost(knowledgeBase.monthlyCost)}/month)`
+              : ""}
+          </p>
+        </div>
+        {!readOnly && (
+          <>
+            <input
+              ref={uploadInputRef}
+              type="file"
+              multiple
+              className="hidden"
+              onChange={(event) => {
+                void handleUpload(event.target.files);
+                event.target.value = "";
+              }}
+            />
+            <input
+              ref={replaceInputRef}
+              type="file"
+              className="hidden"
+              onChange={(event) => {
+                void handleReplace(event.target.files);
+                event.target.value = "";
+              }}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              disabled={isUploading}
+              onClick={() => uploadInputRef.current?.click()}
+            >
+              {isUploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+              {isUploading ? "Uploading…" : "Add files"}
+            </Button>
+          </>
+        )}
+      </div>
+
+      {error && <p className="whitespace-pre-line text-xs text-red-400">{error}</p>}
+
+      {readOnly ? (
+        <p className="text-xs text-muted-foreground">Sign in to add files to this project.</p>
+      ) : isLoading ? (
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Loader2 className="h-3.5 w-3.5 animate-spin" />
+          Loading files…
+        </div>
+      ) : files.length ? (
+        <ul className="divide-y divide-border">
+          {files.map((file) => {
+            const isBusy = busyFileId === file.id;
+            return (
+              <li key={file.id} className="flex items-center gap-3 py-2">
+                <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm text-foreground">{file.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatBytes(file.sizeBytes)}
+                    {file.status === "processing" && " · indexing"}
+                    {file.status === "failed" && (
+                      <span className="text-red-400"> · failed{file.error ? `: ${file.error}` : ""}</span>
+                    )}
+                  </p>
+                </div>
+                {isBusy ? (
+                  <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                ) : (
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      title="Replace file"
+                      disabled={Boolean(busyFileId)}
+                      onClick={() => {
+                        replaceTargetRef.current = file;
+                        replaceInputRef.current?.click();
+                      }}
+                    >
+                      <RefreshCw className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      title="Delete file"
+                      disabled={Boolean(busyFileId)}
+                      onClick={() => void handleDelete(file)}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          No files yet. Add documents once and every chat here can search them.
+        </p>
+      )}
+    </div>
+  );
+}
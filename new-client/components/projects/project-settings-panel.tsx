@@ -0,0 +1,247 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Loader2, SlidersHorizontal } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { VALID_MODEL_FAMILIES, VALID_SPEED_MODES, describeModelFamily } from "@/lib/modelConfig";
+import type { ModelFamily, SpeedMode } from "@/lib/modelConfig";
+import type { ProjectSearchDefaults, ProjectSettings } from "@/lib/data/projects";
+
+interface ProjectSettingsPanelProps {
+  projectId: string;
+  readOnly?: boolean;
+}
+
+const SOURCE_LIMIT_OPTIONS: Array<ProjectSearchDefaults["sourceLimit"]> = ["auto", 5, 10, 20];
+const EXCERPT_MODE_OPTIONS: Array<ProjectSearchDefaults["excerptMode"]> = ["auto", "snippets", "balanced", "rich"];
+const MEMORY_TYPE_OPTIONS = ["preference", "identity", "constraint", "workflow", "project", "instruction", "other"];
+
+const selectClassName = "h-8 rounded-md border border-input bg-transparent px-2 text-xs text-foreground";
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+async function readError(res: Response, fallback: string) {
+  const data = await res.json().catch(() => null);
+  return typeof data?.error === "string" ? data.error : fallback;
+}
+
+function describeSettings(settings: ProjectSettings) {
+  const parts: string[] = [];
+  if (settings.instructions) parts.push("Custom instructions");
+  if (settings.defaultModelFamily !== "auto") parts.push(describeModelFamily(settings.defaultModelFamily));
+  if (settings.defaultSpeedMode !== "auto") parts.push(capitalize(settings.defaultSpeedMode));
+  if (settings.defaultSearchControls.sourceLimit !== "auto" || settings.defaultSearchControls.excerptMode !== "auto") {
+    parts.push("Search defaults");
+  }
+  if (settings.pinnedMemoryTypes.length) {
+    parts.push(`${settings.pinnedMemoryTypes.length} pinned memory type${settings.pinnedMemoryTypes.length === 1 ? "" : "s"}`);
+  }
+  return parts.length ? parts.join(" · ") : "Chats use your account defaults";
+}
+
+export function ProjectSettingsPanel({ projectId, readOnly = false }: ProjectSettingsPanelProps) {
+  const [settings, setSettings] = useState<ProjectSettings | null>(null);
+  const [draft, setDraft] = useState<ProjectSettings | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSettings = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/projects/${projectId}/settings`, { cache: "no-store" });
+      if (!res.ok) throw new Error(await readError(res, "Failed to load project settings"));
+      setSettings((await res.json()) as ProjectSettings);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load project settings");
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    if (readOnly) return;
+    void loadSettings();
+  }, [loadSettings, readOnly]);
+
+  const saveSettings = async () => {
+    if (!draft) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/projects/${projectId}/settings`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...draft, instructions: draft.instructions?.trim() || null }),
+      });
+      if (!res.ok) throw new Error(await readError(res, "Failed to update project settings"));
+      setSettings((await res.json()) as ProjectSettings);
+      setDraft(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update project settings");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleMemoryType = (type: string) => {
+    setDraft((prev) =>
+      prev
+        ? {
+            ...prev,
+            pinnedMemoryTypes: prev.pinnedMemoryTypes.includes(type)
+              ? prev.pinnedMemoryTypes.filter((entry) => entry !== type)
+              : [...prev.pinnedMemoryTypes, type],
+          }
+        : prev
+    );
+  };
+
+  if (readOnly) return null;
+
+  return (
+    <div className="space-y-3 rounded-xl border border-border bg-card/40 p-4">
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex items-start gap-2">
+          <SlidersHorizontal className="mt-0.5 h-4 w-4 text-muted-foreground" />
+          <div>
+            <p className="text-sm font-semibold text-foreground">Project instructions &amp; defaults</p>
+            <p className="text-xs text-muted-foreground">{settings ? describeSettings(settings) : "Loading…"}</p>
+          </div>
+        </div>
+        {!draft && settings && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              setDraft(settings);
+              setError(null);
+            }}
+          >
+            Edit
+          </Button>
+        )}
+      </div>
+
+      {draft && (
+        <form
+          className="space-y-3"
+          onSubmit={(event) => {
+            event.preventDefault();
+            void saveSettings();
+          }}
+        >
+          <div className="space-y-1">
+            <label className="text-xs font-medium text-muted-foreground" htmlFor="project-instructions">
+              Instructions for every chat in this project
+            </label>
+            <Textarea
+              id="project-instructions"
+              value={draft.instructions ?? ""}
+              onChange={(event) => setDraft({ ...draft, instructions: event.target.value })}
+              placeholder="e.g. Answer as a senior reviewer for this codebase. Prefer TypeScript examples."
+              className="min-h-24 text-sm"
+            />
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              className={selectClassName}
+              aria-label="Default model"
+              value={draft.defaultModelFamily}
+              onChange={(event) => setDraft({ ...draft, defaultModelFamily: event.target.value as ModelFamily })}
+            >
+              {VALID_MODEL_FAMILIES.map((family) => (
+                <option key={family} value={family}>
+                  {family === "auto" ? "Model: Auto" : describeModelFamily(family)}
+                </option>
+              ))}
+            </select>
+            <select
+              className={selectClassName}
+              aria-label="Default speed"
+              value={draft.defaultSpeedMode}
+              onChange={(event) => setDraft({ ...draft, defaultSpeedMode: event.target.value as SpeedMode })}
+            >
+              {VALID_SPEED_MODES.map((mode) => (
+                <option key={mode} value={mode}>
+                  {mode === "auto" ? "Speed: Auto" : capitalize(mode)}
+                </option>
+              ))}
+            </select>
+            <select
+              className={selectClassName}
+              aria-label="Search sources"
+              value={String(draft.defaultSearchControls.sourceLimit)}
+              onChange={(event) =>
+                setDraft({
+                  ...draft,
+                  defaultSearchControls: {
+                    ...draft.defaultSearchControls,
+                    sourceLimit: event.target.value === "auto" ? "auto" : Number(event.target.value),
+                  },
+                })
+              }
+            >
+              {SOURCE_LIMIT_OPTIONS.map((limit) => (
+                <option key={String(limit)} value={String(limit)}>
+                  {limit === "auto" ? "Sources: Auto" : `${limit} sources`}
+                </option>
+              ))}
+            </select>
+            <select
+              className={selectClassName}
+              aria-label="Search excerpts"
+              value={draft.defaultSearchControls.excerptMode}
+              onChange={(event) =>
+                setDraft({
+                  ...draft,
+                  defaultSearchControls: {
+                    ...draft.defaultSearchControls,
+                    excerptMode: event.target.value as ProjectSearchDefaults["excerptMode"],
+                  },
+                })
+              }
+            >
+              {EXCERPT_MODE_OPTIONS.map((mode) => (
+                <option key={mode} value={mode}>
+                  {mode === "auto" ? "Excerpts: Auto" : `${capitalize(mode)} excerpts`}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-1">
+            <p className="text-xs font-medium text-muted-foreground">Always load these memory types</p>
+            <div className="flex flex-wrap gap-1.5">
+              {MEMORY_TYPE_OPTIONS.map((type) => {
+                const active = draft.pinnedMemoryTypes.includes(type);
+                return (
+                  <button
+                    key={type}
+                    type="button"
+                    onClick={() => toggleMemoryType(type)}
+                    className={`rounded-full border px-2.5 py-0.5 text-xs transition-colors ${
+                      active
+                        ? "border-primary bg-primary/10 text-foreground"
+                        : "border-border text-muted-foreground hover:text-foreground"
+                    }`}
+                  >
+                    {capitalize(type)}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button type="submit" size="sm" disabled={isSaving}>
+              {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}
+            </Button>
+            <Button type="button" variant="ghost" size="sm" disabled={isSaving} onClick={() => setDraft(null)}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
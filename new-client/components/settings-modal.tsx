@@ -29,7 +29,10 @@ import { getUserPlanDetails, cancelSubscription } from '@/app/actions/plan-actio
 import { getUserTotalSpending, getMonthlySpending } from '@/app/actions/usage-actions'
 import { getUsageStatus } from '@/lib/usage-limits'
 import { PersonalizationPanel } from '@/components/personalization-panel'
+import { SharedLinksList } from '@/components/shared-links-list'
 import { useChatStore } from '@/components/chat/chat-provider'
+import { useProjects } from '@/components/projects/projects-provider'
+import type { ConversationImportResult } from '@/lib/types/conversation-bundle'
 
 interface SettingsModalProps {
   isOpen: boolean
@@ -49,6 +52,7 @@ export function SettingsModal({ isOpen, onClose, initialTab = 'preferences' }: S
   const [speedModeEnabled, setSpeedModeEnabled] = useState(false)
   const { fullName, email, isGuest, tokenAuth } = useUserIdentity()
   const { refreshChats } = useChatStore()
+  const { projects } = useProjects()
 
   const [planDetails, setPlanDetails] = useState<{
     planType: string
@@ -77,6 +81,11 @@ export function SettingsModal({ isOpen, onClose, initialTab = 'preferences' }: S
   const [cancelResultDialog, setCancelResultDialog] = useState<{ open: boolean; message: string; success: boolean }>({ open: false, message: "", success: false })
   const [deleteAllChatsConfirmOpen, setDeleteAllChatsConfirmOpen] = useState(false)
   const [deleteAllChatsProcessing, setDeleteAllChatsProcessing] = useState(false)
+  const [importProjectId, setImportProjectId] = useState('')
+  const [importRebuildTopics, setImportRebuildTopics] = useState(false)
+  const [importProcessing, setImportProcessing] = useState(false)
+  const [importStatus, setImportStatus] = useState<{ message: string; success: boolean } | null>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
   const contentScrollRef = useRef<HTMLDivElement | null>(null)
   const copyTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
   const [canScrollUp, setCanScrollUp] = useState(false)
@@ -323,6 +332,47 @@ export function SettingsModal({ isOpen, onClose, initialTab = 'preferences' }: S
     setCancelProcessing(false)
   }
 
+  const handleImportFile = async (file: File) => {
+    setImportProcessing(true)
+    setImportStatus(null)
+    try {
+      const form = new FormData()
+      form.append('file', file)
+      if (importProjectId) form.append('projectId', importProjectId)
+      if (importRebuildTopics) form.append('rebuildTopics', 'true')
+      const res = await fetch('/api/conversations/import', { method: 'POST', body: form })
+      const payload = await res.json().catch(() => null)
+      if (!res.ok) {
+        throw new Error(payload?.error || 'Import failed')
+      }
+      const result = payload as ConversationImportResult
+      const count = result.conversations.length
+      const pending = result.conversations.filter((conversation) => conversation.topicsPending).length
+      setImportStatus({
+        success: true,
+        message: `Imported ${count} chat${count === 1 ? '' : 's'}${
+          result.skipped ? ` (${result.skipped} empty skipped)` : ''
+        } from ${result.source === 'chatgpt' ? 'ChatGPT' : 'export bundle'}.${
+          pending ? ` Topics for ${pending} chat${pending === 1 ? ' are' : 's are'} being rebuilt in the background.` : ''
+        }`,
+      })
+      try {
+        await refreshChats()
+      } catch (refreshErr) {
+        console.error('Failed to refresh chats after import:', refreshErr)
+      }
+    } catch (error) {
+      console.error('Failed to import chats:', error)
+      setImportStatus({
+        success: false,
+        message: error instanceof Error ? error.message : 'Import failed. Please try again.',
+      })
+    } finally {
+      setImportProcessing(false)
+      if (importInputRef.current) importInputRef.current.value = ''
+    }
+  }
+
   const handleDeleteAllChats = async () => {
     setDeleteAllChatsConfirmOpen(false)
     setDeleteAllChatsProcessing(true)
@@ -538,6 +588,77 @@ export function SettingsModal({ isOpen, onClose, initialTab = 'preferences' }: S
               </div>
 
               <div className="space-y-6">
+                <div className="rounded-lg border border-border bg-muted/30 p-6">
+                  <div className="space-y-4">
+                    <div>
+                      <h3 className="text-lg font-semibold text-foreground">Import chats</h3>
+                      <p className="text-sm text-muted-foreground mt-1">
+                        Upload a JSON export from this app or a ChatGPT <code>conversations.json</code>. Chats without topics are re-indexed automatically.
+                      </p>
+                    </div>
+                    <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+                      <select
+                        className="h-10 rounded-md border border-input bg-transparent px-3 text-sm text-foreground"
+                        value={importProjectId}
+                        onChange={(event) => setImportProjectId(event.target.value)}
+                        disabled={importProcessing}
+                      >
+                        <option value="">No project</option>
+                        {projects.map((project) => (
+                          <option key={project.id} value={project.id}>
+                            {project.name}
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        ref={importInputRef}
+                        type="file"
+                        accept="application/json,.json"
+                        className="hidden"
+                        onChange={(event) => {
+                          const file = event.target.files?.[0]
+                          if (file) void handleImportFile(file)
+                        }}
+                      />
+                      <Button
+                        variant="outline"
+                        onClick={() => importInputRef.current?.click()}
+                        disabled={importProcessing}
+                        className="w-full sm:w-auto"
+                      >
+                        {importProcessing ? 'Importing...' : 'Choose file'}
+                      </Button>
+                    </div>
+                    <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <input
+                        type="checkbox"
+                        className="accent-primary"
+                        checked={importRebuildTopics}
+                        onChange={(event) => setImportRebuildTopics(event.target.checked)}
+                        disabled={importProcessing}
+                      />
+                      Rebuild topics instead of restoring the ones in the export
+                    </label>
+                    {importStatus && (
+                      <p className={`text-sm ${importStatus.success ? 'text-muted-foreground' : 'text-destructive'}`}>
+                        {importStatus.message}
+                      </p>
+                    )}
+                  </div>
+                </div>
+
+                <div className="rounded-lg border border-border bg-muted/30 p-6">
+                  <div className="space-y-4">
+                    <div>
+                      <h3 className="text-lg font-semibold text-foreground">Shared links</h3>
+                      <p className="text-sm text-muted-foreground mt-1">
+                        Read-only links you have created. Revoking a link makes it stop working immediately.
+                      </p>
+                    </div>
+                    <SharedLinksList showTitles />
+                  </div>
+                </div>
+
                 <div className="rounded-lg border border-border bg-muted/30 p-6">
                   <div className="space-y-4">
                     <div>
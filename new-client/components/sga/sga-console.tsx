@@ -35,13 +35,16 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { cn } from "@/lib/utils";
 import type { Json } from "@/lib/supabase/types";
 import type {
+  SgaApproval,
   SgaConnection,
   SgaConnectionPermission,
   SgaEvent,
   SgaInstance,
   SgaPolicy,
+  SgaSimulationReport,
   SgaStatus,
   SgaWorldState,
+  SgaWriteAction,
 } from "@/lib/types/sga";
 
 type SgaConsoleProps = {
@@ -230,6 +233,21 @@ function getRiskTone(level: "low" | "medium" | "high") {
   }
 }
 
+function getApprovalStatusTone(status: SgaApproval["status"]) {
+  switch (status) {
+    case "pending":
+      return "border-amber-400/40 bg-amber-500/10 text-amber-100";
+    case "executed":
+    case "approved":
+      return "border-emerald-400/40 bg-emerald-500/10 text-emerald-100";
+    case "failed":
+    case "rejected":
+      return "border-rose-400/40 bg-rose-500/10 text-rose-100";
+    default:
+      return "border-slate-400/40 bg-slate-500/10 text-slate-100";
+  }
+}
+
 function formatElapsed(seconds: number) {
   const hours = Math.floor(seconds / 3600);
   const minutes = Math.floor((seconds % 3600) / 60);
@@ -304,17 +322,21 @@ type ConnectionDraft = {
   allowList: string;
   denyList: string;
   readEndpoints: string;
+  writeActions: string;
   headers: string;
   authType: SgaConnection["authType"];
   authHeader: string;
   authValue: string;
   hasAuthValue: boolean;
+  secretHeaders: Record<string, string>;
+  secretHeaderValues: string;
 };
 
 const DEFAULT_POLICY: SgaPolicy = {
   allowedActions: ["delegate_lhsa", "delegate_ada", "schedule_recheck", "write_low_risk_config"],
   forbiddenActions: ["delete_production_data", "rotate_secrets", "deploy_to_prod_directly"],
   approvalRequiredActions: ["database_migrations", "billing_plan_changes", "security_policy_changes"],
+  approvalExpiryMinutes: 1440,
   riskBudget: { maxHighRiskActionsPerWeek: 0, maxMediumRiskPerDay: 3 },
   costBudget: { monthlyUsdCap: 500, dailyUsdCap: 25, perTaskUsdCap: 50 },
   timeBudget: { dailyActiveWindowMinutes: 480, maxCycleSeconds: 60 },
@@ -356,6 +378,53 @@ function parseHeadersInput(value: string) {
   return headers;
 }
 
+// One write action per line: "action: METHOD /path [low|medium|high] [on_failure|every_cycle] [$cost]".
+function formatWriteActionsInput(actions: SgaWriteAction[] | undefined) {
+  if (!actions) return "";
+  return actions
+    .map((action) =>
+      [
+        `${action.action}: ${action.method} ${action.endpoint}`,
+        action.riskLevel,
+        action.trigger,
+        action.estimatedCostUsd > 0 ? `$${action.estimatedCostUsd}` : "",
+      ]
+        .filter(Boolean)
+        .join(" ")
+    )
+    .join("\n");
+}
+
+function parseWriteActionsInput(value: string): SgaWriteAction[] {
+  const actions: SgaWriteAction[] = [];
+  value
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .forEach((line) => {
+      const [name, ...rest] = line.split(":");
+      const tokens = rest.join(":").trim().split(/\s+/).filter(Boolean);
+      const action = name?.trim();
+      if (!action || tokens.length === 0) return;
+      const method = tokens[0].toUpperCase();
+      const hasMethod = method === "POST" || method === "PUT" || method === "PATCH" || method === "DELETE";
+      const endpoint = hasMethod ? tokens[1] : tokens[0];
+      if (!endpoint) return;
+      const options = tokens.slice(hasMethod ? 2 : 1).map((token) => token.toLowerCase());
+      const risk = options.find((token) => token === "low" || token === "medium" || token === "high");
+      const cost = options.map((token) => Number(token.replace(/^\$/, ""))).find((num) => Number.isFinite(num));
+      actions.push({
+        action,
+        method: hasMethod ? (method as SgaWriteAction["method"]) : "POST",
+        endpoint,
+        riskLevel: (risk as SgaWriteAction["riskLevel"] | undefined) ?? "low",
+        trigger: options.includes("every_cycle") ? "every_cycle" : "on_failure",
+        estimatedCostUsd: cost !== undefined && cost > 0 ? cost : 0,
+      });
+    });
+  return actions;
+}
+
 function normalizeBaseUrl(value: string) {
   const trimmed = value.trim();
   if (!trimmed) return "";
@@ -394,6 +463,7 @@ function SettingsSheet({
   const [allowedActions, setAllowedActions] = useState("");
   const [forbiddenActions, setForbiddenActions] = useState("");
   const [approvalActions, setApprovalActions] = useState("");
+  const [approvalExpiryMinutes, setApprovalExpiryMinutes] = useState<string>("");
   const [savingBudgets, setSavingBudgets] = useState(false);
   const [savingPolicy, setSavingPolicy] = useState(false);
   const [savingConnections, setSavingConnections] = useState(false);
@@ -421,6 +491,7 @@ function SettingsSheet({
     setAllowedActions(basePolicy.allowedActions.join(", "));
     setForbiddenActions(basePolicy.forbiddenActions.join(", "));
     setApprovalActions(basePolicy.approvalRequiredActions.join(", "));
+    setApprovalExpiryMinutes(String(basePolicy.approvalExpiryMinutes));
     setConnectionsDraft(
       (connections ?? []).map((conn) => ({
         id: conn.id,
@@ -430,11 +501,14 @@ function SettingsSheet({
         allowList: conn.allowList.join(", "),
         denyList: conn.denyList.join(", "),
         readEndpoints: conn.readEndpoints?.join(", ") ?? "",
+        writeActions: formatWriteActionsInput(conn.writeActions),
         headers: formatHeadersInput(conn.headers),
         authType: conn.authType ?? "none",
         authHeader: conn.authHeader ?? "",
         authValue: "",
         hasAuthValue: !!conn.hasAuthValue,
+        secretHeaders: conn.secretHeaders ?? {},
+        secretHeaderValues: "",
       }))
     );
     setSaveError(null);
@@ -504,6 +578,7 @@ function SettingsSheet({
       allowedActions: parseListInput(allowedActions),
       forbiddenActions: parseListInput(forbiddenActions),
       approvalRequiredActions: parseListInput(approvalActions),
+      approvalExpiryMinutes: Number(approvalExpiryMinutes) || DEFAULT_POLICY.approvalExpiryMinutes,
     };
     // Apply locally so runtime cadence and guards use the updated policy even if persistence fails.
     onPolicySaved(nextPolicy);
@@ -542,10 +617,13 @@ function SettingsSheet({
         allowList: parseListInput(conn.allowList),
         denyList: parseListInput(conn.denyList),
         readEndpoints: parseListInput(conn.readEndpoints),
+        writeActions: parseWriteActionsInput(conn.writeActions),
         headers: parseHeadersInput(conn.headers),
         authType: conn.authType,
         authHeader: conn.authHeader.trim() || null,
         authValue: nextAuthValue.length ? nextAuthValue : undefined,
+        secretHeaders: conn.secretHeaders,
+        secretHeaderValues: parseHeadersInput(conn.secretHeaderValues),
       };
     });
     try {
@@ -563,6 +641,13 @@ function SettingsSheet({
           ...conn,
           hasAuthValue: conn.hasAuthValue || conn.authValue.trim().length > 0,
           authValue: "",
+          secretHeaders: {
+            ...conn.secretHeaders,
+            ...Object.fromEntries(
+              Object.keys(parseHeadersInput(conn.secretHeaderValues)).map((name) => [name, conn.secretHeaders[name] ?? ""])
+            ),
+          },
+          secretHeaderValues: "",
         }))
       );
     } catch (err) {
@@ -583,11 +668,14 @@ function SettingsSheet({
         allowList: "",
         denyList: "",
         readEndpoints: "",
+        writeActions: "",
         headers: "",
         authType: "none",
         authHeader: "",
         authValue: "",
         hasAuthValue: false,
+        secretHeaders: {},
+        secretHeaderValues: "",
       },
     ]);
   };
@@ -811,6 +899,16 @@ function SettingsSheet({
                 placeholder="database_migrations"
               />
             </div>
+            <div className="space-y-1">
+              <label className="text-xs text-muted-foreground">Approval expiry (minutes)</label>
+              <Input
+                value={approvalExpiryMinutes}
+                onChange={(event) => setApprovalExpiryMinutes(event.target.value)}
+                type="number"
+                min="1"
+                className="bg-white/5 border-white/10 text-sm"
+              />
+            </div>
             <Button variant="outline" size="sm" onClick={handleSavePolicy} disabled={savingPolicy}>
               {savingPolicy ? "Saving..." : "Save policy"}
             </Button>
@@ -921,6 +1019,16 @@ function SettingsSheet({
                           placeholder="/metrics/summary, /events"
                         />
                       </div>
+                      <div className="space-y-1">
+                        <label className="text-xs text-muted-foreground">Write actions (one per line)</label>
+                        <Textarea
+                          value={conn.writeActions}
+                          onChange={(event) => updateConnection(conn.id, { writeActions: event.target.value })}
+                          className="bg-white/5 border-white/10 text-sm"
+                          placeholder="restart_worker: POST /workers/restart medium on_failure"
+                          disabled={conn.permission === "read"}
+                        />
+                      </div>
                       <div className="space-y-1">
                         <label className="text-xs text-muted-foreground">Headers (key: value)</label>
                         <Textarea
@@ -931,6 +1039,44 @@ function SettingsSheet({
                         />
                       </div>
                     </div>
+                    <div className="space-y-1">
+                      <label className="text-xs text-muted-foreground">Secret headers (encrypted, key: value)</label>
+                      <Textarea
+                        value={conn.secretHeaderValues}
+                        onChange={(event) => updateConnection(conn.id, { secretHeaderValues: event.target.value })}
+                        className="bg-white/5 border-white/10 text-sm"
+                        placeholder={
+                          Object.keys(conn.secretHeaders).length
+                            ? "Enter a stored header again to rotate its value"
+                            : "x-api-key: value"
+                        }
+                      />
+                      {Object.keys(conn.secretHeaders).length ? (
+                        <div className="flex flex-wrap gap-2">
+                          {Object.keys(conn.secretHeaders).map((name) => (
+                            <Badge
+                              key={name}
+                              variant="outline"
+                              className="gap-1 border border-white/20 px-2 py-0.5 text-xs text-white/80"
+                            >
+                              {name}: stored
+                              <button
+                                type="button"
+                                className="text-white/50 hover:text-white"
+                                aria-label={`Remove secret header ${name}`}
+                                onClick={() => {
+                                  const nextSecretHeaders = { ...conn.secretHeaders };
+                                  delete nextSecretHeaders[name];
+                                  updateConnection(conn.id, { secretHeaders: nextSecretHeaders });
+                                }}
+                              >
+                                x
+                              </button>
+                            </Badge>
+                          ))}
+                        </div>
+                      ) : null}
+                    </div>
                     <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
                       <div className="space-y-1">
                         <label className="text-xs text-muted-foreground">Allow list</label>
@@ -1002,6 +1148,16 @@ export function SgaConsole({ instance, events, worldState }: SgaConsoleProps) {
   const [nextRunLabel, setNextRunLabel] = useState<string>("--");
   const [runPhase, setRunPhase] = useState<RunPhase>("waiting");
   const [pausedRemainingMsState, setPausedRemainingMsState] = useState<number | null>(null);
+  const [approvals, setApprovals] = useState<SgaApproval[]>([]);
+  const [approvalNotes, setApprovalNotes] = useState<Record<string, string>>({});
+  const [decidingApprovalId, setDecidingApprovalId] = useState<string | null>(null);
+  const [approvalError, setApprovalError] = useState<string | null>(null);
+  const [simulation, setSimulation] = useState<SgaSimulationReport | null>(null);
+  const [simulationLevel, setSimulationLevel] = useState<SgaInstance["authorityLevel"]>(
+    Math.min(4, instance.authorityLevel + 1) as SgaInstance["authorityLevel"]
+  );
+  const [isSimulating, setIsSimulating] = useState(false);
+  const [simulationError, setSimulationError] = useState<string | null>(null);
 
   const replyTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const timelineEndRef = useRef<HTMLDivElement | null>(null);
@@ -1176,6 +1332,98 @@ export function SgaConsole({ instance, events, worldState }: SgaConsoleProps) {
     }
   }, [instance.id]);
 
+  const refreshApprovals = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/sga/instances/${instance.id}/approvals`);
+      const payload = await res.json().catch(() => null);
+      if (res.ok && Array.isArray(payload?.approvals)) {
+        setApprovals(payload.approvals as SgaApproval[]);
+      }
+    } catch {
+      // Keep the last known queue; the next run or decision refreshes it.
+    }
+  }, [instance.id]);
+
+  useEffect(() => {
+    void refreshApprovals();
+  }, [refreshApprovals]);
+
+  const pendingApprovals = useMemo(
+    () => approvals.filter((approval) => approval.status === "pending"),
+    [approvals]
+  );
+  const decidedApprovals = useMemo(
+    () => approvals.filter((approval) => approval.status !== "pending").slice(0, 10),
+    [approvals]
+  );
+
+  const handleApprovalDecision = async (approval: SgaApproval, decision: "approve" | "reject") => {
+    setDecidingApprovalId(approval.id);
+    setApprovalError(null);
+    try {
+      const res = await fetch(`/api/sga/instances/${instance.id}/approvals/${approval.id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ decision, note: approvalNotes[approval.id] ?? "" }),
+      });
+      const payload = await res.json().catch(() => null);
+      if (!res.ok) {
+        throw new Error(payload?.error || "Failed to record decision");
+      }
+      if (payload?.worldState) {
+        setWorldStateState(payload.worldState as SgaWorldState);
+      }
+      if (Array.isArray(payload?.events)) {
+        setEventsState((prev) => mergeEvents(prev, payload.events as SgaEvent[]));
+      }
+      setApprovalNotes((prev) => {
+        const next = { ...prev };
+        delete next[approval.id];
+        return next;
+      });
+    } catch (err) {
+      setApprovalError(err instanceof Error ? err.message : "Failed to record decision");
+    } finally {
+      setDecidingApprovalId(null);
+      await refreshApprovals();
+    }
+  };
+
+  useEffect(() => {
+    const loadLatestSimulation = async () => {
+      try {
+        const res = await fetch(`/api/sga/instances/${instance.id}/simulations`);
+        const payload = await res.json().catch(() => null);
+        if (res.ok && Array.isArray(payload?.simulations) && payload.simulations.length > 0) {
+          setSimulation(payload.simulations[0] as SgaSimulationReport);
+        }
+      } catch {
+        // No previous simulation to show.
+      }
+    };
+    void loadLatestSimulation();
+  }, [instance.id]);
+
+  const handleRunSimulation = async () => {
+    setIsSimulating(true);
+    setSimulationError(null);
+    try {
+      const res = await fetch(`/api/sga/instances/${instance.id}/run`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ mode: "simulation", authorityLevel: simulationLevel }),
+      });
+      const payload = await res.json().catch(() => null);
+      if (!res.ok || !payload?.simulation) {
+        throw new Error(payload?.error || "Failed to run simulation");
+      }
+      setSimulation(payload.simulation as SgaSimulationReport);
+    } catch (err) {
+      setSimulationError(err instanceof Error ? err.message : "Failed to run simulation");
+    } finally {
+      setIsSimulating(false);
+    }
+  };
 
   const highestRisk = useMemo(() => {
     if (!worldStateState.riskRegister.length) return null;
@@ -1294,6 +1542,7 @@ export function SgaConsole({ instance, events, worldState }: SgaConsoleProps) {
         }
         setOpenSections((prev) => (prev.timeline ? prev : { ...prev, timeline: true }));
         await refreshEvents();
+        await refreshApprovals();
         const now = Date.now();
         lastRunAtRef.current = now;
         setLastRunAtState(now);
@@ -1945,11 +2194,174 @@ export function SgaConsole({ instance, events, worldState }: SgaConsoleProps) {
 
               {activeTab === "actions" ? (
                 <section className="space-y-4">
-                  <div className="rounded-2xl border border-border/70 bg-white/5 p-5">
-                    <p className="text-xs uppercase tracking-[0.3em] text-white/60">Approvals & decisions</p>
-                    <p className="mt-2 text-sm text-muted-foreground">
-                      No approvals requested yet. This panel will list decisions that need your review.
-                    </p>
+                  <div className="rounded-2xl border border-border/70 bg-white/5 p-5 space-y-4">
+                    <div className="flex items-center justify-between">
+                      <p className="text-xs uppercase tracking-[0.3em] text-white/60">Approvals & decisions</p>
+                      {pendingApprovals.length ? (
+                        <Badge variant="outline" className={cn("border px-2 py-0.5 text-xs", getApprovalStatusTone("pending"))}>
+                          {pendingApprovals.length} pending
+                        </Badge>
+                      ) : null}
+                    </div>
+                    {approvalError ? <p className="text-xs text-rose-300">{approvalError}</p> : null}
+                    {pendingApprovals.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">
+                        No approvals waiting. Actions listed as approval required will pause here for your review.
+                      </p>
+                    ) : (
+                      <div className="space-y-3">
+                        {pendingApprovals.map((approval) => (
+                          <div key={approval.id} className="space-y-3 rounded-xl border border-white/10 bg-white/5 p-3">
+                            <div className="flex flex-wrap items-center justify-between gap-2">
+                              <p className="text-sm font-semibold text-white">
+                                {approval.action} via {approval.connectionName}
+                              </p>
+                              <Badge variant="outline" className={cn("border px-2 py-0.5 text-xs", getRiskTone(approval.riskLevel))}>
+                                {approval.riskLevel} risk
+                              </Badge>
+                            </div>
+                            <p className="text-xs text-muted-foreground">{approval.rationale}</p>
+                            <div className="rounded-lg border border-white/10 bg-black/30 p-2 font-mono text-[11px] text-white/80">
+                              <p className="break-all">
+                                {approval.request.method} {approval.request.url}
+                              </p>
+                              <pre className="mt-1 whitespace-pre-wrap break-all text-white/60">
+                                {JSON.stringify(approval.request.body, null, 2)}
+                              </pre>
+                            </div>
+                            <p className="text-xs text-muted-foreground">
+                              Est. cost {formatCurrency(approval.estimatedCostUsd)} - Expires {formatDate(approval.expiresAt)}{" "}
+                              {formatTime(approval.expiresAt)}
+                            </p>
+                            <Input
+                              value={approvalNotes[approval.id] ?? ""}
+                              onChange={(event) =>
+                                setApprovalNotes((prev) => ({ ...prev, [approval.id]: event.target.value }))
+                              }
+                              placeholder="Note for the decision log (optional)"
+                              className="bg-white/5 border-white/10 text-sm"
+                            />
+                            <div className="flex gap-2">
+                              <Button
+                                size="sm"
+                                onClick={() => handleApprovalDecision(approval, "approve")}
+                                disabled={decidingApprovalId !== null}
+                              >
+                                {decidingApprovalId === approval.id ? "Working..." : "Approve"}
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleApprovalDecision(approval, "reject")}
+                                disabled={decidingApprovalId !== null}
+                              >
+                                Reject
+                              </Button>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    {decidedApprovals.length ? (
+                      <div className="space-y-2">
+                        <p className="text-[11px] uppercase tracking-[0.2em] text-white/50">Recent decisions</p>
+                        {decidedApprovals.map((approval) => (
+                          <div
+                            key={approval.id}
+                            className="flex flex-wrap items-center justify-between gap-2 rounded-xl border border-white/10 bg-white/5 p-3"
+                          >
+                            <div className="space-y-1">
+                              <p className="text-sm text-white">
+                                {approval.action} via {approval.connectionName}
+                              </p>
+                              <p className="text-xs text-muted-foreground">
+                                {approval.decidedAt ? `${formatDate(approval.decidedAt)} ${formatTime(approval.decidedAt)}` : "n/a"}
+                                {approval.decisionNote ? ` - ${approval.decisionNote}` : ""}
+                                {approval.result && !approval.result.ok ? ` - ${approval.result.preview}` : ""}
+                              </p>
+                            </div>
+                            <Badge
+                              variant="outline"
+                              className={cn("border px-2 py-0.5 text-xs", getApprovalStatusTone(approval.status))}
+                            >
+                              {approval.status}
+                            </Badge>
+                          </div>
+                        ))}
+                      </div>
+                    ) : null}
+                  </div>
+                  <div className="rounded-2xl border border-border/70 bg-white/5 p-5 space-y-4">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <div>
+                        <p className="text-xs uppercase tracking-[0.3em] text-white/60">Simulation</p>
+                        <p className="mt-1 text-xs text-muted-foreground">
+                          Dry-run a cycle on recorded responses. Writes are captured, never sent.
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Select
+                          value={String(simulationLevel)}
+                          onValueChange={(value) => setSimulationLevel(Number(value) as SgaInstance["authorityLevel"])}
+                        >
+                          <SelectTrigger className="w-[120px] bg-white/5 border-white/10 text-sm">
+                            <SelectValue placeholder="Authority" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {[0, 1, 2, 3, 4].map((level) => (
+                              <SelectItem key={level} value={String(level)}>
+                                AL{level}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button variant="outline" size="sm" onClick={handleRunSimulation} disabled={isSimulating}>
+                          {isSimulating ? "Simulating..." : "Run simulation"}
+                        </Button>
+                      </div>
+                    </div>
+                    {simulationError ? <p className="text-xs text-rose-300">{simulationError}</p> : null}
+                    {simulation ? (
+                      <div className="space-y-3">
+                        <p className="text-sm text-white">{simulation.summary}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatDate(simulation.createdAt)} {formatTime(simulation.createdAt)} - Projected today{" "}
+                          {formatCurrency(simulation.spend.projectedTodayUsd)} of {formatCurrency(simulation.spend.dailyCapUsd)}, month{" "}
+                          {formatCurrency(simulation.spend.projectedMonthUsd)} of {formatCurrency(simulation.spend.monthlyCapUsd)}
+                        </p>
+                        {simulation.actions.length === 0 ? (
+                          <p className="text-sm text-muted-foreground">No write actions were considered.</p>
+                        ) : (
+                          <div className="space-y-2">
+                            {simulation.actions.map((action, index) => (
+                              <div
+                                key={`${action.connection}-${action.action}-${index}`}
+                                className="flex flex-wrap items-start justify-between gap-2 rounded-xl border border-white/10 bg-white/5 p-3"
+                              >
+                                <div className="space-y-1">
+                                  <p className="text-sm text-white">
+                                    {action.action} via {action.connection}
+                                  </p>
+                                  <p className="text-xs text-muted-foreground">
+                                    {action.method} {action.endpoint} - {action.reason}
+                                  </p>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                  <Badge variant="outline" className={cn("border px-2 py-0.5 text-xs", getRiskTone(action.riskLevel))}>
+                                    {action.riskLevel}
+                                  </Badge>
+                                  <Badge variant="outline" className="border border-white/20 px-2 py-0.5 text-xs text-white/80">
+                                    {action.captured ? "captured" : action.verdict.replace("_", " ")}
+                                  </Badge>
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">No simulations run yet.</p>
+                    )}
                   </div>
                   <CollapsibleCard
                     title="Delegations & active work"
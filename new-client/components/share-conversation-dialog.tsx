@@ -0,0 +1,128 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Check, Copy, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Dialog } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { SharedLinksList, buildShareUrl } from '@/components/shared-links-list'
+import { SHARE_EXPIRY_OPTIONS_DAYS, type ShareExpiryDays } from '@/lib/types/conversation-share'
+
+interface ShareConversationDialogProps {
+  open: boolean
+  conversationId: string | null
+  title?: string
+  onClose: () => void
+}
+
+const expiryLabel = (days: ShareExpiryDays) => (days === null ? 'Never expires' : days === 1 ? '1 day' : `${days} days`)
+
+export function ShareConversationDialog({ open, conversationId, title, onClose }: ShareConversationDialogProps) {
+  const [expiresInDays, setExpiresInDays] = useState<ShareExpiryDays>(null)
+  const [createdUrl, setCreatedUrl] = useState<string | null>(null)
+  const [isCreating, setIsCreating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+  const [refreshKey, setRefreshKey] = useState(0)
+
+  useEffect(() => {
+    if (!open) return
+    setCreatedUrl(null)
+    setError(null)
+    setCopied(false)
+    setExpiresInDays(null)
+  }, [open, conversationId])
+
+  const handleCreate = async () => {
+    if (!conversationId) return
+    setIsCreating(true)
+    setError(null)
+    try {
+      const res = await fetch('/api/conversations/shares', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ conversationId, expiresInDays }),
+      })
+      const data = await res.json().catch(() => null)
+      if (!res.ok || !data?.share) throw new Error(data?.error || 'Failed to create link')
+      const url = buildShareUrl(data.share.token)
+      setCreatedUrl(url)
+      setRefreshKey((key) => key + 1)
+      try {
+        await navigator.clipboard.writeText(url)
+        setCopied(true)
+      } catch {}
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create link')
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  return (
+    <Dialog open={open && Boolean(conversationId)} onClose={onClose}>
+      <div className="space-y-4">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <p className="text-lg font-semibold text-foreground">Share chat</p>
+            <p className="text-sm text-muted-foreground">
+              Anyone with the link can view a read-only snapshot of {title ? `"${title}"` : 'this chat'} as it is now.
+              Attachments and memories are never included.
+            </p>
+          </div>
+          <Button variant="ghost" size="icon" onClick={onClose} aria-label="Close">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+          <select
+            className="h-9 rounded-md border border-input bg-transparent px-3 text-sm text-foreground"
+            value={expiresInDays === null ? '' : String(expiresInDays)}
+            onChange={(event) =>
+              setExpiresInDays(event.target.value ? (Number(event.target.value) as ShareExpiryDays) : null)
+            }
+            disabled={isCreating}
+          >
+            {SHARE_EXPIRY_OPTIONS_DAYS.map((days) => (
+              <option key={days ?? 'never'} value={days === null ? '' : String(days)}>
+                {expiryLabel(days)}
+              </option>
+            ))}
+          </select>
+          <Button size="sm" onClick={() => void handleCreate()} disabled={isCreating}>
+            {isCreating ? 'Creating...' : 'Create link'}
+          </Button>
+        </div>
+
+        {createdUrl && (
+          <div className="flex items-center gap-2">
+            <Input readOnly value={createdUrl} onFocus={(event) => event.target.select()} className="h-9 text-sm" />
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-9 w-9 shrink-0"
+              title="Copy link"
+              onClick={async () => {
+                try {
+                  await navigator.clipboard.writeText(createdUrl)
+                  setCopied(true)
+                } catch {}
+              }}
+            >
+              {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+            </Button>
+          </div>
+        )}
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {conversationId && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-foreground">Links for this chat</p>
+            <SharedLinksList conversationId={conversationId} refreshKey={refreshKey} />
+          </div>
+        )}
+      </div>
+    </Dialog>
+  )
+}
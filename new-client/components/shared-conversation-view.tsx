@@ -0,0 +1,72 @@
+'use client'
+
+import { MarkdownContent } from '@/components/markdown-content'
+import type { ConversationShareSnapshot } from '@/lib/types/conversation-share'
+
+interface SharedConversationViewProps {
+  snapshot: ConversationShareSnapshot
+  expiresAt: string | null
+}
+
+const formatDate = (value: string | null | undefined) => {
+  if (!value) return ''
+  const parsed = new Date(value)
+  if (Number.isNaN(parsed.getTime())) return ''
+  return new Intl.DateTimeFormat(undefined, { dateStyle: 'medium' }).format(parsed)
+}
+
+const citationLabel = (citation: { url: string; title?: string | null; domain?: string | null }) => {
+  if (citation.title?.trim()) return citation.title.trim()
+  if (citation.domain?.trim()) return citation.domain.trim()
+  try {
+    return new URL(citation.url).hostname.replace(/^www\./i, '')
+  } catch {
+    return citation.url
+  }
+}
+
+export function SharedConversationView({ snapshot, expiresAt }: SharedConversationViewProps) {
+  return (
+    <div className="mx-auto w-full max-w-3xl px-4 py-8 sm:px-6 sm:py-12">
+      <header className="space-y-1 border-b border-border pb-4">
+        <h1 className="text-2xl font-semibold text-foreground">{snapshot.title}</h1>
+        <p className="text-xs text-muted-foreground">
+          Shared {formatDate(snapshot.created_at)} · read-only snapshot
+          {expiresAt ? ` · link expires ${formatDate(expiresAt)}` : ''}
+        </p>
+      </header>
+
+      <div className="space-y-6 py-6">
+        {snapshot.messages.map((message) =>
+          message.role === 'user' ? (
+            <div key={message.id} className="flex justify-end">
+              <div className="max-w-[85%] whitespace-pre-wrap break-words rounded-2xl bg-muted px-4 py-2.5 text-sm text-foreground">
+                {message.content}
+              </div>
+            </div>
+          ) : (
+            <div key={message.id} className="min-w-0 space-y-3">
+              <MarkdownContent content={message.content} citations={message.citations} />
+              {message.citations?.length ? (
+                <div className="flex flex-wrap gap-2">
+                  {message.citations.map((citation, idx) => (
+                    <a
+                      key={`${message.id}-citation-${idx}`}
+                      href={citation.url}
+                      target="_blank"
+                      rel="noopener noreferrer nofollow"
+                      className="max-w-[240px] truncate rounded-full border border-border px-3 py-1 text-xs text-muted-foreground transition-colors hover:bg-accent hover:text-foreground"
+                      title={citation.url}
+                    >
+                      {citationLabel(citation)}
+                    </a>
+                  ))}
+                </div>
+              ) : null}
+            </div>
+          )
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,141 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Check, Copy, Link2Off, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import type { ConversationShareSummary } from '@/lib/types/conversation-share'
+
+interface SharedLinksListProps {
+  // Limit to one chat's links; omit to list every link the user has created.
+  conversationId?: string
+  // Bump to reload after a link is created elsewhere.
+  refreshKey?: number
+  showTitles?: boolean
+}
+
+export const buildShareUrl = (token: string) =>
+  typeof window === 'undefined' ? `/share/${token}` : `${window.location.origin}/share/${token}`
+
+const formatDate = (value: string | null) => {
+  if (!value) return ''
+  const parsed = new Date(value)
+  if (Number.isNaN(parsed.getTime())) return ''
+  return new Intl.DateTimeFormat(undefined, { month: 'short', day: 'numeric', year: 'numeric' }).format(parsed)
+}
+
+const describeShare = (share: ConversationShareSummary) => {
+  if (share.status === 'revoked') return `Revoked ${formatDate(share.revokedAt)}`
+  if (share.status === 'expired') return `Expired ${formatDate(share.expiresAt)}`
+  const expiry = share.expiresAt ? `expires ${formatDate(share.expiresAt)}` : 'never expires'
+  const views = share.viewCount === 1 ? '1 view' : `${share.viewCount} views`
+  return `Created ${formatDate(share.createdAt)} · ${expiry} · ${views}`
+}
+
+export function SharedLinksList({ conversationId, refreshKey = 0, showTitles = false }: SharedLinksListProps) {
+  const [shares, setShares] = useState<ConversationShareSummary[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [revokingId, setRevokingId] = useState<string | null>(null)
+  const [copiedId, setCopiedId] = useState<string | null>(null)
+
+  const loadShares = useCallback(async () => {
+    try {
+      const query = conversationId ? `?conversationId=${encodeURIComponent(conversationId)}` : ''
+      const res = await fetch(`/api/conversations/shares${query}`, { cache: 'no-store' })
+      const data = await res.json().catch(() => null)
+      if (!res.ok) throw new Error(data?.error || 'Failed to load shared links')
+      setShares(Array.isArray(data?.shares) ? data.shares : [])
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load shared links')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [conversationId])
+
+  useEffect(() => {
+    void loadShares()
+  }, [loadShares, refreshKey])
+
+  const handleCopy = async (share: ConversationShareSummary) => {
+    try {
+      await navigator.clipboard.writeText(buildShareUrl(share.token))
+      setCopiedId(share.id)
+      setTimeout(() => setCopiedId((current) => (current === share.id ? null : current)), 1500)
+    } catch {
+      window.prompt('Copy this link', buildShareUrl(share.token))
+    }
+  }
+
+  const handleRevoke = async (share: ConversationShareSummary) => {
+    setRevokingId(share.id)
+    try {
+      const res = await fetch(`/api/conversations/shares/${share.id}`, { method: 'DELETE' })
+      const data = await res.json().catch(() => null)
+      if (!res.ok) throw new Error(data?.error || 'Failed to revoke link')
+      setShares((prev) => prev.map((item) => (item.id === share.id ? data.share : item)))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke link')
+    } finally {
+      setRevokingId(null)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading shared links...
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      {shares.length ? (
+        <ul className="divide-y divide-border rounded-lg border border-border">
+          {shares.map((share) => (
+            <li key={share.id} className="flex items-center gap-3 px-3 py-2">
+              <div className="min-w-0 flex-1">
+                {showTitles && <p className="truncate text-sm font-medium text-foreground">{share.title}</p>}
+                <p className={`truncate text-xs ${share.status === 'active' ? 'text-muted-foreground' : 'text-muted-foreground/60'}`}>
+                  {describeShare(share)}
+                </p>
+              </div>
+              {share.status === 'active' && (
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    title="Copy link"
+                    onClick={() => void handleCopy(share)}
+                  >
+                    {copiedId === share.id ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    title="Revoke link"
+                    disabled={revokingId === share.id}
+                    onClick={() => void handleRevoke(share)}
+                  >
+                    {revokingId === share.id ? (
+                      <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                    ) : (
+                      <Link2Off className="h-3.5 w-3.5" />
+                    )}
+                  </Button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-muted-foreground">No shared links yet.</p>
+      )}
+    </div>
+  )
+}
@@ -61,6 +61,8 @@ export const AGENT_CATALOG: AgentCatalogItem[] = [
     title: "Automation Builder",
     description:
       "Design and deploy intelligent workflows. Connect APIs, automate tasks, orchestrate complex processes, and streamline operations effortlessly.",
+    href: "/agents/automation-builder",
+    gradient: "bg-gradient-to-br from-violet-500 via-fuchsia-500 to-pink-500",
   },
   {
     id: "data-interpreter",
@@ -69,6 +71,8 @@ export const AGENT_CATALOG: AgentCatalogItem[] = [
     title: "Data Interpreter",
     description:
       "Transform raw data into actionable insights. Analyze datasets, create visualizations, run queries, and extract meaningful patterns from your data.",
+    href: "/agents/data-interpreter",
+    gradient: "bg-gradient-to-br from-teal-500 via-sky-500 to-indigo-600",
   },
 ];
 
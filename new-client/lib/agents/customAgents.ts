@@ -0,0 +1,78 @@
+import type { LucideIcon } from "lucide-react";
+import {
+  BookOpen,
+  Bot,
+  Brain,
+  Briefcase,
+  Code2,
+  FlaskConical,
+  GraduationCap,
+  Lightbulb,
+  MessageSquare,
+  PenLine,
+  Scale,
+  Sparkles,
+} from "lucide-react";
+import type { ModelFamily } from "@/lib/modelConfig";
+
+// User-defined agents travel as agentId "custom:<uuid>" so they can't collide with catalog slugs.
+export const CUSTOM_AGENT_ID_PREFIX = "custom:";
+
+export const CUSTOM_AGENT_TOOLS = ["web_search", "file_search", "code_interpreter", "image_generation"] as const;
+export type CustomAgentTool = (typeof CUSTOM_AGENT_TOOLS)[number];
+
+export const CUSTOM_AGENT_TOOL_LABELS: Record<CustomAgentTool, string> = {
+  web_search: "Web search",
+  file_search: "File search",
+  code_interpreter: "Code interpreter",
+  image_generation: "Image generation",
+};
+
+// Icons are stored by key; unknown keys render as the default bot.
+export const CUSTOM_AGENT_ICONS: Record<string, LucideIcon> = {
+  bot: Bot,
+  sparkles: Sparkles,
+  brain: Brain,
+  code: Code2,
+  pen: PenLine,
+  book: BookOpen,
+  briefcase: Briefcase,
+  lab: FlaskConical,
+  school: GraduationCap,
+  idea: Lightbulb,
+  legal: Scale,
+  chat: MessageSquare,
+};
+
+export type CustomAgent = {
+  id: string;
+  name: string;
+  description: string | null;
+  icon: string;
+  systemPrompt: string;
+  allowedTools: CustomAgentTool[];
+  defaultModelFamily: ModelFamily;
+  fileCount: number;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export function toCustomAgentId(id: string) {
+  return `${CUSTOM_AGENT_ID_PREFIX}${id}`;
+}
+
+/** The agent row id behind a "custom:<uuid>" agentId, or null for catalog agents. */
+export function parseCustomAgentId(agentId: string | null | undefined) {
+  if (!agentId || !agentId.startsWith(CUSTOM_AGENT_ID_PREFIX)) return null;
+  const id = agentId.slice(CUSTOM_AGENT_ID_PREFIX.length);
+  return id || null;
+}
+
+export function getCustomAgentIcon(icon: string | null | undefined): LucideIcon {
+  return (icon && CUSTOM_AGENT_ICONS[icon]) || Bot;
+}
+
+export function normalizeCustomAgentTools(value: unknown): CustomAgentTool[] {
+  if (!Array.isArray(value)) return [];
+  return CUSTOM_AGENT_TOOLS.filter((tool) => value.includes(tool));
+}
@@ -1,11 +1,14 @@
 import type { LucideIcon } from "lucide-react";
 import { AVAILABLE_AGENTS } from "@/lib/agents/agentCatalog";
+import { getCustomAgentIcon, toCustomAgentId, type CustomAgent } from "@/lib/agents/customAgents";
 
 export type FeaturedAgent = {
   id: string;
   name: string;
   description: string;
   icon: LucideIcon;
+  // Set for user-defined agents, whose id is "custom:<uuid>".
+  custom?: boolean;
 };
 
 // Featured agents = the ones that actually exist under `/agents` (have an href).
@@ -17,7 +20,23 @@ export const FEATURED_AGENTS: FeaturedAgent[] = AVAILABLE_AGENTS.slice(0, 4).map
   icon: agent.icon,
 }));
 
-export function getFeaturedAgentById(id: string | null | undefined): FeaturedAgent | null {
+export function toFeaturedAgent(agent: CustomAgent): FeaturedAgent {
+  return {
+    id: toCustomAgentId(agent.id),
+    name: agent.name,
+    description: agent.description || "Custom agent",
+    icon: getCustomAgentIcon(agent.icon),
+    custom: true,
+  };
+}
+
+export function getFeaturedAgentById(
+  id: string | null | undefined,
+  customAgents: CustomAgent[] = []
+): FeaturedAgent | null {
   if (!id) return null;
-  return FEATURED_AGENTS.find((agent) => agent.id === id) ?? null;
+  const featured = FEATURED_AGENTS.find((agent) => agent.id === id);
+  if (featured) return featured;
+  const custom = customAgents.find((agent) => toCustomAgentId(agent.id) === id);
+  return custom ? toFeaturedAgent(custom) : null;
 }
@@ -0,0 +1,130 @@
+// Five-field cron expressions (minute hour day-of-month month day-of-week), evaluated in UTC.
+// Supports "*", lists, ranges and steps, plus the @hourly/@daily/@weekly/@monthly shorthands.
+// As in classic cron, when both day fields are restricted a day matches if either does.
+
+const ALIASES: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+};
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+] as const;
+
+// Long enough to find the next run of "0 0 29 2 *" (leap days) from any date.
+const SEARCH_LIMIT_DAYS = 366 * 8;
+const SAMPLE_RUNS = 12;
+
+export type CronSchedule = {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+};
+
+function parseField(value: string, field: (typeof FIELDS)[number]) {
+  const result = new Set<number>();
+  for (const part of value.split(",")) {
+    const [rangePart, stepPart] = part.split("/");
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron expression: bad step "${part}" in ${field.name}`);
+    }
+    let start: number = field.min;
+    let end: number = field.max;
+    if (rangePart !== "*") {
+      const [from, to] = rangePart.split("-");
+      start = Number(from);
+      end = to === undefined ? (stepPart === undefined ? start : field.max) : Number(to);
+    }
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < field.min || end > field.max || start > end) {
+      throw new Error(`Invalid cron expression: "${part}" is out of range for ${field.name}`);
+    }
+    for (let current = start; current <= end; current += step) {
+      result.add(current);
+    }
+  }
+  return result;
+}
+
+export function parseCronExpression(expression: string): CronSchedule {
+  const normalized = ALIASES[expression.trim().toLowerCase()] ?? expression.trim();
+  const parts = normalized.split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw new Error("Invalid cron expression: expected 5 fields (minute hour day month weekday)");
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) =>
+    parseField(part, FIELDS[index])
+  );
+  // 7 is an alias for Sunday.
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: parts[2] !== "*",
+    dayOfWeekRestricted: parts[4] !== "*",
+  };
+}
+
+function dayMatches(schedule: CronSchedule, date: Date) {
+  const domMatch = schedule.daysOfMonth.has(date.getUTCDate());
+  const dowMatch = schedule.daysOfWeek.has(date.getUTCDay());
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) return domMatch || dowMatch;
+  if (schedule.dayOfMonthRestricted) return domMatch;
+  if (schedule.dayOfWeekRestricted) return dowMatch;
+  return true;
+}
+
+/** First time strictly after `after` (to the minute) that the schedule fires, or null if none is found. */
+export function nextCronRun(schedule: CronSchedule, after: Date): Date | null {
+  const cursor = new Date(after.getTime());
+  cursor.setUTCSeconds(0, 0);
+  cursor.setUTCMinutes(cursor.getUTCMinutes() + 1);
+  const limit = after.getTime() + SEARCH_LIMIT_DAYS * 86_400_000;
+
+  while (cursor.getTime() <= limit) {
+    if (!schedule.months.has(cursor.getUTCMonth() + 1) || !dayMatches(schedule, cursor)) {
+      cursor.setUTCDate(cursor.getUTCDate() + 1);
+      cursor.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(cursor.getUTCHours())) {
+      cursor.setUTCHours(cursor.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(cursor.getUTCMinutes())) {
+      cursor.setUTCMinutes(cursor.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return cursor;
+  }
+  return null;
+}
+
+/** Shortest gap between upcoming runs, sampled from `from`; used to reject overly frequent schedules. */
+export function shortestCronIntervalMinutes(schedule: CronSchedule, from: Date) {
+  let previous = nextCronRun(schedule, from);
+  let shortest = Infinity;
+  for (let index = 0; previous && index < SAMPLE_RUNS; index++) {
+    const next = nextCronRun(schedule, previous);
+    if (!next) break;
+    shortest = Math.min(shortest, (next.getTime() - previous.getTime()) / 60_000);
+    previous = next;
+  }
+  return shortest;
+}
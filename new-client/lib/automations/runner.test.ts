@@ -0,0 +1,148 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { AutomationRecord } from "@/lib/data/automations";
+import type { AutomationStep } from "@/lib/types/automations";
+import { runAutomation } from "./runner";
+
+const mocks = vi.hoisted(() => ({
+  supabase: null as any,
+  complete: vi.fn(),
+  search: vi.fn(),
+}));
+
+vi.mock("@/lib/supabase/server", () => ({ supabaseServerAdmin: async () => mocks.supabase }));
+vi.mock("@/lib/providers/registry", () => ({
+  resolveChatProviderForFamily: (_family: string, model: string) => ({
+    provider: { getMissingConfig: () => null, complete: mocks.complete },
+    model,
+  }),
+}));
+vi.mock("@/lib/search/fast-web-pipeline", () => ({ runWebSearchPipeline: mocks.search }));
+vi.mock("@/lib/usage", () => ({ logUsageRecord: vi.fn() }));
+
+/**
+ * Admin client stand-in. reserve_budget grants amounts up to `available`; reservation and run
+ * updates are recorded so tests can check what was settled and how the run ended.
+ */
+function fakeSupabase(available: number) {
+  const state = {
+    reserved: [] as number[],
+    reservationUpdates: [] as Array<Record<string, any>>,
+    runUpdates: [] as Array<Record<string, any>>,
+  };
+  const single = (id: string) => ({ select: () => ({ single: async () => ({ data: { id }, error: null }) }) });
+  const update = (log: Array<Record<string, any>> | null) => (patch: Record<string, any>) => {
+    log?.push(patch);
+    const query = { eq: () => query, then: (resolve: (value: { error: null }) => void) => resolve({ error: null }) };
+    return query;
+  };
+  return {
+    state,
+    rpc: async (_name: string, args: { p_amount: number }) => {
+      const granted = args.p_amount <= available;
+      if (granted) state.reserved.push(args.p_amount);
+      return {
+        data: [
+          {
+            reservation_id: granted ? `res-${state.reserved.length}` : null,
+            user_limit: 2,
+            user_available: available,
+            project_limit: null,
+            project_available: null,
+          },
+        ],
+        error: null,
+      };
+    },
+    from: (table: string) => {
+      switch (table) {
+        case "conversations":
+          return { insert: () => single("conv-1") };
+        case "automation_runs":
+          return { insert: () => single("run-1"), update: update(state.runUpdates) };
+        case "budget_reservations":
+          return { update: update(state.reservationUpdates) };
+        case "messages":
+          return { insert: async () => ({ error: null }) };
+        default:
+          return { update: update(null) };
+      }
+    },
+  };
+}
+
+function automation(steps: AutomationStep[]): AutomationRecord {
+  return {
+    id: "auto-1",
+    userId: "user-1",
+    name: "Daily digest",
+    description: null,
+    triggerType: "cron",
+    cronExpression: "0 8 * * *",
+    webhookToken: null,
+    steps,
+    modelFamily: "gpt-5-mini",
+    enabled: true,
+    nextRunAt: null,
+    lastRunAt: null,
+    createdAt: "2026-01-01T00:00:00Z",
+    updatedAt: "2026-01-01T00:00:00Z",
+  };
+}
+
+beforeEach(() => {
+  mocks.complete.mockReset();
+  mocks.search.mockReset();
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+describe("runAutomation", () => {
+  it("fails the run without calling the model when the budget is spent", async () => {
+    mocks.supabase = fakeSupabase(0);
+
+    const run = await runAutomation(automation([{ type: "chat_prompt", prompt: "Morning news" }]), {
+      trigger: "schedule",
+    });
+
+    expect(mocks.complete).not.toHaveBeenCalled();
+    expect(run.status).toBe("failed");
+    expect(run.error).toMatch(/^Step 1 \(chat_prompt\) failed: Monthly budget exceeded/);
+    expect(mocks.supabase.state.runUpdates[0]).toMatchObject({ status: "failed", error: run.error });
+  });
+
+  it("stops at a search step the budget can't cover", async () => {
+    mocks.supabase = fakeSupabase(0.005);
+
+    const run = await runAutomation(automation([{ type: "web_search", query: "rates" }]), { trigger: "webhook" });
+
+    expect(mocks.search).not.toHaveBeenCalled();
+    expect(run.status).toBe("failed");
+    expect(run.error).toMatch(/Monthly budget exceeded/);
+  });
+
+  it("settles each step's reservation with its actual cost", async () => {
+    mocks.supabase = fakeSupabase(1);
+    mocks.complete.mockResolvedValue({ text: "Done.", usage: { input_tokens: 100, output_tokens: 10 } });
+
+    const run = await runAutomation(automation([{ type: "chat_prompt", prompt: "Morning news" }]), {
+      trigger: "schedule",
+    });
+
+    expect(run.status).toBe("completed");
+    expect(mocks.complete.mock.calls[0][0].maxTokens).toBe(2000);
+    expect(mocks.supabase.state.reservationUpdates).toHaveLength(1);
+    expect(mocks.supabase.state.reservationUpdates[0]).toMatchObject({ status: "settled", actual_usd: run.costUsd });
+  });
+
+  it("releases the reservation when the model call fails", async () => {
+    mocks.supabase = fakeSupabase(1);
+    mocks.complete.mockRejectedValue(new Error("upstream timeout"));
+
+    const run = await runAutomation(automation([{ type: "chat_prompt", prompt: "Morning news" }]), {
+      trigger: "schedule",
+    });
+
+    expect(run.error).toMatch(/upstream timeout/);
+    expect(mocks.supabase.state.reservationUpdates.map((patch: Record<string, any>) => patch.status)).toEqual(["released"]);
+  });
+});
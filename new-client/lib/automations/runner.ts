@@ -0,0 +1,467 @@
+import { lookup } from "node:dns/promises";
+import { isIP } from "node:net";
+import {
+  releaseBudgetReservation,
+  reserveChatBudget,
+  reserveFixedBudget,
+  settleBudgetReservation,
+  type BudgetRefusal,
+} from "@/lib/budget";
+import type { AutomationRecord } from "@/lib/data/automations";
+import { getModelAndReasoningConfig } from "@/lib/modelConfig";
+import { calculateCost } from "@/lib/pricing";
+import { resolveChatProviderForFamily } from "@/lib/providers/registry";
+import { runWebSearchPipeline } from "@/lib/search/fast-web-pipeline";
+import { supabaseServerAdmin } from "@/lib/supabase/server";
+import { estimateTokens } from "@/lib/tokens/estimateTokens";
+import type {
+  AutomationRun,
+  AutomationRunTrigger,
+  AutomationStep,
+  AutomationStepResult,
+} from "@/lib/types/automations";
+import { logUsageRecord } from "@/lib/usage";
+
+// Executes one automation run: a fresh conversation, then each step in order with the previous
+// step's output threaded through {{previous}}. Every model and search call is logged through
+// logUsageRecord against the run's conversation; the run row keeps per-step results and the total.
+// Each paid call first reserves its worst-case cost against the owner's monthly budget, like a chat
+// turn, and a refused reservation fails the step. A failing step stops the run. Runs use the admin
+// client because cron and webhook runs have no user session.
+
+export const AUTOMATION_AGENT_ID = "automation-builder";
+
+const STEP_MAX_OUTPUT_TOKENS = 2000;
+const PAYLOAD_CHAR_LIMIT = 8000;
+const PREVIOUS_CHAR_LIMIT = 24_000;
+const SEARCH_CONTEXT_CHAR_LIMIT = 12_000;
+const RESULT_PREVIEW_CHARS = 2000;
+const WEBHOOK_TIMEOUT_MS = 15_000;
+// Upper bound for one search step's SERP requests; the pipeline reports the actual cost.
+const SEARCH_STEP_RESERVE_USD = 0.01;
+
+type RunContext = {
+  automation: AutomationRecord;
+  runId: string;
+  conversationId: string;
+  trigger: AutomationRunTrigger;
+  payload: string;
+  date: string;
+  previous: string;
+  results: AutomationStepResult[];
+};
+
+type StepOutcome = { output: string; costUsd: number };
+
+// Replacer functions keep "$" sequences in step outputs from being read as replacement patterns.
+function renderTemplate(text: string, context: RunContext) {
+  return text
+    .replace(/\{\{\s*previous\s*\}\}/g, () => context.previous)
+    .replace(/\{\{\s*payload\s*\}\}/g, () => context.payload)
+    .replace(/\{\{\s*date\s*\}\}/g, () => context.date);
+}
+
+function isPrivateIpAddress(ip: string): boolean {
+  if (isIP(ip) === 4) {
+    const parts = ip.split(".").map((p) => Number(p));
+    if (parts.length !== 4 || parts.some((n) => !Number.isFinite(n))) return true;
+    const [a, b] = parts;
+    if (a === 10 || a === 127 || a === 0) return true;
+    if (a === 169 && b === 254) return true;
+    if (a === 172 && b >= 16 && b <= 31) return true;
+    if (a === 192 && b === 168) return true;
+    return false;
+  }
+  const lower = ip.toLowerCase();
+  if (lower === "::1") return true;
+  if (lower.startsWith("fc") || lower.startsWith("fd")) return true;
+  if (lower.startsWith("fe80:")) return true;
+  return false;
+}
+
+// Webhook URLs are user-supplied, so the host must resolve to a public address.
+async function assertPublicHostname(url: URL): Promise<void> {
+  const hostname = url.hostname.toLowerCase();
+  if (!hostname) throw new Error("Invalid hostname");
+  if (hostname === "localhost" || hostname.endsWith(".local")) {
+    throw new Error("Blocked hostname");
+  }
+  if (isIP(hostname)) {
+    if (isPrivateIpAddress(hostname)) throw new Error("Blocked private IP");
+    return;
+  }
+  const records = await lookup(hostname, { all: true });
+  for (const r of records) {
+    if (r?.address && isPrivateIpAddress(r.address)) {
+      throw new Error("Blocked private DNS resolution");
+    }
+  }
+}
+
+async function appendRunMessage(
+  supabase: any,
+  context: RunContext,
+  role: "user" | "assistant",
+  content: string,
+  stepIndex: number
+) {
+  const { error } = await supabase.from("messages").insert({
+    user_id: context.automation.userId,
+    conversation_id: context.conversationId,
+    role,
+    content,
+    metadata: { automation: { id: context.automation.id, runId: context.runId, stepIndex } },
+  });
+  if (error) {
+    throw new Error(`Failed to save run message: ${error.message}`);
+  }
+}
+
+function budgetRefusalMessage(refusal: BudgetRefusal) {
+  return `Monthly budget exceeded: this step could cost up to $${refusal.requiredUsd.toFixed(4)}, but only $${refusal.availableUsd.toFixed(4)} of the $${refusal.limitUsd.toFixed(2)} ${refusal.reason === "project_limit" ? "project cap" : "plan limit"} is left`;
+}
+
+async function completeWithModel(
+  supabase: any,
+  context: RunContext,
+  system: string,
+  user: string,
+  stage: string
+) {
+  const { model, resolvedFamily, reasoning } = getModelAndReasoningConfig(
+    context.automation.modelFamily,
+    "instant",
+    user
+  );
+  const { provider, model: providerModel } = resolveChatProviderForFamily(resolvedFamily, model);
+  const missing = provider.getMissingConfig();
+  if (missing) {
+    throw new Error(`${missing} is not set`);
+  }
+  const budget = await reserveChatBudget({
+    supabase,
+    userId: context.automation.userId,
+    conversationId: context.conversationId,
+    requested: { model, resolvedFamily, effort: reasoning?.effort ?? null },
+    inputTokens: estimateTokens(system) + estimateTokens(user),
+    maxOutputTokens: STEP_MAX_OUTPUT_TOKENS,
+    allowDowngrade: false,
+  });
+  if (!budget.ok) {
+    throw new Error(budgetRefusalMessage(budget.refusal));
+  }
+  let completion: Awaited<ReturnType<typeof provider.complete>>;
+  try {
+    completion = await provider.complete({
+      messages: [
+        { role: "system", content: system },
+        { role: "user", content: user },
+      ],
+      model: providerModel,
+      enforceJson: false,
+      maxTokens: budget.reservation.maxOutputTokens,
+    });
+  } catch (error) {
+    await releaseBudgetReservation(supabase, budget.reservation.id);
+    throw error;
+  }
+  const { text, usage } = completion;
+  const inputTokens = usage?.input_tokens ?? 0;
+  const outputTokens = usage?.output_tokens ?? 0;
+  const costUsd = calculateCost(model, inputTokens, 0, outputTokens);
+  // Log before settling so the spend always counts, as usage or as the open reservation.
+  await logUsageRecord({
+    userId: context.automation.userId,
+    conversationId: context.conversationId,
+    model,
+    inputTokens,
+    cachedTokens: 0,
+    outputTokens,
+    estimatedCost: costUsd,
+    metadata: { source: "automation", automationId: context.automation.id, runId: context.runId, stage },
+  });
+  await settleBudgetReservation(supabase, budget.reservation.id, costUsd);
+  const output = (text || "").trim();
+  if (!output) {
+    throw new Error("The model returned an empty response");
+  }
+  return { output, costUsd };
+}
+
+async function runChatPrompt(
+  supabase: any,
+  context: RunContext,
+  step: Extract<AutomationStep, { type: "chat_prompt" }>,
+  index: number
+): Promise<StepOutcome> {
+  const prompt = renderTemplate(step.prompt, context);
+  await appendRunMessage(supabase, context, "user", prompt, index);
+  const outcome = await completeWithModel(
+    supabase,
+    context,
+    `You are running the user's automation "${context.automation.name}" unattended (${context.date}). Nobody can answer follow-up questions, so complete the task with what you have and reply with the result only.`,
+    prompt,
+    "chat_prompt"
+  );
+  await appendRunMessage(supabase, context, "assistant", outcome.output, index);
+  return outcome;
+}
+
+async function runSummarize(
+  supabase: any,
+  context: RunContext,
+  step: Extract<AutomationStep, { type: "summarize" }>,
+  index: number
+): Promise<StepOutcome> {
+  if (!context.previous.trim()) {
+    throw new Error("Nothing to summarize: the previous step produced no output");
+  }
+  const instructions = step.instructions ? renderTemplate(step.instructions, context) : "";
+  const outcome = await completeWithModel(
+    supabase,
+    context,
+    "You summarize the output of an automation step for its owner. Keep the facts, figures, names and links that matter and drop the rest. No preamble.",
+    `${instructions ? `Instructions: ${instructions}\n\n` : ""}Text to summarize:\n${context.previous}`,
+    "summarize"
+  );
+  await appendRunMessage(supabase, context, "assistant", outcome.output, index);
+  return outcome;
+}
+
+async function logSearchCost(context: RunContext, model: string, costUsd: number, requests: number) {
+  if (costUsd <= 0) return;
+  await logUsageRecord({
+    userId: context.automation.userId,
+    conversationId: context.conversationId,
+    model,
+    inputTokens: 0,
+    cachedTokens: 0,
+    outputTokens: 0,
+    estimatedCost: costUsd,
+    eventType: "tool",
+    metadata: { source: "automation", automationId: context.automation.id, runId: context.runId, requests },
+  });
+}
+
+async function runWebSearch(
+  supabase: any,
+  context: RunContext,
+  step: Extract<AutomationStep, { type: "web_search" }>,
+  index: number
+): Promise<StepOutcome> {
+  const query = renderTemplate(step.query, context);
+  const budget = await reserveFixedBudget({
+    supabase,
+    userId: context.automation.userId,
+    conversationId: context.conversationId,
+    model: "brightdata:serp",
+    amountUsd: SEARCH_STEP_RESERVE_USD,
+  });
+  if (!budget.ok) {
+    throw new Error(budgetRefusalMessage(budget.refusal));
+  }
+  let result: Awaited<ReturnType<typeof runWebSearchPipeline>>;
+  try {
+    result = await runWebSearchPipeline(query, {
+      currentDate: context.date,
+      userId: context.automation.userId,
+      conversationId: context.conversationId,
+      allowSkip: false,
+    });
+  } catch (error) {
+    await releaseBudgetReservation(supabase, budget.reservationId);
+    throw error;
+  }
+  const serpCost = result.cost?.serpEstimatedUsd ?? 0;
+  const unlockerCost = result.cost?.brightdataUnlockerEstimatedUsd ?? 0;
+  await logSearchCost(context, "brightdata:serp", serpCost, result.cost?.serpRequests ?? 0);
+  await logSearchCost(context, "brightdata:unlocker", unlockerCost, result.cost?.brightdataUnlockerRequests ?? 0);
+  await settleBudgetReservation(supabase, budget.reservationId, serpCost + unlockerCost);
+
+  if (!result.sources.length && !result.chunks.length) {
+    throw new Error(`Web search found nothing for "${query}"`);
+  }
+  const sources = result.sources.map((source) => `- [${source.title || source.url}](${source.url})`).join("\n");
+  let excerpts = "";
+  for (const chunk of result.chunks) {
+    const entry = `[${chunk.title || chunk.url}](${chunk.url})\n${chunk.text}\n\n`;
+    if (excerpts.length + entry.length > SEARCH_CONTEXT_CHAR_LIMIT) break;
+    excerpts += entry;
+  }
+  await appendRunMessage(supabase, context, "assistant", `Web search: ${query}\n\n${sources}`, index);
+  return {
+    output: `Web search results for "${query}":\n\nSources:\n${sources}\n\nExcerpts:\n${excerpts.trim()}`,
+    costUsd: serpCost + unlockerCost,
+  };
+}
+
+async function runPostWebhook(
+  supabase: any,
+  context: RunContext,
+  step: Extract<AutomationStep, { type: "post_webhook" }>,
+  index: number
+): Promise<StepOutcome> {
+  const url = new URL(step.url);
+  await assertPublicHostname(url);
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      // Redirects could point at a private address the hostname check never saw.
+      redirect: "manual",
+      signal: controller.signal,
+      body: JSON.stringify({
+        automation: { id: context.automation.id, name: context.automation.name },
+        runId: context.runId,
+        conversationId: context.conversationId,
+        trigger: context.trigger,
+        output: context.previous,
+        steps: context.results.map((result) => ({ type: result.type, status: result.status })),
+      }),
+    });
+  } finally {
+    clearTimeout(timeout);
+  }
+  if (!response.ok) {
+    throw new Error(`Webhook ${url.host} responded ${response.status}`);
+  }
+  await appendRunMessage(supabase, context, "assistant", `Posted the result to ${url.host} (${response.status}).`, index);
+  // Posting passes the previous output through so later steps still see it.
+  return { output: context.previous, costUsd: 0 };
+}
+
+function runStep(supabase: any, context: RunContext, step: AutomationStep, index: number) {
+  switch (step.type) {
+    case "chat_prompt":
+      return runChatPrompt(supabase, context, step, index);
+    case "web_search":
+      return runWebSearch(supabase, context, step, index);
+    case "summarize":
+      return runSummarize(supabase, context, step, index);
+    case "post_webhook":
+      return runPostWebhook(supabase, context, step, index);
+  }
+}
+
+function serializePayload(payload: unknown) {
+  if (payload === undefined || payload === null) return "";
+  const text = typeof payload === "string" ? payload : JSON.stringify(payload, null, 2);
+  return text.slice(0, PAYLOAD_CHAR_LIMIT);
+}
+
+export async function runAutomation(
+  automation: AutomationRecord,
+  options: { trigger: AutomationRunTrigger; payload?: unknown }
+): Promise<AutomationRun> {
+  const supabase = (await supabaseServerAdmin()) as any;
+  const startedAt = new Date();
+  const date = startedAt.toISOString().slice(0, 10);
+
+  const { data: conversation, error: conversationError } = await supabase
+    .from("conversations")
+    .insert({
+      user_id: automation.userId,
+      title: `${automation.name} · ${startedAt.toISOString().slice(0, 16).replace("T", " ")} UTC`,
+      project_id: null,
+      metadata: {
+        agent: AUTOMATION_AGENT_ID,
+        agent_chat: true,
+        automation: { id: automation.id, trigger: options.trigger },
+      },
+    })
+    .select("id")
+    .single();
+  if (conversationError || !conversation) {
+    throw new Error(`Failed to create run conversation: ${conversationError?.message ?? "Unknown error"}`);
+  }
+
+  const { data: runRow, error: runInsertError } = await supabase
+    .from("automation_runs")
+    .insert({
+      automation_id: automation.id,
+      user_id: automation.userId,
+      conversation_id: conversation.id,
+      trigger: options.trigger,
+      status: "running",
+      started_at: startedAt.toISOString(),
+    })
+    .select("id")
+    .single();
+  if (runInsertError || !runRow) {
+    throw new Error(`Failed to start automation run: ${runInsertError?.message ?? "Unknown error"}`);
+  }
+
+  const context: RunContext = {
+    automation,
+    runId: runRow.id,
+    conversationId: conversation.id,
+    trigger: options.trigger,
+    payload: serializePayload(options.payload),
+    date,
+    previous: "",
+    results: [],
+  };
+
+  let failure: string | null = null;
+  for (const [index, step] of automation.steps.entries()) {
+    const stepStartedAt = Date.now();
+    try {
+      const outcome = await runStep(supabase, context, step, index);
+      context.previous = outcome.output.slice(0, PREVIOUS_CHAR_LIMIT);
+      context.results.push({
+        type: step.type,
+        status: "completed",
+        output: outcome.output.slice(0, RESULT_PREVIEW_CHARS),
+        costUsd: outcome.costUsd,
+        durationMs: Date.now() - stepStartedAt,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Step failed";
+      context.results.push({
+        type: step.type,
+        status: "failed",
+        output: "",
+        costUsd: 0,
+        durationMs: Date.now() - stepStartedAt,
+        error: message,
+      });
+      failure = `Step ${index + 1} (${step.type}) failed: ${message}`;
+      console.warn("[automations] step failed", { automationId: automation.id, runId: context.runId, index, message });
+      break;
+    }
+  }
+
+  const finishedAt = new Date().toISOString();
+  const costUsd = context.results.reduce((sum, result) => sum + result.costUsd, 0);
+  const status = failure ? "failed" : "completed";
+  const { error: finishError } = await supabase
+    .from("automation_runs")
+    .update({
+      status,
+      step_results: context.results,
+      error: failure,
+      cost_usd: costUsd,
+      finished_at: finishedAt,
+    })
+    .eq("id", context.runId);
+  if (finishError) {
+    console.error("[automations] Failed to record run result", { runId: context.runId, error: finishError.message });
+  }
+  await supabase.from("automations").update({ last_run_at: finishedAt }).eq("id", automation.id);
+
+  return {
+    id: context.runId,
+    automationId: automation.id,
+    conversationId: context.conversationId,
+    trigger: options.trigger,
+    status,
+    stepResults: context.results,
+    error: failure,
+    costUsd,
+    startedAt: startedAt.toISOString(),
+    finishedAt,
+  };
+}
@@ -0,0 +1,212 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  MIN_OUTPUT_TOKENS,
+  WORST_CASE_OUTPUT_TOKENS,
+  downgradeCandidates,
+  estimateWorstCaseCost,
+  reserveChatBudget,
+} from "@/lib/budget";
+import { CODE_INTERPRETER_SESSION_COST, calculateCost, calculateToolCallCost } from "@/lib/pricing";
+
+describe("estimateWorstCaseCost", () => {
+  it("prices the full context at uncached input rates plus the output cap", () => {
+    const estimate = estimateWorstCaseCost({ model: "gpt-5.2", inputTokens: 10_000, maxOutputTokens: 32_000 });
+    expect(estimate.inputTokens).toBe(10_000);
+    expect(estimate.toolCostUsd).toBe(0);
+    expect(estimate.modelCostUsd).toBeCloseTo(calculateCost("gpt-5.2", 10_000, 0, 32_000), 10);
+    expect(estimate.totalUsd).toBe(estimate.modelCostUsd);
+  });
+
+  it("adds retrieved context and attachments to the input tokens", () => {
+    const estimate = estimateWorstCaseCost({
+      model: "gpt-5-mini",
+      inputTokens: 1_000,
+      maxOutputTokens: 0,
+      tools: { fileSearch: true, webSearch: true },
+      attachments: { images: 2, files: 1 },
+    });
+    // 3 file_search calls x 16k, 24k of web sources, 2 x 1.5k images, 1 x 20k file.
+    expect(estimate.inputTokens).toBe(1_000 + 48_000 + 24_000 + 3_000 + 20_000);
+  });
+
+  it("charges a code interpreter session only when the container isn't billed yet", () => {
+    const base = { model: "gpt-5-mini", inputTokens: 0, maxOutputTokens: 0 };
+    expect(estimateWorstCaseCost({ ...base, tools: { codeInterpreter: true } }).toolCostUsd).toBe(
+      CODE_INTERPRETER_SESSION_COST
+    );
+    expect(
+      estimateWorstCaseCost({ ...base, tools: { codeInterpreter: true, codeInterpreterBilled: true } }).toolCostUsd
+    ).toBe(0);
+  });
+
+  it("includes file_search call fees and costs already incurred", () => {
+    const estimate = estimateWorstCaseCost({
+      model: "gpt-5-mini",
+      inputTokens: 0,
+      maxOutputTokens: 0,
+      tools: { fileSearch: true },
+      fixedCostUsd: 0.5,
+    });
+    expect(estimate.toolCostUsd).toBeCloseTo(calculateToolCallCost("file_search", 3) + 0.5, 10);
+  });
+
+  it("clamps negative and fractional inputs", () => {
+    const estimate = estimateWorstCaseCost({
+      model: "gpt-5-mini",
+      inputTokens: -50,
+      maxOutputTokens: 0,
+      fixedCostUsd: -1,
+    });
+    expect(estimate.inputTokens).toBe(0);
+    expect(estimate.totalUsd).toBe(0);
+    expect(estimateWorstCaseCost({ model: "gpt-5-mini", inputTokens: 10.2, maxOutputTokens: 0 }).inputTokens).toBe(11);
+  });
+});
+
+describe("downgradeCandidates", () => {
+  it("steps down the ladder below the requested family", () => {
+    const candidates = downgradeCandidates({ model: "gpt-5.2", resolvedFamily: "gpt-5.2", effort: "medium" });
+    expect(candidates.map((c) => c.model)).toEqual(["gpt-5-mini", "gpt-5-nano"]);
+    expect(candidates.every((c) => c.effort === "medium")).toBe(true);
+  });
+
+  it("has nothing cheaper than nano", () => {
+    expect(downgradeCandidates({ model: "gpt-5-nano", resolvedFamily: "gpt-5-nano", effort: "low" })).toEqual([]);
+  });
+
+  it("puts families off the ladder onto it from mini down", () => {
+    const candidates = downgradeCandidates({
+      model: "grok-4-1-fast-reasoning-latest",
+      resolvedFamily: "grok-4-1-fast",
+      effort: null,
+    });
+    expect(candidates.map((c) => c.model)).toEqual(["gpt-5-mini", "gpt-5-nano"]);
+    expect(candidates.every((c) => c.effort === "low")).toBe(true);
+  });
+
+  it("raises effort none to low for models that don't support it", () => {
+    const candidates = downgradeCandidates({ model: "gpt-5.2-pro", resolvedFamily: "gpt-5.2-pro", effort: "none" });
+    expect(candidates.map((c) => [c.model, c.effort])).toEqual([
+      ["gpt-5.2", "none"],
+      ["gpt-5-mini", "low"],
+      ["gpt-5-nano", "low"],
+    ]);
+  });
+});
+
+// reserve_budget stand-in for a plus user: grants a reservation when the amount fits the headroom.
+function fakeSupabase(available: number) {
+  const calls: Array<{ model: string; amount: number }> = [];
+  return {
+    calls,
+    rpc: async (_name: string, args: { p_model: string; p_amount: number }) => {
+      calls.push({ model: args.p_model, amount: args.p_amount });
+      const granted = args.p_amount <= available;
+      return {
+        data: [
+          {
+            reservation_id: granted ? `res-${calls.length}` : null,
+            user_limit: 12,
+            user_available: available,
+            project_limit: null,
+            project_available: null,
+          },
+        ],
+        error: null,
+      };
+    },
+  };
+}
+
+describe("reserveChatBudget", () => {
+  const base = {
+    userId: "user-1",
+    inputTokens: 10_000,
+  };
+
+  it("reserves the requested model when it fits", async () => {
+    const supabase = fakeSupabase(1_000);
+    const result = await reserveChatBudget({
+      ...base,
+      supabase,
+      requested: { model: "gpt-5.2", resolvedFamily: "gpt-5.2", effort: "medium" },
+    });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.reservation.model).toBe("gpt-5.2");
+    expect(result.reservation.downgradedFrom).toBeNull();
+    expect(result.reservation.outputCapped).toBe(false);
+    expect(result.reservation.maxOutputTokens).toBe(WORST_CASE_OUTPUT_TOKENS.medium);
+  });
+
+  it("shrinks the output cap to the remaining headroom", async () => {
+    const full = estimateWorstCaseCost({
+      model: "gpt-5.2",
+      inputTokens: base.inputTokens,
+      maxOutputTokens: WORST_CASE_OUTPUT_TOKENS.medium,
+    });
+    const supabase = fakeSupabase(full.totalUsd / 2);
+    const result = await reserveChatBudget({
+      ...base,
+      supabase,
+      requested: { model: "gpt-5.2", resolvedFamily: "gpt-5.2", effort: "medium" },
+    });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.reservation.model).toBe("gpt-5.2");
+    expect(result.reservation.outputCapped).toBe(true);
+    expect(result.reservation.maxOutputTokens).toBeGreaterThanOrEqual(MIN_OUTPUT_TOKENS);
+    expect(result.reservation.maxOutputTokens).toBeLessThan(WORST_CASE_OUTPUT_TOKENS.medium);
+    expect(result.reservation.amountUsd).toBeLessThanOrEqual(full.totalUsd / 2);
+  });
+
+  it("downgrades to a cheaper model when the requested one can't fit", async () => {
+    // A long context leaves no room for even the minimum output on the larger models.
+    const inputTokens = 200_000;
+    const mini = estimateWorstCaseCost({
+      model: "gpt-5-mini",
+      inputTokens,
+      maxOutputTokens: WORST_CASE_OUTPUT_TOKENS.medium,
+    });
+    const supabase = fakeSupabase(mini.totalUsd);
+    const result = await reserveChatBudget({
+      ...base,
+      inputTokens,
+      supabase,
+      requested: { model: "gpt-5.2-pro", resolvedFamily: "gpt-5.2-pro", effort: "medium" },
+    });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.reservation.model).toBe("gpt-5-mini");
+    expect(result.reservation.downgradedFrom).toBe("gpt-5.2-pro");
+  });
+
+  it("refuses when nothing fits", async () => {
+    const supabase = fakeSupabase(0);
+    const result = await reserveChatBudget({
+      ...base,
+      supabase,
+      requested: { model: "gpt-5.2", resolvedFamily: "gpt-5.2", effort: "low" },
+    });
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.refusal.reason).toBe("user_limit");
+    expect(result.refusal.limitUsd).toBe(12);
+    expect(result.refusal.availableUsd).toBe(0);
+    expect(result.refusal.requiredUsd).toBeGreaterThan(0);
+    expect(supabase.calls.map((c) => c.model)).toEqual(["gpt-5.2", "gpt-5-mini", "gpt-5-nano"]);
+  });
+
+  it("doesn't downgrade when downgrades are off", async () => {
+    const supabase = fakeSupabase(0);
+    const result = await reserveChatBudget({
+      ...base,
+      supabase,
+      allowDowngrade: false,
+      requested: { model: "gpt-5.2", resolvedFamily: "gpt-5.2", effort: "low" },
+    });
+    expect(result.ok).toBe(false);
+    expect(supabase.calls.map((c) => c.model)).toEqual(["gpt-5.2"]);
+  });
+});
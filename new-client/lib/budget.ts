@@ -0,0 +1,362 @@
+import type { ReasoningEffort } from "@/lib/modelConfig";
+import {
+  CODE_INTERPRETER_SESSION_COST,
+  calculateCost,
+  calculateToolCallCost,
+} from "@/lib/pricing";
+
+/**
+ * Pre-flight budget enforcement for chat turns and automation steps.
+ *
+ * A turn's worst-case cost (full context at uncached input rates, the output cap for its effort,
+ * and the hosted tools it may call) is reserved against the monthly budget before the model is
+ * called, and the reservation is settled or released once the turn ends. Turns that don't fit are
+ * downgraded to a cheaper model or a smaller output cap, and refused when nothing fits.
+ */
+
+// Output caps per reasoning effort. Reasoning tokens count toward max_output_tokens, so the cap is
+// sent with the request and bounds the real cost, not just the estimate.
+export const WORST_CASE_OUTPUT_TOKENS: Record<ReasoningEffort, number> = {
+  none: 8_000,
+  low: 16_000,
+  medium: 32_000,
+  high: 64_000,
+  xhigh: 100_000,
+};
+
+// Smallest output cap worth running a turn with when shrinking to fit the remaining budget.
+export const MIN_OUTPUT_TOKENS = 2_000;
+
+// file_search may run a few times per turn and each call injects retrieved chunks as input.
+const MAX_FILE_SEARCH_CALLS = 3;
+const FILE_SEARCH_RESULT_TOKENS = 16_000;
+// The web pipeline injects fetched sources into the prompt after the reservation is made.
+const WEB_SEARCH_CONTEXT_TOKENS = 24_000;
+// Native image inputs and uploaded PDFs (input_file) aren't in the text we can count.
+const IMAGE_INPUT_TOKENS = 1_500;
+const FILE_INPUT_TOKENS = 20_000;
+
+// Unsettled reservations stop counting after this long (crashed or abandoned turns).
+const RESERVATION_TTL_SECONDS = 15 * 60;
+
+// Cheapest-last fallbacks. Grok turns fall back onto the OpenAI ladder from mini down.
+const DOWNGRADE_LADDER = ["gpt-5.2-pro", "gpt-5.2", "gpt-5-mini", "gpt-5-nano"] as const;
+
+export type BudgetTools = {
+  fileSearch?: boolean;
+  webSearch?: boolean;
+  codeInterpreter?: boolean;
+  // A container already billed this conversation costs nothing extra.
+  codeInterpreterBilled?: boolean;
+};
+
+export type BudgetEstimate = {
+  model: string;
+  inputTokens: number;
+  maxOutputTokens: number;
+  modelCostUsd: number;
+  toolCostUsd: number;
+  totalUsd: number;
+};
+
+export function estimateWorstCaseCost(params: {
+  model: string;
+  inputTokens: number;
+  maxOutputTokens: number;
+  tools?: BudgetTools;
+  attachments?: { images?: number; files?: number };
+  // Costs already incurred for this turn.
+  fixedCostUsd?: number;
+}): BudgetEstimate {
+  const tools = params.tools ?? {};
+  const retrievedTokens =
+    (tools.fileSearch ? MAX_FILE_SEARCH_CALLS * FILE_SEARCH_RESULT_TOKENS : 0) +
+    (tools.webSearch ? WEB_SEARCH_CONTEXT_TOKENS : 0) +
+    (params.attachments?.images ?? 0) * IMAGE_INPUT_TOKENS +
+    (params.attachments?.files ?? 0) * FILE_INPUT_TOKENS;
+  const inputTokens = Math.max(0, Math.ceil(params.inputTokens)) + retrievedTokens;
+  const modelCostUsd = calculateCost(params.model, inputTokens, 0, params.maxOutputTokens);
+  const toolCostUsd =
+    (tools.fileSearch ? calculateToolCallCost("file_search", MAX_FILE_SEARCH_CALLS) : 0) +
+    (tools.codeInterpreter && !tools.codeInterpreterBilled ? CODE_INTERPRETER_SESSION_COST : 0) +
+    Math.max(0, params.fixedCostUsd ?? 0);
+  return {
+    model: params.model,
+    inputTokens,
+    maxOutputTokens: params.maxOutputTokens,
+    modelCostUsd,
+    toolCostUsd,
+    totalUsd: modelCostUsd + toolCostUsd,
+  };
+}
+
+export type BudgetCandidate = {
+  model: string;
+  resolvedFamily: string;
+  effort: ReasoningEffort | null;
+};
+
+export function downgradeCandidates(requested: BudgetCandidate): BudgetCandidate[] {
+  const ladderIndex = DOWNGRADE_LADDER.indexOf(requested.resolvedFamily as (typeof DOWNGRADE_LADDER)[number]);
+  const start = ladderIndex >= 0 ? ladderIndex + 1 : DOWNGRADE_LADDER.indexOf("gpt-5-mini");
+  return DOWNGRADE_LADDER.slice(start).map((family) => {
+    const supportsNone = family === "gpt-5.2" || family === "gpt-5.2-pro";
+    const effort = requested.effort === "none" && !supportsNone ? "low" : requested.effort ?? "low";
+    return { model: family, resolvedFamily: family, effort };
+  });
+}
+
+export type BudgetReservation = {
+  id: string;
+  amountUsd: number;
+  model: string;
+  resolvedFamily: string;
+  effort: ReasoningEffort | null;
+  maxOutputTokens: number;
+  // Set when the requested model (or its output cap) didn't fit and a cheaper option was taken.
+  downgradedFrom: string | null;
+  outputCapped: boolean;
+};
+
+export type BudgetRefusal = {
+  reason: "user_limit" | "project_limit";
+  limitUsd: number;
+  availableUsd: number;
+  requiredUsd: number;
+};
+
+export type BudgetReservationResult =
+  | { ok: true; reservation: BudgetReservation }
+  | { ok: false; refusal: BudgetRefusal };
+
+type ReserveRow = {
+  reservation_id: string | null;
+  user_limit: number | string | null;
+  user_available: number | string | null;
+  project_limit: number | string | null;
+  project_available: number | string | null;
+};
+
+function calendarMonthStartIso() {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString();
+}
+
+async function callReserveBudget(
+  supabase: any,
+  params: {
+    userId: string;
+    projectId?: string | null;
+    conversationId?: string | null;
+    model: string;
+    amountUsd: number;
+    metadata: Record<string, unknown>;
+  }
+) {
+  const { data, error } = await supabase.rpc("reserve_budget", {
+    p_user_id: params.userId,
+    p_project_id: params.projectId ?? null,
+    p_conversation_id: params.conversationId ?? null,
+    p_model: params.model,
+    p_amount: Number(params.amountUsd.toFixed(6)),
+    p_project_since: calendarMonthStartIso(),
+    p_ttl_seconds: RESERVATION_TTL_SECONDS,
+    p_metadata: params.metadata,
+  });
+  if (error) {
+    throw new Error(`Failed to reserve budget: ${error.message}`);
+  }
+  const row = (Array.isArray(data) ? data[0] : data) as ReserveRow | null;
+  return {
+    id: row?.reservation_id ?? null,
+    userLimit: Number(row?.user_limit ?? 0),
+    userAvailable: Number(row?.user_available ?? 0),
+    projectLimit: row?.project_limit == null ? null : Number(row.project_limit),
+    projectAvailable: row?.project_available == null ? null : Number(row.project_available),
+  };
+}
+
+function refusalFor(attempt: Awaited<ReturnType<typeof callReserveBudget>>, requiredUsd: number): BudgetRefusal {
+  const projectBound = attempt.projectAvailable !== null && attempt.projectAvailable < attempt.userAvailable;
+  return {
+    reason: projectBound ? "project_limit" : "user_limit",
+    limitUsd: projectBound ? attempt.projectLimit ?? 0 : attempt.userLimit,
+    availableUsd: Math.max(0, projectBound ? attempt.projectAvailable ?? 0 : attempt.userAvailable),
+    requiredUsd,
+  };
+}
+
+/**
+ * Reserve the worst-case cost of a chat turn, downgrading when it doesn't fit. `supabase` must be
+ * the service-role client: reserve_budget reads the user's plan limit and billing-period spend and
+ * the project's cap itself. Project caps run on calendar months.
+ */
+export async function reserveChatBudget(params: {
+  supabase: any;
+  userId: string;
+  projectId?: string | null;
+  conversationId?: string | null;
+  requested: BudgetCandidate;
+  inputTokens: number;
+  tools?: BudgetTools;
+  attachments?: { images?: number; files?: number };
+  fixedCostUsd?: number;
+  // Replaces the per-effort output cap for callers that send their own max tokens.
+  maxOutputTokens?: number;
+  allowDowngrade?: boolean;
+}): Promise<BudgetReservationResult> {
+  const candidates = [
+    params.requested,
+    ...(params.allowDowngrade === false ? [] : downgradeCandidates(params.requested)),
+  ];
+
+  let lastRefusal: BudgetRefusal | null = null;
+
+  const tryReserve = (candidate: BudgetCandidate, estimate: BudgetEstimate) =>
+    callReserveBudget(params.supabase, {
+      userId: params.userId,
+      projectId: params.projectId,
+      conversationId: params.conversationId,
+      model: candidate.model,
+      amountUsd: estimate.totalUsd,
+      metadata: {
+        inputTokens: estimate.inputTokens,
+        maxOutputTokens: estimate.maxOutputTokens,
+        effort: candidate.effort,
+      },
+    });
+
+  for (const candidate of candidates) {
+    const fullCap = params.maxOutputTokens ?? WORST_CASE_OUTPUT_TOKENS[candidate.effort ?? "low"];
+    const estimate = estimateWorstCaseCost({
+      model: candidate.model,
+      inputTokens: params.inputTokens,
+      maxOutputTokens: fullCap,
+      tools: params.tools,
+      attachments: params.attachments,
+      fixedCostUsd: params.fixedCostUsd,
+    });
+    let attempt = await tryReserve(candidate, estimate);
+    let reserved = estimate;
+
+    if (!attempt.id) {
+      // Shrink the output cap to whatever the remaining headroom pays for.
+      const available = Math.min(
+        attempt.userAvailable,
+        attempt.projectAvailable ?? Number.POSITIVE_INFINITY
+      );
+      const zeroOutput = estimateWorstCaseCost({
+        model: candidate.model,
+        inputTokens: params.inputTokens,
+        maxOutputTokens: 0,
+        tools: params.tools,
+        attachments: params.attachments,
+        fixedCostUsd: params.fixedCostUsd,
+      });
+      const perOutputToken = calculateCost(candidate.model, 0, 0, 1_000_000) / 1_000_000;
+      const affordableOutput =
+        perOutputToken > 0 ? Math.floor((available - zeroOutput.totalUsd) / perOutputToken) : 0;
+      if (affordableOutput >= MIN_OUTPUT_TOKENS) {
+        reserved = estimateWorstCaseCost({
+          model: candidate.model,
+          inputTokens: params.inputTokens,
+          maxOutputTokens: Math.min(fullCap, affordableOutput),
+          tools: params.tools,
+          attachments: params.attachments,
+          fixedCostUsd: params.fixedCostUsd,
+        });
+        attempt = await tryReserve(candidate, reserved);
+      }
+    }
+
+    if (attempt.id) {
+      return {
+        ok: true,
+        reservation: {
+          id: attempt.id,
+          amountUsd: reserved.totalUsd,
+          model: candidate.model,
+          resolvedFamily: candidate.resolvedFamily,
+          effort: candidate.effort,
+          maxOutputTokens: reserved.maxOutputTokens,
+          downgradedFrom: candidate === params.requested ? null : params.requested.model,
+          outputCapped: reserved.maxOutputTokens < fullCap,
+        },
+      };
+    }
+
+    lastRefusal = refusalFor(attempt, reserved.totalUsd);
+  }
+
+  return {
+    ok: false,
+    refusal: lastRefusal ?? { reason: "user_limit", limitUsd: 0, availableUsd: 0, requiredUsd: 0 },
+  };
+}
+
+/**
+ * Reserve a flat amount for a paid call that isn't a model turn (e.g. SERP requests). `model`
+ * labels the reservation; same service-role requirement as reserveChatBudget.
+ */
+export async function reserveFixedBudget(params: {
+  supabase: any;
+  userId: string;
+  projectId?: string | null;
+  conversationId?: string | null;
+  model: string;
+  amountUsd: number;
+}): Promise<{ ok: true; reservationId: string } | { ok: false; refusal: BudgetRefusal }> {
+  const { supabase, ...reservation } = params;
+  const attempt = await callReserveBudget(supabase, { ...reservation, metadata: {} });
+  if (!attempt.id) {
+    return { ok: false, refusal: refusalFor(attempt, params.amountUsd) };
+  }
+  return { ok: true, reservationId: attempt.id };
+}
+
+// Settle and release also need the service-role client; users can't write their reservations.
+export async function settleBudgetReservation(supabase: any, reservationId: string, actualUsd: number) {
+  try {
+    const { error } = await supabase
+      .from("budget_reservations")
+      .update({
+        status: "settled",
+        actual_usd: Number(Math.max(0, actualUsd).toFixed(6)),
+        settled_at: new Date().toISOString(),
+      })
+      .eq("id", reservationId)
+      .eq("status", "reserved");
+    if (error) {
+      console.warn("[budget] Failed to settle reservation:", error.message);
+    }
+  } catch (err) {
+    console.warn("[budget] Failed to settle reservation:", err);
+  }
+}
+
+// For turns that end before the model ran (errors, aborts, early returns).
+export async function releaseBudgetReservation(supabase: any, reservationId: string) {
+  try {
+    const { error } = await supabase
+      .from("budget_reservations")
+      .update({ status: "released", settled_at: new Date().toISOString() })
+      .eq("id", reservationId)
+      .eq("status", "reserved");
+    if (error) {
+      console.warn("[budget] Failed to release reservation:", error.message);
+    }
+  } catch (err) {
+    console.warn("[budget] Failed to release reservation:", err);
+  }
+}
+
+export async function getProjectMonthlySpending(supabase: any, projectId: string): Promise<number> {
+  const { data, error } = await supabase.rpc("project_spending_since", {
+    p_project_id: projectId,
+    p_since: calendarMonthStartIso(),
+  });
+  if (error) {
+    throw new Error(`Failed to load project spending: ${error.message}`);
+  }
+  return Number(data ?? 0) || 0;
+}
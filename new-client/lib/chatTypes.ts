@@ -37,4 +37,6 @@ export type AssistantMessageMetadata = {
     filename: string;
   }>;
   topicCreated?: { id: string; label: string };
+  // Request trace for this turn (see /api/traces/[traceId]).
+  traceId?: string;
 };
@@ -2,7 +2,14 @@ import type { SupabaseClient } from "@supabase/supabase-js";
 import type { Database } from "@/lib/supabase/types";
 import type { RouterDecision } from "@/lib/router/types";
 import { estimateTokens } from "@/lib/tokens/estimateTokens";
+import {
+  effectiveTopicTokens,
+  messagesAfterCompaction,
+  parseSummarySegments,
+  renderTopicSummarySegments,
+} from "@/lib/topics/compaction";
 import { sanitizeTopicMessageContent } from "@/lib/topics/messageSanitizer";
+import { loadActiveBranch } from "@/lib/message-branches";
 
 type MessageRow = Database["public"]["Tables"]["messages"]["Row"];
 type TopicRow = Database["public"]["Tables"]["conversation_topics"]["Row"];
@@ -25,12 +32,17 @@ type ContextMessageWithId = {
   messageId: string | null;
 };
 
+// Resolves the message ids on a conversation's active branch (null = no filtering).
+type BranchResolver = (conversationId: string) => Promise<Set<string> | null>;
+
 export interface BuildContextParams {
   supabase: SupabaseClient<Database>;
   conversationId: string;
   routerDecision: RouterDecision;
   manualTopicIds?: string[] | null;
   maxContextTokens?: number;
+  // Active-branch message ids of `conversationId`; other conversations resolve their own.
+  branchMessageIds?: Set<string> | null;
 }
 
 export interface BuildContextResult {
@@ -43,6 +55,7 @@ export interface BuildContextResult {
   debug?: {
     totalTopicTokens: number;
     summaryTokens: number;
+    compactedSummaryTokens: number;
     loadedMessageCount: number;
     trimmedMessageCount: number;
     budget: number;
@@ -60,7 +73,9 @@ export async function buildContextForMainModel({
   routerDecision,
   manualTopicIds,
   maxContextTokens = DEFAULT_MAX_TOKENS,
+  branchMessageIds,
 }: BuildContextParams): Promise<BuildContextResult> {
+  const branchIdsFor = createBranchResolver(supabase, conversationId, branchMessageIds ?? null);
   const normalizedManualTopicIds = Array.isArray(manualTopicIds)
     ? manualTopicIds.filter((id) => typeof id === "string" && id.trim().length > 0).map((id) => id.trim())
     : [];
@@ -108,7 +123,7 @@ export async function buildContextForMainModel({
   }
 
   if (!primaryTopic) {
-    const fallbackMessages = await loadFallbackMessages(supabase, conversationId, maxContextTokens);
+    const fallbackMessages = await loadFallbackMessages(supabase, conversationId, maxContextTokens, branchIdsFor);
     return {
       messages: fallbackMessages.map((entry) => entry.message),
       includedMessageIds: fallbackMessages
@@ -133,7 +148,7 @@ export async function buildContextForMainModel({
   if (
     primaryTopic.conversation_id !== conversationId &&
     typeof primaryTopic.token_estimate === "number" &&
-    primaryTopic.token_estimate > CROSS_CHAT_TOKEN_LIMIT
+    effectiveTopicTokens(primaryTopic) > CROSS_CHAT_TOKEN_LIMIT
   ) {
     blockedTopics.push(primaryTopic);
     primaryTopic = null;
@@ -152,13 +167,13 @@ export async function buildContextForMainModel({
   secondaryTopics = secondaryTopics.filter((topic) => {
     if (topic.conversation_id === conversationId) return true;
     if (typeof topic.token_estimate !== "number") return true;
-    if (topic.token_estimate <= CROSS_CHAT_TOKEN_LIMIT) return true;
+    if (effectiveTopicTokens(topic) <= CROSS_CHAT_TOKEN_LIMIT) return true;
     blockedTopics.push(topic);
     return false;
   });
 
   if (!primaryTopic) {
-    const fallbackMessages = await loadFallbackMessages(supabase, conversationId, maxContextTokens);
+    const fallbackMessages = await loadFallbackMessages(supabase, conversationId, maxContextTokens, branchIdsFor);
     const blockedNotices = buildBlockedTopicNotices(blockedTopics, conversationMeta, conversationId);
     const blockedFallbackNotices: ContextMessageWithId[] = blockedNotices.map((notice) => ({
       message: notice,
@@ -213,16 +228,36 @@ export async function buildContextForMainModel({
     summaryCount += 1;
   }
 
-  const primaryMessages = await loadTopicMessages(
-    supabase,
-    primaryTopic.conversation_id,
-    primaryTopic.id
+  // Compacted topics contribute their rolling summary in place of the messages it covers.
+  const compactedSummaryMessages: ContextMessageWithId[] = [];
+  const pushCompactedSummary = (topic: TopicRow, kind: "Earlier in topic" | "Earlier in reference topic") => {
+    const segments = parseSummarySegments(topic.summary_segments);
+    if (!segments.length) return;
+    compactedSummaryMessages.push({
+      message: {
+        role: "assistant",
+        content: `[${kind}: ${topic.label} from ${formatTopicOrigin(
+          topic,
+          conversationMeta,
+          conversationId
+        )}, summarized] ${renderTopicSummarySegments(segments)}`,
+        type: "message",
+      },
+      messageId: null,
+    });
+  };
+  pushCompactedSummary(primaryTopic, "Earlier in topic");
+
+  const primaryMessages = messagesAfterCompaction(
+    primaryTopic,
+    await loadTopicMessages(supabase, primaryTopic.conversation_id, primaryTopic.id, branchIdsFor)
   );
 
   const secondaryTailText = secondaryTopics.length
     ? await buildSecondaryTailSnippets(
         supabase,
-        secondaryTopics.map((topic) => ({ topicId: topic.id, conversationId: topic.conversation_id }))
+        secondaryTopics.map((topic) => ({ topicId: topic.id, conversationId: topic.conversation_id })),
+        branchIdsFor
       )
     : {};
 
@@ -268,8 +303,9 @@ export async function buildContextForMainModel({
   // Load all messages for primary and secondary topics
   const secondaryMessagesBatches: MessageRow[][] = [];
   for (const topic of secondaryTopics) {
-    const msgs = await loadTopicMessages(supabase, topic.conversation_id, topic.id);
-    secondaryMessagesBatches.push(msgs);
+    const msgs = await loadTopicMessages(supabase, topic.conversation_id, topic.id, branchIdsFor);
+    secondaryMessagesBatches.push(messagesAfterCompaction(topic, msgs));
+    pushCompactedSummary(topic, "Earlier in reference topic");
   }
 
   const allTopicMessages: MessageRow[] = [
@@ -277,7 +313,11 @@ export async function buildContextForMainModel({
     ...secondaryMessagesBatches.flat(),
   ].sort((a, b) => (a.created_at || "").localeCompare(b.created_at || ""));
 
-  const totalTopicTokens = estimateTopicMessagesTokens(allTopicMessages);
+  const compactedSummaryTokens = compactedSummaryMessages.reduce(
+    (sum, msg) => sum + estimateTokens(msg.message.content),
+    0
+  );
+  const totalTopicTokens = estimateTopicMessagesTokens(allTopicMessages) + compactedSummaryTokens;
   const summaryTokens = summaryMessages.reduce(
     (sum, msg) => sum + estimateTokens(msg.message.content),
     0
@@ -289,6 +329,7 @@ export async function buildContextForMainModel({
     if (crossChatPrimaryNotice) {
       conversationMessages.push({ message: crossChatPrimaryNotice, messageId: null });
     }
+    conversationMessages.push(...compactedSummaryMessages);
     allTopicMessages.forEach((msg) => {
       const originLabel =
         msg.conversation_id === conversationId
@@ -303,12 +344,13 @@ export async function buildContextForMainModel({
     summaryCount = 0;
   } else {
     // Too large: include summaries and trim messages to remaining budget
-    const budgetForMessages = Math.max(0, maxContextTokens - summaryTokens);
+    const budgetForMessages = Math.max(0, maxContextTokens - summaryTokens - compactedSummaryTokens);
     const { trimmed } = trimMessagesToBudget(allTopicMessages, budgetForMessages);
     trimmedMessageCount = allTopicMessages.length - trimmed.length;
     if (crossChatPrimaryNotice) {
       conversationMessages.push({ message: crossChatPrimaryNotice, messageId: null });
     }
+    conversationMessages.push(...compactedSummaryMessages);
     trimmed.forEach((msg) => {
       const originLabel =
         msg.conversation_id === conversationId
@@ -321,11 +363,13 @@ export async function buildContextForMainModel({
     });
   }
 
+  summaryCount += compactedSummaryMessages.length;
+
   // Place the chronological conversation messages first to keep the prefix as stable as possible
   // for prompt caching. Summaries/artifacts are appended after to avoid shifting the leading tokens.
   const combinedMessages = [...conversationMessages, ...summaryMessages];
   if (!combinedMessages.length) {
-    const fallbackMessages = await loadFallbackMessages(supabase, conversationId, maxContextTokens);
+    const fallbackMessages = await loadFallbackMessages(supabase, conversationId, maxContextTokens, branchIdsFor);
     return {
       messages: fallbackMessages.map((entry) => entry.message),
       includedMessageIds: fallbackMessages
@@ -343,7 +387,7 @@ export async function buildContextForMainModel({
     Math.min(maxContextTokens, DEFAULT_MAX_TOKENS)
   ).trimmed;
   if (!finalMessages.length) {
-    const fallbackMessages = await loadFallbackMessages(supabase, conversationId, maxContextTokens);
+    const fallbackMessages = await loadFallbackMessages(supabase, conversationId, maxContextTokens, branchIdsFor);
     return {
       messages: fallbackMessages.map((entry) => entry.message),
       includedMessageIds: fallbackMessages
@@ -368,6 +412,7 @@ export async function buildContextForMainModel({
     debug: {
       totalTopicTokens,
       summaryTokens,
+      compactedSummaryTokens,
       loadedMessageCount: conversationMessages.length,
       trimmedMessageCount,
       budget: maxContextTokens,
@@ -494,10 +539,45 @@ function buildBlockedTopicNotices(
   }));
 }
 
+function createBranchResolver(
+  supabase: SupabaseClient<Database>,
+  activeConversationId: string,
+  activeBranchIds: Set<string> | null
+): BranchResolver {
+  const cache = new Map<string, Promise<Set<string> | null>>();
+  return (conversationId) => {
+    if (conversationId === activeConversationId && activeBranchIds) {
+      return Promise.resolve(activeBranchIds);
+    }
+    let pending = cache.get(conversationId);
+    if (!pending) {
+      pending = loadActiveBranch(supabase, conversationId)
+        .then((branch) => new Set(branch.pathIds))
+        .catch((err) => {
+          console.warn("[context-builder] Failed to resolve active branch:", err);
+          return null;
+        });
+      cache.set(conversationId, pending);
+    }
+    return pending;
+  };
+}
+
+async function filterToActiveBranch<T extends { id: string }>(
+  rows: T[],
+  conversationId: string,
+  branchIdsFor: BranchResolver
+): Promise<T[]> {
+  if (!rows.length) return rows;
+  const branchIds = await branchIdsFor(conversationId);
+  return branchIds ? rows.filter((row) => branchIds.has(row.id)) : rows;
+}
+
 async function loadTopicMessages(
   supabase: SupabaseClient<Database>,
   topicConversationId: string,
-  topicId: string
+  topicId: string,
+  branchIdsFor: BranchResolver
 ): Promise<MessageRow[]> {
   const { data } = await supabase
     .from("messages")
@@ -505,12 +585,13 @@ async function loadTopicMessages(
     .eq("conversation_id", topicConversationId)
     .eq("topic_id", topicId)
     .order("created_at", { ascending: true });
-  return Array.isArray(data) ? data : [];
+  return filterToActiveBranch(Array.isArray(data) ? (data as MessageRow[]) : [], topicConversationId, branchIdsFor);
 }
 
 async function buildSecondaryTailSnippets(
   supabase: SupabaseClient<Database>,
-  topics: Array<{ topicId: string; conversationId: string }>
+  topics: Array<{ topicId: string; conversationId: string }>,
+  branchIdsFor: BranchResolver
 ): Promise<Record<string, string>> {
   if (!topics.length) {
     return {};
@@ -525,7 +606,11 @@ async function buildSecondaryTailSnippets(
       .eq("topic_id", topic.topicId)
       .order("created_at", { ascending: true });
 
-    const rows: MessageRow[] = Array.isArray(data) ? (data as MessageRow[]) : [];
+    const rows = await filterToActiveBranch(
+      Array.isArray(data) ? (data as MessageRow[]) : [],
+      topic.conversationId,
+      branchIdsFor
+    );
     if (!rows.length) {
       continue;
     }
@@ -581,7 +666,8 @@ async function loadArtifactsByIds(
 async function loadFallbackMessages(
   supabase: SupabaseClient<Database>,
   conversationId: string,
-  maxContextTokens: number
+  maxContextTokens: number,
+  branchIdsFor: BranchResolver
 ): Promise<ContextMessageWithId[]> {
   const FALLBACK_LIMIT = 400;
 
@@ -596,7 +682,8 @@ async function loadFallbackMessages(
     return [];
   }
 
-  const sanitized = data.map((msg) => ({
+  const branchRows = await filterToActiveBranch(data as MessageRow[], conversationId, branchIdsFor);
+  const sanitized = branchRows.map((msg) => ({
     message: toContextMessage(msg as MessageRow),
     messageId: (msg as MessageRow).id ?? null,
   }));
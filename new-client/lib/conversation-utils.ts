@@ -36,3 +36,24 @@ export function normalizeGeneratedTitle(input: string | null | undefined): strin
   
   return normalized;
 }
+
+/**
+ * Trigger a browser download of a conversation or project export. The export route
+ * responds with Content-Disposition: attachment, so a plain link is enough.
+ */
+export function downloadConversationExport(params: {
+  conversationId?: string;
+  projectId?: string;
+  format: "markdown" | "json";
+}) {
+  if (typeof document === "undefined") return;
+  const search = new URLSearchParams({ format: params.format });
+  if (params.conversationId) search.set("conversationId", params.conversationId);
+  if (params.projectId) search.set("projectId", params.projectId);
+  const a = document.createElement("a");
+  a.href = `/api/conversations/export?${search.toString()}`;
+  a.rel = "noopener noreferrer";
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+}
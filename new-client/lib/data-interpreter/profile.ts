@@ -0,0 +1,350 @@
+import { dispatchExtract } from "@/lib/extraction/dispatcher";
+import type { SheetStats } from "@/lib/extraction/utils/spreadsheet";
+
+// Schema and profile of an uploaded dataset. The extractors (tsvPsv.ts, ndjson.ts, xlsx.ts) detect
+// the format and count rows; this adds per-column types and statistics from the first
+// MAX_PROFILE_ROWS rows. Spreadsheets are profiled from the rows the xlsx preview carries, so
+// their profile is always a sample. Pure apart from the extractor call.
+
+const MAX_PROFILE_ROWS = 20_000;
+const MAX_PROFILE_COLUMNS = 60;
+const MAX_DISTINCT_TRACKED = 1000;
+const MAX_SAMPLES = 3;
+const MAX_SAMPLE_CHARS = 40;
+
+export type DatasetFormat = "csv" | "tsv" | "psv" | "ndjson" | "xlsx";
+
+export type ColumnType = "integer" | "number" | "boolean" | "date" | "string" | "object" | "empty" | "mixed";
+
+export type ColumnProfile = {
+  name: string;
+  type: ColumnType;
+  nonNull: number;
+  nulls: number;
+  distinct: number;
+  // distinct stopped counting at MAX_DISTINCT_TRACKED.
+  distinctCapped: boolean;
+  min?: number | string;
+  max?: number | string;
+  mean?: number;
+  samples: string[];
+};
+
+export type DatasetProfile = {
+  format: DatasetFormat;
+  rowCount: number;
+  columnCount: number;
+  profiledRows: number;
+  columns: ColumnProfile[];
+  sheets?: SheetStats[];
+  notes: string[];
+};
+
+type ColumnAccumulator = {
+  name: string;
+  types: Map<Exclude<ColumnType, "empty" | "mixed">, number>;
+  nonNull: number;
+  nulls: number;
+  distinct: Set<string>;
+  distinctCapped: boolean;
+  numericMin: number;
+  numericMax: number;
+  numericSum: number;
+  numericCount: number;
+  textMin: string | null;
+  textMax: string | null;
+  samples: string[];
+};
+
+const NULL_TOKENS = new Set(["", "null", "na", "n/a", "nan", "none", "-"]);
+const INTEGER_PATTERN = /^[-+]?\d+$/;
+const NUMBER_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[-+]\d{2}:?\d{2})?)?$/;
+const BOOLEAN_TOKENS = new Set(["true", "false", "yes", "no"]);
+
+export function detectDatasetFormat(name: string, mime: string | null): DatasetFormat | null {
+  const lowerName = name.toLowerCase();
+  const lowerMime = (mime || "").toLowerCase();
+  if (/\.(ndjson|jsonl)$/.test(lowerName) || lowerMime.includes("ndjson")) return "ndjson";
+  if (/\.(xlsx|xlsm)$/.test(lowerName) || lowerMime.includes("spreadsheetml")) return "xlsx";
+  if (lowerName.endsWith(".tsv") || lowerMime.includes("tab-separated")) return "tsv";
+  if (lowerName.endsWith(".psv")) return "psv";
+  if (lowerName.endsWith(".csv") || lowerMime.includes("csv")) return "csv";
+  return null;
+}
+
+function createAccumulator(name: string): ColumnAccumulator {
+  return {
+    name,
+    types: new Map(),
+    nonNull: 0,
+    nulls: 0,
+    distinct: new Set(),
+    distinctCapped: false,
+    numericMin: Infinity,
+    numericMax: -Infinity,
+    numericSum: 0,
+    numericCount: 0,
+    textMin: null,
+    textMax: null,
+    samples: [],
+  };
+}
+
+function classifyText(value: string): Exclude<ColumnType, "empty" | "mixed" | "object"> {
+  if (INTEGER_PATTERN.test(value)) return "integer";
+  if (NUMBER_PATTERN.test(value)) return "number";
+  if (BOOLEAN_TOKENS.has(value.toLowerCase())) return "boolean";
+  if (DATE_PATTERN.test(value)) return "date";
+  return "string";
+}
+
+function addValue(column: ColumnAccumulator, raw: unknown) {
+  if (raw === null || raw === undefined || (typeof raw === "string" && NULL_TOKENS.has(raw.trim().toLowerCase()))) {
+    column.nulls += 1;
+    return;
+  }
+  let type: Exclude<ColumnType, "empty" | "mixed">;
+  let text: string;
+  if (typeof raw === "number") {
+    type = Number.isInteger(raw) ? "integer" : "number";
+    text = String(raw);
+  } else if (typeof raw === "boolean") {
+    type = "boolean";
+    text = String(raw);
+  } else if (typeof raw === "object") {
+    type = "object";
+    text = JSON.stringify(raw);
+  } else {
+    text = String(raw).trim();
+    type = classifyText(text);
+  }
+
+  column.nonNull += 1;
+  column.types.set(type, (column.types.get(type) ?? 0) + 1);
+  if (type === "integer" || type === "number") {
+    const numeric = Number(text);
+    column.numericMin = Math.min(column.numericMin, numeric);
+    column.numericMax = Math.max(column.numericMax, numeric);
+    column.numericSum += numeric;
+    column.numericCount += 1;
+  } else if (type === "date" || type === "string") {
+    if (column.textMin === null || text < column.textMin) column.textMin = text;
+    if (column.textMax === null || text > column.textMax) column.textMax = text;
+  }
+  if (!column.distinctCapped) {
+    column.distinct.add(text);
+    if (column.distinct.size >= MAX_DISTINCT_TRACKED) column.distinctCapped = true;
+  }
+  if (column.samples.length < MAX_SAMPLES && !column.samples.includes(text)) {
+    column.samples.push(text.length > MAX_SAMPLE_CHARS ? `${text.slice(0, MAX_SAMPLE_CHARS)}…` : text);
+  }
+}
+
+// A column is the type most of its values share; integers that sit among decimals count as numbers.
+function resolveType(column: ColumnAccumulator): ColumnType {
+  if (!column.nonNull) return "empty";
+  const counts = column.types;
+  const numeric = (counts.get("integer") ?? 0) + (counts.get("number") ?? 0);
+  if (numeric === column.nonNull) return counts.get("number") ? "number" : "integer";
+  const [dominant, dominantCount] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0];
+  return dominantCount / column.nonNull >= 0.95 ? dominant : "mixed";
+}
+
+function finalizeColumn(column: ColumnAccumulator): ColumnProfile {
+  const type = resolveType(column);
+  const profile: ColumnProfile = {
+    name: column.name,
+    type,
+    nonNull: column.nonNull,
+    nulls: column.nulls,
+    distinct: column.distinct.size,
+    distinctCapped: column.distinctCapped,
+    samples: column.samples,
+  };
+  if ((type === "integer" || type === "number") && column.numericCount) {
+    profile.min = column.numericMin;
+    profile.max = column.numericMax;
+    profile.mean = column.numericSum / column.numericCount;
+  } else if ((type === "date" || type === "string") && column.textMin !== null && column.textMax !== null) {
+    profile.min = column.textMin;
+    profile.max = column.textMax;
+  }
+  return profile;
+}
+
+/** Splits one delimited line, honoring double-quoted fields with "" escapes. */
+function splitDelimitedLine(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i += 1) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.length === 0) {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
+function profileRows(header: string[], rows: string[][]) {
+  const names = header.slice(0, MAX_PROFILE_COLUMNS).map((name, index) => name.trim() || `column_${index + 1}`);
+  const columns = names.map(createAccumulator);
+  for (const row of rows) {
+    columns.forEach((column, index) => addValue(column, row[index]));
+  }
+  return columns.map(finalizeColumn);
+}
+
+function profileDelimited(text: string, delimiter: string) {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim().length > 0);
+  const [headerLine, ...body] = lines.slice(0, MAX_PROFILE_ROWS + 1);
+  const header = headerLine ? splitDelimitedLine(headerLine, delimiter) : [];
+  const rows = body.map((line) => splitDelimitedLine(line, delimiter));
+  return { columns: profileRows(header, rows), profiledRows: rows.length, columnCount: header.length };
+}
+
+function profileNdjson(text: string) {
+  const columnsByName = new Map<string, ColumnAccumulator>();
+  let profiledRows = 0;
+  for (const line of text.split(/\r?\n/)) {
+    if (profiledRows >= MAX_PROFILE_ROWS) break;
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    let record: unknown;
+    try {
+      record = JSON.parse(trimmed);
+    } catch {
+      continue;
+    }
+    if (!record || typeof record !== "object" || Array.isArray(record)) continue;
+    // Keys missing from a record count as nulls for that record.
+    for (const column of columnsByName.values()) {
+      if (!(column.name in (record as Record<string, unknown>))) column.nulls += 1;
+    }
+    for (const [key, value] of Object.entries(record as Record<string, unknown>)) {
+      let column = columnsByName.get(key);
+      if (!column) {
+        if (columnsByName.size >= MAX_PROFILE_COLUMNS) continue;
+        column = createAccumulator(key);
+        column.nulls = profiledRows;
+        columnsByName.set(key, column);
+      }
+      addValue(column, value);
+    }
+    profiledRows += 1;
+  }
+  const columns = Array.from(columnsByName.values()).map(finalizeColumn);
+  return { columns, profiledRows, columnCount: columns.length };
+}
+
+// The xlsx preview starts each sheet with `[Sheet: name] N rows x M columns`; profile the first one.
+function profileSheetPreview(preview: string) {
+  const lines = preview.split("\n");
+  const start = lines.findIndex((line) => line.startsWith("[Sheet: "));
+  if (start < 0) return { columns: [], profiledRows: 0, columnCount: 0 };
+  const rows: string[][] = [];
+  for (const line of lines.slice(start + 1)) {
+    if (!line.trim() || line.startsWith("[")) break;
+    rows.push(line.split("\t"));
+  }
+  const [header = [], ...body] = rows;
+  return { columns: profileRows(header, body), profiledRows: body.length, columnCount: header.length };
+}
+
+export async function profileDataset(buffer: Buffer, name: string, mime: string | null): Promise<DatasetProfile> {
+  const format = detectDatasetFormat(name, mime);
+  if (!format) {
+    throw new Error("Invalid dataset: upload a CSV, TSV, PSV, NDJSON or XLSX file");
+  }
+  const extraction = await dispatchExtract(buffer, name, mime);
+  const stats = (extraction.meta.stats ?? {}) as Record<string, unknown>;
+  const notes = [...(extraction.meta.notes ?? [])];
+  if (extraction.meta.status !== "ok") {
+    throw new Error(`Invalid dataset: the file could not be read (${extraction.meta.status})`);
+  }
+
+  if (format === "xlsx") {
+    const sheets = Array.isArray(stats.sheets) ? (stats.sheets as SheetStats[]) : [];
+    const profile = profileSheetPreview(extraction.preview ?? "");
+    notes.push("Column statistics are sampled from the first rows of the first sheet.");
+    return {
+      format,
+      rowCount: Math.max(0, (sheets[0]?.rows ?? 0) - 1),
+      columnCount: sheets[0]?.columns ?? profile.columnCount,
+      profiledRows: profile.profiledRows,
+      columns: profile.columns,
+      sheets,
+      notes,
+    };
+  }
+
+  const text = buffer.toString("utf-8");
+  if (format === "ndjson") {
+    const profile = profileNdjson(text);
+    return {
+      format,
+      rowCount: typeof stats.parsed === "number" ? Math.max(stats.parsed, profile.profiledRows) : profile.profiledRows,
+      columnCount: profile.columnCount,
+      profiledRows: profile.profiledRows,
+      columns: profile.columns,
+      notes,
+    };
+  }
+
+  const delimiter = typeof stats.delimiter === "string" ? stats.delimiter : format === "tsv" ? "\t" : ",";
+  const profile = profileDelimited(text, delimiter);
+  const dataRows = typeof stats.rows === "number" ? Math.max(0, stats.rows - 1) : profile.profiledRows;
+  return {
+    format: delimiter === "\t" ? "tsv" : delimiter === "|" ? "psv" : "csv",
+    rowCount: dataRows,
+    columnCount: profile.columnCount,
+    profiledRows: profile.profiledRows,
+    columns: profile.columns,
+    notes,
+  };
+}
+
+function formatStat(value: number | string) {
+  if (typeof value === "string") return value;
+  return Number.isInteger(value) ? String(value) : value.toFixed(Math.abs(value) >= 100 ? 1 : 3);
+}
+
+/** Compact schema/profile text for the model's instructions. */
+export function renderDatasetProfile(profile: DatasetProfile, fileName: string) {
+  const lines = [
+    `Dataset "${fileName}" (${profile.format.toUpperCase()}, ${profile.rowCount} rows x ${profile.columnCount} columns${
+      profile.profiledRows < profile.rowCount ? `; profiled from the first ${profile.profiledRows} rows` : ""
+    }).`,
+  ];
+  if (profile.sheets && profile.sheets.length > 1) {
+    lines.push(`Sheets: ${profile.sheets.map((sheet) => `${sheet.name} (${sheet.rows}x${sheet.columns})`).join(", ")}.`);
+  }
+  lines.push("Columns:");
+  for (const column of profile.columns) {
+    const parts = [`${column.nulls} null`, `${column.distinct}${column.distinctCapped ? "+" : ""} distinct`];
+    if (column.min !== undefined && column.max !== undefined) {
+      parts.push(`range ${formatStat(column.min)} to ${formatStat(column.max)}`);
+    }
+    if (column.mean !== undefined) parts.push(`mean ${formatStat(column.mean)}`);
+    if (column.samples.length) parts.push(`e.g. ${column.samples.map((sample) => JSON.stringify(sample)).join(", ")}`);
+    lines.push(`- ${column.name} (${column.type}): ${parts.join("; ")}`);
+  }
+  lines.push(...profile.notes.map((note) => `Note: ${note}`));
+  return lines.join("\n");
+}
@@ -0,0 +1,491 @@
+import { randomBytes } from "node:crypto";
+import { nextCronRun, parseCronExpression, shortestCronIntervalMinutes } from "@/lib/automations/cron";
+import { normalizeModelFamily } from "@/lib/modelConfig";
+import { supabaseServer, supabaseServerAdmin } from "@/lib/supabase/server";
+import { requireUserIdServer } from "@/lib/supabase/user";
+import {
+  AUTOMATION_STEP_TYPES,
+  type Automation,
+  type AutomationRun,
+  type AutomationRunStatus,
+  type AutomationRunTrigger,
+  type AutomationStep,
+  type AutomationStepResult,
+  type AutomationTriggerType,
+} from "@/lib/types/automations";
+
+const AUTOMATION_LIMIT = 25;
+const NAME_LIMIT = 80;
+const DESCRIPTION_LIMIT = 300;
+const MAX_STEPS = 8;
+const STEP_TEXT_LIMIT = 4000;
+const MIN_CRON_INTERVAL_MINUTES = 15;
+const RUN_HISTORY_LIMIT = 50;
+// Cron ticks that find nothing due are cheap; this bounds how many runs a single tick dispatches.
+const DUE_BATCH_LIMIT = 20;
+
+export type AutomationInput = Pick<
+  Automation,
+  "name" | "description" | "triggerType" | "cronExpression" | "steps" | "modelFamily" | "enabled"
+>;
+
+/** Server-side view used by the runner: the owning user travels with the automation. */
+export type AutomationRecord = Automation & { userId: string };
+
+type AutomationRow = {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string | null;
+  trigger_type: string;
+  cron_expression: string | null;
+  webhook_token: string | null;
+  steps: unknown;
+  model_family: string | null;
+  enabled: boolean;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+type AutomationRunRow = {
+  id: string;
+  automation_id: string;
+  user_id: string;
+  conversation_id: string | null;
+  trigger: string;
+  status: string;
+  step_results: unknown;
+  error: string | null;
+  cost_usd: number | string | null;
+  started_at: string;
+  finished_at: string | null;
+};
+
+const uuidPattern =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+function isValidUuid(value: string | null | undefined) {
+  return typeof value === "string" && uuidPattern.test(value);
+}
+
+function generateWebhookToken() {
+  return randomBytes(24).toString("hex");
+}
+
+function normalizeSteps(value: unknown): AutomationStep[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter(
+    (step): step is AutomationStep =>
+      Boolean(step) && typeof step === "object" && AUTOMATION_STEP_TYPES.includes((step as AutomationStep).type)
+  );
+}
+
+function toAutomation(row: AutomationRow): Automation {
+  const family = normalizeModelFamily(row.model_family);
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description ?? null,
+    triggerType: row.trigger_type === "webhook" ? "webhook" : "cron",
+    cronExpression: row.cron_expression ?? null,
+    webhookToken: row.trigger_type === "webhook" ? row.webhook_token : null,
+    steps: normalizeSteps(row.steps),
+    modelFamily: family === "auto" ? "gpt-5-mini" : family,
+    enabled: Boolean(row.enabled),
+    nextRunAt: row.next_run_at ?? null,
+    lastRunAt: row.last_run_at ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toAutomationRecord(row: AutomationRow): AutomationRecord {
+  return { ...toAutomation(row), userId: row.user_id };
+}
+
+function toAutomationRun(row: AutomationRunRow): AutomationRun {
+  const trigger: AutomationRunTrigger =
+    row.trigger === "webhook" || row.trigger === "manual" ? row.trigger : "schedule";
+  const status: AutomationRunStatus =
+    row.status === "completed" || row.status === "failed" ? row.status : "running";
+  return {
+    id: row.id,
+    automationId: row.automation_id,
+    conversationId: row.conversation_id ?? null,
+    trigger,
+    status,
+    stepResults: Array.isArray(row.step_results) ? (row.step_results as AutomationStepResult[]) : [],
+    error: row.error ?? null,
+    costUsd: Number(row.cost_usd ?? 0) || 0,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at ?? null,
+  };
+}
+
+function readStepText(step: Record<string, unknown>, key: string, label: string, index: number) {
+  const value = typeof step[key] === "string" ? (step[key] as string).trim() : "";
+  if (!value || value.length > STEP_TEXT_LIMIT) {
+    throw new Error(`Invalid step ${index + 1}: ${label} must be 1-${STEP_TEXT_LIMIT} characters`);
+  }
+  return value;
+}
+
+function validateStep(value: unknown, index: number): AutomationStep {
+  if (!value || typeof value !== "object") {
+    throw new Error(`Invalid step ${index + 1}`);
+  }
+  const step = value as Record<string, unknown>;
+  switch (step.type) {
+    case "chat_prompt":
+      return { type: "chat_prompt", prompt: readStepText(step, "prompt", "the prompt", index) };
+    case "web_search":
+      return { type: "web_search", query: readStepText(step, "query", "the query", index) };
+    case "summarize": {
+      const instructions = typeof step.instructions === "string" ? step.instructions.trim() : "";
+      if (instructions.length > STEP_TEXT_LIMIT) {
+        throw new Error(`Invalid step ${index + 1}: keep instructions under ${STEP_TEXT_LIMIT} characters`);
+      }
+      return { type: "summarize", instructions };
+    }
+    case "post_webhook": {
+      const url = readStepText(step, "url", "the URL", index);
+      let parsed: URL;
+      try {
+        parsed = new URL(url);
+      } catch {
+        throw new Error(`Invalid step ${index + 1}: the webhook URL is not a valid URL`);
+      }
+      if (parsed.protocol !== "https:") {
+        throw new Error(`Invalid step ${index + 1}: the webhook URL must use https`);
+      }
+      return { type: "post_webhook", url: parsed.toString() };
+    }
+    default:
+      throw new Error(`Invalid step ${index + 1}: unknown step type`);
+  }
+}
+
+/** Validates a complete automation definition and maps it to columns (webhook token excluded). */
+function buildAutomationColumns(input: Partial<AutomationInput>) {
+  const name = typeof input.name === "string" ? input.name.trim() : "";
+  if (!name || name.length > NAME_LIMIT) {
+    throw new Error(`Invalid name: use 1-${NAME_LIMIT} characters`);
+  }
+  if (input.description != null && typeof input.description !== "string") {
+    throw new Error("Invalid description");
+  }
+  const description = input.description?.trim() ?? "";
+  if (description.length > DESCRIPTION_LIMIT) {
+    throw new Error(`Invalid description: keep it under ${DESCRIPTION_LIMIT} characters`);
+  }
+
+  const triggerType: AutomationTriggerType = input.triggerType === "webhook" ? "webhook" : "cron";
+  if (input.triggerType !== undefined && input.triggerType !== "cron" && input.triggerType !== "webhook") {
+    throw new Error("Invalid trigger");
+  }
+  let cronExpression: string | null = null;
+  if (triggerType === "cron") {
+    cronExpression = typeof input.cronExpression === "string" ? input.cronExpression.trim() : "";
+    if (!cronExpression) {
+      throw new Error("Invalid cron expression: a schedule is required");
+    }
+    const schedule = parseCronExpression(cronExpression);
+    if (shortestCronIntervalMinutes(schedule, new Date()) < MIN_CRON_INTERVAL_MINUTES) {
+      throw new Error(`Invalid cron expression: runs must be at least ${MIN_CRON_INTERVAL_MINUTES} minutes apart`);
+    }
+  }
+
+  if (!Array.isArray(input.steps) || input.steps.length === 0 || input.steps.length > MAX_STEPS) {
+    throw new Error(`Invalid steps: add 1-${MAX_STEPS} steps`);
+  }
+  const steps = input.steps.map((step, index) => validateStep(step, index));
+
+  const family = normalizeModelFamily(input.modelFamily ?? "gpt-5-mini");
+  if (family === "auto" || (input.modelFamily !== undefined && family !== input.modelFamily)) {
+    throw new Error("Invalid model family");
+  }
+
+  return {
+    name,
+    description: description || null,
+    trigger_type: triggerType,
+    cron_expression: cronExpression,
+    steps,
+    model_family: family,
+    enabled: input.enabled !== false,
+  };
+}
+
+/** When a cron automation should next fire; null for webhooks and disabled automations. */
+export function computeNextRunAt(
+  automation: Pick<AutomationInput, "triggerType" | "cronExpression" | "enabled">,
+  from: Date
+) {
+  if (!automation.enabled || automation.triggerType !== "cron" || !automation.cronExpression) return null;
+  try {
+    return nextCronRun(parseCronExpression(automation.cronExpression), from)?.toISOString() ?? null;
+  } catch {
+    return null;
+  }
+}
+
+async function requireOwnedAutomation(supabase: any, userId: string, automationId: string) {
+  if (!isValidUuid(automationId)) {
+    throw new Error("Invalid automation ID");
+  }
+  const { data, error } = await supabase
+    .from("automations")
+    .select("*")
+    .eq("id", automationId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load automation: ${error.message}`);
+  }
+  if (!data) {
+    throw new Error("Automation not found");
+  }
+  return data as AutomationRow;
+}
+
+export async function listAutomations(): Promise<Automation[]> {
+  const supabase = await supabaseServer();
+  const userId = await requireUserIdServer();
+
+  const { data, error } = await (supabase as any)
+    .from("automations")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true });
+  if (error) {
+    throw new Error(`Failed to load automations: ${error.message}`);
+  }
+  return ((data ?? []) as AutomationRow[]).map((row) => toAutomation(row));
+}
+
+export async function getAutomation(automationId: string): Promise<Automation> {
+  const supabase = await supabaseServer();
+  const userId = await requireUserIdServer();
+  const row = await requireOwnedAutomation(supabase as any, userId, automationId);
+  return toAutomation(row);
+}
+
+export async function createAutomation(input: Partial<AutomationInput>): Promise<Automation> {
+  const columns = buildAutomationColumns(input);
+  const supabase = await supabaseServer();
+  const supabaseAny = supabase as any;
+  const userId = await requireUserIdServer();
+
+  const { count } = await supabaseAny
+    .from("automations")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId);
+  if ((count ?? 0) >= AUTOMATION_LIMIT) {
+    throw new Error(`Invalid request: you can keep up to ${AUTOMATION_LIMIT} automations`);
+  }
+
+  const { data, error } = await supabaseAny
+    .from("automations")
+    .insert({
+      ...columns,
+      user_id: userId,
+      webhook_token: columns.trigger_type === "webhook" ? generateWebhookToken() : null,
+      next_run_at: computeNextRunAt(
+        { triggerType: columns.trigger_type, cronExpression: columns.cron_expression, enabled: columns.enabled },
+        new Date()
+      ),
+    })
+    .select("*")
+    .single();
+  if (error || !data) {
+    throw new Error(`Failed to create automation: ${error?.message ?? "Unknown error"}`);
+  }
+  return toAutomation(data as AutomationRow);
+}
+
+/**
+ * Partial update: missing fields keep their current values, then the whole definition is
+ * re-validated. The schedule is recomputed from now; `rotateWebhookToken` issues a new hook URL.
+ */
+export async function updateAutomation(
+  automationId: string,
+  input: Partial<AutomationInput> & { rotateWebhookToken?: boolean }
+): Promise<Automation> {
+  const supabase = await supabaseServer();
+  const supabaseAny = supabase as any;
+  const userId = await requireUserIdServer();
+  const current = toAutomation(await requireOwnedAutomation(supabaseAny, userId, automationId));
+
+  const merged: Partial<AutomationInput> = {
+    name: input.name ?? current.name,
+    description: input.description !== undefined ? input.description : current.description,
+    triggerType: input.triggerType ?? current.triggerType,
+    cronExpression: input.cronExpression !== undefined ? input.cronExpression : current.cronExpression,
+    steps: input.steps ?? current.steps,
+    modelFamily: input.modelFamily ?? current.modelFamily,
+    enabled: input.enabled ?? current.enabled,
+  };
+  const columns = buildAutomationColumns(merged);
+  const needsToken = columns.trigger_type === "webhook" && (!current.webhookToken || input.rotateWebhookToken);
+
+  const { data, error } = await supabaseAny
+    .from("automations")
+    .update({
+      ...columns,
+      ...(needsToken ? { webhook_token: generateWebhookToken() } : {}),
+      next_run_at: computeNextRunAt(
+        { triggerType: columns.trigger_type, cronExpression: columns.cron_expression, enabled: columns.enabled },
+        new Date()
+      ),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", automationId)
+    .eq("user_id", userId)
+    .select("*")
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to update automation: ${error.message}`);
+  }
+  if (!data) {
+    throw new Error("Automation not found");
+  }
+  return toAutomation(data as AutomationRow);
+}
+
+/** Deletes the automation and its run history; run conversations are kept. */
+export async function deleteAutomation(automationId: string) {
+  const supabase = await supabaseServer();
+  const supabaseAny = supabase as any;
+  const userId = await requireUserIdServer();
+  await requireOwnedAutomation(supabaseAny, userId, automationId);
+
+  const { error } = await supabaseAny
+    .from("automations")
+    .delete()
+    .eq("id", automationId)
+    .eq("user_id", userId);
+  if (error) {
+    throw new Error(`Failed to delete automation: ${error.message}`);
+  }
+}
+
+export async function listAutomationRuns(automationId: string): Promise<AutomationRun[]> {
+  const supabase = await supabaseServer();
+  const supabaseAny = supabase as any;
+  const userId = await requireUserIdServer();
+  await requireOwnedAutomation(supabaseAny, userId, automationId);
+
+  const { data, error } = await supabaseAny
+    .from("automation_runs")
+    .select("*")
+    .eq("automation_id", automationId)
+    .eq("user_id", userId)
+    .order("started_at", { ascending: false })
+    .limit(RUN_HISTORY_LIMIT);
+  if (error) {
+    throw new Error(`Failed to load automation runs: ${error.message}`);
+  }
+  return ((data ?? []) as AutomationRunRow[]).map(toAutomationRun);
+}
+
+/** The caller's own automation with its owner attached, for manual runs. */
+export async function loadOwnedAutomationForRun(automationId: string): Promise<AutomationRecord> {
+  const supabase = await supabaseServer();
+  const userId = await requireUserIdServer();
+  return toAutomationRecord(await requireOwnedAutomation(supabase as any, userId, automationId));
+}
+
+export async function loadAutomationAdmin(automationId: string): Promise<AutomationRecord | null> {
+  if (!isValidUuid(automationId)) return null;
+  const admin = await supabaseServerAdmin();
+  const { data, error } = await (admin as any)
+    .from("automations")
+    .select("*")
+    .eq("id", automationId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load automation: ${error.message}`);
+  }
+  return data ? toAutomationRecord(data as AutomationRow) : null;
+}
+
+export async function loadAutomationByWebhookTokenAdmin(token: string): Promise<AutomationRecord | null> {
+  if (!/^[0-9a-f]{48}$/.test(token)) return null;
+  const admin = await supabaseServerAdmin();
+  const { data, error } = await (admin as any)
+    .from("automations")
+    .select("*")
+    .eq("webhook_token", token)
+    .eq("trigger_type", "webhook")
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load automation: ${error.message}`);
+  }
+  return data ? toAutomationRecord(data as AutomationRow) : null;
+}
+
+/**
+ * Enabled cron automations whose next run is due. Each one is claimed by moving next_run_at to its
+ * following slot, conditional on the value we read, so overlapping cron ticks can't run it twice.
+ */
+export async function claimDueAutomationsAdmin(now: Date): Promise<AutomationRecord[]> {
+  const admin = await supabaseServerAdmin();
+  const adminAny = admin as any;
+  const { data, error } = await adminAny
+    .from("automations")
+    .select("*")
+    .eq("enabled", true)
+    .eq("trigger_type", "cron")
+    .lte("next_run_at", now.toISOString())
+    .order("next_run_at", { ascending: true })
+    .limit(DUE_BATCH_LIMIT);
+  if (error) {
+    throw new Error(`Failed to load due automations: ${error.message}`);
+  }
+
+  const claimed: AutomationRecord[] = [];
+  for (const row of (data ?? []) as AutomationRow[]) {
+    const automation = toAutomationRecord(row);
+    const { data: updated, error: claimError } = await adminAny
+      .from("automations")
+      .update({ next_run_at: computeNextRunAt(automation, now) })
+      .eq("id", row.id)
+      .eq("next_run_at", row.next_run_at)
+      .select("id")
+      .maybeSingle();
+    if (claimError) {
+      console.warn("[automations] Failed to claim automation", { id: row.id, error: claimError.message });
+      continue;
+    }
+    if (updated) claimed.push(automation);
+  }
+  return claimed;
+}
+
+/**
+ * Records a run that never started because its dispatch failed (the run route was unreachable or
+ * errored before creating the run), so the failure shows up in the automation's run history.
+ */
+export async function recordFailedAutomationDispatchAdmin(
+  automation: AutomationRecord,
+  trigger: AutomationRunTrigger,
+  reason: string
+) {
+  const admin = await supabaseServerAdmin();
+  const now = new Date().toISOString();
+  const { error } = await (admin as any).from("automation_runs").insert({
+    automation_id: automation.id,
+    user_id: automation.userId,
+    conversation_id: null,
+    trigger,
+    status: "failed",
+    error: `Dispatch failed: ${reason}`.slice(0, 1000),
+    started_at: now,
+    finished_at: now,
+  });
+  if (error) {
+    throw new Error(`Failed to record failed automation run: ${error.message}`);
+  }
+}
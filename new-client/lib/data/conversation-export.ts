@@ -0,0 +1,282 @@
+import { supabaseServer } from "@/lib/supabase/server";
+import { requireUserIdServer } from "@/lib/supabase/user";
+import type { Database } from "@/lib/supabase/types";
+import type { AssistantMessageMetadata } from "@/lib/chatTypes";
+import { resolveActiveBranch } from "@/lib/message-branches";
+import {
+  CONVERSATION_BUNDLE_FORMAT,
+  CONVERSATION_BUNDLE_VERSION,
+  type BundleConversation,
+  type ConversationBundle,
+} from "@/lib/types/conversation-bundle";
+
+type ConversationRow = Database["public"]["Tables"]["conversations"]["Row"];
+type MessageRow = Database["public"]["Tables"]["messages"]["Row"];
+type TopicRow = Database["public"]["Tables"]["conversation_topics"]["Row"];
+type ArtifactRow = Database["public"]["Tables"]["artifacts"]["Row"];
+type ProjectRow = Database["public"]["Tables"]["projects"]["Row"];
+
+const uuidPattern =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+function isValidUuid(value: string | null | undefined) {
+  return typeof value === "string" && uuidPattern.test(value);
+}
+
+async function loadConversationContents(
+  supabase: Awaited<ReturnType<typeof supabaseServer>>,
+  userId: string,
+  conversations: ConversationRow[]
+): Promise<BundleConversation[]> {
+  if (!conversations.length) return [];
+  const conversationIds = conversations.map((c) => c.id);
+
+  const [messagesResult, topicsResult, artifactsResult] = await Promise.all([
+    supabase
+      .from("messages")
+      .select("*")
+      .eq("user_id", userId)
+      .in("conversation_id", conversationIds)
+      .order("created_at", { ascending: true })
+      .returns<MessageRow[]>(),
+    supabase
+      .from("conversation_topics")
+      .select("*")
+      .in("conversation_id", conversationIds)
+      .order("created_at", { ascending: true })
+      .returns<TopicRow[]>(),
+    supabase
+      .from("artifacts")
+      .select("*")
+      .in("conversation_id", conversationIds)
+      .order("created_at", { ascending: true })
+      .returns<ArtifactRow[]>(),
+  ]);
+
+  if (messagesResult.error) {
+    throw new Error(`Failed to load messages for export: ${messagesResult.error.message}`);
+  }
+  if (topicsResult.error) {
+    throw new Error(`Failed to load topics for export: ${topicsResult.error.message}`);
+  }
+  if (artifactsResult.error) {
+    throw new Error(`Failed to load artifacts for export: ${artifactsResult.error.message}`);
+  }
+
+  return conversations.map((conversation) => ({
+    id: conversation.id,
+    title: conversation.title,
+    created_at: conversation.created_at,
+    metadata: conversation.metadata,
+    active_leaf_message_id: conversation.active_leaf_message_id ?? null,
+    messages: (messagesResult.data ?? [])
+      .filter((m) => m.conversation_id === conversation.id)
+      .map((m) => ({
+        id: m.id,
+        role: m.role,
+        content: m.content,
+        created_at: m.created_at,
+        parent_message_id: m.parent_message_id ?? null,
+        topic_id: m.topic_id,
+        preamble: m.preamble ?? null,
+        openai_response_id: m.openai_response_id,
+        metadata: m.metadata,
+      })),
+    topics: (topicsResult.data ?? [])
+      .filter((t) => t.conversation_id === conversation.id)
+      .map((t) => ({
+        id: t.id,
+        parent_topic_id: t.parent_topic_id,
+        label: t.label,
+        description: t.description,
+        summary: t.summary,
+        token_estimate: t.token_estimate,
+        created_at: t.created_at,
+        updated_at: t.updated_at,
+      })),
+    artifacts: (artifactsResult.data ?? [])
+      .filter((a) => a.conversation_id === conversation.id)
+      .map((a) => ({
+        id: a.id,
+        topic_id: a.topic_id,
+        created_by_message_id: a.created_by_message_id,
+        type: a.type,
+        title: a.title,
+        summary: a.summary,
+        content: a.content,
+        created_at: a.created_at,
+      })),
+  }));
+}
+
+/**
+ * Build a lossless export bundle for a single conversation or every conversation in a project.
+ */
+export async function buildConversationBundle(params: {
+  conversationId?: string | null;
+  projectId?: string | null;
+}): Promise<ConversationBundle> {
+  const { conversationId, projectId } = params;
+  if (!conversationId && !projectId) {
+    throw new Error("conversationId or projectId is required");
+  }
+  if (conversationId && !isValidUuid(conversationId)) {
+    throw new Error("Invalid conversation ID");
+  }
+  if (projectId && !isValidUuid(projectId)) {
+    throw new Error("Invalid project ID");
+  }
+
+  const supabase = await supabaseServer();
+  const userId = await requireUserIdServer();
+
+  let project: ProjectRow | null = null;
+  let conversationQuery = supabase
+    .from("conversations")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true });
+
+  if (conversationId) {
+    conversationQuery = conversationQuery.eq("id", conversationId);
+  } else if (projectId) {
+    const { data: projectRow, error: projectError } = await supabase
+      .from("projects")
+      .select("*")
+      .eq("id", projectId)
+      .eq("user_id", userId)
+      .maybeSingle<ProjectRow>();
+    if (projectError) {
+      throw new Error(`Failed to load project: ${projectError.message}`);
+    }
+    if (!projectRow) {
+      throw new Error("Project not found");
+    }
+    project = projectRow;
+    conversationQuery = conversationQuery.eq("project_id", projectId);
+  }
+
+  const { data: conversations, error } = await conversationQuery.returns<ConversationRow[]>();
+  if (error) {
+    throw new Error(`Failed to load conversations for export: ${error.message}`);
+  }
+  if (conversationId && !(conversations ?? []).length) {
+    throw new Error("Conversation not found");
+  }
+
+  return {
+    format: CONVERSATION_BUNDLE_FORMAT,
+    version: CONVERSATION_BUNDLE_VERSION,
+    exported_at: new Date().toISOString(),
+    project: project
+      ? { id: project.id, name: project.name, icon: project.icon, color: project.color }
+      : null,
+    conversations: await loadConversationContents(supabase, userId, conversations ?? []),
+  };
+}
+
+function formatTimestamp(value: string | null) {
+  if (!value) return "";
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? "" : parsed.toISOString().replace("T", " ").slice(0, 16) + " UTC";
+}
+
+function roleHeading(role: string) {
+  if (role === "assistant") return "Assistant";
+  if (role === "user") return "User";
+  return role.charAt(0).toUpperCase() + role.slice(1);
+}
+
+function renderConversationMarkdown(conversation: BundleConversation, headingLevel: number): string {
+  const h = "#".repeat(headingLevel);
+  const lines: string[] = [`${h} ${conversation.title?.trim() || "Untitled chat"}`, ""];
+  if (conversation.created_at) {
+    lines.push(`_Started ${formatTimestamp(conversation.created_at)}_`, "");
+  }
+
+  // Markdown is a reading copy, so it follows the active branch only; JSON keeps every branch.
+  const activePath = new Set(
+    resolveActiveBranch(conversation.messages, conversation.active_leaf_message_id ?? null).pathIds
+  );
+  for (const message of conversation.messages.filter((m) => activePath.has(m.id))) {
+    const stamp = formatTimestamp(message.created_at);
+    lines.push(`${h}# ${roleHeading(message.role)}${stamp ? ` · ${stamp}` : ""}`, "");
+
+    const metadata =
+      message.metadata && typeof message.metadata === "object" && !Array.isArray(message.metadata)
+        ? (message.metadata as AssistantMessageMetadata & { files?: Array<{ name?: string; mimeType?: string }> })
+        : null;
+
+    if (message.preamble?.trim()) {
+      lines.push(
+        message.preamble
+          .trim()
+          .split("\n")
+          .map((line) => `> ${line}`)
+          .join("\n"),
+        ""
+      );
+    }
+
+    lines.push(message.content?.trim() || "_(empty message)_", "");
+
+    const files = Array.isArray(metadata?.files) ? metadata!.files : [];
+    if (files.length) {
+      lines.push("**Attachments**", "");
+      for (const file of files) {
+        lines.push(`- ${file?.name ?? "file"}${file?.mimeType ? ` (${file.mimeType})` : ""}`);
+      }
+      lines.push("");
+    }
+
+    const citations = Array.isArray(metadata?.citations) ? metadata!.citations : [];
+    if (citations.length) {
+      lines.push("**Sources**", "");
+      citations.forEach((citation, idx) => {
+        const label = citation.title?.trim() || citation.domain || citation.url;
+        lines.push(`${idx + 1}. [${label}](${citation.url})`);
+      });
+      lines.push("");
+    }
+  }
+
+  if (conversation.topics.length) {
+    lines.push(`${h}# Topics`, "");
+    for (const topic of conversation.topics) {
+      lines.push(`- **${topic.label}**${topic.summary ? ` — ${topic.summary}` : ""}`);
+    }
+    lines.push("");
+  }
+
+  if (conversation.artifacts.length) {
+    lines.push(`${h}# Artifacts`, "");
+    for (const artifact of conversation.artifacts) {
+      lines.push(`${h}## ${artifact.title} (${artifact.type})`, "");
+      if (artifact.summary) lines.push(`_${artifact.summary}_`, "");
+      lines.push(artifact.content, "");
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Human-readable Markdown rendering of a bundle (not round-trippable; use JSON for imports).
+ */
+export function renderConversationBundleMarkdown(bundle: ConversationBundle): string {
+  if (!bundle.project && bundle.conversations.length === 1) {
+    return `${renderConversationMarkdown(bundle.conversations[0], 1).trimEnd()}\n`;
+  }
+  const header = [
+    `# ${bundle.project?.name ?? "Conversations"}`,
+    "",
+    `_Exported ${formatTimestamp(bundle.exported_at)} · ${bundle.conversations.length} chat${
+      bundle.conversations.length === 1 ? "" : "s"
+    }_`,
+    "",
+  ].join("\n");
+  const body = bundle.conversations
+    .map((conversation) => renderConversationMarkdown(conversation, 2).trimEnd())
+    .join("\n\n---\n\n");
+  return `${header}\n${body}\n`;
+}
@@ -0,0 +1,365 @@
+import { randomUUID } from "crypto";
+import { enqueueImportTopicRebuild } from "@/lib/jobs/conversation-import";
+import { supabaseServer, supabaseServerAdmin } from "@/lib/supabase/server";
+import { requireUserIdServer } from "@/lib/supabase/user";
+import type { Json } from "@/lib/supabase/types";
+import {
+  CONVERSATION_BUNDLE_FORMAT,
+  type BundleArtifact,
+  type BundleMessage,
+  type BundleTopic,
+  type ConversationBundle,
+  type ConversationImportResult,
+} from "@/lib/types/conversation-bundle";
+
+const uuidPattern =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+function isValidUuid(value: string | null | undefined) {
+  return typeof value === "string" && uuidPattern.test(value);
+}
+
+const MAX_IMPORT_CONVERSATIONS = 500;
+const MESSAGE_INSERT_BATCH = 200;
+
+type ImportedConversation = {
+  sourceId: string | null;
+  title: string | null;
+  created_at: string | null;
+  metadata: Json | null;
+  active_leaf_message_id?: string | null;
+  messages: BundleMessage[];
+  topics: BundleTopic[];
+  artifacts: BundleArtifact[];
+};
+
+type ParsedImport = {
+  source: ConversationImportResult["source"];
+  conversations: ImportedConversation[];
+};
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function epochToIso(value: unknown): string | null {
+  const seconds = typeof value === "number" ? value : Number(value);
+  if (!Number.isFinite(seconds) || seconds <= 0) return null;
+  return new Date(seconds * 1000).toISOString();
+}
+
+/**
+ * Text of a ChatGPT export message. Non-text content (images, tool payloads, hidden
+ * reasoning) is reduced to placeholders or skipped.
+ */
+function chatGptMessageText(message: any): string {
+  const content = message?.content ?? {};
+  const contentType = content.content_type;
+  if (contentType === "text" || contentType === "multimodal_text") {
+    const parts: unknown[] = Array.isArray(content.parts) ? content.parts : [];
+    return parts
+      .map((part) => {
+        if (typeof part === "string") return part;
+        if (isRecord(part) && part.content_type === "image_asset_pointer") return "[image]";
+        if (isRecord(part) && typeof part.text === "string") return part.text;
+        return "";
+      })
+      .filter((part) => part.length > 0)
+      .join("\n\n")
+      .trim();
+  }
+  if (contentType === "code" && typeof content.text === "string") {
+    return `\`\`\`${content.language && content.language !== "unknown" ? content.language : ""}\n${content.text}\n\`\`\``;
+  }
+  return "";
+}
+
+function parseChatGptConversation(raw: Record<string, any>): ImportedConversation | null {
+  const mapping = isRecord(raw.mapping) ? raw.mapping : null;
+  if (!mapping) return null;
+
+  // Follow the active branch from the current node back to the root.
+  const chain: any[] = [];
+  const seen = new Set<string>();
+  let nodeId: string | null =
+    typeof raw.current_node === "string"
+      ? raw.current_node
+      : (Object.keys(mapping).find((key) => {
+          const children = mapping[key]?.children;
+          return !Array.isArray(children) || children.length === 0;
+        }) ?? null);
+  while (nodeId && mapping[nodeId] && !seen.has(nodeId)) {
+    seen.add(nodeId);
+    chain.push(mapping[nodeId]);
+    nodeId = mapping[nodeId].parent ?? null;
+  }
+  chain.reverse();
+
+  const messages: BundleMessage[] = [];
+  for (const node of chain) {
+    const message = node?.message;
+    const role = message?.author?.role;
+    if (role !== "user" && role !== "assistant") continue;
+    if (message?.metadata?.is_visually_hidden_from_conversation) continue;
+    const text = chatGptMessageText(message);
+    if (!text) continue;
+    const previous = messages[messages.length - 1];
+    // Consecutive assistant chunks (e.g. around tool calls) read as one reply.
+    if (previous && previous.role === "assistant" && role === "assistant") {
+      previous.content = `${previous.content}\n\n${text}`;
+      continue;
+    }
+    messages.push({
+      id: typeof message.id === "string" ? message.id : randomUUID(),
+      role,
+      content: text,
+      created_at: epochToIso(message.create_time) ?? epochToIso(raw.create_time),
+      topic_id: null,
+      preamble: null,
+      openai_response_id: null,
+      metadata: message?.metadata?.model_slug ? { modelUsed: message.metadata.model_slug } : {},
+    });
+  }
+
+  return {
+    sourceId: typeof raw.id === "string" ? raw.id : typeof raw.conversation_id === "string" ? raw.conversation_id : null,
+    title: typeof raw.title === "string" ? raw.title : null,
+    created_at: epochToIso(raw.create_time),
+    metadata: {},
+    messages,
+    topics: [],
+    artifacts: [],
+  };
+}
+
+/**
+ * Accepts either our own bundle (see conversation-export) or ChatGPT's `conversations.json`.
+ */
+export function parseConversationImport(payload: unknown): ParsedImport {
+  if (isRecord(payload) && payload.format === CONVERSATION_BUNDLE_FORMAT) {
+    const bundle = payload as unknown as ConversationBundle;
+    if (!Array.isArray(bundle.conversations)) {
+      throw new Error("Bundle has no conversations");
+    }
+    return {
+      source: "bundle",
+      conversations: bundle.conversations.map((conversation) => ({
+        sourceId: conversation.id ?? null,
+        title: conversation.title ?? null,
+        created_at: conversation.created_at ?? null,
+        metadata: conversation.metadata ?? {},
+        active_leaf_message_id: conversation.active_leaf_message_id ?? null,
+        messages: Array.isArray(conversation.messages) ? conversation.messages : [],
+        topics: Array.isArray(conversation.topics) ? conversation.topics : [],
+        artifacts: Array.isArray(conversation.artifacts) ? conversation.artifacts : [],
+      })),
+    };
+  }
+
+  const chatGptList = Array.isArray(payload) ? payload : isRecord(payload) && isRecord(payload.mapping) ? [payload] : null;
+  if (chatGptList && chatGptList.every((item) => isRecord(item) && isRecord(item.mapping))) {
+    return {
+      source: "chatgpt",
+      conversations: chatGptList
+        .map((item) => parseChatGptConversation(item as Record<string, any>))
+        .filter((item): item is ImportedConversation => Boolean(item)),
+    };
+  }
+
+  throw new Error("Unrecognized import format. Upload a conversation bundle or ChatGPT conversations.json.");
+}
+
+async function insertInBatches(supabaseAny: any, table: string, rows: Record<string, unknown>[]) {
+  for (let i = 0; i < rows.length; i += MESSAGE_INSERT_BATCH) {
+    const batch = rows.slice(i, i + MESSAGE_INSERT_BATCH);
+    const { error } = await supabaseAny.from(table).insert(batch);
+    if (error) {
+      throw new Error(`Failed to import ${table}: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Import conversations into the current user's account, optionally inside a project.
+ * Bundle topics/artifacts are restored with remapped ids; chats without topics (ChatGPT
+ * exports, or when `rebuildTopics` is set) get a topic rebuild queued on the background worker
+ * (lib/jobs/conversation-import.ts), so the request only pays for the inserts.
+ */
+export async function importConversations(params: {
+  payload: unknown;
+  projectId?: string | null;
+  rebuildTopics?: boolean;
+}): Promise<ConversationImportResult> {
+  const { projectId = null, rebuildTopics = false } = params;
+  if (projectId && !isValidUuid(projectId)) {
+    throw new Error("Invalid project ID");
+  }
+
+  const parsed = parseConversationImport(params.payload);
+  if (parsed.conversations.length > MAX_IMPORT_CONVERSATIONS) {
+    throw new Error(`Import is limited to ${MAX_IMPORT_CONVERSATIONS} conversations at a time`);
+  }
+
+  const supabase = await supabaseServer();
+  const userId = await requireUserIdServer();
+  const supabaseAny = supabase as any;
+
+  if (projectId) {
+    const { data: project, error } = await supabaseAny
+      .from("projects")
+      .select("id")
+      .eq("id", projectId)
+      .eq("user_id", userId)
+      .maybeSingle();
+    if (error || !project) {
+      throw new Error("Project not found");
+    }
+  }
+
+  const result: ConversationImportResult = { source: parsed.source, conversations: [], skipped: 0 };
+  const importedAt = new Date().toISOString();
+  // The job queue is service-role only; created on the first chat that needs a rebuild.
+  let adminClient: any = null;
+
+  for (const conversation of parsed.conversations) {
+    const messages = conversation.messages.filter(
+      (m) => typeof m?.content === "string" && (m.role === "user" || m.role === "assistant" || m.role === "system")
+    );
+    if (!messages.length) {
+      result.skipped += 1;
+      continue;
+    }
+
+    const sourceMetadata: unknown = conversation.metadata;
+    const baseMetadata = isRecord(sourceMetadata) ? sourceMetadata : {};
+    const { data: inserted, error: conversationError } = await supabaseAny
+      .from("conversations")
+      .insert([
+        {
+          user_id: userId,
+          title: conversation.title?.slice(0, 200) ?? "Imported chat",
+          project_id: projectId,
+          metadata: {
+            ...baseMetadata,
+            imported: { source: parsed.source, sourceId: conversation.sourceId, importedAt },
+          },
+          ...(conversation.created_at ? { created_at: conversation.created_at } : {}),
+        },
+      ])
+      .select()
+      .single();
+    if (conversationError || !inserted) {
+      throw new Error(`Failed to create imported conversation: ${conversationError?.message ?? "Unknown error"}`);
+    }
+    const conversationId = inserted.id as string;
+
+    const restoreTopics = !rebuildTopics && conversation.topics.length > 0;
+    const topicIdMap = new Map<string, string>();
+    if (restoreTopics) {
+      conversation.topics.forEach((topic) => topicIdMap.set(topic.id, randomUUID()));
+      await insertInBatches(
+        supabaseAny,
+        "conversation_topics",
+        conversation.topics.map((topic) => ({
+          id: topicIdMap.get(topic.id),
+          conversation_id: conversationId,
+          parent_topic_id: topic.parent_topic_id ? topicIdMap.get(topic.parent_topic_id) ?? null : null,
+          label: topic.label,
+          description: topic.description,
+          summary: topic.summary,
+          token_estimate: topic.token_estimate ?? 0,
+          ...(topic.created_at ? { created_at: topic.created_at } : {}),
+          ...(topic.updated_at ? { updated_at: topic.updated_at } : {}),
+        }))
+      );
+    }
+
+    const messageIdMap = new Map<string, string>();
+    const newIds = messages.map((message) => {
+      const id = randomUUID();
+      if (message.id) messageIdMap.set(message.id, id);
+      return id;
+    });
+    // Keep ordering stable even when source timestamps are missing or identical.
+    const fallbackBase = Date.parse(conversation.created_at ?? importedAt) || Date.now();
+    const messageRows = messages.map((message, idx) => {
+      // Bundles carry the branch tree; other sources (and older bundles) are a single linear thread.
+      const parentId =
+        message.parent_message_id !== undefined
+          ? (message.parent_message_id ? messageIdMap.get(message.parent_message_id) ?? null : null)
+          : idx > 0
+            ? newIds[idx - 1]
+            : null;
+      return {
+        id: newIds[idx],
+        user_id: userId,
+        conversation_id: conversationId,
+        parent_message_id: parentId,
+        branch_id: conversationId,
+        role: message.role,
+        content: message.content,
+        metadata: message.metadata ?? {},
+        preamble: message.preamble ?? null,
+        topic_id: restoreTopics && message.topic_id ? topicIdMap.get(message.topic_id) ?? null : null,
+        created_at: message.created_at ?? new Date(fallbackBase + idx).toISOString(),
+      };
+    });
+    await insertInBatches(supabaseAny, "messages", messageRows);
+    const importedLeafId = conversation.active_leaf_message_id
+      ? messageIdMap.get(conversation.active_leaf_message_id)
+      : null;
+    if (importedLeafId) {
+      await supabaseAny
+        .from("conversations")
+        .update({ active_leaf_message_id: importedLeafId })
+        .eq("id", conversationId)
+        .eq("user_id", userId);
+    }
+
+    if (restoreTopics && conversation.artifacts.length) {
+      await insertInBatches(
+        supabaseAny,
+        "artifacts",
+        conversation.artifacts.map((artifact) => ({
+          conversation_id: conversationId,
+          topic_id: artifact.topic_id ? topicIdMap.get(artifact.topic_id) ?? null : null,
+          created_by_message_id: artifact.created_by_message_id
+            ? messageIdMap.get(artifact.created_by_message_id) ?? null
+            : null,
+          type: artifact.type,
+          title: artifact.title,
+          summary: artifact.summary,
+          content: artifact.content,
+          ...(artifact.created_at ? { created_at: artifact.created_at } : {}),
+        }))
+      );
+    }
+
+    let topicsPending = false;
+    if (!restoreTopics) {
+      try {
+        adminClient ??= await supabaseServerAdmin();
+        await enqueueImportTopicRebuild(adminClient, { userId, conversationId });
+        topicsPending = true;
+      } catch (err) {
+        console.error(`[import] Failed to queue topic rebuild for ${conversationId}:`, err);
+      }
+    }
+
+    result.conversations.push({
+      id: conversationId,
+      title: inserted.title ?? null,
+      messageCount: messageRows.length,
+      topicCount: restoreTopics ? conversation.topics.length : 0,
+      topicsPending,
+    });
+  }
+
+  console.log("[import] Imported conversations", {
+    source: result.source,
+    count: result.conversations.length,
+    skipped: result.skipped,
+    projectId,
+  });
+  return result;
+}
@@ -0,0 +1,277 @@
+import { randomBytes } from "crypto";
+import { supabaseServer, supabaseServerAdmin } from "@/lib/supabase/server";
+import { requireUserIdServer } from "@/lib/supabase/user";
+import type { Database } from "@/lib/supabase/types";
+import type { AssistantMessageMetadata, CitationMetadata } from "@/lib/chatTypes";
+import { resolveActiveBranch, type BranchNode } from "@/lib/message-branches";
+import type {
+  ConversationShareSnapshot,
+  ConversationShareSummary,
+  SharedMessage,
+} from "@/lib/types/conversation-share";
+
+type MessageRow = Database["public"]["Tables"]["messages"]["Row"];
+
+type ConversationShareRow = {
+  id: string;
+  token: string;
+  user_id: string;
+  conversation_id: string;
+  title: string;
+  snapshot: ConversationShareSnapshot;
+  message_count: number;
+  expires_at: string | null;
+  revoked_at: string | null;
+  view_count: number;
+  created_at: string;
+};
+
+const uuidPattern =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+function isValidUuid(value: string | null | undefined) {
+  return typeof value === "string" && uuidPattern.test(value);
+}
+
+const shareTokenPattern = /^[A-Za-z0-9_-]{20,64}$/;
+
+// Supabase signed storage URLs (attachments) carry a bearer token in the query string.
+const SIGNED_URL_PATTERN = /https?:\/\/[^\s)"'<>]*\/storage\/v1\/object\/sign\/[^\s)"'<>]*/gi;
+const MARKDOWN_LINK_PATTERN = /(!?)\[([^\]]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g;
+
+function isSignedUrl(url: string) {
+  return /\/storage\/v1\/object\/sign\//i.test(url);
+}
+
+/**
+ * Remove signed attachment URLs from message text. Markdown images pointing at them are dropped,
+ * links keep their label, and bare URLs become a placeholder.
+ */
+function stripSignedUrls(content: string) {
+  return content
+    .replace(MARKDOWN_LINK_PATTERN, (match, bang: string, label: string, url: string) => {
+      if (!isSignedUrl(url)) return match;
+      return bang ? "" : label;
+    })
+    .replace(SIGNED_URL_PATTERN, "[attachment]");
+}
+
+function sanitizeCitations(raw: unknown): CitationMetadata[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((c): c is CitationMetadata => Boolean(c) && typeof (c as CitationMetadata).url === "string")
+    .filter((c) => /^https?:\/\//i.test(c.url.trim()) && !isSignedUrl(c.url))
+    .map((c) => ({
+      url: c.url.trim(),
+      title: typeof c.title === "string" ? c.title : null,
+      domain: typeof c.domain === "string" ? c.domain : null,
+      snippet: typeof c.snippet === "string" ? c.snippet : null,
+    }));
+}
+
+function toSharedMessage(row: MessageRow, index: number): SharedMessage | null {
+  if (row.role !== "user" && row.role !== "assistant") return null;
+  const content = stripSignedUrls(row.content ?? "").trim();
+  if (!content) return null;
+  const metadata = (row.metadata && typeof row.metadata === "object" && !Array.isArray(row.metadata)
+    ? row.metadata
+    : {}) as AssistantMessageMetadata;
+  const message: SharedMessage = {
+    id: `m${index + 1}`,
+    role: row.role,
+    content,
+    created_at: row.created_at ?? null,
+  };
+  if (row.role === "assistant") {
+    const citations = sanitizeCitations(metadata.citations);
+    if (citations.length) message.citations = citations;
+    if (typeof metadata.modelUsed === "string") message.modelUsed = metadata.modelUsed;
+  }
+  return message;
+}
+
+function toShareSummary(row: Omit<ConversationShareRow, "snapshot">): ConversationShareSummary {
+  const expired = Boolean(row.expires_at && new Date(row.expires_at).getTime() <= Date.now());
+  return {
+    id: row.id,
+    token: row.token,
+    conversationId: row.conversation_id,
+    title: row.title,
+    messageCount: row.message_count,
+    expiresAt: row.expires_at,
+    revokedAt: row.revoked_at,
+    viewCount: row.view_count ?? 0,
+    createdAt: row.created_at,
+    status: row.revoked_at ? "revoked" : expired ? "expired" : "active",
+  };
+}
+
+const SUMMARY_COLUMNS =
+  "id, token, user_id, conversation_id, title, message_count, expires_at, revoked_at, view_count, created_at";
+
+export async function createConversationShare(params: {
+  conversationId: string;
+  expiresInDays?: number | null;
+}): Promise<ConversationShareSummary> {
+  if (!isValidUuid(params.conversationId)) {
+    throw new Error("Invalid conversation ID");
+  }
+  const expiresInDays = params.expiresInDays ?? null;
+  if (expiresInDays !== null && (!Number.isFinite(expiresInDays) || expiresInDays <= 0 || expiresInDays > 365)) {
+    throw new Error("Invalid expiry");
+  }
+
+  const supabase = await supabaseServer();
+  const supabaseAny = supabase as any;
+  const userId = await requireUserIdServer();
+
+  const { data: conversation, error: conversationError } = await supabaseAny
+    .from("conversations")
+    .select("id, title, active_leaf_message_id")
+    .eq("id", params.conversationId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (conversationError) {
+    throw new Error(`Failed to load conversation: ${conversationError.message}`);
+  }
+  if (!conversation) {
+    throw new Error("Conversation not found");
+  }
+
+  const { data: rows, error: messagesError } = await supabase
+    .from("messages")
+    .select("*")
+    .eq("conversation_id", params.conversationId)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true })
+    .returns<MessageRow[]>();
+  if (messagesError) {
+    throw new Error(`Failed to load messages: ${messagesError.message}`);
+  }
+
+  const allMessages = rows ?? [];
+  const { pathIds } = resolveActiveBranch(
+    allMessages as unknown as BranchNode[],
+    conversation.active_leaf_message_id ?? null
+  );
+  const byId = new Map(allMessages.map((m) => [m.id, m]));
+  const messages = pathIds
+    .map((id) => byId.get(id))
+    .filter((m): m is MessageRow => Boolean(m))
+    .map(toSharedMessage)
+    .filter((m): m is SharedMessage => Boolean(m));
+  if (!messages.length) {
+    throw new Error("Conversation has no messages to share");
+  }
+
+  const title = conversation.title?.trim() || "Untitled chat";
+  const now = new Date();
+  const snapshot: ConversationShareSnapshot = {
+    version: 1,
+    title,
+    created_at: now.toISOString(),
+    messages,
+  };
+
+  const { data, error } = await supabaseAny
+    .from("conversation_shares")
+    .insert({
+      token: randomBytes(24).toString("base64url"),
+      user_id: userId,
+      conversation_id: params.conversationId,
+      title,
+      snapshot,
+      message_count: messages.length,
+      expires_at: expiresInDays
+        ? new Date(now.getTime() + expiresInDays * 86_400_000).toISOString()
+        : null,
+    })
+    .select(SUMMARY_COLUMNS)
+    .single();
+  if (error || !data) {
+    throw new Error(`Failed to create share: ${error?.message ?? "Unknown error"}`);
+  }
+  return toShareSummary(data);
+}
+
+export async function listConversationShares(params?: { conversationId?: string | null }) {
+  const supabase = await supabaseServer();
+  const userId = await requireUserIdServer();
+
+  let query = (supabase as any)
+    .from("conversation_shares")
+    .select(SUMMARY_COLUMNS)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+  if (params?.conversationId) {
+    if (!isValidUuid(params.conversationId)) {
+      throw new Error("Invalid conversation ID");
+    }
+    query = query.eq("conversation_id", params.conversationId);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load shares: ${error.message}`);
+  }
+  return ((data ?? []) as ConversationShareRow[]).map(toShareSummary);
+}
+
+export async function revokeConversationShare(shareId: string) {
+  if (!isValidUuid(shareId)) {
+    throw new Error("Invalid share ID");
+  }
+  const supabase = await supabaseServer();
+  const userId = await requireUserIdServer();
+
+  const { data, error } = await (supabase as any)
+    .from("conversation_shares")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", shareId)
+    .eq("user_id", userId)
+    .is("revoked_at", null)
+    .select(SUMMARY_COLUMNS)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to revoke share: ${error.message}`);
+  }
+  if (!data) {
+    throw new Error("Share not found");
+  }
+  return toShareSummary(data);
+}
+
+/**
+ * Public lookup for /share/[token]. Runs with the service role (viewers are anonymous), so it
+ * only ever returns the stored snapshot, and nothing for revoked or expired links.
+ */
+export async function getSharedConversation(token: string) {
+  if (!shareTokenPattern.test(token)) return null;
+  const supabase = await supabaseServerAdmin();
+  const supabaseAny = supabase as any;
+
+  const { data, error } = await supabaseAny
+    .from("conversation_shares")
+    .select("id, snapshot, expires_at, revoked_at, view_count")
+    .eq("token", token)
+    .maybeSingle();
+  if (error) {
+    console.error("[share] Failed to load share:", error);
+    return null;
+  }
+  if (!data || data.revoked_at) return null;
+  if (data.expires_at && new Date(data.expires_at).getTime() <= Date.now()) return null;
+
+  void supabaseAny
+    .from("conversation_shares")
+    .update({ view_count: (data.view_count ?? 0) + 1 })
+    .eq("id", data.id)
+    .then(({ error: viewError }: { error: { message: string } | null }) => {
+      if (viewError) console.warn("[share] Failed to bump view count:", viewError.message);
+    });
+
+  return {
+    snapshot: data.snapshot as ConversationShareSnapshot,
+    expiresAt: (data.expires_at as string | null) ?? null,
+  };
+}
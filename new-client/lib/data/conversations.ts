@@ -16,6 +16,7 @@ export async function getConversationsForUser(options?: {
   includeHumanWriting?: boolean;
   includeMarketAgent?: boolean;
   includeSga?: boolean;
+  includeAutomations?: boolean;
 }) {
   const supabase = await supabaseServer();
   const userId = await requireUserIdServer();
@@ -38,6 +39,10 @@ export async function getConversationsForUser(options?: {
   if (!options?.includeSga) {
     conversationQuery.neq("metadata->>agent", "sga");
   }
+  // Exclude automation run chats from general lists; they are reached from the run history
+  if (!options?.includeAutomations) {
+    conversationQuery.neq("metadata->>agent", "automation-builder");
+  }
 
   if (options) {
     if (options.projectId) {
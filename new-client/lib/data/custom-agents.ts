@@ -0,0 +1,482 @@
+import {
+  CUSTOM_AGENT_ICONS,
+  normalizeCustomAgentTools,
+  type CustomAgent,
+  type CustomAgentTool,
+} from "@/lib/agents/customAgents";
+import {
+  adjustTrackedVectorBytes,
+  assertUploadable,
+  getVectorStoreClient,
+  removeFromVectorStore,
+  uploadToVectorStore,
+  type ProjectFileStatus,
+} from "@/lib/data/project-files";
+import { normalizeModelFamily } from "@/lib/modelConfig";
+import { calculateVectorStorageCost } from "@/lib/pricing";
+import { supabaseServer } from "@/lib/supabase/server";
+import { requireUserIdServer } from "@/lib/supabase/user";
+import { logUsageRecord } from "@/lib/usage";
+
+const CUSTOM_AGENT_LIMIT = 50;
+const NAME_LIMIT = 60;
+const DESCRIPTION_LIMIT = 200;
+const SYSTEM_PROMPT_LIMIT = 8000;
+
+export type CustomAgentInput = {
+  name: string;
+  description: string | null;
+  icon: string;
+  systemPrompt: string;
+  allowedTools: CustomAgentTool[];
+  defaultModelFamily: CustomAgent["defaultModelFamily"];
+};
+
+export type CustomAgentFile = {
+  id: string;
+  agentId: string;
+  name: string;
+  mime: string | null;
+  sizeBytes: number;
+  status: ProjectFileStatus;
+  error: string | null;
+  createdAt: string;
+};
+
+/** What the chat route needs to apply an agent to a turn; the vector store id stays server-side. */
+export type CustomAgentRuntime = CustomAgent & { vectorStoreId: string | null };
+
+type CustomAgentRow = {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string | null;
+  icon: string | null;
+  system_prompt: string | null;
+  allowed_tools: string[] | null;
+  default_model_family: string | null;
+  vector_store_id: string | null;
+  created_at: string;
+  updated_at: string;
+  custom_agent_files?: Array<{ count: number }>;
+};
+
+type CustomAgentFileRow = {
+  id: string;
+  agent_id: string;
+  user_id: string;
+  name: string;
+  mime: string | null;
+  size_bytes: number | string | null;
+  openai_file_id: string | null;
+  status: string | null;
+  error: string | null;
+  created_at: string;
+};
+
+const AGENT_COLUMNS = "*, custom_agent_files(count)";
+
+const uuidPattern =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+function isValidUuid(value: string | null | undefined) {
+  return typeof value === "string" && uuidPattern.test(value);
+}
+
+function toCustomAgent(row: CustomAgentRow): CustomAgent {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description ?? null,
+    icon: row.icon && CUSTOM_AGENT_ICONS[row.icon] ? row.icon : "bot",
+    systemPrompt: row.system_prompt ?? "",
+    allowedTools: normalizeCustomAgentTools(row.allowed_tools),
+    defaultModelFamily: normalizeModelFamily(row.default_model_family),
+    fileCount: Number(row.custom_agent_files?.[0]?.count ?? 0) || 0,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toCustomAgentFile(row: CustomAgentFileRow): CustomAgentFile {
+  const status: ProjectFileStatus =
+    row.status === "ready" || row.status === "failed" ? row.status : "processing";
+  return {
+    id: row.id,
+    agentId: row.agent_id,
+    name: row.name,
+    mime: row.mime ?? null,
+    sizeBytes: Number(row.size_bytes ?? 0) || 0,
+    status,
+    error: row.error ?? null,
+    createdAt: row.created_at,
+  };
+}
+
+/** Validates the fields present in `input` and maps them to columns. */
+function buildAgentColumns(input: Partial<CustomAgentInput>) {
+  const columns: Record<string, unknown> = {};
+  if (input.name !== undefined) {
+    const name = typeof input.name === "string" ? input.name.trim() : "";
+    if (!name || name.length > NAME_LIMIT) {
+      throw new Error(`Invalid name: use 1-${NAME_LIMIT} characters`);
+    }
+    columns.name = name;
+  }
+  if (input.description !== undefined) {
+    if (input.description !== null && typeof input.description !== "string") {
+      throw new Error("Invalid description");
+    }
+    const description = input.description?.trim() ?? "";
+    if (description.length > DESCRIPTION_LIMIT) {
+      throw new Error(`Invalid description: keep it under ${DESCRIPTION_LIMIT} characters`);
+    }
+    columns.description = description || null;
+  }
+  if (input.icon !== undefined) {
+    if (typeof input.icon !== "string" || !CUSTOM_AGENT_ICONS[input.icon]) {
+      throw new Error("Invalid icon");
+    }
+    columns.icon = input.icon;
+  }
+  if (input.systemPrompt !== undefined) {
+    if (typeof input.systemPrompt !== "string") {
+      throw new Error("Invalid system prompt");
+    }
+    const systemPrompt = input.systemPrompt.trim();
+    if (systemPrompt.length > SYSTEM_PROMPT_LIMIT) {
+      throw new Error(`Invalid system prompt: keep it under ${SYSTEM_PROMPT_LIMIT} characters`);
+    }
+    columns.system_prompt = systemPrompt;
+  }
+  if (input.allowedTools !== undefined) {
+    if (!Array.isArray(input.allowedTools)) {
+      throw new Error("Invalid tools");
+    }
+    const tools = normalizeCustomAgentTools(input.allowedTools);
+    if (tools.length !== new Set(input.allowedTools).size) {
+      throw new Error("Invalid tools");
+    }
+    columns.allowed_tools = tools;
+  }
+  if (input.defaultModelFamily !== undefined) {
+    const family = normalizeModelFamily(input.defaultModelFamily);
+    if (family !== input.defaultModelFamily) {
+      throw new Error("Invalid model family");
+    }
+    columns.default_model_family = family === "auto" ? null : family;
+  }
+  return columns;
+}
+
+async function requireOwnedAgent(supabase: any, userId: string, agentId: string) {
+  if (!isValidUuid(agentId)) {
+    throw new Error("Invalid agent ID");
+  }
+  const { data, error } = await supabase
+    .from("custom_agents")
+    .select(AGENT_COLUMNS)
+    .eq("id", agentId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load agent: ${error.message}`);
+  }
+  if (!data) {
+    throw new Error("Agent not found");
+  }
+  return data as CustomAgentRow;
+}
+
+/** Same first-upload race handling as ensureProjectVectorStore. */
+async function ensureAgentVectorStore(
+  supabase: any,
+  openai: ReturnType<typeof getVectorStoreClient>,
+  agent: { id: string; vector_store_id: string | null }
+) {
+  if (agent.vector_store_id) return agent.vector_store_id;
+
+  const store = await openai.vectorStores.create({
+    name: `agent-${agent.id}`,
+    metadata: { custom_agent_id: agent.id },
+  });
+  const { data: claimed } = await supabase
+    .from("custom_agents")
+    .update({ vector_store_id: store.id })
+    .eq("id", agent.id)
+    .is("vector_store_id", null)
+    .select("vector_store_id")
+    .maybeSingle();
+  if (claimed?.vector_store_id === store.id) {
+    return store.id;
+  }
+
+  const { data: current } = await supabase
+    .from("custom_agents")
+    .select("vector_store_id")
+    .eq("id", agent.id)
+    .maybeSingle();
+  try {
+    await openai.vectorStores.delete(store.id);
+  } catch (err) {
+    console.warn("[customAgents] Failed to remove duplicate vector store:", err);
+  }
+  if (!current?.vector_store_id) {
+    throw new Error("Failed to attach vector store to agent");
+  }
+  return current.vector_store_id as string;
+}
+
+export async function listCustomAgents(): Promise<CustomAgent[]> {
+  const supabase = await supabaseServer();
+  const userId = await requireUserIdServer();
+
+  const { data, error } = await (supabase as any)
+    .from("custom_agents")
+    .select(AGENT_COLUMNS)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true });
+  if (error) {
+    throw new Error(`Failed to load agents: ${error.message}`);
+  }
+  return ((data ?? []) as CustomAgentRow[]).map((row) => toCustomAgent(row));
+}
+
+export async function getCustomAgent(agentId: string): Promise<CustomAgent> {
+  const supabase = await supabaseServer();
+  const userId = await requireUserIdServer();
+  const row = await requireOwnedAgent(supabase as any, userId, agentId);
+  return toCustomAgent(row);
+}
+
+export async function createCustomAgent(input: Partial<CustomAgentInput>): Promise<CustomAgent> {
+  if (input.name === undefined) {
+    throw new Error("Invalid name: an agent needs a name");
+  }
+  const columns = buildAgentColumns(input);
+  const supabase = await supabaseServer();
+  const supabaseAny = supabase as any;
+  const userId = await requireUserIdServer();
+
+  const { count } = await supabaseAny
+    .from("custom_agents")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId);
+  if ((count ?? 0) >= CUSTOM_AGENT_LIMIT) {
+    throw new Error(`Invalid request: you can keep up to ${CUSTOM_AGENT_LIMIT} agents`);
+  }
+
+  const { data, error } = await supabaseAny
+    .from("custom_agents")
+    .insert({ ...columns, user_id: userId })
+    .select(AGENT_COLUMNS)
+    .single();
+  if (error || !data) {
+    throw new Error(`Failed to create agent: ${error?.message ?? "Unknown error"}`);
+  }
+  return toCustomAgent(data as CustomAgentRow);
+}
+
+/** Partial update: only the fields present in `input` change. */
+export async function updateCustomAgent(agentId: string, input: Partial<CustomAgentInput>): Promise<CustomAgent> {
+  if (!isValidUuid(agentId)) {
+    throw new Error("Invalid agent ID");
+  }
+  const columns = buildAgentColumns(input);
+  if (!Object.keys(columns).length) {
+    return getCustomAgent(agentId);
+  }
+  const supabase = await supabaseServer();
+  const userId = await requireUserIdServer();
+
+  const { data, error } = await (supabase as any)
+    .from("custom_agents")
+    .update({ ...columns, updated_at: new Date().toISOString() })
+    .eq("id", agentId)
+    .eq("user_id", userId)
+    .select(AGENT_COLUMNS)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to update agent: ${error.message}`);
+  }
+  if (!data) {
+    throw new Error("Agent not found");
+  }
+  return toCustomAgent(data as CustomAgentRow);
+}
+
+/** Deletes the agent along with its vector store; file rows go with it via cascade. */
+export async function deleteCustomAgent(agentId: string) {
+  const supabase = await supabaseServer();
+  const supabaseAny = supabase as any;
+  const userId = await requireUserIdServer();
+  const agent = await requireOwnedAgent(supabaseAny, userId, agentId);
+
+  const { data: rows } = await supabaseAny
+    .from("custom_agent_files")
+    .select("openai_file_id, status, size_bytes")
+    .eq("agent_id", agentId)
+    .eq("user_id", userId);
+  const files = (rows ?? []) as Array<Pick<CustomAgentFileRow, "openai_file_id" | "status" | "size_bytes">>;
+
+  if (agent.vector_store_id) {
+    try {
+      const openai = getVectorStoreClient();
+      for (const row of files) {
+        await removeFromVectorStore(openai, null, row.openai_file_id);
+      }
+      await openai.vectorStores.delete(agent.vector_store_id);
+    } catch (err) {
+      console.warn("[customAgents] Failed to delete agent vector store:", err);
+    }
+  }
+
+  const { error } = await supabaseAny.from("custom_agents").delete().eq("id", agentId).eq("user_id", userId);
+  if (error) {
+    throw new Error(`Failed to delete agent: ${error.message}`);
+  }
+
+  const readyBytes = files
+    .filter((row) => row.status === "ready")
+    .reduce((sum, row) => sum + (Number(row.size_bytes ?? 0) || 0), 0);
+  await adjustTrackedVectorBytes(supabaseAny, userId, -readyBytes);
+}
+
+export async function listCustomAgentFiles(agentId: string): Promise<CustomAgentFile[]> {
+  const supabase = await supabaseServer();
+  const supabaseAny = supabase as any;
+  const userId = await requireUserIdServer();
+  await requireOwnedAgent(supabaseAny, userId, agentId);
+
+  const { data, error } = await supabaseAny
+    .from("custom_agent_files")
+    .select("*")
+    .eq("agent_id", agentId)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+  if (error) {
+    throw new Error(`Failed to load agent files: ${error.message}`);
+  }
+  return ((data ?? []) as CustomAgentFileRow[]).map(toCustomAgentFile);
+}
+
+export async function uploadCustomAgentFile(agentId: string, file: File): Promise<CustomAgentFile> {
+  assertUploadable(file);
+  const supabase = await supabaseServer();
+  const supabaseAny = supabase as any;
+  const userId = await requireUserIdServer();
+  const agent = await requireOwnedAgent(supabaseAny, userId, agentId);
+
+  const { data: inserted, error: insertError } = await supabaseAny
+    .from("custom_agent_files")
+    .insert({
+      agent_id: agentId,
+      user_id: userId,
+      name: file.name || "file",
+      mime: file.type || null,
+      size_bytes: file.size,
+      status: "processing",
+    })
+    .select("*")
+    .single();
+  if (insertError || !inserted) {
+    throw new Error(`Failed to create agent file: ${insertError?.message ?? "Unknown error"}`);
+  }
+
+  let patch: Record<string, unknown>;
+  try {
+    const openai = getVectorStoreClient();
+    const vectorStoreId = await ensureAgentVectorStore(supabaseAny, openai, agent);
+    const result = await uploadToVectorStore(openai, vectorStoreId, file);
+    patch = { openai_file_id: result.openaiFileId, status: result.status, error: result.error };
+  } catch (err) {
+    console.error("[customAgents] Upload failed:", err);
+    patch = { status: "failed", error: err instanceof Error ? err.message : "Upload failed" };
+  }
+
+  const { data: updated, error: updateError } = await supabaseAny
+    .from("custom_agent_files")
+    .update({ ...patch, updated_at: new Date().toISOString() })
+    .eq("id", inserted.id)
+    .select("*")
+    .single();
+  if (updateError || !updated) {
+    throw new Error(`Failed to update agent file: ${updateError?.message ?? "Unknown error"}`);
+  }
+
+  if (updated.status === "ready") {
+    await adjustTrackedVectorBytes(supabaseAny, userId, file.size);
+    await logUsageRecord({
+      userId,
+      conversationId: null,
+      model: "vector-storage",
+      inputTokens: 0,
+      cachedTokens: 0,
+      outputTokens: 0,
+      estimatedCost: calculateVectorStorageCost(file.size, 1),
+      eventType: "storage",
+      metadata: { bytes: file.size, durationDays: 1, source: "agent_upload", agentId },
+    });
+  }
+  return toCustomAgentFile(updated as CustomAgentFileRow);
+}
+
+export async function deleteCustomAgentFile(agentId: string, fileId: string) {
+  if (!isValidUuid(fileId)) {
+    throw new Error("Invalid file ID");
+  }
+  const supabase = await supabaseServer();
+  const supabaseAny = supabase as any;
+  const userId = await requireUserIdServer();
+  const agent = await requireOwnedAgent(supabaseAny, userId, agentId);
+
+  const { data: existing, error: loadError } = await supabaseAny
+    .from("custom_agent_files")
+    .select("*")
+    .eq("id", fileId)
+    .eq("agent_id", agentId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (loadError) {
+    throw new Error(`Failed to load agent file: ${loadError.message}`);
+  }
+  if (!existing) {
+    throw new Error("Agent file not found");
+  }
+
+  if (existing.openai_file_id) {
+    await removeFromVectorStore(getVectorStoreClient(), agent.vector_store_id, existing.openai_file_id);
+  }
+  const { error } = await supabaseAny.from("custom_agent_files").delete().eq("id", fileId).eq("user_id", userId);
+  if (error) {
+    throw new Error(`Failed to delete agent file: ${error.message}`);
+  }
+  if (existing.status === "ready") {
+    await adjustTrackedVectorBytes(supabaseAny, userId, -(Number(existing.size_bytes ?? 0) || 0));
+  }
+}
+
+/**
+ * Loads an agent for the chat route with the route's own client. Returns null (rather than
+ * throwing) for ids that don't resolve, so a deleted agent degrades to a plain chat.
+ */
+export async function loadCustomAgentForChat(
+  supabase: any,
+  userId: string,
+  agentId: string
+): Promise<CustomAgentRuntime | null> {
+  if (!isValidUuid(agentId)) return null;
+  const { data, error } = await supabase
+    .from("custom_agents")
+    .select(AGENT_COLUMNS)
+    .eq("id", agentId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) {
+    console.warn("[customAgents] Failed to load agent for chat:", error.message);
+    return null;
+  }
+  if (!data) return null;
+  const row = data as CustomAgentRow;
+  return { ...toCustomAgent(row), vectorStoreId: row.vector_store_id ?? null };
+}
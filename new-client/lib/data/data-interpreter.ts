@@ -0,0 +1,446 @@
+import { randomUUID } from "node:crypto";
+import { toFile } from "openai";
+import {
+  detectDatasetFormat,
+  profileDataset,
+  renderDatasetProfile,
+  type DatasetFormat,
+  type DatasetProfile,
+} from "@/lib/data-interpreter/profile";
+import { createOpenAIClient } from "@/lib/openai/client";
+import { supabaseServer, supabaseServerAdmin } from "@/lib/supabase/server";
+import { requireUserIdServer } from "@/lib/supabase/user";
+
+// A Data Interpreter session is a conversation tagged metadata.agent = "data-interpreter". The
+// dataset sits in the private "datasets" bucket and is copied into the conversation's
+// code_interpreter container, which is recreated (and re-seeded) whenever it expires.
+
+export const DATA_INTERPRETER_AGENT_ID = "data-interpreter";
+
+const DATASET_BUCKET = "datasets";
+const DATASET_MAX_BYTES = 50 * 1024 * 1024;
+const NOTEBOOK_RECAP_STEPS = 6;
+const QUESTION_LIMIT = 2000;
+const LOG_LIMIT = 8000;
+
+export type DataInterpreterDataset = {
+  name: string;
+  path: string;
+  mime: string | null;
+  sizeBytes: number;
+  format: DatasetFormat;
+  profile: DatasetProfile;
+  uploadedAt: string;
+  // Set once the file has been copied into a container; cleared implicitly when the container changes.
+  containerId?: string | null;
+  containerPath?: string | null;
+};
+
+export type NotebookFile = {
+  containerId: string;
+  fileId: string;
+  filename: string;
+};
+
+export type NotebookStep = {
+  id: string;
+  stepIndex: number;
+  messageId: string | null;
+  question: string | null;
+  code: string;
+  logs: string | null;
+  files: NotebookFile[];
+  containerId: string | null;
+  createdAt: string;
+};
+
+export type DataInterpreterSession = {
+  id: string;
+  title: string;
+  dataset: DataInterpreterDataset;
+  stepCount: number;
+  createdAt: string;
+};
+
+export type DataInterpreterSessionDetail = DataInterpreterSession & { steps: NotebookStep[] };
+
+type SessionRow = {
+  id: string;
+  title: string | null;
+  metadata: unknown;
+  created_at: string;
+  data_interpreter_steps?: Array<{ count: number }>;
+};
+
+type StepRow = {
+  id: string;
+  step_index: number;
+  message_id: string | null;
+  question: string | null;
+  code: string | null;
+  logs: string | null;
+  files: unknown;
+  container_id: string | null;
+  created_at: string;
+};
+
+const SESSION_COLUMNS = "id, title, metadata, created_at, data_interpreter_steps(count)";
+
+const uuidPattern =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+function isValidUuid(value: string | null | undefined) {
+  return typeof value === "string" && uuidPattern.test(value);
+}
+
+function safeFileName(name: string) {
+  return name.replace(/[^a-zA-Z0-9._-]/g, "_");
+}
+
+/** The dataset a conversation was created for, or null when it isn't a Data Interpreter session. */
+export function parseDataInterpreterDataset(metadata: unknown): DataInterpreterDataset | null {
+  if (!metadata || typeof metadata !== "object") return null;
+  const meta = metadata as Record<string, any>;
+  if (meta.agent !== DATA_INTERPRETER_AGENT_ID) return null;
+  const dataset = meta.dataInterpreter?.dataset;
+  if (!dataset || typeof dataset !== "object") return null;
+  if (typeof dataset.name !== "string" || typeof dataset.path !== "string" || !dataset.profile) return null;
+  return dataset as DataInterpreterDataset;
+}
+
+function normalizeFiles(value: unknown): NotebookFile[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter(
+    (file): file is NotebookFile =>
+      Boolean(file) &&
+      typeof file.containerId === "string" &&
+      typeof file.fileId === "string" &&
+      typeof file.filename === "string"
+  );
+}
+
+function toSession(row: SessionRow): DataInterpreterSession | null {
+  const dataset = parseDataInterpreterDataset(row.metadata);
+  if (!dataset) return null;
+  return {
+    id: row.id,
+    title: row.title || `Data: ${dataset.name}`,
+    dataset,
+    stepCount: row.data_interpreter_steps?.[0]?.count ?? 0,
+    createdAt: row.created_at,
+  };
+}
+
+function toStep(row: StepRow): NotebookStep {
+  return {
+    id: row.id,
+    stepIndex: row.step_index,
+    messageId: row.message_id,
+    question: row.question,
+    code: row.code ?? "",
+    logs: row.logs,
+    files: normalizeFiles(row.files),
+    containerId: row.container_id,
+    createdAt: row.created_at,
+  };
+}
+
+export async function listDataInterpreterSessions(): Promise<DataInterpreterSession[]> {
+  const supabase = await supabaseServer();
+  const supabaseAny = supabase as any;
+  const userId = await requireUserIdServer();
+
+  const { data, error } = await supabaseAny
+    .from("conversations")
+    .select(SESSION_COLUMNS)
+    .eq("user_id", userId)
+    .eq("metadata->>agent", DATA_INTERPRETER_AGENT_ID)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load data sessions: ${error.message}`);
+  }
+
+  return ((data ?? []) as SessionRow[])
+    .map(toSession)
+    .filter((session): session is DataInterpreterSession => Boolean(session));
+}
+
+export async function getDataInterpreterSession(sessionId: string): Promise<DataInterpreterSessionDetail> {
+  if (!isValidUuid(sessionId)) {
+    throw new Error("Invalid session id");
+  }
+  const supabase = await supabaseServer();
+  const supabaseAny = supabase as any;
+  const userId = await requireUserIdServer();
+
+  const { data, error } = await supabaseAny
+    .from("conversations")
+    .select(SESSION_COLUMNS)
+    .eq("id", sessionId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load data session: ${error.message}`);
+  }
+  const session = data ? toSession(data as SessionRow) : null;
+  if (!session) {
+    throw new Error("Data session not found");
+  }
+
+  const { data: stepRows, error: stepsError } = await supabaseAny
+    .from("data_interpreter_steps")
+    .select("*")
+    .eq("conversation_id", sessionId)
+    .eq("user_id", userId)
+    .order("step_index", { ascending: true });
+
+  if (stepsError) {
+    throw new Error(`Failed to load notebook: ${stepsError.message}`);
+  }
+
+  return { ...session, steps: ((stepRows ?? []) as StepRow[]).map(toStep) };
+}
+
+export async function createDataInterpreterSession(file: File): Promise<DataInterpreterSession> {
+  const supabase = await supabaseServer();
+  const supabaseAny = supabase as any;
+  const userId = await requireUserIdServer();
+
+  if (!file.size) {
+    throw new Error("Invalid dataset: the file is empty");
+  }
+  if (file.size > DATASET_MAX_BYTES) {
+    throw new Error(`Dataset exceeds ${Math.round(DATASET_MAX_BYTES / (1024 * 1024))} MB limit`);
+  }
+  const name = file.name || "dataset";
+  const mime = file.type || null;
+  if (!detectDatasetFormat(name, mime)) {
+    throw new Error("Invalid dataset: upload a CSV, TSV, PSV, NDJSON or XLSX file");
+  }
+
+  const buffer = Buffer.from(await file.arrayBuffer());
+  const profile = await profileDataset(buffer, name, mime);
+
+  const admin = await supabaseServerAdmin();
+  const path = `${userId}/${randomUUID()}-${safeFileName(name)}`;
+  const { error: uploadError } = await admin.storage.from(DATASET_BUCKET).upload(path, buffer, {
+    upsert: false,
+    contentType: mime ?? undefined,
+  });
+  if (uploadError) {
+    throw new Error(`Failed to store dataset: ${uploadError.message}`);
+  }
+
+  const dataset: DataInterpreterDataset = {
+    name,
+    path,
+    mime,
+    sizeBytes: file.size,
+    format: profile.format,
+    profile,
+    uploadedAt: new Date().toISOString(),
+  };
+
+  const { data, error } = await supabaseAny
+    .from("conversations")
+    .insert([
+      {
+        user_id: userId,
+        title: `Data: ${name}`,
+        project_id: null,
+        metadata: {
+          agent: DATA_INTERPRETER_AGENT_ID,
+          agent_chat: true,
+          dataInterpreter: { dataset },
+        },
+      },
+    ])
+    .select(SESSION_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    await admin.storage.from(DATASET_BUCKET).remove([path]).catch(() => undefined);
+    throw new Error(`Failed to create data session: ${error?.message ?? "Unknown error"}`);
+  }
+
+  const session = toSession(data as SessionRow);
+  if (!session) {
+    throw new Error("Failed to create data session: metadata was not saved");
+  }
+  return session;
+}
+
+async function isContainerLive(openai: ReturnType<typeof createOpenAIClient>, containerId: string) {
+  try {
+    const container = await openai.containers.retrieve(containerId);
+    return container.status !== "expired";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Makes sure the session's dataset is inside a live code_interpreter container. Reuses the
+ * conversation's container while it is alive; otherwise creates a new one and copies the dataset
+ * in from storage. Returns the updated conversation metadata (persisted) and where the file lives.
+ */
+export async function ensureDataInterpreterContainer(
+  supabase: any,
+  params: { conversationId: string; userId: string; metadata: Record<string, any> }
+): Promise<{ metadata: Record<string, any>; containerId: string; containerPath: string }> {
+  const dataset = parseDataInterpreterDataset(params.metadata);
+  if (!dataset) {
+    throw new Error("Invalid data session: no dataset on conversation");
+  }
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) {
+    throw new Error("OpenAI API key not configured");
+  }
+  const openai = createOpenAIClient({ apiKey });
+
+  const ciMeta =
+    params.metadata.codeInterpreter && typeof params.metadata.codeInterpreter === "object"
+      ? params.metadata.codeInterpreter
+      : {};
+  const currentContainerId = typeof ciMeta.containerId === "string" ? ciMeta.containerId : null;
+  if (
+    currentContainerId &&
+    dataset.containerId === currentContainerId &&
+    dataset.containerPath &&
+    (await isContainerLive(openai, currentContainerId))
+  ) {
+    return { metadata: params.metadata, containerId: currentContainerId, containerPath: dataset.containerPath };
+  }
+
+  const admin = await supabaseServerAdmin();
+  const { data: blob, error: downloadError } = await admin.storage.from(DATASET_BUCKET).download(dataset.path);
+  if (downloadError || !blob) {
+    throw new Error(`Failed to load dataset: ${downloadError?.message ?? "missing file"}`);
+  }
+
+  const container = await openai.containers.create({
+    name: `data-${params.conversationId}`,
+    memory_limit: "4g",
+  });
+  const uploaded = await openai.containers.files.create(container.id, {
+    file: await toFile(Buffer.from(await blob.arrayBuffer()), dataset.name),
+  });
+  const containerPath = uploaded.path || `/mnt/data/${dataset.name}`;
+
+  const nextMetadata = {
+    ...params.metadata,
+    codeInterpreter: { ...ciMeta, containerId: container.id },
+    dataInterpreter: {
+      ...(params.metadata.dataInterpreter ?? {}),
+      dataset: { ...dataset, containerId: container.id, containerPath },
+    },
+  };
+  const { error } = await supabase
+    .from("conversations")
+    .update({ metadata: nextMetadata })
+    .eq("id", params.conversationId)
+    .eq("user_id", params.userId);
+  if (error) {
+    throw new Error(`Failed to save data session container: ${error.message}`);
+  }
+
+  return { metadata: nextMetadata, containerId: container.id, containerPath };
+}
+
+/** Stable instructions for every turn of a session: what the dataset is and how to work on it. */
+export function buildDataInterpreterInstructions(dataset: DataInterpreterDataset, containerPath: string | null) {
+  const location = containerPath
+    ? `The dataset is loaded in the code interpreter sandbox at ${containerPath}.`
+    : "The dataset could not be loaded into the code interpreter sandbox for this turn; say so if the user asks for analysis that needs it.";
+  return [
+    "You are the Data Interpreter agent. Answer questions about the user's dataset by running Python (pandas, matplotlib) in the code interpreter against the file, never by guessing values you have not computed.",
+    location,
+    renderDatasetProfile(dataset.profile, dataset.name),
+    "Save every chart as a PNG and every result table longer than a few rows as a CSV under /mnt/data, and mention each saved file so it is returned to the user as a download. Reload the dataset at the start of each step's code instead of relying on earlier variables; the sandbox can be recreated between turns.",
+  ].join("\n\n");
+}
+
+/** Recap of the latest notebook steps, so follow-up questions can build on earlier analysis. */
+export async function loadNotebookRecap(supabase: any, conversationId: string) {
+  const { data, error } = await supabase
+    .from("data_interpreter_steps")
+    .select("step_index, question, code, files")
+    .eq("conversation_id", conversationId)
+    .order("step_index", { ascending: false })
+    .limit(NOTEBOOK_RECAP_STEPS);
+  if (error || !Array.isArray(data) || data.length === 0) return null;
+
+  const lines = (data as StepRow[]).reverse().map((row) => {
+    const files = normalizeFiles(row.files).map((file) => file.filename);
+    const question = (row.question ?? "").replace(/\s+/g, " ").slice(0, 160);
+    const code = (row.code ?? "").split("\n").filter((line) => line.trim()).slice(0, 6).join("\n  ");
+    return `Step ${row.step_index}${question ? ` (asked: "${question}")` : ""}:\n  ${code}${
+      files.length ? `\n  -> saved ${files.join(", ")}` : ""
+    }`;
+  });
+  return `Data Interpreter notebook so far (oldest first):\n${lines.join("\n")}`;
+}
+
+function readCallLogs(call: any) {
+  if (!Array.isArray(call?.outputs)) return null;
+  const logs = call.outputs
+    .filter((output: any) => output?.type === "logs" && typeof output.logs === "string")
+    .map((output: any) => output.logs as string)
+    .join("\n")
+    .trim();
+  return logs ? logs.slice(0, LOG_LIMIT) : null;
+}
+
+/**
+ * Appends one notebook step per code_interpreter call in a finished response. Files cited by the
+ * assistant message are attached to the turn's last step, since citations aren't tied to a call.
+ */
+export async function recordNotebookSteps(
+  supabase: any,
+  params: {
+    conversationId: string;
+    userId: string;
+    messageId: string | null;
+    question: string;
+    output: unknown;
+    files: NotebookFile[];
+  }
+) {
+  const calls = Array.isArray(params.output)
+    ? params.output.filter((item: any) => item?.type === "code_interpreter_call")
+    : [];
+  if (!calls.length) return 0;
+
+  const { data: lastRow, error: lastError } = await supabase
+    .from("data_interpreter_steps")
+    .select("step_index")
+    .eq("conversation_id", params.conversationId)
+    .order("step_index", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (lastError) {
+    throw new Error(`Failed to record notebook steps: ${lastError.message}`);
+  }
+  const firstIndex = (typeof lastRow?.step_index === "number" ? lastRow.step_index : 0) + 1;
+  const question = params.question.trim().slice(0, QUESTION_LIMIT) || null;
+
+  const rows = calls.map((call: any, index: number) => ({
+    conversation_id: params.conversationId,
+    user_id: params.userId,
+    message_id: params.messageId,
+    step_index: firstIndex + index,
+    question,
+    code: typeof call.code === "string" ? call.code : "",
+    logs: readCallLogs(call),
+    files: index === calls.length - 1 ? params.files : [],
+    container_id: typeof call.container_id === "string" ? call.container_id : null,
+  }));
+
+  const { error } = await supabase.from("data_interpreter_steps").insert(rows);
+  if (error) {
+    throw new Error(`Failed to record notebook steps: ${error.message}`);
+  }
+  return rows.length;
+}
@@ -822,3 +822,153 @@ export async function insertMarketAgentMessage(params: {
     metadata: (data as any).metadata ?? metadata,
   };
 }
+
+// Service-role helpers for the background runner (app/api/market-agent/cron), which has no user session.
+
+export async function listRunningMarketAgentInstancesAdmin(): Promise<MarketAgentInstanceWithWatchlist[]> {
+  const supabase = await supabaseServerAdmin();
+  const supabaseAny = supabase as any;
+
+  const { data: instances, error } = await supabaseAny
+    .from("market_agent_instances")
+    .select("*")
+    .eq("status", "running");
+
+  if (error) {
+    throw new Error(`Failed to load running market agent instances: ${error.message}`);
+  }
+
+  const instanceIds = (instances ?? []).map((i: any) => i.id);
+  if (!instanceIds.length) {
+    return [];
+  }
+
+  const { data: watchlistRows, error: watchlistError } = await supabaseAny
+    .from("market_agent_watchlist_items")
+    .select("instance_id, symbol")
+    .in("instance_id", instanceIds);
+
+  if (watchlistError) {
+    throw new Error(`Failed to load watchlist items: ${watchlistError.message}`);
+  }
+
+  const grouped = new Map<string, string[]>();
+  (watchlistRows ?? []).forEach((row: any) => {
+    if (!row?.instance_id || !row?.symbol) return;
+    const list = grouped.get(row.instance_id) ?? [];
+    list.push(row.symbol);
+    grouped.set(row.instance_id, list);
+  });
+
+  return (instances ?? []).map((instance: any) => ({
+    ...(instance as MarketAgentInstanceRow),
+    watchlist: grouped.get(instance.id) ?? [],
+  }));
+}
+
+export async function getMarketAgentRunContextAdmin(instanceId: string): Promise<{
+  state: MarketAgentStateRow | null;
+  thesis: MarketAgentThesisRow | null;
+}> {
+  const supabase = await supabaseServerAdmin();
+  const supabaseAny = supabase as any;
+
+  const [stateResult, thesisResult] = await Promise.all([
+    supabaseAny.from("market_agent_state").select("*").eq("instance_id", instanceId).maybeSingle(),
+    supabaseAny.from("market_agent_thesis").select("*").eq("instance_id", instanceId).maybeSingle(),
+  ]);
+
+  if (stateResult.error) {
+    throw new Error(`Failed to load market agent state: ${stateResult.error.message}`);
+  }
+  if (thesisResult.error) {
+    throw new Error(`Failed to load market agent thesis: ${thesisResult.error.message}`);
+  }
+
+  return { state: stateResult.data ?? null, thesis: thesisResult.data ?? null };
+}
+
+export async function saveMarketAgentReportAdmin(params: {
+  instanceId: string;
+  event: {
+    title: string;
+    summary: string;
+    bodyMd: string;
+    severity: "info" | "important" | "critical";
+    tickers: string[];
+    payload: Json;
+  };
+  state: Json;
+  stateVersion: number;
+  thesis: {
+    bias: string | null;
+    watched: string[];
+    key_levels: Json;
+    invalidation: string | null;
+    next_check: string | null;
+  };
+}): Promise<MarketAgentEventRow> {
+  const supabase = await supabaseServerAdmin();
+  const supabaseAny = supabase as any;
+  const now = new Date().toISOString();
+
+  const { data: event, error: eventError } = await supabaseAny
+    .from("market_agent_events")
+    .insert([
+      {
+        instance_id: params.instanceId,
+        event_type: "report",
+        severity: params.event.severity,
+        summary: params.event.summary,
+        payload: params.event.payload,
+        model_used: null,
+        kind: "report",
+        title: params.event.title,
+        body_md: params.event.bodyMd,
+        tickers: params.event.tickers,
+        severity_label: params.event.severity,
+        created_at: now,
+        ts: now,
+      },
+    ])
+    .select()
+    .maybeSingle();
+
+  if (eventError || !event) {
+    throw new Error(`Failed to create market agent event: ${eventError?.message ?? "Unknown error"}`);
+  }
+
+  const { error: stateError } = await supabaseAny.from("market_agent_state").upsert([
+    {
+      instance_id: params.instanceId,
+      state: params.state,
+      state_version: params.stateVersion,
+      updated_at: now,
+    },
+  ]);
+
+  if (stateError) {
+    throw new Error(`Failed to update agent state: ${stateError.message}`);
+  }
+
+  const { error: thesisError } = await supabaseAny
+    .from("market_agent_thesis")
+    .upsert([{ instance_id: params.instanceId, ...params.thesis, updated_at: now }], {
+      onConflict: "instance_id",
+    });
+
+  if (thesisError) {
+    throw new Error(`Failed to upsert thesis: ${thesisError.message}`);
+  }
+
+  const { error: updateError } = await supabaseAny
+    .from("market_agent_instances")
+    .update({ updated_at: now })
+    .eq("id", params.instanceId);
+
+  if (updateError) {
+    throw new Error(`Failed to bump instance timestamp: ${updateError.message}`);
+  }
+
+  return event as MarketAgentEventRow;
+}
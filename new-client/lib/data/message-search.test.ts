@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+
+import { fuseCandidates, type CandidateRow } from "./message-search";
+
+function row(id: string, overrides: Partial<CandidateRow> = {}): CandidateRow {
+  return {
+    id,
+    conversation_id: `conv-${id}`,
+    conversation_title: null,
+    project_id: null,
+    role: "user",
+    content: `message ${id}`,
+    created_at: "2026-01-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+const ids = (hits: Array<{ messageId: string }>) => hits.map((hit) => hit.messageId);
+
+describe("fuseCandidates", () => {
+  it("scores each list by reciprocal rank", () => {
+    const hits = fuseCandidates([row("a"), row("b")], [], "query", 10);
+    expect(ids(hits)).toEqual(["a", "b"]);
+    expect(hits[0].score).toBeCloseTo(1 / 61, 12);
+    expect(hits[1].score).toBeCloseTo(1 / 62, 12);
+    expect(hits[0].matchedBy).toEqual(["keyword"]);
+  });
+
+  it("ranks messages found by both searches above single-source top hits", () => {
+    const keyword = [row("k1"), row("k2"), row("both")];
+    const semantic = [row("s1"), row("s2"), row("both")];
+    const hits = fuseCandidates(keyword, semantic, "query", 10);
+    expect(hits[0].messageId).toBe("both");
+    expect(hits[0].score).toBeCloseTo(2 / 63, 12);
+    expect(hits[0].matchedBy).toEqual(["keyword", "semantic"]);
+  });
+
+  it("breaks score ties by recency", () => {
+    const hits = fuseCandidates(
+      [row("old", { created_at: "2025-01-01T00:00:00.000Z" })],
+      [row("new", { created_at: "2026-02-01T00:00:00.000Z" })],
+      "query",
+      10
+    );
+    expect(ids(hits)).toEqual(["new", "old"]);
+  });
+
+  it("keeps the keyword snippet and falls back to an excerpt around the first term", () => {
+    const longContent = `${"filler ".repeat(40)}the quarterly budget review is due ${"tail ".repeat(40)}`;
+    const hits = fuseCandidates(
+      [row("both", { snippet: "the «budget» review" })],
+      [row("both", { snippet: null }), row("semantic-only", { content: longContent })],
+      "budget review",
+      10
+    );
+    expect(hits.find((hit) => hit.messageId === "both")?.snippet).toBe("the «budget» review");
+    const excerpt = hits.find((hit) => hit.messageId === "semantic-only")?.snippet ?? "";
+    expect(excerpt.startsWith("… ")).toBe(true);
+    expect(excerpt.endsWith(" …")).toBe(true);
+    expect(excerpt).toContain("quarterly budget review");
+  });
+
+  it("returns at most `limit` hits", () => {
+    const keyword = Array.from({ length: 30 }, (_, i) => row(`k${i}`));
+    const semantic = Array.from({ length: 30 }, (_, i) => row(`s${i}`));
+    const hits = fuseCandidates(keyword, semantic, "query", 5);
+    expect(hits).toHaveLength(5);
+    expect(hits.every((hit) => hit.score >= 1 / 63)).toBe(true);
+  });
+});
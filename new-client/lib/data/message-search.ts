@@ -0,0 +1,205 @@
+import { supabaseServer, supabaseServerAdmin } from "@/lib/supabase/server";
+import { requireUserIdServer } from "@/lib/supabase/user";
+import { enqueueMessageEmbeddingBackfill } from "@/lib/jobs/message-embeddings";
+import { embedTexts } from "@/lib/semantic/topicSimilarity";
+import type {
+  MessageSearchAttachmentKind,
+  MessageSearchFilters,
+  MessageSearchHit,
+  MessageSearchResponse,
+} from "@/lib/types/message-search";
+
+const uuidPattern =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+function isValidUuid(value: string | null | undefined) {
+  return typeof value === "string" && uuidPattern.test(value);
+}
+
+const CANDIDATES_PER_SOURCE = 40;
+const DEFAULT_RESULT_LIMIT = 20;
+const SEMANTIC_SIMILARITY_FLOOR = 0.3;
+// Reciprocal-rank-fusion constant; higher values flatten the advantage of top ranks.
+const RRF_K = 60;
+const SNIPPET_MAX_CHARS = 240;
+
+const ATTACHMENT_MIME_PATTERNS: Record<MessageSearchAttachmentKind, string[]> = {
+  any: ["%"],
+  image: ["image/%"],
+  pdf: ["application/pdf"],
+  document: [
+    "application/msword",
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.%",
+    "application/vnd.ms-powerpoint",
+    "application/vnd.openxmlformats-officedocument.presentationml.%",
+    "text/%",
+  ],
+  spreadsheet: [
+    "application/vnd.ms-excel",
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.%",
+    "text/csv",
+  ],
+  audio: ["audio/%"],
+};
+
+export type CandidateRow = {
+  id: string;
+  conversation_id: string;
+  conversation_title: string | null;
+  project_id: string | null;
+  role: string;
+  content: string | null;
+  snippet?: string | null;
+  created_at: string | null;
+  rank?: number;
+  similarity?: number;
+};
+
+function normalizeTimestamp(value: string | null | undefined) {
+  if (!value) return null;
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? null : parsed.toISOString();
+}
+
+function buildExcerpt(content: string | null, query: string) {
+  const text = (content ?? "").replace(/\s+/g, " ").trim();
+  if (text.length <= SNIPPET_MAX_CHARS) return text;
+  const terms = query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter((term) => term.length > 2);
+  const lower = text.toLowerCase();
+  const hit = terms.map((term) => lower.indexOf(term)).filter((idx) => idx >= 0).sort((a, b) => a - b)[0];
+  const start = hit && hit > 60 ? hit - 60 : 0;
+  const slice = text.slice(start, start + SNIPPET_MAX_CHARS).trim();
+  return `${start > 0 ? "… " : ""}${slice}${start + SNIPPET_MAX_CHARS < text.length ? " …" : ""}`;
+}
+
+/**
+ * Reciprocal rank fusion of the keyword and semantic candidate lists: each list a message
+ * appears in adds 1 / (RRF_K + rank) to its score, and ties go to the newer message.
+ */
+export function fuseCandidates(
+  keywordRows: CandidateRow[],
+  semanticRows: CandidateRow[],
+  query: string,
+  limit: number
+): MessageSearchHit[] {
+  const merged = new Map<string, MessageSearchHit>();
+  const addCandidates = (rows: CandidateRow[], source: "keyword" | "semantic") => {
+    rows.forEach((row, index) => {
+      const contribution = 1 / (RRF_K + index + 1);
+      const existing = merged.get(row.id);
+      if (existing) {
+        existing.score += contribution;
+        existing.matchedBy.push(source);
+        if (source === "keyword" && row.snippet) existing.snippet = row.snippet;
+        return;
+      }
+      merged.set(row.id, {
+        messageId: row.id,
+        conversationId: row.conversation_id,
+        conversationTitle: row.conversation_title,
+        projectId: row.project_id,
+        role: row.role,
+        snippet: row.snippet?.trim() || buildExcerpt(row.content, query),
+        createdAt: row.created_at,
+        score: contribution,
+        matchedBy: [source],
+      });
+    });
+  };
+  addCandidates(keywordRows, "keyword");
+  addCandidates(semanticRows, "semantic");
+
+  return Array.from(merged.values())
+    .sort((a, b) => b.score - a.score || (b.createdAt ?? "").localeCompare(a.createdAt ?? ""))
+    .slice(0, limit);
+}
+
+/**
+ * Messages are embedded by a background job (lib/jobs/message-embeddings.ts); each search makes
+ * sure one is queued for the user. Failing to queue it only delays the backfill.
+ */
+async function queueEmbeddingBackfill(userId: string) {
+  try {
+    await enqueueMessageEmbeddingBackfill(await supabaseServerAdmin(), userId);
+  } catch (err) {
+    console.warn("[message-search] Failed to queue embedding backfill:", err);
+  }
+}
+
+/**
+ * Search every conversation the user owns. Postgres full-text and pgvector candidates are
+ * fetched with the same filters and merged with reciprocal rank fusion, so a message that
+ * matches both lexically and semantically outranks one that matches either alone.
+ */
+export async function searchMessages(params: {
+  query: string;
+  filters?: MessageSearchFilters;
+  limit?: number;
+}): Promise<MessageSearchResponse> {
+  const query = params.query.trim();
+  const filters = params.filters ?? {};
+  const limit = Math.min(Math.max(params.limit ?? DEFAULT_RESULT_LIMIT, 1), 50);
+  if (!query) {
+    return { query, hits: [], semantic: false };
+  }
+  if (filters.projectId && !isValidUuid(filters.projectId)) {
+    throw new Error("Invalid project ID");
+  }
+
+  const supabase = await supabaseServer();
+  const userId = await requireUserIdServer();
+  const supabaseAny = supabase as any;
+
+  const rpcFilters = {
+    p_user_id: userId,
+    p_project_id: filters.projectId || null,
+    p_from: normalizeTimestamp(filters.from),
+    p_to: normalizeTimestamp(filters.to),
+    p_role: filters.role ?? null,
+    p_mime_patterns: filters.attachment ? ATTACHMENT_MIME_PATTERNS[filters.attachment] ?? null : null,
+  };
+
+  const keywordPromise = supabaseAny.rpc("search_messages_fulltext", {
+    ...rpcFilters,
+    p_query: query,
+    match_count: CANDIDATES_PER_SOURCE,
+  });
+
+  const semanticPromise = (async (): Promise<CandidateRow[] | null> => {
+    try {
+      const embeddings = await embedTexts([query], { userId, source: "message-search" });
+      const embedding = embeddings?.[0];
+      if (!embedding?.length) return null;
+      const [{ data, error }] = await Promise.all([
+        supabaseAny.rpc("match_messages_semantic", {
+          ...rpcFilters,
+          query_embedding: embedding,
+          match_threshold: SEMANTIC_SIMILARITY_FLOOR,
+          match_count: CANDIDATES_PER_SOURCE,
+        }),
+        queueEmbeddingBackfill(userId),
+      ]);
+      if (error) {
+        console.warn("[message-search] Semantic search failed:", error);
+        return null;
+      }
+      return (data ?? []) as CandidateRow[];
+    } catch (err) {
+      console.warn("[message-search] Semantic search unavailable:", err);
+      return null;
+    }
+  })();
+
+  const [keywordResult, semanticRows] = await Promise.all([keywordPromise, semanticPromise]);
+  if (keywordResult.error) {
+    console.warn("[message-search] Full-text search failed:", keywordResult.error);
+  }
+  const keywordRows = (keywordResult.error ? [] : keywordResult.data ?? []) as CandidateRow[];
+
+  const hits = fuseCandidates(keywordRows, semanticRows ?? [], query, limit);
+
+  return { query, hits, semantic: semanticRows !== null };
+}
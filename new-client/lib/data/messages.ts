@@ -1,6 +1,7 @@
 import { supabaseServer } from "@/lib/supabase/server";
 import { requireUserIdServer } from "@/lib/supabase/user";
 import type { Database } from "@/lib/supabase/types";
+import { findBranchLeaf, loadActiveBranch, type MessageBranchInfo } from "@/lib/message-branches";
 
 type MessageRow = Database["public"]["Tables"]["messages"]["Row"];
 
@@ -36,42 +37,109 @@ export async function getMessagesForConversation(conversationId: string) {
   return data ?? [];
 }
 
+// Older messages loaded above a search hit so it opens with some context.
+const INCLUDE_MESSAGE_CONTEXT = 10;
+// Keep `.in()` filters comfortably inside PostgREST URL limits.
+const ID_FETCH_CHUNK = 150;
+
+/**
+ * Newest-first page of the conversation's active branch (see lib/message-branches).
+ * `includeMessageId` widens the first page so it reaches back to that message (used when
+ * opening a search hit); later pages still go through `before`.
+ */
 export async function getMessagesForConversationPage(
   conversationId: string,
-  options?: { limit?: number; before?: string | null }
+  options?: { limit?: number; before?: string | null; includeMessageId?: string | null }
 ) {
   if (!isValidUuid(conversationId)) {
-    return { messages: [] as MessageRow[], hasMore: false, oldestTimestamp: null as string | null };
+    return {
+      messages: [] as MessageRow[],
+      hasMore: false,
+      oldestTimestamp: null as string | null,
+      branches: {} as Record<string, MessageBranchInfo>,
+    };
   }
 
-  const limit = options?.limit ?? DEFAULT_MESSAGE_PAGE_SIZE;
+  let limit = options?.limit ?? DEFAULT_MESSAGE_PAGE_SIZE;
   const before = options?.before ?? null;
 
   const supabase = await supabaseServer();
   const userId = await requireUserIdServer();
 
-  let query = supabase
-    .from("messages")
-    .select("*")
-    .eq("conversation_id", conversationId)
-    .eq("user_id", userId)
-    .order("created_at", { ascending: false })
-    .limit(limit + 1);
+  const branch = await loadActiveBranch(supabase, conversationId);
+  const nodeById = new Map(branch.nodes.map((node) => [node.id, node] as const));
+  const candidates = branch.pathIds.filter((id) => {
+    if (!before) return true;
+    const createdAt = nodeById.get(id)?.created_at;
+    return Boolean(createdAt && createdAt < before);
+  });
+
+  if (!before && isValidUuid(options?.includeMessageId)) {
+    const anchorIndex = candidates.indexOf(options!.includeMessageId!);
+    if (anchorIndex >= 0) {
+      limit = Math.max(limit, candidates.length - anchorIndex + INCLUDE_MESSAGE_CONTEXT);
+    }
+  }
 
-  if (before) {
-    query = query.lt("created_at", before);
+  const hasMore = candidates.length > limit;
+  const pageIds = candidates.slice(-limit);
+
+  const rows: MessageRow[] = [];
+  for (let i = 0; i < pageIds.length; i += ID_FETCH_CHUNK) {
+    const { data, error } = await supabase
+      .from("messages")
+      .select("*")
+      .eq("conversation_id", conversationId)
+      .eq("user_id", userId)
+      .in("id", pageIds.slice(i, i + ID_FETCH_CHUNK))
+      .returns<MessageRow[]>();
+
+    if (error) {
+      throw new Error(`Failed to load messages: ${error.message}`);
+    }
+    rows.push(...(data ?? []));
   }
 
-  const { data, error } = await query.returns<MessageRow[]>();
+  const order = new Map(pageIds.map((id, idx) => [id, idx] as const));
+  const page = rows.sort((a, b) => (order.get(a.id) ?? 0) - (order.get(b.id) ?? 0));
+  const oldestTimestamp = page[0]?.created_at ?? null;
+  const branches: Record<string, MessageBranchInfo> = {};
+  for (const row of page) {
+    if (branch.branchInfo[row.id]) {
+      branches[row.id] = branch.branchInfo[row.id];
+    }
+  }
 
-  if (error) {
-    throw new Error(`Failed to load messages: ${error.message}`);
+  return { messages: page, hasMore, oldestTimestamp, branches };
+}
+
+/**
+ * Make the branch containing `messageId` active, landing on its newest leaf, and return the
+ * first page of the newly active path.
+ */
+export async function switchConversationBranch(conversationId: string, messageId: string) {
+  if (!isValidUuid(conversationId) || !isValidUuid(messageId)) {
+    throw new Error("Invalid conversation or message ID");
   }
 
-  const rows = data ?? [];
-  const hasMore = rows.length > limit;
-  const page = (hasMore ? rows.slice(0, limit) : rows).reverse();
-  const oldestTimestamp = page[0]?.created_at ?? null;
+  const supabase = await supabaseServer();
+  const userId = await requireUserIdServer();
+
+  const { nodes } = await loadActiveBranch(supabase, conversationId);
+  if (!nodes.some((node) => node.id === messageId)) {
+    throw new Error("Message not found in conversation");
+  }
+
+  const leafId = findBranchLeaf(nodes, messageId);
+  const { error } = await supabase
+    .from("conversations")
+    .update({ active_leaf_message_id: leafId })
+    .eq("id", conversationId)
+    .eq("user_id", userId);
+
+  if (error) {
+    throw new Error(`Failed to switch branch: ${error.message}`);
+  }
 
-  return { messages: page, hasMore, oldestTimestamp };
+  return getMessagesForConversationPage(conversationId);
 }
@@ -0,0 +1,433 @@
+import { createOpenAIClient } from "@/lib/openai/client";
+import { calculateVectorStorageCost } from "@/lib/pricing";
+import { supabaseServer } from "@/lib/supabase/server";
+import { requireUserIdServer } from "@/lib/supabase/user";
+import { logUsageRecord } from "@/lib/usage";
+
+// Same ceiling as chat attachments (see app/api/uploads).
+export const PROJECT_FILE_MAX_BYTES = 50 * 1024 * 1024;
+
+export type ProjectFileStatus = "processing" | "ready" | "failed";
+
+export type ProjectFile = {
+  id: string;
+  projectId: string;
+  name: string;
+  mime: string | null;
+  sizeBytes: number;
+  status: ProjectFileStatus;
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type ProjectKnowledgeBase = {
+  files: ProjectFile[];
+  totalBytes: number;
+  // Estimated vector storage cost for the files currently stored.
+  dailyCost: number;
+  monthlyCost: number;
+};
+
+type ProjectFileRow = {
+  id: string;
+  project_id: string;
+  user_id: string;
+  name: string;
+  mime: string | null;
+  size_bytes: number | string | null;
+  openai_file_id: string | null;
+  status: string | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+const uuidPattern =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+function isValidUuid(value: string | null | undefined) {
+  return typeof value === "string" && uuidPattern.test(value);
+}
+
+function toProjectFile(row: ProjectFileRow): ProjectFile {
+  const status: ProjectFileStatus =
+    row.status === "ready" || row.status === "failed" ? row.status : "processing";
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    name: row.name,
+    mime: row.mime ?? null,
+    sizeBytes: Number(row.size_bytes ?? 0) || 0,
+    status,
+    error: row.error ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function getVectorStoreClient() {
+  if (!process.env.OPENAI_API_KEY) {
+    throw new Error("OPENAI_API_KEY is not configured");
+  }
+  return createOpenAIClient({ apiKey: process.env.OPENAI_API_KEY });
+}
+
+async function requireOwnedProject(supabase: any, userId: string, projectId: string) {
+  if (!isValidUuid(projectId)) {
+    throw new Error("Invalid project ID");
+  }
+  const { data, error } = await supabase
+    .from("projects")
+    .select("id, vector_store_id")
+    .eq("id", projectId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load project: ${error.message}`);
+  }
+  if (!data) {
+    throw new Error("Project not found");
+  }
+  return data as { id: string; vector_store_id: string | null };
+}
+
+async function requireOwnedProjectFile(supabase: any, userId: string, projectId: string, fileId: string) {
+  if (!isValidUuid(fileId)) {
+    throw new Error("Invalid file ID");
+  }
+  const { data, error } = await supabase
+    .from("project_files")
+    .select("*")
+    .eq("id", fileId)
+    .eq("project_id", projectId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load project file: ${error.message}`);
+  }
+  if (!data) {
+    throw new Error("Project file not found");
+  }
+  return data as ProjectFileRow;
+}
+
+/**
+ * Returns the project's vector store, creating it on first upload. Two concurrent first uploads
+ * both create a store; only one wins the conditional update and the loser's store is removed.
+ */
+async function ensureProjectVectorStore(
+  supabase: any,
+  openai: ReturnType<typeof getVectorStoreClient>,
+  project: { id: string; vector_store_id: string | null }
+) {
+  if (project.vector_store_id) return project.vector_store_id;
+
+  const store = await openai.vectorStores.create({
+    name: `project-${project.id}`,
+    metadata: { project_id: project.id },
+  });
+  const { data: claimed } = await supabase
+    .from("projects")
+    .update({ vector_store_id: store.id })
+    .eq("id", project.id)
+    .is("vector_store_id", null)
+    .select("vector_store_id")
+    .maybeSingle();
+  if (claimed?.vector_store_id === store.id) {
+    return store.id;
+  }
+
+  const { data: current } = await supabase
+    .from("projects")
+    .select("vector_store_id")
+    .eq("id", project.id)
+    .maybeSingle();
+  try {
+    await openai.vectorStores.delete(store.id);
+  } catch (err) {
+    console.warn("[projectFiles] Failed to remove duplicate vector store:", err);
+  }
+  if (!current?.vector_store_id) {
+    throw new Error("Failed to attach vector store to project");
+  }
+  return current.vector_store_id as string;
+}
+
+export async function uploadToVectorStore(
+  openai: ReturnType<typeof getVectorStoreClient>,
+  vectorStoreId: string,
+  file: File
+) {
+  const stored = await openai.vectorStores.files.uploadAndPoll(vectorStoreId, file);
+  const ready = stored.status === "completed";
+  return {
+    openaiFileId: stored.id,
+    status: (ready ? "ready" : "failed") as ProjectFileStatus,
+    error: ready ? null : stored.last_error?.message ?? `Indexing ${stored.status}`,
+  };
+}
+
+export async function removeFromVectorStore(
+  openai: ReturnType<typeof getVectorStoreClient>,
+  vectorStoreId: string | null,
+  openaiFileId: string | null
+) {
+  if (!openaiFileId) return;
+  if (vectorStoreId) {
+    try {
+      await openai.vectorStores.files.delete(openaiFileId, { vector_store_id: vectorStoreId });
+    } catch (err) {
+      console.warn("[projectFiles] Failed to detach file from vector store:", err);
+    }
+  }
+  try {
+    await openai.files.delete(openaiFileId);
+  } catch (err) {
+    console.warn("[projectFiles] Failed to delete OpenAI file:", err);
+  }
+}
+
+// Keeps the per-user byte counter the daily storage charge is computed from in step. Agent knowledge
+// files (lib/data/custom-agents.ts) share the vector store helpers here and count towards it too.
+export async function adjustTrackedVectorBytes(supabase: any, userId: string, deltaBytes: number) {
+  if (!deltaBytes) return;
+  try {
+    const { data: existing } = await supabase
+      .from("vector_storage_usage")
+      .select("total_bytes,last_logged_at")
+      .eq("user_id", userId)
+      .maybeSingle();
+    await supabase.from("vector_storage_usage").upsert({
+      user_id: userId,
+      total_bytes: Math.max(0, (existing?.total_bytes ?? 0) + deltaBytes),
+      last_logged_at: existing?.last_logged_at ?? new Date().toISOString(),
+    });
+  } catch (err) {
+    console.warn("[projectFiles] Failed to update tracked vector bytes:", err);
+  }
+}
+
+async function logProjectUploadCost(userId: string, projectId: string, bytes: number) {
+  if (bytes <= 0) return;
+  await logUsageRecord({
+    userId,
+    conversationId: null,
+    model: "vector-storage",
+    inputTokens: 0,
+    cachedTokens: 0,
+    outputTokens: 0,
+    estimatedCost: calculateVectorStorageCost(bytes, 1),
+    eventType: "storage",
+    metadata: { bytes, durationDays: 1, source: "project_upload", projectId },
+  });
+}
+
+export function assertUploadable(file: File) {
+  if (!file.size) {
+    throw new Error("File is empty");
+  }
+  if (file.size > PROJECT_FILE_MAX_BYTES) {
+    throw new Error(`File exceeds ${Math.round(PROJECT_FILE_MAX_BYTES / (1024 * 1024))} MB limit`);
+  }
+}
+
+export async function getProjectKnowledgeBase(projectId: string): Promise<ProjectKnowledgeBase> {
+  const supabase = await supabaseServer();
+  const supabaseAny = supabase as any;
+  const userId = await requireUserIdServer();
+  await requireOwnedProject(supabaseAny, userId, projectId);
+
+  const { data, error } = await supabaseAny
+    .from("project_files")
+    .select("*")
+    .eq("project_id", projectId)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+  if (error) {
+    throw new Error(`Failed to load project files: ${error.message}`);
+  }
+
+  const files = ((data ?? []) as ProjectFileRow[]).map(toProjectFile);
+  const totalBytes = files
+    .filter((file) => file.status === "ready")
+    .reduce((sum, file) => sum + file.sizeBytes, 0);
+  return {
+    files,
+    totalBytes,
+    dailyCost: calculateVectorStorageCost(totalBytes, 1),
+    monthlyCost: calculateVectorStorageCost(totalBytes, 30),
+  };
+}
+
+export async function uploadProjectFile(projectId: string, file: File): Promise<ProjectFile> {
+  assertUploadable(file);
+  const supabase = await supabaseServer();
+  const supabaseAny = supabase as any;
+  const userId = await requireUserIdServer();
+  const project = await requireOwnedProject(supabaseAny, userId, projectId);
+
+  const { data: inserted, error: insertError } = await supabaseAny
+    .from("project_files")
+    .insert({
+      project_id: projectId,
+      user_id: userId,
+      name: file.name || "file",
+      mime: file.type || null,
+      size_bytes: file.size,
+      status: "processing",
+    })
+    .select("*")
+    .single();
+  if (insertError || !inserted) {
+    throw new Error(`Failed to create project file: ${insertError?.message ?? "Unknown error"}`);
+  }
+
+  let patch: Record<string, unknown>;
+  try {
+    const openai = getVectorStoreClient();
+    const vectorStoreId = await ensureProjectVectorStore(supabaseAny, openai, project);
+    const result = await uploadToVectorStore(openai, vectorStoreId, file);
+    patch = {
+      openai_file_id: result.openaiFileId,
+      status: result.status,
+      error: result.error,
+    };
+  } catch (err) {
+    console.error("[projectFiles] Upload failed:", err);
+    patch = { status: "failed", error: err instanceof Error ? err.message : "Upload failed" };
+  }
+
+  const { data: updated, error: updateError } = await supabaseAny
+    .from("project_files")
+    .update({ ...patch, updated_at: new Date().toISOString() })
+    .eq("id", inserted.id)
+    .select("*")
+    .single();
+  if (updateError || !updated) {
+    throw new Error(`Failed to update project file: ${updateError?.message ?? "Unknown error"}`);
+  }
+
+  if (updated.status === "ready") {
+    await adjustTrackedVectorBytes(supabaseAny, userId, file.size);
+    await logProjectUploadCost(userId, projectId, file.size);
+  }
+  return toProjectFile(updated as ProjectFileRow);
+}
+
+/**
+ * Swaps the contents of an existing project file. The new upload is indexed first so chats keep
+ * searching the old version until the replacement is ready; a failed replacement leaves the
+ * original in place.
+ */
+export async function replaceProjectFile(
+  projectId: string,
+  fileId: string,
+  file: File
+): Promise<ProjectFile> {
+  assertUploadable(file);
+  const supabase = await supabaseServer();
+  const supabaseAny = supabase as any;
+  const userId = await requireUserIdServer();
+  const project = await requireOwnedProject(supabaseAny, userId, projectId);
+  const existing = await requireOwnedProjectFile(supabaseAny, userId, projectId, fileId);
+
+  const openai = getVectorStoreClient();
+  const vectorStoreId = await ensureProjectVectorStore(supabaseAny, openai, project);
+  const result = await uploadToVectorStore(openai, vectorStoreId, file);
+  if (result.status !== "ready") {
+    await removeFromVectorStore(openai, vectorStoreId, result.openaiFileId);
+    throw new Error(`Replacement failed: ${result.error ?? "indexing failed"}`);
+  }
+
+  const { data: updated, error } = await supabaseAny
+    .from("project_files")
+    .update({
+      name: file.name || existing.name,
+      mime: file.type || null,
+      size_bytes: file.size,
+      openai_file_id: result.openaiFileId,
+      status: "ready",
+      error: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", fileId)
+    .select("*")
+    .single();
+  if (error || !updated) {
+    await removeFromVectorStore(openai, vectorStoreId, result.openaiFileId);
+    throw new Error(`Failed to update project file: ${error?.message ?? "Unknown error"}`);
+  }
+
+  await removeFromVectorStore(openai, vectorStoreId, existing.openai_file_id);
+  const previousBytes = existing.status === "ready" ? Number(existing.size_bytes ?? 0) || 0 : 0;
+  await adjustTrackedVectorBytes(supabaseAny, userId, file.size - previousBytes);
+  await logProjectUploadCost(userId, projectId, file.size);
+  return toProjectFile(updated as ProjectFileRow);
+}
+
+export async function deleteProjectFile(projectId: string, fileId: string) {
+  const supabase = await supabaseServer();
+  const supabaseAny = supabase as any;
+  const userId = await requireUserIdServer();
+  const project = await requireOwnedProject(supabaseAny, userId, projectId);
+  const existing = await requireOwnedProjectFile(supabaseAny, userId, projectId, fileId);
+
+  if (existing.openai_file_id) {
+    await removeFromVectorStore(getVectorStoreClient(), project.vector_store_id, existing.openai_file_id);
+  }
+
+  const { error } = await supabaseAny
+    .from("project_files")
+    .delete()
+    .eq("id", fileId)
+    .eq("user_id", userId);
+  if (error) {
+    throw new Error(`Failed to delete project file: ${error.message}`);
+  }
+
+  if (existing.status === "ready") {
+    await adjustTrackedVectorBytes(supabaseAny, userId, -(Number(existing.size_bytes ?? 0) || 0));
+  }
+}
+
+/**
+ * Drops the project's vector store and its files ahead of deleting the project; the
+ * project_files rows go with the project via cascade.
+ */
+export async function deleteProjectKnowledgeBase(supabase: any, userId: string, projectId: string) {
+  const { data: project } = await supabase
+    .from("projects")
+    .select("id, vector_store_id")
+    .eq("id", projectId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (!project?.vector_store_id) return;
+
+  const { data: rows } = await supabase
+    .from("project_files")
+    .select("openai_file_id, status, size_bytes")
+    .eq("project_id", projectId)
+    .eq("user_id", userId);
+  const files = (rows ?? []) as Array<Pick<ProjectFileRow, "openai_file_id" | "status" | "size_bytes">>;
+
+  try {
+    const openai = getVectorStoreClient();
+    for (const row of files) {
+      if (!row.openai_file_id) continue;
+      try {
+        await openai.files.delete(row.openai_file_id);
+      } catch (err) {
+        console.warn("[projectFiles] Failed to delete OpenAI file:", err);
+      }
+    }
+    await openai.vectorStores.delete(project.vector_store_id);
+  } catch (err) {
+    console.warn("[projectFiles] Failed to delete project vector store:", err);
+  }
+
+  const readyBytes = files
+    .filter((row) => row.status === "ready")
+    .reduce((sum, row) => sum + (Number(row.size_bytes ?? 0) || 0), 0);
+  await adjustTrackedVectorBytes(supabase, userId, -readyBytes);
+}
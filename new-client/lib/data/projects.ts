@@ -1,6 +1,14 @@
 import { supabaseServer } from "@/lib/supabase/server";
 import { requireUserIdServer } from "@/lib/supabase/user";
 import type { Database } from "@/lib/supabase/types";
+import { deleteProjectKnowledgeBase } from "@/lib/data/project-files";
+import { getProjectMonthlySpending } from "@/lib/budget";
+import {
+  normalizeModelFamily,
+  normalizeSpeedMode,
+  type ModelFamily,
+  type SpeedMode,
+} from "@/lib/modelConfig";
 
 type ProjectRow = Database["public"]["Tables"]["projects"]["Row"];
 type ProjectInsert = Database["public"]["Tables"]["projects"]["Insert"];
@@ -87,6 +95,8 @@ export async function deleteProject(projectId: string) {
   const supabase = await supabaseServer();
   const userId = await requireUserIdServer();
 
+  await deleteProjectKnowledgeBase(supabase, userId, projectId);
+
   const { error } = await supabase
     .from("projects")
     .delete()
@@ -115,3 +125,204 @@ export async function getProjectById(projectId: string) {
 
   return data;
 }
+
+export type ProjectBudgetStatus = {
+  monthlyBudgetUsd: number | null;
+  spentThisMonthUsd: number;
+};
+
+export async function getProjectBudgetStatus(projectId: string): Promise<ProjectBudgetStatus> {
+  if (!isValidUuid(projectId)) {
+    throw new Error("Invalid project ID");
+  }
+
+  const supabase = await supabaseServer();
+  const userId = await requireUserIdServer();
+
+  const { data, error } = await (supabase as any)
+    .from("projects")
+    .select("id, monthly_budget_usd")
+    .eq("id", projectId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load project: ${error.message}`);
+  }
+  if (!data) {
+    throw new Error("Project not found");
+  }
+
+  const budget = data.monthly_budget_usd == null ? null : Number(data.monthly_budget_usd);
+  return {
+    monthlyBudgetUsd: budget,
+    spentThisMonthUsd: await getProjectMonthlySpending(supabase, projectId),
+  };
+}
+
+// A null budget removes the cap; the user's plan limit still applies either way.
+export async function updateProjectBudget(params: { projectId: string; monthlyBudgetUsd: number | null }) {
+  if (!isValidUuid(params.projectId)) {
+    throw new Error("Invalid project ID");
+  }
+  const budget = params.monthlyBudgetUsd;
+  if (budget !== null && (!Number.isFinite(budget) || budget <= 0 || budget > 100_000)) {
+    throw new Error("Invalid budget");
+  }
+
+  const supabase = await supabaseServer();
+  const userId = await requireUserIdServer();
+
+  const { data, error } = await (supabase
+    .from("projects") as any)
+    .update({ monthly_budget_usd: budget === null ? null : Number(budget.toFixed(2)) })
+    .eq("id", params.projectId)
+    .eq("user_id", userId)
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to update project budget: ${error?.message ?? "Unknown error"}`);
+  }
+
+  return data;
+}
+
+export type ProjectSearchDefaults = {
+  sourceLimit: number | "auto";
+  excerptMode: "snippets" | "balanced" | "rich" | "auto";
+};
+
+/** Chat defaults for every conversation in a project. "auto" means the project sets nothing. */
+export type ProjectSettings = {
+  instructions: string | null;
+  defaultModelFamily: ModelFamily;
+  defaultSpeedMode: SpeedMode;
+  defaultSearchControls: ProjectSearchDefaults;
+  pinnedMemoryTypes: string[];
+};
+
+const PROJECT_INSTRUCTIONS_LIMIT = 8000;
+const PINNED_MEMORY_TYPES_LIMIT = 12;
+const EXCERPT_MODES: ProjectSearchDefaults["excerptMode"][] = ["snippets", "balanced", "rich", "auto"];
+
+function normalizeSearchDefaults(value: unknown): ProjectSearchDefaults {
+  const raw = value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+  const limit = raw.sourceLimit;
+  const excerptMode = EXCERPT_MODES.includes(raw.excerptMode as ProjectSearchDefaults["excerptMode"])
+    ? (raw.excerptMode as ProjectSearchDefaults["excerptMode"])
+    : "auto";
+  return {
+    sourceLimit: typeof limit === "number" && Number.isInteger(limit) && limit > 0 && limit <= 50 ? limit : "auto",
+    excerptMode,
+  };
+}
+
+function normalizeMemoryTypes(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  const types = value
+    .filter((type): type is string => typeof type === "string")
+    .map((type) => type.trim().toLowerCase())
+    .filter((type) => type.length > 0 && type.length <= 40);
+  return Array.from(new Set(types)).slice(0, PINNED_MEMORY_TYPES_LIMIT);
+}
+
+/** Reads the settings columns of a projects row; anything missing or invalid falls back to "auto". */
+export function parseProjectSettings(row: Partial<ProjectRow> | null | undefined): ProjectSettings {
+  const instructions = typeof row?.instructions === "string" ? row.instructions.trim() : "";
+  return {
+    instructions: instructions || null,
+    defaultModelFamily: normalizeModelFamily(row?.default_model_family),
+    defaultSpeedMode: normalizeSpeedMode(row?.default_speed_mode),
+    defaultSearchControls: normalizeSearchDefaults(row?.default_search_controls),
+    pinnedMemoryTypes: normalizeMemoryTypes(row?.pinned_memory_types),
+  };
+}
+
+export async function getProjectSettings(projectId: string): Promise<ProjectSettings> {
+  if (!isValidUuid(projectId)) {
+    throw new Error("Invalid project ID");
+  }
+
+  const supabase = await supabaseServer();
+  const userId = await requireUserIdServer();
+
+  const { data, error } = await (supabase as any)
+    .from("projects")
+    .select("id, instructions, default_model_family, default_speed_mode, default_search_controls, pinned_memory_types")
+    .eq("id", projectId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load project: ${error.message}`);
+  }
+  if (!data) {
+    throw new Error("Project not found");
+  }
+
+  return parseProjectSettings(data);
+}
+
+export async function updateProjectSettings(params: { projectId: string; settings: Partial<ProjectSettings> }) {
+  if (!isValidUuid(params.projectId)) {
+    throw new Error("Invalid project ID");
+  }
+  const { settings } = params;
+  const update: Record<string, unknown> = {};
+  if (settings.instructions !== undefined) {
+    if (settings.instructions !== null && typeof settings.instructions !== "string") {
+      throw new Error("Invalid instructions");
+    }
+    const instructions = settings.instructions?.trim() ?? "";
+    if (instructions.length > PROJECT_INSTRUCTIONS_LIMIT) {
+      throw new Error(`Invalid instructions: keep them under ${PROJECT_INSTRUCTIONS_LIMIT} characters`);
+    }
+    update.instructions = instructions || null;
+  }
+  if (settings.defaultModelFamily !== undefined) {
+    const family = normalizeModelFamily(settings.defaultModelFamily);
+    if (family !== settings.defaultModelFamily) {
+      throw new Error("Invalid model family");
+    }
+    update.default_model_family = family === "auto" ? null : family;
+  }
+  if (settings.defaultSpeedMode !== undefined) {
+    const speedMode = normalizeSpeedMode(settings.defaultSpeedMode);
+    if (speedMode !== settings.defaultSpeedMode) {
+      throw new Error("Invalid speed mode");
+    }
+    update.default_speed_mode = speedMode === "auto" ? null : speedMode;
+  }
+  if (settings.defaultSearchControls !== undefined) {
+    const controls = normalizeSearchDefaults(settings.defaultSearchControls);
+    update.default_search_controls =
+      controls.sourceLimit === "auto" && controls.excerptMode === "auto" ? null : controls;
+  }
+  if (settings.pinnedMemoryTypes !== undefined) {
+    if (!Array.isArray(settings.pinnedMemoryTypes)) {
+      throw new Error("Invalid memory types");
+    }
+    update.pinned_memory_types = normalizeMemoryTypes(settings.pinnedMemoryTypes);
+  }
+  if (!Object.keys(update).length) {
+    return getProjectSettings(params.projectId);
+  }
+
+  const supabase = await supabaseServer();
+  const userId = await requireUserIdServer();
+
+  const { data, error } = await (supabase
+    .from("projects") as any)
+    .update(update)
+    .eq("id", params.projectId)
+    .eq("user_id", userId)
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to update project settings: ${error?.message ?? "Unknown error"}`);
+  }
+
+  return parseProjectSettings(data);
+}
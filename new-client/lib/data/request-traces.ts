@@ -0,0 +1,41 @@
+import { supabaseServer } from "@/lib/supabase/server";
+import { requireUserIdServer } from "@/lib/supabase/user";
+import type { RequestTrace, RequestTraceRecord } from "@/lib/types/request-trace";
+
+const uuidPattern =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+function isValidUuid(value: string | null | undefined) {
+  return typeof value === "string" && uuidPattern.test(value);
+}
+
+export async function getRequestTrace(traceId: string): Promise<RequestTraceRecord> {
+  if (!isValidUuid(traceId)) {
+    throw new Error("Invalid trace ID");
+  }
+
+  const supabase = await supabaseServer();
+  const userId = await requireUserIdServer();
+
+  const { data, error } = await (supabase as any)
+    .from("request_traces")
+    .select("id, conversation_id, message_id, trace, created_at")
+    .eq("id", traceId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load trace: ${error.message}`);
+  }
+  if (!data) {
+    throw new Error("Trace not found");
+  }
+
+  return {
+    id: data.id,
+    conversationId: data.conversation_id ?? null,
+    messageId: data.message_id ?? null,
+    createdAt: data.created_at,
+    trace: data.trace as RequestTrace,
+  };
+}
@@ -1,3 +1,4 @@
+import { connectionSecretRefs, createSgaSecret, deleteSgaSecrets, rotateSgaSecret } from "@/lib/sga/secrets";
 import { supabaseServer, supabaseServerAdmin } from "@/lib/supabase/server";
 import { requireUserIdServer } from "@/lib/supabase/user";
 import type { Database, Json } from "@/lib/supabase/types";
@@ -12,6 +13,7 @@ import type {
   SgaPolicy,
   SgaStatus,
   SgaWorldState,
+  SgaWriteAction,
 } from "@/lib/types/sga";
 
 type RowRecord = Record<string, unknown>;
@@ -45,6 +47,7 @@ const DEFAULT_POLICY: SgaPolicy = {
   allowedActions: ["delegate_lhsa", "delegate_ada", "schedule_recheck", "write_low_risk_config"],
   forbiddenActions: ["delete_production_data", "rotate_secrets", "deploy_to_prod_directly"],
   approvalRequiredActions: ["database_migrations", "billing_plan_changes", "security_policy_changes"],
+  approvalExpiryMinutes: 1440,
   riskBudget: { maxHighRiskActionsPerWeek: 0, maxMediumRiskPerDay: 3 },
   costBudget: { monthlyUsdCap: 500, dailyUsdCap: 25, perTaskUsdCap: 50 },
   timeBudget: { dailyActiveWindowMinutes: 480, maxCycleSeconds: 60 },
@@ -187,6 +190,30 @@ function normalizeAuthType(value: unknown): SgaConnectionAuthType {
   return "none";
 }
 
+function normalizeWriteMethod(value: unknown): SgaWriteAction["method"] {
+  const upper = typeof value === "string" ? value.trim().toUpperCase() : "";
+  if (upper === "PUT" || upper === "PATCH" || upper === "DELETE") {
+    return upper;
+  }
+  return "POST";
+}
+
+function parseWriteActions(value: unknown): SgaWriteAction[] {
+  return parseRecordArray(parseJsonArray(value))
+    .map((record) => {
+      const trigger = pickString(record, ["trigger", "when"]);
+      return {
+        action: pickString(record, ["action", "name"])?.trim() ?? "",
+        method: normalizeWriteMethod(record.method),
+        endpoint: pickString(record, ["endpoint", "path"])?.trim() ?? "",
+        riskLevel: normalizeRiskLevel(pickString(record, ["risk_level", "riskLevel", "risk"])),
+        trigger: trigger === "every_cycle" ? ("every_cycle" as const) : ("on_failure" as const),
+        estimatedCostUsd: Math.max(0, pickNumber(record, ["estimated_cost_usd", "estimatedCostUsd", "cost"]) ?? 0),
+      };
+    })
+    .filter((action) => action.action && action.endpoint);
+}
+
 function parseHeaders(value: unknown): Record<string, string> {
   const record = parseJsonRecord(value);
   if (!record) return {};
@@ -200,7 +227,7 @@ function parseHeaders(value: unknown): Record<string, string> {
   return next;
 }
 
-function parsePolicy(value: unknown): SgaPolicy {
+export function parsePolicy(value: unknown): SgaPolicy {
   const record = parseJsonRecord(value) ?? {};
   const risk = parseJsonRecord(record.risk_budget ?? record.riskBudget) ?? {};
   const cost = parseJsonRecord(record.cost_budget ?? record.costBudget) ?? {};
@@ -213,6 +240,8 @@ function parsePolicy(value: unknown): SgaPolicy {
     approvalRequiredActions: parseStringArray(
       record.approval_required_actions ?? record.approvalRequiredActions ?? DEFAULT_POLICY.approvalRequiredActions
     ),
+    approvalExpiryMinutes:
+      pickNumber(record, ["approval_expiry_minutes", "approvalExpiryMinutes"]) ?? DEFAULT_POLICY.approvalExpiryMinutes,
     riskBudget: {
       maxHighRiskActionsPerWeek:
         pickNumber(risk, ["max_high_risk_actions_per_week", "maxHighRiskActionsPerWeek"]) ??
@@ -258,10 +287,14 @@ function parseConnections(value: unknown, options?: { includeSecrets?: boolean }
     const denyList = parseFlexibleStringArray(record.deny_list ?? record.denyList ?? record.deny);
     const baseUrl = pickString(record, ["base_url", "baseUrl"]) ?? "";
     const readEndpoints = parseFlexibleStringArray(record.read_endpoints ?? record.readEndpoints ?? record.endpoints);
+    const writeActions = parseWriteActions(record.write_actions ?? record.writeActions);
     const headers = parseHeaders(record.headers);
     const authType = normalizeAuthType(pickString(record, ["auth_type", "authType"]));
     const authHeader = pickString(record, ["auth_header", "authHeader"]);
+    // auth_value is the legacy plaintext field; it is moved into the secrets store on the next save.
     const rawAuthValue = pickString(record, ["auth_value", "authValue"]);
+    const authSecretId = pickString(record, ["auth_secret_id", "authSecretId"]) ?? null;
+    const secretHeaders = parseHeaders(record.secret_headers ?? record.secretHeaders);
     return {
       id,
       name,
@@ -270,11 +303,14 @@ function parseConnections(value: unknown, options?: { includeSecrets?: boolean }
       allowList,
       denyList,
       readEndpoints,
+      writeActions,
       headers,
       authType,
       authHeader,
       authValue: options?.includeSecrets ? rawAuthValue ?? null : null,
-      hasAuthValue: !!rawAuthValue,
+      hasAuthValue: !!rawAuthValue || !!authSecretId,
+      authSecretId,
+      secretHeaders,
     };
   });
 }
@@ -402,7 +438,7 @@ function mapGovernorLogRow(row: RowRecord, instanceId: string): SgaEvent {
   };
 }
 
-function mapLogTypeToKind(logType: string): SgaEventKind {
+export function mapLogTypeToKind(logType: string): SgaEventKind {
   const lower = logType.toLowerCase();
   if (lower.includes("risk")) return "risk_update";
   if (lower.includes("plan")) return "plan_update";
@@ -939,10 +975,14 @@ export async function loadSgaWorldState(instanceId: string): Promise<SgaWorldSta
     const supabaseAny = supabase as any;
     const owner = await loadSgaInstance(instanceId);
     if (!owner) return null;
+    // Scheduler rows (phase 0) and in-flight cycles carry no world state; read the latest finished
+    // cycle, including ones paused on an approval or cancelled by a reviewer.
     const { data, error } = await supabaseAny
       .from("governor_runs")
       .select("*")
       .eq("instance_id", instanceId)
+      .neq("status", "running")
+      .gt("current_phase", 0)
       .order("updated_at", { ascending: false })
       .limit(1)
       .maybeSingle();
@@ -961,6 +1001,27 @@ export async function loadSgaWorldState(instanceId: string): Promise<SgaWorldSta
   }
 }
 
+export async function loadSgaWorldStateAdmin(instanceId: string): Promise<SgaWorldState | null> {
+  if (!instanceId) return null;
+  const supabase = await supabaseServerAdmin();
+  const supabaseAny = supabase as any;
+  const { data, error } = await supabaseAny
+    .from("governor_runs")
+    .select("*")
+    .eq("instance_id", instanceId)
+    .neq("status", "running")
+    .gt("current_phase", 0)
+    .order("updated_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load SGA world state (admin): ${error.message}`);
+  }
+
+  return data ? mapWorldState(data as RowRecord, instanceId) : null;
+}
+
 export async function createSgaInstance(params: {
   name?: string | null;
   environmentLabel?: string | null;
@@ -1195,8 +1256,14 @@ export async function updateSgaConnections(instanceId: string, connections: SgaC
   const previousConnections = parseConnections(config.connections ?? config.connection_map, {
     includeSecrets: true,
   });
-  const normalizedConnections = connections.map((conn) => {
+  // Credentials never land in config: new values are encrypted into governor_secrets (rotating the
+  // existing secret when there is one) and the connection keeps only the secret ids.
+  const keptSecretIds = new Set<string>();
+  const normalizedConnections = [];
+  for (const conn of connections) {
     const previous = previousConnections.find((item) => item.id === conn.id);
+    const id = conn.id || previous?.id || fallbackId("conn");
+    const name = conn.name?.trim() || previous?.name || "Connection";
     const trimmedAuthValue = conn.authValue?.trim();
     const nextAuthType = conn.authType ?? previous?.authType ?? "none";
     const nextAuthValue =
@@ -1204,26 +1271,65 @@ export async function updateSgaConnections(instanceId: string, connections: SgaC
         ? null
         : trimmedAuthValue && trimmedAuthValue.length > 0
           ? trimmedAuthValue
-          : previous?.authValue ?? null;
+          : previous?.authSecretId
+            ? null
+            : previous?.authValue ?? null;
+    let authSecretId = nextAuthType === "none" ? null : previous?.authSecretId ?? null;
+    if (nextAuthValue) {
+      const label = `${name}: auth`;
+      if (authSecretId) {
+        await rotateSgaSecret(supabaseAny, { instanceId, secretId: authSecretId, label, value: nextAuthValue, actor: userId });
+      } else {
+        authSecretId = await createSgaSecret(supabaseAny, { instanceId, label, value: nextAuthValue, actor: userId });
+      }
+    }
+
+    // Only secret headers the connection already had can be kept; their ids come from storage.
+    const previousSecretHeaders = previous?.secretHeaders ?? {};
+    const secretHeaders: Record<string, string> = {};
+    for (const headerName of Object.keys(conn.secretHeaders ?? previousSecretHeaders)) {
+      if (previousSecretHeaders[headerName]) secretHeaders[headerName] = previousSecretHeaders[headerName];
+    }
+    for (const [headerName, rawValue] of Object.entries(conn.secretHeaderValues ?? {})) {
+      const value = rawValue.trim();
+      if (!headerName.trim() || !value) continue;
+      const label = `${name}: ${headerName}`;
+      const existingId = previousSecretHeaders[headerName];
+      if (existingId) {
+        await rotateSgaSecret(supabaseAny, { instanceId, secretId: existingId, label, value, actor: userId });
+        secretHeaders[headerName] = existingId;
+      } else {
+        secretHeaders[headerName] = await createSgaSecret(supabaseAny, { instanceId, label, value, actor: userId });
+      }
+    }
+    const headers = { ...(conn.headers ?? previous?.headers ?? {}) };
+    for (const headerName of Object.keys(secretHeaders)) {
+      delete headers[headerName];
+    }
+
     const nextAuthHeaderRaw =
       conn.authHeader && conn.authHeader.trim()
         ? conn.authHeader.trim()
         : previous?.authHeader ?? null;
     const nextAuthHeader = nextAuthType === "none" ? null : nextAuthHeaderRaw;
-    return {
-      id: conn.id || previous?.id || fallbackId("conn"),
-      name: conn.name?.trim() || previous?.name || "Connection",
+    const normalized = {
+      id,
+      name,
       baseUrl: conn.baseUrl?.trim() || previous?.baseUrl || "",
       permission: conn.permission ?? previous?.permission ?? "read",
       allowList: conn.allowList ?? previous?.allowList ?? [],
       denyList: conn.denyList ?? previous?.denyList ?? [],
       readEndpoints: conn.readEndpoints ?? previous?.readEndpoints ?? [],
-      headers: conn.headers ?? previous?.headers ?? {},
+      writeActions: parseWriteActions(conn.writeActions ?? previous?.writeActions ?? []),
+      headers,
       authType: nextAuthType,
       authHeader: nextAuthHeader,
-      authValue: nextAuthValue,
+      authSecretId,
+      secretHeaders,
     };
-  });
+    connectionSecretRefs(normalized).forEach((ref) => keptSecretIds.add(ref.id));
+    normalizedConnections.push(normalized);
+  }
   const nextConfig = { ...config, connections: normalizedConnections };
 
   const { error } = await supabaseAny
@@ -1235,6 +1341,12 @@ export async function updateSgaConnections(instanceId: string, connections: SgaC
   if (error) {
     throw new Error(`Failed to update connections: ${error.message}`);
   }
+
+  await deleteSgaSecrets(supabaseAny, {
+    instanceId,
+    secrets: previousConnections.flatMap(connectionSecretRefs).filter((ref) => !keptSecretIds.has(ref.id)),
+    actor: userId,
+  });
 }
 
 export async function renameSgaInstance(instanceId: string, name: string) {
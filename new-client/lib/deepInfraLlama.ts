@@ -1,76 +1,28 @@
-import type OpenAI from "openai";
-import type {
-  ChatCompletionCreateParamsNonStreaming,
-  ChatCompletionMessageParam,
-} from "openai/resources/chat/completions";
-import { createOpenAIClient, getOpenAIRequestId } from "@/lib/openai/client";
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import { createOpenAICompatibleProvider } from "@/lib/providers/openai-compatible";
+import { getChatProvider } from "@/lib/providers/registry";
+import type { ChatProvider } from "@/lib/providers/types";
 
+const DEFAULT_PROVIDER_ID = "deepinfra";
 const DEFAULT_BASE_URL = "https://api.deepinfra.com/v1/openai";
-const clientCache = new Map<string, OpenAI>();
+const adHocProviders = new Map<string, ChatProvider>();
 
-function getClient(baseURL = DEFAULT_BASE_URL) {
-  if (clientCache.has(baseURL)) return clientCache.get(baseURL)!;
-  const apiKey = process.env.DEEPINFRA_API_KEY;
-  if (!apiKey) {
-    throw new Error("DEEPINFRA_API_KEY is not set");
+// Callers that pass an explicit non-default baseURL get an ad-hoc OpenAI-compatible provider
+// using the DeepInfra key, matching the previous behaviour of this helper.
+function resolveProvider(providerId: string, baseURL?: string): ChatProvider {
+  if (!baseURL || baseURL === DEFAULT_BASE_URL) {
+    return getChatProvider(providerId);
   }
-  const client = createOpenAIClient({
-    apiKey,
+  const cached = adHocProviders.get(baseURL);
+  if (cached) return cached;
+  const provider = createOpenAICompatibleProvider({
+    id: `${DEFAULT_PROVIDER_ID}:${baseURL}`,
+    kind: "openai-compatible",
     baseURL,
+    apiKeyEnv: "DEEPINFRA_API_KEY",
   });
-  clientCache.set(baseURL, client);
-  return client;
-}
-
-async function callDeepInfraChatCompletions({
-  apiKey,
-  baseURL,
-  payload,
-}: {
-  apiKey: string;
-  baseURL: string;
-  payload: Record<string, any>;
-}): Promise<{ text: string; usage: { input_tokens: number; output_tokens: number } }> {
-  const url = new URL("chat/completions", baseURL.endsWith("/") ? baseURL : `${baseURL}/`);
-  const response = await fetch(url.toString(), {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify(payload),
-  });
-  const bodyText = await response.text();
-  let data: any = null;
-  if (bodyText) {
-    try {
-      data = JSON.parse(bodyText);
-    } catch {
-      data = null;
-    }
-  }
-  const requestId = response.headers.get("x-request-id") ?? data?._request_id;
-  if (requestId) {
-    console.log("[deepinfra] OpenAI request id", { requestId });
-  }
-  if (!response.ok) {
-    console.error("[deepinfra] chat completions error", {
-      status: response.status,
-      statusText: response.statusText,
-      body: bodyText || null,
-      requestId,
-    });
-    throw new Error(`DeepInfra chat completions failed (${response.status}): ${bodyText || "no body"}`);
-  }
-  const text = data?.choices?.[0]?.message?.content?.trim() ?? "";
-  const usage: any = data?.usage || {};
-  return {
-    text,
-    usage: {
-      input_tokens: usage.prompt_tokens ?? 0,
-      output_tokens: usage.completion_tokens ?? 0,
-    },
-  };
+  adHocProviders.set(baseURL, provider);
+  return provider;
 }
 
 export async function callDeepInfraLlama({
@@ -83,6 +35,7 @@ export async function callDeepInfraLlama({
   enforceJson = true,
   extraParams = {},
   baseURL,
+  providerId = DEFAULT_PROVIDER_ID,
 }: {
   messages: ChatCompletionMessageParam[];
   schemaName?: string;
@@ -93,68 +46,22 @@ export async function callDeepInfraLlama({
   enforceJson?: boolean;
   extraParams?: Record<string, any>;
   baseURL?: string;
+  providerId?: string;
 }): Promise<{ text: string; usage: { input_tokens: number; output_tokens: number } }> {
-  const resolvedBaseURL = baseURL ?? DEFAULT_BASE_URL;
-  const apiKey = process.env.DEEPINFRA_API_KEY;
-  if (!apiKey) {
-    throw new Error("DEEPINFRA_API_KEY is not set");
+  const provider = resolveProvider(providerId, baseURL);
+  const missing = provider.getMissingConfig();
+  if (missing) {
+    throw new Error(`${missing} is not set`);
   }
 
-  const schemaNudge =
-    schema && schemaName
-      ? `You must return a JSON object matching the schema "${schemaName}": ${JSON.stringify(schema)}`
-      : "";
-
-  const finalMessages: ChatCompletionMessageParam[] = schemaNudge
-    ? [{ role: "system", content: schemaNudge }, ...messages]
-    : messages;
-
-  const isDeepInfra = resolvedBaseURL.startsWith("https://api.deepinfra.com/");
-  const disableJsonObject =
-    isDeepInfra && typeof model === "string" && model.includes("gpt-oss-");
-  const responseFormat = enforceJson && !disableJsonObject ? ({ type: "json_object" } as const) : undefined;
-
-  const requestPayload: ChatCompletionCreateParamsNonStreaming & Record<string, any> = {
+  return provider.complete({
+    messages,
+    schemaName,
+    schema,
+    maxTokens,
     model,
-    messages: finalMessages,
     temperature,
-    response_format: responseFormat,
-    ...extraParams,
-  };
-  if (typeof maxTokens === "number") {
-    requestPayload.max_tokens = maxTokens;
-  }
-  if (resolvedBaseURL.startsWith("https://api.deepinfra.com/")) {
-    const cleanPayload = {
-      ...requestPayload,
-    };
-    if (disableJsonObject) {
-      delete (cleanPayload as any).response_format;
-    }
-    return callDeepInfraChatCompletions({
-      apiKey,
-      baseURL: resolvedBaseURL,
-      payload: cleanPayload,
-    });
-  }
-
-  const client = getClient(resolvedBaseURL);
-  const { data: completion, response: rawResponse } = await client.chat.completions
-    .create(requestPayload as ChatCompletionCreateParamsNonStreaming)
-    .withResponse();
-  const requestId = getOpenAIRequestId(completion, rawResponse);
-  if (requestId) {
-    console.log("[deepinfra] OpenAI request id", { requestId });
-  }
-
-  const text = completion.choices?.[0]?.message?.content?.trim() ?? "";
-  const usage: any = completion.usage || {};
-
-  return {
-    text,
-    usage: {
-      input_tokens: usage.prompt_tokens ?? 0,
-      output_tokens: usage.completion_tokens ?? 0,
-    },
-  };
+    enforceJson,
+    extraParams,
+  });
 }
@@ -34,3 +34,12 @@ export const LOG_MAX_LINES = parseInt(
   process.env.LOG_MAX_LINES || "5000",
   10,
 );
+// Office Open XML files are mostly compressed media; only their XML parts are inflated.
+export const OFFICE_MAX_BYTES = parseInt(
+  process.env.OFFICE_MAX_BYTES || "20000000",
+  10,
+);
+export const OFFICE_MAX_PART_BYTES = parseInt(
+  process.env.OFFICE_MAX_PART_BYTES || "15000000",
+  10,
+);
@@ -29,6 +29,23 @@ const IMAGE_EXTENSIONS = ["png", "jpg", "jpeg", "webp", "tiff", "bmp"];
 const AUDIO_EXTENSIONS = ["mp3", "wav", "m4a", "ogg", "webm", "flac"];
 const VIDEO_EXTENSIONS = ["mp4", "mov", "mkv", "webm", "avi"];
 
+const DOCX_EXTENSIONS = ["docx", "docm", "dotx", "dotm"];
+const XLSX_EXTENSIONS = ["xlsx", "xlsm", "xltx", "xltm"];
+const PPTX_EXTENSIONS = ["pptx", "pptm", "potx", "potm", "ppsx", "ppsm"];
+
+// Word/Excel/PowerPoint containers by extension, MIME type, or (for misnamed uploads) the main
+// part name, which appears uncompressed in the zip's local file headers.
+function detectOoxmlKind(buffer: Buffer, ext: string, lowerMime: string): string | null {
+  if (DOCX_EXTENSIONS.includes(ext) || lowerMime.includes("wordprocessingml")) return "docx";
+  if (XLSX_EXTENSIONS.includes(ext) || lowerMime.includes("spreadsheetml")) return "xlsx";
+  if (PPTX_EXTENSIONS.includes(ext) || lowerMime.includes("presentationml")) return "pptx";
+  if (!buffer.includes("[Content_Types].xml")) return null;
+  if (buffer.includes("word/document.xml")) return "docx";
+  if (buffer.includes("xl/workbook.xml")) return "xlsx";
+  if (buffer.includes("ppt/presentation.xml")) return "pptx";
+  return null;
+}
+
 function getExt(name: string) {
   const parts = name.toLowerCase().split(".");
   return parts.length > 1 ? parts.pop() ?? "" : "";
@@ -86,6 +103,8 @@ export function detectKind(
   if (isZip) {
     if (["odt", "ods", "odp"].includes(ext)) return "odf";
     if (ext === "epub") return "epub";
+    const ooxmlKind = detectOoxmlKind(buffer, ext, lowerMime);
+    if (ooxmlKind) return ooxmlKind;
     return "zip";
   }
 
@@ -1,4 +1,4 @@
-import { LARGE_FILE_THRESHOLD } from "./config";
+import { LARGE_FILE_THRESHOLD, OFFICE_MAX_BYTES } from "./config";
 import { detectKind } from "./detect";
 import type { Extractor, ExtractionResult } from "./types";
 import { formatPreview } from "./utils/text";
@@ -23,6 +23,18 @@ async function loadExtractor(kind: string): Promise<Extractor> {
       const mod = await import("./extractors/odf");
       return mod.odfExtractor;
     }
+    case "docx": {
+      const mod = await import("./extractors/docx");
+      return mod.docxExtractor;
+    }
+    case "xlsx": {
+      const mod = await import("./extractors/xlsx");
+      return mod.xlsxExtractor;
+    }
+    case "pptx": {
+      const mod = await import("./extractors/pptx");
+      return mod.pptxExtractor;
+    }
     case "epub": {
       const mod = await import("./extractors/epub");
       return mod.epubExtractor;
@@ -91,6 +103,11 @@ const HEAVY_KINDS = new Set([
   "video",
 ]);
 
+// OOXML files are mostly compressed media and only their XML parts are inflated, so they get a
+// higher ceiling than the other heavy kinds. Binary Office files share that ceiling since
+// embedded images make up most of their size too.
+const OFFICE_KINDS = new Set(["docx", "xlsx", "pptx", "legacy_office"]);
+
 export async function dispatchExtract(
   buffer: Buffer,
   name: string,
@@ -109,7 +126,8 @@ export async function dispatchExtract(
   const detectedKind = detectKind(buffer, name, mime);
   const extractor: Extractor = await loadExtractor(detectedKind);
 
-  if (size > LARGE_FILE_THRESHOLD && HEAVY_KINDS.has(detectedKind)) {
+  const sizeLimit = OFFICE_KINDS.has(detectedKind) ? OFFICE_MAX_BYTES : LARGE_FILE_THRESHOLD;
+  if (size > sizeLimit && (HEAVY_KINDS.has(detectedKind) || OFFICE_KINDS.has(detectedKind))) {
     const preview = formatPreview(
       "too_large",
       `File too large (${size} bytes) for inline extraction. Use file_search for full content.`,
@@ -120,7 +138,7 @@ export async function dispatchExtract(
         kind: detectedKind,
         size,
         status: "too_large",
-        notes: ["Large file gating applied", `Limit: ${LARGE_FILE_THRESHOLD}`],
+        notes: ["Large file gating applied", `Limit: ${sizeLimit}`],
       },
     };
   }
@@ -0,0 +1,202 @@
+import JSZip from "jszip";
+import { MAX_PREVIEW_BYTES } from "../config";
+import type { Extractor } from "../types";
+import { truncateUtf8 } from "../utils/text";
+import {
+  attrsOf,
+  childOf,
+  childrenOf,
+  countWords,
+  findAll,
+  parseOoxml,
+  readPart,
+  tagOf,
+  textOf,
+  type XmlNode,
+} from "../utils/ooxml";
+
+// Word body -> markdown-ish text: headings as `#`, list items as `-`, tables as pipe tables.
+
+const MAX_TABLE_ROWS = 100;
+
+type DocxStats = {
+  paragraphs: number;
+  headings: number;
+  listItems: number;
+  tables: number;
+  tableRows: number;
+  words: number;
+};
+
+export const docxExtractor: Extractor = async (buffer, _name, _mime, ctx) => {
+  const zip = await JSZip.loadAsync(buffer);
+  const notes: string[] = [];
+  const documentXml = await readPart(zip, "word/document.xml", notes);
+  if (!documentXml) {
+    return {
+      preview: "Missing word/document.xml in Word container",
+      meta: { kind: "docx", size: ctx.size, status: "parse_error", notes },
+    };
+  }
+
+  const headingLevels = await loadHeadingLevels(zip);
+  const body = findAll(parseOoxml(documentXml), "w:body")[0];
+  const stats: DocxStats = { paragraphs: 0, headings: 0, listItems: 0, tables: 0, tableRows: 0, words: 0 };
+  const blocks: string[] = [];
+  let bytes = 0;
+  let truncated = false;
+
+  const pushBlock = (block: string) => {
+    if (!block) return;
+    stats.words += countWords(block);
+    if (truncated) return;
+    bytes += Buffer.byteLength(block, "utf-8") + 2;
+    blocks.push(block);
+    if (bytes > MAX_PREVIEW_BYTES) truncated = true;
+  };
+
+  const walk = (nodes: XmlNode[]) => {
+    for (const node of nodes) {
+      const tag = tagOf(node);
+      if (tag === "w:p") {
+        const block = renderParagraph(node, headingLevels, stats);
+        if (block) pushBlock(block);
+      } else if (tag === "w:tbl") {
+        pushBlock(renderTable(node, stats));
+      } else if (tag === "w:sdt" || tag === "w:sdtContent" || tag === "w:customXml" || tag === "w:ins") {
+        // Content controls and tracked insertions wrap ordinary body content.
+        walk(childrenOf(node));
+      }
+    }
+  };
+  walk(body ? childrenOf(body) : []);
+
+  if (truncated) notes.push(`Preview truncated at ${MAX_PREVIEW_BYTES} bytes`);
+  const preview = truncateUtf8(blocks.join("\n\n"));
+  return {
+    preview,
+    meta: {
+      kind: "docx",
+      size: ctx.size,
+      status: preview ? "ok" : "empty",
+      ...(notes.length ? { notes } : {}),
+      stats,
+    },
+  };
+};
+
+/**
+ * Map paragraph style ids to heading levels from word/styles.xml. Style ids are localized
+ * ("Heading1", "Überschrift1"), so the level comes from the style's outline level or its
+ * built-in name ("heading 1", "Title").
+ */
+async function loadHeadingLevels(zip: JSZip): Promise<Map<string, number>> {
+  const levels = new Map<string, number>();
+  const stylesXml = await readPart(zip, "word/styles.xml");
+  if (!stylesXml) return levels;
+  for (const style of findAll(parseOoxml(stylesXml), "w:style")) {
+    const attrs = attrsOf(style);
+    if (attrs["w:type"] !== "paragraph" || !attrs["w:styleId"]) continue;
+    const name = (attrsOf(childOf(style, "w:name") ?? {})["w:val"] ?? "").toLowerCase();
+    const outline = childOf(childOf(style, "w:pPr") ?? {}, "w:outlineLvl");
+    const outlineLevel = outline ? Number(attrsOf(outline)["w:val"]) : NaN;
+    const nameMatch = name.match(/^heading\s*(\d)$/);
+    if (name === "title") {
+      levels.set(attrs["w:styleId"], 1);
+    } else if (nameMatch) {
+      levels.set(attrs["w:styleId"], Math.min(Number(nameMatch[1]), 6));
+    } else if (Number.isFinite(outlineLevel) && outlineLevel < 9) {
+      levels.set(attrs["w:styleId"], Math.min(outlineLevel + 1, 6));
+    }
+  }
+  return levels;
+}
+
+// Text of runs in document order: w:t, tabs and breaks. Deleted text (w:delText) is skipped.
+function runText(nodes: XmlNode[]): string {
+  let out = "";
+  for (const node of nodes) {
+    const tag = tagOf(node);
+    if (tag === "w:t") {
+      out += childrenOf(node)
+        .map((child) => textOf(child) ?? "")
+        .join("");
+    } else if (tag === "w:tab") {
+      out += "\t";
+    } else if (tag === "w:br" || tag === "w:cr") {
+      out += "\n";
+    } else if (
+      tag === "w:del" ||
+      tag === "w:pPr" ||
+      tag === "w:rPr" ||
+      tag === "w:instrText" ||
+      // Drawings repeat their text box content in the legacy fallback branch.
+      tag === "mc:Fallback"
+    ) {
+      continue;
+    } else if (tag) {
+      out += runText(childrenOf(node));
+    }
+  }
+  return out;
+}
+
+function renderParagraph(paragraph: XmlNode, headingLevels: Map<string, number>, stats: DocxStats): string {
+  const text = runText(childrenOf(paragraph)).replace(/[ \u00a0]+/g, " ").trim();
+  if (!text) return "";
+  stats.paragraphs += 1;
+
+  const pPr = childOf(paragraph, "w:pPr");
+  const styleId = attrsOf(childOf(pPr ?? {}, "w:pStyle") ?? {})["w:val"];
+  const outline = childOf(pPr ?? {}, "w:outlineLvl");
+  const level =
+    (styleId ? headingLevels.get(styleId) : undefined) ??
+    (outline ? Math.min(Number(attrsOf(outline)["w:val"]) + 1, 6) : undefined);
+  if (level && Number.isFinite(level)) {
+    stats.headings += 1;
+    return `${"#".repeat(level)} ${text.replace(/\n+/g, " ")}`;
+  }
+
+  const numPr = childOf(pPr ?? {}, "w:numPr");
+  if (numPr) {
+    stats.listItems += 1;
+    const depth = Number(attrsOf(childOf(numPr, "w:ilvl") ?? {})["w:val"] ?? 0) || 0;
+    return `${"  ".repeat(Math.min(depth, 8))}- ${text}`;
+  }
+  return text;
+}
+
+function cellText(cell: XmlNode): string {
+  return findAll(childrenOf(cell), "w:p")
+    .map((p) => runText(childrenOf(p)).trim())
+    .filter(Boolean)
+    .join(" ")
+    .replace(/\s+/g, " ")
+    .replace(/\|/g, "\\|");
+}
+
+function renderTable(table: XmlNode, stats: DocxStats): string {
+  stats.tables += 1;
+  const rows = childrenOf(table)
+    .filter((child) => tagOf(child) === "w:tr")
+    .map((row) =>
+      childrenOf(row)
+        .filter((child) => tagOf(child) === "w:tc" || tagOf(child) === "w:sdt")
+        .map((cell) => cellText(cell)),
+    )
+    .filter((cells) => cells.some((cell) => cell.length > 0));
+  stats.tableRows += rows.length;
+  if (!rows.length) return "";
+
+  const columns = Math.max(...rows.map((cells) => cells.length));
+  const shown = rows.slice(0, MAX_TABLE_ROWS).map((cells) => {
+    const padded = [...cells, ...Array(columns - cells.length).fill("")];
+    return `| ${padded.join(" | ")} |`;
+  });
+  const separator = `| ${Array(columns).fill("---").join(" | ")} |`;
+  const lines = [shown[0], separator, ...shown.slice(1)];
+  if (rows.length > MAX_TABLE_ROWS) {
+    lines.push(`[${rows.length - MAX_TABLE_ROWS} more rows]`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,341 @@
+import type { CompoundFile } from "../../utils/ole";
+import {
+  MAX_SHEET_COLUMNS,
+  formatSerialDate,
+  isBuiltinDateFormat,
+  isDateFormatCode,
+  serialDateEpoch,
+  sheetPreviewLines,
+  type SheetStats,
+} from "../../utils/spreadsheet";
+import type { LegacyReadResult } from "./types";
+
+// Excel 97-2003 (.xls): BIFF8 records from the Workbook stream (MS-XLS), rendered like xlsx.ts.
+
+const MAX_SHEETS = 10;
+
+const BIFF8_VERSION = 0x0600;
+const RT = {
+  BOF: 0x0809,
+  EOF: 0x000a,
+  FILEPASS: 0x002f,
+  DATEMODE: 0x0022,
+  FORMAT: 0x041e,
+  XF: 0x00e0,
+  BOUNDSHEET: 0x0085,
+  SST: 0x00fc,
+  CONTINUE: 0x003c,
+  LABELSST: 0x00fd,
+  LABEL: 0x0204,
+  NUMBER: 0x0203,
+  RK: 0x027e,
+  MULRK: 0x00bd,
+  BOOLERR: 0x0205,
+  FORMULA: 0x0006,
+  STRING: 0x0207,
+} as const;
+
+const ERROR_CODES: Record<number, string> = {
+  0x00: "#NULL!",
+  0x07: "#DIV/0!",
+  0x0f: "#VALUE!",
+  0x17: "#REF!",
+  0x1d: "#NAME?",
+  0x24: "#NUM!",
+  0x2a: "#N/A",
+};
+
+type BiffRecord = { type: number; data: Buffer };
+
+type Workbook = {
+  sheets: Array<{ name: string; offset: number; hidden: boolean }>;
+  strings: string[];
+  dateXfs: Set<number>;
+  epochMs: number;
+};
+
+export function readExcelWorkbook(cfb: CompoundFile): LegacyReadResult {
+  const notes: string[] = [];
+  const stream = cfb.readStream("Workbook") ?? cfb.readStream("Book");
+  const first = stream ? readRecords(stream, 0).next().value : undefined;
+  if (!stream || !first || first.type !== RT.BOF) {
+    return { body: "", status: "parse_error", notes: ["Missing Excel workbook globals"], stats: {} };
+  }
+  if (first.data.readUInt16LE(0) !== BIFF8_VERSION) {
+    return { body: "", status: "unsupported", notes: ["Only Excel 97-2003 (BIFF8) workbooks are supported"], stats: {} };
+  }
+
+  const workbook = readGlobals(stream);
+  if (!workbook) {
+    return { body: "", status: "encrypted", notes: ["Workbook is password protected"], stats: {} };
+  }
+
+  const parts: string[] = [];
+  const sheetStats: SheetStats[] = [];
+  let totalRows = 0;
+  let maxColumns = 0;
+  for (const [idx, sheet] of workbook.sheets.entries()) {
+    if (idx >= MAX_SHEETS) {
+      notes.push(`Only the first ${MAX_SHEETS} of ${workbook.sheets.length} sheets were read`);
+      break;
+    }
+    const rows = readSheetRows(stream, sheet.offset, workbook);
+    const columns = rows.reduce((max, row) => Math.max(max, row.length), 0);
+    totalRows += rows.length;
+    maxColumns = Math.max(maxColumns, columns);
+    sheetStats.push({ name: sheet.name, rows: rows.length, columns, ...(sheet.hidden ? { hidden: true } : {}) });
+    parts.push(...sheetPreviewLines(sheet.name, sheet.hidden, rows));
+  }
+
+  return {
+    body: parts.join("\n").trim(),
+    status: totalRows > 0 ? "ok" : "empty",
+    notes,
+    stats: {
+      format: "xls",
+      delimiter: "\t",
+      sheetCount: workbook.sheets.length,
+      rows: totalRows,
+      columns: maxColumns,
+      sheets: sheetStats,
+    },
+  };
+}
+
+function* readRecords(stream: Buffer, start: number): Generator<BiffRecord> {
+  let pos = start;
+  while (pos + 4 <= stream.length) {
+    const type = stream.readUInt16LE(pos);
+    const length = stream.readUInt16LE(pos + 2);
+    yield { type, data: stream.subarray(pos + 4, pos + 4 + length) };
+    pos += 4 + length;
+  }
+}
+
+// XLUnicodeString / ShortXLUnicodeString body: flags byte (bit 0 = UTF-16) followed by cch chars.
+function readChars(data: Buffer, offset: number, cch: number): string {
+  const flags = data[offset] ?? 0;
+  return flags & 0x01
+    ? data.toString("utf16le", offset + 1, offset + 1 + cch * 2)
+    : data.toString("latin1", offset + 1, offset + 1 + cch);
+}
+
+// Null when the workbook is encrypted (FILEPASS), since every later record is then unreadable.
+function readGlobals(stream: Buffer): Workbook | null {
+  const sheets: Workbook["sheets"] = [];
+  const formats = new Map<number, string>();
+  const xfFormats: number[] = [];
+  const sstSegments: Buffer[] = [];
+  let inSst = false;
+  let date1904 = false;
+
+  for (const { type, data } of readRecords(stream, 0)) {
+    if (type !== RT.CONTINUE) inSst = false;
+    if (type === RT.EOF) break;
+    switch (type) {
+      case RT.FILEPASS:
+        return null;
+      case RT.DATEMODE:
+        date1904 = data.readUInt16LE(0) === 1;
+        break;
+      case RT.FORMAT:
+        formats.set(data.readUInt16LE(0), readChars(data, 4, data.readUInt16LE(2)));
+        break;
+      case RT.XF:
+        xfFormats.push(data.readUInt16LE(2));
+        break;
+      case RT.BOUNDSHEET: {
+        // Only worksheets (dt = 0); chart, macro and VB module sheets have no cells.
+        if (data[5] !== 0) break;
+        sheets.push({
+          name: readChars(data, 7, data[6]) || "Sheet",
+          offset: data.readUInt32LE(0),
+          hidden: (data[4] & 0x03) !== 0,
+        });
+        break;
+      }
+      case RT.SST:
+        sstSegments.push(data);
+        inSst = true;
+        break;
+      case RT.CONTINUE:
+        if (inSst) sstSegments.push(data);
+        break;
+    }
+  }
+
+  const dateXfs = new Set<number>();
+  xfFormats.forEach((ifmt, idx) => {
+    if (isBuiltinDateFormat(ifmt) || isDateFormatCode(formats.get(ifmt) ?? "")) dateXfs.add(idx);
+  });
+  return { sheets, strings: readSst(sstSegments), dateXfs, epochMs: serialDateEpoch(date1904) };
+}
+
+/**
+ * Shared strings table. Strings can straddle SST/CONTINUE record boundaries; when the characters
+ * are split, the continuation starts with a fresh flags byte that may switch between 8- and 16-bit.
+ */
+function readSst(segments: Buffer[]): string[] {
+  const strings: string[] = [];
+  if (!segments.length) return strings;
+  let seg = 0;
+  let pos = 0;
+  const align = () => {
+    while (seg < segments.length && pos >= segments[seg].length) {
+      seg += 1;
+      pos = 0;
+    }
+    return seg < segments.length;
+  };
+  const u8 = () => (align() ? segments[seg][pos++] : 0);
+  const u16 = () => u8() | (u8() << 8);
+  const u32 = () => u16() + u16() * 0x10000;
+  const skip = (count: number) => {
+    let remaining = count;
+    while (remaining > 0 && align()) {
+      const take = Math.min(remaining, segments[seg].length - pos);
+      pos += take;
+      remaining -= take;
+    }
+  };
+
+  u32(); // cstTotal
+  const unique = u32();
+  for (let i = 0; i < unique && align(); i += 1) {
+    const cch = u16();
+    const flags = u8();
+    const runs = flags & 0x08 ? u16() : 0;
+    const extSize = flags & 0x04 ? u32() : 0;
+    let wide = flags & 0x01;
+    let remaining = cch;
+    let text = "";
+    while (remaining > 0) {
+      if (pos >= segments[seg].length) {
+        seg += 1;
+        pos = 0;
+        if (seg >= segments.length) break;
+        wide = segments[seg][pos++] & 0x01;
+      }
+      const buf = segments[seg];
+      const available = wide ? Math.floor((buf.length - pos) / 2) : buf.length - pos;
+      const count = Math.min(remaining, available);
+      if (count <= 0) {
+        pos = buf.length;
+        continue;
+      }
+      text += wide
+        ? buf.toString("utf16le", pos, pos + count * 2)
+        : buf.toString("latin1", pos, pos + count);
+      pos += wide ? count * 2 : count;
+      remaining -= count;
+    }
+    skip(runs * 4 + extSize);
+    strings.push(text);
+  }
+  return strings;
+}
+
+// RK: 30-bit integer or the high bits of a double, optionally scaled by 1/100.
+function decodeRk(rk: number): number {
+  let value: number;
+  if (rk & 0x02) {
+    value = rk >> 2;
+  } else {
+    const buf = Buffer.alloc(8);
+    buf.writeUInt32LE((rk & 0xfffffffc) >>> 0, 4);
+    value = buf.readDoubleLE(0);
+  }
+  return rk & 0x01 ? value / 100 : value;
+}
+
+function formatNumber(value: number, xf: number, workbook: Workbook): string {
+  if (workbook.dateXfs.has(xf) && Number.isFinite(value)) {
+    return formatSerialDate(value, workbook.epochMs);
+  }
+  // Trim binary floating point noise the way Excel displays it (15 significant digits).
+  return String(Number(value.toPrecision(15)));
+}
+
+// Non-empty rows of a worksheet substream, with cells placed by column (gaps become empty cells).
+function readSheetRows(stream: Buffer, offset: number, workbook: Workbook): string[][] {
+  const cells = new Map<number, string[]>();
+  const setCell = (row: number, column: number, value: string) => {
+    const clean = value.replace(/[\t\r\n]+/g, " ").trim();
+    if (!clean || column >= MAX_SHEET_COLUMNS) return;
+    const values = cells.get(row) ?? [];
+    while (values.length < column) values.push("");
+    values[column] = clean;
+    cells.set(row, values);
+  };
+
+  let depth = 0;
+  let pendingFormula: { row: number; column: number } | null = null;
+  for (const { type, data } of readRecords(stream, offset)) {
+    if (type === RT.BOF) {
+      depth += 1;
+      continue;
+    }
+    if (type === RT.EOF) {
+      depth -= 1;
+      if (depth <= 0) break;
+      continue;
+    }
+    // Embedded chart substreams have their own BOF/EOF pair.
+    if (depth !== 1) continue;
+    if (type === RT.STRING) {
+      // Cached string result of the preceding FORMULA record.
+      if (pendingFormula && data.length >= 3) {
+        setCell(pendingFormula.row, pendingFormula.column, readChars(data, 2, data.readUInt16LE(0)));
+      }
+      pendingFormula = null;
+      continue;
+    }
+    if (data.length < 6) continue;
+    const row = data.readUInt16LE(0);
+    const column = data.readUInt16LE(2);
+    const xf = data.readUInt16LE(4);
+    switch (type) {
+      case RT.LABELSST:
+        setCell(row, column, workbook.strings[data.readUInt32LE(6)] ?? "");
+        break;
+      case RT.LABEL:
+        setCell(row, column, readChars(data, 8, data.readUInt16LE(6)));
+        break;
+      case RT.NUMBER:
+        setCell(row, column, formatNumber(data.readDoubleLE(6), xf, workbook));
+        break;
+      case RT.RK:
+        setCell(row, column, formatNumber(decodeRk(data.readUInt32LE(6)), xf, workbook));
+        break;
+      case RT.MULRK: {
+        const count = Math.floor((data.length - 6) / 6);
+        for (let i = 0; i < count; i += 1) {
+          const itemXf = data.readUInt16LE(4 + i * 6);
+          const rk = data.readUInt32LE(6 + i * 6);
+          setCell(row, column + i, formatNumber(decodeRk(rk), itemXf, workbook));
+        }
+        break;
+      }
+      case RT.BOOLERR:
+        setCell(row, column, data[7] ? (ERROR_CODES[data[6]] ?? "#ERROR") : data[6] ? "TRUE" : "FALSE");
+        break;
+      case RT.FORMULA: {
+        // Cached result: a double, or a tagged non-numeric value when the top bytes are 0xFFFF.
+        pendingFormula = null;
+        if (data.length < 14) break;
+        if (data.readUInt16LE(12) !== 0xffff) {
+          setCell(row, column, formatNumber(data.readDoubleLE(6), xf, workbook));
+        } else if (data[6] === 0) {
+          pendingFormula = { row, column };
+        } else if (data[6] === 1) {
+          setCell(row, column, data[8] ? "TRUE" : "FALSE");
+        } else if (data[6] === 2) {
+          setCell(row, column, ERROR_CODES[data[8]] ?? "#ERROR");
+        }
+        break;
+      }
+    }
+  }
+
+  return [...cells.entries()].sort((a, b) => a[0] - b[0]).map(([, values]) => values);
+}
@@ -0,0 +1,227 @@
+import type { CompoundFile } from "../../utils/ole";
+import { countWords } from "../../utils/ooxml";
+import type { LegacyReadResult } from "./types";
+
+// PowerPoint 97-2003 (.ppt): slide text from the "PowerPoint Document" stream (MS-PPT), rendered
+// like pptx.ts. Slides are found through the persist directory of the current edit; when that
+// chain is damaged, slide containers are collected by scanning the stream in order.
+
+const MAX_SLIDES = 200;
+const MAX_DEPTH = 16;
+
+const RT = {
+  Document: 0x03e8,
+  Slide: 0x03ee,
+  SlideAtom: 0x03ef,
+  Notes: 0x03f0,
+  SlidePersistAtom: 0x03f3,
+  SlideListWithText: 0x0ff0,
+  UserEditAtom: 0x0ff5,
+  PersistDirectoryAtom: 0x1772,
+  TextHeaderAtom: 0x0f9f,
+  TextCharsAtom: 0x0fa0,
+  TextBytesAtom: 0x0fa8,
+} as const;
+
+const SLIDE_LIST_SLIDES = 0;
+const SLIDE_LIST_NOTES = 2;
+const TEXT_TITLE = 0;
+const TEXT_NOTES = 2;
+const TEXT_CENTER_TITLE = 6;
+const ENCRYPTED_HEADER_TOKEN = 0xf3d1c4df;
+
+type PptRecord = { type: number; instance: number; container: boolean; start: number; end: number };
+type TextRun = { type: number; text: string };
+type SlideRef = { persistId: number; slideId: number; texts: TextRun[] };
+
+export function readPowerPointDocument(cfb: CompoundFile): LegacyReadResult {
+  const notes: string[] = [];
+  const stream = cfb.readStream("PowerPoint Document");
+  if (!stream) {
+    return { body: "", status: "parse_error", notes: ["Missing PowerPoint Document stream"], stats: {} };
+  }
+  const currentUser = cfb.readStream("Current User");
+  if (currentUser && currentUser.length >= 20 && currentUser.readUInt32LE(12) === ENCRYPTED_HEADER_TOKEN) {
+    return { body: "", status: "encrypted", notes: ["Presentation is password protected"], stats: {} };
+  }
+
+  let slides = readSlidesFromPersistDirectory(stream, currentUser);
+  if (!slides) {
+    notes.push("Persist directory unreadable; slides recovered by scanning the stream");
+    slides = readRecords(stream, 0, stream.length)
+      .filter((record) => record.type === RT.Slide)
+      .map((record) => ({ texts: textRuns(stream, record), notes: [] as TextRun[] }));
+  }
+
+  const sections: string[] = [];
+  let slidesWithText = 0;
+  let slidesWithNotes = 0;
+  let words = 0;
+  for (const [idx, slide] of slides.entries()) {
+    if (idx >= MAX_SLIDES) {
+      notes.push(`Only the first ${MAX_SLIDES} of ${slides.length} slides were read`);
+      break;
+    }
+    const titleRun = slide.texts.find((run) => run.type === TEXT_TITLE || run.type === TEXT_CENTER_TITLE);
+    const title = titleRun ? textLines(titleRun.text).join(" ") : "";
+    const body = slide.texts.filter((run) => run !== titleRun).flatMap((run) => textLines(run.text));
+    const speakerNotes = slide.notes
+      .filter((run) => run.type === TEXT_NOTES)
+      .flatMap((run) => textLines(run.text))
+      .join(" ");
+    if (title || body.length) slidesWithText += 1;
+    if (speakerNotes) slidesWithNotes += 1;
+    words += countWords([title, ...body, speakerNotes].join(" "));
+
+    const heading = `## Slide ${idx + 1}${title ? `: ${title}` : ""}`;
+    sections.push([heading, ...body, ...(speakerNotes ? [`Notes: ${speakerNotes}`] : [])].join("\n"));
+  }
+
+  return {
+    body: sections.join("\n\n"),
+    status: slidesWithText > 0 || slidesWithNotes > 0 ? "ok" : "empty",
+    notes,
+    stats: { format: "ppt", slides: slides.length, slidesWithText, slidesWithNotes, words },
+  };
+}
+
+function readRecord(stream: Buffer, offset: number): PptRecord | null {
+  if (offset < 0 || offset + 8 > stream.length) return null;
+  const verAndInstance = stream.readUInt16LE(offset);
+  const start = offset + 8;
+  return {
+    type: stream.readUInt16LE(offset + 2),
+    instance: verAndInstance >> 4,
+    container: (verAndInstance & 0x0f) === 0x0f,
+    start,
+    end: Math.min(start + stream.readUInt32LE(offset + 4), stream.length),
+  };
+}
+
+function readRecords(stream: Buffer, start: number, end: number): PptRecord[] {
+  const records: PptRecord[] = [];
+  let pos = start;
+  while (pos + 8 <= end) {
+    const record = readRecord(stream, pos);
+    if (!record) break;
+    records.push(record);
+    pos = record.end;
+  }
+  return records;
+}
+
+function atomText(stream: Buffer, record: PptRecord): string | null {
+  if (record.type === RT.TextCharsAtom) return stream.toString("utf16le", record.start, record.end);
+  if (record.type === RT.TextBytesAtom) return stream.toString("latin1", record.start, record.end);
+  return null;
+}
+
+// Text atoms anywhere under a container, each tagged with the preceding TextHeaderAtom's type.
+function textRuns(stream: Buffer, container: PptRecord, depth = 0): TextRun[] {
+  const runs: TextRun[] = [];
+  if (depth > MAX_DEPTH) return runs;
+  let type = -1;
+  for (const record of readRecords(stream, container.start, container.end)) {
+    if (record.type === RT.TextHeaderAtom && record.end - record.start >= 4) {
+      type = stream.readUInt32LE(record.start);
+    } else if (record.container) {
+      runs.push(...textRuns(stream, record, depth + 1));
+    } else {
+      const text = atomText(stream, record);
+      if (text !== null) runs.push({ type, text });
+    }
+  }
+  return runs;
+}
+
+// Paragraphs are separated by \r, soft line breaks by \v; "*" alone is a slide-number field.
+function textLines(text: string): string[] {
+  return text
+    .split(/[\r\u000b]/)
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter((line) => line && line !== "*");
+}
+
+/**
+ * Follow Current User -> UserEditAtom chain -> PersistDirectoryAtoms to map persist ids to stream
+ * offsets (newest edit wins), then read the slide and notes lists from the DocumentContainer.
+ */
+function readSlidesFromPersistDirectory(
+  stream: Buffer,
+  currentUser: Buffer | null,
+): Array<{ texts: TextRun[]; notes: TextRun[] }> | null {
+  if (!currentUser || currentUser.length < 20) return null;
+  const offsets = new Map<number, number>();
+  const seenEdits = new Set<number>();
+  let docPersistId: number | null = null;
+  let editOffset = currentUser.readUInt32LE(16);
+  while (editOffset && !seenEdits.has(editOffset)) {
+    seenEdits.add(editOffset);
+    const edit = readRecord(stream, editOffset);
+    if (!edit || edit.type !== RT.UserEditAtom || edit.end - edit.start < 20) return null;
+    docPersistId ??= stream.readUInt32LE(edit.start + 16);
+    const directory = readRecord(stream, stream.readUInt32LE(edit.start + 12));
+    if (!directory || directory.type !== RT.PersistDirectoryAtom) return null;
+    let pos = directory.start;
+    while (pos + 4 <= directory.end) {
+      const entry = stream.readUInt32LE(pos);
+      const firstId = entry & 0xfffff;
+      const count = entry >>> 20;
+      pos += 4;
+      for (let i = 0; i < count && pos + 4 <= directory.end; i += 1, pos += 4) {
+        if (!offsets.has(firstId + i)) offsets.set(firstId + i, stream.readUInt32LE(pos));
+      }
+    }
+    editOffset = stream.readUInt32LE(edit.start + 8);
+  }
+
+  const document = docPersistId === null ? null : readRecord(stream, offsets.get(docPersistId) ?? -1);
+  if (!document || document.type !== RT.Document) return null;
+
+  const slideRefs: SlideRef[] = [];
+  const notesRefs = new Map<number, SlideRef>();
+  for (const list of readRecords(stream, document.start, document.end)) {
+    if (list.type !== RT.SlideListWithText) continue;
+    if (list.instance !== SLIDE_LIST_SLIDES && list.instance !== SLIDE_LIST_NOTES) continue;
+    // Placeholder text lives in the list itself, after each slide's SlidePersistAtom.
+    let current: SlideRef | null = null;
+    let type = -1;
+    for (const record of readRecords(stream, list.start, list.end)) {
+      if (record.type === RT.SlidePersistAtom && record.end - record.start >= 16) {
+        current = {
+          persistId: stream.readUInt32LE(record.start),
+          slideId: stream.readUInt32LE(record.start + 12),
+          texts: [],
+        };
+        if (list.instance === SLIDE_LIST_SLIDES) slideRefs.push(current);
+        else notesRefs.set(current.slideId, current);
+      } else if (record.type === RT.TextHeaderAtom && record.end - record.start >= 4) {
+        type = stream.readUInt32LE(record.start);
+      } else if (current) {
+        const text = atomText(stream, record);
+        if (text !== null) current.texts.push({ type, text });
+      }
+    }
+  }
+
+  const containerRuns = (persistId: number, expectedType: number): TextRun[] => {
+    const record = readRecord(stream, offsets.get(persistId) ?? -1);
+    return record && record.type === expectedType ? textRuns(stream, record) : [];
+  };
+
+  return slideRefs.map((ref) => {
+    const slide = readRecord(stream, offsets.get(ref.persistId) ?? -1);
+    const texts = [...ref.texts, ...containerRuns(ref.persistId, RT.Slide)];
+    // SlideAtom.notesIdRef points at the slideId of the matching notes SlidePersistAtom.
+    let notesRuns: TextRun[] = [];
+    const slideAtom =
+      slide && slide.type === RT.Slide
+        ? readRecords(stream, slide.start, slide.end).find((record) => record.type === RT.SlideAtom)
+        : undefined;
+    if (slideAtom && slideAtom.end - slideAtom.start >= 20) {
+      const notesRef = notesRefs.get(stream.readUInt32LE(slideAtom.start + 16));
+      if (notesRef) notesRuns = [...notesRef.texts, ...containerRuns(notesRef.persistId, RT.Notes)];
+    }
+    return { texts, notes: notesRuns };
+  });
+}
@@ -0,0 +1,9 @@
+import type { ExtractionMeta } from "../../types";
+
+// What each binary Office reader hands back to legacyOfficeExtractor.
+export interface LegacyReadResult {
+  body: string;
+  status: ExtractionMeta["status"];
+  notes: string[];
+  stats: Record<string, unknown>;
+}
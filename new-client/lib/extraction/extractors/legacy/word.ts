@@ -0,0 +1,131 @@
+import { readPropertySet, type CompoundFile } from "../../utils/ole";
+import { countWords } from "../../utils/ooxml";
+import type { LegacyReadResult } from "./types";
+
+// Word 97-2003 (.doc): main document text from the WordDocument stream via the piece table (MS-DOC).
+
+const FIB_IDENT = 0xa5ec;
+const FIB_FLAG_ENCRYPTED = 0x0100;
+const FIB_FLAG_TABLE_1 = 0x0200;
+// Word 97 and later; older files have a different FIB layout and no piece table in the same place.
+const NFIB_WORD97 = 0x00c1;
+// Index of fcClx/lcbClx in FibRgFcLcb97.
+const FC_CLX_INDEX = 33;
+const PID_PAGECOUNT = 14;
+
+const cp1252 = new TextDecoder("windows-1252");
+
+export function readWordDocument(cfb: CompoundFile): LegacyReadResult {
+  const notes: string[] = [];
+  const word = cfb.readStream("WordDocument");
+  if (!word || word.length < 0x60 || word.readUInt16LE(0) !== FIB_IDENT) {
+    return { body: "", status: "parse_error", notes: ["Missing or unrecognized Word FIB"], stats: {} };
+  }
+  const nFib = word.readUInt16LE(2);
+  const flags = word.readUInt16LE(0x0a);
+  if (flags & FIB_FLAG_ENCRYPTED) {
+    return { body: "", status: "encrypted", notes: ["Document is password protected"], stats: {} };
+  }
+
+  let raw: string;
+  let characters: number;
+  if (nFib < NFIB_WORD97) {
+    // Word 6/95: text is a single 8-bit run between fcMin and fcMac.
+    const fcMin = word.readUInt32LE(0x18);
+    const fcMac = word.readUInt32LE(0x1c);
+    raw = cp1252.decode(word.subarray(fcMin, Math.max(fcMin, fcMac)));
+    characters = raw.length;
+    notes.push("Word 6/95 document; text read without the piece table");
+  } else {
+    // The FIB is a chain of variable-length blocks: csw shorts, cslw longs, cbRgFcLcb pairs.
+    const csw = word.readUInt16LE(32);
+    const lwStart = 34 + csw * 2 + 2;
+    const cslw = word.readUInt16LE(lwStart - 2);
+    const fcLcbStart = lwStart + cslw * 4 + 2;
+    characters = word.readInt32LE(lwStart + 3 * 4);
+    const fcClx = word.readUInt32LE(fcLcbStart + FC_CLX_INDEX * 8);
+    const lcbClx = word.readUInt32LE(fcLcbStart + FC_CLX_INDEX * 8 + 4);
+    const table = cfb.readStream(flags & FIB_FLAG_TABLE_1 ? "1Table" : "0Table");
+    if (!table || !lcbClx || fcClx + lcbClx > table.length) {
+      return { body: "", status: "parse_error", notes: ["Missing piece table"], stats: {} };
+    }
+    raw = readPieces(word, table.subarray(fcClx, fcClx + lcbClx), characters);
+  }
+
+  const paragraphs = cleanWordText(raw)
+    .split("\n")
+    .map((line) => line.replace(/[ \u00a0]+/g, " ").trim())
+    .filter(Boolean);
+  const body = paragraphs.join("\n\n");
+  const summary = readPropertySet(cfb.readStream("\u0005SummaryInformation"));
+  const pages = summary.get(PID_PAGECOUNT);
+
+  return {
+    body,
+    status: body ? "ok" : "empty",
+    notes,
+    stats: {
+      format: "doc",
+      ...(typeof pages === "number" && pages > 0 ? { pages } : {}),
+      paragraphs: paragraphs.length,
+      words: countWords(body),
+      characters,
+    },
+  };
+}
+
+/**
+ * Walk the Clx: skip Prc blocks, then read the PlcPcd (n+1 CPs followed by n piece descriptors).
+ * Each piece is either cp1252 bytes at fc/2 (fCompressed) or UTF-16LE at fc.
+ */
+function readPieces(word: Buffer, clx: Buffer, ccpText: number): string {
+  let pos = 0;
+  while (pos < clx.length && clx[pos] === 0x01) {
+    pos += 3 + clx.readInt16LE(pos + 1);
+  }
+  if (clx[pos] !== 0x02) return "";
+  const lcb = clx.readUInt32LE(pos + 1);
+  const plc = clx.subarray(pos + 5, pos + 5 + lcb);
+  const pieceCount = Math.floor((plc.length - 4) / 12);
+
+  let out = "";
+  for (let i = 0; i < pieceCount; i += 1) {
+    const cpStart = plc.readUInt32LE(i * 4);
+    const cpEnd = Math.min(plc.readUInt32LE((i + 1) * 4), ccpText);
+    if (cpStart >= ccpText) break;
+    const length = cpEnd - cpStart;
+    if (length <= 0) continue;
+    const fcValue = plc.readUInt32LE((pieceCount + 1) * 4 + i * 8 + 2);
+    const fc = fcValue & 0x3fffffff;
+    if (fcValue & 0x40000000) {
+      out += cp1252.decode(word.subarray(fc / 2, fc / 2 + length));
+    } else {
+      out += word.subarray(fc, fc + length * 2).toString("utf16le");
+    }
+  }
+  return out;
+}
+
+// Keep field results but drop field codes (0x13 code 0x14 result 0x15, possibly nested), map
+// paragraph/cell/break marks to newlines and tabs, and strip the remaining control characters.
+function cleanWordText(raw: string): string {
+  const fields: boolean[] = [];
+  let out = "";
+  for (const ch of raw) {
+    if (ch === "\u0013") {
+      fields.push(true);
+    } else if (ch === "\u0014") {
+      if (fields.length) fields[fields.length - 1] = false;
+    } else if (ch === "\u0015") {
+      fields.pop();
+    } else if (!fields.includes(true)) {
+      out += ch;
+    }
+  }
+  return out
+    .replace(/\u0007\u0007/g, "\n")
+    .replace(/\u0007/g, "\t")
+    .replace(/[\r\u000b\u000c]/g, "\n")
+    .replace(/\u001e/g, "-")
+    .replace(/[\u0000-\u0008\u000e-\u001f]/g, "");
+}
@@ -1,22 +1,67 @@
-import { ENABLE_LEGACY_CONVERT } from "../config";
+import { ENABLE_LEGACY_CONVERT, MAX_PREVIEW_BYTES } from "../config";
 import type { Extractor } from "../types";
+import { isCompoundFile, readCompoundFile } from "../utils/ole";
+import { truncateUtf8 } from "../utils/text";
+import { readExcelWorkbook } from "./legacy/excel";
+import { readPowerPointDocument } from "./legacy/powerpoint";
+import type { LegacyReadResult } from "./legacy/types";
+import { readWordDocument } from "./legacy/word";
 
-export const legacyOfficeExtractor: Extractor = async (_buffer, name, _mime, ctx) => {
+// Binary Office 97-2003 files (.doc, .xls, .ppt) are OLE compound files; the format is chosen by
+// the streams present rather than the extension, since clients often mislabel them.
+
+export const legacyOfficeExtractor: Extractor = async (buffer, _name, _mime, ctx) => {
   if (!ENABLE_LEGACY_CONVERT) {
     return {
       preview: "Legacy Office conversion disabled. Set ENABLE_LEGACY_CONVERT=true to enable conversion path.",
       meta: { kind: "legacy_office", size: ctx.size, status: "unsupported" },
     };
   }
+  if (!isCompoundFile(buffer)) {
+    return {
+      preview: "File has a legacy Office extension but is not an OLE compound file",
+      meta: { kind: "legacy_office", size: ctx.size, status: "unsupported" },
+    };
+  }
 
-  // Placeholder hook for future conversion implementation
+  const cfb = readCompoundFile(buffer);
+  const streams = new Set(cfb.streamNames);
+  let result: LegacyReadResult;
+  if (streams.has("EncryptedPackage") || streams.has("EncryptionInfo")) {
+    // Password-protected docx/xlsx/pptx are wrapped in a compound file.
+    result = { body: "", status: "encrypted", notes: ["Office document is password protected"], stats: {} };
+  } else if (streams.has("WordDocument")) {
+    result = readWordDocument(cfb);
+  } else if (streams.has("Workbook") || streams.has("Book")) {
+    result = readExcelWorkbook(cfb);
+  } else if (streams.has("PowerPoint Document")) {
+    result = readPowerPointDocument(cfb);
+  } else {
+    result = {
+      body: "",
+      status: "unsupported",
+      notes: [`No Word, Excel or PowerPoint stream found (streams: ${cfb.streamNames.slice(0, 10).join(", ")})`],
+      stats: {},
+    };
+  }
+
+  const notes = [...result.notes];
+  if (Buffer.byteLength(result.body, "utf-8") > MAX_PREVIEW_BYTES) {
+    notes.push(`Preview truncated at ${MAX_PREVIEW_BYTES} bytes`);
+  }
+  const preview = result.body
+    ? truncateUtf8(result.body)
+    : result.status === "encrypted"
+      ? "Password-protected Office document; contents cannot be read"
+      : null;
   return {
-    preview: "Conversion placeholder for legacy Office format.",
+    preview,
     meta: {
       kind: "legacy_office",
       size: ctx.size,
-      status: "unsupported",
-      notes: ["Conversion pipeline not implemented"],
+      status: result.status,
+      ...(notes.length ? { notes } : {}),
+      ...(Object.keys(result.stats).length ? { stats: result.stats } : {}),
     },
   };
 };
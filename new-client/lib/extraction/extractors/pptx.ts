@@ -0,0 +1,154 @@
+import JSZip from "jszip";
+import { MAX_PREVIEW_BYTES } from "../config";
+import type { Extractor } from "../types";
+import { truncateUtf8 } from "../utils/text";
+import {
+  attrsOf,
+  childOf,
+  childrenOf,
+  collectText,
+  countWords,
+  findAll,
+  findFirst,
+  parseOoxml,
+  readPart,
+  readRelationships,
+  tagOf,
+  type XmlNode,
+} from "../utils/ooxml";
+
+// Per-slide text (title first) followed by the slide's speaker notes.
+
+const MAX_SLIDES = 200;
+const NOTES_SLIDE_REL = "/notesSlide";
+const TITLE_PLACEHOLDERS = new Set(["title", "ctrTitle"]);
+
+export const pptxExtractor: Extractor = async (buffer, _name, _mime, ctx) => {
+  const zip = await JSZip.loadAsync(buffer);
+  const notes: string[] = [];
+  const presentationXml = await readPart(zip, "ppt/presentation.xml", notes);
+  if (!presentationXml) {
+    return {
+      preview: "Missing ppt/presentation.xml in PowerPoint container",
+      meta: { kind: "pptx", size: ctx.size, status: "parse_error", notes },
+    };
+  }
+
+  const rels = await readRelationships(zip, "ppt/presentation.xml");
+  const slidePaths = findAll(parseOoxml(presentationXml), "p:sldId")
+    .map((sldId) => rels.get(attrsOf(sldId)["r:id"] ?? "")?.target)
+    .filter((path): path is string => Boolean(path));
+
+  const sections: string[] = [];
+  let slidesWithText = 0;
+  let slidesWithNotes = 0;
+  let hiddenSlides = 0;
+  let words = 0;
+
+  for (const [idx, slidePath] of slidePaths.entries()) {
+    if (idx >= MAX_SLIDES) {
+      notes.push(`Only the first ${MAX_SLIDES} of ${slidePaths.length} slides were read`);
+      break;
+    }
+    const slideXml = await readPart(zip, slidePath, notes);
+    if (!slideXml) continue;
+    const slide = parseOoxml(slideXml);
+    const hidden = attrsOf(findFirst(slide, "p:sld") ?? {}).show === "0";
+    if (hidden) hiddenSlides += 1;
+
+    const { title, body } = readSlideText(slide);
+    const speakerNotes = await readSpeakerNotes(zip, slidePath, notes);
+    if (title || body.length) slidesWithText += 1;
+    if (speakerNotes) slidesWithNotes += 1;
+    words += countWords([title, ...body, speakerNotes].join(" "));
+
+    const heading = `## Slide ${idx + 1}${title ? `: ${title}` : ""}${hidden ? " (hidden)" : ""}`;
+    sections.push(
+      [heading, ...body, ...(speakerNotes ? [`Notes: ${speakerNotes}`] : [])].join("\n"),
+    );
+  }
+
+  const bodyText = sections.join("\n\n");
+  if (Buffer.byteLength(bodyText, "utf-8") > MAX_PREVIEW_BYTES) {
+    notes.push(`Preview truncated at ${MAX_PREVIEW_BYTES} bytes`);
+  }
+  const preview = truncateUtf8(bodyText);
+  return {
+    preview,
+    meta: {
+      kind: "pptx",
+      size: ctx.size,
+      status: slidesWithText > 0 || slidesWithNotes > 0 ? "ok" : "empty",
+      ...(notes.length ? { notes } : {}),
+      stats: {
+        slides: slidePaths.length,
+        slidesWithText,
+        slidesWithNotes,
+        hiddenSlides,
+        words,
+      },
+    },
+  };
+};
+
+function placeholderType(shape: XmlNode): string | null {
+  const nvSpPr = childOf(shape, "p:nvSpPr");
+  const ph = findFirst(childrenOf(nvSpPr ?? {}), "p:ph");
+  if (!ph) return null;
+  // A placeholder without a type is a body placeholder.
+  return attrsOf(ph).type ?? "body";
+}
+
+// Non-empty a:p paragraphs under a node, one line each.
+function paragraphLines(node: XmlNode): string[] {
+  return findAll(childrenOf(node), "a:p")
+    .map((p) => collectText(childrenOf(p), "a:t").replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+}
+
+function readSlideText(slide: XmlNode[]): { title: string; body: string[] } {
+  const spTree = findFirst(slide, "p:spTree");
+  let title = "";
+  const body: string[] = [];
+
+  const walk = (nodes: XmlNode[]) => {
+    for (const node of nodes) {
+      const tag = tagOf(node);
+      if (tag === "p:sp") {
+        const type = placeholderType(node);
+        if (type === "sldNum" || type === "dt" || type === "ftr") continue;
+        const lines = paragraphLines(node);
+        if (!title && type && TITLE_PLACEHOLDERS.has(type)) {
+          title = lines.join(" ");
+        } else {
+          body.push(...lines);
+        }
+      } else if (tag === "p:graphicFrame") {
+        // Tables: one line per row, cells separated by " | ".
+        for (const row of findAll(childrenOf(node), "a:tr")) {
+          const cells = childrenOf(row)
+            .filter((cell) => tagOf(cell) === "a:tc")
+            .map((cell) => paragraphLines(cell).join(" "));
+          if (cells.some(Boolean)) body.push(cells.join(" | "));
+        }
+      } else if (tag === "p:grpSp" || tag === "mc:AlternateContent" || tag === "mc:Choice") {
+        walk(childrenOf(node));
+      }
+    }
+  };
+  walk(spTree ? childrenOf(spTree) : []);
+  return { title, body };
+}
+
+async function readSpeakerNotes(zip: JSZip, slidePath: string, notes: string[]): Promise<string> {
+  const rels = await readRelationships(zip, slidePath);
+  const notesRel = [...rels.values()].find((rel) => rel.type.endsWith(NOTES_SLIDE_REL));
+  if (!notesRel) return "";
+  const xml = await readPart(zip, notesRel.target, notes);
+  if (!xml) return "";
+  const spTree = findFirst(parseOoxml(xml), "p:spTree");
+  return childrenOf(spTree ?? {})
+    .filter((node) => tagOf(node) === "p:sp" && placeholderType(node) === "body")
+    .flatMap(paragraphLines)
+    .join(" ");
+}
@@ -0,0 +1,225 @@
+import JSZip from "jszip";
+import { MAX_PREVIEW_BYTES } from "../config";
+import type { Extractor } from "../types";
+import { truncateUtf8 } from "../utils/text";
+import {
+  MAX_SHEET_COLUMNS,
+  formatSerialDate,
+  isBuiltinDateFormat,
+  isDateFormatCode,
+  serialDateEpoch,
+  sheetPreviewLines,
+  type SheetStats,
+} from "../utils/spreadsheet";
+import {
+  attrsOf,
+  childOf,
+  childrenOf,
+  findAll,
+  findFirst,
+  parseOoxml,
+  readPart,
+  readRelationships,
+  tagOf,
+  textOf,
+  type XmlNode,
+} from "../utils/ooxml";
+
+// Each sheet becomes a tab-separated table preview, like tsvPsv.ts does for delimited text.
+
+const MAX_SHEETS = 10;
+
+export const xlsxExtractor: Extractor = async (buffer, _name, _mime, ctx) => {
+  const zip = await JSZip.loadAsync(buffer);
+  const notes: string[] = [];
+  const workbookXml = await readPart(zip, "xl/workbook.xml", notes);
+  if (!workbookXml) {
+    return {
+      preview: "Missing xl/workbook.xml in Excel container",
+      meta: { kind: "xlsx", size: ctx.size, status: "parse_error", notes },
+    };
+  }
+
+  const workbook = parseOoxml(workbookXml);
+  const date1904 = attrsOf(findFirst(workbook, "workbookPr") ?? {}).date1904;
+  const epochMs = serialDateEpoch(date1904 === "1" || date1904 === "true");
+  const rels = await readRelationships(zip, "xl/workbook.xml");
+  const sharedStrings = await loadSharedStrings(zip, notes);
+  const dateStyles = await loadDateStyles(zip);
+
+  const sheets = findAll(workbook, "sheet").map((sheet) => {
+    const attrs = attrsOf(sheet);
+    return {
+      name: attrs.name || "Sheet",
+      path: rels.get(attrs["r:id"] ?? "")?.target ?? null,
+      hidden: attrs.state === "hidden" || attrs.state === "veryHidden",
+    };
+  });
+
+  const parts: string[] = [];
+  const sheetStats: SheetStats[] = [];
+  let totalRows = 0;
+  let maxColumns = 0;
+
+  for (const [idx, sheet] of sheets.entries()) {
+    if (idx >= MAX_SHEETS) {
+      notes.push(`Only the first ${MAX_SHEETS} of ${sheets.length} sheets were read`);
+      break;
+    }
+    if (!sheet.path) continue;
+    const sheetXml = await readPart(zip, sheet.path, notes);
+    if (!sheetXml) continue;
+
+    const rows = readSheetRows(parseOoxml(sheetXml), sharedStrings, dateStyles, epochMs);
+    const columns = rows.reduce((max, row) => Math.max(max, row.length), 0);
+    totalRows += rows.length;
+    maxColumns = Math.max(maxColumns, columns);
+    sheetStats.push({ name: sheet.name, rows: rows.length, columns, ...(sheet.hidden ? { hidden: true } : {}) });
+
+    parts.push(...sheetPreviewLines(sheet.name, sheet.hidden, rows));
+  }
+
+  const body = parts.join("\n").trim();
+  if (Buffer.byteLength(body, "utf-8") > MAX_PREVIEW_BYTES) {
+    notes.push(`Preview truncated at ${MAX_PREVIEW_BYTES} bytes`);
+  }
+  const preview = truncateUtf8(body);
+  return {
+    preview,
+    meta: {
+      kind: "xlsx",
+      size: ctx.size,
+      status: totalRows > 0 ? "ok" : "empty",
+      ...(notes.length ? { notes } : {}),
+      stats: {
+        delimiter: "\t",
+        sheetCount: sheets.length,
+        rows: totalRows,
+        columns: maxColumns,
+        sheets: sheetStats,
+      },
+    },
+  };
+};
+
+// Plain text of a string item (<si>/<is>): direct <t> or rich-text runs, without phonetic runs.
+function stringItemText(item: XmlNode): string {
+  let out = "";
+  for (const child of childrenOf(item)) {
+    const tag = tagOf(child);
+    if (tag === "t") {
+      out += childrenOf(child)
+        .map((node) => textOf(node) ?? "")
+        .join("");
+    } else if (tag === "r") {
+      out += stringItemText(child);
+    }
+  }
+  return out;
+}
+
+async function loadSharedStrings(zip: JSZip, notes: string[]): Promise<string[]> {
+  const xml = await readPart(zip, "xl/sharedStrings.xml", notes);
+  if (!xml) return [];
+  return findAll(parseOoxml(xml), "si").map(stringItemText);
+}
+
+// Indexes into cellXfs whose number format displays a date.
+async function loadDateStyles(zip: JSZip): Promise<Set<number>> {
+  const dateStyles = new Set<number>();
+  const xml = await readPart(zip, "xl/styles.xml");
+  if (!xml) return dateStyles;
+  const styles = parseOoxml(xml);
+
+  const customDateFormats = new Set<number>();
+  for (const numFmt of findAll(styles, "numFmt")) {
+    const attrs = attrsOf(numFmt);
+    if (isDateFormatCode(attrs.formatCode ?? "")) customDateFormats.add(Number(attrs.numFmtId));
+  }
+
+  const cellXfs = findFirst(styles, "cellXfs");
+  childrenOf(cellXfs ?? {})
+    .filter((xf) => tagOf(xf) === "xf")
+    .forEach((xf, idx) => {
+      const id = Number(attrsOf(xf).numFmtId ?? 0);
+      if (isBuiltinDateFormat(id) || customDateFormats.has(id)) dateStyles.add(idx);
+    });
+  return dateStyles;
+}
+
+function columnIndex(ref: string | undefined): number | null {
+  const letters = ref?.match(/^[A-Z]+/i)?.[0];
+  if (!letters) return null;
+  let index = 0;
+  for (const ch of letters.toUpperCase()) {
+    index = index * 26 + (ch.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function cellValue(
+  cell: XmlNode,
+  sharedStrings: string[],
+  dateStyles: Set<number>,
+  epochMs: number,
+): string {
+  const attrs = attrsOf(cell);
+  const raw = childOf(cell, "v");
+  const rawText = raw
+    ? childrenOf(raw)
+        .map((node) => textOf(node) ?? "")
+        .join("")
+    : "";
+  switch (attrs.t) {
+    case "s":
+      return sharedStrings[Number(rawText)] ?? "";
+    case "inlineStr": {
+      const inline = childOf(cell, "is");
+      return inline ? stringItemText(inline) : "";
+    }
+    case "b":
+      return rawText === "1" ? "TRUE" : "FALSE";
+    case "str":
+    case "e":
+    case "d":
+      return rawText;
+    default: {
+      const style = Number(attrs.s ?? 0);
+      const serial = Number(rawText);
+      if (rawText && dateStyles.has(style) && Number.isFinite(serial)) {
+        return formatSerialDate(serial, epochMs);
+      }
+      return rawText;
+    }
+  }
+}
+
+// Non-empty rows with cells placed by their column reference (gaps become empty cells).
+function readSheetRows(
+  sheet: XmlNode[],
+  sharedStrings: string[],
+  dateStyles: Set<number>,
+  epochMs: number,
+): string[][] {
+  const sheetData = findFirst(sheet, "sheetData");
+  const rows: string[][] = [];
+  for (const row of childrenOf(sheetData ?? {})) {
+    if (tagOf(row) !== "row") continue;
+    const values: string[] = [];
+    let nextColumn = 0;
+    for (const cell of childrenOf(row)) {
+      if (tagOf(cell) !== "c") continue;
+      const column = columnIndex(attrsOf(cell).r) ?? nextColumn;
+      nextColumn = column + 1;
+      if (column >= MAX_SHEET_COLUMNS) continue;
+      const value = cellValue(cell, sharedStrings, dateStyles, epochMs)
+        .replace(/[\t\r\n]+/g, " ")
+        .trim();
+      if (!value) continue;
+      while (values.length < column) values.push("");
+      values[column] = value;
+    }
+    if (values.length) rows.push(values);
+  }
+  return rows;
+}
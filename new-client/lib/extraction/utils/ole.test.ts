@@ -0,0 +1,251 @@
+import { describe, expect, it } from "vitest";
+
+import { isCompoundFile, readCompoundFile, readPropertySet } from "./ole";
+
+const SECTOR = 512;
+const ENDOFCHAIN = 0xfffffffe;
+const FREESECT = 0xffffffff;
+const FATSECT = 0xfffffffd;
+const NOSTREAM = 0xffffffff;
+
+const SMALL = Buffer.from("small stream ".repeat(8).slice(0, 100));
+const BIG = Buffer.alloc(4096, "B");
+
+/**
+ * A minimal version 3 compound file: header, FAT (sector 0), directory (1), mini FAT (2),
+ * mini stream (3) and a 4096-byte regular stream in sectors 4-11. The root holds "Small"
+ * (in the mini stream) and "Big".
+ */
+function buildCompoundFile() {
+  const buffer = Buffer.alloc(SECTOR * 13, 0);
+  const sector = (index: number) => buffer.subarray((index + 1) * SECTOR, (index + 2) * SECTOR);
+
+  Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]).copy(buffer, 0);
+  buffer.writeUInt16LE(0x3e, 0x18);
+  buffer.writeUInt16LE(3, 0x1a);
+  buffer.writeUInt16LE(0xfffe, 0x1c);
+  buffer.writeUInt16LE(9, 0x1e);
+  buffer.writeUInt16LE(6, 0x20);
+  buffer.writeUInt32LE(1, 0x2c);
+  buffer.writeUInt32LE(1, 0x30);
+  buffer.writeUInt32LE(4096, 0x38);
+  buffer.writeUInt32LE(2, 0x3c);
+  buffer.writeUInt32LE(1, 0x40);
+  buffer.writeUInt32LE(ENDOFCHAIN, 0x44);
+  buffer.writeUInt32LE(0, 0x4c);
+  for (let i = 1; i < 109; i += 1) buffer.writeUInt32LE(FREESECT, 0x4c + i * 4);
+
+  const fat = sector(0);
+  fat.fill(0xff);
+  fat.writeUInt32LE(FATSECT, 0);
+  fat.writeUInt32LE(ENDOFCHAIN, 4);
+  fat.writeUInt32LE(ENDOFCHAIN, 8);
+  fat.writeUInt32LE(ENDOFCHAIN, 12);
+  for (let i = 4; i < 11; i += 1) fat.writeUInt32LE(i + 1, i * 4);
+  fat.writeUInt32LE(ENDOFCHAIN, 11 * 4);
+
+  const dir = sector(1);
+  const writeEntry = (
+    index: number,
+    entry: { name: string; type: number; left?: number; right?: number; child?: number; start: number; size: number }
+  ) => {
+    const offset = index * 128;
+    const name = Buffer.from(`${entry.name}\0`, "utf16le");
+    name.copy(dir, offset);
+    dir.writeUInt16LE(name.length, offset + 64);
+    dir[offset + 66] = entry.type;
+    dir.writeUInt32LE(entry.left ?? NOSTREAM, offset + 68);
+    dir.writeUInt32LE(entry.right ?? NOSTREAM, offset + 72);
+    dir.writeUInt32LE(entry.child ?? NOSTREAM, offset + 76);
+    dir.writeUInt32LE(entry.start, offset + 116);
+    dir.writeUInt32LE(entry.size, offset + 120);
+  };
+  writeEntry(0, { name: "Root Entry", type: 5, child: 1, start: 3, size: 128 });
+  writeEntry(1, { name: "Small", type: 2, right: 2, start: 0, size: SMALL.length });
+  writeEntry(2, { name: "Big", type: 2, start: 4, size: BIG.length });
+
+  const miniFat = sector(2);
+  miniFat.fill(0xff);
+  miniFat.writeUInt32LE(1, 0);
+  miniFat.writeUInt32LE(ENDOFCHAIN, 4);
+
+  SMALL.copy(sector(3));
+  BIG.copy(buffer, 5 * SECTOR);
+
+  return { buffer, sector, dirOffset: 2 * SECTOR };
+}
+
+describe("readCompoundFile", () => {
+  it("reads regular and mini streams from a well-formed file", () => {
+    const { buffer } = buildCompoundFile();
+    const file = readCompoundFile(buffer);
+    expect(file.streamNames.sort()).toEqual(["Big", "Small"]);
+    expect(file.readStream("Small")?.equals(SMALL)).toBe(true);
+    expect(file.readStream("Big")?.equals(BIG)).toBe(true);
+    expect(file.readStream("Missing")).toBeNull();
+  });
+
+  it("rejects buffers without the signature or shorter than a header", () => {
+    const { buffer } = buildCompoundFile();
+    expect(isCompoundFile(buffer.subarray(0, 511))).toBe(false);
+    expect(() => readCompoundFile(buffer.subarray(0, 100))).toThrow("Not an OLE compound file");
+    const garbage = Buffer.from(buffer);
+    garbage[0] = 0;
+    expect(() => readCompoundFile(garbage)).toThrow("Not an OLE compound file");
+    expect(() => readCompoundFile(Buffer.from("PK\u0003\u0004 not a doc"))).toThrow("Not an OLE compound file");
+  });
+
+  it("rejects unsupported sector sizes", () => {
+    const { buffer } = buildCompoundFile();
+    buffer.writeUInt16LE(10, 0x1e);
+    expect(() => readCompoundFile(buffer)).toThrow("Unsupported compound file sector size");
+  });
+
+  it("fails on a FAT sector outside the file", () => {
+    const { buffer } = buildCompoundFile();
+    buffer.writeUInt32LE(500, 0x4c);
+    expect(() => readCompoundFile(buffer)).toThrow("Sector 500 is out of range");
+  });
+
+  it("fails on a looping DIFAT chain instead of hanging", () => {
+    const { buffer, sector } = buildCompoundFile();
+    buffer.writeUInt32LE(13, 0x2c);
+    buffer.writeUInt32LE(5, 0x44);
+    sector(5).fill(0xff);
+    sector(5).writeUInt32LE(5, SECTOR - 4);
+    expect(() => readCompoundFile(buffer)).toThrow("DIFAT chain loops");
+  });
+
+  it("rejects FAT sector counts the file can't hold", () => {
+    const { buffer } = buildCompoundFile();
+    buffer.writeUInt32LE(0x7fffffff, 0x2c);
+    expect(() => readCompoundFile(buffer)).toThrow("FAT sector count exceeds file size");
+  });
+
+  it("rejects FAT sectors listed more than once", () => {
+    const header = buildCompoundFile();
+    header.buffer.writeUInt32LE(13, 0x2c);
+    header.buffer.writeUInt32LE(0, 0x4c + 4);
+    expect(() => readCompoundFile(header.buffer)).toThrow("FAT sector listed twice");
+
+    // Repeats spread through the DIFAT chain, which would otherwise expand the FAT many times over.
+    const difat = buildCompoundFile();
+    difat.buffer.writeUInt32LE(13, 0x2c);
+    difat.buffer.writeUInt32LE(5, 0x44);
+    difat.sector(5).fill(0);
+    difat.sector(5).writeUInt32LE(ENDOFCHAIN, SECTOR - 4);
+    expect(() => readCompoundFile(difat.buffer)).toThrow("FAT sector listed twice");
+  });
+
+  it("fails on looping or out-of-range sector chains", () => {
+    const looping = buildCompoundFile();
+    looping.sector(0).writeUInt32LE(1, 4);
+    expect(() => readCompoundFile(looping.buffer)).toThrow("Corrupt sector chain");
+
+    const outOfRange = buildCompoundFile();
+    outOfRange.buffer.writeUInt32LE(5000, 0x30);
+    expect(() => readCompoundFile(outOfRange.buffer)).toThrow("Corrupt sector chain");
+
+    const loopingStream = buildCompoundFile();
+    loopingStream.sector(0).writeUInt32LE(4, 7 * 4);
+    expect(() => readCompoundFile(loopingStream.buffer).readStream("Big")).toThrow("Corrupt sector chain");
+
+    const loopingMini = buildCompoundFile();
+    loopingMini.sector(2).writeUInt32LE(0, 4);
+    expect(() => readCompoundFile(loopingMini.buffer).readStream("Small")).toThrow("Corrupt sector chain");
+  });
+
+  it("fails without a root directory entry", () => {
+    const { buffer, dirOffset } = buildCompoundFile();
+    buffer[dirOffset + 66] = 1;
+    expect(() => readCompoundFile(buffer)).toThrow("Missing root directory entry");
+  });
+
+  it("stops at directory sibling cycles", () => {
+    const { buffer, dirOffset } = buildCompoundFile();
+    buffer.writeUInt32LE(0, dirOffset + 128 + 68);
+    buffer.writeUInt32LE(1, dirOffset + 2 * 128 + 72);
+    expect(readCompoundFile(buffer).streamNames.sort()).toEqual(["Big", "Small"]);
+  });
+
+  it("fails when a mini stream sector lies past the mini stream", () => {
+    const { buffer, dirOffset } = buildCompoundFile();
+    buffer.writeUInt32LE(64, dirOffset + 120);
+    expect(() => readCompoundFile(buffer).readStream("Small")).toThrow("Mini sector out of range");
+  });
+
+  it("fails on streams cut off by truncation but reads a short last sector", () => {
+    const { buffer } = buildCompoundFile();
+    const truncated = buffer.subarray(0, 6 * SECTOR);
+    const file = readCompoundFile(truncated);
+    expect(file.readStream("Small")?.equals(SMALL)).toBe(true);
+    expect(() => file.readStream("Big")).toThrow(/out of range/);
+
+    const shortLast = readCompoundFile(buffer.subarray(0, buffer.length - 100));
+    expect(shortLast.readStream("Big")?.length).toBe(BIG.length - 100);
+  });
+});
+
+function buildPropertySet(props: Array<{ id: number; value: number | string }>) {
+  const values = props.map(({ value }) => {
+    if (typeof value === "number") {
+      const data = Buffer.alloc(8);
+      data.writeUInt32LE(3, 0);
+      data.writeInt32LE(value, 4);
+      return data;
+    }
+    const text = Buffer.from(`${value}\0`, "latin1");
+    const data = Buffer.alloc(8 + Math.ceil(text.length / 4) * 4);
+    data.writeUInt32LE(30, 0);
+    data.writeUInt32LE(text.length, 4);
+    text.copy(data, 8);
+    return data;
+  });
+  const sectionOffset = 48;
+  const header = Buffer.alloc(sectionOffset + 8 + props.length * 8);
+  header.writeUInt32LE(sectionOffset, 44);
+  header.writeUInt32LE(props.length, sectionOffset + 4);
+  let offset = header.length - sectionOffset;
+  props.forEach(({ id }, i) => {
+    header.writeUInt32LE(id, sectionOffset + 8 + i * 8);
+    header.writeUInt32LE(offset, sectionOffset + 12 + i * 8);
+    offset += values[i].length;
+  });
+  return Buffer.concat([header, ...values]);
+}
+
+describe("readPropertySet", () => {
+  it("reads integer and string properties", () => {
+    const props = readPropertySet(buildPropertySet([
+      { id: 2, value: "Quarterly report" },
+      { id: 14, value: 12 },
+    ]));
+    expect(props.get(2)).toBe("Quarterly report");
+    expect(props.get(14)).toBe(12);
+  });
+
+  it("returns nothing for missing or short streams", () => {
+    expect(readPropertySet(null).size).toBe(0);
+    expect(readPropertySet(Buffer.alloc(47)).size).toBe(0);
+  });
+
+  it("keeps what was read before a truncation or bad offset", () => {
+    const stream = buildPropertySet([
+      { id: 14, value: 12 },
+      { id: 2, value: "Quarterly report" },
+    ]);
+    const props = readPropertySet(stream.subarray(0, stream.length - 26));
+    expect(props.get(14)).toBe(12);
+    expect(props.has(2)).toBe(false);
+
+    const badSection = Buffer.from(stream);
+    badSection.writeUInt32LE(0xfffffff0, 44);
+    expect(readPropertySet(badSection).size).toBe(0);
+  });
+
+  it("caps the property count", () => {
+    const stream = buildPropertySet([{ id: 14, value: 12 }]);
+    stream.writeUInt32LE(0xffffffff, 48 + 4);
+    expect(readPropertySet(stream).get(14)).toBe(12);
+  });
+});
@@ -0,0 +1,218 @@
+// Minimal reader for OLE2 / Compound File Binary containers (MS-CFB), the format behind legacy
+// .doc, .xls and .ppt files. Read-only and defensive: every sector chain is bounds- and
+// cycle-checked, so a malformed upload fails with an error instead of hanging.
+
+const SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+const ENDOFCHAIN = 0xfffffffe;
+const FREESECT = 0xffffffff;
+const NOSTREAM = 0xffffffff;
+const HEADER_DIFAT_ENTRIES = 109;
+const DIR_ENTRY_SIZE = 128;
+
+const OBJECT_STREAM = 2;
+const OBJECT_ROOT = 5;
+
+export interface CompoundFile {
+  // Names of the streams directly under the root storage.
+  streamNames: string[];
+  readStream(name: string): Buffer | null;
+}
+
+type DirEntry = {
+  name: string;
+  type: number;
+  left: number;
+  right: number;
+  child: number;
+  start: number;
+  size: number;
+};
+
+export function isCompoundFile(buffer: Buffer): boolean {
+  return buffer.length >= 512 && buffer.subarray(0, 8).equals(SIGNATURE);
+}
+
+export function readCompoundFile(buffer: Buffer): CompoundFile {
+  if (!isCompoundFile(buffer)) {
+    throw new Error("Not an OLE compound file");
+  }
+  const sectorShift = buffer.readUInt16LE(0x1e);
+  const miniSectorShift = buffer.readUInt16LE(0x20);
+  if ((sectorShift !== 9 && sectorShift !== 12) || miniSectorShift !== 6) {
+    throw new Error("Unsupported compound file sector size");
+  }
+  const sectorSize = 1 << sectorShift;
+  const miniSectorSize = 1 << miniSectorShift;
+  const numFatSectors = buffer.readUInt32LE(0x2c);
+  const firstDirSector = buffer.readUInt32LE(0x30);
+  const miniStreamCutoff = buffer.readUInt32LE(0x38);
+  const firstMiniFatSector = buffer.readUInt32LE(0x3c);
+  const firstDifatSector = buffer.readUInt32LE(0x44);
+  const maxSectors = Math.floor(buffer.length / sectorSize);
+  // Each FAT sector maps sectorSize / 4 sectors, so a real file never needs more FAT sectors than
+  // it has sectors; a larger count would only make the FAT below grow without bound.
+  if (numFatSectors > maxSectors) {
+    throw new Error("FAT sector count exceeds file size");
+  }
+
+  const sectorOffset = (sector: number) => (sector + 1) * sectorSize;
+  const readSector = (sector: number) => {
+    const offset = sectorOffset(sector);
+    if (sector >= maxSectors || offset + sectorSize > buffer.length) {
+      // The last sector may be short in truncated-but-readable files.
+      if (offset < buffer.length) return buffer.subarray(offset);
+      throw new Error(`Sector ${sector} is out of range`);
+    }
+    return buffer.subarray(offset, offset + sectorSize);
+  };
+
+  // FAT sector locations: 109 in the header, the rest in the DIFAT chain. A sector listed twice
+  // would repeat its FAT entries, so repeats are rejected.
+  const fatSectors: number[] = [];
+  const seenFatSectors = new Set<number>();
+  const addFatSector = (sector: number) => {
+    if (sector === FREESECT) return;
+    if (seenFatSectors.has(sector)) throw new Error("FAT sector listed twice");
+    seenFatSectors.add(sector);
+    fatSectors.push(sector);
+  };
+  for (let i = 0; i < HEADER_DIFAT_ENTRIES && fatSectors.length < numFatSectors; i += 1) {
+    addFatSector(buffer.readUInt32LE(0x4c + i * 4));
+  }
+  let difatSector = firstDifatSector;
+  const seenDifat = new Set<number>();
+  while (difatSector !== ENDOFCHAIN && difatSector !== FREESECT && fatSectors.length < numFatSectors) {
+    if (seenDifat.has(difatSector)) throw new Error("DIFAT chain loops");
+    seenDifat.add(difatSector);
+    const data = readSector(difatSector);
+    const perSector = sectorSize / 4 - 1;
+    for (let i = 0; i < perSector && fatSectors.length < numFatSectors; i += 1) {
+      addFatSector(data.readUInt32LE(i * 4));
+    }
+    difatSector = data.readUInt32LE(perSector * 4);
+  }
+
+  const fat: number[] = [];
+  for (const sector of fatSectors) {
+    const data = readSector(sector);
+    for (let i = 0; i + 4 <= data.length; i += 4) fat.push(data.readUInt32LE(i));
+  }
+
+  const chain = (start: number, table: number[]) => {
+    const sectors: number[] = [];
+    const seen = new Set<number>();
+    let sector = start;
+    while (sector !== ENDOFCHAIN && sector !== FREESECT) {
+      if (sector >= table.length || seen.has(sector)) {
+        throw new Error("Corrupt sector chain");
+      }
+      seen.add(sector);
+      sectors.push(sector);
+      sector = table[sector];
+    }
+    return sectors;
+  };
+
+  const readChain = (start: number, size?: number) => {
+    const data = Buffer.concat(chain(start, fat).map(readSector));
+    return typeof size === "number" ? data.subarray(0, size) : data;
+  };
+
+  const dirData = readChain(firstDirSector);
+  const entries: DirEntry[] = [];
+  for (let offset = 0; offset + DIR_ENTRY_SIZE <= dirData.length; offset += DIR_ENTRY_SIZE) {
+    const nameLength = Math.min(dirData.readUInt16LE(offset + 64), 64);
+    const name = dirData
+      .subarray(offset, offset + Math.max(nameLength - 2, 0))
+      .toString("utf16le");
+    entries.push({
+      name,
+      type: dirData[offset + 66],
+      left: dirData.readUInt32LE(offset + 68),
+      right: dirData.readUInt32LE(offset + 72),
+      child: dirData.readUInt32LE(offset + 76),
+      start: dirData.readUInt32LE(offset + 116),
+      // Version 3 files only use the low 32 bits.
+      size: dirData.readUInt32LE(offset + 120),
+    });
+  }
+  const root = entries[0];
+  if (!root || root.type !== OBJECT_ROOT) {
+    throw new Error("Missing root directory entry");
+  }
+
+  // Root children form a red-black tree through left/right siblings.
+  const children = new Map<string, DirEntry>();
+  const visited = new Set<number>();
+  const walk = (id: number) => {
+    if (id === NOSTREAM || id >= entries.length || visited.has(id)) return;
+    visited.add(id);
+    const entry = entries[id];
+    if (entry.type === OBJECT_STREAM) children.set(entry.name, entry);
+    walk(entry.left);
+    walk(entry.right);
+  };
+  walk(root.child);
+
+  let miniFat: number[] | null = null;
+  let miniStream: Buffer | null = null;
+  const loadMini = () => {
+    if (!miniFat) {
+      const data = firstMiniFatSector === ENDOFCHAIN ? Buffer.alloc(0) : readChain(firstMiniFatSector);
+      miniFat = [];
+      for (let i = 0; i + 4 <= data.length; i += 4) miniFat.push(data.readUInt32LE(i));
+      miniStream = root.start === ENDOFCHAIN ? Buffer.alloc(0) : readChain(root.start, root.size);
+    }
+    return { miniFat: miniFat!, miniStream: miniStream! };
+  };
+
+  return {
+    streamNames: [...children.keys()],
+    readStream(name: string) {
+      const entry = children.get(name);
+      if (!entry) return null;
+      if (entry.size === 0) return Buffer.alloc(0);
+      if (entry.size >= miniStreamCutoff) {
+        return readChain(entry.start, entry.size);
+      }
+      const mini = loadMini();
+      const parts = chain(entry.start, mini.miniFat).map((sector) => {
+        const offset = sector * miniSectorSize;
+        if (offset + miniSectorSize > mini.miniStream.length) {
+          throw new Error("Mini sector out of range");
+        }
+        return mini.miniStream.subarray(offset, offset + miniSectorSize);
+      });
+      return Buffer.concat(parts).subarray(0, entry.size);
+    },
+  };
+}
+
+/**
+ * First section of an OLE property set stream (`\u0005SummaryInformation`,
+ * `\u0005DocumentSummaryInformation`). Only integer and string properties are returned.
+ */
+export function readPropertySet(stream: Buffer | null): Map<number, number | string> {
+  const props = new Map<number, number | string>();
+  if (!stream || stream.length < 48) return props;
+  try {
+    const sectionOffset = stream.readUInt32LE(44);
+    const count = stream.readUInt32LE(sectionOffset + 4);
+    for (let i = 0; i < Math.min(count, 256); i += 1) {
+      const id = stream.readUInt32LE(sectionOffset + 8 + i * 8);
+      const offset = sectionOffset + stream.readUInt32LE(sectionOffset + 12 + i * 8);
+      const type = stream.readUInt32LE(offset);
+      if (type === 2) {
+        props.set(id, stream.readInt16LE(offset + 4));
+      } else if (type === 3) {
+        props.set(id, stream.readInt32LE(offset + 4));
+      } else if (type === 30) {
+        const length = stream.readUInt32LE(offset + 4);
+        props.set(id, stream.subarray(offset + 8, offset + 8 + length).toString("latin1").replace(/\0+$/, ""));
+      }
+    }
+  } catch {
+    // Truncated property sets just yield what was read so far.
+  }
+  return props;
+}
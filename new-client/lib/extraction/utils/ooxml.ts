@@ -0,0 +1,152 @@
+import type JSZip from "jszip";
+import { XMLParser } from "fast-xml-parser";
+import { OFFICE_MAX_PART_BYTES } from "../config";
+
+// Shared helpers for the Office Open XML extractors (docx, xlsx, pptx).
+//
+// OOXML bodies interleave different elements (paragraphs and tables, runs and tabs) whose order
+// matters, so parts are parsed with `preserveOrder`: every node is `{ [tag]: children, ":@": attrs }`
+// and text is `{ "#text": value }`.
+
+export type XmlNode = Record<string, unknown>;
+
+const parser = new XMLParser({
+  preserveOrder: true,
+  ignoreAttributes: false,
+  attributeNamePrefix: "",
+  // Runs carry significant leading/trailing spaces (xml:space="preserve").
+  trimValues: false,
+  parseTagValue: false,
+  parseAttributeValue: false,
+});
+
+export function parseOoxml(xml: string): XmlNode[] {
+  const parsed = parser.parse(xml);
+  return Array.isArray(parsed) ? (parsed as XmlNode[]) : [];
+}
+
+export function tagOf(node: XmlNode): string | null {
+  for (const key of Object.keys(node)) {
+    if (key !== ":@" && key !== "#text") return key;
+  }
+  return null;
+}
+
+export function childrenOf(node: XmlNode): XmlNode[] {
+  const tag = tagOf(node);
+  const value = tag ? node[tag] : null;
+  return Array.isArray(value) ? (value as XmlNode[]) : [];
+}
+
+export function attrsOf(node: XmlNode): Record<string, string> {
+  const attrs = node[":@"];
+  return attrs && typeof attrs === "object" ? (attrs as Record<string, string>) : {};
+}
+
+export function textOf(node: XmlNode): string | null {
+  const value = node["#text"];
+  return value === undefined || value === null ? null : String(value);
+}
+
+// First direct child with the given tag.
+export function childOf(node: XmlNode, tag: string): XmlNode | undefined {
+  return childrenOf(node).find((child) => tagOf(child) === tag);
+}
+
+// Depth-first search for every element with the given tag (not descending into matches).
+export function findAll(nodes: XmlNode[], tag: string, out: XmlNode[] = []): XmlNode[] {
+  for (const node of nodes) {
+    if (tagOf(node) === tag) {
+      out.push(node);
+    } else {
+      findAll(childrenOf(node), tag, out);
+    }
+  }
+  return out;
+}
+
+export function findFirst(nodes: XmlNode[], tag: string): XmlNode | undefined {
+  for (const node of nodes) {
+    if (tagOf(node) === tag) return node;
+    const nested = findFirst(childrenOf(node), tag);
+    if (nested) return nested;
+  }
+  return undefined;
+}
+
+// Concatenated text of every `textTag` element under the nodes (e.g. w:t, a:t).
+export function collectText(nodes: XmlNode[], textTag: string): string {
+  let out = "";
+  for (const node of nodes) {
+    if (tagOf(node) === textTag) {
+      out += childrenOf(node)
+        .map((child) => textOf(child) ?? "")
+        .join("");
+    } else {
+      out += collectText(childrenOf(node), textTag);
+    }
+  }
+  return out;
+}
+
+// Tokens with at least one letter or digit, so markdown markup (#, -, |, ---) isn't counted.
+export function countWords(text: string): number {
+  const matches = text.match(/\S*[\p{L}\p{N}]\S*/gu);
+  return matches ? matches.length : 0;
+}
+
+/**
+ * Read a part as text, or null when it's missing. Parts above OFFICE_MAX_PART_BYTES (uncompressed)
+ * are skipped with a note so a single huge sheet can't exhaust memory.
+ */
+export async function readPart(zip: JSZip, path: string, notes?: string[]): Promise<string | null> {
+  const file = zip.file(path);
+  if (!file) return null;
+  const declaredSize = (file as unknown as { _data?: { uncompressedSize?: number } })._data
+    ?.uncompressedSize;
+  if (typeof declaredSize === "number" && declaredSize > OFFICE_MAX_PART_BYTES) {
+    notes?.push(`Skipped ${path} (${declaredSize} bytes uncompressed)`);
+    return null;
+  }
+  return file.async("string");
+}
+
+function dirOf(path: string) {
+  const idx = path.lastIndexOf("/");
+  return idx >= 0 ? path.slice(0, idx + 1) : "";
+}
+
+function normalizePath(path: string) {
+  const parts: string[] = [];
+  for (const part of path.split("/")) {
+    if (!part || part === ".") continue;
+    if (part === "..") parts.pop();
+    else parts.push(part);
+  }
+  return parts.join("/");
+}
+
+export type Relationship = { id: string; type: string; target: string; external: boolean };
+
+/**
+ * Relationships of a part (`word/document.xml` -> `word/_rels/document.xml.rels`), with targets
+ * resolved to zip paths.
+ */
+export async function readRelationships(zip: JSZip, partPath: string): Promise<Map<string, Relationship>> {
+  const relsPath = `${dirOf(partPath)}_rels/${partPath.slice(dirOf(partPath).length)}.rels`;
+  const rels = new Map<string, Relationship>();
+  const xml = await readPart(zip, relsPath);
+  if (!xml) return rels;
+  for (const rel of findAll(parseOoxml(xml), "Relationship")) {
+    const attrs = attrsOf(rel);
+    if (!attrs.Id || !attrs.Target) continue;
+    const external = attrs.TargetMode === "External";
+    const target = external
+      ? attrs.Target
+      : attrs.Target.startsWith("/")
+        ? normalizePath(attrs.Target)
+        : normalizePath(`${dirOf(partPath)}${attrs.Target}`);
+    rels.set(attrs.Id, { id: attrs.Id, type: attrs.Type ?? "", target, external });
+  }
+  return rels;
+}
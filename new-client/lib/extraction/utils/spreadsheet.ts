@@ -0,0 +1,41 @@
+// Shared helpers for the spreadsheet extractors (xlsx and legacy .xls).
+
+export const MAX_SHEET_ROWS = 200;
+export const MAX_SHEET_COLUMNS = 100;
+
+// Built-in number formats that render as dates/times (ECMA-376 18.8.30, same ids in BIFF8).
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 30, 36, 45, 46, 47, 50, 57]);
+
+export type SheetStats = { name: string; rows: number; columns: number; hidden?: boolean };
+
+export function isBuiltinDateFormat(id: number): boolean {
+  return BUILTIN_DATE_FORMATS.has(id);
+}
+
+export function isDateFormatCode(formatCode: string): boolean {
+  // Drop quoted literals and [Red]/[$-409] sections before looking for date tokens.
+  const code = formatCode.replace(/"[^"]*"/g, "").replace(/\[[^\]]*\]/g, "");
+  return /[dmyhs]/i.test(code);
+}
+
+export function formatSerialDate(serial: number, epochMs: number): string {
+  const ms = epochMs + Math.round(serial * 86_400_000);
+  const iso = new Date(ms).toISOString();
+  return Number.isInteger(serial) ? iso.slice(0, 10) : `${iso.slice(0, 10)} ${iso.slice(11, 16)}`;
+}
+
+export function serialDateEpoch(date1904: boolean): number {
+  return date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+}
+
+// `[Sheet: name] N rows x M columns` followed by up to MAX_SHEET_ROWS tab-separated rows.
+export function sheetPreviewLines(name: string, hidden: boolean, rows: string[][]): string[] {
+  const columns = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const lines = [`[Sheet: ${name}${hidden ? " (hidden)" : ""}] ${rows.length} rows x ${columns} columns`];
+  lines.push(...rows.slice(0, MAX_SHEET_ROWS).map((row) => row.join("\t")));
+  if (rows.length > MAX_SHEET_ROWS) {
+    lines.push(`[${rows.length - MAX_SHEET_ROWS} more rows]`);
+  }
+  lines.push("");
+  return lines;
+}
@@ -1,5 +1,4 @@
-import { NextRequest, NextResponse } from "next/server";
-import { randomUUID } from "crypto";
+import { NextResponse } from "next/server";
 import type { Database } from "@/lib/supabase/types";
 
 type SupabaseClient = any;
@@ -31,21 +30,12 @@ async function createGuestSessionRecord(
   return data as GuestSessionRow;
 }
 
+// The session id comes from the guest session cookie; withRouteGuard issues the cookie when a
+// guest has none yet.
 export async function ensureGuestSession(
-  request: NextRequest,
-  supabase: SupabaseClient
-): Promise<{
-  session: GuestSessionRow;
-  cookieValue?: string;
-}> {
-  let sessionId = request.cookies.get(GUEST_SESSION_COOKIE)?.value;
-  let newlyIssuedCookie: string | undefined;
-
-  if (!sessionId) {
-    sessionId = randomUUID();
-    newlyIssuedCookie = sessionId;
-  }
-
+  supabase: SupabaseClient,
+  sessionId: string
+): Promise<GuestSessionRow> {
   const { data: sessionData, error } = await (supabase as any)
     .from("guest_sessions")
     .select("*")
@@ -59,14 +49,14 @@ export async function ensureGuestSession(
   }
 
   if (!session) {
-    const created = await createGuestSessionRecord(supabase, sessionId!);
+    const created = await createGuestSessionRecord(supabase, sessionId);
     if (!created) {
       throw new Error("Unable to create guest session");
     }
     session = created;
   }
 
-  return { session: session as GuestSessionRow, cookieValue: newlyIssuedCookie };
+  return session;
 }
 
 export async function incrementGuestSessionRequest(
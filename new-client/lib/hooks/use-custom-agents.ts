@@ -0,0 +1,61 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { CustomAgent } from "@/lib/agents/customAgents";
+
+// One list per tab, shared by every picker and composer; the agents page refreshes it after edits.
+let cachedAgents: CustomAgent[] | null = null;
+let inflight: Promise<CustomAgent[]> | null = null;
+const listeners = new Set<(agents: CustomAgent[]) => void>();
+
+async function fetchCustomAgents(): Promise<CustomAgent[]> {
+  const res = await fetch("/api/agents/custom", { cache: "no-store" });
+  // Guests have no agents; treat auth failures as an empty list rather than an error.
+  if (res.status === 401) return [];
+  const data = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(data?.error || "Failed to load agents");
+  return Array.isArray(data?.agents) ? (data.agents as CustomAgent[]) : [];
+}
+
+function loadCustomAgents(force = false) {
+  if (!force && cachedAgents) return Promise.resolve(cachedAgents);
+  if (!force && inflight) return inflight;
+  inflight = fetchCustomAgents()
+    .then((agents) => {
+      cachedAgents = agents;
+      listeners.forEach((listener) => listener(agents));
+      return agents;
+    })
+    .finally(() => {
+      inflight = null;
+    });
+  return inflight;
+}
+
+export function useCustomAgents() {
+  const [agents, setAgents] = useState<CustomAgent[]>(() => cachedAgents ?? []);
+  const [isLoading, setIsLoading] = useState(cachedAgents === null);
+
+  useEffect(() => {
+    listeners.add(setAgents);
+    loadCustomAgents()
+      .catch((error) => console.warn("[customAgents] Failed to load agents:", error))
+      .finally(() => setIsLoading(false));
+    return () => {
+      listeners.delete(setAgents);
+    };
+  }, []);
+
+  const refreshAgents = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      await loadCustomAgents(true);
+    } catch (error) {
+      console.warn("[customAgents] Failed to refresh agents:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  return { agents, isLoading, refreshAgents };
+}
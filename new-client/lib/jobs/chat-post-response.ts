@@ -0,0 +1,548 @@
+import { maybeExtractArtifactsFromMessage } from "@/lib/artifacts/maybeExtractArtifactsFromMessage";
+import { deleteMemory, writeMemory } from "@/lib/memory";
+import { applyPermanentInstructionMutations } from "@/lib/permanentInstructions";
+import { attachWriterToTrace } from "@/lib/request-trace";
+import { runWriterRouter } from "@/lib/router/write-router";
+import type { Database } from "@/lib/supabase/types";
+import {
+  buildAutoTopicDescription,
+  buildAutoTopicLabel,
+  buildAutoTopicSummary,
+} from "@/lib/topics/autoTopicText";
+import { compactTopic, topicNeedsCompaction } from "@/lib/topics/compaction";
+import { updateTopicSnapshot } from "@/lib/topics/updateTopicSnapshot";
+
+import {
+  enqueueBackgroundJob,
+  saveBackgroundJobCheckpoint,
+  type BackgroundJob,
+  type BackgroundJobHandler,
+} from "./queue";
+
+// Work the chat route used to do after streaming the reply: the writer router (topic metadata,
+// memories, permanent instructions, artifacts), code-block artifact extraction and the topic
+// snapshot. The route enqueues these once the assistant message is saved; they run on the
+// background worker with the service-role client and are retried on failure. A snapshot that
+// pushes the topic past the compaction threshold queues a compaction of the topic.
+
+type MessageRow = Database["public"]["Tables"]["messages"]["Row"];
+
+type TopicMeta = {
+  id: string;
+  label: string;
+  summary: string | null;
+  description: string | null;
+};
+
+type RouterMessage = { role: "user" | "assistant" | "system"; content: string };
+
+export const CHAT_WRITER_ROUTER_JOB = "chat.writer_router";
+export const CHAT_EXTRACT_ARTIFACTS_JOB = "chat.extract_artifacts";
+export const CHAT_TOPIC_SNAPSHOT_JOB = "chat.topic_snapshot";
+export const CHAT_COMPACT_TOPIC_JOB = "chat.compact_topic";
+
+/** Everything the writer router needs from the turn, captured when the job is enqueued. */
+export type ChatWriterRouterPayload = {
+  userId: string;
+  conversationId: string;
+  assistantMessageId: string;
+  userMessageTopicId: string | null;
+  userMessageText: string;
+  recentMessages: RouterMessage[];
+  topicAction: "continue_active" | "new" | "reopen_existing";
+  newParentTopicId: string | null;
+  decisionTopicId: string | null;
+  primaryTopicId: string | null;
+  activeTopicId: string | null;
+  topics: TopicMeta[];
+  currentTopic: TopicMeta | null;
+  allowLLM: boolean;
+  allowMemoryWrites: boolean;
+  traceId: string | null;
+};
+
+export type ChatMessageJobPayload = {
+  assistantMessageId: string;
+};
+
+export type ChatCompactTopicPayload = {
+  topicId: string;
+};
+
+async function loadMessage(supabase: any, messageId: string): Promise<MessageRow | null> {
+  const { data, error } = await supabase.from("messages").select("*").eq("id", messageId).maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load message ${messageId}: ${error.message}`);
+  }
+  return (data as MessageRow | null) ?? null;
+}
+
+function messageMetadata(message: MessageRow): Record<string, unknown> {
+  return message.metadata && typeof message.metadata === "object" && !Array.isArray(message.metadata)
+    ? (message.metadata as Record<string, unknown>)
+    : {};
+}
+
+/** Queues the follow-up work for a saved assistant message. */
+export async function enqueueChatPostResponseJobs(
+  supabase: any,
+  params: { assistantMessageId: string; writer: ChatWriterRouterPayload | null }
+) {
+  if (params.writer) {
+    // Extraction and the snapshot are queued by the writer job once it has finished, so they see
+    // the artifacts and topic it wrote.
+    return [await enqueueBackgroundJob(supabase, { kind: CHAT_WRITER_ROUTER_JOB, payload: params.writer })];
+  }
+  return enqueueMessageFollowUps(supabase, params.assistantMessageId);
+}
+
+async function enqueueMessageFollowUps(supabase: any, assistantMessageId: string) {
+  const payload: ChatMessageJobPayload = { assistantMessageId };
+  return [
+    await enqueueBackgroundJob(supabase, { kind: CHAT_EXTRACT_ARTIFACTS_JOB, payload }),
+    await enqueueBackgroundJob(supabase, { kind: CHAT_TOPIC_SNAPSHOT_JOB, payload }),
+  ];
+}
+
+function normalizeTopicText(value?: string | null) {
+  if (!value) return null;
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const lower = trimmed.toLowerCase();
+  if (["none", "null", "n/a", "na", "skip"].includes(lower)) return null;
+  return trimmed;
+}
+
+function mergeTopicText(
+  existing: string | null | undefined,
+  incoming: string | null | undefined,
+  limit: number
+): string | null {
+  const existingClean = normalizeTopicText(existing);
+  const incomingClean = normalizeTopicText(incoming);
+  if (!incomingClean) return existingClean ?? null;
+  if (!existingClean) return incomingClean.slice(0, limit);
+
+  const tokenize = (value: string) =>
+    value
+      .toLowerCase()
+      .replace(/[^a-z0-9\s]/g, " ")
+      .split(/\s+/)
+      .filter(Boolean);
+  const a = tokenize(existingClean);
+  const b = tokenize(incomingClean);
+  const overlap = (() => {
+    if (!a.length || !b.length) return 0;
+    const setA = new Set(a);
+    let hit = 0;
+    for (const token of b) {
+      if (setA.has(token)) hit += 1;
+    }
+    const union = setA.size + b.length - hit;
+    return union > 0 ? hit / union : 0;
+  })();
+
+  // If the new text mostly overlaps or is a focused update, prefer replacement.
+  const shouldReplace =
+    overlap >= 0.5 ||
+    incomingClean.length <= Math.max(60, existingClean.length * 0.6) ||
+    incomingClean.toLowerCase().includes("updated") ||
+    existingClean.toLowerCase().includes(incomingClean.toLowerCase());
+
+  if (shouldReplace) {
+    return incomingClean.slice(0, limit);
+  }
+
+  if (incomingClean.toLowerCase().includes(existingClean.toLowerCase())) {
+    return incomingClean.slice(0, limit);
+  }
+
+  const combined = `${existingClean}; ${incomingClean}`;
+  return combined.slice(0, limit);
+}
+
+function extractKeywords(text: string): string[] {
+  const STOP = new Set([
+    "the", "and", "for", "with", "this", "that", "have", "from", "into", "about", "your", "you",
+    "are", "was", "were", "will", "would", "shall", "should", "could", "there", "here", "they",
+    "them", "their", "our", "ours", "has", "had", "can", "but", "not", "just", "like", "then",
+    "than", "when", "what", "why", "how", "who", "where", "which", "also", "within",
+  ]);
+
+  const base = (text || "").toLowerCase().replace(/[^a-z0-9\s]/g, " ");
+  const freq = new Map<string, number>();
+  for (const token of base.split(/\s+/)) {
+    if (!token || token.length < 3 || token.length > 24) continue;
+    if (STOP.has(token)) continue;
+    freq.set(token, (freq.get(token) ?? 0) + 1);
+  }
+
+  return Array.from(freq.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 12)
+    .map(([k]) => k);
+}
+
+type WriterOutput = Awaited<ReturnType<typeof runWriterRouter>>;
+
+/** Applies topic create/update writes; returns the topic the writer created, if any. */
+async function applyTopicWrites(supabase: any, payload: ChatWriterRouterPayload, writer: WriterOutput) {
+  const topicMetaLookup = new Map(payload.topics.map((t) => [t.id, t]));
+  const topicIdSet = new Set(payload.topics.map((t) => t.id));
+  let resolvedPrimaryTopicId = payload.primaryTopicId;
+  if (resolvedPrimaryTopicId) topicIdSet.add(resolvedPrimaryTopicId);
+  let topicCreated: { id: string; label: string } | null = null;
+
+  const writes: Array<WriterOutput["topicWrite"]> = [];
+  if (writer.topicWrite) writes.push(writer.topicWrite);
+  if (Array.isArray(writer.additionalTopicWrites)) {
+    writes.push(...writer.additionalTopicWrites.map((tw) => ({ ...tw, action: "update" as const })));
+  }
+
+  for (const topicWrite of writes) {
+    if (!topicWrite || topicWrite.action === "skip") continue;
+    if (topicWrite.action === "create") {
+      const label = normalizeTopicText(topicWrite.label) || buildAutoTopicLabel(payload.userMessageText);
+      const descriptionInput =
+        normalizeTopicText(topicWrite.description) || buildAutoTopicDescription(payload.userMessageText);
+      const summaryInput =
+        normalizeTopicText(topicWrite.summary) || buildAutoTopicSummary(payload.userMessageText);
+
+      if (resolvedPrimaryTopicId) {
+        const existingMeta = topicMetaLookup.get(resolvedPrimaryTopicId) ?? payload.currentTopic;
+        const nextDescription = mergeTopicText(existingMeta?.description, descriptionInput, 500);
+        const nextSummary = mergeTopicText(existingMeta?.summary, summaryInput, 500);
+        const updatePayload: Record<string, any> = { label: label.slice(0, 120) };
+        if (nextDescription && nextDescription !== normalizeTopicText(existingMeta?.description)) {
+          updatePayload.description = nextDescription;
+        }
+        if (nextSummary && nextSummary !== normalizeTopicText(existingMeta?.summary)) {
+          updatePayload.summary = nextSummary;
+        }
+        const { error: updateErr } = await supabase
+          .from("conversation_topics")
+          .update(updatePayload)
+          .eq("id", resolvedPrimaryTopicId);
+        if (updateErr) {
+          console.error("[topic-router] Failed to update stub topic metadata:", updateErr);
+        } else {
+          console.log(`[topic-router] Updated stub topic ${resolvedPrimaryTopicId} metadata from writer router`);
+          topicCreated = { id: resolvedPrimaryTopicId, label };
+        }
+      } else {
+        const { data: insertedTopic, error: topicErr } = await supabase
+          .from("conversation_topics")
+          .insert([
+            {
+              conversation_id: payload.conversationId,
+              label: label.slice(0, 120),
+              description: mergeTopicText(null, descriptionInput, 500),
+              summary: mergeTopicText(null, summaryInput, 500),
+              parent_topic_id: payload.newParentTopicId,
+            },
+          ])
+          .select()
+          .single();
+        if (topicErr || !insertedTopic) {
+          console.error("[topic-router] Failed to create topic:", topicErr);
+        } else {
+          resolvedPrimaryTopicId = insertedTopic.id;
+          topicIdSet.add(insertedTopic.id);
+          console.log(`[topic-router] Created topic ${insertedTopic.id} label="${insertedTopic.label}"`);
+          topicCreated = { id: insertedTopic.id, label };
+        }
+      }
+    } else if (topicWrite.action === "update") {
+      const targetId = topicWrite.targetTopicId ?? resolvedPrimaryTopicId ?? payload.activeTopicId;
+      if (!targetId || !topicIdSet.has(targetId)) {
+        continue;
+      }
+      const updatePayload: Record<string, any> = {};
+      const label = normalizeTopicText(topicWrite.label);
+      const targetMeta = topicMetaLookup.get(targetId);
+      const summary = mergeTopicText(targetMeta?.summary, topicWrite.summary, 500);
+      const description = mergeTopicText(targetMeta?.description, topicWrite.description, 500);
+      if (label) updatePayload.label = label.slice(0, 120);
+      if (summary && summary !== normalizeTopicText(targetMeta?.summary)) updatePayload.summary = summary;
+      if (description && description !== normalizeTopicText(targetMeta?.description)) {
+        updatePayload.description = description;
+      }
+      if (!Object.keys(updatePayload).length) continue;
+      const { error: updateErr } = await supabase
+        .from("conversation_topics")
+        .update(updatePayload)
+        .eq("id", targetId);
+      if (updateErr) {
+        console.error(`[topic-router] Failed to update topic ${targetId} metadata:`, updateErr);
+      } else {
+        console.log(`[topic-router] Updated topic ${targetId} metadata from writer router`);
+      }
+    }
+  }
+
+  return topicCreated;
+}
+
+async function applyMemoryWrites(payload: ChatWriterRouterPayload, writer: WriterOutput) {
+  const memoriesToWrite = (writer.memoriesToWrite || []).filter(
+    (memory) =>
+      memory &&
+      typeof memory.type === "string" &&
+      memory.type.trim().length > 0 &&
+      typeof memory.title === "string" &&
+      memory.title.trim().length > 0 &&
+      typeof memory.content === "string" &&
+      memory.content.trim().length > 0
+  );
+  if (payload.allowMemoryWrites && memoriesToWrite.length > 0) {
+    console.log(`[router-memory] Writing ${memoriesToWrite.length} memories from router decision`);
+    for (const memory of memoriesToWrite) {
+      try {
+        await writeMemory({
+          type: memory.type,
+          title: memory.title,
+          content: memory.content,
+          enabled: true,
+          conversationId: payload.conversationId,
+          userId: payload.userId,
+        });
+      } catch (err: any) {
+        const msg = String(err?.message || err || "");
+        if (msg.toLowerCase().includes("vector") || String(err?.code || "").includes("42704")) {
+          console.warn("[router-memory] Skipping memory writes; vector extension/column missing");
+          break;
+        }
+        console.error("[router-memory] Failed to write memory:", err);
+      }
+    }
+  }
+
+  const memoriesToDelete = (writer.memoriesToDelete || []).filter(
+    (m) => m && typeof m.id === "string" && m.id.trim().length > 0 && typeof m.reason === "string" && m.reason.trim().length > 0
+  );
+  for (const memDel of memoriesToDelete) {
+    try {
+      await deleteMemory(memDel.id, payload.userId);
+      console.log(`[router-memory] Deleted memory: ${memDel.id} (reason: ${memDel.reason})`);
+    } catch (delErr) {
+      console.error(`[router-memory] Failed to delete memory ${memDel.id}:`, delErr);
+    }
+  }
+}
+
+async function applyArtifactWrites(
+  supabase: any,
+  payload: ChatWriterRouterPayload,
+  writer: WriterOutput,
+  assistantRow: MessageRow
+) {
+  const artifactsFromRouter = (writer.artifactsToWrite || []).filter(
+    (a) =>
+      a &&
+      typeof a.type === "string" &&
+      a.type.trim().length > 0 &&
+      typeof a.title === "string" &&
+      a.title.trim().length > 0 &&
+      typeof a.content === "string" &&
+      a.content.trim().length >= 1
+  );
+  const topicIdForArtifacts = assistantRow.topic_id ?? payload.decisionTopicId ?? payload.userMessageTopicId ?? null;
+  if (!topicIdForArtifacts || artifactsFromRouter.length === 0) return;
+
+  if (assistantRow.topic_id !== topicIdForArtifacts) {
+    const { error } = await supabase
+      .from("messages")
+      .update({ topic_id: topicIdForArtifacts })
+      .eq("id", assistantRow.id);
+    if (error) {
+      console.error("[artifacts] Failed to backfill assistant topic_id:", error);
+    }
+  }
+
+  const inserts = artifactsFromRouter.map((art) => {
+    const content = String(art.content || "").trim();
+    const title = String(art.title || "").trim().slice(0, 200) || "Artifact";
+    const summary = content.replace(/\s+/g, " ").slice(0, 180);
+    return {
+      conversation_id: assistantRow.conversation_id,
+      topic_id: topicIdForArtifacts,
+      created_by_message_id: assistantRow.id,
+      type: typeof art.type === "string" ? art.type : "other",
+      title,
+      summary,
+      content,
+      token_estimate: Math.max(50, Math.round(Math.max(summary.length, content.length) / 4)),
+      keywords: extractKeywords([title, summary, content].join(" ")),
+    };
+  });
+
+  const { error } = await supabase.from("artifacts").insert(inserts);
+  if (!error) {
+    console.log(`[artifacts] Inserted ${inserts.length} artifacts from writer router`);
+    return;
+  }
+  if (!String(error.message || "").includes("keywords")) {
+    throw new Error(`Failed to insert artifacts: ${error.message}`);
+  }
+  // Older schemas have no keywords column.
+  const { error: retryError } = await supabase
+    .from("artifacts")
+    .insert(
+      inserts.map((insert) => {
+        const rest: Partial<typeof insert> = { ...insert };
+        delete rest.keywords;
+        return rest;
+      })
+    );
+  if (retryError) {
+    throw new Error(`Failed to insert artifacts: ${retryError.message}`);
+  }
+}
+
+type WriterJobStep = "topics" | "instructions" | "memories" | "artifacts" | "trace";
+
+type WriterJobCheckpoint = {
+  writer?: WriterOutput;
+  topicCreated?: { id: string; label: string } | null;
+  done?: Partial<Record<WriterJobStep, true>>;
+};
+
+/**
+ * Runs the writer router for a finished turn and applies its output. The writer's output is saved
+ * to the job checkpoint before anything is applied, and each apply step is marked there once it
+ * has landed, so a retry after a partial failure re-applies only the unfinished steps of the same
+ * output rather than running the model again (which would write duplicate topics, memories and
+ * artifacts). The assistant message is tagged with `writer_router_ran` at the end; a retry after
+ * that only re-queues the follow-ups.
+ */
+async function runChatWriterRouterJob(supabase: any, job: BackgroundJob<ChatWriterRouterPayload>) {
+  const payload = job.payload;
+  const assistantRow = await loadMessage(supabase, payload.assistantMessageId);
+  if (!assistantRow) {
+    console.warn(`[writer-router] Assistant message ${payload.assistantMessageId} is gone; skipping.`);
+    return;
+  }
+
+  const baseMeta = messageMetadata(assistantRow);
+  if (!baseMeta.writer_router_ran) {
+    const checkpoint: WriterJobCheckpoint = { ...(job.checkpoint as WriterJobCheckpoint) };
+    const done = { ...(checkpoint.done ?? {}) };
+    const saveProgress = () =>
+      saveBackgroundJobCheckpoint(supabase, job.id, { ...checkpoint, done } as Record<string, unknown>);
+    const runStep = async (step: WriterJobStep, apply: () => Promise<void>) => {
+      if (done[step]) return;
+      await apply();
+      done[step] = true;
+      await saveProgress();
+    };
+
+    let writer = checkpoint.writer;
+    if (writer) {
+      console.log(`[writer-router] Resuming saved writer output for ${assistantRow.id}`);
+    } else {
+      const writerTopicId = payload.primaryTopicId ?? payload.activeTopicId ?? null;
+      const writerTopicMeta = writerTopicId ? payload.topics.find((t) => t.id === writerTopicId) ?? null : null;
+      writer = await runWriterRouter(
+        {
+          userMessageText: payload.userMessageText,
+          assistantMessageText: assistantRow.content ?? "",
+          recentMessages: payload.recentMessages,
+          memoryRelevantMessages: [
+            ...payload.recentMessages.filter((m) => m.role === "user"),
+            { role: "user" as const, content: payload.userMessageText },
+          ].slice(-6),
+          topics: writerTopicMeta ? [writerTopicMeta] : [],
+          currentTopic: {
+            id: writerTopicId,
+            label: writerTopicMeta?.label ?? payload.currentTopic?.label ?? null,
+            summary: writerTopicMeta?.summary ?? payload.currentTopic?.summary ?? null,
+            description: writerTopicMeta?.description ?? payload.currentTopic?.description ?? null,
+          },
+        },
+        payload.topicAction,
+        { allowLLM: payload.allowLLM, userId: payload.userId, conversationId: payload.conversationId }
+      );
+      console.log("[writer-router] output (background):", JSON.stringify(writer, null, 2));
+      checkpoint.writer = writer;
+      await saveProgress();
+    }
+    const output = writer;
+
+    await runStep("topics", async () => {
+      checkpoint.topicCreated = await applyTopicWrites(supabase, payload, output);
+    });
+    await runStep("instructions", async () => {
+      if (!output.permanentInstructionsToWrite?.length && !output.permanentInstructionsToDelete?.length) return;
+      await applyPermanentInstructionMutations({
+        supabase,
+        userId: payload.userId,
+        conversationId: payload.conversationId,
+        writes: output.permanentInstructionsToWrite || [],
+        deletes: output.permanentInstructionsToDelete || [],
+      });
+    });
+    await runStep("memories", () => applyMemoryWrites(payload, output));
+    await runStep("artifacts", () => applyArtifactWrites(supabase, payload, output, assistantRow));
+    await runStep("trace", async () => {
+      if (payload.traceId) await attachWriterToTrace(supabase, payload.traceId, output);
+    });
+
+    const topicCreated = checkpoint.topicCreated ?? null;
+    // Merged in SQL: the row read above may be stale by now.
+    const { error: tagError } = await supabase.rpc("merge_message_metadata", {
+      p_message_id: assistantRow.id,
+      p_patch: { writer_router_ran: true, ...(topicCreated ? { topicCreated } : {}) },
+    });
+    if (tagError) {
+      throw new Error(`Failed to tag writer run on message: ${tagError.message}`);
+    }
+  }
+
+  await enqueueMessageFollowUps(supabase, assistantRow.id);
+}
+
+async function runExtractArtifactsJob(supabase: any, job: BackgroundJob<ChatMessageJobPayload>) {
+  const message = await loadMessage(supabase, job.payload.assistantMessageId);
+  if (!message) return;
+  await maybeExtractArtifactsFromMessage({ supabase, message });
+}
+
+async function runTopicSnapshotJob(supabase: any, job: BackgroundJob<ChatMessageJobPayload>) {
+  const message = await loadMessage(supabase, job.payload.assistantMessageId);
+  if (!message?.topic_id) return;
+  await updateTopicSnapshot({ supabase, topicId: message.topic_id, latestMessage: message });
+
+  const { data: topic, error } = await supabase
+    .from("conversation_topics")
+    .select("id, token_estimate, summary_segments")
+    .eq("id", message.topic_id)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load topic ${message.topic_id}: ${error.message}`);
+  }
+  if (topic && topicNeedsCompaction(topic)) {
+    const payload: ChatCompactTopicPayload = { topicId: topic.id };
+    await enqueueBackgroundJob(supabase, { kind: CHAT_COMPACT_TOPIC_JOB, payload, maxAttempts: 3 });
+  }
+}
+
+async function runCompactTopicJob(supabase: any, job: BackgroundJob<ChatCompactTopicPayload>) {
+  // Several snapshots can queue a compaction before the first one runs; later ones find nothing to do.
+  const { data: topic, error } = await supabase
+    .from("conversation_topics")
+    .select("id, token_estimate, summary_segments")
+    .eq("id", job.payload.topicId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load topic ${job.payload.topicId}: ${error.message}`);
+  }
+  if (!topic || !topicNeedsCompaction(topic)) return;
+  await compactTopic(supabase, topic.id);
+}
+
+export const chatPostResponseHandlers: Record<string, BackgroundJobHandler> = {
+  [CHAT_WRITER_ROUTER_JOB]: runChatWriterRouterJob,
+  [CHAT_EXTRACT_ARTIFACTS_JOB]: runExtractArtifactsJob,
+  [CHAT_TOPIC_SNAPSHOT_JOB]: runTopicSnapshotJob,
+  [CHAT_COMPACT_TOPIC_JOB]: runCompactTopicJob,
+};
@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { createChatTurnJob, readChatTurnEvents } from "./chat-turn";
+
+/**
+ * chat_turn_jobs / chat_turn_job_events stand-in. Event inserts fail while `failInserts` is set;
+ * `lostResponses` inserts are stored but report an error, so their retry hits the unique violation.
+ */
+function fakeSupabase() {
+  const state = {
+    failInserts: false,
+    lostResponses: 0,
+    rows: [] as Array<{ start_index: number; events: unknown[] }>,
+    eventCounts: [] as number[],
+  };
+  const eventsTable = {
+    insert: async ([row]: Array<{ start_index: number; events: unknown[] }>) => {
+      if (state.failInserts) return { error: { message: "timeout" } };
+      if (state.rows.some((r) => r.start_index === row.start_index)) {
+        return { error: { code: "23505", message: "duplicate key" } };
+      }
+      state.rows.push({ start_index: row.start_index, events: row.events });
+      if (state.lostResponses > 0) {
+        state.lostResponses -= 1;
+        return { error: { message: "connection reset" } };
+      }
+      return { error: null };
+    },
+    select: () => {
+      const query = {
+        eq: () => query,
+        gt: () => query,
+        order: async () => ({
+          data: [...state.rows].sort((a, b) => a.start_index - b.start_index),
+          error: null,
+        }),
+      };
+      return query;
+    },
+  };
+  const jobsTable = {
+    insert: () => ({ select: () => ({ maybeSingle: async () => ({ data: { id: "job-1" }, error: null }) }) }),
+    update: (patch: { event_count?: number }) => {
+      if (typeof patch.event_count === "number") state.eventCounts.push(patch.event_count);
+      const query = {
+        eq: () => query,
+        select: () => ({ maybeSingle: async () => ({ data: { status: "running" }, error: null }) }),
+        then: (resolve: (value: { error: null }) => void) => resolve({ error: null }),
+      };
+      return query;
+    },
+  };
+  return {
+    state,
+    from: (table: string) => (table === "chat_turn_job_events" ? eventsTable : jobsTable),
+  };
+}
+
+describe("createChatTurnJob", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  async function open(supabase: ReturnType<typeof fakeSupabase>) {
+    return createChatTurnJob(supabase, {
+      userId: "user-1",
+      conversationId: "conv-1",
+      userMessageId: null,
+      onCancel: () => {},
+    });
+  }
+
+  it("keeps a failed batch and writes it at the same offset on the next flush", async () => {
+    const supabase = fakeSupabase();
+    const recorder = await open(supabase);
+
+    supabase.state.failInserts = true;
+    recorder.push({ type: "token", n: 0 });
+    recorder.push({ type: "token", n: 1 });
+    await vi.advanceTimersByTimeAsync(300);
+    expect(supabase.state.rows).toEqual([]);
+    expect(supabase.state.eventCounts.at(-1)).toBe(0);
+
+    supabase.state.failInserts = false;
+    recorder.push({ type: "token", n: 2 });
+    await recorder.finish("completed");
+
+    expect(supabase.state.rows.map((r) => r.start_index)).toEqual([0, 2]);
+    expect(supabase.state.eventCounts.at(-1)).toBe(3);
+    const { events, nextIndex } = await readChatTurnEvents(supabase, "job-1", 0);
+    expect(events.map((e) => e.n)).toEqual([0, 1, 2]);
+    expect(nextIndex).toBe(3);
+  });
+
+  it("treats a batch stored behind a lost response as written", async () => {
+    const supabase = fakeSupabase();
+    const recorder = await open(supabase);
+
+    supabase.state.lostResponses = 1;
+    recorder.push({ type: "token", n: 0 });
+    await vi.advanceTimersByTimeAsync(300);
+    expect(supabase.state.eventCounts.at(-1)).toBe(0);
+
+    recorder.push({ type: "token", n: 1 });
+    await recorder.finish("completed");
+
+    expect(supabase.state.rows.map((r) => r.start_index)).toEqual([0, 1]);
+    expect(supabase.state.eventCounts.at(-1)).toBe(2);
+    const { events } = await readChatTurnEvents(supabase, "job-1", 0);
+    expect(events.map((e) => e.n)).toEqual([0, 1]);
+  });
+
+  it("splits a backlog into batches the replay reader can follow", async () => {
+    const supabase = fakeSupabase();
+    const recorder = await open(supabase);
+
+    supabase.state.failInserts = true;
+    for (let n = 0; n < 100; n += 1) recorder.push({ type: "token", n });
+    await vi.advanceTimersByTimeAsync(300);
+    supabase.state.failInserts = false;
+    await recorder.finish("completed");
+
+    expect(supabase.state.rows.map((r) => [r.start_index, r.events.length])).toEqual([
+      [0, 64],
+      [64, 36],
+    ]);
+    const { events } = await readChatTurnEvents(supabase, "job-1", 0);
+    expect(events).toHaveLength(100);
+  });
+});
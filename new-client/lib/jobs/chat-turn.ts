@@ -0,0 +1,364 @@
+// Replayable chat turns. The chat route opens a job before streaming and pushes every NDJSON event it
+// emits through the recorder, which appends them to chat_turn_job_events in small batches. A
+// client that lost the connection replays the log by job id (app/api/chat/jobs/[jobId]/stream) or
+// by assistant message id (app/api/messages/[messageId]/stream), from the offset of the last event
+// it saw: offsets count NDJSON lines, so line N of the original response is event N of the log.
+// The recorder's flushes double as the heartbeat and as the point where a cancel is noticed.
+//
+// A turn survives the client disconnecting, not the request dying: the turn runs inside the chat
+// request, so when the platform kills it (function timeout, crash, deploy) nothing resumes it. Its
+// heartbeat goes stale, replay ends with `turn_interrupted`, and the job is marked failed the next
+// time someone looks at it (failStaleChatTurnJob); the client has to send the turn again.
+
+const FLUSH_INTERVAL_MS = 250;
+const FLUSH_MAX_EVENTS = 64;
+const HEARTBEAT_INTERVAL_MS = 10_000;
+// A running job that hasn't flushed or heartbeated for this long was killed mid-turn.
+const STALE_AFTER_MS = 60_000;
+const REPLAY_POLL_INTERVAL_MS = 500;
+// One replay follows a running job for at most this long; the client reconnects from its offset.
+const REPLAY_MAX_TAIL_MS = 5 * 60 * 1000;
+
+export type ChatTurnJobStatus = "running" | "completed" | "failed" | "cancelled";
+
+export type ChatTurnJob = {
+  id: string;
+  userId: string;
+  conversationId: string;
+  userMessageId: string | null;
+  assistantMessageId: string | null;
+  status: ChatTurnJobStatus;
+  error: string | null;
+  eventCount: number;
+  createdAt: string;
+  heartbeatAt: string;
+  finishedAt: string | null;
+};
+
+export type ChatTurnJobRecorder = Awaited<ReturnType<typeof createChatTurnJob>>;
+
+function mapChatTurnJobRow(row: any): ChatTurnJob {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    conversationId: row.conversation_id,
+    userMessageId: row.user_message_id ?? null,
+    assistantMessageId: row.assistant_message_id ?? null,
+    status: row.status,
+    error: row.error ?? null,
+    eventCount: Number(row.event_count) || 0,
+    createdAt: row.created_at,
+    heartbeatAt: row.heartbeat_at,
+    finishedAt: row.finished_at ?? null,
+  };
+}
+
+export function isChatTurnJobStale(job: ChatTurnJob, now = Date.now()) {
+  return job.status === "running" && now - new Date(job.heartbeatAt).getTime() > STALE_AFTER_MS;
+}
+
+/** Marks a stale running job as failed, unless its heartbeat moved meanwhile. Returns the job as stored. */
+export async function failStaleChatTurnJob(supabase: any, job: ChatTurnJob): Promise<ChatTurnJob> {
+  if (!isChatTurnJobStale(job)) return job;
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from("chat_turn_jobs")
+    .update({ status: "failed", error: "Turn interrupted before it finished", finished_at: now })
+    .eq("id", job.id)
+    .eq("status", "running")
+    .eq("heartbeat_at", job.heartbeatAt)
+    .select("*")
+    .maybeSingle();
+  if (error) {
+    console.warn("[chat-turn-job] Failed to mark stale job as failed:", error.message);
+    return job;
+  }
+  return data ? mapChatTurnJobRow(data) : job;
+}
+
+export async function createChatTurnJob(
+  supabase: any,
+  params: { userId: string; conversationId: string; userMessageId: string | null; onCancel: () => void }
+) {
+  const { data, error } = await supabase
+    .from("chat_turn_jobs")
+    .insert([
+      {
+        user_id: params.userId,
+        conversation_id: params.conversationId,
+        user_message_id: params.userMessageId,
+      },
+    ])
+    .select("id")
+    .maybeSingle();
+  if (error || !data) {
+    throw new Error(`Failed to create chat turn job: ${error?.message ?? "no row returned"}`);
+  }
+
+  const id = data.id as string;
+  let buffer: Record<string, unknown>[] = [];
+  let eventCount = 0;
+  let assistantMessageId: string | null = null;
+  let cancelled = false;
+  let lastFlushAt = Date.now();
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+  let chain: Promise<void> = Promise.resolve();
+
+  // Writes the pending events (if any) and refreshes the heartbeat, reading back the status so an
+  // explicit cancel is picked up within one flush or heartbeat interval. event_count only moves past
+  // events that were stored; a batch that failed to insert stays at the front of the buffer and is
+  // written at the same start_index on the next sync, so the log never has a hole.
+  // A failed batch is retried with exactly the same events: the insert may have been stored even
+  // though its response was lost, and the retry then hits a unique violation on start_index.
+  let retryBatchSize = 0;
+  const appendPending = async () => {
+    while (buffer.length) {
+      const batch = buffer.slice(0, retryBatchSize || FLUSH_MAX_EVENTS);
+      retryBatchSize = batch.length;
+      const { error: insertError } = await supabase
+        .from("chat_turn_job_events")
+        .insert([{ job_id: id, start_index: eventCount, events: batch }]);
+      if (insertError && insertError.code !== "23505") {
+        console.warn("[chat-turn-job] Failed to append events:", insertError.message);
+        return;
+      }
+      retryBatchSize = 0;
+      buffer = buffer.slice(batch.length);
+      eventCount += batch.length;
+    }
+  };
+
+  // A sync that hasn't started yet picks up everything pushed before it runs, so one is enough.
+  let syncQueued = false;
+  const sync = () => {
+    lastFlushAt = Date.now();
+    if (syncQueued) return chain;
+    syncQueued = true;
+    chain = chain.then(async () => {
+      syncQueued = false;
+      try {
+        await appendPending();
+      } catch (err) {
+        console.warn("[chat-turn-job] Failed to append events:", err);
+      }
+      try {
+        const { data: row } = await supabase
+          .from("chat_turn_jobs")
+          .update({
+            heartbeat_at: new Date().toISOString(),
+            event_count: eventCount,
+            ...(assistantMessageId ? { assistant_message_id: assistantMessageId } : {}),
+          })
+          .eq("id", id)
+          .select("status")
+          .maybeSingle();
+        if (row?.status === "cancelled" && !cancelled) {
+          cancelled = true;
+          params.onCancel();
+        }
+      } catch (err) {
+        console.warn("[chat-turn-job] Failed to sync job:", err);
+      }
+    });
+    return chain;
+  };
+
+  const heartbeat = setInterval(() => {
+    void sync();
+  }, HEARTBEAT_INTERVAL_MS);
+
+  return {
+    id,
+    get cancelled() {
+      return cancelled;
+    },
+    push(event: Record<string, unknown>) {
+      buffer.push(event);
+      if (buffer.length >= FLUSH_MAX_EVENTS || Date.now() - lastFlushAt >= FLUSH_INTERVAL_MS) {
+        if (flushTimer) {
+          clearTimeout(flushTimer);
+          flushTimer = null;
+        }
+        void sync();
+      } else if (!flushTimer) {
+        flushTimer = setTimeout(() => {
+          flushTimer = null;
+          void sync();
+        }, FLUSH_INTERVAL_MS);
+      }
+    },
+    setAssistantMessageId(messageId: string) {
+      assistantMessageId = messageId;
+    },
+    /** Flushes what's left and records the outcome. A job cancelled meanwhile stays cancelled. */
+    async finish(status: Exclude<ChatTurnJobStatus, "running">, errorMessage?: string | null) {
+      clearInterval(heartbeat);
+      if (flushTimer) {
+        clearTimeout(flushTimer);
+        flushTimer = null;
+      }
+      await sync();
+      const { error: finishError } = await supabase
+        .from("chat_turn_jobs")
+        .update({
+          status,
+          error: errorMessage ?? null,
+          finished_at: new Date().toISOString(),
+          heartbeat_at: new Date().toISOString(),
+        })
+        .eq("id", id)
+        .eq("status", "running");
+      if (finishError) {
+        console.warn("[chat-turn-job] Failed to finish job:", finishError.message);
+      }
+    },
+  };
+}
+
+export async function getChatTurnJob(supabase: any, jobId: string): Promise<ChatTurnJob | null> {
+  const { data, error } = await supabase.from("chat_turn_jobs").select("*").eq("id", jobId).maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load chat turn job: ${error.message}`);
+  }
+  return data ? mapChatTurnJobRow(data) : null;
+}
+
+/** The turn that streamed an assistant message: the id stamped on the placeholder, else a lookup. */
+export async function findChatTurnJobForMessage(supabase: any, messageId: string): Promise<ChatTurnJob | null> {
+  const { data: message, error: messageError } = await supabase
+    .from("messages")
+    .select("id, metadata")
+    .eq("id", messageId)
+    .maybeSingle();
+  if (messageError) {
+    throw new Error(`Failed to load message: ${messageError.message}`);
+  }
+  if (!message) return null;
+  const stampedJobId =
+    message.metadata && typeof message.metadata === "object" ? (message.metadata as any).turnJobId : null;
+  if (typeof stampedJobId === "string" && stampedJobId) {
+    return getChatTurnJob(supabase, stampedJobId);
+  }
+  const { data, error } = await supabase
+    .from("chat_turn_jobs")
+    .select("*")
+    .eq("assistant_message_id", messageId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load chat turn job: ${error.message}`);
+  }
+  return data ? mapChatTurnJobRow(data) : null;
+}
+
+/** Events logged for a job from `fromIndex` on, in stream order. */
+export async function readChatTurnEvents(supabase: any, jobId: string, fromIndex: number) {
+  const { data, error } = await supabase
+    .from("chat_turn_job_events")
+    .select("start_index, events")
+    .eq("job_id", jobId)
+    // A batch holds at most FLUSH_MAX_EVENTS events, so older ones can't reach fromIndex.
+    .gt("start_index", fromIndex - FLUSH_MAX_EVENTS)
+    .order("start_index", { ascending: true });
+  if (error) {
+    throw new Error(`Failed to load chat turn events: ${error.message}`);
+  }
+  const events: Record<string, unknown>[] = [];
+  let nextIndex = fromIndex;
+  for (const row of (data as Array<{ start_index: number; events: unknown }> | null) ?? []) {
+    const batch = Array.isArray(row.events) ? (row.events as Record<string, unknown>[]) : [];
+    const end = row.start_index + batch.length;
+    // Batches are contiguous; stop at a gap so an out-of-order flush isn't skipped over.
+    if (row.start_index > nextIndex) break;
+    if (end <= nextIndex) continue;
+    events.push(...batch.slice(nextIndex - row.start_index));
+    nextIndex = end;
+  }
+  return { events, nextIndex };
+}
+
+export async function cancelChatTurnJob(supabase: any, jobId: string) {
+  const { data, error } = await supabase
+    .from("chat_turn_jobs")
+    .update({ status: "cancelled", finished_at: new Date().toISOString() })
+    .eq("id", jobId)
+    .eq("status", "running")
+    .select("*")
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to cancel chat turn job: ${error.message}`);
+  }
+  return data ? mapChatTurnJobRow(data) : null;
+}
+
+/**
+ * NDJSON replay of a job's events from `offset`, following the log while the turn is running. Ends
+ * with the turn's own `done`, or a synthetic error + done when it was cancelled or died; a replay
+ * that hits REPLAY_MAX_TAIL_MS ends with `{ job: { reconnect: true, offset } }` instead. `job` lines
+ * are not turn events and don't count towards the client's offset.
+ */
+export function createChatTurnReplayStream(
+  supabase: any,
+  jobId: string,
+  options: { offset: number; signal: AbortSignal }
+) {
+  const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+  return new ReadableStream({
+    async start(controller) {
+      const encoder = new TextEncoder();
+      const enqueueJson = (payload: Record<string, unknown>) => {
+        controller.enqueue(encoder.encode(`${JSON.stringify(payload)}\n`));
+      };
+      const startedAt = Date.now();
+      let nextIndex = Math.max(0, options.offset);
+      let sawDone = false;
+      const drain = async () => {
+        const batch = await readChatTurnEvents(supabase, jobId, nextIndex);
+        nextIndex = batch.nextIndex;
+        for (const event of batch.events) {
+          if (event.done) sawDone = true;
+          enqueueJson(event);
+        }
+      };
+      try {
+        while (!options.signal.aborted) {
+          await drain();
+          if (sawDone) break;
+
+          const current = await getChatTurnJob(supabase, jobId);
+          if (!current) break;
+          if (current.status !== "running" || isChatTurnJobStale(current)) {
+            // Pick up events flushed between the last read and the status change.
+            await drain();
+            if (isChatTurnJobStale(current)) await failStaleChatTurnJob(supabase, current);
+            if (!sawDone) {
+              enqueueJson({ error: current.status === "cancelled" ? "turn_cancelled" : "turn_interrupted" });
+              enqueueJson({ done: true });
+            }
+            break;
+          }
+          if (Date.now() - startedAt > REPLAY_MAX_TAIL_MS) {
+            enqueueJson({ job: { id: jobId, reconnect: true, offset: nextIndex } });
+            break;
+          }
+          await sleep(REPLAY_POLL_INTERVAL_MS);
+        }
+      } catch (error) {
+        console.error("[chat-turn-job] Replay failed:", error);
+        enqueueJson({ job: { id: jobId, error: "replay_failed", offset: nextIndex } });
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // ignore
+        }
+      }
+    },
+  });
+}
+
+export function parseReplayOffset(value: string | null) {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : 0;
+}
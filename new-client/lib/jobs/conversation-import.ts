@@ -0,0 +1,168 @@
+import { runWriterRouter } from "@/lib/router/write-router";
+import { estimateTokens } from "@/lib/tokens/estimateTokens";
+import { sanitizeTopicMessageContent } from "@/lib/topics/messageSanitizer";
+
+import {
+  enqueueBackgroundJob,
+  saveBackgroundJobCheckpoint,
+  type BackgroundJob,
+  type BackgroundJobHandler,
+} from "./queue";
+
+// Topic rebuilds for imported chats. The import saves messages in the request and queues one job
+// per chat without topics; the job replays a sample of the chat's exchanges through the writer
+// router on the background worker, so a large import doesn't spend its request on model calls.
+
+export const IMPORT_REBUILD_TOPICS_JOB = "import.rebuild_topics";
+
+// Writer-router calls per imported chat: one to create the topic, the rest refresh its summary.
+const MAX_TOPIC_REBUILD_CALLS = 5;
+
+export type ImportRebuildTopicsPayload = {
+  userId: string;
+  conversationId: string;
+};
+
+type RebuiltTopic = { id: string; label: string; summary: string | null; description: string | null };
+
+type RebuildCheckpoint = {
+  topic?: RebuiltTopic;
+  // Exchange indexes already replayed through the writer router.
+  replayed?: number[];
+};
+
+type ImportedMessage = { id: string; role: string; content: string };
+
+export async function enqueueImportTopicRebuild(supabase: any, payload: ImportRebuildTopicsPayload) {
+  return enqueueBackgroundJob(supabase, { kind: IMPORT_REBUILD_TOPICS_JOB, payload, maxAttempts: 3 });
+}
+
+async function loadImportedMessages(supabase: any, payload: ImportRebuildTopicsPayload): Promise<ImportedMessage[]> {
+  const { data, error } = await supabase
+    .from("messages")
+    .select("id, role, content")
+    .eq("conversation_id", payload.conversationId)
+    .eq("user_id", payload.userId)
+    .order("created_at", { ascending: true });
+  if (error) {
+    throw new Error(`Failed to load imported messages: ${error.message}`);
+  }
+  return ((data as ImportedMessage[] | null) ?? []).map((m) => ({ ...m, content: m.content ?? "" }));
+}
+
+/**
+ * Rebuilds a topic for an imported chat by replaying a sample of its exchanges through the
+ * writer router: the first exchange creates the topic, later ones refresh summary/description.
+ * Memory, permanent-instruction and artifact writes from the router are ignored for imports.
+ * The topic and the replayed exchanges are checkpointed, so a retry continues where it stopped.
+ */
+async function runImportRebuildTopicsJob(supabase: any, job: BackgroundJob<ImportRebuildTopicsPayload>) {
+  const { userId, conversationId } = job.payload;
+  const messages = await loadImportedMessages(supabase, job.payload);
+
+  const exchanges: Array<{ user: string; assistant: string | null; index: number }> = [];
+  messages.forEach((message, index) => {
+    if (message.role !== "user") return;
+    const reply = messages.slice(index + 1).find((m) => m.role === "assistant" || m.role === "user");
+    exchanges.push({
+      user: message.content,
+      assistant: reply?.role === "assistant" ? reply.content : null,
+      index,
+    });
+  });
+  if (!exchanges.length) return;
+
+  const sampleCount = Math.min(MAX_TOPIC_REBUILD_CALLS, exchanges.length);
+  const sampledIdx = new Set<number>([0]);
+  for (let i = 1; i < sampleCount; i++) {
+    sampledIdx.add(Math.round((i * (exchanges.length - 1)) / Math.max(sampleCount - 1, 1)));
+  }
+
+  const checkpoint = job.checkpoint as RebuildCheckpoint;
+  let topic: RebuiltTopic | null = checkpoint.topic ?? null;
+  const replayed = new Set<number>(Array.isArray(checkpoint.replayed) ? checkpoint.replayed : []);
+
+  for (const idx of Array.from(sampledIdx).sort((a, b) => a - b)) {
+    if (replayed.has(idx)) continue;
+    const exchange = exchanges[idx];
+    const recentMessages = messages
+      .slice(Math.max(0, exchange.index - 6), exchange.index)
+      .map((m) => ({ role: m.role as "user" | "assistant" | "system", content: m.content }));
+    const writer = await runWriterRouter(
+      {
+        userMessageText: exchange.user,
+        assistantMessageText: exchange.assistant,
+        recentMessages,
+        topics: topic ? [topic] : [],
+        currentTopic: {
+          id: topic?.id ?? null,
+          label: topic?.label ?? null,
+          summary: topic?.summary ?? null,
+          description: topic?.description ?? null,
+        },
+      },
+      topic ? "continue_active" : "new",
+      { allowLLM: true, userId, conversationId }
+    );
+    const write = writer.topicWrite;
+    if (!topic) {
+      const label = (write.label || exchange.user.replace(/\s+/g, " ").trim().slice(0, 60) || "Imported chat").slice(0, 120);
+      const { data: inserted, error } = await supabase
+        .from("conversation_topics")
+        .insert([
+          {
+            conversation_id: conversationId,
+            label,
+            summary: write.summary?.slice(0, 500) ?? null,
+            description: write.description?.slice(0, 500) ?? null,
+          },
+        ])
+        .select()
+        .single();
+      if (error || !inserted) {
+        throw new Error(`Failed to create topic: ${error?.message ?? "no row returned"}`);
+      }
+      topic = { id: inserted.id, label, summary: inserted.summary ?? null, description: inserted.description ?? null };
+    } else if (write.action === "update" && (write.summary || write.description)) {
+      const update: Record<string, string> = {};
+      if (write.summary) update.summary = write.summary.slice(0, 500);
+      if (write.description) update.description = write.description.slice(0, 500);
+      const { error } = await supabase.from("conversation_topics").update(update).eq("id", topic.id);
+      if (error) {
+        console.warn("[import] Failed to refresh topic summary:", error);
+      } else {
+        topic = {
+          id: topic.id,
+          label: topic.label,
+          summary: update.summary ?? topic.summary,
+          description: update.description ?? topic.description,
+        };
+      }
+    }
+    replayed.add(idx);
+    await saveBackgroundJobCheckpoint(supabase, job.id, { topic, replayed: Array.from(replayed) });
+  }
+
+  if (!topic) return;
+  const tokenEstimate = messages.reduce(
+    (sum, m) => sum + estimateTokens(sanitizeTopicMessageContent(m as any)),
+    0
+  );
+  await supabase
+    .from("conversation_topics")
+    .update({ token_estimate: tokenEstimate, updated_at: new Date().toISOString() })
+    .eq("id", topic.id);
+  const { error: assignError } = await supabase
+    .from("messages")
+    .update({ topic_id: topic.id })
+    .eq("conversation_id", conversationId)
+    .eq("user_id", userId);
+  if (assignError) {
+    throw new Error(`Failed to assign messages to rebuilt topic: ${assignError.message}`);
+  }
+  console.log(`[import] Rebuilt topic ${topic.id} for imported conversation ${conversationId}`);
+}
+
+export const conversationImportHandlers: Record<string, BackgroundJobHandler> = {
+  [IMPORT_REBUILD_TOPICS_JOB]: runImportRebuildTopicsJob,
+};
@@ -0,0 +1,96 @@
+import { embedTexts } from "@/lib/semantic/topicSimilarity";
+
+import { enqueueBackgroundJobOnce, type BackgroundJob, type BackgroundJobHandler } from "./queue";
+
+// Embedding backfill for message search. Messages are embedded lazily, newest first, a batch per
+// job so old accounts converge without a migration; keyword search covers anything not embedded
+// yet. Searches queue the job (at most one waits per user) and a full batch queues the next one,
+// starting below the batch it just read. Paging by cursor keeps rows that can't be embedded from
+// filling every batch; they are tried again on the next pass a search starts.
+
+export const MESSAGE_EMBEDDING_BACKFILL_JOB = "search.embed_messages";
+
+const MAX_EMBEDDING_BACKFILL = 64;
+const EMBEDDING_TEXT_MAX_CHARS = 4000;
+
+export type MessageEmbeddingBackfillPayload = {
+  userId: string;
+  // Resume below this message (newest-first order); absent for a pass from the newest message.
+  before?: { createdAt: string; id: string };
+};
+
+export async function enqueueMessageEmbeddingBackfill(
+  supabase: any,
+  userId: string,
+  before?: MessageEmbeddingBackfillPayload["before"]
+) {
+  const payload: MessageEmbeddingBackfillPayload = before ? { userId, before } : { userId };
+  return enqueueBackgroundJobOnce(supabase, {
+    kind: MESSAGE_EMBEDDING_BACKFILL_JOB,
+    payload,
+    dedupeKey: `${MESSAGE_EMBEDDING_BACKFILL_JOB}:${userId}`,
+    maxAttempts: 3,
+  });
+}
+
+/** Embeds the next batch, newest first, of the user's messages that have no embedding yet. */
+async function runMessageEmbeddingBackfillJob(supabase: any, job: BackgroundJob<MessageEmbeddingBackfillPayload>) {
+  const { userId, before } = job.payload;
+  let query = supabase
+    .from("messages")
+    .select("id, content, created_at")
+    .eq("user_id", userId)
+    .is("embedding_raw", null)
+    .not("content", "is", null)
+    .neq("content", "")
+    .in("role", ["user", "assistant"]);
+  if (before) {
+    const createdAt = `"${before.createdAt}"`;
+    query = query.or(`created_at.lt.${createdAt},and(created_at.eq.${createdAt},id.lt.${before.id})`);
+  }
+  const { data, error } = await query
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(MAX_EMBEDDING_BACKFILL);
+  if (error) {
+    throw new Error(`Failed to load messages for embedding backfill: ${error.message}`);
+  }
+  const loaded = (data ?? []) as Array<{ id: string; content: string | null; created_at: string }>;
+  const last = loaded[loaded.length - 1];
+  const queueNextBatch = async () => {
+    if (loaded.length === MAX_EMBEDDING_BACKFILL) {
+      await enqueueMessageEmbeddingBackfill(supabase, userId, { createdAt: last.created_at, id: last.id });
+    }
+  };
+  const rows = loaded.filter((row) => typeof row.content === "string" && row.content.trim().length > 0);
+  if (!rows.length) {
+    await queueNextBatch();
+    return;
+  }
+
+  const embeddings = await embedTexts(
+    rows.map((row) => row.content!.slice(0, EMBEDDING_TEXT_MAX_CHARS)),
+    { userId, source: "message-search-backfill" }
+  );
+  if (!embeddings) {
+    console.warn(`[message-search] Embeddings unavailable; skipping backfill for ${userId}`);
+    return;
+  }
+
+  const updates = rows
+    .map((row, i) => ({ id: row.id, embedding: embeddings[i] }))
+    .filter((row) => row.embedding?.length);
+  const { error: storeError } = await supabase.rpc("store_message_embeddings", {
+    p_user_id: userId,
+    p_rows: updates,
+  });
+  if (storeError) {
+    throw new Error(`Failed to store message embeddings: ${storeError.message}`);
+  }
+
+  await queueNextBatch();
+}
+
+export const messageEmbeddingHandlers: Record<string, BackgroundJobHandler> = {
+  [MESSAGE_EMBEDDING_BACKFILL_JOB]: runMessageEmbeddingBackfillJob,
+};
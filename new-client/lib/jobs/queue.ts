@@ -0,0 +1,166 @@
+// Postgres-backed background queue. Jobs are rows in background_jobs; workers claim them through
+// the claim_background_jobs RPC (for update skip locked), run the handler registered for the job's
+// kind and mark it succeeded, or schedule a retry with exponential backoff. Handlers that need to
+// resume a partly done attempt save progress with saveBackgroundJobCheckpoint; the next attempt
+// sees it as job.checkpoint. Only the service-role client can read or write the table.
+
+const BASE_BACKOFF_SECONDS = 30;
+const MAX_BACKOFF_SECONDS = 60 * 60;
+const ERROR_LIMIT = 2000;
+
+export type BackgroundJob<TPayload = Record<string, unknown>> = {
+  id: string;
+  kind: string;
+  payload: TPayload;
+  attempts: number;
+  maxAttempts: number;
+  checkpoint: Record<string, unknown>;
+};
+
+export type BackgroundJobHandler = (supabase: any, job: BackgroundJob<any>) => Promise<void>;
+
+function mapJobRow(row: any): BackgroundJob {
+  return {
+    id: row.id,
+    kind: row.kind,
+    payload: row.payload && typeof row.payload === "object" ? row.payload : {},
+    attempts: Number(row.attempts) || 0,
+    maxAttempts: Number(row.max_attempts) || 1,
+    checkpoint:
+      row.checkpoint && typeof row.checkpoint === "object" && !Array.isArray(row.checkpoint) ? row.checkpoint : {},
+  };
+}
+
+export function backoffSeconds(attempts: number) {
+  return Math.min(BASE_BACKOFF_SECONDS * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_SECONDS);
+}
+
+export async function enqueueBackgroundJob(
+  supabase: any,
+  params: { kind: string; payload: Record<string, unknown>; maxAttempts?: number; runAfter?: Date }
+): Promise<string> {
+  const { data, error } = await supabase
+    .from("background_jobs")
+    .insert([
+      {
+        kind: params.kind,
+        payload: params.payload,
+        ...(params.maxAttempts ? { max_attempts: params.maxAttempts } : {}),
+        ...(params.runAfter ? { run_after: params.runAfter.toISOString() } : {}),
+      },
+    ])
+    .select("id")
+    .maybeSingle();
+  if (error || !data) {
+    throw new Error(`Failed to enqueue ${params.kind} job: ${error?.message ?? "no row returned"}`);
+  }
+  return data.id as string;
+}
+
+/**
+ * Like enqueueBackgroundJob, but a no-op (returning null) while a job with the same dedupe key is
+ * still queued. For work where one pending run covers every request for it.
+ */
+export async function enqueueBackgroundJobOnce(
+  supabase: any,
+  params: { kind: string; payload: Record<string, unknown>; dedupeKey: string; maxAttempts?: number }
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("background_jobs")
+    .insert([
+      {
+        kind: params.kind,
+        payload: params.payload,
+        dedupe_key: params.dedupeKey,
+        ...(params.maxAttempts ? { max_attempts: params.maxAttempts } : {}),
+      },
+    ])
+    .select("id")
+    .maybeSingle();
+  if (error?.code === "23505") return null;
+  if (error || !data) {
+    throw new Error(`Failed to enqueue ${params.kind} job: ${error?.message ?? "no row returned"}`);
+  }
+  return data.id as string;
+}
+
+export async function claimBackgroundJobs(supabase: any, workerId: string, limit: number) {
+  const { data, error } = await supabase.rpc("claim_background_jobs", {
+    p_worker: workerId,
+    p_limit: limit,
+  });
+  if (error) {
+    throw new Error(`Failed to claim background jobs: ${error.message}`);
+  }
+  return ((data as any[] | null) ?? []).map(mapJobRow);
+}
+
+/** Replaces the job's checkpoint; only the worker holding the job's lock calls this. */
+export async function saveBackgroundJobCheckpoint(
+  supabase: any,
+  jobId: string,
+  checkpoint: Record<string, unknown>
+) {
+  const { error } = await supabase
+    .from("background_jobs")
+    .update({ checkpoint, updated_at: new Date().toISOString() })
+    .eq("id", jobId);
+  if (error) {
+    throw new Error(`Failed to save background job checkpoint: ${error.message}`);
+  }
+}
+
+export async function completeBackgroundJob(supabase: any, jobId: string) {
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from("background_jobs")
+    .update({ status: "succeeded", locked_at: null, locked_by: null, updated_at: now, finished_at: now })
+    .eq("id", jobId);
+  if (error) {
+    throw new Error(`Failed to complete background job: ${error.message}`);
+  }
+}
+
+/**
+ * Requeues the job after a backoff, or marks it failed once it has used all of its attempts. A
+ * retry of a deduplicated job that finds an identical job already queued is marked failed
+ * instead, since the queued one does the same work.
+ */
+export async function failBackgroundJob(supabase: any, job: BackgroundJob, reason: string) {
+  const now = new Date();
+  const markFailed = async (lastError: string) =>
+    supabase
+      .from("background_jobs")
+      .update({
+        status: "failed",
+        last_error: lastError.slice(0, ERROR_LIMIT),
+        locked_at: null,
+        locked_by: null,
+        updated_at: now.toISOString(),
+        finished_at: now.toISOString(),
+      })
+      .eq("id", job.id);
+
+  const exhausted = job.attempts >= job.maxAttempts;
+  let { error } = exhausted
+    ? await markFailed(reason)
+    : await supabase
+        .from("background_jobs")
+        .update({
+          status: "queued",
+          last_error: reason.slice(0, ERROR_LIMIT),
+          locked_at: null,
+          locked_by: null,
+          updated_at: now.toISOString(),
+          run_after: new Date(now.getTime() + backoffSeconds(job.attempts) * 1000).toISOString(),
+        })
+        .eq("id", job.id);
+  if (!exhausted && error?.code === "23505") {
+    ({ error } = await markFailed(`Superseded by an identical queued job after: ${reason}`));
+    if (!error) return true;
+  }
+  if (error) {
+    throw new Error(`Failed to record background job failure: ${error.message}`);
+  }
+  return exhausted;
+}
@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { failBackgroundJob, type BackgroundJob } from "./queue";
+import { runBackgroundJobs } from "./worker";
+
+const handlers = vi.hoisted(() => ({ run: vi.fn() }));
+
+vi.mock("./chat-post-response", () => ({ chatPostResponseHandlers: { "test.job": handlers.run } }));
+vi.mock("./conversation-import", () => ({ conversationImportHandlers: {} }));
+vi.mock("./message-embeddings", () => ({ messageEmbeddingHandlers: {} }));
+
+type Update = { id: string; patch: Record<string, any> };
+
+/**
+ * background_jobs stand-in. `queued` updates for ids in `duplicates` fail with the dedupe index's
+ * unique violation; updates for ids in `broken` fail outright.
+ */
+function fakeSupabase(options: { jobs?: any[]; duplicates?: string[]; broken?: string[] } = {}) {
+  const updates: Update[] = [];
+  let claims = 0;
+  return {
+    updates,
+    rpc: async () => ({ data: claims++ === 0 ? options.jobs ?? [] : [], error: null }),
+    from: () => ({
+      update: (patch: Record<string, any>) => ({
+        eq: async (_column: string, id: string) => {
+          if (options.broken?.includes(id)) return { error: { message: "connection reset" } };
+          if (patch.status === "queued" && options.duplicates?.includes(id)) {
+            return { error: { code: "23505", message: "duplicate key value violates unique constraint" } };
+          }
+          updates.push({ id, patch });
+          return { error: null };
+        },
+      }),
+    }),
+  };
+}
+
+function job(id: string, attempts = 1): BackgroundJob {
+  return { id, kind: "test.job", payload: {}, attempts, maxAttempts: 3, checkpoint: {} };
+}
+
+function row(id: string, attempts = 1) {
+  return { id, kind: "test.job", payload: {}, attempts, max_attempts: 3, checkpoint: {} };
+}
+
+beforeEach(() => {
+  handlers.run.mockReset();
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+describe("failBackgroundJob", () => {
+  it("requeues a job with attempts left", async () => {
+    const supabase = fakeSupabase();
+    expect(await failBackgroundJob(supabase, job("a"), "boom")).toBe(false);
+    expect(supabase.updates[0].patch).toMatchObject({ status: "queued", last_error: "boom" });
+  });
+
+  it("fails a retry that an identical queued job supersedes", async () => {
+    const supabase = fakeSupabase({ duplicates: ["a"] });
+    expect(await failBackgroundJob(supabase, job("a"), "boom")).toBe(true);
+    expect(supabase.updates).toHaveLength(1);
+    expect(supabase.updates[0].patch.status).toBe("failed");
+    expect(supabase.updates[0].patch.last_error).toMatch(/^Superseded by an identical queued job/);
+  });
+
+  it("fails a job on its last attempt", async () => {
+    const supabase = fakeSupabase();
+    expect(await failBackgroundJob(supabase, job("a", 3), "boom")).toBe(true);
+    expect(supabase.updates[0].patch.status).toBe("failed");
+  });
+});
+
+describe("runBackgroundJobs", () => {
+  it("keeps running the batch when a failure can't be recorded", async () => {
+    handlers.run.mockImplementation(async (_supabase: unknown, current: BackgroundJob) => {
+      if (current.id !== "c") throw new Error("handler failed");
+    });
+    const supabase = fakeSupabase({ jobs: [row("a"), row("b"), row("c")], duplicates: ["b"], broken: ["a"] });
+
+    const result = await runBackgroundJobs(supabase, { workerId: "test" });
+
+    expect(result).toEqual({ claimed: 3, succeeded: 1, retried: 0, failed: 1 });
+    expect(supabase.updates.map((u) => [u.id, u.patch.status])).toEqual([
+      ["b", "failed"],
+      ["c", "succeeded"],
+    ]);
+  });
+});
@@ -0,0 +1,76 @@
+import { chatPostResponseHandlers } from "./chat-post-response";
+import { conversationImportHandlers } from "./conversation-import";
+import { messageEmbeddingHandlers } from "./message-embeddings";
+import {
+  claimBackgroundJobs,
+  completeBackgroundJob,
+  failBackgroundJob,
+  type BackgroundJobHandler,
+} from "./queue";
+
+const DEFAULT_BATCH_SIZE = 5;
+
+const handlers: Record<string, BackgroundJobHandler> = {
+  ...chatPostResponseHandlers,
+  ...conversationImportHandlers,
+  ...messageEmbeddingHandlers,
+};
+
+export type BackgroundWorkerResult = {
+  claimed: number;
+  succeeded: number;
+  retried: number;
+  failed: number;
+};
+
+/**
+ * Claims and runs ready jobs until the queue is drained or `maxJobs` have been handled. Called by
+ * the cron route, after each chat turn, and by the local worker script; any number of these can
+ * run side by side.
+ */
+export async function runBackgroundJobs(
+  supabase: any,
+  options: { workerId: string; maxJobs?: number; batchSize?: number }
+): Promise<BackgroundWorkerResult> {
+  const result: BackgroundWorkerResult = { claimed: 0, succeeded: 0, retried: 0, failed: 0 };
+  const maxJobs = options.maxJobs ?? Number.POSITIVE_INFINITY;
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+
+  while (result.claimed < maxJobs) {
+    const jobs = await claimBackgroundJobs(supabase, options.workerId, Math.min(batchSize, maxJobs - result.claimed));
+    if (jobs.length === 0) break;
+    result.claimed += jobs.length;
+
+    for (const job of jobs) {
+      const handler = handlers[job.kind];
+      try {
+        if (!handler) {
+          throw new Error(`No handler registered for job kind "${job.kind}"`);
+        }
+        if (job.attempts > job.maxAttempts) {
+          throw new Error("Job was abandoned by its worker after its final attempt");
+        }
+        await handler(supabase, job);
+        await completeBackgroundJob(supabase, job.id);
+        result.succeeded += 1;
+      } catch (err) {
+        const reason = err instanceof Error ? err.message : String(err);
+        console.error(`[jobs] ${job.kind} ${job.id} attempt ${job.attempts} failed:`, reason);
+        try {
+          const exhausted = await failBackgroundJob(supabase, job, reason);
+          if (exhausted) {
+            result.failed += 1;
+          } else {
+            result.retried += 1;
+          }
+        } catch (recordError) {
+          // The job stays locked until its lock expires and it is claimed again; the rest of the
+          // batch still runs.
+          console.error(`[jobs] ${job.kind} ${job.id} failure could not be recorded:`, recordError);
+        }
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,113 @@
+import { readFileSync } from "fs";
+
+import defaultFixture from "./fixture-data.json";
+import type { MarketDataAdapter, MarketNewsItem, MarketQuote } from "./types";
+
+// Deterministic quotes and headlines for local runs. Prices follow a smooth per-symbol wave around
+// the fixture's previous close, so consecutive runs see movement without any network access.
+// Point MARKET_DATA_FIXTURE_PATH at a JSON file with the same shape to swap the data set.
+
+type FixtureQuote = { previousClose: number; volatility?: number; volume?: number | null };
+type FixtureNews = { symbols: string[]; headline: string; source?: string; url?: string | null; summary?: string | null };
+type FixtureData = { quotes: Record<string, FixtureQuote>; news: FixtureNews[] };
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 86_400_000;
+const DEFAULT_VOLATILITY = 0.015;
+
+function loadFixture(): FixtureData {
+  const path = process.env.MARKET_DATA_FIXTURE_PATH;
+  if (!path) return defaultFixture as FixtureData;
+  return JSON.parse(readFileSync(path, "utf-8")) as FixtureData;
+}
+
+// Stable 0..1 value per symbol.
+function hashUnit(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i += 1) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return (hash >>> 0) / 0xffffffff;
+}
+
+function round(value: number, digits = 2) {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function fixtureQuote(data: FixtureData, symbol: string): FixtureQuote {
+  // Symbols missing from the fixture still get a plausible, stable quote.
+  return data.quotes[symbol] ?? { previousClose: round(20 + hashUnit(symbol) * 480), volume: null };
+}
+
+function priceAt(symbol: string, base: FixtureQuote, ms: number): number {
+  const minute = Math.floor(ms / MINUTE_MS);
+  const phase = hashUnit(symbol) * Math.PI * 2;
+  const volatility = base.volatility ?? DEFAULT_VOLATILITY;
+  const wave = (Math.sin(minute / 97 + phase) + 0.5 * Math.sin(minute / 23 + 2 * phase)) / 1.5;
+  return base.previousClose * (1 + volatility * wave);
+}
+
+export function createFixtureMarketDataAdapter(): MarketDataAdapter {
+  const data = loadFixture();
+
+  return {
+    id: "fixture",
+    async getQuotes(symbols, now) {
+      const nowMs = now.getTime();
+      const dayStart = Math.floor(nowMs / DAY_MS) * DAY_MS;
+      return symbols.map((symbol): MarketQuote => {
+        const base = fixtureQuote(data, symbol);
+        const price = priceAt(symbol, base, nowMs);
+        let dayHigh = price;
+        let dayLow = price;
+        for (let t = dayStart; t < nowMs; t += 15 * MINUTE_MS) {
+          const sample = priceAt(symbol, base, t);
+          dayHigh = Math.max(dayHigh, sample);
+          dayLow = Math.min(dayLow, sample);
+        }
+        const change = price - base.previousClose;
+        return {
+          symbol,
+          price: round(price),
+          previousClose: base.previousClose,
+          change: round(change),
+          changePct: round((change / base.previousClose) * 100),
+          dayHigh: round(dayHigh),
+          dayLow: round(dayLow),
+          volume: base.volume ?? null,
+          asOf: now.toISOString(),
+        };
+      });
+    },
+    async getNews(symbols, { since, limit, now }) {
+      // Each headline is "published" once a day at a fixed slot, so runs only see items
+      // that landed since the previous report.
+      const wanted = new Set(symbols);
+      const nowMs = now.getTime();
+      const dayStart = Math.floor(nowMs / DAY_MS) * DAY_MS;
+      const slot = DAY_MS / Math.max(data.news.length, 1);
+      const items: MarketNewsItem[] = [];
+      for (const dayOffset of [0, 1]) {
+        const day = dayStart - dayOffset * DAY_MS;
+        data.news.forEach((item, idx) => {
+          const published = day + idx * slot;
+          if (published > nowMs || (since && published <= since.getTime())) return;
+          const matched = item.symbols.filter((symbol) => wanted.has(symbol));
+          if (!matched.length) return;
+          items.push({
+            id: `fixture-${new Date(day).toISOString().slice(0, 10)}-${idx}`,
+            symbols: matched,
+            headline: item.headline,
+            source: item.source ?? "Fixture",
+            url: item.url ?? null,
+            publishedAt: new Date(published).toISOString(),
+            summary: item.summary ?? null,
+          });
+        });
+      }
+      return items.sort((a, b) => b.publishedAt.localeCompare(a.publishedAt)).slice(0, limit);
+    },
+  };
+}
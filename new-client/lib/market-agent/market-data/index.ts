@@ -0,0 +1,17 @@
+import { createFixtureMarketDataAdapter } from "./fixture";
+import type { MarketDataAdapter } from "./types";
+
+export type { MarketDataAdapter, MarketNewsItem, MarketQuote } from "./types";
+
+// Adapters by id. MARKET_DATA_ADAPTER selects one; live vendors register here alongside the fixture.
+const ADAPTERS: Record<string, () => MarketDataAdapter> = {
+  fixture: createFixtureMarketDataAdapter,
+};
+
+export function getMarketDataAdapter(id = process.env.MARKET_DATA_ADAPTER || "fixture"): MarketDataAdapter {
+  const factory = ADAPTERS[id];
+  if (!factory) {
+    throw new Error(`Unknown market data adapter "${id}"`);
+  }
+  return factory();
+}
@@ -0,0 +1,31 @@
+export type MarketQuote = {
+  symbol: string;
+  price: number;
+  previousClose: number;
+  change: number;
+  changePct: number;
+  dayHigh: number;
+  dayLow: number;
+  volume: number | null;
+  asOf: string;
+};
+
+export type MarketNewsItem = {
+  id: string;
+  symbols: string[];
+  headline: string;
+  source: string;
+  url: string | null;
+  publishedAt: string;
+  summary?: string | null;
+};
+
+/**
+ * Source of quotes and headlines for the market agent runner. Implementations return whatever
+ * they have for the requested symbols; unknown symbols are simply absent from the result.
+ */
+export interface MarketDataAdapter {
+  id: string;
+  getQuotes(symbols: string[], now: Date): Promise<MarketQuote[]>;
+  getNews(symbols: string[], options: { since: Date | null; limit: number; now: Date }): Promise<MarketNewsItem[]>;
+}
@@ -0,0 +1,257 @@
+import type { MarketAgentReportDepth } from "@/lib/data/market-agent";
+import type { MarketNewsItem, MarketQuote } from "@/lib/market-agent/market-data";
+
+// Turns one run's quotes and headlines into a timeline report, the next agent state and an
+// updated thesis. Pure, so the cron runner only handles I/O.
+
+const SEEN_NEWS_LIMIT = 100;
+const IMPORTANT_MOVE_PCT = 3;
+const CRITICAL_MOVE_PCT = 6;
+const LEVEL_BUFFER = 0.01;
+
+export type KeyLevels = Record<string, { support?: number; resistance?: number }>;
+
+// Shape of market_agent_state.state. assessment/regime/bias/alerts/note are what the chat
+// route summarizes for the model; the rest is bookkeeping for the next run.
+export type MarketAgentRunState = {
+  assessment?: string;
+  regime?: string;
+  bias?: string;
+  alerts?: string[];
+  note?: string;
+  lastRunAt?: string;
+  reportCount?: number;
+  adapter?: string;
+  quotes?: Record<string, { price: number; changePct: number; asOf: string }>;
+  seenNewsIds?: string[];
+};
+
+export type MarketReportInput = {
+  depth: MarketAgentReportDepth;
+  watchlist: string[];
+  quotes: MarketQuote[];
+  news: MarketNewsItem[];
+  previousState: MarketAgentRunState;
+  thesis: { bias: string | null; key_levels: unknown; invalidation: string | null } | null;
+  cadenceSeconds: number;
+  adapterId: string;
+  now: Date;
+};
+
+export type MarketReport = {
+  title: string;
+  summary: string;
+  bodyMd: string;
+  severity: "info" | "important" | "critical";
+  tickers: string[];
+  payload: Record<string, unknown>;
+  state: MarketAgentRunState;
+  thesis: {
+    bias: string;
+    watched: string[];
+    key_levels: KeyLevels;
+    invalidation: string;
+    next_check: string;
+  };
+};
+
+type Mover = MarketQuote & { sinceLastPct: number | null };
+
+function signed(value: number, suffix = "%") {
+  return `${value > 0 ? "+" : ""}${value.toFixed(2)}${suffix}`;
+}
+
+function formatPrice(value: number) {
+  return value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function timeLabel(date: Date) {
+  return `${date.toISOString().slice(11, 16)} UTC`;
+}
+
+function parseKeyLevels(value: unknown): KeyLevels {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  const levels: KeyLevels = {};
+  for (const [symbol, raw] of Object.entries(value as Record<string, unknown>)) {
+    if (!raw || typeof raw !== "object") continue;
+    const { support, resistance } = raw as Record<string, unknown>;
+    levels[symbol] = {
+      ...(typeof support === "number" ? { support } : {}),
+      ...(typeof resistance === "number" ? { resistance } : {}),
+    };
+  }
+  return levels;
+}
+
+function classifyRegime(movers: Mover[]) {
+  const advancing = movers.filter((m) => m.changePct > 0).length;
+  const breadth = movers.length ? advancing / movers.length : 0;
+  const average = movers.length ? movers.reduce((sum, m) => sum + m.changePct, 0) / movers.length : 0;
+  if (breadth >= 0.6 && average > 0.3) return { regime: "risk-on", advancing, average };
+  if (breadth <= 0.4 && average < -0.3) return { regime: "risk-off", advancing, average };
+  return { regime: "range-bound", advancing, average };
+}
+
+function levelAlerts(movers: Mover[], levels: KeyLevels): string[] {
+  const alerts: string[] = [];
+  for (const mover of movers) {
+    const level = levels[mover.symbol];
+    if (!level) continue;
+    if (typeof level.support === "number" && mover.price < level.support) {
+      alerts.push(`${mover.symbol} below support ${formatPrice(level.support)}`);
+    }
+    if (typeof level.resistance === "number" && mover.price > level.resistance) {
+      alerts.push(`${mover.symbol} above resistance ${formatPrice(level.resistance)}`);
+    }
+  }
+  return alerts;
+}
+
+export function buildMarketReport(input: MarketReportInput): MarketReport {
+  const { depth, quotes, news, previousState, now } = input;
+  const previousQuotes = previousState.quotes ?? {};
+  const movers: Mover[] = quotes
+    .map((quote) => {
+      const previous = previousQuotes[quote.symbol];
+      const sinceLastPct = previous?.price ? ((quote.price - previous.price) / previous.price) * 100 : null;
+      return { ...quote, sinceLastPct };
+    })
+    .sort((a, b) => Math.abs(b.changePct) - Math.abs(a.changePct));
+  const missing = input.watchlist.filter((symbol) => !quotes.some((quote) => quote.symbol === symbol));
+
+  const existingLevels = parseKeyLevels(input.thesis?.key_levels);
+  const alerts = levelAlerts(movers, existingLevels);
+  for (const mover of movers) {
+    if (mover.sinceLastPct !== null && Math.abs(mover.sinceLastPct) >= IMPORTANT_MOVE_PCT) {
+      alerts.push(`${mover.symbol} ${signed(mover.sinceLastPct)} since last report`);
+    }
+  }
+  const largestMove = movers.reduce(
+    (max, m) => Math.max(max, Math.abs(m.changePct), Math.abs(m.sinceLastPct ?? 0)),
+    0,
+  );
+  const severity: MarketReport["severity"] =
+    largestMove >= CRITICAL_MOVE_PCT ? "critical" : alerts.length || largestMove >= IMPORTANT_MOVE_PCT ? "important" : "info";
+
+  const { regime, advancing, average } = classifyRegime(movers);
+  const leader = movers[0];
+  const reportNumber = (previousState.reportCount ?? 0) + 1;
+  const title = `Report ${reportNumber}`;
+  const breadthLabel = `${advancing}/${movers.length} up`;
+  const summary = leader
+    ? `${regime[0].toUpperCase()}${regime.slice(1)} tape (${breadthLabel}, avg ${signed(average)}); ${leader.symbol} the biggest mover at ${signed(leader.changePct)}.${alerts.length ? ` ${alerts.length} alert${alerts.length === 1 ? "" : "s"}.` : ""}`
+    : "No quotes available for the watchlist this run.";
+
+  const lines: string[] = [`## ${title} — ${timeLabel(now)}`];
+  const topMovers = movers.slice(0, depth === "short" ? 3 : 5);
+  for (const mover of topMovers) {
+    const since = mover.sinceLastPct !== null ? ` (${signed(mover.sinceLastPct)} since last report)` : "";
+    lines.push(`- ${mover.symbol} ${formatPrice(mover.price)}, ${signed(mover.changePct)} on the day${since}`);
+  }
+  if (alerts.length) {
+    lines.push("", `**Alerts:** ${alerts.join("; ")}`);
+  }
+
+  if (depth !== "short" && movers.length) {
+    lines.push("", "### Watchlist", "| Symbol | Last | Day | Since last | Range |", "| --- | --- | --- | --- | --- |");
+    for (const mover of movers) {
+      lines.push(
+        `| ${mover.symbol} | ${formatPrice(mover.price)} | ${signed(mover.changePct)} | ${
+          mover.sinceLastPct !== null ? signed(mover.sinceLastPct) : "—"
+        } | ${formatPrice(mover.dayLow)}–${formatPrice(mover.dayHigh)} |`,
+      );
+    }
+  }
+
+  const headlines = news.slice(0, depth === "short" ? 2 : depth === "standard" ? 5 : 10);
+  if (headlines.length) {
+    lines.push("", "### Headlines");
+    for (const item of headlines) {
+      const detail = depth === "deep" && item.summary ? ` — ${item.summary}` : "";
+      lines.push(`- [${item.symbols.join(", ")}] ${item.headline} (${item.source})${detail}`);
+    }
+  }
+
+  // Levels carry over from the existing thesis; symbols without levels start just outside
+  // today's range so ordinary intraday noise doesn't trip an alert on the next run.
+  const keyLevels: KeyLevels = {};
+  for (const mover of movers) {
+    keyLevels[mover.symbol] = existingLevels[mover.symbol] ?? {
+      support: Math.round(mover.dayLow * (1 - LEVEL_BUFFER) * 100) / 100,
+      resistance: Math.round(mover.dayHigh * (1 + LEVEL_BUFFER) * 100) / 100,
+    };
+  }
+
+  if (depth === "deep" && movers.length) {
+    lines.push("", "### Levels");
+    for (const mover of movers) {
+      const level = keyLevels[mover.symbol];
+      const range = mover.dayHigh - mover.dayLow;
+      const position = range > 0 ? Math.round(((mover.price - mover.dayLow) / range) * 100) : 50;
+      const parts = [`${position}% of day range`];
+      if (typeof level.support === "number") parts.push(`${signed(((mover.price - level.support) / level.support) * 100)} vs support ${formatPrice(level.support)}`);
+      if (typeof level.resistance === "number") parts.push(`${signed(((mover.price - level.resistance) / level.resistance) * 100)} vs resistance ${formatPrice(level.resistance)}`);
+      lines.push(`- ${mover.symbol}: ${parts.join(", ")}`);
+    }
+    lines.push("", "### Thesis check");
+    lines.push(
+      input.thesis?.bias ? `- Prior bias: ${input.thesis.bias}` : "- No prior bias recorded.",
+      previousState.regime && previousState.regime !== regime
+        ? `- Regime shifted from ${previousState.regime} to ${regime}.`
+        : `- Regime unchanged (${regime}).`,
+      alerts.length ? `- Invalidation watch: ${alerts.join("; ")}.` : "- No key levels breached.",
+    );
+  }
+  if (missing.length) {
+    lines.push("", `_No data for: ${missing.join(", ")}_`);
+  }
+
+  const bias =
+    regime === "risk-on"
+      ? `Constructive: broad strength${leader ? ` led by ${leader.symbol}` : ""}.`
+      : regime === "risk-off"
+        ? `Defensive: broad weakness${leader ? `, ${leader.symbol} the biggest mover` : ""}.`
+        : "Neutral: mixed tape, wait for a break of key levels.";
+  const nextCheck = new Date(now.getTime() + input.cadenceSeconds * 1000);
+  const seenNewsIds = [...news.map((item) => item.id), ...(previousState.seenNewsIds ?? [])].slice(0, SEEN_NEWS_LIMIT);
+
+  return {
+    title,
+    summary,
+    bodyMd: lines.join("\n"),
+    severity,
+    tickers: movers.map((mover) => mover.symbol),
+    payload: {
+      depth,
+      reportNumber,
+      regime,
+      adapter: input.adapterId,
+      movers: topMovers.map((mover) => ({ symbol: mover.symbol, price: mover.price, changePct: mover.changePct })),
+      alerts,
+      newsIds: headlines.map((item) => item.id),
+    },
+    state: {
+      assessment: summary,
+      regime,
+      bias,
+      alerts,
+      note: headlines[0] ? `Latest headline: ${headlines[0].headline}` : previousState.note,
+      lastRunAt: now.toISOString(),
+      reportCount: reportNumber,
+      adapter: input.adapterId,
+      quotes: Object.fromEntries(
+        quotes.map((quote) => [quote.symbol, { price: quote.price, changePct: quote.changePct, asOf: quote.asOf }]),
+      ),
+      seenNewsIds,
+    },
+    thesis: {
+      bias,
+      watched: input.watchlist,
+      key_levels: keyLevels,
+      invalidation:
+        input.thesis?.invalidation ||
+        (regime === "risk-off" ? "Broad reclaim of prior-day highs." : "Close below key support on heavy volume."),
+      next_check: `Next report around ${timeLabel(nextCheck)}`,
+    },
+  };
+}
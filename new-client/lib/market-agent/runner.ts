@@ -0,0 +1,115 @@
+import {
+  getMarketAgentRunContextAdmin,
+  listRunningMarketAgentInstancesAdmin,
+  saveMarketAgentReportAdmin,
+  type MarketAgentInstanceWithWatchlist,
+  type MarketAgentReportDepth,
+} from "@/lib/data/market-agent";
+import type { Json } from "@/lib/supabase/types";
+import { getMarketDataAdapter, type MarketDataAdapter } from "@/lib/market-agent/market-data";
+import { buildMarketReport, type MarketAgentRunState } from "@/lib/market-agent/report";
+
+// Cron ticks are not exact; treat an instance as due slightly early rather than skipping a cycle.
+const DUE_SLACK_MS = 15_000;
+const NEWS_LIMIT = 20;
+
+export type MarketAgentRunResult = {
+  instanceId: string;
+  status: "reported" | "skipped" | "failed";
+  reason?: string;
+  eventId?: string;
+};
+
+function parseState(value: unknown): MarketAgentRunState {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as MarketAgentRunState) : {};
+}
+
+function resolveDepth(value: string | null | undefined): MarketAgentReportDepth {
+  return value === "short" || value === "deep" ? value : "standard";
+}
+
+export function isMarketAgentDue(cadenceSeconds: number, lastRunAt: string | undefined, now: Date): boolean {
+  if (!lastRunAt) return true;
+  const lastMs = new Date(lastRunAt).getTime();
+  if (Number.isNaN(lastMs)) return true;
+  return now.getTime() - lastMs >= cadenceSeconds * 1000 - DUE_SLACK_MS;
+}
+
+export async function runMarketAgentInstance(
+  instance: MarketAgentInstanceWithWatchlist,
+  adapter: MarketDataAdapter,
+  now: Date,
+): Promise<MarketAgentRunResult> {
+  const { state: stateRow, thesis } = await getMarketAgentRunContextAdmin(instance.id);
+  const previousState = parseState(stateRow?.state);
+  if (!isMarketAgentDue(instance.cadence_seconds, previousState.lastRunAt, now)) {
+    return { instanceId: instance.id, status: "skipped", reason: "not_due" };
+  }
+  if (!instance.watchlist.length) {
+    return { instanceId: instance.id, status: "skipped", reason: "empty_watchlist" };
+  }
+
+  const since = previousState.lastRunAt ? new Date(previousState.lastRunAt) : null;
+  const [quotes, news] = await Promise.all([
+    adapter.getQuotes(instance.watchlist, now),
+    adapter.getNews(instance.watchlist, { since, limit: NEWS_LIMIT, now }),
+  ]);
+  const seen = new Set(previousState.seenNewsIds ?? []);
+
+  const report = buildMarketReport({
+    depth: resolveDepth(instance.report_depth),
+    watchlist: instance.watchlist,
+    quotes,
+    news: news.filter((item) => !seen.has(item.id)),
+    previousState,
+    thesis,
+    cadenceSeconds: instance.cadence_seconds,
+    adapterId: adapter.id,
+    now,
+  });
+
+  const event = await saveMarketAgentReportAdmin({
+    instanceId: instance.id,
+    event: {
+      title: report.title,
+      summary: report.summary,
+      bodyMd: report.bodyMd,
+      severity: report.severity,
+      tickers: report.tickers,
+      payload: report.payload as Json,
+    },
+    state: report.state as Json,
+    stateVersion: (stateRow?.state_version ?? 0) + 1,
+    thesis: { ...report.thesis, key_levels: report.thesis.key_levels as Json },
+  });
+
+  return { instanceId: instance.id, status: "reported", eventId: event.id };
+}
+
+/**
+ * One cron tick: report for every running instance whose cadence has elapsed. Instances run one
+ * after another so a slow data source can't fan out into a burst of concurrent requests.
+ */
+export async function runDueMarketAgents(options?: {
+  now?: Date;
+  adapter?: MarketDataAdapter;
+}): Promise<MarketAgentRunResult[]> {
+  const now = options?.now ?? new Date();
+  const adapter = options?.adapter ?? getMarketDataAdapter();
+  const instances = await listRunningMarketAgentInstancesAdmin();
+
+  const results: MarketAgentRunResult[] = [];
+  for (const instance of instances) {
+    try {
+      results.push(await runMarketAgentInstance(instance, adapter, now));
+    } catch (error) {
+      console.error("[market-agent-runner] run failed", { instanceId: instance.id, error });
+      results.push({
+        instanceId: instance.id,
+        status: "failed",
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return results;
+}
@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { MemoryItem } from "./memory";
+import { getRelevantMemories, type RankedMemoryItem } from "./memory-router";
+
+const mocks = vi.hoisted(() => ({
+  fetchMemories: vi.fn(),
+  matchMemoriesByEmbedding: vi.fn(),
+  saveMemoryEmbeddings: vi.fn(),
+  embedTexts: vi.fn(),
+}));
+
+vi.mock("./memory", () => ({
+  fetchMemories: mocks.fetchMemories,
+  matchMemoriesByEmbedding: mocks.matchMemoriesByEmbedding,
+  saveMemoryEmbeddings: mocks.saveMemoryEmbeddings,
+  buildMemoryEmbeddingText: (memory: MemoryItem) => `${memory.title}\n${memory.content}`,
+}));
+
+vi.mock("@/lib/semantic/topicSimilarity", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/semantic/topicSimilarity")>()),
+  embedTexts: mocks.embedTexts,
+}));
+
+const settings = { referenceSavedMemories: true, allowSavingMemory: true };
+const QUERY_EMBEDDING = [1, 0];
+
+function memory(id: string, overrides: Partial<MemoryItem> = {}): MemoryItem {
+  return {
+    id,
+    type: "preference",
+    title: `Memory ${id}`,
+    content: "unrelated",
+    enabled: true,
+    importance: 50,
+    created_at: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+async function rank(query: string, limit = 10) {
+  return (await getRelevantMemories(settings, { types: "all", query, limit }, "user-1")) as RankedMemoryItem[];
+}
+
+describe("getRelevantMemories", () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    mocks.fetchMemories.mockReset().mockResolvedValue([]);
+    mocks.matchMemoriesByEmbedding.mockReset().mockResolvedValue([]);
+    mocks.saveMemoryEmbeddings.mockReset().mockResolvedValue(undefined);
+    mocks.embedTexts.mockReset().mockImplementation(async (texts: string[]) => texts.map(() => QUERY_EMBEDDING));
+  });
+
+  it("loads nothing when saved memories are off", async () => {
+    const result = await getRelevantMemories(
+      { referenceSavedMemories: false, allowSavingMemory: true },
+      { types: "all", query: "anything", limit: 5 },
+      "user-1"
+    );
+    expect(result).toEqual([]);
+    expect(mocks.fetchMemories).not.toHaveBeenCalled();
+  });
+
+  it("falls back to the newest memories without a query", async () => {
+    mocks.fetchMemories.mockResolvedValue([memory("a", { embedding_raw: [1, 0] })]);
+    const result = await getRelevantMemories(settings, { types: ["preference"], limit: 5 }, "user-1");
+    expect(mocks.fetchMemories).toHaveBeenCalledWith({ query: "", types: ["preference"], limit: 5, userId: "user-1" });
+    expect(result.map((m) => m.id)).toEqual(["a"]);
+    expect(result[0]).not.toHaveProperty("embedding_raw");
+  });
+
+  it("blends vector matches, stored and backfilled embeddings and keyword hits", async () => {
+    mocks.matchMemoriesByEmbedding.mockResolvedValue([{ ...memory("vector"), similarity: 0.9 }]);
+    mocks.fetchMemories.mockResolvedValue([
+      memory("vector"),
+      memory("orthogonal", { embedding_raw: [0, 1] }),
+      memory("keyword", { embedding_raw: [0, 1], content: "Planning hiking trips to Norway" }),
+      memory("weak-keyword", { embedding_raw: [0, 1], content: "Went hiking once" }),
+      memory("unembedded"),
+    ]);
+
+    const ranked = await rank("hiking trips in Norway");
+
+    // "unembedded" is backfilled to an exact match, "orthogonal" is below the similarity floor and
+    // matches no terms, and one term out of three isn't enough without a vector match.
+    expect(ranked.map((m) => m.id)).toEqual(["unembedded", "vector", "keyword"]);
+    expect(ranked[1].similarity).toBe(0.9);
+    expect(ranked[2].keywordScore).toBe(1);
+    expect(ranked[2].similarity).toBe(0);
+    expect(ranked.every((m) => !("embedding_raw" in m))).toBe(true);
+    expect(mocks.saveMemoryEmbeddings).toHaveBeenCalledWith("user-1", [{ id: "unembedded", embedding: QUERY_EMBEDDING }]);
+  });
+
+  it("prefers recent and important memories at equal similarity", async () => {
+    const old = new Date(Date.now() - 365 * 86_400_000).toISOString();
+    mocks.matchMemoriesByEmbedding.mockResolvedValue([
+      { ...memory("old", { created_at: old }), similarity: 0.8 },
+      { ...memory("new"), similarity: 0.8 },
+      { ...memory("important", { created_at: old, importance: 100 }), similarity: 0.8 },
+    ]);
+    const ranked = await rank("anything");
+    expect(ranked.map((m) => m.id)).toEqual(["new", "important", "old"]);
+    expect(ranked[0].recencyScore).toBeGreaterThan(ranked[2].recencyScore);
+  });
+
+  it("keeps any keyword overlap when the query can't be embedded", async () => {
+    mocks.embedTexts.mockResolvedValue(null);
+    mocks.fetchMemories.mockResolvedValue([
+      memory("partial", { content: "Went hiking once" }),
+      memory("none", { content: "Likes tea" }),
+    ]);
+    const ranked = await rank("hiking trips in Norway");
+    expect(ranked.map((m) => m.id)).toEqual(["partial"]);
+    expect(ranked[0].similarity).toBeNull();
+    expect(mocks.matchMemoriesByEmbedding).not.toHaveBeenCalled();
+  });
+
+  it("uses recent candidates when vector search fails and caps the result count", async () => {
+    mocks.matchMemoriesByEmbedding.mockRejectedValue(new Error("rpc missing"));
+    mocks.fetchMemories.mockResolvedValue(
+      Array.from({ length: 5 }, (_, i) => memory(`m${i}`, { embedding_raw: [1, 0] }))
+    );
+    const ranked = await rank("anything", 3);
+    expect(ranked).toHaveLength(3);
+    expect(ranked.every((m) => m.similarity === 1)).toBe(true);
+  });
+});
@@ -1,4 +1,12 @@
-import { fetchMemories, MemoryItem, MemoryType } from "./memory";
+import {
+  buildMemoryEmbeddingText,
+  fetchMemories,
+  matchMemoriesByEmbedding,
+  saveMemoryEmbeddings,
+  MemoryItem,
+  MemoryType,
+} from "./memory";
+import { cosineSimilarity, embedTexts } from "@/lib/semantic/topicSimilarity";
 
 export interface PersonalizationMemorySettings {
   referenceSavedMemories: boolean;
@@ -11,9 +19,74 @@ export interface MemoryStrategy {
   limit: number;
 }
 
+export interface RankedMemoryItem extends MemoryItem {
+  score: number;
+  similarity: number | null;
+  keywordScore: number;
+  recencyScore: number;
+}
+
+// Memories below this cosine similarity are dropped unless they match the query lexically.
+const MEMORY_SIMILARITY_FLOOR = 0.3;
+// A keyword hit this strong (share of query terms found) keeps a memory even without a vector match.
+const KEYWORD_ONLY_MIN_SCORE = 0.5;
+const VECTOR_CANDIDATE_COUNT = 40;
+const RECENT_CANDIDATE_COUNT = 50;
+const RECENCY_HALF_LIFE_DAYS = 90;
+// Cap per request so a large backlog of legacy memories doesn't stall a chat turn.
+const MAX_EMBEDDING_BACKFILL = 20;
+
+const SCORE_WEIGHTS = {
+  similarity: 0.65,
+  keyword: 0.2,
+  recency: 0.1,
+  importance: 0.05,
+};
+
+const STOPWORDS = new Set([
+  "the", "and", "for", "are", "but", "not", "you", "your", "with", "this", "that", "what",
+  "when", "where", "which", "who", "how", "why", "can", "could", "would", "should", "about",
+  "from", "into", "have", "has", "had", "was", "were", "will", "just", "like", "some", "any",
+  "tell", "give", "make", "please", "there", "their", "them", "they", "then", "than", "also",
+]);
+
+function extractQueryTerms(query: string): string[] {
+  const terms = query
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((term) => term.length >= 3 && !STOPWORDS.has(term));
+  return Array.from(new Set(terms)).slice(0, 24);
+}
+
+function computeKeywordScore(memory: MemoryItem, terms: string[]): number {
+  if (!terms.length) return 0;
+  const haystack = `${memory.title ?? ""} ${memory.content ?? ""}`.toLowerCase();
+  const hits = terms.filter((term) => haystack.includes(term)).length;
+  return hits / terms.length;
+}
+
+function computeRecencyScore(createdAt?: string): number {
+  if (!createdAt) return 0;
+  const created = Date.parse(createdAt);
+  if (!Number.isFinite(created)) return 0;
+  const ageDays = Math.max(0, (Date.now() - created) / 86_400_000);
+  return Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+}
+
+function stripEmbedding<T extends MemoryItem>(memory: T): T {
+  const { embedding_raw: _embedding, ...rest } = memory;
+  void _embedding;
+  return rest as T;
+}
+
 /**
  * Fetches relevant memories based on router-decided strategy
- * 
+ *
+ * With a query, candidates come from vector search plus the most recent memories of the
+ * requested types, and are ranked by a blend of embedding similarity, keyword overlap,
+ * recency and importance. Without a query (or without embeddings) this degrades to the
+ * newest memories of the requested types.
+ *
  * @param settings Personalization memory settings
  * @param strategy Router-decided memory loading strategy
  * @param userId User ID for server-side calls
@@ -26,7 +99,7 @@ export async function getRelevantMemories(
   settings: PersonalizationMemorySettings,
   strategy: MemoryStrategy,
   userId?: string,
-  _conversationId?: string,
+  conversationId?: string,
   options?: MemoryFetchOptions,
 ): Promise<MemoryItem[]> {
   if (!settings.referenceSavedMemories) return [];
@@ -34,17 +107,152 @@ export async function getRelevantMemories(
   if (options?.availableMemoryTypes && options.availableMemoryTypes.length === 0) {
     return [];
   }
-  
-  const { types, query, limit } = strategy;
-  
-  // Load memories according to strategy
-  const memories = await fetchMemories({
-    query: query || "",
-    types,
-    limit,
-    userId,
-  });
-  
-  console.log(`[memory-router] Loaded ${memories.length} memories using strategy:`, JSON.stringify(strategy));
-  return memories;
+
+  const { types, limit } = strategy;
+  const query = (strategy.query ?? "").trim();
+
+  if (!query || !userId) {
+    const memories = await fetchMemories({
+      query,
+      types,
+      limit,
+      userId,
+    });
+    console.log(`[memory-router] Loaded ${memories.length} memories using strategy:`, JSON.stringify(strategy));
+    return memories.map(stripEmbedding);
+  }
+
+  const ranked = await rankMemoriesForQuery({ query, types, limit, userId, conversationId });
+  console.log(
+    `[memory-router] Hybrid retrieval kept ${ranked.length} memories`,
+    JSON.stringify({
+      types,
+      limit,
+      top: ranked.slice(0, 5).map((m) => ({
+        id: m.id,
+        score: Number(m.score.toFixed(3)),
+        similarity: m.similarity === null ? null : Number(m.similarity.toFixed(3)),
+        keyword: Number(m.keywordScore.toFixed(2)),
+      })),
+    })
+  );
+  return ranked;
+}
+
+async function rankMemoriesForQuery({
+  query,
+  types,
+  limit,
+  userId,
+  conversationId,
+}: {
+  query: string;
+  types: MemoryType[] | "all";
+  limit: number;
+  userId: string;
+  conversationId?: string;
+}): Promise<RankedMemoryItem[]> {
+  const terms = extractQueryTerms(query);
+
+  const [queryEmbedding, recentCandidates] = await Promise.all([
+    embedTexts([query], { userId, conversationId: conversationId ?? null, source: "memory_retrieval" })
+      .then((embeddings) => {
+        const embedding = embeddings?.[0];
+        return embedding && embedding.length ? embedding : null;
+      })
+      .catch((err) => {
+        console.warn("[memory-router] Failed to embed query; falling back to keywords:", err);
+        return null;
+      }),
+    fetchMemories({ types, limit: RECENT_CANDIDATE_COUNT, userId }),
+  ]);
+
+  let vectorCandidates: MemoryItem[] = [];
+  const similarityById = new Map<string, number>();
+  if (queryEmbedding) {
+    try {
+      const matches = await matchMemoriesByEmbedding({
+        embedding: queryEmbedding,
+        userId,
+        types,
+        threshold: MEMORY_SIMILARITY_FLOOR,
+        limit: VECTOR_CANDIDATE_COUNT,
+      });
+      vectorCandidates = matches;
+      for (const match of matches) {
+        similarityById.set(match.id, match.similarity);
+      }
+    } catch (err) {
+      console.warn("[memory-router] Vector search failed; using recent candidates only:", err);
+    }
+  }
+
+  const candidates = new Map<string, MemoryItem>();
+  for (const memory of [...vectorCandidates, ...recentCandidates]) {
+    if (memory?.id && !candidates.has(memory.id)) {
+      candidates.set(memory.id, memory);
+    }
+  }
+
+  if (queryEmbedding) {
+    const missingEmbeddings: MemoryItem[] = [];
+    for (const memory of candidates.values()) {
+      if (similarityById.has(memory.id)) continue;
+      const stored = Array.isArray(memory.embedding_raw) ? memory.embedding_raw : null;
+      if (stored && stored.length) {
+        similarityById.set(memory.id, cosineSimilarity(queryEmbedding, stored));
+      } else if (missingEmbeddings.length < MAX_EMBEDDING_BACKFILL) {
+        missingEmbeddings.push(memory);
+      }
+    }
+    if (missingEmbeddings.length) {
+      const embeddings = await embedTexts(missingEmbeddings.map(buildMemoryEmbeddingText), {
+        userId,
+        conversationId: conversationId ?? null,
+        source: "memory_backfill",
+      });
+      if (embeddings) {
+        const backfill: Array<{ id: string; embedding: number[] }> = [];
+        missingEmbeddings.forEach((memory, idx) => {
+          const embedding = embeddings[idx];
+          if (!embedding || !embedding.length) return;
+          similarityById.set(memory.id, cosineSimilarity(queryEmbedding, embedding));
+          backfill.push({ id: memory.id, embedding });
+        });
+        saveMemoryEmbeddings(userId, backfill).catch((err) => {
+          console.warn("[memory-router] Failed to persist backfilled embeddings:", err);
+        });
+      }
+    }
+  }
+
+  const ranked: RankedMemoryItem[] = [];
+  for (const memory of candidates.values()) {
+    const similarity = similarityById.has(memory.id) ? similarityById.get(memory.id)! : null;
+    const keywordScore = computeKeywordScore(memory, terms);
+    const recencyScore = computeRecencyScore(memory.created_at);
+    const importance = typeof memory.importance === "number" ? memory.importance / 100 : 0.5;
+
+    const passesSimilarity = similarity !== null && similarity >= MEMORY_SIMILARITY_FLOOR;
+    const passesKeyword = queryEmbedding
+      ? keywordScore >= KEYWORD_ONLY_MIN_SCORE
+      : keywordScore > 0;
+    if (!passesSimilarity && !passesKeyword) continue;
+
+    const score =
+      SCORE_WEIGHTS.similarity * Math.max(0, similarity ?? 0) +
+      SCORE_WEIGHTS.keyword * keywordScore +
+      SCORE_WEIGHTS.recency * recencyScore +
+      SCORE_WEIGHTS.importance * Math.min(1, Math.max(0, importance));
+
+    ranked.push({
+      ...stripEmbedding(memory),
+      score,
+      similarity,
+      keywordScore,
+      recencyScore,
+    });
+  }
+
+  return ranked.sort((a, b) => b.score - a.score).slice(0, limit);
 }
@@ -54,11 +54,17 @@ export interface MemoryItem {
   title: string;
   content: string;
   enabled: boolean;
+  importance?: number | null;
   created_at?: string;
+  embedding_raw?: number[] | null;
+}
+
+export interface MemoryVectorMatch extends MemoryItem {
+  similarity: number;
 }
 
 /**
- * Fetch memories using vector similarity search
+ * Fetch memories by type, newest first, with an optional keyword filter
  * When userId is provided, uses server admin client with proper user scoping
  * Otherwise uses regular client (for client-side calls)
  */
@@ -111,6 +117,64 @@ export async function fetchMemories({
   return data as MemoryItem[];
 }
 
+/**
+ * Vector candidates for a query embedding (server-side only).
+ * Returns memories at or above the similarity floor, most similar first.
+ */
+export async function matchMemoriesByEmbedding({
+  embedding,
+  userId,
+  types = 'all',
+  threshold,
+  limit,
+}: {
+  embedding: number[];
+  userId: string;
+  types?: MemoryType | MemoryType[] | 'all';
+  threshold: number;
+  limit: number;
+}): Promise<MemoryVectorMatch[]> {
+  const typeArray = types === 'all' ? null : (Array.isArray(types) ? types : [types]);
+  const admin = await supabaseServerAdmin();
+  const { data, error } = await (admin as any).rpc('match_memories_hybrid', {
+    query_embedding: embedding,
+    p_user_id: userId,
+    filter_types: typeArray && typeArray.length > 0 ? typeArray : null,
+    match_threshold: threshold,
+    match_count: limit,
+  });
+  if (error) throw error;
+
+  console.log(`[memory] Vector search found ${data?.length || 0} matches`);
+  return (data ?? []) as MemoryVectorMatch[];
+}
+
+/**
+ * Store embeddings for memories written before embeddings were captured.
+ */
+export async function saveMemoryEmbeddings(
+  userId: string,
+  rows: Array<{ id: string; embedding: number[] }>
+) {
+  if (!rows.length) return;
+  const admin = await supabaseServerAdmin();
+  for (const row of rows) {
+    if (!row.embedding.length) continue;
+    const { error } = await (admin as any)
+      .from('memories')
+      .update({ embedding_raw: row.embedding })
+      .eq('id', row.id)
+      .eq('user_id', userId);
+    if (error) {
+      console.warn(`[memory] Failed to backfill embedding for ${row.id}:`, error);
+    }
+  }
+}
+
+export function buildMemoryEmbeddingText(memory: { title?: string | null; content?: string | null }) {
+  return [memory.title ?? '', memory.content ?? ''].filter((part) => part.trim().length > 0).join('\n');
+}
+
 export async function updateMemoryEnabled(id: string, enabled: boolean) {
   const { default: browserClient } = await import("@/lib/supabase/browser-client");
   const { error } = await browserClient
@@ -156,6 +220,8 @@ export async function writeMemory(memory: {
   enabled?: boolean;
   importance?: number;
   conversationId?: string;
+  /** Owner to write for when there is no request session (background jobs). */
+  userId?: string;
 }) {
   try {
     // Normalize type to avoid empty values or pure whitespace
@@ -164,12 +230,27 @@ export async function writeMemory(memory: {
     const safeType = normalizedType.length > 0 ? normalizedType : "other";
 
     // Resolve current user id for ownership
-    const userId = await getCurrentUserIdServer();
+    const userId = memory.userId ?? (await getCurrentUserIdServer());
     if (!userId) {
       throw new Error("Not authenticated: cannot write memory");
     }
     const ensuredUserId = userId as string;
 
+    // Embed on write so hybrid retrieval can rank this memory by similarity.
+    let embeddingRaw: number[] | null = null;
+    try {
+      const { embedTexts } = await import("@/lib/semantic/topicSimilarity");
+      const embeddings = await embedTexts([buildMemoryEmbeddingText(memory)], {
+        userId: ensuredUserId,
+        conversationId: memory.conversationId ?? null,
+        source: "memory_write",
+      });
+      const embedding = embeddings?.[0];
+      embeddingRaw = embedding && embedding.length ? embedding : null;
+    } catch (embedErr) {
+      console.warn("[memory] Failed to embed memory; saving without embedding:", embedErr);
+    }
+
     const admin = await supabaseServerAdmin();
     const { data, error } = await admin
       .from('memories')
@@ -180,6 +261,7 @@ export async function writeMemory(memory: {
         content: memory.content,
         enabled: memory.enabled ?? true,
         importance: memory.importance ?? 50,
+        embedding_raw: embeddingRaw,
         created_at: new Date().toISOString(),
       } as any)
       .select()
@@ -0,0 +1,143 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/lib/supabase/types";
+
+/**
+ * Conversation branching helpers.
+ *
+ * Messages form a tree via `parent_message_id`; the conversation's `active_leaf_message_id`
+ * selects which root-to-leaf path is shown and used as model context. Editing a user message
+ * inserts a sibling (same parent, new `branch_id`), so "branches" are sibling sets along the path.
+ */
+
+export type BranchNode = {
+  id: string;
+  parent_message_id?: string | null;
+  created_at: string | null;
+};
+
+export type MessageBranchInfo = {
+  // Sibling message ids (including this one) in creation order.
+  siblingIds: string[];
+  index: number;
+};
+
+export type ActiveBranch = {
+  // Root-to-leaf message ids of the active branch.
+  pathIds: string[];
+  // Only messages on the path that have siblings.
+  branchInfo: Record<string, MessageBranchInfo>;
+};
+
+function byCreatedAt(a: BranchNode, b: BranchNode) {
+  return (a.created_at ?? "").localeCompare(b.created_at ?? "") || a.id.localeCompare(b.id);
+}
+
+function groupChildren(nodes: BranchNode[]) {
+  const children = new Map<string | null, BranchNode[]>();
+  for (const node of nodes) {
+    const key = node.parent_message_id ?? null;
+    const list = children.get(key) ?? [];
+    list.push(node);
+    children.set(key, list);
+  }
+  for (const list of children.values()) {
+    list.sort(byCreatedAt);
+  }
+  return children;
+}
+
+/**
+ * Follow the newest child from `startId` down to a leaf. Used when switching to a sibling so
+ * the user lands on the most recent state of that branch.
+ */
+export function findBranchLeaf(nodes: BranchNode[], startId: string): string {
+  const children = groupChildren(nodes);
+  let current = startId;
+  const seen = new Set<string>();
+  while (!seen.has(current)) {
+    seen.add(current);
+    const next = children.get(current);
+    if (!next?.length) break;
+    current = next[next.length - 1].id;
+  }
+  return current;
+}
+
+/**
+ * Resolve the active root-to-leaf path. A missing or stale leaf falls back to the newest message,
+ * which matches how conversations behaved before branching existed.
+ */
+export function resolveActiveBranch(nodes: BranchNode[], activeLeafId?: string | null): ActiveBranch {
+  if (!nodes.length) {
+    return { pathIds: [], branchInfo: {} };
+  }
+  const byId = new Map(nodes.map((node) => [node.id, node] as const));
+  let leaf = activeLeafId ? byId.get(activeLeafId) : undefined;
+  if (!leaf) {
+    leaf = [...nodes].sort(byCreatedAt)[nodes.length - 1];
+  }
+
+  const pathIds: string[] = [];
+  const seen = new Set<string>();
+  let cursor: BranchNode | undefined = leaf;
+  while (cursor && !seen.has(cursor.id)) {
+    seen.add(cursor.id);
+    pathIds.push(cursor.id);
+    cursor = cursor.parent_message_id ? byId.get(cursor.parent_message_id) : undefined;
+  }
+  pathIds.reverse();
+
+  const children = groupChildren(nodes);
+  const branchInfo: Record<string, MessageBranchInfo> = {};
+  for (const id of pathIds) {
+    const siblings = children.get(byId.get(id)?.parent_message_id ?? null) ?? [];
+    if (siblings.length > 1) {
+      const siblingIds = siblings.map((node) => node.id);
+      branchInfo[id] = { siblingIds, index: siblingIds.indexOf(id) };
+    }
+  }
+
+  return { pathIds, branchInfo };
+}
+
+/**
+ * Load the tree skeleton for a conversation and resolve its active branch.
+ * `leafId` overrides the stored active leaf (e.g. the parent of a message being edited).
+ */
+export async function loadActiveBranch(
+  supabase: SupabaseClient<Database>,
+  conversationId: string,
+  options?: { leafId?: string | null }
+): Promise<ActiveBranch & { nodes: BranchNode[] }> {
+  const [nodesResult, conversationResult] = await Promise.all([
+    supabase
+      .from("messages")
+      .select("id, parent_message_id, created_at")
+      .eq("conversation_id", conversationId)
+      .order("created_at", { ascending: true }),
+    options && "leafId" in options
+      ? Promise.resolve({ data: null })
+      : supabase
+          .from("conversations")
+          .select("active_leaf_message_id")
+          .eq("id", conversationId)
+          .maybeSingle(),
+  ]);
+
+  if (nodesResult.error) {
+    throw new Error(`Failed to load message tree: ${nodesResult.error.message}`);
+  }
+  const nodes = (nodesResult.data ?? []) as BranchNode[];
+
+  if (options && "leafId" in options) {
+    if (!options.leafId) {
+      // Editing the first message: the new branch starts from an empty history.
+      return { nodes, pathIds: [], branchInfo: {} };
+    }
+    return { nodes, ...resolveActiveBranch(nodes, options.leafId) };
+  }
+
+  const activeLeafId = (conversationResult.data as { active_leaf_message_id?: string | null } | null)
+    ?.active_leaf_message_id;
+  return { nodes, ...resolveActiveBranch(nodes, activeLeafId ?? null) };
+}
@@ -491,6 +491,23 @@ export function describeModelFamily(family: ModelFamily) {
   }
 }
 
+// Provider registry: which ChatProvider serves each model family by default.
+// Server config (CHAT_PROVIDERS_CONFIG, see lib/providers/registry.ts) can remap a family
+// to another provider, e.g. a self-hosted vLLM/Ollama endpoint.
+export type ChatProviderId = "openai" | "xai" | "deepinfra" | "gemini" | (string & {});
+
+export const MODEL_FAMILY_PROVIDERS: Record<Exclude<ModelFamily, "auto">, ChatProviderId> = {
+  "grok-4-1-fast": "xai",
+  "gpt-5.2": "openai",
+  "gpt-5.2-pro": "openai",
+  "gpt-5-mini": "openai",
+  "gpt-5-nano": "openai",
+};
+
+export function getDefaultProviderIdForFamily(family: Exclude<ModelFamily, "auto">): ChatProviderId {
+  return MODEL_FAMILY_PROVIDERS[family] ?? "openai";
+}
+
 // Validation utilities
 export const VALID_MODEL_FAMILIES: ModelFamily[] = [
   "auto",
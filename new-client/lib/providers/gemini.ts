@@ -0,0 +1,237 @@
+import type { ChatProvider, ChatProviderConfig, ImageGenerationResult } from "./types";
+import {
+  DEFAULT_CAPABILITIES,
+  createAdaptedResponseStream,
+  describeApiKeyEnv,
+  joinUrl,
+  readSseData,
+  resolveApiKey,
+  responsesInputToChatMessages,
+  withSchemaNudge,
+} from "./shared";
+
+const GEMINI_BASE_URL = "https://generativelanguage.googleapis.com/v1beta";
+
+type GeminiUsage = { inputTokens: number; outputTokens: number; totalTokens: number };
+type GeminiContent = { role: "user" | "model"; parts: Array<Record<string, unknown>> };
+
+function parseGeminiUsage(payload: any): GeminiUsage | null {
+  const usageMeta = payload?.usageMetadata ?? payload?.usage_metadata ?? null;
+  if (!usageMeta) return null;
+  const inputTokens =
+    Number(usageMeta?.promptTokenCount ?? usageMeta?.prompt_token_count ?? 0) || 0;
+  const outputTokens =
+    Number(usageMeta?.candidatesTokenCount ?? usageMeta?.candidates_token_count ?? 0) || 0;
+  const totalTokens =
+    Number(usageMeta?.totalTokenCount ?? usageMeta?.total_token_count ?? 0) ||
+    inputTokens + outputTokens;
+  return { inputTokens, outputTokens, totalTokens };
+}
+
+function extractInlineImage(parts: any[]): { mimeType: string; data: string } | null {
+  for (const part of parts) {
+    const inline = part?.inlineData ?? part?.inline_data ?? null;
+    const mimeType =
+      typeof inline?.mimeType === "string"
+        ? inline.mimeType
+        : typeof inline?.mime_type === "string"
+          ? inline.mime_type
+          : null;
+    const data = typeof inline?.data === "string" ? inline.data : null;
+    if (mimeType && data) {
+      return { mimeType, data };
+    }
+  }
+  return null;
+}
+
+function extractText(payload: any): string {
+  const parts: any[] = payload?.candidates?.[0]?.content?.parts ?? [];
+  return parts
+    .map((p) => (typeof p?.text === "string" ? p.text : ""))
+    .filter(Boolean)
+    .join("");
+}
+
+/**
+ * Gemini streams text either as cumulative snapshots or as deltas; normalize to deltas.
+ */
+function createDeltaNormalizer() {
+  let fullText = "";
+  return {
+    next(chunkText: string): string {
+      if (!chunkText) return "";
+      let delta = chunkText;
+      if (fullText && chunkText.startsWith(fullText)) {
+        delta = chunkText.slice(fullText.length);
+      } else if (fullText && fullText.startsWith(chunkText)) {
+        delta = "";
+      }
+      fullText += delta;
+      return delta;
+    },
+    get text() {
+      return fullText;
+    },
+  };
+}
+
+function toGeminiRequest(messages: ReturnType<typeof responsesInputToChatMessages>) {
+  const systemParts: string[] = [];
+  const contents: GeminiContent[] = [];
+  for (const message of messages) {
+    const content = message.content;
+    const text =
+      typeof content === "string"
+        ? content
+        : Array.isArray(content)
+          ? content
+              .map((part: any) => (part?.type === "text" ? String(part.text ?? "") : ""))
+              .filter(Boolean)
+              .join("\n\n")
+          : "";
+    if (!text) continue;
+    if (message.role === "system" || message.role === "developer") {
+      systemParts.push(text);
+      continue;
+    }
+    contents.push({ role: message.role === "assistant" ? "model" : "user", parts: [{ text }] });
+  }
+  return {
+    contents,
+    ...(systemParts.length ? { systemInstruction: { parts: [{ text: systemParts.join("\n\n") }] } } : {}),
+  };
+}
+
+/**
+ * Provider for Google's Gemini generateContent API (text and inline image output).
+ */
+export function createGeminiProvider(config: ChatProviderConfig): ChatProvider {
+  const baseURL = config.baseURL ?? GEMINI_BASE_URL;
+  const capabilities = { ...DEFAULT_CAPABILITIES, imageOutput: true, ...config.capabilities };
+
+  const getMissingConfig = () =>
+    !resolveApiKey(config.apiKeyEnv) ? describeApiKeyEnv(config.apiKeyEnv) || "GEMINI_API_KEY" : null;
+
+  const post = async (model: string, method: string, body: unknown, stream: boolean) => {
+    const apiKey = resolveApiKey(config.apiKeyEnv);
+    if (!apiKey) {
+      throw new Error(`${getMissingConfig()} is not set`);
+    }
+    const url = `${joinUrl(baseURL, `models/${encodeURIComponent(model)}:${method}`)}?${
+      stream ? "alt=sse&" : ""
+    }key=${encodeURIComponent(apiKey)}`;
+    const res = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(stream ? { Accept: "text/event-stream" } : {}),
+        "x-goog-api-key": apiKey,
+        ...(config.headers ?? {}),
+      },
+      body: JSON.stringify(body),
+    });
+    if (!res.ok) {
+      const errText = await res.text().catch(() => "");
+      const trimmed = errText.length > 400 ? `${errText.slice(0, 400)}…` : errText;
+      throw new Error(`Gemini API error (${res.status}): ${trimmed || res.statusText}`);
+    }
+    return res;
+  };
+
+  return {
+    id: config.id,
+    kind: "gemini",
+    label: config.label ?? config.id,
+    baseURL,
+    capabilities,
+    getMissingConfig,
+    async complete(request) {
+      const body: Record<string, unknown> = toGeminiRequest(withSchemaNudge(request));
+      body.generationConfig = {
+        ...(typeof request.temperature === "number" ? { temperature: request.temperature } : {}),
+        ...(typeof request.maxTokens === "number" ? { maxOutputTokens: request.maxTokens } : {}),
+        ...((request.enforceJson ?? true) ? { responseMimeType: "application/json" } : {}),
+      };
+      const res = await post(request.model, "generateContent", body, false);
+      const payload = (await res.json()) as any;
+      const usage = parseGeminiUsage(payload);
+      return {
+        text: extractText(payload).trim(),
+        usage: { input_tokens: usage?.inputTokens ?? 0, output_tokens: usage?.outputTokens ?? 0 },
+      };
+    },
+    async streamResponse(request) {
+      const body: Record<string, unknown> = toGeminiRequest(
+        responsesInputToChatMessages(request.instructions, request.input)
+      );
+      body.generationConfig = {
+        ...(typeof request.temperature === "number" ? { temperature: request.temperature } : {}),
+        ...(typeof request.max_output_tokens === "number" ? { maxOutputTokens: request.max_output_tokens } : {}),
+      };
+      const res = await post(request.model, "streamGenerateContent", body, true);
+      if (!res.body) {
+        throw new Error("Gemini streaming response had no body");
+      }
+      const stream = res.body;
+      const normalizer = createDeltaNormalizer();
+      return createAdaptedResponseStream(async function* () {
+        for await (const dataStr of readSseData(stream)) {
+          let payload: any;
+          try {
+            payload = JSON.parse(dataStr);
+          } catch {
+            continue; // ignore malformed chunks
+          }
+          const delta = normalizer.next(extractText(payload));
+          const usage = parseGeminiUsage(payload);
+          yield {
+            id: typeof payload?.responseId === "string" ? payload.responseId : null,
+            ...(delta ? { delta } : {}),
+            ...(usage
+              ? { usage: { input_tokens: usage.inputTokens, output_tokens: usage.outputTokens } }
+              : {}),
+          };
+        }
+      });
+    },
+    async generateImage({ model, prompt, onTextDelta }): Promise<ImageGenerationResult> {
+      const res = await post(
+        model,
+        "streamGenerateContent",
+        {
+          contents: [{ role: "user", parts: [{ text: prompt }] }],
+          generationConfig: { responseModalities: ["TEXT", "IMAGE"] },
+        },
+        true
+      );
+      if (!res.body) {
+        throw new Error("Gemini streaming response had no body");
+      }
+
+      const normalizer = createDeltaNormalizer();
+      let image: { mimeType: string; data: string } | null = null;
+      let usage: GeminiUsage | null = null;
+      for await (const dataStr of readSseData(res.body)) {
+        let payload: any;
+        try {
+          payload = JSON.parse(dataStr);
+        } catch {
+          continue; // ignore malformed chunks
+        }
+        const delta = normalizer.next(extractText(payload));
+        if (delta) {
+          await onTextDelta(delta);
+        }
+        // Image: usually arrives near the end
+        if (!image) {
+          image = extractInlineImage(payload?.candidates?.[0]?.content?.parts ?? []);
+        }
+        // Usage metadata may be included in later events
+        usage = parseGeminiUsage(payload) ?? usage;
+      }
+
+      return { fullText: normalizer.text.trim(), image, usage };
+    },
+  };
+}
@@ -0,0 +1,156 @@
+import type { ChatProvider, ChatProviderConfig } from "./types";
+import {
+  DEFAULT_CAPABILITIES,
+  createAdaptedResponseStream,
+  describeApiKeyEnv,
+  joinUrl,
+  readSseData,
+  resolveApiKey,
+  responsesInputToChatMessages,
+  withSchemaNudge,
+} from "./shared";
+
+/**
+ * Provider for Chat Completions endpoints (DeepInfra, vLLM, Ollama, LM Studio, mock servers).
+ * Responses-style requests are flattened to chat messages and the SSE stream is adapted back.
+ */
+export function createOpenAICompatibleProvider(config: ChatProviderConfig): ChatProvider {
+  if (!config.baseURL) {
+    throw new Error(`Provider "${config.id}" requires a baseURL`);
+  }
+  const baseURL = config.baseURL;
+  const capabilities = { ...DEFAULT_CAPABILITIES, ...config.capabilities };
+  const logPrefix = `[provider:${config.id}]`;
+
+  const getMissingConfig = () =>
+    config.apiKeyEnv && !resolveApiKey(config.apiKeyEnv) ? describeApiKeyEnv(config.apiKeyEnv) : null;
+
+  const buildHeaders = (extra?: Record<string, string>) => {
+    const apiKey = resolveApiKey(config.apiKeyEnv);
+    return {
+      "Content-Type": "application/json",
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      ...(config.headers ?? {}),
+      ...(extra ?? {}),
+    };
+  };
+
+  const postChatCompletions = async (payload: Record<string, any>, signal?: AbortSignal) => {
+    const missing = getMissingConfig();
+    if (missing) {
+      throw new Error(`${missing} is not set`);
+    }
+    const response = await fetch(joinUrl(baseURL, "chat/completions"), {
+      method: "POST",
+      headers: buildHeaders(payload.stream ? { Accept: "text/event-stream" } : undefined),
+      body: JSON.stringify(payload),
+      signal,
+    });
+    const requestId = response.headers.get("x-request-id");
+    if (requestId) {
+      console.log(`${logPrefix} request id`, { requestId });
+    }
+    if (!response.ok) {
+      const bodyText = await response.text().catch(() => "");
+      console.error(`${logPrefix} chat completions error`, {
+        status: response.status,
+        statusText: response.statusText,
+        body: bodyText || null,
+        requestId,
+      });
+      throw new Error(`${config.label ?? config.id} chat completions failed (${response.status}): ${bodyText || "no body"}`);
+    }
+    return response;
+  };
+
+  return {
+    id: config.id,
+    kind: "openai-compatible",
+    label: config.label ?? config.id,
+    baseURL,
+    capabilities,
+    getMissingConfig,
+    async complete(request) {
+      const disableJsonObject = (config.jsonObjectUnsupportedModels ?? []).some((pattern) =>
+        request.model.includes(pattern)
+      );
+      const payload: Record<string, any> = {
+        model: request.model,
+        messages: withSchemaNudge(request),
+        temperature: request.temperature ?? 1.0,
+        ...((request.enforceJson ?? true) && !disableJsonObject
+          ? { response_format: { type: "json_object" } }
+          : {}),
+        ...(request.extraParams ?? {}),
+      };
+      if (typeof request.maxTokens === "number") {
+        payload.max_tokens = request.maxTokens;
+      }
+      const response = await postChatCompletions(payload);
+      const bodyText = await response.text();
+      let data: any = null;
+      try {
+        data = bodyText ? JSON.parse(bodyText) : null;
+      } catch {
+        data = null;
+      }
+      const usage: any = data?.usage || {};
+      return {
+        text: data?.choices?.[0]?.message?.content?.trim() ?? "",
+        usage: {
+          input_tokens: usage.prompt_tokens ?? 0,
+          output_tokens: usage.completion_tokens ?? 0,
+        },
+      };
+    },
+    async streamResponse(request) {
+      const abortController = new AbortController();
+      const payload: Record<string, any> = {
+        model: request.model,
+        messages: responsesInputToChatMessages(request.instructions, request.input),
+        stream: true,
+        stream_options: { include_usage: true },
+      };
+      if (typeof request.temperature === "number") {
+        payload.temperature = request.temperature;
+      }
+      if (typeof request.max_output_tokens === "number") {
+        payload.max_tokens = request.max_output_tokens;
+      }
+      if (capabilities.reasoningEffort && request.reasoning?.effort) {
+        payload.reasoning_effort = request.reasoning.effort;
+      }
+      const response = await postChatCompletions(payload, abortController.signal);
+      if (!response.body) {
+        throw new Error(`${config.label ?? config.id} streaming response had no body`);
+      }
+      const body = response.body;
+
+      return createAdaptedResponseStream(async function* () {
+        for await (const dataStr of readSseData(body)) {
+          let chunk: any;
+          try {
+            chunk = JSON.parse(dataStr);
+          } catch {
+            continue; // ignore malformed chunks
+          }
+          const delta = chunk?.choices?.[0]?.delta?.content;
+          const usage = chunk?.usage;
+          yield {
+            id: typeof chunk?.id === "string" ? chunk.id : null,
+            ...(typeof delta === "string" && delta ? { delta } : {}),
+            ...(usage
+              ? {
+                  usage: {
+                    input_tokens: Number(usage.prompt_tokens ?? 0) || 0,
+                    output_tokens: Number(usage.completion_tokens ?? 0) || 0,
+                    cached_tokens: Number(usage.prompt_tokens_details?.cached_tokens ?? 0) || 0,
+                  },
+                }
+              : {}),
+          };
+        }
+      }, () => abortController.abort());
+    },
+  };
+}
@@ -0,0 +1,90 @@
+import type OpenAI from "openai";
+import type { ChatCompletionCreateParamsNonStreaming } from "openai/resources/chat/completions";
+import { createOpenAIClient, getOpenAIRequestId } from "@/lib/openai/client";
+import type { ChatProvider, ChatProviderConfig, ChatResponseStream, ChatStreamRequest } from "./types";
+import { DEFAULT_CAPABILITIES, describeApiKeyEnv, resolveApiKey, withSchemaNudge } from "./shared";
+
+const OPENAI_BASE_URL = "https://api.openai.com/v1";
+
+/**
+ * Provider for endpoints that implement the OpenAI Responses API (OpenAI, xAI).
+ */
+export function createResponsesProvider(config: ChatProviderConfig): ChatProvider {
+  const baseURL = config.baseURL ?? OPENAI_BASE_URL;
+  const capabilities = { ...DEFAULT_CAPABILITIES, ...config.capabilities };
+  let cachedClient: OpenAI | null = null;
+
+  const getMissingConfig = () =>
+    config.apiKeyEnv && !resolveApiKey(config.apiKeyEnv) ? describeApiKeyEnv(config.apiKeyEnv) : null;
+
+  const getClient = (): OpenAI => {
+    if (cachedClient) return cachedClient;
+    const missing = getMissingConfig();
+    if (missing) {
+      throw new Error(`${missing} is not set`);
+    }
+    cachedClient = createOpenAIClient({
+      apiKey: resolveApiKey(config.apiKeyEnv) ?? "unused",
+      baseURL,
+      ...(config.headers ? { defaultHeaders: config.headers } : {}),
+    });
+    return cachedClient;
+  };
+
+  const sanitizeRequest = (request: ChatStreamRequest): ChatStreamRequest => {
+    const payload: ChatStreamRequest = { ...request };
+    if (!capabilities.metadata) delete payload.metadata;
+    if (!capabilities.reasoningEffort) delete payload.reasoning;
+    if (!capabilities.promptCache) {
+      delete payload.prompt_cache_key;
+      delete payload.prompt_cache_retention;
+    }
+    if (!capabilities.hostedTools) {
+      delete payload.tools;
+      delete payload.tool_choice;
+    }
+    return payload;
+  };
+
+  return {
+    id: config.id,
+    kind: "openai-responses",
+    label: config.label ?? config.id,
+    baseURL,
+    capabilities,
+    getMissingConfig,
+    async streamResponse(request) {
+      const client = getClient();
+      const stream = await client.responses.stream(sanitizeRequest(request) as any);
+      return stream as unknown as ChatResponseStream;
+    },
+    async complete(request) {
+      const client = getClient();
+      const payload: ChatCompletionCreateParamsNonStreaming & Record<string, any> = {
+        model: request.model,
+        messages: withSchemaNudge(request),
+        ...(typeof request.temperature === "number" ? { temperature: request.temperature } : {}),
+        ...((request.enforceJson ?? true) ? { response_format: { type: "json_object" as const } } : {}),
+        ...(request.extraParams ?? {}),
+      };
+      if (typeof request.maxTokens === "number") {
+        payload.max_completion_tokens = request.maxTokens;
+      }
+      const { data: completion, response: rawResponse } = await client.chat.completions
+        .create(payload)
+        .withResponse();
+      const requestId = getOpenAIRequestId(completion, rawResponse);
+      if (requestId) {
+        console.log(`[provider:${config.id}] request id`, { requestId });
+      }
+      const usage: any = completion.usage || {};
+      return {
+        text: completion.choices?.[0]?.message?.content?.trim() ?? "",
+        usage: {
+          input_tokens: usage.prompt_tokens ?? 0,
+          output_tokens: usage.completion_tokens ?? 0,
+        },
+      };
+    },
+  };
+}
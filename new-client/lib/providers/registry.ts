@@ -0,0 +1,200 @@
+import { z } from "zod";
+import { getDefaultProviderIdForFamily, type ModelFamily } from "@/lib/modelConfig";
+import { createGeminiProvider } from "./gemini";
+import { createOpenAICompatibleProvider } from "./openai-compatible";
+import { createResponsesProvider } from "./openai-responses";
+import type { ChatProvider, ChatProviderConfig } from "./types";
+
+/**
+ * Provider registry.
+ *
+ * Built-in providers cover OpenAI, xAI, DeepInfra and Gemini. `CHAT_PROVIDERS_CONFIG` (JSON)
+ * can add providers and remap model families without code changes, e.g.
+ *
+ *   {
+ *     "providers": [
+ *       { "id": "ollama", "kind": "openai-compatible", "baseURL": "http://localhost:11434/v1" }
+ *     ],
+ *     "families": { "gpt-5-mini": { "provider": "ollama", "model": "llama3.1:8b" } }
+ *   }
+ *
+ * `CHAT_PROVIDER_BASE_URL_OVERRIDE` (or `baseURLOverride` in the JSON) points every provider at
+ * one endpoint, which is how tests run the whole stack against a local mock server.
+ */
+
+const BUILTIN_PROVIDER_CONFIGS: ChatProviderConfig[] = [
+  {
+    id: "openai",
+    kind: "openai-responses",
+    label: "OpenAI",
+    apiKeyEnv: "OPENAI_API_KEY",
+    capabilities: {
+      hostedTools: true,
+      metadata: true,
+      reasoningEffort: true,
+      promptCache: true,
+      fileInputs: true,
+    },
+  },
+  {
+    id: "xai",
+    kind: "openai-responses",
+    label: "xAI",
+    baseURL: "https://api.x.ai/v1",
+    apiKeyEnv: "GROK_API_KEY",
+    // xAI rejects the metadata field and hosted OpenAI tools; reasoning is chosen by model id.
+    capabilities: { promptCache: true },
+  },
+  {
+    id: "deepinfra",
+    kind: "openai-compatible",
+    label: "DeepInfra",
+    baseURL: "https://api.deepinfra.com/v1/openai",
+    apiKeyEnv: "DEEPINFRA_API_KEY",
+    jsonObjectUnsupportedModels: ["gpt-oss-"],
+    capabilities: { reasoningEffort: true },
+  },
+  {
+    id: "gemini",
+    kind: "gemini",
+    label: "Google Gemini",
+    apiKeyEnv: ["GOOGLE_API_KEY", "GEMINI_API_KEY"],
+  },
+];
+
+const capabilitiesSchema = z
+  .object({
+    hostedTools: z.boolean(),
+    metadata: z.boolean(),
+    reasoningEffort: z.boolean(),
+    promptCache: z.boolean(),
+    fileInputs: z.boolean(),
+    imageOutput: z.boolean(),
+  })
+  .partial();
+
+const providerConfigSchema = z.object({
+  id: z.string().min(1),
+  kind: z.enum(["openai-responses", "openai-compatible", "gemini"]),
+  label: z.string().optional(),
+  baseURL: z.string().url().optional(),
+  apiKeyEnv: z.union([z.string(), z.array(z.string())]).optional(),
+  capabilities: capabilitiesSchema.optional(),
+  jsonObjectUnsupportedModels: z.array(z.string()).optional(),
+  headers: z.record(z.string()).optional(),
+});
+
+const registryConfigSchema = z.object({
+  providers: z.array(providerConfigSchema).optional().default([]),
+  families: z
+    .record(z.object({ provider: z.string().min(1), model: z.string().min(1).optional() }))
+    .optional()
+    .default({}),
+  baseURLOverride: z.string().url().optional(),
+});
+
+type RegistryConfig = z.infer<typeof registryConfigSchema>;
+
+type Registry = {
+  providers: Map<string, ChatProvider>;
+  families: RegistryConfig["families"];
+};
+
+let cachedRegistry: Registry | null = null;
+
+function loadRegistryConfig(): RegistryConfig {
+  const raw = process.env.CHAT_PROVIDERS_CONFIG;
+  let parsed: RegistryConfig = { providers: [], families: {} };
+  if (raw && raw.trim()) {
+    try {
+      parsed = registryConfigSchema.parse(JSON.parse(raw));
+    } catch (err) {
+      console.error("[providers] Ignoring invalid CHAT_PROVIDERS_CONFIG:", err);
+    }
+  }
+  const envOverride = process.env.CHAT_PROVIDER_BASE_URL_OVERRIDE;
+  if (envOverride && envOverride.trim()) {
+    parsed.baseURLOverride = envOverride.trim();
+  }
+  return parsed;
+}
+
+function createProvider(config: ChatProviderConfig): ChatProvider {
+  switch (config.kind) {
+    case "openai-responses":
+      return createResponsesProvider(config);
+    case "openai-compatible":
+      return createOpenAICompatibleProvider(config);
+    case "gemini":
+      return createGeminiProvider(config);
+  }
+}
+
+function getRegistry(): Registry {
+  if (cachedRegistry) return cachedRegistry;
+  const config = loadRegistryConfig();
+  const providers = new Map<string, ChatProvider>();
+  const merged = new Map<string, ChatProviderConfig>();
+  for (const providerConfig of [...BUILTIN_PROVIDER_CONFIGS, ...config.providers]) {
+    const previous = merged.get(providerConfig.id);
+    merged.set(providerConfig.id, previous ? { ...previous, ...providerConfig } : providerConfig);
+  }
+  for (const providerConfig of merged.values()) {
+    const effective = config.baseURLOverride
+      ? { ...providerConfig, baseURL: config.baseURLOverride }
+      : providerConfig;
+    try {
+      providers.set(effective.id, createProvider(effective));
+    } catch (err) {
+      console.error(`[providers] Failed to create provider "${effective.id}":`, err);
+    }
+  }
+  if (config.baseURLOverride) {
+    console.log("[providers] All providers routed to", config.baseURLOverride);
+  }
+  cachedRegistry = { providers, families: config.families };
+  return cachedRegistry;
+}
+
+export function getChatProvider(id: string): ChatProvider {
+  const provider = getRegistry().providers.get(id);
+  if (!provider) {
+    throw new Error(`Unknown chat provider "${id}"`);
+  }
+  return provider;
+}
+
+export function listChatProviders(): ChatProvider[] {
+  return Array.from(getRegistry().providers.values());
+}
+
+/**
+ * Resolve the provider (and provider-side model id) that serves a model family.
+ * `defaultModel` is the id the router picked; config may replace it for remapped families.
+ */
+export function resolveChatProviderForFamily(
+  family: Exclude<ModelFamily, "auto">,
+  defaultModel: string
+): { provider: ChatProvider; model: string } {
+  const registry = getRegistry();
+  const mapping = registry.families[family];
+  const providerId = mapping?.provider ?? getDefaultProviderIdForFamily(family);
+  const provider = registry.providers.get(providerId) ?? getChatProvider(getDefaultProviderIdForFamily(family));
+  return { provider, model: mapping?.model ?? defaultModel };
+}
+
+/**
+ * Replace (or add) a provider instance by id. Used by offline tooling such as the router eval
+ * harness to swap a live endpoint for a stub or recorded one. Returns the previous provider.
+ */
+export function registerChatProvider(provider: ChatProvider): ChatProvider | null {
+  const registry = getRegistry();
+  const previous = registry.providers.get(provider.id) ?? null;
+  registry.providers.set(provider.id, provider);
+  return previous;
+}
+
+/** Drop cached providers so env changes (e.g. in tests) are picked up. */
+export function resetChatProviderRegistry() {
+  cachedRegistry = null;
+}
@@ -0,0 +1,215 @@
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import type {
+  ChatCompletionRequest,
+  ChatFinalResponse,
+  ChatProviderCapabilities,
+  ChatResponseStream,
+  ChatStreamEvent,
+} from "./types";
+
+export const DEFAULT_CAPABILITIES: ChatProviderCapabilities = {
+  hostedTools: false,
+  metadata: false,
+  reasoningEffort: false,
+  promptCache: false,
+  fileInputs: false,
+  imageOutput: false,
+};
+
+export function resolveApiKey(apiKeyEnv?: string | string[]): string | null {
+  const names = Array.isArray(apiKeyEnv) ? apiKeyEnv : apiKeyEnv ? [apiKeyEnv] : [];
+  for (const name of names) {
+    const value = process.env[name];
+    if (value) return value;
+  }
+  return null;
+}
+
+export function describeApiKeyEnv(apiKeyEnv?: string | string[]): string {
+  const names = Array.isArray(apiKeyEnv) ? apiKeyEnv : apiKeyEnv ? [apiKeyEnv] : [];
+  return names.join(" or ");
+}
+
+export function joinUrl(baseURL: string, path: string): string {
+  return new URL(path, baseURL.endsWith("/") ? baseURL : `${baseURL}/`).toString();
+}
+
+export function withSchemaNudge(request: ChatCompletionRequest): ChatCompletionMessageParam[] {
+  const { schema, schemaName, messages } = request;
+  if (!schema || !schemaName) return messages;
+  return [
+    {
+      role: "system",
+      content: `You must return a JSON object matching the schema "${schemaName}": ${JSON.stringify(schema)}`,
+    },
+    ...messages,
+  ];
+}
+
+/**
+ * Yields the `data:` payload of each server-sent event in a fetch response body.
+ */
+export async function* readSseData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      // SSE events are separated by blank lines.
+      while (true) {
+        const sepLf = buffer.indexOf("\n\n");
+        const sepCrLf = buffer.indexOf("\r\n\r\n");
+        const sep =
+          sepLf !== -1 && (sepCrLf === -1 || sepLf < sepCrLf) ? sepLf : sepCrLf;
+        const sepLen = sep === sepCrLf ? 4 : 2;
+        if (sep === -1) break;
+        const rawEvent = buffer.slice(0, sep);
+        buffer = buffer.slice(sep + sepLen);
+
+        const dataLines = rawEvent
+          .split(/\r?\n/)
+          .map((l) => l.trimEnd())
+          .filter((l) => l.startsWith("data:"))
+          .map((l) => l.slice(5).trimStart());
+        if (!dataLines.length) continue;
+
+        const dataStr = dataLines.join("\n").trim();
+        if (!dataStr || dataStr === "[DONE]") continue;
+        yield dataStr;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function contentPartsToText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .map((part: any) =>
+      part && (part.type === "input_text" || part.type === "output_text" || part.type === "text")
+        ? String(part.text ?? "")
+        : ""
+    )
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * Flatten Responses-style `instructions` + `input` into Chat Completions messages.
+ * Images on user turns are kept as image_url parts; input_file parts are dropped
+ * (callers only attach them when the provider advertises `fileInputs`).
+ */
+export function responsesInputToChatMessages(
+  instructions: string | undefined,
+  input: any[]
+): ChatCompletionMessageParam[] {
+  const messages: ChatCompletionMessageParam[] = [];
+  if (instructions && instructions.trim()) {
+    messages.push({ role: "system", content: instructions });
+  }
+  for (const item of input ?? []) {
+    if (!item || typeof item !== "object" || !("role" in item)) continue;
+    const role = item.role === "developer" ? "system" : item.role;
+    if (role === "user" && Array.isArray(item.content)) {
+      const parts: any[] = [];
+      for (const part of item.content) {
+        if (part?.type === "input_text" && part.text) {
+          parts.push({ type: "text", text: part.text });
+        } else if (part?.type === "input_image" && part.image_url) {
+          parts.push({ type: "image_url", image_url: { url: part.image_url } });
+        }
+      }
+      if (parts.length) {
+        messages.push({ role: "user", content: parts });
+      }
+      continue;
+    }
+    const text = contentPartsToText(item.content);
+    if (!text) continue;
+    if (role === "system" || role === "assistant" || role === "user") {
+      messages.push({ role, content: text } as ChatCompletionMessageParam);
+    }
+  }
+  return messages;
+}
+
+export type AdaptedStreamChunk = {
+  delta?: string;
+  usage?: { input_tokens: number; output_tokens: number; cached_tokens?: number };
+  id?: string | null;
+};
+
+/**
+ * Wrap a provider-specific chunk generator as a ChatResponseStream that emits
+ * `response.output_text.delta` events and resolves a Responses-like final response.
+ */
+export function createAdaptedResponseStream(
+  source: () => AsyncGenerator<AdaptedStreamChunk>,
+  onAbort?: () => void
+): ChatResponseStream {
+  let fullText = "";
+  let responseId: string | null = null;
+  let usage: AdaptedStreamChunk["usage"] | null = null;
+  let resolveFinal: (value: ChatFinalResponse) => void = () => {};
+  let rejectFinal: (reason: unknown) => void = () => {};
+  const finalPromise = new Promise<ChatFinalResponse>((resolve, reject) => {
+    resolveFinal = resolve;
+    rejectFinal = reject;
+  });
+  // Avoid unhandled rejections when the caller never awaits finalResponse().
+  finalPromise.catch(() => {});
+
+  const buildFinal = (): ChatFinalResponse => ({
+    id: responseId,
+    output_text: fullText,
+    output: fullText
+      ? [
+          {
+            type: "message",
+            role: "assistant",
+            content: [{ type: "output_text", text: fullText, annotations: [] }],
+          },
+        ]
+      : [],
+    usage: {
+      input_tokens: usage?.input_tokens ?? 0,
+      output_tokens: usage?.output_tokens ?? 0,
+      input_tokens_details: { cached_tokens: usage?.cached_tokens ?? 0 },
+    },
+  });
+
+  async function* iterate(): AsyncGenerator<ChatStreamEvent> {
+    try {
+      for await (const chunk of source()) {
+        if (chunk.id && !responseId) responseId = chunk.id;
+        if (chunk.usage) usage = chunk.usage;
+        if (chunk.delta) {
+          fullText += chunk.delta;
+          yield { type: "response.output_text.delta", delta: chunk.delta };
+        }
+      }
+      yield { type: "response.output_text.done", text: fullText };
+      resolveFinal(buildFinal());
+    } catch (err) {
+      rejectFinal(err);
+      throw err;
+    }
+  }
+
+  const iterator = iterate();
+  return {
+    [Symbol.asyncIterator]: () => iterator,
+    finalResponse: () => finalPromise,
+    return: async () => {
+      onAbort?.();
+      resolveFinal(buildFinal());
+      return iterator.return(undefined);
+    },
+  };
+}
@@ -0,0 +1,115 @@
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+
+export type ChatProviderKind = "openai-responses" | "openai-compatible" | "gemini";
+
+export interface ChatProviderCapabilities {
+  // Hosted tools (file_search, code_interpreter) executed by the provider.
+  hostedTools: boolean;
+  // Accepts the Responses `metadata` field.
+  metadata: boolean;
+  // Accepts `reasoning: { effort }`.
+  reasoningEffort: boolean;
+  // Accepts prompt_cache_key / prompt_cache_retention.
+  promptCache: boolean;
+  // Accepts uploaded `input_file` parts.
+  fileInputs: boolean;
+  // Can return generated images inline.
+  imageOutput: boolean;
+}
+
+/**
+ * Responses-API shaped request. Providers that speak a different wire format translate
+ * it (and drop fields their capabilities don't cover) before sending.
+ */
+export interface ChatStreamRequest {
+  model: string;
+  instructions?: string;
+  input: any[];
+  tools?: any[];
+  tool_choice?: unknown;
+  reasoning?: { effort: string };
+  metadata?: Record<string, unknown>;
+  text?: Record<string, unknown>;
+  temperature?: number;
+  // Upper bound on generated tokens (including reasoning); set from the turn's budget reservation.
+  max_output_tokens?: number;
+  prompt_cache_key?: string;
+  prompt_cache_retention?: string;
+  [key: string]: unknown;
+}
+
+export interface ChatStreamEvent {
+  type: string;
+  delta?: string;
+  [key: string]: unknown;
+}
+
+export interface ChatFinalResponse {
+  id: string | null;
+  output_text: string;
+  output: any[];
+  usage: Record<string, any>;
+}
+
+/**
+ * Stream of Responses-style events. OpenAI's own ResponseStream satisfies this shape,
+ * and adapters for other wire formats emit the subset the chat route consumes.
+ */
+export interface ChatResponseStream extends AsyncIterable<ChatStreamEvent> {
+  finalResponse(): Promise<ChatFinalResponse>;
+  return?(): Promise<unknown>;
+}
+
+export interface ChatCompletionRequest {
+  messages: ChatCompletionMessageParam[];
+  model: string;
+  schemaName?: string;
+  schema?: any;
+  maxTokens?: number | null;
+  temperature?: number;
+  enforceJson?: boolean;
+  extraParams?: Record<string, any>;
+}
+
+export interface ChatCompletionResult {
+  text: string;
+  usage: { input_tokens: number; output_tokens: number };
+}
+
+export interface ImageGenerationRequest {
+  model: string;
+  prompt: string;
+  onTextDelta: (delta: string) => void | Promise<void>;
+}
+
+export interface ImageGenerationResult {
+  fullText: string;
+  image: { mimeType: string; data: string } | null;
+  usage: { inputTokens: number; outputTokens: number; totalTokens: number } | null;
+}
+
+export interface ChatProvider {
+  id: string;
+  kind: ChatProviderKind;
+  label: string;
+  baseURL: string;
+  capabilities: ChatProviderCapabilities;
+  // Name of the missing env var (or other config) when the provider can't be used.
+  getMissingConfig(): string | null;
+  streamResponse(request: ChatStreamRequest): Promise<ChatResponseStream>;
+  complete(request: ChatCompletionRequest): Promise<ChatCompletionResult>;
+  generateImage?(request: ImageGenerationRequest): Promise<ImageGenerationResult>;
+}
+
+export interface ChatProviderConfig {
+  id: string;
+  kind: ChatProviderKind;
+  label?: string;
+  baseURL?: string;
+  // Env var holding the API key. Self-hosted endpoints may omit it.
+  apiKeyEnv?: string | string[];
+  capabilities?: Partial<ChatProviderCapabilities>;
+  // Models that reject `response_format: json_object` (schema is still nudged via the prompt).
+  jsonObjectUnsupportedModels?: string[];
+  headers?: Record<string, string>;
+}
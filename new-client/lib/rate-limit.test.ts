@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { findExceededRateLimit, recordRateLimitHits } from "@/lib/rate-limit";
+
+const { rpc } = vi.hoisted(() => ({ rpc: vi.fn() }));
+
+vi.mock("@/lib/supabase/server", () => ({
+  supabaseServerAdmin: async () => ({ rpc }),
+}));
+
+function counts(entries: Record<string, { current: number; previous: number; elapsed: number }>) {
+  return new Map(Object.entries(entries));
+}
+
+describe("findExceededRateLimit", () => {
+  it("passes rules within their limit and rules without counts", () => {
+    const result = findExceededRateLimit(
+      [
+        { key: "user:1", limit: 10 },
+        { key: "ip:unknown", limit: 1 },
+      ],
+      counts({ "user:1": { current: 10, previous: 0, elapsed: 0.5 } }),
+      60
+    );
+    expect(result).toBeNull();
+  });
+
+  it("weights the previous window by the part still inside the sliding window", () => {
+    // 5 + 8 * 0.75 = 11 > 10, back under once 5/8 of the previous window has slid out.
+    const over = findExceededRateLimit(
+      [{ key: "user:1", limit: 10 }],
+      counts({ "user:1": { current: 5, previous: 8, elapsed: 0.25 } }),
+      60
+    );
+    expect(over).toEqual({ key: "user:1", limit: 10, retryAfterSeconds: 8 });
+
+    // 4 + 10 * 0.5 = 9 <= 10
+    expect(
+      findExceededRateLimit(
+        [{ key: "user:1", limit: 10 }],
+        counts({ "user:1": { current: 4, previous: 10, elapsed: 0.5 } }),
+        60
+      )
+    ).toBeNull();
+  });
+
+  it("waits for the next window once the current window alone is over the limit", () => {
+    const over = findExceededRateLimit(
+      [{ key: "user:1", limit: 10 }],
+      counts({ "user:1": { current: 11, previous: 3, elapsed: 0.5 } }),
+      60
+    );
+    expect(over?.retryAfterSeconds).toBe(30);
+  });
+
+  it("returns the first exceeded rule and at least one second", () => {
+    const over = findExceededRateLimit(
+      [
+        { key: "user:1", limit: 100 },
+        { key: "conversation:1", limit: 2 },
+        { key: "ip:1.2.3.4", limit: 1 },
+      ],
+      counts({
+        "user:1": { current: 3, previous: 0, elapsed: 0.999 },
+        "conversation:1": { current: 3, previous: 0, elapsed: 0.999 },
+        "ip:1.2.3.4": { current: 3, previous: 0, elapsed: 0.999 },
+      }),
+      60
+    );
+    expect(over).toEqual({ key: "conversation:1", limit: 2, retryAfterSeconds: 1 });
+  });
+});
+
+describe("recordRateLimitHits", () => {
+  beforeEach(() => {
+    rpc.mockReset();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("does nothing without keys", async () => {
+    expect((await recordRateLimitHits([], 60)).size).toBe(0);
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
+  it("reads window counts from the rate_limit_hit RPC", async () => {
+    rpc.mockResolvedValue({
+      data: [
+        { limit_key: "user:1", current_hits: "3", previous_hits: 7, window_elapsed: 1.4 },
+        { limit_key: "ip:1.2.3.4", current_hits: null, previous_hits: null, window_elapsed: -1 },
+      ],
+      error: null,
+    });
+    const result = await recordRateLimitHits(["user:1", "ip:1.2.3.4"], 60);
+    expect(rpc).toHaveBeenCalledWith("rate_limit_hit", { p_keys: ["user:1", "ip:1.2.3.4"], p_window_seconds: 60 });
+    expect(result.get("user:1")).toEqual({ current: 3, previous: 7, elapsed: 1 });
+    expect(result.get("ip:1.2.3.4")).toEqual({ current: 0, previous: 0, elapsed: 0 });
+  });
+
+  it("falls back to per-instance memory counters when the RPC fails", async () => {
+    rpc.mockResolvedValue({ data: null, error: { message: "function rate_limit_hit does not exist" } });
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-03-11T12:00:15Z"));
+
+    const key = "user:memory-fallback";
+    await recordRateLimitHits([key], 60);
+    await recordRateLimitHits([key, key], 60);
+    const first = await recordRateLimitHits([key], 60);
+    expect(first.get(key)).toEqual({ current: 3, previous: 0, elapsed: 0.25 });
+
+    // The next window carries the count over as the previous window.
+    vi.setSystemTime(new Date("2026-03-11T12:01:30Z"));
+    expect((await recordRateLimitHits([key], 60)).get(key)).toEqual({ current: 1, previous: 3, elapsed: 0.5 });
+
+    // After a full idle window both counts start over.
+    vi.setSystemTime(new Date("2026-03-11T12:03:00Z"));
+    expect((await recordRateLimitHits([key], 60)).get(key)).toEqual({ current: 1, previous: 0, elapsed: 0 });
+  });
+});
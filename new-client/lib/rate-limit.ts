@@ -0,0 +1,129 @@
+import { supabaseServerAdmin } from "@/lib/supabase/server";
+
+/**
+ * Sliding-window rate limiting.
+ *
+ * Hits are counted per key in fixed windows (the rate_limit_hit RPC). A key's rate is the current
+ * window's count plus the previous window's count weighted by how much of it still falls inside
+ * the sliding window, the usual "sliding window counter" approximation. When the RPC is
+ * unavailable the counts fall back to this server instance's memory, which still stops bursts
+ * against one instance but is not shared across instances.
+ */
+
+export type RateLimitRule = {
+  key: string;
+  limit: number;
+};
+
+export type RateLimitExceeded = {
+  key: string;
+  limit: number;
+  retryAfterSeconds: number;
+};
+
+type WindowCounts = {
+  current: number;
+  previous: number;
+  // How far into the current window we are, from 0 to 1.
+  elapsed: number;
+};
+
+const MEMORY_KEY_LIMIT = 10_000;
+
+const memoryWindows = new Map<string, { windowStart: number; current: number; previous: number }>();
+let warnedMemoryFallback = false;
+
+function recordMemoryHits(keys: string[], windowSeconds: number): Map<string, WindowCounts> {
+  const windowMs = windowSeconds * 1000;
+  const now = Date.now();
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+
+  if (memoryWindows.size > MEMORY_KEY_LIMIT) {
+    for (const [key, entry] of memoryWindows) {
+      if (entry.windowStart < windowStart - windowMs) memoryWindows.delete(key);
+    }
+    if (memoryWindows.size > MEMORY_KEY_LIMIT) memoryWindows.clear();
+  }
+
+  const counts = new Map<string, WindowCounts>();
+  for (const key of new Set(keys)) {
+    const entry = memoryWindows.get(key);
+    let next: { windowStart: number; current: number; previous: number };
+    if (!entry || entry.windowStart < windowStart - windowMs) {
+      next = { windowStart, current: 1, previous: 0 };
+    } else if (entry.windowStart < windowStart) {
+      next = { windowStart, current: 1, previous: entry.current };
+    } else {
+      next = { ...entry, current: entry.current + 1 };
+    }
+    memoryWindows.set(key, next);
+    counts.set(key, { current: next.current, previous: next.previous, elapsed: (now - windowStart) / windowMs });
+  }
+  return counts;
+}
+
+async function recordDatabaseHits(keys: string[], windowSeconds: number): Promise<Map<string, WindowCounts>> {
+  const supabase = await supabaseServerAdmin();
+  const { data, error } = await (supabase as any).rpc("rate_limit_hit", {
+    p_keys: keys,
+    p_window_seconds: windowSeconds,
+  });
+  if (error) {
+    throw new Error(`Failed to record rate limit hits: ${error.message}`);
+  }
+  const counts = new Map<string, WindowCounts>();
+  for (const row of (data ?? []) as Array<{
+    limit_key: string;
+    current_hits: number;
+    previous_hits: number;
+    window_elapsed: number;
+  }>) {
+    counts.set(row.limit_key, {
+      current: Number(row.current_hits) || 0,
+      previous: Number(row.previous_hits) || 0,
+      elapsed: Math.min(1, Math.max(0, Number(row.window_elapsed) || 0)),
+    });
+  }
+  return counts;
+}
+
+/** Counts one hit against every key and returns each key's window counts. */
+export async function recordRateLimitHits(keys: string[], windowSeconds: number) {
+  if (!keys.length) return new Map<string, WindowCounts>();
+  try {
+    return await recordDatabaseHits(keys, windowSeconds);
+  } catch (error) {
+    if (!warnedMemoryFallback) {
+      warnedMemoryFallback = true;
+      console.warn("[rate-limit] Falling back to in-memory counters:", error);
+    }
+    return recordMemoryHits(keys, windowSeconds);
+  }
+}
+
+/** First rule whose sliding-window rate is over its limit, or null when every rule passes. */
+export function findExceededRateLimit(
+  rules: RateLimitRule[],
+  counts: Map<string, WindowCounts>,
+  windowSeconds: number
+): RateLimitExceeded | null {
+  for (const rule of rules) {
+    const count = counts.get(rule.key);
+    if (!count) continue;
+    const rate = count.previous * (1 - count.elapsed) + count.current;
+    if (rate <= rule.limit) continue;
+
+    // The rate drops as the previous window slides out; once the current window alone is over
+    // the limit, nothing clears before the next window starts.
+    const clearsAt =
+      count.current >= rule.limit || count.previous === 0
+        ? 1
+        : 1 - (rule.limit - count.current) / count.previous;
+    return {
+      key: rule.key,
+      limit: rule.limit,
+      retryAfterSeconds: Math.max(1, Math.ceil((clearsAt - count.elapsed) * windowSeconds)),
+    };
+  }
+  return null;
+}
@@ -0,0 +1,111 @@
+import type { RequestTrace, RequestTraceToolCall } from "@/lib/types/request-trace";
+
+/**
+ * Per-turn trace recorder for the chat route. The route fills it in as it goes (the same points
+ * that log to the console) and saves it once the assistant message exists; the message carries
+ * `metadata.traceId` so the trace viewer can find it later.
+ */
+
+// Keep traces bounded; a runaway tool loop shouldn't produce a megabyte of JSON.
+const MAX_TOOL_CALLS = 200;
+const MAX_INCLUDED_MESSAGE_IDS = 500;
+
+export type RequestTraceRecorder = ReturnType<typeof createRequestTrace>;
+
+export function createRequestTrace() {
+  const startMs = Date.now();
+  const trace: RequestTrace = {
+    version: 1,
+    startedAt: new Date(startMs).toISOString(),
+    model: {
+      requested: null,
+      used: null,
+      resolvedFamily: null,
+      effort: null,
+      routedBy: null,
+      downgradedFrom: null,
+      maxOutputTokens: null,
+    },
+    decision: null,
+    context: null,
+    memories: [],
+    web: null,
+    toolCalls: [],
+    usage: null,
+    timings: {},
+    costs: [],
+    totalCostUsd: 0,
+    writer: null,
+    error: null,
+  };
+
+  const elapsed = () => Date.now() - startMs;
+
+  return {
+    id: crypto.randomUUID(),
+    trace,
+    // Records the first time a phase is reached; later calls for the same phase are ignored.
+    mark(phase: string) {
+      if (trace.timings[phase] === undefined) {
+        trace.timings[phase] = elapsed();
+      }
+    },
+    toolCall(call: Omit<RequestTraceToolCall, "atMs">) {
+      if (trace.toolCalls.length >= MAX_TOOL_CALLS) return;
+      trace.toolCalls.push({ ...call, atMs: elapsed() });
+    },
+    cost(label: string, usd: number) {
+      if (!Number.isFinite(usd) || usd <= 0) return;
+      trace.costs.push({ label, usd: Number(usd.toFixed(6)) });
+      trace.totalCostUsd = Number((trace.totalCostUsd + usd).toFixed(6));
+    },
+    setContext(context: NonNullable<RequestTrace["context"]>) {
+      trace.context = {
+        ...context,
+        includedMessageIds: context.includedMessageIds.slice(0, MAX_INCLUDED_MESSAGE_IDS),
+      };
+    },
+  };
+}
+
+export async function saveRequestTrace(
+  supabase: any,
+  params: {
+    recorder: RequestTraceRecorder;
+    userId: string;
+    conversationId: string | null;
+    messageId: string | null;
+  }
+) {
+  params.recorder.mark("complete");
+  try {
+    const { error } = await supabase.from("request_traces").insert({
+      id: params.recorder.id,
+      user_id: params.userId,
+      conversation_id: params.conversationId,
+      message_id: params.messageId,
+      trace: params.recorder.trace,
+    });
+    if (error) {
+      console.warn("[request-trace] Failed to save trace:", error.message);
+    }
+  } catch (err) {
+    console.warn("[request-trace] Failed to save trace:", err);
+  }
+}
+
+/** The writer router runs after the turn in a background job; its output is added to the saved trace. */
+export async function attachWriterToTrace(supabase: any, traceId: string, writer: RequestTrace["writer"]) {
+  const { data, error } = await supabase.from("request_traces").select("trace").eq("id", traceId).maybeSingle();
+  if (error || !data?.trace) {
+    console.warn("[request-trace] Trace not found for writer output:", error?.message ?? traceId);
+    return;
+  }
+  const { error: updateError } = await supabase
+    .from("request_traces")
+    .update({ trace: { ...data.trace, writer } })
+    .eq("id", traceId);
+  if (updateError) {
+    console.warn("[request-trace] Failed to attach writer output:", updateError.message);
+  }
+}
@@ -0,0 +1,211 @@
+import { randomUUID } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+
+import { GUEST_SESSION_COOKIE, attachGuestCookie } from "@/lib/guest-session";
+import { findExceededRateLimit, recordRateLimitHits, type RateLimitRule } from "@/lib/rate-limit";
+import { supabaseServer } from "@/lib/supabase/server";
+import { getCurrentUserIdServer } from "@/lib/supabase/user";
+import { normalizePlanType, type PlanType } from "@/lib/usage-limits";
+
+/**
+ * Shared guard for API route handlers.
+ *
+ * Every exported handler under app/api is wrapped in withRouteGuard (scripts/check-route-guards.mjs
+ * fails the check otherwise). The guard resolves who is calling, rejects callers the route does not
+ * accept with a 401, applies the route class's sliding-window limits with a 429, and hands the
+ * resolved caller to the handler. Signed-in users are limited by user id; guests by their session
+ * and IP, since the cookie is theirs to drop; everyone else by IP. Internal dispatches share the
+ * system class's limit per route class.
+ *
+ * Access levels:
+ * - "user": a signed-in user.
+ * - "guest": a signed-in user, or a guest identified by the guest session cookie (issued here).
+ * - "internal": a signed-in user, or a server-to-server dispatch that `isInternal` accepts.
+ * - "public": anyone; only the per-IP limit applies (sign-in endpoints).
+ * - "system": the handler authenticates the caller itself (cron secrets, signed webhooks, hook
+ *   tokens); only the per-IP limit applies.
+ */
+
+export type RouteAccess = "user" | "guest" | "internal" | "public" | "system";
+
+export type RouteClass = "auth" | "chat" | "search" | "upload" | "proxy" | "standard" | "system";
+
+export type RouteUser = { kind: "user"; userId: string; plan: PlanType };
+export type RouteGuest = { kind: "guest"; guestSessionId: string };
+export type RouteInternal = { kind: "internal" };
+export type RouteAnonymous = { kind: "anonymous" };
+
+export type RouteAuth<A extends RouteAccess> = A extends "user"
+  ? RouteUser
+  : A extends "guest"
+    ? RouteUser | RouteGuest
+    : A extends "internal"
+      ? RouteUser | RouteInternal
+      : RouteAnonymous;
+
+export type RouteGuardOptions<A extends RouteAccess> = {
+  access: A;
+  routeClass: RouteClass;
+} & (A extends "internal" ? { isInternal: (request: NextRequest) => boolean } : { isInternal?: never });
+
+type RouteClassLimits = {
+  windowSeconds: number;
+  perIp: number;
+  // Requests per window for each signed-in plan and for guests. Classes served only to callers
+  // without an identity (public and system routes) have no per-caller limit.
+  perCaller?: Record<PlanType | "guest", number>;
+};
+
+const ROUTE_CLASS_LIMITS: Record<RouteClass, RouteClassLimits> = {
+  // Sign-in endpoints: tight per-IP limit against credential stuffing and email enumeration.
+  auth: { windowSeconds: 600, perIp: 30 },
+  // Model calls (chat turns, drafts, transcription, summaries, automation runs).
+  chat: { windowSeconds: 60, perIp: 60, perCaller: { guest: 6, free: 12, plus: 30, max: 60 } },
+  // Paid search pipeline.
+  search: { windowSeconds: 60, perIp: 30, perCaller: { guest: 2, free: 6, plus: 15, max: 30 } },
+  upload: { windowSeconds: 60, perIp: 60, perCaller: { guest: 5, free: 15, plus: 30, max: 60 } },
+  // Image proxy: a rendered answer can pull in dozens of thumbnails at once.
+  proxy: { windowSeconds: 60, perIp: 600, perCaller: { guest: 120, free: 240, plus: 480, max: 480 } },
+  standard: { windowSeconds: 60, perIp: 600, perCaller: { guest: 60, free: 180, plus: 300, max: 600 } },
+  // Cron ticks, provider webhooks and automation hooks.
+  system: { windowSeconds: 60, perIp: 120 },
+};
+
+// The client can send any x-forwarded-for it likes; our proxy appends the address it saw, so only
+// the last hop (or the proxy's own x-real-ip) can be trusted.
+function getClientIp(request: NextRequest) {
+  const realIp = request.headers.get("x-real-ip")?.trim();
+  if (realIp) return realIp;
+  const forwarded = request.headers.get("x-forwarded-for");
+  if (forwarded) {
+    const last = forwarded.split(",").at(-1)?.trim();
+    if (last) return last;
+  }
+  return "unknown";
+}
+
+async function loadUserPlan(userId: string): Promise<PlanType> {
+  try {
+    const supabase = await supabaseServer();
+    const { data, error } = await supabase
+      .from("user_plans")
+      .select("plan_type")
+      .eq("user_id", userId)
+      .eq("is_active", true)
+      .maybeSingle();
+    if (error) {
+      console.warn("[route-guard] Failed to load plan, assuming free:", error.message);
+      return "free";
+    }
+    return normalizePlanType((data as { plan_type?: string | null } | null)?.plan_type ?? "free");
+  } catch (error) {
+    console.warn("[route-guard] Failed to load plan, assuming free:", error);
+    return "free";
+  }
+}
+
+async function resolveUserId() {
+  try {
+    return await getCurrentUserIdServer();
+  } catch (error) {
+    // An expired or malformed session is the same as no session for access decisions.
+    console.warn("[route-guard] Failed to resolve user:", error);
+    return null;
+  }
+}
+
+function unauthorizedResponse() {
+  return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+}
+
+function rateLimitedResponse(retryAfterSeconds: number) {
+  return NextResponse.json(
+    {
+      error: "Too many requests",
+      message: `Rate limit reached. Try again in ${retryAfterSeconds} second${retryAfterSeconds === 1 ? "" : "s"}.`,
+      retryAfterSeconds,
+    },
+    { status: 429, headers: { "Retry-After": String(retryAfterSeconds) } }
+  );
+}
+
+function withGuestCookie(response: Response, guestSessionId: string) {
+  // Handlers may return plain (or immutable) Responses; re-wrap so the cookie can be set.
+  const next = response instanceof NextResponse ? response : new NextResponse(response.body, response);
+  attachGuestCookie(next, guestSessionId);
+  return next;
+}
+
+export function withRouteGuard<A extends RouteAccess, C = unknown>(
+  options: RouteGuardOptions<A>,
+  handler: (request: NextRequest, context: C, auth: RouteAuth<A>) => Response | Promise<Response>
+) {
+  const limits = ROUTE_CLASS_LIMITS[options.routeClass];
+
+  return async function guardedRoute(request: NextRequest, context: C): Promise<Response> {
+    if (options.access === "internal" && options.isInternal?.(request)) {
+      // Internal dispatches come from our own servers, so one system-class budget per route class
+      // bounds them (a runaway cron loop) without a per-IP key.
+      const internalKey = `system:internal:${options.routeClass}`;
+      const systemLimits = ROUTE_CLASS_LIMITS.system;
+      const counts = await recordRateLimitHits([internalKey], systemLimits.windowSeconds);
+      const exceeded = findExceededRateLimit(
+        [{ key: internalKey, limit: systemLimits.perIp }],
+        counts,
+        systemLimits.windowSeconds
+      );
+      if (exceeded) {
+        console.warn("[route-guard] rate limited", { key: exceeded.key, limit: exceeded.limit });
+        return rateLimitedResponse(exceeded.retryAfterSeconds);
+      }
+      return handler(request, context, { kind: "internal" } as RouteAuth<A>);
+    }
+
+    let auth: RouteUser | RouteGuest | RouteAnonymous = { kind: "anonymous" };
+    let userId: string | null = null;
+    let callerKey: string | null = null;
+    let issuedGuestSessionId: string | null = null;
+
+    if (options.access !== "public" && options.access !== "system") {
+      userId = await resolveUserId();
+      if (userId) {
+        callerKey = `${options.routeClass}:user:${userId}`;
+      } else if (options.access === "guest") {
+        const existing = request.cookies.get(GUEST_SESSION_COOKIE)?.value;
+        const guestSessionId = existing || randomUUID();
+        if (!existing) issuedGuestSessionId = guestSessionId;
+        callerKey = `${options.routeClass}:guest:${guestSessionId}`;
+        auth = { kind: "guest", guestSessionId };
+      } else {
+        return unauthorizedResponse();
+      }
+    }
+
+    // Signed-in users are keyed on their id alone: one IP can front many users (offices, NAT).
+    const ipKey = userId ? null : `${options.routeClass}:ip:${getClientIp(request)}`;
+    const keys = [ipKey, callerKey].filter((key): key is string => Boolean(key));
+    // The plan only decides the caller's limit, so look it up while the hits are recorded.
+    const [counts, plan] = await Promise.all([
+      recordRateLimitHits(keys, limits.windowSeconds),
+      userId ? loadUserPlan(userId) : null,
+    ]);
+    if (userId && plan) {
+      auth = { kind: "user", userId, plan };
+    }
+
+    const rules: RateLimitRule[] = ipKey ? [{ key: ipKey, limit: limits.perIp }] : [];
+    if (callerKey && limits.perCaller) {
+      rules.push({ key: callerKey, limit: limits.perCaller[plan ?? "guest"] });
+    }
+    const exceeded = findExceededRateLimit(rules, counts, limits.windowSeconds);
+    if (exceeded) {
+      console.warn("[route-guard] rate limited", { key: exceeded.key, limit: exceeded.limit });
+      const limited = rateLimitedResponse(exceeded.retryAfterSeconds);
+      if (issuedGuestSessionId) attachGuestCookie(limited, issuedGuestSessionId);
+      return limited;
+    }
+
+    const response = await handler(request, context, auth as RouteAuth<A>);
+    return issuedGuestSessionId ? withGuestCookie(response, issuedGuestSessionId) : response;
+  };
+}
@@ -61,8 +61,14 @@ export async function runDecisionRouter(params: {
   allowLLM?: boolean;
   userId?: string | null;
   conversationId?: string | null;
+  // Offline evals replay fixtures and must not write router samples.
+  recordSample?: boolean;
 }): Promise<DecisionRouterOutput> {
   const { input, allowLLM = true } = params;
+  const recordRouterSample = (sample: DecisionRouterSample) => {
+    if (params.recordSample === false) return;
+    void logDecisionRouterSample(sample);
+  };
   const recentMessages = Array.isArray(input.recentMessages)
     ? input.recentMessages.slice(-6)
     : [];
@@ -245,7 +251,7 @@ Return only the "labels" object matching the output schema.`;
       allowLLM,
     });
     const output = fallback();
-      void logDecisionRouterSample({
+      recordRouterSample({
         promptVersion: "v_current",
         fallbackUsed: true,
         llmMs,
@@ -332,7 +338,7 @@ Return only the "labels" object matching the output schema.`;
 
     if (!validateLabels(labels)) {
       usedFallback = true;
-      void logDecisionRouterSample({
+      recordRouterSample({
         promptVersion: "v_current",
         fallbackUsed: true,
         llmMs,
@@ -404,7 +410,7 @@ Return only the "labels" object matching the output schema.`;
       effort,
       memoryTypesToLoad: Array.isArray(labels.memoryTypesToLoad) ? labels.memoryTypesToLoad : [],
     };
-    void logDecisionRouterSample({
+    recordRouterSample({
       promptVersion: "v_current",
       fallbackUsed: usedFallback,
       llmMs,
@@ -420,7 +426,7 @@ Return only the "labels" object matching the output schema.`;
         allowLLM,
       });
     const output = fallback();
-      void logDecisionRouterSample({
+      recordRouterSample({
         promptVersion: "v_current",
         fallbackUsed: true,
         llmMs,
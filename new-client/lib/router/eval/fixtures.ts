@@ -0,0 +1,129 @@
+import type { DecisionRouterInput, DecisionRouterOutput } from "../decision-router";
+import type { WriterRouterInput, WriterRouterOutput } from "../write-router";
+
+/**
+ * Labelled router fixtures, one JSON object per line.
+ *
+ * `recorded` holds the raw LLM text(s) the router received when the fixture was captured; the
+ * decision router retries once, so a fixture may need two. Fixtures without a recording can
+ * only run in `stub` (deterministic fallback) or `live` mode.
+ */
+
+export type DecisionRouterExpectation = {
+  topicAction?: DecisionRouterOutput["topicAction"];
+  primaryTopicId?: string | null;
+  model?: DecisionRouterOutput["model"];
+  // Other models that count as agreement (e.g. either mini or 5.2 is fine for this prompt).
+  acceptableModels?: DecisionRouterOutput["model"][];
+  effort?: DecisionRouterOutput["effort"];
+};
+
+export type ExpectedMemoryWrite = {
+  type?: string;
+  // Case-insensitive substring the written title or content must contain.
+  contains: string;
+};
+
+export type WriterRouterExpectation = {
+  topicWriteAction?: WriterRouterOutput["topicWrite"]["action"];
+  // Every memory the router should write; anything else it writes is a false positive.
+  memories?: ExpectedMemoryWrite[];
+};
+
+export type DecisionRouterFixture = {
+  id: string;
+  router: "decision";
+  input: DecisionRouterInput;
+  expected: DecisionRouterExpectation;
+  recorded?: string | string[] | null;
+  notes?: string;
+};
+
+export type WriterRouterFixture = {
+  id: string;
+  router: "writer";
+  topicAction: "continue_active" | "new" | "reopen_existing";
+  input: WriterRouterInput;
+  expected: WriterRouterExpectation;
+  recorded?: string | string[] | null;
+  notes?: string;
+};
+
+export type RouterFixture = DecisionRouterFixture | WriterRouterFixture;
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+export function recordedResponses(fixture: RouterFixture): string[] {
+  if (typeof fixture.recorded === "string") return [fixture.recorded];
+  return Array.isArray(fixture.recorded) ? fixture.recorded.filter((r) => typeof r === "string") : [];
+}
+
+/**
+ * Parse a fixture JSONL file. Blank lines and `//` comment lines are skipped; malformed lines
+ * throw with their line number so a broken fixture file never scores as a silent pass.
+ */
+export function parseRouterFixtures(raw: string): RouterFixture[] {
+  const fixtures: RouterFixture[] = [];
+  const seen = new Set<string>();
+  raw.split(/\r?\n/).forEach((line, idx) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("//")) return;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch (err) {
+      throw new Error(`Fixture line ${idx + 1} is not valid JSON: ${(err as Error).message}`);
+    }
+    if (!isRecord(parsed) || typeof parsed.id !== "string" || !isRecord(parsed.input)) {
+      throw new Error(`Fixture line ${idx + 1} needs an "id" and an "input" object`);
+    }
+    if (seen.has(parsed.id)) {
+      throw new Error(`Fixture line ${idx + 1} repeats id "${parsed.id}"`);
+    }
+    seen.add(parsed.id);
+    const expected = isRecord(parsed.expected) ? parsed.expected : {};
+    if (parsed.router === "decision") {
+      fixtures.push({ ...(parsed as DecisionRouterFixture), expected });
+    } else if (parsed.router === "writer") {
+      const topicAction = parsed.topicAction;
+      if (topicAction !== "continue_active" && topicAction !== "new" && topicAction !== "reopen_existing") {
+        throw new Error(`Fixture line ${idx + 1} (writer) needs a topicAction`);
+      }
+      fixtures.push({ ...(parsed as WriterRouterFixture), expected });
+    } else {
+      throw new Error(`Fixture line ${idx + 1} has unknown router "${String(parsed.router)}"`);
+    }
+  });
+  return fixtures;
+}
+
+export function serializeRouterFixtures(fixtures: RouterFixture[]): string {
+  return fixtures.map((fixture) => JSON.stringify(fixture)).join("\n") + "\n";
+}
+
+/**
+ * Seed a decision fixture from a live turn (request trace). The recorded output becomes the
+ * expectation, which is only a starting point: edit it to what the router *should* have said.
+ */
+export function decisionFixtureFromTrace(params: {
+  traceId: string;
+  input: DecisionRouterInput;
+  output: DecisionRouterOutput | null;
+}): DecisionRouterFixture {
+  return {
+    id: `trace-${params.traceId.slice(0, 8)}`,
+    router: "decision",
+    input: params.input,
+    expected: params.output
+      ? {
+          topicAction: params.output.topicAction,
+          primaryTopicId: params.output.primaryTopicId,
+          model: params.output.model,
+          effort: params.output.effort,
+        }
+      : {},
+    notes: `Captured from request trace ${params.traceId}`,
+  };
+}
@@ -0,0 +1,57 @@
+import { DEFAULT_CAPABILITIES } from "@/lib/providers/shared";
+import type { ChatCompletionResult, ChatProvider } from "@/lib/providers/types";
+
+/**
+ * Stand-in for the router's LLM provider during evals.
+ *
+ * - `replay`: serves queued recorded responses in order and fails once they run out, which the
+ *   routers treat like any other LLM error (they fall back).
+ * - `record`: forwards to the real provider and keeps every response so fixtures can be refreshed.
+ */
+export type ReplayProvider = ChatProvider & {
+  load(responses: string[]): void;
+  // Responses captured (record mode) or consumed (replay mode) since the last load().
+  drain(): string[];
+};
+
+export function createReplayProvider(options: { id: string; upstream?: ChatProvider | null }): ReplayProvider {
+  const upstream = options.upstream ?? null;
+  let queue: string[] = [];
+  let seen: string[] = [];
+
+  return {
+    id: options.id,
+    kind: "openai-compatible",
+    label: upstream ? `${upstream.label} (recording)` : "Router eval replay",
+    baseURL: upstream?.baseURL ?? "replay://router-eval",
+    capabilities: upstream?.capabilities ?? DEFAULT_CAPABILITIES,
+    getMissingConfig() {
+      return upstream ? upstream.getMissingConfig() : null;
+    },
+    async streamResponse() {
+      throw new Error("Router eval provider does not stream");
+    },
+    async complete(request): Promise<ChatCompletionResult> {
+      if (upstream) {
+        const result = await upstream.complete(request);
+        seen.push(result.text);
+        return result;
+      }
+      const next = queue.shift();
+      if (next === undefined) {
+        throw new Error(`No recorded response left for ${request.schemaName ?? "router"} call`);
+      }
+      seen.push(next);
+      return { text: next, usage: { input_tokens: 0, output_tokens: 0 } };
+    },
+    load(responses) {
+      queue = [...responses];
+      seen = [];
+    },
+    drain() {
+      const drained = seen;
+      seen = [];
+      return drained;
+    },
+  };
+}
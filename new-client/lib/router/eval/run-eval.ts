@@ -0,0 +1,334 @@
+import { getChatProvider, registerChatProvider } from "@/lib/providers/registry";
+import { runDecisionRouter, type DecisionRouterOutput } from "../decision-router";
+import { runWriterRouter, type WriterRouterOutput } from "../write-router";
+import {
+  recordedResponses,
+  type DecisionRouterFixture,
+  type ExpectedMemoryWrite,
+  type RouterFixture,
+  type WriterRouterFixture,
+} from "./fixtures";
+import { createReplayProvider } from "./replay-provider";
+
+// Both routers call DeepInfra through callDeepInfraLlama's default provider.
+const ROUTER_PROVIDER_ID = "deepinfra";
+
+/**
+ * - `replay`: feed each fixture its recorded LLM text (no network).
+ * - `stub`: run with the LLM disabled, i.e. score the deterministic fallbacks (no network).
+ * - `live`: call the real router model and capture its responses for re-recording.
+ */
+export type RouterEvalMode = "replay" | "stub" | "live";
+
+export type RouterEvalCheck = {
+  metric: "topicAction" | "primaryTopic" | "model" | "effort" | "topicWrite";
+  expected: string;
+  actual: string;
+  pass: boolean;
+};
+
+export type MemoryWriteScore = {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  unexpected: string[];
+  missing: string[];
+};
+
+export type RouterEvalFixtureResult = {
+  id: string;
+  router: RouterFixture["router"];
+  skipped: string | null;
+  checks: RouterEvalCheck[];
+  memory: MemoryWriteScore | null;
+  output: DecisionRouterOutput | WriterRouterOutput | null;
+  // Responses the router consumed (replay) or produced (live).
+  responses: string[];
+};
+
+export type RouterEvalRatio = { hits: number; total: number; rate: number | null };
+
+export type RouterEvalReport = {
+  mode: RouterEvalMode;
+  generatedAt: string;
+  metrics: {
+    topicActionAccuracy: RouterEvalRatio;
+    modelAgreement: RouterEvalRatio;
+    effortAgreement: RouterEvalRatio;
+    topicWriteAccuracy: RouterEvalRatio;
+    memoryWritePrecision: RouterEvalRatio;
+    memoryWriteRecall: RouterEvalRatio;
+  };
+  results: RouterEvalFixtureResult[];
+};
+
+function ratio(hits: number, total: number): RouterEvalRatio {
+  return { hits, total, rate: total > 0 ? hits / total : null };
+}
+
+function check(
+  metric: RouterEvalCheck["metric"],
+  expected: string | null | undefined,
+  actual: string | null | undefined,
+  pass?: boolean
+): RouterEvalCheck {
+  const expectedText = expected ?? "null";
+  const actualText = actual ?? "null";
+  return { metric, expected: expectedText, actual: actualText, pass: pass ?? expectedText === actualText };
+}
+
+function scoreDecision(fixture: DecisionRouterFixture, output: DecisionRouterOutput): RouterEvalCheck[] {
+  const { expected } = fixture;
+  const checks: RouterEvalCheck[] = [];
+  if (expected.topicAction) {
+    checks.push(check("topicAction", expected.topicAction, output.topicAction));
+  }
+  if (expected.primaryTopicId !== undefined) {
+    checks.push(check("primaryTopic", expected.primaryTopicId, output.primaryTopicId));
+  }
+  if (expected.model) {
+    const accepted = [expected.model, ...(expected.acceptableModels ?? [])];
+    checks.push(check("model", accepted.join(" | "), output.model, accepted.includes(output.model)));
+  }
+  if (expected.effort) {
+    checks.push(check("effort", expected.effort, output.effort));
+  }
+  return checks;
+}
+
+function memoryMatches(expected: ExpectedMemoryWrite, written: { type: string; title: string; content: string }) {
+  if (expected.type && expected.type.toLowerCase() !== (written.type || "").toLowerCase()) return false;
+  const haystack = `${written.title ?? ""}\n${written.content ?? ""}`.toLowerCase();
+  return haystack.includes(expected.contains.toLowerCase());
+}
+
+function scoreMemoryWrites(
+  expected: ExpectedMemoryWrite[],
+  written: WriterRouterOutput["memoriesToWrite"]
+): MemoryWriteScore {
+  const unmatched = [...expected];
+  const unexpected: string[] = [];
+  let truePositives = 0;
+  for (const memory of written) {
+    const idx = unmatched.findIndex((candidate) => memoryMatches(candidate, memory));
+    if (idx >= 0) {
+      unmatched.splice(idx, 1);
+      truePositives += 1;
+    } else {
+      unexpected.push(`[${memory.type}] ${memory.title}`);
+    }
+  }
+  return {
+    truePositives,
+    falsePositives: unexpected.length,
+    falseNegatives: unmatched.length,
+    unexpected,
+    missing: unmatched.map((m) => `${m.type ? `[${m.type}] ` : ""}~"${m.contains}"`),
+  };
+}
+
+async function withQuietConsole<T>(quiet: boolean, fn: () => Promise<T>): Promise<T> {
+  if (!quiet) return fn();
+  const original = { log: console.log, warn: console.warn, error: console.error };
+  console.log = () => {};
+  console.warn = () => {};
+  console.error = () => {};
+  try {
+    return await fn();
+  } finally {
+    Object.assign(console, original);
+  }
+}
+
+/**
+ * Replay fixtures through runDecisionRouter / runWriterRouter and score the outputs.
+ * The router's provider is swapped for the duration of the run and restored afterwards.
+ */
+export async function runRouterEval(
+  fixtures: RouterFixture[],
+  options?: { mode?: RouterEvalMode; quiet?: boolean }
+): Promise<RouterEvalReport> {
+  const mode = options?.mode ?? "replay";
+  const quiet = options?.quiet !== false;
+  const upstream = mode === "live" ? getChatProvider(ROUTER_PROVIDER_ID) : null;
+  const provider = createReplayProvider({ id: ROUTER_PROVIDER_ID, upstream });
+  const previous = registerChatProvider(provider);
+
+  const results: RouterEvalFixtureResult[] = [];
+  try {
+    for (const fixture of fixtures) {
+      const recordings = recordedResponses(fixture);
+      if (mode === "replay" && !recordings.length) {
+        results.push({
+          id: fixture.id,
+          router: fixture.router,
+          skipped: "no recorded response",
+          checks: [],
+          memory: null,
+          output: null,
+          responses: [],
+        });
+        continue;
+      }
+      provider.load(mode === "replay" ? recordings : []);
+      const allowLLM = mode !== "stub";
+
+      if (fixture.router === "decision") {
+        const output = await withQuietConsole(quiet, () =>
+          runDecisionRouter({ input: fixture.input, allowLLM, recordSample: false })
+        );
+        results.push({
+          id: fixture.id,
+          router: "decision",
+          skipped: null,
+          checks: scoreDecision(fixture, output),
+          memory: null,
+          output,
+          responses: provider.drain(),
+        });
+      } else {
+        const writerFixture: WriterRouterFixture = fixture;
+        const output = await withQuietConsole(quiet, () =>
+          runWriterRouter(writerFixture.input, writerFixture.topicAction, { allowLLM })
+        );
+        const checks = writerFixture.expected.topicWriteAction
+          ? [check("topicWrite", writerFixture.expected.topicWriteAction, output.topicWrite.action)]
+          : [];
+        results.push({
+          id: fixture.id,
+          router: "writer",
+          skipped: null,
+          checks,
+          memory: writerFixture.expected.memories
+            ? scoreMemoryWrites(writerFixture.expected.memories, output.memoriesToWrite)
+            : null,
+          output,
+          responses: provider.drain(),
+        });
+      }
+    }
+  } finally {
+    if (previous) registerChatProvider(previous);
+  }
+
+  const tally = (metric: RouterEvalCheck["metric"]) => {
+    const checks = results.flatMap((r) => r.checks.filter((c) => c.metric === metric));
+    return ratio(checks.filter((c) => c.pass).length, checks.length);
+  };
+  const memoryScores = results.map((r) => r.memory).filter((m): m is MemoryWriteScore => Boolean(m));
+  const truePositives = memoryScores.reduce((sum, m) => sum + m.truePositives, 0);
+  const falsePositives = memoryScores.reduce((sum, m) => sum + m.falsePositives, 0);
+  const falseNegatives = memoryScores.reduce((sum, m) => sum + m.falseNegatives, 0);
+
+  return {
+    mode,
+    generatedAt: new Date().toISOString(),
+    metrics: {
+      topicActionAccuracy: tally("topicAction"),
+      modelAgreement: tally("model"),
+      effortAgreement: tally("effort"),
+      topicWriteAccuracy: tally("topicWrite"),
+      memoryWritePrecision: ratio(truePositives, truePositives + falsePositives),
+      memoryWriteRecall: ratio(truePositives, truePositives + falseNegatives),
+    },
+    results,
+  };
+}
+
+/** Copy live responses back onto the fixtures so the next replay run uses them. */
+export function applyRecordedResponses(fixtures: RouterFixture[], report: RouterEvalReport): RouterFixture[] {
+  const byId = new Map(report.results.map((r) => [r.id, r] as const));
+  return fixtures.map((fixture) => {
+    const responses = byId.get(fixture.id)?.responses ?? [];
+    return responses.length ? { ...fixture, recorded: responses.length === 1 ? responses[0] : responses } : fixture;
+  });
+}
+
+function formatRate(value: RouterEvalRatio) {
+  if (value.rate === null) return "n/a";
+  return `${(value.rate * 100).toFixed(1)}% (${value.hits}/${value.total})`;
+}
+
+function formatDelta(current: RouterEvalRatio, baseline?: RouterEvalRatio) {
+  if (!baseline || current.rate === null || baseline.rate === null) return "";
+  const delta = (current.rate - baseline.rate) * 100;
+  if (Math.abs(delta) < 0.05) return "  (=)";
+  return `  (${delta > 0 ? "+" : ""}${delta.toFixed(1)} pts)`;
+}
+
+const METRIC_LABELS: Array<[keyof RouterEvalReport["metrics"], string]> = [
+  ["topicActionAccuracy", "Topic action accuracy"],
+  ["modelAgreement", "Model choice agreement"],
+  ["effortAgreement", "Effort agreement"],
+  ["topicWriteAccuracy", "Topic write accuracy"],
+  ["memoryWritePrecision", "Memory write precision"],
+  ["memoryWriteRecall", "Memory write recall"],
+];
+
+function failureLines(result: RouterEvalFixtureResult): string[] {
+  const lines = result.checks
+    .filter((c) => !c.pass)
+    .map((c) => `${c.metric}: expected ${c.expected}, got ${c.actual}`);
+  if (result.memory?.unexpected.length) {
+    lines.push(`memory: unexpected ${result.memory.unexpected.join("; ")}`);
+  }
+  if (result.memory?.missing.length) {
+    lines.push(`memory: missing ${result.memory.missing.join("; ")}`);
+  }
+  return lines;
+}
+
+/** Fixtures scored in both runs whose pass/fail outcome changed. */
+export function compareRouterEvalReports(report: RouterEvalReport, baseline: RouterEvalReport) {
+  const baselineById = new Map(baseline.results.map((r) => [r.id, r] as const));
+  const regressed: string[] = [];
+  const fixed: string[] = [];
+  for (const result of report.results) {
+    const before = baselineById.get(result.id);
+    if (result.skipped || !before || before.skipped) continue;
+    const failedBefore = failureLines(before).length > 0;
+    const failedNow = failureLines(result).length > 0;
+    if (failedNow && !failedBefore) regressed.push(result.id);
+    if (!failedNow && failedBefore) fixed.push(result.id);
+  }
+  return { regressed, fixed };
+}
+
+/**
+ * Plain-text report. With a baseline report (e.g. from before a prompt edit) it adds metric
+ * deltas and lists fixtures that regressed or were fixed.
+ */
+export function formatRouterEvalReport(report: RouterEvalReport, baseline?: RouterEvalReport | null): string {
+  const lines: string[] = [];
+  const scored = report.results.filter((r) => !r.skipped);
+  const skipped = report.results.filter((r) => r.skipped);
+  lines.push(`Router eval (${report.mode}) - ${scored.length} scored, ${skipped.length} skipped`);
+  lines.push("");
+  for (const [key, label] of METRIC_LABELS) {
+    const value = report.metrics[key];
+    if (value.total === 0 && !baseline?.metrics[key]?.total) continue;
+    lines.push(`  ${label.padEnd(24)} ${formatRate(value)}${formatDelta(value, baseline?.metrics[key])}`);
+  }
+
+  const failing = scored.filter((r) => failureLines(r).length > 0);
+  if (failing.length) {
+    lines.push("", "Mismatches:");
+    for (const result of failing) {
+      lines.push(`  - ${result.id} (${result.router})`);
+      failureLines(result).forEach((line) => lines.push(`      ${line}`));
+    }
+  }
+
+  if (baseline) {
+    const { regressed, fixed } = compareRouterEvalReports(report, baseline);
+    lines.push("", `Compared with baseline from ${baseline.generatedAt}:`);
+    lines.push(`  Regressed: ${regressed.length ? regressed.join(", ") : "none"}`);
+    lines.push(`  Fixed:     ${fixed.length ? fixed.join(", ") : "none"}`);
+  }
+
+  if (skipped.length) {
+    lines.push("", "Skipped:");
+    skipped.forEach((r) => lines.push(`  - ${r.id}: ${r.skipped}`));
+  }
+  return lines.join("\n");
+}
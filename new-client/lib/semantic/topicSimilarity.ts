@@ -63,7 +63,7 @@ function trimToTokenLimit(text: string, encoder: ReturnType<typeof encodingForMo
   return { text: trimmed, tokens: maxTokens, truncated: true };
 }
 
-function cosineSimilarity(a: number[], b: number[]): number {
+export function cosineSimilarity(a: number[], b: number[]): number {
   if (!a.length || !b.length || a.length !== b.length) return 0;
   let dot = 0;
   let normA = 0;
@@ -295,3 +295,89 @@ export async function computeTopicSemantics(
     return null;
   }
 }
+
+/**
+ * Embed arbitrary texts with the same model/tokenizer limits used for topic similarity.
+ * Returns one embedding per input (in order), or null when embeddings are unavailable.
+ */
+export async function embedTexts(
+  inputs: string[],
+  options?: { userId?: string | null; conversationId?: string | null; source?: string }
+): Promise<number[][] | null> {
+  if (!Array.isArray(inputs) || inputs.length === 0) return [];
+
+  const client = getOpenAIClient();
+  if (!client) return null;
+
+  const encoder = getEmbeddingEncoder();
+  const prepared = inputs.map((input) => {
+    const normalized = normalizeText(input);
+    const { text, tokens } = trimToTokenLimit(normalized || " ", encoder, MAX_ITEM_TOKENS);
+    return { text, tokens };
+  });
+
+  const batches: typeof prepared[] = [];
+  let currentBatch: typeof prepared = [];
+  let currentTokens = 0;
+  for (const item of prepared) {
+    const wouldExceed =
+      item.tokens + currentTokens > MAX_BATCH_TOKENS ||
+      currentBatch.length >= FALLBACK_MAX_ITEMS_PER_BATCH;
+    if (currentBatch.length && wouldExceed) {
+      batches.push(currentBatch);
+      currentBatch = [];
+      currentTokens = 0;
+    }
+    currentBatch.push(item);
+    currentTokens += item.tokens;
+  }
+  if (currentBatch.length) {
+    batches.push(currentBatch);
+  }
+
+  try {
+    const embeddings: number[][] = [];
+    let totalEmbeddingTokens = 0;
+    for (const chunk of batches) {
+      totalEmbeddingTokens += chunk.reduce((sum, item) => sum + item.tokens, 0);
+      const { data: response, response: rawResponse } = await client.embeddings
+        .create({
+          model: EMBEDDING_MODEL,
+          input: chunk.map((item) => item.text),
+        })
+        .withResponse();
+      const requestId = getOpenAIRequestId(response, rawResponse);
+      if (requestId) {
+        console.log("[semantic] OpenAI request id", { requestId });
+      }
+      const sorted = [...(response.data || [])].sort((a, b) => a.index - b.index);
+      for (let i = 0; i < chunk.length; i++) {
+        embeddings.push((sorted[i]?.embedding as number[] | undefined) ?? []);
+      }
+    }
+
+    if (totalEmbeddingTokens > 0 && options?.userId) {
+      const estimatedCost = calculateEmbeddingCost(totalEmbeddingTokens);
+      try {
+        await logUsageRecord({
+          userId: options.userId,
+          conversationId: options.conversationId ?? null,
+          model: EMBEDDING_MODEL,
+          inputTokens: totalEmbeddingTokens,
+          cachedTokens: 0,
+          outputTokens: 0,
+          estimatedCost,
+          eventType: "embedding",
+          metadata: { source: options.source ?? "embed_texts" },
+        });
+      } catch (err) {
+        console.warn("[semantic] Failed to log embedding usage:", err);
+      }
+    }
+
+    return embeddings;
+  } catch (error) {
+    console.error("[semantic] Failed to embed texts:", error);
+    return null;
+  }
+}
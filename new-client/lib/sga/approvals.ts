@@ -0,0 +1,413 @@
+import type { SgaApproval, SgaApprovalStatus, SgaInstance, SgaWorldState } from "@/lib/types/sga";
+
+import {
+  actionTaskId,
+  approvalKey,
+  executeApprovedAction,
+  type ActionOutcome,
+  type SgaApprovalReviews,
+  type SgaLogInput,
+} from "./governor";
+import { readLedger } from "./policy";
+
+// Human approval queue for actions listed in SgaPolicy.approvalRequiredActions. The governor parks
+// each such action on the run that proposed it; approve executes it and resumes the run, reject
+// cancels it, and pending rows expire after policy.approvalExpiryMinutes. Every decision is logged
+// as human_feedback. All functions take the caller's client so cron and user routes share them.
+
+const MAX_LISTED_APPROVALS = 50;
+
+type OpenTask = SgaWorldState["openTasks"][number];
+
+export type SgaApprovalLogRow = SgaLogInput & {
+  run_id: string;
+  instance_id: string;
+  created_at: string;
+};
+
+function toNumber(value: unknown, fallback = 0) {
+  const parsed = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+function mapApprovalRow(row: any): SgaApproval {
+  const request = row?.request && typeof row.request === "object" ? row.request : {};
+  const result = row?.result && typeof row.result === "object" ? row.result : null;
+  return {
+    id: row.id,
+    instanceId: row.instance_id,
+    runId: row.run_id,
+    cycleId: row.cycle_id ?? null,
+    connectionId: row.connection_id,
+    connectionName: row.connection_name ?? "",
+    action: row.action,
+    request: {
+      method: request.method ?? "POST",
+      url: typeof request.url === "string" ? request.url : "",
+      body: request.body && typeof request.body === "object" ? request.body : {},
+    },
+    rationale: row.rationale ?? "",
+    riskLevel: row.risk_level ?? "low",
+    estimatedCostUsd: toNumber(row.estimated_cost_usd),
+    status: row.status as SgaApprovalStatus,
+    decisionNote: row.decision_note ?? null,
+    decidedAt: row.decided_at ?? null,
+    result: result
+      ? {
+          ok: Boolean(result.ok),
+          status: typeof result.status === "number" ? result.status : null,
+          verification: typeof result.verification === "string" ? result.verification : null,
+          preview: typeof result.preview === "string" ? result.preview : "",
+        }
+      : null,
+    expiresAt: row.expires_at,
+    createdAt: row.created_at,
+  };
+}
+
+function feedbackLog(approval: SgaApproval, decision: string, content: string, extra?: Record<string, unknown>) {
+  return {
+    run_id: approval.runId,
+    instance_id: approval.instanceId,
+    log_type: "human_feedback",
+    phase: 0,
+    severity: decision === "approved" ? "info" : "low",
+    content,
+    metadata: {
+      approvalId: approval.id,
+      decision,
+      connection: approval.connectionName,
+      action: approval.action,
+      riskLevel: approval.riskLevel,
+      ...extra,
+    },
+    created_at: new Date().toISOString(),
+  } satisfies SgaApprovalLogRow;
+}
+
+async function insertLogs(supabase: any, logs: SgaApprovalLogRow[]) {
+  if (logs.length === 0) return;
+  const { error } = await supabase.from("governor_logs").insert(logs);
+  if (error) {
+    throw new Error(`Failed to write governor logs: ${error.message}`);
+  }
+}
+
+async function updateRunTasks(supabase: any, runId: string, update: (tasks: OpenTask[]) => OpenTask[], status?: string) {
+  const { data: run } = await supabase.from("governor_runs").select("id, phase_data").eq("id", runId).maybeSingle();
+  if (!run) return;
+  const phaseData = run.phase_data && typeof run.phase_data === "object" ? run.phase_data : {};
+  const tasks = Array.isArray(phaseData.openTasks) ? (phaseData.openTasks as OpenTask[]) : [];
+  await supabase
+    .from("governor_runs")
+    .update({
+      ...(status ? { status } : {}),
+      phase_data: { ...phaseData, openTasks: update(tasks) },
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", runId);
+}
+
+/**
+ * Reflects a decided approval in the world state: the action's open task is updated on the run
+ * that proposed it and on the latest completed run (which is what the console shows). Once the
+ * proposing run has nothing left pending it is resumed (completed) if anything was approved and
+ * cancelled otherwise.
+ */
+async function settleApproval(supabase: any, approval: SgaApproval, taskStatus: OpenTask["status"] | null) {
+  const taskId = actionTaskId(approval.connectionId, approval.action);
+  const applyTask = (tasks: OpenTask[]) =>
+    taskStatus === null
+      ? tasks.filter((task) => task.id !== taskId)
+      : tasks.map((task) =>
+          task.id === taskId
+            ? { id: task.id, label: `${approval.action} via ${approval.connectionName}`, status: taskStatus }
+            : task
+        );
+
+  const { data: siblings } = await supabase
+    .from("governor_approvals")
+    .select("status")
+    .eq("run_id", approval.runId);
+  const statuses = ((siblings as Array<{ status: SgaApprovalStatus }> | null) ?? []).map((row) => row.status);
+  const runStatus = statuses.includes("pending")
+    ? undefined
+    : statuses.some((status) => status === "executed" || status === "failed")
+      ? "completed"
+      : "cancelled";
+  await updateRunTasks(supabase, approval.runId, applyTask, runStatus);
+
+  const { data: latest } = await supabase
+    .from("governor_runs")
+    .select("id")
+    .eq("instance_id", approval.instanceId)
+    .neq("status", "running")
+    .gt("current_phase", 0)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (latest?.id && latest.id !== approval.runId) {
+    await updateRunTasks(supabase, latest.id, applyTask);
+  }
+}
+
+/** Marks overdue pending approvals as expired, logging each and releasing the runs they held. */
+export async function expireSgaApprovals(supabase: any, instanceId: string, now = new Date()) {
+  const { data, error } = await supabase
+    .from("governor_approvals")
+    .update({ status: "expired", decided_at: now.toISOString(), updated_at: now.toISOString() })
+    .eq("instance_id", instanceId)
+    .eq("status", "pending")
+    .lt("expires_at", now.toISOString())
+    .select("*");
+  if (error) {
+    throw new Error(`Failed to expire SGA approvals: ${error.message}`);
+  }
+  const expired = ((data as any[] | null) ?? []).map(mapApprovalRow);
+  await insertLogs(
+    supabase,
+    expired.map((approval) =>
+      feedbackLog(approval, "expired", `Approval for ${approval.action} via ${approval.connectionName} expired without a decision.`)
+    )
+  );
+  for (const approval of expired) {
+    await settleApproval(supabase, approval, null);
+  }
+  return expired;
+}
+
+/**
+ * Reviews the next cycle's decide phase must respect: pending approvals are not requested twice,
+ * and a rejection holds the action back until the rejected request would have expired.
+ */
+export async function loadSgaApprovalReviews(supabase: any, instanceId: string, now = new Date()) {
+  const { data, error } = await supabase
+    .from("governor_approvals")
+    .select("connection_id, action, status")
+    .eq("instance_id", instanceId)
+    .in("status", ["pending", "rejected"])
+    .gt("expires_at", now.toISOString());
+  if (error) {
+    throw new Error(`Failed to load SGA approvals: ${error.message}`);
+  }
+  const reviews: SgaApprovalReviews = new Map();
+  for (const row of (data as Array<{ connection_id: string; action: string; status: string }> | null) ?? []) {
+    const key = approvalKey(row.connection_id, row.action);
+    if (row.status === "rejected") {
+      reviews.set(key, "rejected");
+    } else if (!reviews.has(key)) {
+      reviews.set(key, "pending");
+    }
+  }
+  return reviews;
+}
+
+/**
+ * Creates a pending approval for each action the cycle parked, skipping ones already waiting on a
+ * reviewer, and pauses the run until they are decided.
+ */
+export async function queueSgaApprovals(
+  supabase: any,
+  params: {
+    instance: SgaInstance;
+    runId: string;
+    cycleId: string;
+    outcomes: ActionOutcome[];
+    reviews: SgaApprovalReviews;
+    now?: Date;
+  }
+) {
+  const now = params.now ?? new Date();
+  const expiryMinutes = params.instance.policy?.approvalExpiryMinutes ?? 1440;
+  const expiresAt = new Date(now.getTime() + expiryMinutes * 60_000).toISOString();
+  const queued = new Set<string>();
+  const rows = params.outcomes
+    .filter((outcome) => {
+      const key = approvalKey(outcome.connectionId, outcome.action.action);
+      if (outcome.verdict !== "needs_approval" || !outcome.request) return false;
+      if (params.reviews.has(key) || queued.has(key)) return false;
+      queued.add(key);
+      return true;
+    })
+    .map((outcome) => ({
+      instance_id: params.instance.id,
+      run_id: params.runId,
+      cycle_id: params.cycleId,
+      connection_id: outcome.connectionId,
+      connection_name: outcome.connectionName,
+      action: outcome.action.action,
+      request: outcome.request,
+      rationale: outcome.rationale,
+      risk_level: outcome.action.riskLevel,
+      estimated_cost_usd: outcome.estimatedCostUsd,
+      status: "pending",
+      expires_at: expiresAt,
+      created_at: now.toISOString(),
+      updated_at: now.toISOString(),
+    }));
+  if (rows.length === 0) return [];
+
+  const { data, error } = await supabase.from("governor_approvals").insert(rows).select("*");
+  if (error) {
+    throw new Error(`Failed to queue SGA approvals: ${error.message}`);
+  }
+  const approvals = ((data as any[] | null) ?? []).map(mapApprovalRow);
+  const { data: run } = await supabase.from("governor_runs").select("phase_data").eq("id", params.runId).maybeSingle();
+  await supabase
+    .from("governor_runs")
+    .update({
+      status: "waiting",
+      phase_data: { ...(run?.phase_data ?? {}), pendingApprovalIds: approvals.map((approval) => approval.id) },
+      updated_at: now.toISOString(),
+    })
+    .eq("id", params.runId);
+  return approvals;
+}
+
+export async function listSgaApprovals(supabase: any, instanceId: string) {
+  const { data, error } = await supabase
+    .from("governor_approvals")
+    .select("*")
+    .eq("instance_id", instanceId)
+    .order("created_at", { ascending: false })
+    .limit(MAX_LISTED_APPROVALS);
+  if (error) {
+    throw new Error(`Failed to load SGA approvals: ${error.message}`);
+  }
+  return ((data as any[] | null) ?? []).map(mapApprovalRow);
+}
+
+export async function getSgaApproval(supabase: any, instanceId: string, approvalId: string) {
+  const { data, error } = await supabase
+    .from("governor_approvals")
+    .select("*")
+    .eq("instance_id", instanceId)
+    .eq("id", approvalId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load SGA approval: ${error.message}`);
+  }
+  return data ? mapApprovalRow(data) : null;
+}
+
+/**
+ * Applies a reviewer's decision to a pending approval. Rejecting cancels the action; approving
+ * executes the stored request (still subject to permissions, allow/deny rules and cost caps),
+ * verifies it and charges the instance ledger. Returns the updated approval and the logs written.
+ * Returns null when the approval was no longer pending (decided elsewhere or expired).
+ */
+export async function decideSgaApproval(
+  supabase: any,
+  params: {
+    instance: SgaInstance;
+    approval: SgaApproval;
+    decision: "approve" | "reject";
+    note?: string | null;
+    userId?: string | null;
+  }
+): Promise<{ approval: SgaApproval; logs: SgaApprovalLogRow[] } | null> {
+  const { instance, decision } = params;
+  const note = params.note?.trim() || null;
+  const decidedAt = new Date().toISOString();
+
+  // Claim the row first so two reviewers can't both act on it.
+  const { data: claimed, error: claimError } = await supabase
+    .from("governor_approvals")
+    .update({
+      status: decision === "approve" ? "approved" : "rejected",
+      decision_note: note,
+      decided_by: params.userId ?? null,
+      decided_at: decidedAt,
+      updated_at: decidedAt,
+    })
+    .eq("id", params.approval.id)
+    .eq("instance_id", instance.id)
+    .eq("status", "pending")
+    .gt("expires_at", decidedAt)
+    .select("*")
+    .maybeSingle();
+  if (claimError) {
+    throw new Error(`Failed to update SGA approval: ${claimError.message}`);
+  }
+  if (!claimed) return null;
+  const approval = mapApprovalRow(claimed);
+  const suffix = note ? `: ${note}` : ".";
+
+  if (decision === "reject") {
+    const logs = [
+      feedbackLog(approval, "rejected", `Rejected ${approval.action} via ${approval.connectionName}${suffix}`, { note }),
+    ];
+    await insertLogs(supabase, logs);
+    await settleApproval(supabase, approval, null);
+    return { approval, logs };
+  }
+
+  const logs: SgaApprovalLogRow[] = [
+    feedbackLog(approval, "approved", `Approved ${approval.action} via ${approval.connectionName}${suffix}`, { note }),
+  ];
+  const { data: instanceRow } = await supabase
+    .from("governor_instances")
+    .select("config")
+    .eq("id", instance.id)
+    .maybeSingle();
+  const config: Record<string, unknown> =
+    instanceRow && typeof instanceRow.config === "object" && instanceRow.config !== null ? instanceRow.config : {};
+  const ledger = readLedger(config, new Date());
+  const outcome = instance.policy
+    ? await executeApprovedAction({
+        instance,
+        policy: instance.policy,
+        ledger,
+        approval,
+        log: (entry) =>
+          logs.push({
+            ...entry,
+            run_id: approval.runId,
+            instance_id: approval.instanceId,
+            created_at: new Date().toISOString(),
+          }),
+      })
+    : null;
+
+  const executed = Boolean(outcome?.result?.ok);
+  const result: SgaApproval["result"] = outcome?.result
+    ? {
+        ok: outcome.result.ok,
+        status: outcome.result.status,
+        verification: outcome.verification ?? null,
+        preview: outcome.result.preview,
+      }
+    : {
+        ok: false,
+        status: null,
+        verification: null,
+        preview: outcome ? outcome.reason : "The connection or action is no longer configured.",
+      };
+  const finishedAt = new Date().toISOString();
+  const { data: updated, error: updateError } = await supabase
+    .from("governor_approvals")
+    .update({ status: executed ? "executed" : "failed", result, updated_at: finishedAt })
+    .eq("id", approval.id)
+    .select("*")
+    .maybeSingle();
+  if (updateError || !updated) {
+    throw new Error(`Failed to record SGA approval result: ${updateError?.message ?? "approval missing"}`);
+  }
+
+  if (outcome?.result) {
+    await supabase
+      .from("governor_instances")
+      .update({
+        config: { ...config, governor_ledger: ledger, today_estimated_spend_usd: ledger.todayUsd },
+        updated_at: finishedAt,
+      })
+      .eq("id", instance.id);
+  }
+  await insertLogs(supabase, logs);
+  await settleApproval(
+    supabase,
+    mapApprovalRow(updated),
+    outcome?.verification === "verified" ? "done" : outcome?.result ? "blocked" : "planned"
+  );
+  return { approval: mapApprovalRow(updated), logs };
+}
@@ -0,0 +1,834 @@
+import type { SgaApproval, SgaConnection, SgaInstance, SgaPolicy, SgaWorldState } from "@/lib/types/sga";
+
+import {
+  isEndpointAllowed,
+  liveTransport,
+  normalizeEndpoint,
+  resolveEndpointUrl,
+  stripQuery,
+  type SgaHttpResult,
+  type SgaTransport,
+} from "./http";
+import {
+  API_CALL_COST_USD,
+  canRead,
+  canWrite,
+  chargeLedger,
+  checkSpend,
+  evaluateAction,
+  maxRiskLevel,
+  resolveBudgetCaps,
+  type SgaActionDecision,
+  type SgaBudgetCaps,
+  type SgaLedger,
+} from "./policy";
+
+// One governor cycle after the scheduler hands over: observe -> orient -> decide -> act -> verify.
+// Phases only produce logs and results; the run route owns governor_runs/governor_logs writes.
+
+export const SGA_PHASES = ["scheduler", "observe", "orient", "decide", "act", "verify"] as const;
+export type SgaPhase = (typeof SGA_PHASES)[number];
+
+const MAX_OPEN_TASKS = 25;
+const BUDGET_WARNING_RATIO = 0.8;
+
+type Severity = "info" | "low" | "medium" | "high";
+type OpenTask = SgaWorldState["openTasks"][number];
+type RiskItem = SgaWorldState["riskRegister"][number];
+
+export type SgaLogInput = {
+  log_type: string;
+  phase: number;
+  severity: Severity;
+  content: string;
+  metadata: Record<string, unknown>;
+};
+
+type EndpointResult = {
+  endpoint: string;
+  url?: string;
+  ok: boolean;
+  status: number | null;
+  durationMs: number;
+  preview: string;
+};
+
+export type ConnectionReport = {
+  id: string;
+  name: string;
+  skipped?: boolean;
+  reason?: string;
+  endpoints?: EndpointResult[];
+};
+
+export type ConnectionHealth = {
+  id: string;
+  name: string;
+  status: "healthy" | "degraded" | "down" | "skipped";
+  endpoints: number;
+  failures: number;
+};
+
+export type ActionOutcome = SgaActionDecision & {
+  rationale: string;
+  request: SgaApproval["request"] | null;
+  result?: SgaHttpResult & { url: string };
+  verification?: "verified" | "failed" | "unresolved";
+};
+
+export type SgaPhaseReport = {
+  phase: SgaPhase;
+  status: "completed" | "skipped";
+  costUsd: number;
+  note?: string;
+};
+
+export type SgaCycleResult = {
+  lastPhase: SgaPhase;
+  summary: string;
+  severity: Severity;
+  phases: SgaPhaseReport[];
+  observation: {
+    connectionsChecked: number;
+    endpointsChecked: number;
+    failures: number;
+    results: ConnectionReport[];
+  };
+  health: ConnectionHealth[];
+  actions: ActionOutcome[];
+  constraints: string[];
+  riskRegister: RiskItem[];
+  capabilitiesSummary: SgaWorldState["capabilitiesSummary"];
+  openTasks: OpenTask[];
+  cycleCostUsd: number;
+  ledger: SgaLedger;
+  caps: SgaBudgetCaps;
+};
+
+type CycleContext = {
+  instance: SgaInstance;
+  policy: SgaPolicy;
+  cycleId: string;
+  trigger: string;
+  ledger: SgaLedger;
+  caps: SgaBudgetCaps;
+  startedAtMs: number;
+  log: (entry: SgaLogInput) => void;
+  transport: SgaTransport;
+  phases: SgaPhaseReport[];
+  cycleCostUsd: number;
+};
+
+function phaseIndex(phase: SgaPhase) {
+  return SGA_PHASES.indexOf(phase);
+}
+
+function roundUsd(value: number) {
+  return Math.round(value * 10000) / 10000;
+}
+
+function slug(value: string) {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+}
+
+function startPhase(ctx: CycleContext, phase: SgaPhase) {
+  const index = phaseIndex(phase);
+  ctx.log({
+    log_type: "phase_start",
+    phase: index,
+    severity: "info",
+    content: `Phase ${index} started (${phase}).`,
+    metadata: { trigger: ctx.trigger, phase: index, phaseName: phase },
+  });
+}
+
+function completePhase(ctx: CycleContext, phase: SgaPhase, costUsd: number, content: string, severity: Severity = "info") {
+  const index = phaseIndex(phase);
+  chargeLedger(ctx.ledger, costUsd);
+  ctx.cycleCostUsd = roundUsd(ctx.cycleCostUsd + costUsd);
+  ctx.phases.push({ phase, status: "completed", costUsd: roundUsd(costUsd) });
+  ctx.log({
+    log_type: "phase_complete",
+    phase: index,
+    severity,
+    content: `Phase ${index} completed. ${content}`,
+    metadata: {
+      trigger: ctx.trigger,
+      phase: index,
+      phaseName: phase,
+      costUsd: roundUsd(costUsd),
+      cycleCostUsd: ctx.cycleCostUsd,
+      todaySpendUsd: ctx.ledger.todayUsd,
+      dailyCapUsd: ctx.caps.dailyUsd,
+      monthSpendUsd: ctx.ledger.monthUsd,
+      monthlyCapUsd: ctx.caps.monthlyUsd,
+    },
+  });
+}
+
+/**
+ * Checks a phase's estimated cost and the cycle's elapsed time before it starts. A phase that
+ * doesn't fit is logged as skipped; the caller stops the cycle there.
+ */
+function admitPhase(ctx: CycleContext, phase: SgaPhase, estimatedCostUsd: number) {
+  const elapsedSeconds = (Date.now() - ctx.startedAtMs) / 1000;
+  const reason =
+    elapsedSeconds > ctx.caps.maxCycleSeconds
+      ? `Cycle time budget of ${ctx.caps.maxCycleSeconds}s exhausted (${Math.round(elapsedSeconds)}s elapsed).`
+      : checkSpend(ctx.ledger, ctx.caps, estimatedCostUsd);
+  if (!reason) return true;
+  const index = phaseIndex(phase);
+  ctx.phases.push({ phase, status: "skipped", costUsd: 0, note: reason });
+  ctx.log({
+    log_type: "budget_exceeded",
+    phase: index,
+    severity: "high",
+    content: `Phase ${index} (${phase}) skipped: ${reason}`,
+    metadata: {
+      trigger: ctx.trigger,
+      phase: index,
+      phaseName: phase,
+      estimatedCostUsd: roundUsd(estimatedCostUsd),
+      todaySpendUsd: ctx.ledger.todayUsd,
+      dailyCapUsd: ctx.caps.dailyUsd,
+      monthSpendUsd: ctx.ledger.monthUsd,
+      monthlyCapUsd: ctx.caps.monthlyUsd,
+    },
+  });
+  return false;
+}
+
+function readableEndpoints(connection: SgaConnection) {
+  return (connection.readEndpoints ?? [])
+    .map(normalizeEndpoint)
+    .filter(Boolean)
+    .filter((endpoint) => isEndpointAllowed(endpoint, connection.allowList ?? [], connection.denyList ?? []));
+}
+
+async function readConnection(ctx: CycleContext, connection: SgaConnection, phase: SgaPhase) {
+  const results: EndpointResult[] = [];
+  for (const endpoint of readableEndpoints(connection)) {
+    const resolvedUrl = resolveEndpointUrl(connection, endpoint);
+    if (!resolvedUrl) {
+      results.push({ endpoint, ok: false, status: null, durationMs: 0, preview: "Missing base URL." });
+      continue;
+    }
+    const result = await ctx.transport({ connection, endpoint, url: resolvedUrl, method: "GET" });
+    ctx.log({
+      log_type: "api_call",
+      phase: phaseIndex(phase),
+      severity: result.ok ? "info" : "medium",
+      content: `GET ${stripQuery(resolvedUrl)} -> ${result.status ?? "error"}`,
+      metadata: {
+        connection: connection.name,
+        endpoint,
+        url: stripQuery(resolvedUrl),
+        ok: result.ok,
+        status: result.status,
+        durationMs: result.durationMs,
+        preview: result.preview,
+      },
+    });
+    results.push({
+      endpoint,
+      url: resolvedUrl,
+      ok: result.ok,
+      status: result.status,
+      durationMs: result.durationMs,
+      preview: result.preview,
+    });
+  }
+  return results;
+}
+
+async function observe(ctx: CycleContext): Promise<SgaCycleResult["observation"]> {
+  const reports: ConnectionReport[] = [];
+  const errorSummaries: Array<Record<string, unknown>> = [];
+  let endpointsChecked = 0;
+  let failures = 0;
+
+  for (const connection of ctx.instance.connections ?? []) {
+    if (!canRead(connection)) {
+      reports.push({ id: connection.id, name: connection.name, skipped: true, reason: "Read access disabled" });
+      continue;
+    }
+    if (!(connection.readEndpoints ?? []).map(normalizeEndpoint).filter(Boolean).length) {
+      reports.push({ id: connection.id, name: connection.name, skipped: true, reason: "No read endpoints configured" });
+      continue;
+    }
+    if (!readableEndpoints(connection).length) {
+      reports.push({
+        id: connection.id,
+        name: connection.name,
+        skipped: true,
+        reason: "Allow/deny rules blocked all endpoints",
+      });
+      continue;
+    }
+
+    const endpoints = await readConnection(ctx, connection, "observe");
+    for (const result of endpoints) {
+      if (result.url) endpointsChecked += 1;
+      if (!result.ok) {
+        failures += 1;
+        errorSummaries.push({
+          connection: connection.name,
+          endpoint: result.endpoint,
+          status: result.status,
+          error: result.preview,
+        });
+      }
+    }
+    reports.push({ id: connection.id, name: connection.name, endpoints });
+  }
+
+  if (errorSummaries.length > 0) {
+    ctx.log({
+      log_type: "error",
+      phase: phaseIndex("observe"),
+      severity: failures > 3 ? "high" : "medium",
+      content: "Connector errors detected during observation.",
+      metadata: { trigger: ctx.trigger, errors: errorSummaries.slice(0, 10) },
+    });
+  }
+
+  return { connectionsChecked: reports.length, endpointsChecked, failures, results: reports };
+}
+
+function assessHealth(report: ConnectionReport): ConnectionHealth {
+  const endpoints = report.endpoints ?? [];
+  const failures = endpoints.filter((endpoint) => !endpoint.ok).length;
+  const status = report.skipped
+    ? "skipped"
+    : failures === 0
+      ? "healthy"
+      : failures === endpoints.length
+        ? "down"
+        : "degraded";
+  return { id: report.id, name: report.name, status, endpoints: endpoints.length, failures };
+}
+
+function orient(ctx: CycleContext, observation: SgaCycleResult["observation"]) {
+  const health = observation.results.map(assessHealth);
+  const riskRegister: RiskItem[] = [];
+  for (const item of health) {
+    if (item.status !== "degraded" && item.status !== "down") continue;
+    riskRegister.push({
+      id: `risk-conn-${slug(item.id)}`,
+      label: item.status === "down" ? `${item.name} unreachable` : `${item.name} degraded`,
+      level: item.status === "down" ? "high" : "medium",
+      note: `${item.failures} of ${item.endpoints} endpoints failing in the latest scan.`,
+    });
+  }
+  if (ctx.caps.dailyUsd > 0 && ctx.ledger.todayUsd >= ctx.caps.dailyUsd * BUDGET_WARNING_RATIO) {
+    riskRegister.push({
+      id: "risk-budget-daily",
+      label: "Daily cost budget nearly spent",
+      level: ctx.ledger.todayUsd >= ctx.caps.dailyUsd ? "high" : "medium",
+      note: `$${ctx.ledger.todayUsd.toFixed(3)} of $${ctx.caps.dailyUsd} used today.`,
+    });
+  }
+  if (ctx.ledger.mediumRiskToday >= ctx.policy.riskBudget.maxMediumRiskPerDay) {
+    riskRegister.push({
+      id: "risk-budget-medium",
+      label: "Medium-risk allowance used",
+      level: "low",
+      note: `${ctx.ledger.mediumRiskToday} medium-risk actions executed today; further ones are deferred.`,
+    });
+  }
+  if (riskRegister.length) {
+    ctx.log({
+      log_type: "risk_update",
+      phase: phaseIndex("orient"),
+      severity: maxRiskLevel(riskRegister.map((risk) => risk.level)),
+      content: `Risk register: ${riskRegister.map((risk) => `${risk.label} (${risk.level})`).join("; ")}.`,
+      metadata: { trigger: ctx.trigger, risks: riskRegister },
+    });
+  }
+  return { health, riskRegister };
+}
+
+/**
+ * Key for matching a planned action against the approval queue. `pending` keeps an action parked
+ * without queueing it twice; `rejected` keeps a reviewer's "no" from being re-requested every cycle.
+ */
+export function approvalKey(connectionId: string, action: string) {
+  return `${connectionId}:${action}`;
+}
+
+export type SgaApprovalReviews = Map<string, "pending" | "rejected">;
+
+export function actionTaskId(connectionId: string, action: string) {
+  return `task-action-${slug(connectionId)}-${slug(action)}`;
+}
+
+function buildActionRequest(ctx: CycleContext, connection: SgaConnection, decision: SgaActionDecision, rationale: string) {
+  const url = resolveEndpointUrl(connection, decision.action.endpoint);
+  if (!url) return null;
+  return {
+    method: decision.action.method,
+    url,
+    body: {
+      action: decision.action.action,
+      instanceId: ctx.instance.id,
+      cycleId: ctx.cycleId,
+      trigger: ctx.trigger,
+      reason: rationale,
+    },
+  };
+}
+
+function decide(ctx: CycleContext, health: ConnectionHealth[], reviews: SgaApprovalReviews): ActionOutcome[] {
+  const healthById = new Map(health.map((item) => [item.id, item]));
+  // Decisions draw on a scratch copy of the ledger so several actions can't jointly overshoot a budget.
+  const projected: SgaLedger = { ...ctx.ledger };
+  const decisions: ActionOutcome[] = [];
+  for (const connection of ctx.instance.connections ?? []) {
+    const connectionHealth = healthById.get(connection.id);
+    const failing = connectionHealth?.status === "degraded" || connectionHealth?.status === "down";
+    for (const action of connection.writeActions ?? []) {
+      if (action.trigger === "on_failure" && !failing) continue;
+      let decision = evaluateAction({
+        connection,
+        action,
+        policy: ctx.policy,
+        authorityLevel: ctx.instance.authorityLevel,
+        ledger: projected,
+        caps: ctx.caps,
+      });
+      if (decision.verdict === "needs_approval" && reviews.get(approvalKey(connection.id, action.action)) === "rejected") {
+        decision = { ...decision, verdict: "rejected", reason: "A reviewer rejected this action; it is not requested again until that rejection expires." };
+      }
+      if (decision.verdict === "execute") {
+        chargeLedger(projected, decision.estimatedCostUsd, action.riskLevel);
+      }
+      const rationale =
+        action.trigger === "on_failure" && connectionHealth
+          ? `Remediation for ${connection.name}: ${connectionHealth.failures} of ${connectionHealth.endpoints} read endpoints failing.`
+          : `Scheduled to run every cycle on ${connection.name}.`;
+      decisions.push({ ...decision, rationale, request: buildActionRequest(ctx, connection, decision, rationale) });
+      ctx.log({
+        log_type: "plan_decision",
+        phase: phaseIndex("decide"),
+        severity: decision.verdict === "rejected" ? "medium" : decision.verdict === "needs_approval" ? "low" : "info",
+        content: `${action.action} via ${connection.name}: ${decision.verdict.replace("_", " ")}. ${decision.reason}`,
+        metadata: {
+          trigger: ctx.trigger,
+          connection: connection.name,
+          action: action.action,
+          method: action.method,
+          endpoint: action.endpoint,
+          riskLevel: action.riskLevel,
+          verdict: decision.verdict,
+          reason: decision.reason,
+          rationale,
+          estimatedCostUsd: decision.estimatedCostUsd,
+        },
+      });
+    }
+  }
+  return decisions;
+}
+
+async function executeAction(ctx: CycleContext, connection: SgaConnection, outcome: ActionOutcome): Promise<ActionOutcome> {
+  const request = outcome.request;
+  // Permission is re-checked here so nothing but a write-enabled connection can ever issue a write.
+  if (outcome.verdict !== "execute" || !canWrite(connection) || !request) {
+    return outcome;
+  }
+  const result = await ctx.transport({
+    connection,
+    endpoint: outcome.action.endpoint,
+    url: request.url,
+    method: request.method,
+    body: request.body,
+  });
+  chargeLedger(ctx.ledger, 0, outcome.action.riskLevel);
+  ctx.log({
+    log_type: result.ok ? "action_executed" : "action_failed",
+    phase: phaseIndex("act"),
+    severity: result.ok ? (outcome.action.riskLevel === "low" ? "info" : outcome.action.riskLevel) : "high",
+    content: `${request.method} ${stripQuery(request.url)} (${outcome.action.action}) -> ${result.status ?? "error"}`,
+    metadata: {
+      connection: connection.name,
+      action: outcome.action.action,
+      endpoint: outcome.action.endpoint,
+      url: stripQuery(request.url),
+      riskLevel: outcome.action.riskLevel,
+      ok: result.ok,
+      status: result.status,
+      durationMs: result.durationMs,
+      preview: result.preview,
+      costUsd: outcome.estimatedCostUsd,
+    },
+  });
+  return { ...outcome, result: { ...result, url: request.url } };
+}
+
+async function act(ctx: CycleContext, outcomes: ActionOutcome[]): Promise<ActionOutcome[]> {
+  const connections = new Map((ctx.instance.connections ?? []).map((connection) => [connection.id, connection]));
+  const executed: ActionOutcome[] = [];
+  for (const outcome of outcomes) {
+    const connection = connections.get(outcome.connectionId);
+    executed.push(connection ? await executeAction(ctx, connection, outcome) : outcome);
+  }
+  return executed;
+}
+
+// Returns the number of read requests spent re-checking connections.
+async function verify(ctx: CycleContext, outcomes: ActionOutcome[]) {
+  const connections = new Map((ctx.instance.connections ?? []).map((connection) => [connection.id, connection]));
+  const rechecked = new Map<string, boolean>();
+  let requests = 0;
+  for (const outcome of outcomes) {
+    if (!outcome.result) continue;
+    if (!outcome.result.ok) {
+      outcome.verification = "failed";
+    } else if (outcome.action.trigger === "every_cycle") {
+      outcome.verification = "verified";
+    } else {
+      // Remediations count only once the connection's reads succeed again.
+      const connection = connections.get(outcome.connectionId);
+      let recovered = rechecked.get(outcome.connectionId);
+      if (recovered === undefined && connection) {
+        const results = await readConnection(ctx, connection, "verify");
+        requests += results.filter((result) => result.url).length;
+        recovered = results.length > 0 && results.every((result) => result.ok);
+        rechecked.set(outcome.connectionId, recovered);
+      }
+      outcome.verification = recovered ? "verified" : "unresolved";
+    }
+    ctx.log({
+      log_type: "verify_result",
+      phase: phaseIndex("verify"),
+      severity: outcome.verification === "verified" ? "info" : "medium",
+      content: `${outcome.action.action} via ${outcome.connectionName}: ${outcome.verification}.`,
+      metadata: {
+        connection: outcome.connectionName,
+        action: outcome.action.action,
+        verification: outcome.verification,
+        status: outcome.result.status,
+      },
+    });
+  }
+  return requests;
+}
+
+function actionTaskStatus(outcome: ActionOutcome): OpenTask["status"] | null {
+  switch (outcome.verdict) {
+    case "rejected":
+      return null;
+    case "needs_approval":
+      return "blocked";
+    case "recommend":
+    case "deferred":
+      return "planned";
+    case "execute":
+      // Executed actions that never reached verify stay in progress.
+      if (outcome.verification === "verified") return "done";
+      if (outcome.verification === "failed" || outcome.verification === "unresolved") return "blocked";
+      return "in_progress";
+  }
+}
+
+/**
+ * Open tasks for the world state: one per failing connection and one per non-rejected action.
+ * Unfinished tasks from the previous cycle that weren't planned again are treated as resolved
+ * and shown as done for one cycle before dropping off.
+ */
+function buildOpenTasks(health: ConnectionHealth[], outcomes: ActionOutcome[], previous: OpenTask[]): OpenTask[] {
+  const tasks = new Map<string, OpenTask>();
+  for (const outcome of outcomes) {
+    const status = actionTaskStatus(outcome);
+    if (!status) continue;
+    const id = actionTaskId(outcome.connectionId, outcome.action.action);
+    const suffix = outcome.verdict === "needs_approval" ? " (awaiting approval)" : outcome.verdict === "recommend" ? " (recommended)" : "";
+    tasks.set(id, { id, label: `${outcome.action.action} via ${outcome.connectionName}${suffix}`, status });
+  }
+  for (const item of health) {
+    if (item.status !== "degraded" && item.status !== "down") continue;
+    const id = `task-investigate-${slug(item.id)}`;
+    const remediations = outcomes.filter(
+      (outcome) => outcome.connectionId === item.id && outcome.action.trigger === "on_failure" && outcome.result
+    );
+    const status: OpenTask["status"] = remediations.some((outcome) => outcome.verification === "verified")
+      ? "done"
+      : remediations.length
+        ? "in_progress"
+        : "planned";
+    tasks.set(id, {
+      id,
+      label: `Investigate ${item.name} (${item.failures}/${item.endpoints} endpoints failing)`,
+      status,
+    });
+  }
+  for (const task of previous) {
+    if (task.status === "done" || tasks.has(task.id)) continue;
+    tasks.set(task.id, { ...task, status: "done" });
+  }
+  return Array.from(tasks.values()).slice(0, MAX_OPEN_TASKS);
+}
+
+function describeConstraints(instance: SgaInstance, policy: SgaPolicy, caps: SgaBudgetCaps) {
+  const authority =
+    instance.authorityLevel <= 1
+      ? `AL${instance.authorityLevel}: writes are recommended, never executed.`
+      : `AL${instance.authorityLevel}: executes up to ${instance.authorityLevel === 2 ? "low" : instance.authorityLevel === 3 ? "medium" : "high"}-risk writes.`;
+  const constraints = [
+    authority,
+    "Writes only through connections with write permission.",
+    `Cost caps: $${caps.dailyUsd}/day, $${caps.monthlyUsd}/month, $${caps.perTaskUsd}/task.`,
+    `Risk caps: ${policy.riskBudget.maxMediumRiskPerDay} medium-risk/day, ${policy.riskBudget.maxHighRiskActionsPerWeek} high-risk/week.`,
+  ];
+  if (policy.approvalRequiredActions.length) {
+    constraints.push(`Approval required: ${policy.approvalRequiredActions.join(", ")}.`);
+  }
+  if (policy.forbiddenActions.length) {
+    constraints.push(`Forbidden: ${policy.forbiddenActions.join(", ")}.`);
+  }
+  return constraints;
+}
+
+function describeCapabilities(connections: SgaConnection[]): SgaWorldState["capabilitiesSummary"] {
+  return connections.map((connection) => {
+    const writes = canWrite(connection) ? connection.writeActions ?? [] : [];
+    return {
+      id: connection.id,
+      displayName: connection.name,
+      kind: writes.length ? "action" : "data_source",
+      domainTags: writes.map((action) => action.action),
+      riskLevel: writes.length ? maxRiskLevel(writes.map((action) => action.riskLevel)) : "low",
+    };
+  });
+}
+
+function summarize(result: Pick<SgaCycleResult, "observation" | "actions" | "phases">) {
+  const { observation, actions, phases } = result;
+  const executed = actions.filter((outcome) => outcome.result).length;
+  const verified = actions.filter((outcome) => outcome.verification === "verified").length;
+  const pending = actions.filter((outcome) => outcome.verdict === "needs_approval").length;
+  const parts = [
+    `Observed ${observation.connectionsChecked} connections / ${observation.endpointsChecked} endpoints with ${observation.failures} failures.`,
+  ];
+  if (actions.length) {
+    parts.push(
+      `Planned ${actions.length} actions: ${executed} executed (${verified} verified)${pending ? `, ${pending} awaiting approval` : ""}.`
+    );
+  }
+  const skipped = phases.find((phase) => phase.status === "skipped");
+  if (skipped) {
+    parts.push(`Stopped before ${skipped.phase}: ${skipped.note}`);
+  }
+  return parts.join(" ");
+}
+
+/**
+ * Runs phases 1-5 for an instance. Each phase is admitted against the cost and time budgets
+ * first; a phase that doesn't fit ends the cycle early with whatever the earlier phases produced.
+ */
+export async function runGovernorCycle(params: {
+  instance: SgaInstance;
+  policy: SgaPolicy;
+  cycleId: string;
+  trigger: string;
+  ledger: SgaLedger;
+  previousWorldState: SgaWorldState | null;
+  reviews?: SgaApprovalReviews;
+  log: (entry: SgaLogInput) => void;
+  onPhase?: (phase: SgaPhase) => Promise<void>;
+  transport?: SgaTransport;
+}): Promise<SgaCycleResult> {
+  const { instance, policy } = params;
+  const caps = resolveBudgetCaps(instance, policy);
+  const ctx: CycleContext = {
+    instance,
+    policy,
+    cycleId: params.cycleId,
+    trigger: params.trigger,
+    ledger: params.ledger,
+    caps,
+    startedAtMs: Date.now(),
+    log: params.log,
+    transport: params.transport ?? liveTransport,
+    phases: [],
+    cycleCostUsd: 0,
+  };
+  const connections = instance.connections ?? [];
+  let lastPhase: SgaPhase = "scheduler";
+  let observation: SgaCycleResult["observation"] = {
+    connectionsChecked: 0,
+    endpointsChecked: 0,
+    failures: 0,
+    results: [],
+  };
+  let health: ConnectionHealth[] = [];
+  let riskRegister: RiskItem[] = params.previousWorldState?.riskRegister ?? [];
+  let outcomes: ActionOutcome[] = [];
+  let decided = false;
+
+  const enter = async (phase: SgaPhase, estimatedCostUsd: number) => {
+    if (!admitPhase(ctx, phase, estimatedCostUsd)) return false;
+    lastPhase = phase;
+    await params.onPhase?.(phase);
+    return true;
+  };
+
+  const readCount = connections
+    .filter(canRead)
+    .reduce((sum, connection) => sum + readableEndpoints(connection).length, 0);
+  const runPhases = async () => {
+    if (!(await enter("observe", readCount * API_CALL_COST_USD))) return;
+    startPhase(ctx, "observe");
+    observation = await observe(ctx);
+    completePhase(
+      ctx,
+      "observe",
+      observation.endpointsChecked * API_CALL_COST_USD,
+      summarize({ observation, actions: [], phases: [] }),
+      observation.failures > 0 ? "medium" : "info"
+    );
+
+    if (!(await enter("orient", 0))) return;
+    startPhase(ctx, "orient");
+    ({ health, riskRegister } = orient(ctx, observation));
+    const failing = health.filter((item) => item.status === "degraded" || item.status === "down").length;
+    completePhase(ctx, "orient", 0, `${failing} failing connections, ${riskRegister.length} open risks.`);
+
+    if (!(await enter("decide", 0))) return;
+    startPhase(ctx, "decide");
+    outcomes = decide(ctx, health, params.reviews ?? new Map());
+    decided = true;
+    const runnable = outcomes.filter((outcome) => outcome.verdict === "execute");
+    completePhase(ctx, "decide", 0, `${outcomes.length} candidate actions, ${runnable.length} cleared to execute.`);
+
+    if (!runnable.length) return;
+    const actCost = runnable.reduce((sum, outcome) => sum + outcome.estimatedCostUsd, 0);
+    if (!(await enter("act", actCost))) return;
+    startPhase(ctx, "act");
+    outcomes = await act(ctx, outcomes);
+    const executed = outcomes.filter((outcome) => outcome.result);
+    completePhase(
+      ctx,
+      "act",
+      executed.reduce((sum, outcome) => sum + outcome.estimatedCostUsd, 0),
+      `${executed.length} actions executed, ${executed.filter((outcome) => !outcome.result?.ok).length} failed.`,
+      executed.some((outcome) => !outcome.result?.ok) ? "medium" : "info"
+    );
+
+    const recheckCount = new Set(
+      executed
+        .filter((outcome) => outcome.result?.ok && outcome.action.trigger === "on_failure")
+        .map((outcome) => outcome.connectionId)
+    ).size;
+    if (!(await enter("verify", recheckCount * API_CALL_COST_USD))) return;
+    startPhase(ctx, "verify");
+    const requests = await verify(ctx, outcomes);
+    const verified = outcomes.filter((outcome) => outcome.verification === "verified").length;
+    completePhase(ctx, "verify", requests * API_CALL_COST_USD, `${verified} of ${executed.length} actions verified.`);
+  };
+  await runPhases();
+
+  const openTasks = decided
+    ? buildOpenTasks(health, outcomes, params.previousWorldState?.openTasks ?? [])
+    : params.previousWorldState?.openTasks ?? [];
+  const actions = outcomes;
+  const phases = ctx.phases;
+  const summary = summarize({ observation, actions, phases });
+  const severity: Severity = phases.some((phase) => phase.status === "skipped")
+    ? "high"
+    : riskRegister.some((risk) => risk.level === "high") || actions.some((outcome) => outcome.verification === "failed")
+      ? "high"
+      : observation.failures > 0 || riskRegister.length > 0
+        ? "medium"
+        : "info";
+
+  return {
+    lastPhase,
+    summary,
+    severity,
+    phases,
+    observation,
+    health,
+    actions,
+    constraints: describeConstraints(instance, policy, caps),
+    riskRegister,
+    capabilitiesSummary: describeCapabilities(connections),
+    openTasks,
+    cycleCostUsd: ctx.cycleCostUsd,
+    ledger: ctx.ledger,
+    caps,
+  };
+}
+
+/**
+ * Runs one action a reviewer approved, outside the cycle that proposed it. The approval stands in
+ * for policy sign-off (see evaluateAction), the request goes out exactly as it was shown for review
+ * (and is refused if the connection now resolves it to a different URL or method), and the result
+ * is verified like any other action. Null when the connection or action is gone.
+ */
+export async function executeApprovedAction(params: {
+  instance: SgaInstance;
+  policy: SgaPolicy;
+  ledger: SgaLedger;
+  approval: Pick<SgaApproval, "connectionId" | "action" | "request" | "rationale" | "cycleId">;
+  log: (entry: SgaLogInput) => void;
+}): Promise<ActionOutcome | null> {
+  const { instance, policy, approval } = params;
+  const connection = (instance.connections ?? []).find((item) => item.id === approval.connectionId);
+  const action = connection?.writeActions?.find((item) => item.action === approval.action);
+  if (!connection || !action) return null;
+
+  const ctx: CycleContext = {
+    instance,
+    policy,
+    cycleId: approval.cycleId ?? "",
+    trigger: "approval",
+    ledger: params.ledger,
+    caps: resolveBudgetCaps(instance, policy),
+    startedAtMs: Date.now(),
+    log: params.log,
+    transport: liveTransport,
+    phases: [],
+    cycleCostUsd: 0,
+  };
+  const decision = evaluateAction({
+    connection,
+    action,
+    policy,
+    authorityLevel: instance.authorityLevel,
+    ledger: ctx.ledger,
+    caps: ctx.caps,
+    approved: true,
+  });
+  const outcome: ActionOutcome = { ...decision, rationale: approval.rationale, request: approval.request };
+  if (decision.verdict !== "execute") {
+    ctx.log({
+      log_type: "plan_decision",
+      phase: phaseIndex("decide"),
+      severity: "medium",
+      content: `${action.action} via ${connection.name}: ${decision.verdict}. ${decision.reason}`,
+      metadata: { trigger: ctx.trigger, connection: connection.name, action: action.action, verdict: decision.verdict },
+    });
+    return outcome;
+  }
+
+  // The reviewer approved a specific request; if the connection's base URL or the action's
+  // endpoint or method has been edited since, that request is no longer what would be sent.
+  const currentUrl = resolveEndpointUrl(connection, action.endpoint);
+  if (!approval.request || currentUrl !== approval.request.url || action.method !== approval.request.method) {
+    const reason = "The action's target changed after it was approved; it needs a fresh approval.";
+    ctx.log({
+      log_type: "plan_decision",
+      phase: phaseIndex("decide"),
+      severity: "medium",
+      content: `${action.action} via ${connection.name}: rejected. ${reason}`,
+      metadata: { trigger: ctx.trigger, connection: connection.name, action: action.action, verdict: "rejected" },
+    });
+    return { ...outcome, verdict: "rejected", reason };
+  }
+
+  const executed = await executeAction(ctx, connection, outcome);
+  const requests = await verify(ctx, [executed]);
+  chargeLedger(ctx.ledger, executed.result ? executed.estimatedCostUsd + requests * API_CALL_COST_USD : 0);
+  return executed;
+}
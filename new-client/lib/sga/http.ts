@@ -0,0 +1,183 @@
+import type { SgaConnection } from "@/lib/types/sga";
+
+// HTTP plumbing shared by the governor phases: endpoint allow/deny matching, URL and auth header
+// resolution, and a bounded fetch whose body is reduced to a short preview for governor_logs.
+
+const REQUEST_TIMEOUT_MS = 15000;
+const MAX_PREVIEW_CHARS = 2000;
+const MIN_REDACTED_LENGTH = 4;
+const REDACTED = "[redacted]";
+
+export type SgaHttpResult = {
+  ok: boolean;
+  status: number | null;
+  durationMs: number;
+  preview: string;
+  error?: string;
+};
+
+export type SgaHttpRequest = {
+  connection: SgaConnection;
+  endpoint: string;
+  url: string;
+  method: string;
+  body?: unknown;
+};
+
+// How the governor reaches its connections. Live runs use liveTransport; simulations swap in a
+// transport that replays recorded responses and captures writes.
+export type SgaTransport = (request: SgaHttpRequest) => Promise<SgaHttpResult>;
+
+export function redactSecrets(value: string, secrets: string[]) {
+  return secrets
+    .filter((secret) => secret.length >= MIN_REDACTED_LENGTH)
+    .reduce((text, secret) => text.split(secret).join(REDACTED), value);
+}
+
+/** Shortens a value for governor_logs, redacting secrets first so a cut can't leave part of one behind. */
+export function truncate(value: string, secrets: string[] = [], max = MAX_PREVIEW_CHARS) {
+  const redacted = redactSecrets(value, secrets);
+  if (redacted.length <= max) return redacted;
+  return `${redacted.slice(0, max)}...`;
+}
+
+export function normalizeEndpoint(endpoint: string) {
+  return endpoint.trim();
+}
+
+function patternMatches(value: string, pattern: string) {
+  const trimmed = pattern.trim();
+  if (!trimmed) return false;
+  if (trimmed === "*") return true;
+  if (trimmed.includes("*")) {
+    const escaped = trimmed.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+    const regex = new RegExp(`^${escaped}$`, "i");
+    return regex.test(value);
+  }
+  return value.includes(trimmed);
+}
+
+export function isEndpointAllowed(endpoint: string, allowList: string[], denyList: string[]) {
+  if (denyList.some((pattern) => patternMatches(endpoint, pattern))) {
+    return false;
+  }
+  if (allowList.length === 0) return true;
+  return allowList.some((pattern) => patternMatches(endpoint, pattern));
+}
+
+export function resolveEndpointUrl(connection: SgaConnection, endpoint: string) {
+  if (endpoint.startsWith("http://") || endpoint.startsWith("https://")) {
+    return endpoint;
+  }
+  if (!connection.baseUrl) return null;
+  const base = connection.baseUrl.replace(/\/+$/, "");
+  const path = endpoint.replace(/^\/+/, "");
+  return `${base}/${path}`;
+}
+
+function buildAuthHeader(connection: SgaConnection) {
+  if (!connection.authType || connection.authType === "none" || !connection.authValue) {
+    return null;
+  }
+  const headerName =
+    connection.authHeader?.trim() ||
+    (connection.authType === "api_key" ? "x-api-key" : "Authorization");
+  if (connection.authType === "api_key") {
+    return { name: headerName, value: connection.authValue };
+  }
+  if (connection.authType === "basic") {
+    return { name: headerName, value: `Basic ${connection.authValue}` };
+  }
+  return { name: headerName, value: `Bearer ${connection.authValue}` };
+}
+
+/** Resolved credential values of a connection, for redaction. Empty until secrets are resolved. */
+export function connectionSecretValues(connection: SgaConnection) {
+  const values = connection.authValue ? [connection.authValue] : [];
+  for (const name of Object.keys(connection.secretHeaders ?? {})) {
+    const value = connection.headers?.[name];
+    if (value) values.push(value);
+  }
+  return values;
+}
+
+export function buildConnectionHeaders(connection: SgaConnection): Record<string, string> {
+  const headers: Record<string, string> = {
+    Accept: "application/json",
+    ...(connection.headers ?? {}),
+  };
+  const authHeader = buildAuthHeader(connection);
+  if (authHeader) {
+    headers[authHeader.name] = authHeader.value;
+  }
+  return headers;
+}
+
+export function stripQuery(value: string) {
+  const trimmed = value.trim();
+  if (!trimmed) return trimmed;
+  try {
+    const parsed = new URL(trimmed);
+    parsed.search = "";
+    parsed.hash = "";
+    return parsed.toString();
+  } catch {
+    return trimmed.split("?")[0]?.split("#")[0] ?? trimmed;
+  }
+}
+
+export async function fetchEndpoint(
+  url: string,
+  headers: Record<string, string>,
+  options?: { method?: string; body?: unknown; secrets?: string[] }
+): Promise<SgaHttpResult> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  const start = Date.now();
+  const hasBody = options?.body !== undefined;
+  const secrets = options?.secrets ?? [];
+  try {
+    const response = await fetch(url, {
+      method: options?.method ?? "GET",
+      headers: hasBody ? { "Content-Type": "application/json", ...headers } : headers,
+      body: hasBody ? JSON.stringify(options?.body) : undefined,
+      signal: controller.signal,
+    });
+    const contentType = response.headers.get("content-type") || "";
+    let preview = "";
+    try {
+      if (contentType.includes("application/json")) {
+        const json = await response.json();
+        preview = truncate(JSON.stringify(json), secrets);
+      } else {
+        preview = truncate(await response.text(), secrets);
+      }
+    } catch {
+      preview = "Unable to parse response body.";
+    }
+    return {
+      ok: response.ok,
+      status: response.status,
+      durationMs: Date.now() - start,
+      preview,
+    };
+  } catch (error) {
+    const message = redactSecrets(error instanceof Error ? error.message : "Request failed", secrets);
+    return {
+      ok: false,
+      status: null,
+      durationMs: Date.now() - start,
+      preview: truncate(message),
+      error: message,
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+export const liveTransport: SgaTransport = (request) =>
+  fetchEndpoint(request.url, buildConnectionHeaders(request.connection), {
+    method: request.method,
+    body: request.body,
+    secrets: connectionSecretValues(request.connection),
+  });
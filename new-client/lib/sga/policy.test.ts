@@ -0,0 +1,253 @@
+import { describe, expect, it } from "vitest";
+
+import type { SgaAuthorityLevel, SgaConnection, SgaInstance, SgaPolicy, SgaWriteAction } from "@/lib/types/sga";
+
+import {
+  chargeLedger,
+  checkSpend,
+  evaluateAction,
+  readLedger,
+  resolveBudgetCaps,
+  type SgaBudgetCaps,
+  type SgaLedger,
+} from "./policy";
+
+const NOW = new Date("2026-03-11T15:00:00Z"); // a Wednesday
+
+function makePolicy(overrides: Partial<SgaPolicy> = {}): SgaPolicy {
+  return {
+    allowedActions: ["restart_service", "scale_up", "purge_cache"],
+    forbiddenActions: ["drop_database"],
+    approvalRequiredActions: ["rotate_keys"],
+    approvalExpiryMinutes: 60,
+    riskBudget: { maxHighRiskActionsPerWeek: 1, maxMediumRiskPerDay: 2 },
+    costBudget: { monthlyUsdCap: 10, dailyUsdCap: 1, perTaskUsdCap: 0.5 },
+    timeBudget: { dailyActiveWindowMinutes: 600, maxCycleSeconds: 60 },
+    throttleRules: { minMinutesBetweenCyclesNormal: 15, minMinutesBetweenCyclesAlert: 5, maxCyclesPerDay: 48 },
+    ...overrides,
+  };
+}
+
+function makeConnection(overrides: Partial<SgaConnection> = {}): SgaConnection {
+  return {
+    id: "conn-1",
+    name: "Ops API",
+    baseUrl: "https://ops.example.com",
+    permission: "read_write",
+    allowList: [],
+    denyList: [],
+    readEndpoints: ["/health"],
+    writeActions: [],
+    headers: {},
+    authType: "none",
+    ...overrides,
+  };
+}
+
+function makeAction(overrides: Partial<SgaWriteAction> = {}): SgaWriteAction {
+  return {
+    action: "restart_service",
+    method: "POST",
+    endpoint: "/services/api/restart",
+    riskLevel: "low",
+    trigger: "on_failure",
+    estimatedCostUsd: 0.01,
+    ...overrides,
+  };
+}
+
+const caps: SgaBudgetCaps = { dailyUsd: 1, monthlyUsd: 10, perTaskUsd: 0.5, maxCycleSeconds: 60 };
+
+function evaluate(
+  params: {
+    connection?: SgaConnection;
+    action?: SgaWriteAction;
+    policy?: SgaPolicy;
+    authorityLevel?: SgaAuthorityLevel;
+    ledger?: SgaLedger;
+    caps?: SgaBudgetCaps;
+    approved?: boolean;
+  } = {}
+) {
+  return evaluateAction({
+    connection: params.connection ?? makeConnection(),
+    action: params.action ?? makeAction(),
+    policy: params.policy ?? makePolicy(),
+    authorityLevel: params.authorityLevel ?? 4,
+    ledger: params.ledger ?? readLedger({}, NOW),
+    caps: params.caps ?? caps,
+    approved: params.approved,
+  });
+}
+
+describe("readLedger", () => {
+  it("starts empty without a stored ledger", () => {
+    expect(readLedger({}, NOW)).toEqual({
+      day: "2026-03-11",
+      week: "2026-03-09",
+      month: "2026-03",
+      todayUsd: 0,
+      monthUsd: 0,
+      mediumRiskToday: 0,
+      highRiskThisWeek: 0,
+    });
+  });
+
+  it("keeps counters for the current day, week and month", () => {
+    const ledger = readLedger(
+      {
+        governor_ledger: {
+          day: "2026-03-11",
+          week: "2026-03-09",
+          month: "2026-03",
+          todayUsd: 0.25,
+          monthUsd: 3,
+          mediumRiskToday: 1,
+          highRiskThisWeek: 1,
+        },
+      },
+      NOW
+    );
+    expect(ledger).toMatchObject({ todayUsd: 0.25, monthUsd: 3, mediumRiskToday: 1, highRiskThisWeek: 1 });
+  });
+
+  it("resets counters whose period has rolled over", () => {
+    const stored = {
+      governor_ledger: {
+        day: "2026-03-10",
+        week: "2026-03-09",
+        month: "2026-03",
+        todayUsd: 0.9,
+        monthUsd: 3,
+        mediumRiskToday: 2,
+        highRiskThisWeek: 1,
+      },
+    };
+    expect(readLedger(stored, NOW)).toMatchObject({
+      todayUsd: 0,
+      monthUsd: 3,
+      mediumRiskToday: 0,
+      highRiskThisWeek: 1,
+    });
+    // The following Monday starts a new week; April starts a new month.
+    expect(readLedger(stored, new Date("2026-04-06T00:00:00Z"))).toMatchObject({
+      week: "2026-04-06",
+      monthUsd: 0,
+      highRiskThisWeek: 0,
+    });
+  });
+
+  it("ignores malformed ledgers and non-numeric counters", () => {
+    expect(readLedger({ governor_ledger: ["not", "an", "object"] }, NOW).todayUsd).toBe(0);
+    expect(readLedger({ governor_ledger: "broken" }, NOW).monthUsd).toBe(0);
+    const ledger = readLedger(
+      { governor_ledger: { day: "2026-03-11", month: "2026-03", todayUsd: "0.5", monthUsd: Number.NaN } },
+      NOW
+    );
+    expect(ledger.todayUsd).toBe(0);
+    expect(ledger.monthUsd).toBe(0);
+  });
+});
+
+describe("chargeLedger and checkSpend", () => {
+  it("charges cost and risk counters", () => {
+    const ledger = readLedger({}, NOW);
+    chargeLedger(ledger, 0.12345, "medium");
+    chargeLedger(ledger, 0.1, "high");
+    expect(ledger.todayUsd).toBe(0.2235);
+    expect(ledger.monthUsd).toBe(0.2235);
+    expect(ledger.mediumRiskToday).toBe(1);
+    expect(ledger.highRiskThisWeek).toBe(1);
+  });
+
+  it("blocks spend past the daily and monthly caps", () => {
+    const ledger = { ...readLedger({}, NOW), todayUsd: 0.9, monthUsd: 5 };
+    expect(checkSpend(ledger, caps, 0.05)).toBeNull();
+    expect(checkSpend(ledger, caps, 0.2)).toMatch(/Daily cost cap/);
+    expect(checkSpend({ ...ledger, todayUsd: 0, monthUsd: 9.95 }, caps, 0.1)).toMatch(/Monthly cost cap/);
+  });
+});
+
+describe("resolveBudgetCaps", () => {
+  const instance = { dailyCostBudgetUsd: null } as SgaInstance;
+
+  it("uses the policy caps when the instance sets no daily budget", () => {
+    expect(resolveBudgetCaps(instance, makePolicy())).toEqual(caps);
+  });
+
+  it("lets the instance budget tighten the daily cap but not raise it", () => {
+    expect(resolveBudgetCaps({ ...instance, dailyCostBudgetUsd: 0.25 }, makePolicy()).dailyUsd).toBe(0.25);
+    expect(resolveBudgetCaps({ ...instance, dailyCostBudgetUsd: 5 }, makePolicy()).dailyUsd).toBe(1);
+  });
+});
+
+describe("evaluateAction", () => {
+  it("executes allowed actions within authority and budgets", () => {
+    const decision = evaluate();
+    expect(decision.verdict).toBe("execute");
+    expect(decision.estimatedCostUsd).toBe(0.011);
+    expect(decision.connectionId).toBe("conn-1");
+  });
+
+  it("rejects forbidden actions, even when approved", () => {
+    const action = makeAction({ action: " Drop_Database " });
+    expect(evaluate({ action }).verdict).toBe("rejected");
+    expect(evaluate({ action, approved: true }).verdict).toBe("rejected");
+  });
+
+  it("rejects writes through read-only connections", () => {
+    const decision = evaluate({ connection: makeConnection({ permission: "read" }), approved: true });
+    expect(decision.verdict).toBe("rejected");
+    expect(decision.reason).toMatch(/does not allow writes/);
+  });
+
+  it("rejects endpoints outside the allow list or on the deny list", () => {
+    expect(evaluate({ connection: makeConnection({ allowList: ["/cache/*"] }) }).verdict).toBe("rejected");
+    expect(evaluate({ connection: makeConnection({ denyList: ["/services/*"] }), approved: true }).verdict).toBe(
+      "rejected"
+    );
+    expect(evaluate({ connection: makeConnection({ allowList: ["/services/*"] }) }).verdict).toBe("execute");
+  });
+
+  it("rejects actions the policy doesn't list", () => {
+    const decision = evaluate({ action: makeAction({ action: "delete_logs" }) });
+    expect(decision.verdict).toBe("rejected");
+    expect(decision.reason).toMatch(/not in the policy's allowed actions/);
+  });
+
+  it("holds approval-gated actions for a reviewer", () => {
+    expect(evaluate({ action: makeAction({ action: "rotate_keys" }) }).verdict).toBe("needs_approval");
+  });
+
+  it("only recommends below AL2 and above the authority's risk tier", () => {
+    expect(evaluate({ authorityLevel: 0 }).verdict).toBe("recommend");
+    expect(evaluate({ authorityLevel: 1 }).verdict).toBe("recommend");
+    expect(evaluate({ authorityLevel: 2, action: makeAction({ riskLevel: "medium" }) }).verdict).toBe("recommend");
+    expect(evaluate({ authorityLevel: 3, action: makeAction({ riskLevel: "medium" }) }).verdict).toBe("execute");
+    expect(evaluate({ authorityLevel: 3, action: makeAction({ riskLevel: "high" }) }).verdict).toBe("recommend");
+  });
+
+  it("defers once the risk budgets are used", () => {
+    const ledger = { ...readLedger({}, NOW), mediumRiskToday: 2, highRiskThisWeek: 1 };
+    expect(evaluate({ ledger, action: makeAction({ riskLevel: "medium" }) }).verdict).toBe("deferred");
+    expect(evaluate({ ledger, action: makeAction({ riskLevel: "high" }) }).verdict).toBe("deferred");
+    expect(evaluate({ ledger, action: makeAction({ riskLevel: "low" }) }).verdict).toBe("execute");
+  });
+
+  it("defers actions over the per-task or remaining spend caps", () => {
+    expect(evaluate({ action: makeAction({ estimatedCostUsd: 0.6 }) }).reason).toMatch(/per-task cap/);
+    const ledger = { ...readLedger({}, NOW), todayUsd: 0.995 };
+    const decision = evaluate({ ledger });
+    expect(decision.verdict).toBe("deferred");
+    expect(decision.reason).toMatch(/Daily cost cap/);
+  });
+
+  it("lets an approval stand in for the allowed list, authority and risk budget but not the cost caps", () => {
+    const ledger = { ...readLedger({}, NOW), highRiskThisWeek: 5 };
+    const action = makeAction({ action: "rotate_keys", riskLevel: "high" });
+    expect(evaluate({ action, ledger, authorityLevel: 0, approved: true }).verdict).toBe("execute");
+    expect(
+      evaluate({ action: makeAction({ action: "rotate_keys", estimatedCostUsd: 0.6 }), approved: true }).verdict
+    ).toBe("deferred");
+  });
+});
@@ -0,0 +1,230 @@
+import type {
+  SgaAuthorityLevel,
+  SgaConnection,
+  SgaConnectionPermission,
+  SgaInstance,
+  SgaPolicy,
+  SgaRiskLevel,
+  SgaWriteAction,
+} from "@/lib/types/sga";
+
+import { isEndpointAllowed } from "./http";
+
+// Runtime meaning for SgaPolicy: which writes the governor may issue, under which authority level,
+// and how much of the cost and risk budgets it has left. Usage is kept in a small ledger on
+// governor_instances.config so budgets hold across cycles and cron/manual triggers.
+
+// Nominal cost of one outbound call. The governor makes no model calls, so this mostly bounds
+// call volume; write actions add their own estimatedCostUsd on top.
+export const API_CALL_COST_USD = 0.001;
+
+const READ_PERMISSIONS: SgaConnectionPermission[] = ["read", "read_write", "custom"];
+const WRITE_PERMISSIONS: SgaConnectionPermission[] = ["write", "read_write", "custom"];
+const RISK_RANK: Record<SgaRiskLevel, number> = { low: 0, medium: 1, high: 2 };
+
+// AL0 observes and AL1 only recommends; from AL2 up, each level executes one more risk tier.
+const AUTHORITY_MAX_RISK: Record<SgaAuthorityLevel, SgaRiskLevel | null> = {
+  0: null,
+  1: null,
+  2: "low",
+  3: "medium",
+  4: "high",
+};
+
+export type SgaLedger = {
+  day: string;
+  week: string;
+  month: string;
+  todayUsd: number;
+  monthUsd: number;
+  mediumRiskToday: number;
+  highRiskThisWeek: number;
+};
+
+export type SgaBudgetCaps = {
+  dailyUsd: number;
+  monthlyUsd: number;
+  perTaskUsd: number;
+  maxCycleSeconds: number;
+};
+
+export type SgaActionVerdict = "execute" | "recommend" | "needs_approval" | "deferred" | "rejected";
+
+export type SgaActionDecision = {
+  connectionId: string;
+  connectionName: string;
+  action: SgaWriteAction;
+  verdict: SgaActionVerdict;
+  reason: string;
+  estimatedCostUsd: number;
+};
+
+export function canRead(connection: SgaConnection) {
+  return READ_PERMISSIONS.includes(connection.permission);
+}
+
+export function canWrite(connection: SgaConnection) {
+  return WRITE_PERMISSIONS.includes(connection.permission);
+}
+
+export function maxRiskLevel(levels: SgaRiskLevel[]): SgaRiskLevel {
+  return levels.reduce<SgaRiskLevel>((max, level) => (RISK_RANK[level] > RISK_RANK[max] ? level : max), "low");
+}
+
+function matchesAction(list: string[], action: string) {
+  const needle = action.trim().toLowerCase();
+  return list.some((entry) => entry.trim().toLowerCase() === needle);
+}
+
+function roundUsd(value: number) {
+  return Math.round(value * 10000) / 10000;
+}
+
+function isoDay(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+function isoWeekStart(date: Date) {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  return isoDay(start);
+}
+
+function pickNumber(record: Record<string, unknown>, key: string) {
+  const value = record[key];
+  return typeof value === "number" && Number.isFinite(value) ? value : 0;
+}
+
+/** Reads the usage ledger from instance config, resetting counters whose day/week/month has rolled over. */
+export function readLedger(config: Record<string, unknown>, now: Date): SgaLedger {
+  const raw =
+    config.governor_ledger && typeof config.governor_ledger === "object" && !Array.isArray(config.governor_ledger)
+      ? (config.governor_ledger as Record<string, unknown>)
+      : {};
+  const day = isoDay(now);
+  const week = isoWeekStart(now);
+  const month = day.slice(0, 7);
+  return {
+    day,
+    week,
+    month,
+    todayUsd: raw.day === day ? pickNumber(raw, "todayUsd") : 0,
+    monthUsd: raw.month === month ? pickNumber(raw, "monthUsd") : 0,
+    mediumRiskToday: raw.day === day ? pickNumber(raw, "mediumRiskToday") : 0,
+    highRiskThisWeek: raw.week === week ? pickNumber(raw, "highRiskThisWeek") : 0,
+  };
+}
+
+export function chargeLedger(ledger: SgaLedger, costUsd: number, riskLevel?: SgaRiskLevel) {
+  ledger.todayUsd = roundUsd(ledger.todayUsd + costUsd);
+  ledger.monthUsd = roundUsd(ledger.monthUsd + costUsd);
+  if (riskLevel === "medium") ledger.mediumRiskToday += 1;
+  if (riskLevel === "high") ledger.highRiskThisWeek += 1;
+}
+
+export function resolveBudgetCaps(instance: SgaInstance, policy: SgaPolicy): SgaBudgetCaps {
+  // The instance-level daily budget set in settings can only tighten the policy cap.
+  const instanceDaily = instance.dailyCostBudgetUsd;
+  return {
+    dailyUsd:
+      instanceDaily !== null && instanceDaily >= 0
+        ? Math.min(instanceDaily, policy.costBudget.dailyUsdCap)
+        : policy.costBudget.dailyUsdCap,
+    monthlyUsd: policy.costBudget.monthlyUsdCap,
+    perTaskUsd: policy.costBudget.perTaskUsdCap,
+    maxCycleSeconds: policy.timeBudget.maxCycleSeconds,
+  };
+}
+
+/** Null when `costUsd` fits the remaining daily and monthly budget, otherwise the reason it doesn't. */
+export function checkSpend(ledger: SgaLedger, caps: SgaBudgetCaps, costUsd: number): string | null {
+  if (ledger.todayUsd + costUsd > caps.dailyUsd) {
+    return `Daily cost cap $${caps.dailyUsd} would be exceeded ($${ledger.todayUsd.toFixed(3)} spent today).`;
+  }
+  if (ledger.monthUsd + costUsd > caps.monthlyUsd) {
+    return `Monthly cost cap $${caps.monthlyUsd} would be exceeded ($${ledger.monthUsd.toFixed(3)} spent this month).`;
+  }
+  return null;
+}
+
+/**
+ * Decides whether one candidate write may run. Forbidden and unlisted actions are rejected outright;
+ * approval-gated ones wait for a human; authority and budgets turn the rest into recommendations
+ * or deferrals so they stay visible as open tasks.
+ *
+ * With `approved`, a reviewer has signed off: the approval stands in for the allowed list, the
+ * authority level and the risk allowance, but permissions, allow/deny rules and cost caps still apply.
+ */
+export function evaluateAction(params: {
+  connection: SgaConnection;
+  action: SgaWriteAction;
+  policy: SgaPolicy;
+  authorityLevel: SgaAuthorityLevel;
+  ledger: SgaLedger;
+  caps: SgaBudgetCaps;
+  approved?: boolean;
+}): SgaActionDecision {
+  const { connection, action, policy, authorityLevel, ledger, caps, approved } = params;
+  const estimatedCostUsd = roundUsd(action.estimatedCostUsd + API_CALL_COST_USD);
+  const decide = (verdict: SgaActionVerdict, reason: string): SgaActionDecision => ({
+    connectionId: connection.id,
+    connectionName: connection.name,
+    action,
+    verdict,
+    reason,
+    estimatedCostUsd,
+  });
+
+  if (matchesAction(policy.forbiddenActions, action.action)) {
+    return decide("rejected", "Action is forbidden by policy.");
+  }
+  if (!canWrite(connection)) {
+    return decide("rejected", `Connection permission "${connection.permission}" does not allow writes.`);
+  }
+  if (!isEndpointAllowed(action.endpoint, connection.allowList ?? [], connection.denyList ?? [])) {
+    return decide("rejected", "Endpoint blocked by the connection's allow/deny rules.");
+  }
+  if (approved) {
+    return checkCost(decide, caps, ledger, estimatedCostUsd) ?? decide("execute", "Approved by a reviewer.");
+  }
+  if (matchesAction(policy.approvalRequiredActions, action.action)) {
+    return decide("needs_approval", "Policy requires human approval for this action.");
+  }
+  if (!matchesAction(policy.allowedActions, action.action)) {
+    return decide("rejected", "Action is not in the policy's allowed actions.");
+  }
+
+  const maxRisk = AUTHORITY_MAX_RISK[authorityLevel];
+  if (maxRisk === null) {
+    return decide("recommend", `Authority level AL${authorityLevel} does not execute writes.`);
+  }
+  if (RISK_RANK[action.riskLevel] > RISK_RANK[maxRisk]) {
+    return decide("recommend", `Authority level AL${authorityLevel} executes ${maxRisk}-risk actions at most.`);
+  }
+  if (action.riskLevel === "medium" && ledger.mediumRiskToday >= policy.riskBudget.maxMediumRiskPerDay) {
+    return decide("deferred", `Medium-risk budget used (${policy.riskBudget.maxMediumRiskPerDay} per day).`);
+  }
+  if (action.riskLevel === "high" && ledger.highRiskThisWeek >= policy.riskBudget.maxHighRiskActionsPerWeek) {
+    return decide(
+      "deferred",
+      `High-risk budget used (${policy.riskBudget.maxHighRiskActionsPerWeek} per week).`
+    );
+  }
+  return (
+    checkCost(decide, caps, ledger, estimatedCostUsd) ??
+    decide("execute", "Allowed by policy, authority level and budgets.")
+  );
+}
+
+function checkCost(
+  decide: (verdict: SgaActionVerdict, reason: string) => SgaActionDecision,
+  caps: SgaBudgetCaps,
+  ledger: SgaLedger,
+  estimatedCostUsd: number
+) {
+  if (estimatedCostUsd > caps.perTaskUsd) {
+    return decide("deferred", `Estimated cost $${estimatedCostUsd} exceeds the per-task cap $${caps.perTaskUsd}.`);
+  }
+  const spendBlock = checkSpend(ledger, caps, estimatedCostUsd);
+  return spendBlock ? decide("deferred", spendBlock) : null;
+}
@@ -0,0 +1,264 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+
+import type { SgaConnection } from "@/lib/types/sga";
+
+// Encrypted-at-rest credentials for SGA connections. Values are sealed with AES-256-GCM under the
+// app key in SGA_SECRETS_KEY and stored in governor_secrets; connections only carry secret ids.
+// To rotate the app key, move the old value to SGA_SECRETS_PREVIOUS_KEY and set a new
+// SGA_SECRETS_KEY: secrets still under the old key are re-encrypted the next time they are used.
+// Every create, rotate, use and delete is written to governor_secret_audit.
+
+const ALGORITHM = "aes-256-gcm";
+const IV_BYTES = 12;
+const AUDIT_LIMIT = 100;
+
+type SecretKey = { id: string; key: Buffer };
+
+type SecretRow = {
+  id: string;
+  label: string;
+  ciphertext: string;
+  iv: string;
+  auth_tag: string;
+  key_id: string;
+};
+
+export type SgaSecretAuditEntry = {
+  id: string;
+  secretId: string | null;
+  action: "created" | "rotated" | "used" | "deleted" | "reencrypted";
+  actor: string;
+  label: string;
+  metadata: Record<string, unknown>;
+  createdAt: string;
+};
+
+function deriveKey(raw: string): SecretKey {
+  const key = createHash("sha256").update(raw).digest();
+  return { id: createHash("sha256").update(key).digest("hex").slice(0, 12), key };
+}
+
+function loadKeys() {
+  const current = process.env.SGA_SECRETS_KEY?.trim();
+  if (!current) {
+    throw new Error("SGA_SECRETS_KEY is not configured");
+  }
+  const previous = process.env.SGA_SECRETS_PREVIOUS_KEY?.trim();
+  return { current: deriveKey(current), previous: previous ? deriveKey(previous) : null };
+}
+
+function seal(value: string) {
+  const { current } = loadKeys();
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, current.key, iv);
+  const ciphertext = Buffer.concat([cipher.update(value, "utf8"), cipher.final()]);
+  return {
+    ciphertext: ciphertext.toString("base64"),
+    iv: iv.toString("base64"),
+    auth_tag: cipher.getAuthTag().toString("base64"),
+    key_id: current.id,
+  };
+}
+
+function open(row: SecretRow) {
+  const { current, previous } = loadKeys();
+  const key = [current, previous].find((candidate) => candidate?.id === row.key_id);
+  if (!key) {
+    throw new Error(`Secret "${row.label}" was encrypted with a key that is no longer configured`);
+  }
+  const decipher = createDecipheriv(ALGORITHM, key.key, Buffer.from(row.iv, "base64"));
+  decipher.setAuthTag(Buffer.from(row.auth_tag, "base64"));
+  const value = Buffer.concat([decipher.update(Buffer.from(row.ciphertext, "base64")), decipher.final()]).toString(
+    "utf8"
+  );
+  return { value, stale: key.id !== current.id };
+}
+
+async function audit(
+  supabase: any,
+  instanceId: string,
+  entries: Array<Pick<SgaSecretAuditEntry, "secretId" | "action" | "actor" | "label"> & { metadata?: Record<string, unknown> }>
+) {
+  if (entries.length === 0) return;
+  const { error } = await supabase.from("governor_secret_audit").insert(
+    entries.map((entry) => ({
+      secret_id: entry.secretId,
+      instance_id: instanceId,
+      action: entry.action,
+      actor: entry.actor,
+      label: entry.label,
+      metadata: entry.metadata ?? {},
+    }))
+  );
+  if (error) {
+    throw new Error(`Failed to write secret audit log: ${error.message}`);
+  }
+}
+
+export async function createSgaSecret(
+  supabase: any,
+  params: { instanceId: string; label: string; value: string; actor: string }
+): Promise<string> {
+  const { data, error } = await supabase
+    .from("governor_secrets")
+    .insert([{ instance_id: params.instanceId, label: params.label, ...seal(params.value) }])
+    .select("id")
+    .maybeSingle();
+  if (error || !data) {
+    throw new Error(`Failed to store secret: ${error?.message ?? "no row returned"}`);
+  }
+  await audit(supabase, params.instanceId, [
+    { secretId: data.id, action: "created", actor: params.actor, label: params.label },
+  ]);
+  return data.id as string;
+}
+
+/** Replaces a secret's value in place, so connections keep referencing the same id. */
+export async function rotateSgaSecret(
+  supabase: any,
+  params: { instanceId: string; secretId: string; label: string; value: string; actor: string }
+) {
+  const rotatedAt = new Date().toISOString();
+  const { error } = await supabase
+    .from("governor_secrets")
+    .update({ label: params.label, ...seal(params.value), rotated_at: rotatedAt })
+    .eq("id", params.secretId)
+    .eq("instance_id", params.instanceId);
+  if (error) {
+    throw new Error(`Failed to rotate secret: ${error.message}`);
+  }
+  await audit(supabase, params.instanceId, [
+    { secretId: params.secretId, action: "rotated", actor: params.actor, label: params.label },
+  ]);
+}
+
+export async function deleteSgaSecrets(
+  supabase: any,
+  params: { instanceId: string; secrets: Array<{ id: string; label: string }>; actor: string }
+) {
+  if (params.secrets.length === 0) return;
+  await audit(
+    supabase,
+    params.instanceId,
+    params.secrets.map((secret) => ({ secretId: secret.id, action: "deleted", actor: params.actor, label: secret.label }))
+  );
+  const { error } = await supabase
+    .from("governor_secrets")
+    .delete()
+    .eq("instance_id", params.instanceId)
+    .in(
+      "id",
+      params.secrets.map((secret) => secret.id)
+    );
+  if (error) {
+    throw new Error(`Failed to delete secrets: ${error.message}`);
+  }
+}
+
+/** Every secret id a connection references, with a label for the audit log. */
+export function connectionSecretRefs(connection: SgaConnection) {
+  const refs: Array<{ id: string; label: string }> = [];
+  if (connection.authSecretId) {
+    refs.push({ id: connection.authSecretId, label: `${connection.name}: auth` });
+  }
+  for (const [name, id] of Object.entries(connection.secretHeaders ?? {})) {
+    refs.push({ id, label: `${connection.name}: ${name}` });
+  }
+  return refs;
+}
+
+/**
+ * Decrypts the secrets the connections reference and fills in authValue and secret headers.
+ * Each secret used is audited with the purpose (and run, if any) it was opened for. Secrets
+ * still under the previous app key are re-encrypted under the current one.
+ */
+export async function resolveSgaConnectionSecrets(
+  supabase: any,
+  params: {
+    instanceId: string;
+    connections: SgaConnection[];
+    actor: string;
+    purpose: string;
+    runId?: string | null;
+  }
+): Promise<SgaConnection[]> {
+  const refs = params.connections.flatMap(connectionSecretRefs);
+  if (refs.length === 0) return params.connections;
+
+  const { data, error } = await supabase
+    .from("governor_secrets")
+    .select("id, label, ciphertext, iv, auth_tag, key_id")
+    .eq("instance_id", params.instanceId)
+    .in(
+      "id",
+      refs.map((ref) => ref.id)
+    );
+  if (error) {
+    throw new Error(`Failed to load secrets: ${error.message}`);
+  }
+
+  const values = new Map<string, string>();
+  const reencrypted: SecretRow[] = [];
+  for (const row of (data as SecretRow[] | null) ?? []) {
+    const { value, stale } = open(row);
+    values.set(row.id, value);
+    if (stale) {
+      await supabase.from("governor_secrets").update(seal(value)).eq("id", row.id);
+      reencrypted.push(row);
+    }
+  }
+
+  await supabase
+    .from("governor_secrets")
+    .update({ last_used_at: new Date().toISOString() })
+    .in("id", Array.from(values.keys()));
+  const metadata = { purpose: params.purpose, runId: params.runId ?? null };
+  await audit(supabase, params.instanceId, [
+    ...reencrypted.map((row) => ({
+      secretId: row.id,
+      action: "reencrypted" as const,
+      actor: params.actor,
+      label: row.label,
+      metadata: { previousKeyId: row.key_id },
+    })),
+    ...refs
+      .filter((ref) => values.has(ref.id))
+      .map((ref) => ({ secretId: ref.id, action: "used" as const, actor: params.actor, label: ref.label, metadata })),
+  ]);
+
+  return params.connections.map((connection) => {
+    const headers = { ...connection.headers };
+    for (const [name, id] of Object.entries(connection.secretHeaders ?? {})) {
+      const value = values.get(id);
+      if (value) headers[name] = value;
+    }
+    return {
+      ...connection,
+      headers,
+      authValue: connection.authSecretId
+        ? values.get(connection.authSecretId) ?? null
+        : connection.authValue ?? null,
+    };
+  });
+}
+
+export async function listSgaSecretAudit(supabase: any, instanceId: string): Promise<SgaSecretAuditEntry[]> {
+  const { data, error } = await supabase
+    .from("governor_secret_audit")
+    .select("*")
+    .eq("instance_id", instanceId)
+    .order("created_at", { ascending: false })
+    .limit(AUDIT_LIMIT);
+  if (error) {
+    throw new Error(`Failed to load secret audit log: ${error.message}`);
+  }
+  return ((data as any[] | null) ?? []).map((row) => ({
+    id: row.id,
+    secretId: row.secret_id ?? null,
+    action: row.action,
+    actor: row.actor ?? "",
+    label: row.label ?? "",
+    metadata: row.metadata && typeof row.metadata === "object" ? row.metadata : {},
+    createdAt: row.created_at,
+  }));
+}
@@ -0,0 +1,214 @@
+import type {
+  SgaAuthorityLevel,
+  SgaPolicy,
+  SgaSimulationReport,
+  SgaSimulationSource,
+} from "@/lib/types/sga";
+
+import type { SgaCycleResult } from "./governor";
+import { truncate, type SgaHttpResult, type SgaTransport } from "./http";
+
+// Dry-run support for the run route. Reads are answered from caller-supplied fixtures or the most
+// recent live response recorded in governor_logs; writes never leave the process. The report lists
+// what the governor would have done so a policy or authority change can be tried out first.
+
+const RECORDED_LOG_LIMIT = 500;
+
+export type SgaFixture = { status?: number; body?: unknown };
+
+/** Fixture responses keyed by connection id or name, then by read endpoint. */
+export type SgaSimulationFixtures = Record<string, Record<string, SgaFixture>>;
+
+type RecordedResponse = { status: number | null; ok: boolean; preview: string };
+
+function recordingKey(connectionName: string, endpoint: string) {
+  return `${connectionName}\u0000${endpoint}`;
+}
+
+export function parseSimulationFixtures(value: unknown): SgaSimulationFixtures {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  const fixtures: SgaSimulationFixtures = {};
+  for (const [connection, endpoints] of Object.entries(value as Record<string, unknown>)) {
+    if (!endpoints || typeof endpoints !== "object" || Array.isArray(endpoints)) continue;
+    fixtures[connection] = {};
+    for (const [endpoint, fixture] of Object.entries(endpoints as Record<string, unknown>)) {
+      const record = fixture && typeof fixture === "object" && !Array.isArray(fixture) ? (fixture as SgaFixture) : {};
+      fixtures[connection][endpoint.trim()] = {
+        status: typeof record.status === "number" ? record.status : 200,
+        body: record.body,
+      };
+    }
+  }
+  return fixtures;
+}
+
+/** Latest recorded api_call response per connection name and endpoint. */
+export async function loadRecordedResponses(supabase: any, instanceId: string) {
+  const { data, error } = await supabase
+    .from("governor_logs")
+    .select("metadata, created_at")
+    .eq("instance_id", instanceId)
+    .eq("log_type", "api_call")
+    .order("created_at", { ascending: false })
+    .limit(RECORDED_LOG_LIMIT);
+  if (error) {
+    throw new Error(`Failed to load recorded responses: ${error.message}`);
+  }
+  const recordings = new Map<string, RecordedResponse>();
+  for (const row of (data as Array<{ metadata: Record<string, unknown> | null }> | null) ?? []) {
+    const metadata = row.metadata ?? {};
+    if (typeof metadata.connection !== "string" || typeof metadata.endpoint !== "string") continue;
+    const key = recordingKey(metadata.connection, metadata.endpoint);
+    if (recordings.has(key)) continue;
+    recordings.set(key, {
+      status: typeof metadata.status === "number" ? metadata.status : null,
+      ok: metadata.ok === true,
+      preview: typeof metadata.preview === "string" ? metadata.preview : "",
+    });
+  }
+  return recordings;
+}
+
+/**
+ * A transport that never touches the network. Endpoints with neither a fixture nor a recording
+ * are treated as healthy so the simulation doesn't invent remediations; the report flags them.
+ */
+export function createSimulationTransport(
+  fixtures: SgaSimulationFixtures,
+  recordings: Map<string, RecordedResponse>
+) {
+  const reads: SgaSimulationReport["reads"] = [];
+  const transport: SgaTransport = async (request) => {
+    const { connection, endpoint } = request;
+    if (request.method !== "GET") {
+      return {
+        ok: true,
+        status: 202,
+        durationMs: 0,
+        preview: "Simulated: request captured, not sent.",
+      };
+    }
+
+    const fixture = (fixtures[connection.id] ?? fixtures[connection.name])?.[endpoint];
+    const recorded = recordings.get(recordingKey(connection.name, endpoint));
+    let source: SgaSimulationSource;
+    let result: SgaHttpResult;
+    if (fixture) {
+      const status = fixture.status ?? 200;
+      source = "fixture";
+      result = {
+        ok: status >= 200 && status < 300,
+        status,
+        durationMs: 0,
+        preview: truncate(typeof fixture.body === "string" ? fixture.body : JSON.stringify(fixture.body ?? {})),
+      };
+    } else if (recorded) {
+      source = "recorded";
+      result = { ...recorded, durationMs: 0 };
+    } else {
+      source = "missing";
+      result = { ok: true, status: 200, durationMs: 0, preview: "No fixture or recorded response; treated as healthy." };
+    }
+    reads.push({ connection: connection.name, endpoint, source, status: result.status, ok: result.ok });
+    return result;
+  };
+  return { transport, reads };
+}
+
+export function buildSimulationReport(params: {
+  instanceId: string;
+  authorityLevel: SgaAuthorityLevel;
+  policy: SgaPolicy;
+  cycle: SgaCycleResult;
+  reads: SgaSimulationReport["reads"];
+}): Omit<SgaSimulationReport, "id" | "createdAt"> {
+  const { cycle } = params;
+  const captured = cycle.actions.filter((outcome) => outcome.result && outcome.request);
+  const count = (verdict: string) => cycle.actions.filter((outcome) => outcome.verdict === verdict).length;
+  const missing = params.reads.filter((read) => read.source === "missing").length;
+  const skipped = cycle.phases.find((phase) => phase.status === "skipped");
+  const summary = [
+    `Simulation at AL${params.authorityLevel}: ${params.reads.length} reads replayed${missing ? ` (${missing} without a recording)` : ""}.`,
+    `${cycle.actions.length} candidate actions: ${captured.length} writes captured, ${count("needs_approval")} need approval, ${count("recommend")} recommended, ${count("deferred")} deferred, ${count("rejected")} rejected.`,
+    `Estimated cycle spend $${cycle.cycleCostUsd.toFixed(3)}.`,
+    skipped ? `Stopped before ${skipped.phase}: ${skipped.note}` : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+  return {
+    instanceId: params.instanceId,
+    authorityLevel: params.authorityLevel,
+    policy: params.policy,
+    summary,
+    reads: params.reads,
+    actions: cycle.actions.map((outcome) => ({
+      connection: outcome.connectionName,
+      action: outcome.action.action,
+      method: outcome.action.method,
+      endpoint: outcome.action.endpoint,
+      riskLevel: outcome.action.riskLevel,
+      verdict: outcome.verdict,
+      reason: outcome.reason,
+      estimatedCostUsd: outcome.estimatedCostUsd,
+      captured: Boolean(outcome.result),
+    })),
+    capturedWrites: captured.map((outcome) => ({
+      connection: outcome.connectionName,
+      action: outcome.action.action,
+      method: outcome.request!.method,
+      url: outcome.request!.url,
+      body: outcome.request!.body,
+    })),
+    spend: {
+      cycleUsd: cycle.cycleCostUsd,
+      projectedTodayUsd: cycle.ledger.todayUsd,
+      projectedMonthUsd: cycle.ledger.monthUsd,
+      dailyCapUsd: cycle.caps.dailyUsd,
+      monthlyCapUsd: cycle.caps.monthlyUsd,
+      perTaskCapUsd: cycle.caps.perTaskUsd,
+    },
+    phases: cycle.phases,
+  };
+}
+
+function mapSimulationRow(row: any): SgaSimulationReport {
+  const report = row?.report && typeof row.report === "object" ? row.report : {};
+  return {
+    ...report,
+    id: row.id,
+    instanceId: row.instance_id,
+    createdAt: row.created_at,
+  } as SgaSimulationReport;
+}
+
+export async function saveSgaSimulation(supabase: any, report: Omit<SgaSimulationReport, "id" | "createdAt">) {
+  const { data, error } = await supabase
+    .from("governor_simulations")
+    .insert([
+      {
+        instance_id: report.instanceId,
+        authority_level: report.authorityLevel,
+        summary: report.summary,
+        report,
+      },
+    ])
+    .select("*")
+    .maybeSingle();
+  if (error || !data) {
+    throw new Error(`Failed to save SGA simulation: ${error?.message ?? "no row returned"}`);
+  }
+  return mapSimulationRow(data);
+}
+
+export async function listSgaSimulations(supabase: any, instanceId: string, limit = 10) {
+  const { data, error } = await supabase
+    .from("governor_simulations")
+    .select("*")
+    .eq("instance_id", instanceId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) {
+    throw new Error(`Failed to load SGA simulations: ${error.message}`);
+  }
+  return ((data as any[] | null) ?? []).map(mapSimulationRow);
+}
@@ -16,6 +16,8 @@ export interface Conversation {
   router_context_cache: Json | null;
   router_context_cache_last_message_id: string | null;
   router_context_cache_updated_at: string | null;
+  // Leaf of the branch currently shown; maintained by the messages insert trigger.
+  active_leaf_message_id?: string | null;
 }
 
 export interface ConversationInsert {
@@ -35,6 +37,7 @@ export interface ConversationUpdate {
   router_context_cache?: Json | null;
   router_context_cache_last_message_id?: string | null;
   router_context_cache_updated_at?: string | null;
+  active_leaf_message_id?: string | null;
 }
 
 export interface Message {
@@ -47,6 +50,8 @@ export interface Message {
   metadata: Json | null;
   topic_id: string | null;
   preamble?: string | null;
+  parent_message_id?: string | null;
+  branch_id?: string | null;
 }
 
 export interface MessageInsert {
@@ -58,6 +63,8 @@ export interface MessageInsert {
   metadata?: Json | null;
   topic_id?: string | null;
   preamble?: string | null;
+  parent_message_id?: string | null;
+  branch_id?: string | null;
 }
 
 export interface MessageUpdate {
@@ -72,6 +79,12 @@ export interface Project {
   name: string;
   icon?: string;
   color?: string;
+  monthly_budget_usd?: number | null;
+  instructions?: string | null;
+  default_model_family?: string | null;
+  default_speed_mode?: string | null;
+  default_search_controls?: Json | null;
+  pinned_memory_types?: string[];
   created_at: string | null;
 }
 
@@ -86,6 +99,12 @@ export interface ProjectUpdate {
   name?: string;
   icon?: string;
   color?: string;
+  monthly_budget_usd?: number | null;
+  instructions?: string | null;
+  default_model_family?: string | null;
+  default_speed_mode?: string | null;
+  default_search_controls?: Json | null;
+  pinned_memory_types?: string[];
 }
 
 export interface UserPreferences {
@@ -225,10 +244,25 @@ export interface ConversationTopic {
   description: string | null;
   summary: string | null;
   token_estimate: number;
+  summary_segments: TopicSummarySegment[] | null;
+  compacted_through: string | null;
+  compacted_at: string | null;
   created_at: string | null;
   updated_at: string | null;
 }
 
+// One node of a topic's rolling summary (see lib/topics/compaction.ts).
+export interface TopicSummarySegment {
+  id: string;
+  level: number;
+  summary: string;
+  start_at: string;
+  end_at: string;
+  message_count: number;
+  source_tokens: number;
+  edited_at?: string | null;
+}
+
 export interface ConversationTopicInsert {
   conversation_id: string;
   label: string;
@@ -244,6 +278,9 @@ export interface ConversationTopicUpdate {
   description?: string | null;
   summary?: string | null;
   token_estimate?: number;
+  summary_segments?: TopicSummarySegment[];
+  compacted_through?: string | null;
+  compacted_at?: string | null;
   updated_at?: string | null;
 }
 
@@ -0,0 +1,24 @@
+// Fallback topic text derived from the user's message, used when a topic is created before (or
+// without) the writer router supplying a label, description or summary.
+
+export function buildAutoTopicLabel(message: string): string {
+  const clean = (message || "").replace(/\s+/g, " ").trim();
+  const words = clean.split(" ").slice(0, 5);
+  const label = words
+    .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+    .join(" ")
+    .trim();
+  return label || "New Topic";
+}
+
+export function buildAutoTopicDescription(message: string): string | null {
+  const clean = (message || "").replace(/\s+/g, " ").trim();
+  if (!clean) return null;
+  return clean.length > 240 ? `${clean.slice(0, 240)}…` : clean;
+}
+
+export function buildAutoTopicSummary(message: string): string | null {
+  const clean = (message || "").replace(/\s+/g, " ").trim();
+  if (!clean) return null;
+  return clean.length > 240 ? `${clean.slice(0, 240)}…` : clean;
+}
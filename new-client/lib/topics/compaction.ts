@@ -0,0 +1,364 @@
+import { randomUUID } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { callDeepInfraLlama } from "@/lib/deepInfraLlama";
+import { loadActiveBranch } from "@/lib/message-branches";
+import { calculateCost } from "@/lib/pricing";
+import type { Database, TopicSummarySegment } from "@/lib/supabase/types";
+import { estimateTokens } from "@/lib/tokens/estimateTokens";
+import { sanitizeTopicMessageContent } from "@/lib/topics/messageSanitizer";
+import { logUsageRecord } from "@/lib/usage";
+
+// Rolling summaries for long topics. When the messages a topic hasn't compacted yet pass
+// COMPACTION_TRIGGER_TOKENS, everything but the most recent COMPACTION_TAIL_TOKENS is summarized
+// into level-0 segments of at most SEGMENT_SOURCE_TOKENS of source each. Whenever a level holds
+// more than SEGMENTS_PER_LEVEL segments, its oldest ones are summarized again into one segment a
+// level up, so the summary stays a handful of segments: coarse for the distant past, finer for the
+// recent past. Context building sends the rendered segments followed by the uncompacted tail.
+
+type MessageRow = Database["public"]["Tables"]["messages"]["Row"];
+type TopicRow = Database["public"]["Tables"]["conversation_topics"]["Row"];
+
+export const COMPACTION_TRIGGER_TOKENS = 150_000;
+const COMPACTION_TAIL_TOKENS = 60_000;
+const SEGMENT_SOURCE_TOKENS = 30_000;
+const SEGMENTS_PER_LEVEL = 4;
+const SUMMARY_MODEL = "openai/gpt-oss-20b";
+const SEGMENT_SUMMARY_MAX_TOKENS = 1_500;
+export const SEGMENT_SUMMARY_CHAR_LIMIT = 12_000;
+
+export function parseSummarySegments(value: unknown): TopicSummarySegment[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter(
+      (segment): segment is TopicSummarySegment =>
+        Boolean(segment) &&
+        typeof segment === "object" &&
+        typeof (segment as TopicSummarySegment).id === "string" &&
+        typeof (segment as TopicSummarySegment).summary === "string"
+    )
+    .map((segment) => ({
+      id: segment.id,
+      level: Number(segment.level) || 0,
+      summary: segment.summary,
+      start_at: segment.start_at,
+      end_at: segment.end_at,
+      message_count: Number(segment.message_count) || 0,
+      source_tokens: Number(segment.source_tokens) || 0,
+      edited_at: segment.edited_at ?? null,
+    }))
+    .sort((a, b) => (a.start_at || "").localeCompare(b.start_at || ""));
+}
+
+/** Tokens of the messages the topic's segments stand in for. */
+export function compactedSourceTokens(topic: Pick<TopicRow, "summary_segments">) {
+  return parseSummarySegments(topic.summary_segments).reduce((sum, segment) => sum + segment.source_tokens, 0);
+}
+
+/** What the topic costs in context once compacted: the segments plus the uncompacted messages. */
+export function effectiveTopicTokens(topic: Pick<TopicRow, "summary_segments" | "token_estimate">) {
+  const segments = parseSummarySegments(topic.summary_segments);
+  if (!segments.length) return topic.token_estimate ?? 0;
+  const sourceTokens = segments.reduce((sum, segment) => sum + segment.source_tokens, 0);
+  const summaryTokens = segments.reduce((sum, segment) => sum + estimateTokens(segment.summary), 0);
+  return Math.max((topic.token_estimate ?? 0) - sourceTokens, 0) + summaryTokens;
+}
+
+export function topicNeedsCompaction(topic: Pick<TopicRow, "summary_segments" | "token_estimate">) {
+  return (topic.token_estimate ?? 0) - compactedSourceTokens(topic) > COMPACTION_TRIGGER_TOKENS;
+}
+
+/** The segments as one context block, oldest first. */
+export function renderTopicSummarySegments(segments: TopicSummarySegment[]): string {
+  return segments
+    .map((segment) => {
+      const from = (segment.start_at || "").slice(0, 10);
+      const to = (segment.end_at || "").slice(0, 10);
+      const range = from && to && from !== to ? `${from} to ${to}` : from || to;
+      return `(${range ? `${range}, ` : ""}${segment.message_count} messages) ${segment.summary.trim()}`;
+    })
+    .join("\n\n");
+}
+
+/** Messages of a compacted topic that aren't covered by its segments. */
+export function messagesAfterCompaction<T extends Pick<MessageRow, "created_at">>(
+  topic: Pick<TopicRow, "compacted_through">,
+  messages: T[]
+): T[] {
+  const through = topic.compacted_through;
+  if (!through) return messages;
+  const cutoff = new Date(through).getTime();
+  return messages.filter((message) => new Date(message.created_at || 0).getTime() > cutoff);
+}
+
+async function summarize(
+  text: string,
+  params: { topicLabel: string; rollUp: boolean; userId: string | null; conversationId: string }
+): Promise<string> {
+  const systemPrompt = params.rollUp
+    ? "You merge consecutive summaries of one conversation topic into a single summary of the whole span. Keep every decision, fact, figure, name, code identifier, open question and stated user preference that is still relevant; drop what later parts superseded. Write plain prose or terse bullets with no preamble."
+    : "You compress part of a conversation between a user and an assistant into a summary that will replace those messages in the assistant's context. Keep every decision, fact, figure, name, code identifier, open question and stated user preference; note what the assistant produced (answers, code, documents) in enough detail to refer back to it. Write plain prose or terse bullets with no preamble.";
+  const { text: output, usage } = await callDeepInfraLlama({
+    messages: [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: `Topic: ${params.topicLabel}\n\n${text}` },
+    ],
+    model: SUMMARY_MODEL,
+    enforceJson: false,
+    temperature: 0.2,
+    maxTokens: SEGMENT_SUMMARY_MAX_TOKENS,
+  });
+  if (params.userId && usage) {
+    const inputTokens = usage.input_tokens ?? 0;
+    const outputTokens = usage.output_tokens ?? 0;
+    await logUsageRecord({
+      userId: params.userId,
+      conversationId: params.conversationId,
+      model: SUMMARY_MODEL,
+      inputTokens,
+      cachedTokens: 0,
+      outputTokens,
+      estimatedCost: calculateCost(SUMMARY_MODEL, inputTokens, 0, outputTokens),
+      eventType: "router",
+      metadata: { stage: "topic_compaction", rollUp: params.rollUp },
+    });
+  }
+  const summary = (output || "").trim();
+  if (!summary) {
+    throw new Error("Topic summarizer returned an empty summary");
+  }
+  return summary.slice(0, SEGMENT_SUMMARY_CHAR_LIMIT);
+}
+
+function chunkMessages(messages: Array<{ row: MessageRow; tokens: number }>) {
+  const chunks: Array<Array<{ row: MessageRow; tokens: number }>> = [];
+  let current: Array<{ row: MessageRow; tokens: number }> = [];
+  let currentTokens = 0;
+  for (const entry of messages) {
+    if (current.length && currentTokens + entry.tokens > SEGMENT_SOURCE_TOKENS) {
+      chunks.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(entry);
+    currentTokens += entry.tokens;
+  }
+  if (current.length) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * Folds the topic's older uncompacted messages into its summary segments. Returns whether anything
+ * was compacted. The write is conditional on `compacted_through` being unchanged, so two workers
+ * compacting the same topic can't both land.
+ */
+export async function compactTopic(supabase: SupabaseClient<Database>, topicId: string): Promise<boolean> {
+  const supabaseAny = supabase as SupabaseClient<any>;
+  const { data: topicData, error: topicError } = await supabaseAny
+    .from("conversation_topics")
+    .select("*")
+    .eq("id", topicId)
+    .maybeSingle();
+  if (topicError) {
+    throw new Error(`Failed to load topic ${topicId}: ${topicError.message}`);
+  }
+  const topic = (topicData as TopicRow | null) ?? null;
+  if (!topic) return false;
+
+  const { data: conversation } = await supabaseAny
+    .from("conversations")
+    .select("user_id")
+    .eq("id", topic.conversation_id)
+    .maybeSingle();
+  const userId = typeof conversation?.user_id === "string" ? conversation.user_id : null;
+
+  let query = supabaseAny
+    .from("messages")
+    .select("id, conversation_id, role, content, metadata, topic_id, created_at")
+    .eq("conversation_id", topic.conversation_id)
+    .eq("topic_id", topic.id)
+    .order("created_at", { ascending: true });
+  if (topic.compacted_through) {
+    query = query.gt("created_at", topic.compacted_through);
+  }
+  const { data: messageData, error: messageError } = await query;
+  if (messageError) {
+    throw new Error(`Failed to load topic messages: ${messageError.message}`);
+  }
+  let rows = Array.isArray(messageData) ? (messageData as MessageRow[]) : [];
+  // Only the active branch is summarized; messages on abandoned edit branches never reach context.
+  const branch = await loadActiveBranch(supabase, topic.conversation_id).catch(() => null);
+  if (branch) {
+    const branchIds = new Set(branch.pathIds);
+    rows = rows.filter((row) => branchIds.has(row.id));
+  }
+
+  const entries = rows.map((row) => ({ row, tokens: estimateTokens(sanitizeTopicMessageContent(row)) }));
+  let tailStart = entries.length;
+  let tailTokens = 0;
+  while (tailStart > 0 && tailTokens + entries[tailStart - 1].tokens <= COMPACTION_TAIL_TOKENS) {
+    tailStart -= 1;
+    tailTokens += entries[tailStart].tokens;
+  }
+  // Don't open the tail on an assistant reply whose question was summarized away.
+  while (tailStart < entries.length && entries[tailStart].row.role === "assistant") {
+    tailStart += 1;
+  }
+  const toCompact = entries.slice(0, tailStart);
+  if (!toCompact.length) return false;
+
+  const label = topic.label || "Untitled topic";
+  let segments = parseSummarySegments(topic.summary_segments);
+  for (const chunk of chunkMessages(toCompact)) {
+    const transcript = chunk
+      .map(({ row }) => `${row.role === "assistant" ? "Assistant" : "User"}: ${sanitizeTopicMessageContent(row)}`)
+      .join("\n\n");
+    segments.push({
+      id: randomUUID(),
+      level: 0,
+      summary: await summarize(transcript, {
+        topicLabel: label,
+        rollUp: false,
+        userId,
+        conversationId: topic.conversation_id,
+      }),
+      start_at: chunk[0].row.created_at || new Date().toISOString(),
+      end_at: chunk[chunk.length - 1].row.created_at || new Date().toISOString(),
+      message_count: chunk.length,
+      source_tokens: chunk.reduce((sum, entry) => sum + entry.tokens, 0),
+      edited_at: null,
+    });
+  }
+
+  // Roll up from the bottom. Segments are in time order and higher levels are always older, so the
+  // segments of one level are contiguous.
+  for (let level = 0; segments.some((segment) => segment.level >= level); level += 1) {
+    let atLevel = segments.filter((segment) => segment.level === level);
+    while (atLevel.length > SEGMENTS_PER_LEVEL) {
+      const merged = atLevel.slice(0, SEGMENTS_PER_LEVEL);
+      const rolledUp: TopicSummarySegment = {
+        id: randomUUID(),
+        level: level + 1,
+        summary: await summarize(
+          merged.map((segment, index) => `Part ${index + 1}:\n${segment.summary}`).join("\n\n"),
+          { topicLabel: label, rollUp: true, userId, conversationId: topic.conversation_id }
+        ),
+        start_at: merged[0].start_at,
+        end_at: merged[merged.length - 1].end_at,
+        message_count: merged.reduce((sum, segment) => sum + segment.message_count, 0),
+        source_tokens: merged.reduce((sum, segment) => sum + segment.source_tokens, 0),
+        edited_at: null,
+      };
+      const mergedIds = new Set(merged.map((segment) => segment.id));
+      segments = [...segments.filter((segment) => !mergedIds.has(segment.id)), rolledUp].sort((a, b) =>
+        (a.start_at || "").localeCompare(b.start_at || "")
+      );
+      atLevel = segments.filter((segment) => segment.level === level);
+    }
+  }
+
+  const now = new Date().toISOString();
+  let update = supabaseAny
+    .from("conversation_topics")
+    .update({
+      summary_segments: segments,
+      compacted_through: toCompact[toCompact.length - 1].row.created_at,
+      compacted_at: now,
+      updated_at: now,
+    })
+    .eq("id", topic.id);
+  update = topic.compacted_through
+    ? update.eq("compacted_through", topic.compacted_through)
+    : update.is("compacted_through", null);
+  const { data: updated, error: updateError } = await update.select("id");
+  if (updateError) {
+    throw new Error(`Failed to save topic summary: ${updateError.message}`);
+  }
+  return Array.isArray(updated) && updated.length > 0;
+}
+
+/** Replaces one segment's text with the user's edit. Returns the updated segments, or null if missing. */
+export async function updateTopicSummarySegment(
+  supabase: SupabaseClient<Database>,
+  topicId: string,
+  segmentId: string,
+  summary: string
+): Promise<TopicSummarySegment[] | null> {
+  const supabaseAny = supabase as SupabaseClient<any>;
+  const { data, error } = await supabaseAny
+    .from("conversation_topics")
+    .select("id, summary_segments")
+    .eq("id", topicId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load topic ${topicId}: ${error.message}`);
+  }
+  if (!data) return null;
+  const segments = parseSummarySegments(data.summary_segments);
+  const target = segments.find((segment) => segment.id === segmentId);
+  if (!target) return null;
+  target.summary = summary.trim().slice(0, SEGMENT_SUMMARY_CHAR_LIMIT);
+  target.edited_at = new Date().toISOString();
+
+  const { error: updateError } = await supabaseAny
+    .from("conversation_topics")
+    .update({ summary_segments: segments, updated_at: new Date().toISOString() })
+    .eq("id", topicId);
+  if (updateError) {
+    throw new Error(`Failed to save topic summary: ${updateError.message}`);
+  }
+  return segments;
+}
+
+export type TopicSummaryView = {
+  id: string;
+  conversationId: string;
+  label: string;
+  summary: string | null;
+  tokenEstimate: number;
+  effectiveTokens: number;
+  compactedThrough: string | null;
+  compactedAt: string | null;
+  segments: TopicSummarySegment[];
+};
+
+export async function getTopicSummary(
+  supabase: SupabaseClient<Database>,
+  topicId: string
+): Promise<TopicSummaryView | null> {
+  const { data, error } = await (supabase as SupabaseClient<any>)
+    .from("conversation_topics")
+    .select("id, conversation_id, label, summary, token_estimate, summary_segments, compacted_through, compacted_at")
+    .eq("id", topicId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load topic ${topicId}: ${error.message}`);
+  }
+  if (!data) return null;
+  const topic = data as TopicRow;
+  return {
+    id: topic.id,
+    conversationId: topic.conversation_id,
+    label: topic.label,
+    summary: topic.summary ?? null,
+    tokenEstimate: topic.token_estimate ?? 0,
+    effectiveTokens: effectiveTopicTokens(topic),
+    compactedThrough: topic.compacted_through ?? null,
+    compactedAt: topic.compacted_at ?? null,
+    segments: parseSummarySegments(topic.summary_segments),
+  };
+}
+
+/** Sets the topic's own one-paragraph summary (the one the writer router maintains). */
+export async function updateTopicSummaryText(
+  supabase: SupabaseClient<Database>,
+  topicId: string,
+  summary: string | null
+) {
+  const { error } = await (supabase as SupabaseClient<any>)
+    .from("conversation_topics")
+    .update({ summary: summary?.trim() || null, updated_at: new Date().toISOString() })
+    .eq("id", topicId);
+  if (error) {
+    throw new Error(`Failed to save topic summary: ${error.message}`);
+  }
+}
@@ -0,0 +1,62 @@
+import type { ModelFamily } from "@/lib/modelConfig";
+
+export type AutomationTriggerType = "cron" | "webhook";
+export type AutomationRunTrigger = "schedule" | "webhook" | "manual";
+export type AutomationRunStatus = "running" | "completed" | "failed";
+
+export const AUTOMATION_STEP_TYPES = ["chat_prompt", "web_search", "summarize", "post_webhook"] as const;
+export type AutomationStepType = (typeof AUTOMATION_STEP_TYPES)[number];
+
+export const AUTOMATION_STEP_LABELS: Record<AutomationStepType, string> = {
+  chat_prompt: "Chat prompt",
+  web_search: "Web search",
+  summarize: "Summarize",
+  post_webhook: "Post to webhook",
+};
+
+// Step text may reference {{previous}} (the last step's output), {{payload}} (the webhook body)
+// and {{date}} (the run's UTC date).
+export type AutomationStep =
+  | { type: "chat_prompt"; prompt: string }
+  | { type: "web_search"; query: string }
+  | { type: "summarize"; instructions: string }
+  | { type: "post_webhook"; url: string };
+
+export interface Automation {
+  id: string;
+  name: string;
+  description: string | null;
+  triggerType: AutomationTriggerType;
+  cronExpression: string | null;
+  // Only present for webhook automations; the token is the secret part of the hook URL.
+  webhookToken: string | null;
+  steps: AutomationStep[];
+  modelFamily: Exclude<ModelFamily, "auto">;
+  enabled: boolean;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AutomationStepResult {
+  type: AutomationStepType;
+  status: "completed" | "failed";
+  output: string;
+  costUsd: number;
+  durationMs: number;
+  error?: string;
+}
+
+export interface AutomationRun {
+  id: string;
+  automationId: string;
+  conversationId: string | null;
+  trigger: AutomationRunTrigger;
+  status: AutomationRunStatus;
+  stepResults: AutomationStepResult[];
+  error: string | null;
+  costUsd: number;
+  startedAt: string;
+  finishedAt: string | null;
+}
@@ -0,0 +1,78 @@
+import type { Json } from "@/lib/supabase/types";
+
+export const CONVERSATION_BUNDLE_FORMAT = "llm-client.conversation-bundle";
+export const CONVERSATION_BUNDLE_VERSION = 1;
+
+export type ConversationExportFormat = "markdown" | "json";
+
+export interface BundleMessage {
+  id: string;
+  role: string;
+  content: string;
+  created_at: string | null;
+  // Branch tree link; absent in older bundles, which import as a single linear thread.
+  parent_message_id?: string | null;
+  topic_id: string | null;
+  preamble: string | null;
+  openai_response_id: string | null;
+  // Citations, files, generated images, model info, etc. (see AssistantMessageMetadata)
+  metadata: Json | null;
+}
+
+export interface BundleTopic {
+  id: string;
+  parent_topic_id: string | null;
+  label: string;
+  description: string | null;
+  summary: string | null;
+  token_estimate: number;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+export interface BundleArtifact {
+  id: string;
+  topic_id: string | null;
+  created_by_message_id: string | null;
+  type: string;
+  title: string;
+  summary: string | null;
+  content: string;
+  created_at: string | null;
+}
+
+export interface BundleConversation {
+  id: string;
+  title: string | null;
+  created_at: string | null;
+  metadata: Json | null;
+  active_leaf_message_id?: string | null;
+  messages: BundleMessage[];
+  topics: BundleTopic[];
+  artifacts: BundleArtifact[];
+}
+
+/**
+ * Lossless export of one conversation or a whole project.
+ * Ids are the source ids; the importer remaps them to fresh rows.
+ */
+export interface ConversationBundle {
+  format: typeof CONVERSATION_BUNDLE_FORMAT;
+  version: number;
+  exported_at: string;
+  project: { id: string; name: string; icon?: string; color?: string } | null;
+  conversations: BundleConversation[];
+}
+
+export interface ConversationImportResult {
+  source: "bundle" | "chatgpt";
+  // topicsPending: a topic rebuild is queued on the background worker; topicCount doesn't include it yet.
+  conversations: Array<{
+    id: string;
+    title: string | null;
+    messageCount: number;
+    topicCount: number;
+    topicsPending: boolean;
+  }>;
+  skipped: number;
+}
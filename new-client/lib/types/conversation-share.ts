@@ -0,0 +1,36 @@
+import type { CitationMetadata } from "@/lib/chatTypes";
+
+// Expiry choices offered in the share dialog; null means the link never expires.
+export const SHARE_EXPIRY_OPTIONS_DAYS = [null, 1, 7, 30] as const;
+export type ShareExpiryDays = (typeof SHARE_EXPIRY_OPTIONS_DAYS)[number];
+
+export interface SharedMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  created_at: string | null;
+  // Only what the public view renders; never attachments, memories or routing internals.
+  citations?: CitationMetadata[];
+  modelUsed?: string | null;
+}
+
+export interface ConversationShareSnapshot {
+  version: 1;
+  title: string;
+  created_at: string;
+  messages: SharedMessage[];
+}
+
+// Owner-facing summary; the snapshot itself is only served from /share/[token].
+export interface ConversationShareSummary {
+  id: string;
+  token: string;
+  conversationId: string;
+  title: string;
+  messageCount: number;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  viewCount: number;
+  createdAt: string;
+  status: "active" | "expired" | "revoked";
+}
@@ -0,0 +1,31 @@
+export type MessageSearchRole = "user" | "assistant";
+
+export type MessageSearchAttachmentKind = "any" | "image" | "pdf" | "document" | "spreadsheet" | "audio";
+
+export interface MessageSearchFilters {
+  projectId?: string | null;
+  // ISO timestamps; `to` is exclusive.
+  from?: string | null;
+  to?: string | null;
+  role?: MessageSearchRole | null;
+  attachment?: MessageSearchAttachmentKind | null;
+}
+
+export interface MessageSearchHit {
+  messageId: string;
+  conversationId: string;
+  conversationTitle: string | null;
+  projectId: string | null;
+  role: string;
+  // Plain text excerpt; keyword matches are wrapped in « » when available.
+  snippet: string;
+  createdAt: string | null;
+  score: number;
+  matchedBy: Array<"keyword" | "semantic">;
+}
+
+export interface MessageSearchResponse {
+  query: string;
+  hits: MessageSearchHit[];
+  semantic: boolean;
+}
@@ -0,0 +1,70 @@
+import type { DecisionRouterInput, DecisionRouterOutput } from "@/lib/router/decision-router";
+
+export type RequestTraceToolCall = {
+  type: "web_search" | "file_search" | "code_interpreter" | "function";
+  name?: string | null;
+  query?: string | null;
+  status: "started" | "completed" | "failed";
+  // Milliseconds since the request started.
+  atMs: number;
+};
+
+export type RequestTraceCost = {
+  label: string;
+  usd: number;
+};
+
+export interface RequestTrace {
+  version: 1;
+  startedAt: string;
+  model: {
+    requested: string | null;
+    used: string | null;
+    resolvedFamily: string | null;
+    effort: string | null;
+    routedBy: string | null;
+    // Set when the budget check swapped in a cheaper model.
+    downgradedFrom: string | null;
+    maxOutputTokens: number | null;
+  };
+  decision: {
+    // Router input as sent, so the turn can be replayed through the eval harness.
+    input: DecisionRouterInput | null;
+    output: DecisionRouterOutput | null;
+    llmAllowed: boolean;
+  } | null;
+  context: {
+    source: string;
+    includedTopicIds: string[];
+    includedMessageIds: string[];
+    summaryCount: number;
+    artifactCount: number;
+  } | null;
+  memories: Array<{ id: string; type: string; title: string }>;
+  web: {
+    queries: string[];
+    sources: Array<{ title: string; url: string }>;
+    resultCount: number;
+    enoughEvidence: boolean;
+    skipped: boolean;
+    skipReason: string | null;
+    serpCacheHits: number;
+    pageCacheHits: number;
+  } | null;
+  toolCalls: RequestTraceToolCall[];
+  usage: { inputTokens: number; cachedTokens: number; outputTokens: number } | null;
+  // Milliseconds since the request started, keyed by phase (decision, context, firstToken, ...).
+  timings: Record<string, number>;
+  costs: RequestTraceCost[];
+  totalCostUsd: number;
+  writer: unknown;
+  error: string | null;
+}
+
+export interface RequestTraceRecord {
+  id: string;
+  conversationId: string | null;
+  messageId: string | null;
+  createdAt: string;
+  trace: RequestTrace;
+}
@@ -10,11 +10,15 @@ export type SgaStatus =
 export type SgaAuthorityLevel = 0 | 1 | 2 | 3 | 4;
 export type SgaConnectionPermission = "read" | "write" | "read_write" | "custom";
 export type SgaConnectionAuthType = "none" | "api_key" | "bearer" | "basic";
+export type SgaRiskLevel = "low" | "medium" | "high";
+export type SgaWriteMethod = "POST" | "PUT" | "PATCH" | "DELETE";
+export type SgaActionTrigger = "on_failure" | "every_cycle";
 
 export interface SgaPolicy {
   allowedActions: string[];
   forbiddenActions: string[];
   approvalRequiredActions: string[];
+  approvalExpiryMinutes: number;
   riskBudget: {
     maxHighRiskActionsPerWeek: number;
     maxMediumRiskPerDay: number;
@@ -43,11 +47,113 @@ export interface SgaConnection {
   allowList: string[];
   denyList: string[];
   readEndpoints: string[];
+  writeActions: SgaWriteAction[];
   headers: Record<string, string>;
   authType: SgaConnectionAuthType;
   authHeader?: string | null;
   authValue?: string | null;
   hasAuthValue?: boolean;
+  /** Encrypted secret holding authValue; the value is only resolved where requests are sent. */
+  authSecretId?: string | null;
+  /** Header name -> secret id for header values encrypted at rest instead of stored in `headers`. */
+  secretHeaders?: Record<string, string>;
+  /** Write-only: new plaintext values for secret headers, encrypted when connections are saved. */
+  secretHeaderValues?: Record<string, string>;
+}
+
+/**
+ * A write the governor may issue through a connection. `action` is the name matched against
+ * the policy lists; `on_failure` actions are remediations planned only while the connection's
+ * read endpoints are failing.
+ */
+export interface SgaWriteAction {
+  action: string;
+  method: SgaWriteMethod;
+  endpoint: string;
+  riskLevel: SgaRiskLevel;
+  trigger: SgaActionTrigger;
+  estimatedCostUsd: number;
+}
+
+export type SgaApprovalStatus = "pending" | "approved" | "rejected" | "expired" | "executed" | "failed";
+
+export interface SgaApproval {
+  id: string;
+  instanceId: string;
+  runId: string;
+  cycleId: string | null;
+  connectionId: string;
+  connectionName: string;
+  action: string;
+  request: {
+    method: SgaWriteMethod;
+    url: string;
+    body: Record<string, unknown>;
+  };
+  rationale: string;
+  riskLevel: SgaRiskLevel;
+  estimatedCostUsd: number;
+  status: SgaApprovalStatus;
+  decisionNote: string | null;
+  decidedAt: string | null;
+  result: {
+    ok: boolean;
+    status: number | null;
+    verification: string | null;
+    preview: string;
+  } | null;
+  expiresAt: string;
+  createdAt: string;
+}
+
+/** Where a simulated read got its response: a supplied fixture, the latest live call, or neither. */
+export type SgaSimulationSource = "fixture" | "recorded" | "missing";
+
+/**
+ * Outcome of a dry-run cycle: reads replayed from fixtures or recorded responses, writes captured
+ * instead of sent. Nothing here touches the world state, the ledger or the approval queue.
+ */
+export interface SgaSimulationReport {
+  id: string;
+  instanceId: string;
+  createdAt: string;
+  authorityLevel: SgaAuthorityLevel;
+  policy: SgaPolicy;
+  summary: string;
+  reads: Array<{
+    connection: string;
+    endpoint: string;
+    source: SgaSimulationSource;
+    status: number | null;
+    ok: boolean;
+  }>;
+  actions: Array<{
+    connection: string;
+    action: string;
+    method: SgaWriteMethod;
+    endpoint: string;
+    riskLevel: SgaRiskLevel;
+    verdict: string;
+    reason: string;
+    estimatedCostUsd: number;
+    captured: boolean;
+  }>;
+  capturedWrites: Array<{
+    connection: string;
+    action: string;
+    method: string;
+    url: string;
+    body: unknown;
+  }>;
+  spend: {
+    cycleUsd: number;
+    projectedTodayUsd: number;
+    projectedMonthUsd: number;
+    dailyCapUsd: number;
+    monthlyCapUsd: number;
+    perTaskCapUsd: number;
+  };
+  phases: Array<{ phase: string; status: string; costUsd: number; note?: string }>;
 }
 
 export interface SgaInstance {
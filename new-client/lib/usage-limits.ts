@@ -7,7 +7,7 @@ export const PLAN_LIMITS = {
 
 export type PlanType = keyof typeof PLAN_LIMITS;
 
-function normalizePlanType(planType: PlanType | string): PlanType {
+export function normalizePlanType(planType: PlanType | string): PlanType {
   const normalized = String(planType || "").toLowerCase();
   if (normalized in PLAN_LIMITS) return normalized as PlanType;
   if (normalized === "dev") return "max";
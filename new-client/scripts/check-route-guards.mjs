@@ -0,0 +1,67 @@
+// Fails when an API route exports a handler that is not wrapped in withRouteGuard (lib/route-guard.ts).
+// Usage: node scripts/check-route-guards.mjs   (or npm run check:routes; npm test runs it too)
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const API_DIR = path.join(ROOT, "app", "api");
+const METHODS = "GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS";
+
+function findRouteFiles(dir) {
+  const files = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...findRouteFiles(fullPath));
+    } else if (/^route\.(ts|tsx|js|mjs)$/.test(entry.name)) {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
+
+export function checkRouteFile(source) {
+  const problems = [];
+  const functionExports = new RegExp(`^export\\s+(?:async\\s+)?function\\s+(${METHODS})\\b`, "gm");
+  for (const match of source.matchAll(functionExports)) {
+    problems.push(`${match[1]} is exported as a plain function`);
+  }
+  const constExports = new RegExp(`^export\\s+(?:const|let|var)\\s+(${METHODS})\\s*=\\s*([^\\n]*)`, "gm");
+  for (const match of source.matchAll(constExports)) {
+    if (!/^withRouteGuard\s*\(/.test(match[2])) {
+      problems.push(`${match[1]} is not wrapped in withRouteGuard`);
+    }
+  }
+  const reExports = new RegExp(`^export\\s*\\{[^}]*\\b(${METHODS})\\b[^}]*\\}`, "gm");
+  for (const match of source.matchAll(reExports)) {
+    problems.push(`${match[1]} is re-exported; wrap it in withRouteGuard where it is defined and export it directly`);
+  }
+  return problems;
+}
+
+/** Every unguarded handler under app/api, as "<file>: <problem>" lines. */
+export function findUnguardedHandlers() {
+  const files = findRouteFiles(API_DIR);
+  const problems = [];
+  for (const file of files) {
+    for (const problem of checkRouteFile(fs.readFileSync(file, "utf8"))) {
+      problems.push(`${path.relative(ROOT, file)}: ${problem}`);
+    }
+  }
+  return { files, problems };
+}
+
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  const { files, problems } = findUnguardedHandlers();
+  for (const problem of problems) {
+    console.error(problem);
+  }
+  if (problems.length) {
+    console.error(
+      `\n${problems.length} unguarded route handler${problems.length === 1 ? "" : "s"}. See lib/route-guard.ts.`
+    );
+    process.exit(1);
+  }
+  console.log(`All handlers in ${files.length} API routes are guarded.`);
+}
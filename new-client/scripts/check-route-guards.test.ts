@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+
+import { checkRouteFile, findUnguardedHandlers } from "./check-route-guards.mjs";
+
+describe("check-route-guards", () => {
+  it("finds every API route handler wrapped in withRouteGuard", () => {
+    const { files, problems } = findUnguardedHandlers();
+    expect(files.length).toBeGreaterThan(0);
+    expect(problems).toEqual([]);
+  });
+
+  it("flags plain, unwrapped and re-exported handlers", () => {
+    const source = [
+      "export async function GET() {}",
+      "export const POST = async () => {};",
+      "export { handler as DELETE };",
+      'export const PUT = withRouteGuard({ access: "user", routeClass: "standard" }, async () => {});',
+    ].join("\n");
+    expect(checkRouteFile(source)).toEqual([
+      "GET is exported as a plain function",
+      "POST is not wrapped in withRouteGuard",
+      "DELETE is re-exported; wrap it in withRouteGuard where it is defined and export it directly",
+    ]);
+  });
+});
@@ -0,0 +1,78 @@
+import fs from "fs";
+import {
+  parseRouterFixtures,
+  serializeRouterFixtures,
+} from "../lib/router/eval/fixtures";
+import {
+  applyRecordedResponses,
+  compareRouterEvalReports,
+  formatRouterEvalReport,
+  runRouterEval,
+  type RouterEvalMode,
+  type RouterEvalReport,
+} from "../lib/router/eval/run-eval";
+
+const USAGE = `Usage: ts-node scripts/eval-routers.ts <fixtures.jsonl> [options]
+
+  --mode replay|stub|live   replay recorded LLM responses (default), score the
+                            no-LLM fallbacks, or call the real router model
+  --baseline <report.json>  compare against an earlier --out report; exits 1 on regressions
+  --out <report.json>       write the full report (use as the next baseline)
+  --record <fixtures.jsonl> live mode: write fixtures with the captured responses
+  --verbose                 keep router logging`;
+
+function readFlag(args: string[], name: string): string | null {
+  const idx = args.indexOf(name);
+  if (idx < 0) return null;
+  const value = args[idx + 1];
+  if (!value || value.startsWith("--")) {
+    console.error(`${name} needs a value\n\n${USAGE}`);
+    process.exit(1);
+  }
+  args.splice(idx, 2);
+  return value;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const mode = (readFlag(args, "--mode") ?? "replay") as RouterEvalMode;
+  const baselinePath = readFlag(args, "--baseline");
+  const outPath = readFlag(args, "--out");
+  const recordPath = readFlag(args, "--record");
+  const verbose = args.includes("--verbose");
+  const [fixturePath] = args.filter((arg) => arg !== "--verbose");
+
+  if (!fixturePath || !["replay", "stub", "live"].includes(mode)) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+  if (recordPath && mode !== "live") {
+    console.error("--record only makes sense with --mode live");
+    process.exit(1);
+  }
+
+  const fixtures = parseRouterFixtures(fs.readFileSync(fixturePath, "utf8"));
+  const baseline = baselinePath
+    ? (JSON.parse(fs.readFileSync(baselinePath, "utf8")) as RouterEvalReport)
+    : null;
+
+  const report = await runRouterEval(fixtures, { mode, quiet: !verbose });
+  console.log(formatRouterEvalReport(report, baseline));
+
+  if (outPath) {
+    fs.writeFileSync(outPath, JSON.stringify(report, null, 2));
+    console.log(`\nReport written to ${outPath}`);
+  }
+  if (recordPath) {
+    fs.writeFileSync(recordPath, serializeRouterFixtures(applyRecordedResponses(fixtures, report)));
+    console.log(`Recorded fixtures written to ${recordPath}`);
+  }
+  if (baseline && compareRouterEvalReports(report, baseline).regressed.length) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
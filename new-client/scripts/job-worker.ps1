@@ -0,0 +1,29 @@
+$ErrorActionPreference = "Stop"
+
+$secret = $env:CRON_SECRET
+if (-not $secret) {
+  Write-Error "CRON_SECRET env var is required."
+}
+
+$url = $env:JOB_WORKER_URL
+if (-not $url) {
+  $url = "http://localhost:3000/api/jobs/worker"
+}
+
+$interval = $env:JOB_WORKER_INTERVAL_SECONDS
+if (-not $interval) {
+  $interval = 10
+}
+
+Write-Host "Polling $url every $interval s (Ctrl+C to stop)"
+while ($true) {
+  try {
+    $result = Invoke-RestMethod -Method Get -Uri $url -Headers @{ Authorization = "Bearer $secret" }
+    if ($result.claimed -gt 0) {
+      Write-Host ("{0} claimed={1} succeeded={2} retried={3} failed={4}" -f (Get-Date -Format "HH:mm:ss"), $result.claimed, $result.succeeded, $result.retried, $result.failed)
+    }
+  } catch {
+    Write-Warning $_
+  }
+  Start-Sleep -Seconds $interval
+}
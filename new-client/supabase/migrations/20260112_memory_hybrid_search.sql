@@ -0,0 +1,41 @@
+-- Vector candidates for hybrid memory retrieval.
+-- Unlike match_memories, this accepts a list of types and returns every candidate
+-- above the similarity floor so the app can blend in keyword and recency scores.
+create or replace function public.match_memories_hybrid(
+  query_embedding vector(1536),
+  p_user_id uuid,
+  filter_types text[] default null,
+  match_threshold float default 0.2,
+  match_count int default 40
+)
+returns table (
+  id uuid,
+  type text,
+  title text,
+  content text,
+  importance int,
+  enabled boolean,
+  created_at timestamptz,
+  similarity float
+)
+language sql stable
+set search_path = public, pg_temp
+as $$
+  select
+    m.id,
+    m.type,
+    m.title,
+    m.content,
+    m.importance,
+    m.enabled,
+    m.created_at,
+    1 - (m.embedding <=> query_embedding) as similarity
+  from public.memories m
+  where m.user_id = p_user_id
+    and m.enabled = true
+    and m.embedding is not null
+    and (filter_types is null or cardinality(filter_types) = 0 or m.type = any(filter_types))
+    and 1 - (m.embedding <=> query_embedding) >= match_threshold
+  order by m.embedding <=> query_embedding
+  limit match_count;
+$$;
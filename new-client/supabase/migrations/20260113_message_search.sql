@@ -0,0 +1,171 @@
+-- Cross-conversation message search: full-text (tsvector) + semantic (pgvector) candidates.
+-- The app fuses both result lists; these functions only apply filters and rank within each.
+
+alter table public.messages
+  add column if not exists search_tsv tsvector
+  generated always as (to_tsvector('english', coalesce(content, ''))) stored;
+
+create index if not exists messages_search_tsv_idx
+  on public.messages using gin (search_tsv);
+
+alter table public.messages add column if not exists embedding vector(1536);
+alter table public.messages add column if not exists embedding_raw float8[];
+
+-- Keep embedding in sync with embedding_raw
+create or replace function public.sync_message_embedding()
+returns trigger
+language plpgsql
+as $$
+begin
+  if NEW.embedding_raw is not null then
+    NEW.embedding := NEW.embedding_raw::vector(1536);
+  else
+    NEW.embedding := null;
+  end if;
+  return NEW;
+end;
+$$;
+
+drop trigger if exists trg_sync_message_embedding on public.messages;
+create trigger trg_sync_message_embedding
+before insert or update of embedding_raw on public.messages
+for each row
+execute procedure public.sync_message_embedding();
+
+create index if not exists messages_embedding_idx
+  on public.messages using ivfflat (embedding vector_cosine_ops)
+  with (lists = 100);
+
+create index if not exists messages_user_created_idx
+  on public.messages (user_id, created_at desc);
+
+-- Shared filter: project, date range, role, and attachment mime patterns (LIKE, e.g. 'image/%').
+create or replace function public.message_matches_search_filters(
+  m public.messages,
+  c public.conversations,
+  p_project_id uuid,
+  p_from timestamptz,
+  p_to timestamptz,
+  p_role text,
+  p_mime_patterns text[]
+)
+returns boolean
+language sql stable
+set search_path = public, pg_temp
+as $$
+  select
+    (p_project_id is null or c.project_id = p_project_id)
+    and (p_from is null or m.created_at >= p_from)
+    and (p_to is null or m.created_at < p_to)
+    and (p_role is null or m.role = p_role)
+    and (
+      p_mime_patterns is null
+      or cardinality(p_mime_patterns) = 0
+      or exists (
+        select 1
+        from jsonb_array_elements(
+          case when jsonb_typeof(m.metadata -> 'files') = 'array' then m.metadata -> 'files' else '[]'::jsonb end
+        ) f
+        where coalesce(f ->> 'mimeType', '') like any (p_mime_patterns)
+      )
+    );
+$$;
+
+create or replace function public.search_messages_fulltext(
+  p_user_id uuid,
+  p_query text,
+  p_project_id uuid default null,
+  p_from timestamptz default null,
+  p_to timestamptz default null,
+  p_role text default null,
+  p_mime_patterns text[] default null,
+  match_count int default 40
+)
+returns table (
+  id uuid,
+  conversation_id uuid,
+  conversation_title text,
+  project_id uuid,
+  role text,
+  content text,
+  snippet text,
+  metadata jsonb,
+  created_at timestamptz,
+  rank float
+)
+language sql stable
+set search_path = public, pg_temp
+as $$
+  with q as (select websearch_to_tsquery('english', p_query) as query)
+  select
+    m.id,
+    m.conversation_id,
+    c.title as conversation_title,
+    c.project_id,
+    m.role,
+    m.content,
+    ts_headline(
+      'english',
+      m.content,
+      q.query,
+      'StartSel=«, StopSel=», MaxFragments=2, MaxWords=24, MinWords=8, FragmentDelimiter= … '
+    ) as snippet,
+    m.metadata,
+    m.created_at,
+    ts_rank_cd(m.search_tsv, q.query) as rank
+  from public.messages m
+  join public.conversations c on c.id = m.conversation_id
+  cross join q
+  where m.user_id = p_user_id
+    and c.user_id = p_user_id
+    and m.search_tsv @@ q.query
+    and public.message_matches_search_filters(m, c, p_project_id, p_from, p_to, p_role, p_mime_patterns)
+  order by rank desc, m.created_at desc
+  limit match_count;
+$$;
+
+create or replace function public.match_messages_semantic(
+  query_embedding vector(1536),
+  p_user_id uuid,
+  p_project_id uuid default null,
+  p_from timestamptz default null,
+  p_to timestamptz default null,
+  p_role text default null,
+  p_mime_patterns text[] default null,
+  match_threshold float default 0.3,
+  match_count int default 40
+)
+returns table (
+  id uuid,
+  conversation_id uuid,
+  conversation_title text,
+  project_id uuid,
+  role text,
+  content text,
+  metadata jsonb,
+  created_at timestamptz,
+  similarity float
+)
+language sql stable
+set search_path = public, pg_temp
+as $$
+  select
+    m.id,
+    m.conversation_id,
+    c.title as conversation_title,
+    c.project_id,
+    m.role,
+    m.content,
+    m.metadata,
+    m.created_at,
+    1 - (m.embedding <=> query_embedding) as similarity
+  from public.messages m
+  join public.conversations c on c.id = m.conversation_id
+  where m.user_id = p_user_id
+    and c.user_id = p_user_id
+    and m.embedding is not null
+    and 1 - (m.embedding <=> query_embedding) >= match_threshold
+    and public.message_matches_search_filters(m, c, p_project_id, p_from, p_to, p_role, p_mime_patterns)
+  order by m.embedding <=> query_embedding
+  limit match_count;
+$$;
@@ -0,0 +1,95 @@
+-- Conversation branching: messages form a tree (parent_message_id) and each message records the
+-- branch it was written on. The root branch of a conversation uses the conversation id; editing a
+-- user message starts a new branch as a sibling of the original message.
+
+alter table public.messages
+  add column if not exists parent_message_id uuid references public.messages(id) on delete set null;
+alter table public.messages add column if not exists branch_id uuid;
+
+alter table public.conversations add column if not exists active_leaf_message_id uuid;
+
+create index if not exists messages_parent_message_id_idx
+  on public.messages (parent_message_id);
+
+-- Existing conversations become single linear branches.
+with ordered as (
+  select
+    id,
+    lag(id) over (partition by conversation_id order by created_at, id) as prev_id
+  from public.messages
+)
+update public.messages m
+set parent_message_id = ordered.prev_id
+from ordered
+where m.id = ordered.id
+  and m.parent_message_id is null
+  and ordered.prev_id is not null;
+
+update public.messages
+set branch_id = conversation_id
+where branch_id is null;
+
+update public.conversations c
+set active_leaf_message_id = (
+  select m.id
+  from public.messages m
+  where m.conversation_id = c.id
+  order by m.created_at desc, m.id desc
+  limit 1
+)
+where c.active_leaf_message_id is null;
+
+-- Inserts without an explicit branch continue the active branch: the parent defaults to the
+-- conversation's active leaf and the branch is inherited from the parent. Inserts that pass a
+-- branch_id (forks) keep the parent they were given, including null for a new root.
+-- Either way the new message becomes the active leaf.
+create or replace function public.link_message_to_active_branch()
+returns trigger
+language plpgsql
+security definer
+set search_path = public, pg_temp
+as $$
+declare
+  leaf_id uuid;
+  parent_branch uuid;
+begin
+  if NEW.branch_id is null then
+    if NEW.parent_message_id is null then
+      select c.active_leaf_message_id into leaf_id
+      from public.conversations c
+      where c.id = NEW.conversation_id;
+
+      if leaf_id is null or not exists (
+        select 1 from public.messages m where m.id = leaf_id and m.conversation_id = NEW.conversation_id
+      ) then
+        select m.id into leaf_id
+        from public.messages m
+        where m.conversation_id = NEW.conversation_id
+        order by m.created_at desc, m.id desc
+        limit 1;
+      end if;
+
+      NEW.parent_message_id := leaf_id;
+    end if;
+
+    if NEW.parent_message_id is not null then
+      select m.branch_id into parent_branch
+      from public.messages m
+      where m.id = NEW.parent_message_id;
+    end if;
+    NEW.branch_id := coalesce(parent_branch, NEW.conversation_id);
+  end if;
+
+  update public.conversations
+  set active_leaf_message_id = NEW.id
+  where id = NEW.conversation_id;
+
+  return NEW;
+end;
+$$;
+
+drop trigger if exists trg_link_message_to_active_branch on public.messages;
+create trigger trg_link_message_to_active_branch
+before insert on public.messages
+for each row
+execute procedure public.link_message_to_active_branch();
@@ -0,0 +1,39 @@
+-- Project knowledge base: files uploaded once to a project and searched (file_search) from every
+-- chat in it. Each project owns one OpenAI vector store; rows here mirror its files.
+
+alter table public.projects add column if not exists vector_store_id text;
+
+create table if not exists public.project_files (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null,
+  mime text null,
+  size_bytes bigint not null default 0,
+  openai_file_id text null,
+  status text not null default 'processing' check (status in ('processing', 'ready', 'failed')),
+  error text null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists project_files_project_id_idx on public.project_files (project_id, created_at desc);
+create index if not exists project_files_user_id_idx on public.project_files (user_id);
+
+alter table public.project_files enable row level security;
+
+create policy "project_files_select_own" on public.project_files
+  for select
+  using (auth.uid() = user_id);
+
+create policy "project_files_insert_own" on public.project_files
+  for insert
+  with check (auth.uid() = user_id);
+
+create policy "project_files_update_own" on public.project_files
+  for update
+  using (auth.uid() = user_id);
+
+create policy "project_files_delete_own" on public.project_files
+  for delete
+  using (auth.uid() = user_id);
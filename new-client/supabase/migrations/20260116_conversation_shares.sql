@@ -0,0 +1,40 @@
+-- Public, read-only conversation links. Each share stores a sanitized snapshot of the active
+-- branch at creation time, so later edits (and deleted attachments) never leak into it.
+-- Public reads go through the service role by token; owners manage rows through RLS.
+
+create table if not exists public.conversation_shares (
+  id uuid primary key default gen_random_uuid(),
+  token text not null unique,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  conversation_id uuid not null references public.conversations(id) on delete cascade,
+  title text not null,
+  snapshot jsonb not null,
+  message_count integer not null default 0,
+  expires_at timestamptz null,
+  revoked_at timestamptz null,
+  view_count integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists conversation_shares_user_id_idx
+  on public.conversation_shares (user_id, created_at desc);
+create index if not exists conversation_shares_conversation_id_idx
+  on public.conversation_shares (conversation_id);
+
+alter table public.conversation_shares enable row level security;
+
+create policy "conversation_shares_select_own" on public.conversation_shares
+  for select
+  using (auth.uid() = user_id);
+
+create policy "conversation_shares_insert_own" on public.conversation_shares
+  for insert
+  with check (auth.uid() = user_id);
+
+create policy "conversation_shares_update_own" on public.conversation_shares
+  for update
+  using (auth.uid() = user_id);
+
+create policy "conversation_shares_delete_own" on public.conversation_shares
+  for delete
+  using (auth.uid() = user_id);
@@ -0,0 +1,120 @@
+-- Pre-flight budget enforcement. Each chat turn reserves its worst-case cost before calling the
+-- model and settles (or releases) the reservation afterwards. Open reservations count against the
+-- monthly budget so concurrent turns can't jointly overshoot it.
+
+alter table public.projects add column if not exists monthly_budget_usd numeric(12, 4) null;
+
+create table if not exists public.budget_reservations (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  project_id uuid null references public.projects(id) on delete set null,
+  conversation_id uuid null references public.conversations(id) on delete set null,
+  model text not null,
+  amount_usd numeric(12, 6) not null,
+  actual_usd numeric(12, 6) null,
+  status text not null default 'reserved' check (status in ('reserved', 'settled', 'released', 'expired')),
+  metadata jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  settled_at timestamptz null
+);
+
+create index if not exists budget_reservations_open_user_idx
+  on public.budget_reservations (user_id)
+  where status = 'reserved';
+create index if not exists budget_reservations_open_project_idx
+  on public.budget_reservations (project_id)
+  where status = 'reserved';
+
+alter table public.budget_reservations enable row level security;
+
+create policy "budget_reservations_select_own" on public.budget_reservations
+  for select
+  using (auth.uid() = user_id);
+
+create policy "budget_reservations_insert_own" on public.budget_reservations
+  for insert
+  with check (auth.uid() = user_id);
+
+create policy "budget_reservations_update_own" on public.budget_reservations
+  for update
+  using (auth.uid() = user_id);
+
+-- Spend attributed to a project's chats since a point in time (usage_events joined via conversation).
+create or replace function public.project_spending_since(p_project_id uuid, p_since timestamptz)
+returns numeric
+language sql stable
+set search_path = public, pg_temp
+as $$
+  select coalesce(sum(e.cost_usd), 0)
+  from public.usage_events e
+  join public.conversations c on c.id = e.conversation_id
+  where c.project_id = p_project_id
+    and e.created_at >= p_since;
+$$;
+
+-- Atomically check headroom and reserve. Spend for the user's billing period is computed by the
+-- app (it knows the period start) and passed in; open reservations are summed here under a
+-- per-user advisory lock. Returns a null reservation_id when the amount doesn't fit, along with
+-- the headroom so the caller can downgrade and retry.
+create or replace function public.reserve_budget(
+  p_user_id uuid,
+  p_project_id uuid,
+  p_conversation_id uuid,
+  p_model text,
+  p_amount numeric,
+  p_user_limit numeric,
+  p_user_spent numeric,
+  p_project_limit numeric,
+  p_project_since timestamptz,
+  p_ttl_seconds integer default 900,
+  p_metadata jsonb default '{}'::jsonb
+)
+returns table (reservation_id uuid, user_available numeric, project_available numeric)
+language plpgsql
+set search_path = public, pg_temp
+as $$
+declare
+  v_user_reserved numeric;
+  v_project_reserved numeric;
+  v_user_available numeric;
+  v_project_available numeric := null;
+  v_id uuid := null;
+begin
+  if auth.uid() is not null and auth.uid() <> p_user_id then
+    raise exception 'reserve_budget: user mismatch';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext('budget:' || p_user_id::text));
+
+  update public.budget_reservations
+    set status = 'expired'
+    where user_id = p_user_id and status = 'reserved' and expires_at < now();
+
+  select coalesce(sum(amount_usd), 0) into v_user_reserved
+    from public.budget_reservations
+    where user_id = p_user_id and status = 'reserved';
+  v_user_available := p_user_limit - p_user_spent - v_user_reserved;
+
+  if p_project_id is not null and p_project_limit is not null then
+    select coalesce(sum(amount_usd), 0) into v_project_reserved
+      from public.budget_reservations
+      where project_id = p_project_id and status = 'reserved';
+    v_project_available := p_project_limit
+      - public.project_spending_since(p_project_id, p_project_since)
+      - v_project_reserved;
+  end if;
+
+  if p_amount <= v_user_available and (v_project_available is null or p_amount <= v_project_available) then
+    insert into public.budget_reservations (
+      user_id, project_id, conversation_id, model, amount_usd, metadata, expires_at
+    ) values (
+      p_user_id, p_project_id, p_conversation_id, p_model, p_amount, coalesce(p_metadata, '{}'::jsonb),
+      now() + make_interval(secs => greatest(p_ttl_seconds, 60))
+    )
+    returning id into v_id;
+  end if;
+
+  return query select v_id, v_user_available, v_project_available;
+end;
+$$;
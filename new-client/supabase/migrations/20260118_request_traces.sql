@@ -0,0 +1,31 @@
+-- Structured per-turn traces for the chat route: router decision, context selection, memories,
+-- web pipeline, tool calls, timings and costs. Assistant messages point at their trace through
+-- metadata.traceId; the id is minted before the message is saved, so there is no FK from messages.
+
+create table if not exists public.request_traces (
+  id uuid primary key,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  conversation_id uuid null references public.conversations(id) on delete cascade,
+  message_id uuid null references public.messages(id) on delete cascade,
+  trace jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists request_traces_user_id_idx
+  on public.request_traces (user_id, created_at desc);
+create index if not exists request_traces_message_id_idx
+  on public.request_traces (message_id);
+
+alter table public.request_traces enable row level security;
+
+create policy "request_traces_select_own" on public.request_traces
+  for select
+  using (auth.uid() = user_id);
+
+create policy "request_traces_insert_own" on public.request_traces
+  for insert
+  with check (auth.uid() = user_id);
+
+create policy "request_traces_delete_own" on public.request_traces
+  for delete
+  using (auth.uid() = user_id);
@@ -0,0 +1,46 @@
+-- Human approval queue for governor actions listed in SgaPolicy.approvalRequiredActions.
+-- The governor parks each such action here with the exact request it would send; a reviewer's
+-- approve/reject resumes or cancels the run that proposed it. Pending rows expire at expires_at.
+
+create table if not exists public.governor_approvals (
+  id uuid primary key default gen_random_uuid(),
+  instance_id uuid not null references public.governor_instances(id) on delete cascade,
+  run_id uuid not null references public.governor_runs(id) on delete cascade,
+  cycle_id text,
+  connection_id text not null,
+  connection_name text not null default '',
+  action text not null,
+  request jsonb not null default '{}'::jsonb,
+  rationale text not null default '',
+  risk_level text not null default 'low' check (risk_level in ('low', 'medium', 'high')),
+  estimated_cost_usd numeric not null default 0,
+  status text not null default 'pending'
+    check (status in ('pending', 'approved', 'rejected', 'expired', 'executed', 'failed')),
+  decision_note text,
+  decided_by uuid references auth.users(id) on delete set null,
+  decided_at timestamptz,
+  result jsonb,
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists governor_approvals_instance_status_idx
+  on public.governor_approvals (instance_id, status, created_at desc);
+create index if not exists governor_approvals_run_idx
+  on public.governor_approvals (run_id);
+
+alter table public.governor_approvals enable row level security;
+
+create policy "governor_approvals_select_own" on public.governor_approvals
+  for select
+  using (public.governor_instance_belongs_to_user(instance_id));
+
+create policy "governor_approvals_insert_own" on public.governor_approvals
+  for insert
+  with check (public.governor_instance_belongs_to_user(instance_id));
+
+create policy "governor_approvals_update_own" on public.governor_approvals
+  for update
+  using (public.governor_instance_belongs_to_user(instance_id))
+  with check (public.governor_instance_belongs_to_user(instance_id));
@@ -0,0 +1,24 @@
+-- Dry-run reports for the SGA run route's simulation mode. Reads are replayed from fixtures or
+-- recorded responses and writes are captured, so these rows never feed the world state or ledger.
+
+create table if not exists public.governor_simulations (
+  id uuid primary key default gen_random_uuid(),
+  instance_id uuid not null references public.governor_instances(id) on delete cascade,
+  authority_level smallint not null,
+  summary text not null default '',
+  report jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists governor_simulations_instance_idx
+  on public.governor_simulations (instance_id, created_at desc);
+
+alter table public.governor_simulations enable row level security;
+
+create policy "governor_simulations_select_own" on public.governor_simulations
+  for select
+  using (public.governor_instance_belongs_to_user(instance_id));
+
+create policy "governor_simulations_insert_own" on public.governor_simulations
+  for insert
+  with check (public.governor_instance_belongs_to_user(instance_id));
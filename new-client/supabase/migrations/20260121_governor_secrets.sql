@@ -0,0 +1,61 @@
+-- Encrypted connection credentials for SGA instances. Values are AES-256-GCM ciphertext under the
+-- app key (SGA_SECRETS_KEY); connections in governor_instances.config reference them by id.
+-- governor_secret_audit records every create, rotate, use and delete.
+
+create table if not exists public.governor_secrets (
+  id uuid primary key default gen_random_uuid(),
+  instance_id uuid not null references public.governor_instances(id) on delete cascade,
+  label text not null default '',
+  ciphertext text not null,
+  iv text not null,
+  auth_tag text not null,
+  key_id text not null,
+  created_at timestamptz not null default now(),
+  rotated_at timestamptz,
+  last_used_at timestamptz
+);
+
+create index if not exists governor_secrets_instance_idx
+  on public.governor_secrets (instance_id);
+
+create table if not exists public.governor_secret_audit (
+  id uuid primary key default gen_random_uuid(),
+  secret_id uuid references public.governor_secrets(id) on delete set null,
+  instance_id uuid not null references public.governor_instances(id) on delete cascade,
+  action text not null check (action in ('created', 'rotated', 'used', 'deleted', 'reencrypted')),
+  actor text not null default '',
+  label text not null default '',
+  metadata jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists governor_secret_audit_instance_idx
+  on public.governor_secret_audit (instance_id, created_at desc);
+
+alter table public.governor_secrets enable row level security;
+alter table public.governor_secret_audit enable row level security;
+
+create policy "governor_secrets_select_own" on public.governor_secrets
+  for select
+  using (public.governor_instance_belongs_to_user(instance_id));
+
+create policy "governor_secrets_insert_own" on public.governor_secrets
+  for insert
+  with check (public.governor_instance_belongs_to_user(instance_id));
+
+create policy "governor_secrets_update_own" on public.governor_secrets
+  for update
+  using (public.governor_instance_belongs_to_user(instance_id))
+  with check (public.governor_instance_belongs_to_user(instance_id));
+
+create policy "governor_secrets_delete_own" on public.governor_secrets
+  for delete
+  using (public.governor_instance_belongs_to_user(instance_id));
+
+create policy "governor_secret_audit_select_own" on public.governor_secret_audit
+  for select
+  using (public.governor_instance_belongs_to_user(instance_id));
+
+create policy "governor_secret_audit_insert_own" on public.governor_secret_audit
+  for insert
+  with check (public.governor_instance_belongs_to_user(instance_id));
@@ -0,0 +1,121 @@
+-- Durable chat turns. Every streamed turn gets a chat_turn_jobs row; the route appends the NDJSON
+-- events it sends to chat_turn_job_events in small batches so a client that dropped the connection
+-- can reconnect by job id and replay the stream. The turn keeps running when the client goes away;
+-- only an explicit cancel (status = 'cancelled') stops it. It does not survive the request itself
+-- being killed (platform timeout, crash): heartbeat_at moves with every flush, so a running job
+-- whose heartbeat is old was killed mid-turn and is marked failed when next read; nothing resumes it.
+
+create table if not exists public.chat_turn_jobs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  conversation_id uuid not null references public.conversations(id) on delete cascade,
+  user_message_id uuid null references public.messages(id) on delete set null,
+  assistant_message_id uuid null references public.messages(id) on delete set null,
+  status text not null default 'running' check (status in ('running', 'completed', 'failed', 'cancelled')),
+  error text null,
+  event_count integer not null default 0,
+  created_at timestamptz not null default now(),
+  heartbeat_at timestamptz not null default now(),
+  finished_at timestamptz null
+);
+
+create index if not exists chat_turn_jobs_conversation_idx
+  on public.chat_turn_jobs (conversation_id, created_at desc);
+create index if not exists chat_turn_jobs_running_user_idx
+  on public.chat_turn_jobs (user_id)
+  where status = 'running';
+
+-- Each row is one flushed batch; start_index is the position of its first event in the stream.
+create table if not exists public.chat_turn_job_events (
+  id bigint generated always as identity primary key,
+  job_id uuid not null references public.chat_turn_jobs(id) on delete cascade,
+  start_index integer not null,
+  events jsonb not null,
+  created_at timestamptz not null default now(),
+  unique (job_id, start_index)
+);
+
+alter table public.chat_turn_jobs enable row level security;
+alter table public.chat_turn_job_events enable row level security;
+
+create policy "chat_turn_jobs_select_own" on public.chat_turn_jobs
+  for select
+  using (auth.uid() = user_id);
+
+create policy "chat_turn_jobs_insert_own" on public.chat_turn_jobs
+  for insert
+  with check (auth.uid() = user_id);
+
+create policy "chat_turn_jobs_update_own" on public.chat_turn_jobs
+  for update
+  using (auth.uid() = user_id);
+
+create policy "chat_turn_job_events_select_own" on public.chat_turn_job_events
+  for select
+  using (exists (select 1 from public.chat_turn_jobs j where j.id = job_id and j.user_id = auth.uid()));
+
+create policy "chat_turn_job_events_insert_own" on public.chat_turn_job_events
+  for insert
+  with check (exists (select 1 from public.chat_turn_jobs j where j.id = job_id and j.user_id = auth.uid()));
+
+-- Background work queue (writer router, artifact extraction, topic snapshots). Only the service
+-- role touches it: RLS is on with no policies. Failed attempts are retried with backoff until
+-- max_attempts; a job locked longer than the claim timeout is assumed abandoned and reclaimed.
+
+create table if not exists public.background_jobs (
+  id uuid primary key default gen_random_uuid(),
+  kind text not null,
+  payload jsonb not null default '{}'::jsonb,
+  status text not null default 'queued' check (status in ('queued', 'running', 'succeeded', 'failed')),
+  attempts integer not null default 0,
+  max_attempts integer not null default 5,
+  run_after timestamptz not null default now(),
+  locked_at timestamptz null,
+  locked_by text null,
+  last_error text null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  finished_at timestamptz null
+);
+
+create index if not exists background_jobs_ready_idx
+  on public.background_jobs (run_after)
+  where status = 'queued';
+create index if not exists background_jobs_running_idx
+  on public.background_jobs (locked_at)
+  where status = 'running';
+
+alter table public.background_jobs enable row level security;
+
+-- Claims up to p_limit ready jobs for one worker. skip locked lets several workers poll at once
+-- without handing out the same job twice.
+create or replace function public.claim_background_jobs(
+  p_worker text,
+  p_limit integer default 5,
+  p_lock_timeout_seconds integer default 600
+)
+returns setof public.background_jobs
+language plpgsql
+set search_path = public, pg_temp
+as $$
+begin
+  return query
+  update public.background_jobs j
+    set status = 'running',
+        attempts = j.attempts + 1,
+        locked_at = now(),
+        locked_by = p_worker,
+        updated_at = now()
+    where j.id in (
+      select id from public.background_jobs
+        where (status = 'queued' and run_after <= now())
+           or (status = 'running' and locked_at < now() - make_interval(secs => p_lock_timeout_seconds))
+        order by run_after
+        limit greatest(p_limit, 1)
+        for update skip locked
+    )
+    returning j.*;
+end;
+$$;
+
+revoke execute on function public.claim_background_jobs(text, integer, integer) from public, anon, authenticated;
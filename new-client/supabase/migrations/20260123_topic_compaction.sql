@@ -0,0 +1,10 @@
+-- Rolling summaries for long topics. Once a topic outgrows the compaction threshold, its older
+-- messages are summarized into level-0 segments and runs of segments are rolled up into higher
+-- levels, so summary_segments stays short however long the topic gets. compacted_through is the
+-- created_at of the newest message folded into a segment; context building sends the segments
+-- followed by the messages after it. Segments are user-editable through the topic summary API.
+
+alter table public.conversation_topics
+  add column if not exists summary_segments jsonb not null default '[]'::jsonb,
+  add column if not exists compacted_through timestamptz null,
+  add column if not exists compacted_at timestamptz null;
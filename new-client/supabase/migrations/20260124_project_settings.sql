@@ -0,0 +1,10 @@
+-- Per-project chat settings. Instructions are added to the system prompt of every chat in the
+-- project; the defaults stand in for "auto" model, speed and search choices; pinned memory types
+-- are always loaded on top of the ones the decision router picks.
+
+alter table public.projects
+  add column if not exists instructions text null,
+  add column if not exists default_model_family text null,
+  add column if not exists default_speed_mode text null,
+  add column if not exists default_search_controls jsonb null,
+  add column if not exists pinned_memory_types text[] not null default '{}';
@@ -0,0 +1,74 @@
+-- User-defined agents. Each one is a named preset the chat route applies whenever a turn is sent
+-- with agentId "custom:<id>": its system prompt is added to the instructions, only its allowed
+-- tools are offered, and its default model fills in when the composer is on Auto. Knowledge files
+-- work like a project knowledge base: the agent owns one OpenAI vector store, mirrored by
+-- custom_agent_files, that file_search reads from in every chat using the agent.
+
+create table if not exists public.custom_agents (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null,
+  description text null,
+  icon text not null default 'bot',
+  system_prompt text not null default '',
+  allowed_tools text[] not null default '{web_search,file_search,code_interpreter,image_generation}',
+  default_model_family text null,
+  vector_store_id text null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists custom_agents_user_id_idx on public.custom_agents (user_id, created_at desc);
+
+alter table public.custom_agents enable row level security;
+
+create policy "custom_agents_select_own" on public.custom_agents
+  for select
+  using (auth.uid() = user_id);
+
+create policy "custom_agents_insert_own" on public.custom_agents
+  for insert
+  with check (auth.uid() = user_id);
+
+create policy "custom_agents_update_own" on public.custom_agents
+  for update
+  using (auth.uid() = user_id);
+
+create policy "custom_agents_delete_own" on public.custom_agents
+  for delete
+  using (auth.uid() = user_id);
+
+create table if not exists public.custom_agent_files (
+  id uuid primary key default gen_random_uuid(),
+  agent_id uuid not null references public.custom_agents(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null,
+  mime text null,
+  size_bytes bigint not null default 0,
+  openai_file_id text null,
+  status text not null default 'processing' check (status in ('processing', 'ready', 'failed')),
+  error text null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists custom_agent_files_agent_id_idx on public.custom_agent_files (agent_id, created_at desc);
+create index if not exists custom_agent_files_user_id_idx on public.custom_agent_files (user_id);
+
+alter table public.custom_agent_files enable row level security;
+
+create policy "custom_agent_files_select_own" on public.custom_agent_files
+  for select
+  using (auth.uid() = user_id);
+
+create policy "custom_agent_files_insert_own" on public.custom_agent_files
+  for insert
+  with check (auth.uid() = user_id);
+
+create policy "custom_agent_files_update_own" on public.custom_agent_files
+  for update
+  using (auth.uid() = user_id);
+
+create policy "custom_agent_files_delete_own" on public.custom_agent_files
+  for delete
+  using (auth.uid() = user_id);
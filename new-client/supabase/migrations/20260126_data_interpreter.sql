@@ -0,0 +1,43 @@
+-- Data Interpreter sessions. A session is a conversation whose metadata.agent is
+-- 'data-interpreter'; metadata.dataInterpreter holds the dataset (storage path + profile). The
+-- dataset itself lives in the private "datasets" bucket so it can be copied into a fresh
+-- code_interpreter container whenever the previous one has expired.
+--
+-- data_interpreter_steps is the session notebook: one row per code_interpreter call, in order,
+-- with the question that prompted it, the code that ran, its logs and the files it produced
+-- (downloadable through /api/code-interpreter/download via message_id).
+
+insert into storage.buckets (id, name, public)
+values ('datasets', 'datasets', false)
+on conflict (id) do nothing;
+
+create table if not exists public.data_interpreter_steps (
+  id uuid primary key default gen_random_uuid(),
+  conversation_id uuid not null references public.conversations(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  message_id uuid null references public.messages(id) on delete set null,
+  step_index integer not null,
+  question text null,
+  code text not null default '',
+  logs text null,
+  files jsonb not null default '[]'::jsonb,
+  container_id text null,
+  created_at timestamptz not null default now(),
+  unique (conversation_id, step_index)
+);
+
+create index if not exists data_interpreter_steps_user_id_idx on public.data_interpreter_steps (user_id);
+
+alter table public.data_interpreter_steps enable row level security;
+
+create policy "data_interpreter_steps_select_own" on public.data_interpreter_steps
+  for select
+  using (auth.uid() = user_id);
+
+create policy "data_interpreter_steps_insert_own" on public.data_interpreter_steps
+  for insert
+  with check (auth.uid() = user_id);
+
+create policy "data_interpreter_steps_delete_own" on public.data_interpreter_steps
+  for delete
+  using (auth.uid() = user_id);
@@ -0,0 +1,71 @@
+-- Automation Builder. An automation is a trigger (a UTC cron schedule or an inbound webhook) plus an
+-- ordered list of steps (chat prompt, web search, summarize, post to webhook) stored as jsonb.
+-- /api/automations/cron claims due automations by advancing next_run_at before dispatching them.
+--
+-- Every run gets its own conversation (metadata.agent = 'automation-builder') and an
+-- automation_runs row with per-step results and the run's total cost. Runs are written by the
+-- service role (cron and webhook runs have no user session), so users only read them.
+
+create table if not exists public.automations (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null,
+  description text null,
+  trigger_type text not null default 'cron' check (trigger_type in ('cron', 'webhook')),
+  cron_expression text null,
+  webhook_token text null unique,
+  steps jsonb not null default '[]'::jsonb,
+  model_family text not null default 'gpt-5-mini',
+  enabled boolean not null default true,
+  next_run_at timestamptz null,
+  last_run_at timestamptz null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists automations_user_id_idx on public.automations (user_id);
+create index if not exists automations_due_idx on public.automations (next_run_at)
+  where enabled and trigger_type = 'cron';
+
+alter table public.automations enable row level security;
+
+create policy "automations_select_own" on public.automations
+  for select
+  using (auth.uid() = user_id);
+
+create policy "automations_insert_own" on public.automations
+  for insert
+  with check (auth.uid() = user_id);
+
+create policy "automations_update_own" on public.automations
+  for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "automations_delete_own" on public.automations
+  for delete
+  using (auth.uid() = user_id);
+
+create table if not exists public.automation_runs (
+  id uuid primary key default gen_random_uuid(),
+  automation_id uuid not null references public.automations(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  conversation_id uuid null references public.conversations(id) on delete set null,
+  trigger text not null check (trigger in ('schedule', 'webhook', 'manual')),
+  status text not null default 'running' check (status in ('running', 'completed', 'failed')),
+  step_results jsonb not null default '[]'::jsonb,
+  error text null,
+  cost_usd numeric(12, 6) not null default 0,
+  started_at timestamptz not null default now(),
+  finished_at timestamptz null
+);
+
+create index if not exists automation_runs_automation_id_idx
+  on public.automation_runs (automation_id, started_at desc);
+create index if not exists automation_runs_user_id_idx on public.automation_runs (user_id);
+
+alter table public.automation_runs enable row level security;
+
+create policy "automation_runs_select_own" on public.automation_runs
+  for select
+  using (auth.uid() = user_id);
@@ -0,0 +1,59 @@
+-- Sliding-window rate limits for API routes (see lib/rate-limit.ts). Hits are counted per key in
+-- fixed windows; the caller weighs the previous window by how much of it still overlaps the
+-- sliding window, which approximates a true sliding log without storing every request.
+-- Only the service role touches the table: RLS is on with no policies.
+
+create table if not exists public.rate_limit_counters (
+  key text not null,
+  window_start timestamptz not null,
+  hits integer not null default 0,
+  primary key (key, window_start)
+);
+
+create index if not exists rate_limit_counters_window_idx
+  on public.rate_limit_counters (window_start);
+
+alter table public.rate_limit_counters enable row level security;
+
+-- Records one hit for every key and returns each key's counts for the current and previous
+-- window, plus how far (0-1) into the current window we are. Old windows are trimmed now and
+-- then rather than on every call.
+create or replace function public.rate_limit_hit(
+  p_keys text[],
+  p_window_seconds integer
+)
+returns table (
+  limit_key text,
+  current_hits integer,
+  previous_hits integer,
+  window_elapsed double precision
+)
+language plpgsql
+set search_path = public, pg_temp
+as $$
+declare
+  v_window_start timestamptz :=
+    to_timestamp(floor(extract(epoch from now()) / p_window_seconds) * p_window_seconds);
+  v_previous_start timestamptz := v_window_start - make_interval(secs => p_window_seconds);
+begin
+  insert into public.rate_limit_counters as c (key, window_start, hits)
+    select distinct k, v_window_start, 1 from unnest(p_keys) as k
+    on conflict (key, window_start) do update set hits = c.hits + 1;
+
+  if random() < 0.01 then
+    delete from public.rate_limit_counters where window_start < now() - interval '1 day';
+  end if;
+
+  return query
+    select
+      k,
+      coalesce(cur.hits, 0),
+      coalesce(prev.hits, 0),
+      extract(epoch from now() - v_window_start)::double precision / p_window_seconds
+    from unnest(p_keys) as k
+    left join public.rate_limit_counters cur on cur.key = k and cur.window_start = v_window_start
+    left join public.rate_limit_counters prev on prev.key = k and prev.window_start = v_previous_start;
+end;
+$$;
+
+revoke execute on function public.rate_limit_hit(text[], integer) from public, anon, authenticated;
@@ -0,0 +1,6 @@
+-- Progress a background job keeps between attempts. A handler that does several non-idempotent
+-- writes saves its intermediate results and finished steps here, so a retry resumes from the
+-- checkpoint instead of redoing (or re-deciding) work that already landed.
+
+alter table public.background_jobs
+  add column if not exists checkpoint jsonb not null default '{}'::jsonb;
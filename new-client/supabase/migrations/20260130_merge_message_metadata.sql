@@ -0,0 +1,19 @@
+-- Merges keys into a message's metadata in one statement, so background jobs can tag a message
+-- without overwriting keys another writer set after the job read the row.
+
+create or replace function public.merge_message_metadata(
+  p_message_id uuid,
+  p_patch jsonb
+)
+returns void
+language plpgsql
+set search_path = public, pg_temp
+as $$
+begin
+  update public.messages
+    set metadata = coalesce(metadata, '{}'::jsonb) || coalesce(p_patch, '{}'::jsonb)
+    where id = p_message_id;
+end;
+$$;
+
+revoke execute on function public.merge_message_metadata(uuid, jsonb) from public, anon, authenticated;
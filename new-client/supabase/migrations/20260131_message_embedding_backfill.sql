@@ -0,0 +1,32 @@
+-- Message embeddings are backfilled by a background job (lib/jobs/message-embeddings.ts) rather
+-- than on the search request. dedupe_key lets a caller queue a job at most once while an
+-- identical one is still waiting; each search asks for a backfill and most asks are no-ops.
+
+alter table public.background_jobs add column if not exists dedupe_key text null;
+
+create unique index if not exists background_jobs_queued_dedupe_idx
+  on public.background_jobs (dedupe_key)
+  where status = 'queued' and dedupe_key is not null;
+
+-- Stores a batch of embeddings in one statement. p_rows is a JSON array of { id, embedding }.
+create or replace function public.store_message_embeddings(
+  p_user_id uuid,
+  p_rows jsonb
+)
+returns integer
+language plpgsql
+set search_path = public, pg_temp
+as $$
+declare
+  v_updated integer;
+begin
+  update public.messages m
+    set embedding_raw = r.embedding
+    from jsonb_to_recordset(coalesce(p_rows, '[]'::jsonb)) as r(id uuid, embedding float8[])
+    where m.id = r.id and m.user_id = p_user_id;
+  get diagnostics v_updated = row_count;
+  return v_updated;
+end;
+$$;
+
+revoke execute on function public.store_message_embeddings(uuid, jsonb) from public, anon, authenticated;
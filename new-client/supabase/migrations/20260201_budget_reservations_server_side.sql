@@ -0,0 +1,115 @@
+-- Budget reservations are written only by the server (service role). Signed-in users could
+-- otherwise release or settle their own open reservations to free headroom while turns are still
+-- running. reserve_budget no longer takes the user's limit and spend from the caller: the limit
+-- comes from the active plan, the spend from user_api_usage since the billing period start, and
+-- the project cap from the project row.
+
+drop policy if exists "budget_reservations_insert_own" on public.budget_reservations;
+drop policy if exists "budget_reservations_update_own" on public.budget_reservations;
+
+-- Monthly limit per plan. Keep in sync with PLAN_LIMITS / normalizePlanType in lib/usage-limits.ts.
+create or replace function public.plan_monthly_limit_usd(p_plan_type text)
+returns numeric
+language sql immutable
+set search_path = public, pg_temp
+as $$
+  select case lower(coalesce(p_plan_type, ''))
+    when 'max' then 120.0
+    when 'dev' then 120.0
+    when 'plus' then 12.0
+    when 'pro' then 12.0
+    when 'basic' then 12.0
+    else 2.0
+  end::numeric;
+$$;
+
+drop function if exists public.reserve_budget(
+  uuid, uuid, uuid, text, numeric, numeric, numeric, numeric, timestamptz, integer, jsonb
+);
+
+-- Atomically check headroom and reserve, under a per-user advisory lock. Returns a null
+-- reservation_id when the amount doesn't fit, along with the limits and headroom so the caller can
+-- downgrade and retry or explain the refusal.
+create or replace function public.reserve_budget(
+  p_user_id uuid,
+  p_project_id uuid,
+  p_conversation_id uuid,
+  p_model text,
+  p_amount numeric,
+  p_project_since timestamptz,
+  p_ttl_seconds integer default 900,
+  p_metadata jsonb default '{}'::jsonb
+)
+returns table (
+  reservation_id uuid,
+  user_limit numeric,
+  user_available numeric,
+  project_limit numeric,
+  project_available numeric
+)
+language plpgsql
+set search_path = public, pg_temp
+as $$
+declare
+  v_plan_type text;
+  v_period_start timestamptz;
+  v_user_limit numeric;
+  v_user_spent numeric;
+  v_user_reserved numeric;
+  v_user_available numeric;
+  v_project_limit numeric := null;
+  v_project_reserved numeric;
+  v_project_available numeric := null;
+  v_id uuid := null;
+begin
+  perform pg_advisory_xact_lock(hashtext('budget:' || p_user_id::text));
+
+  update public.budget_reservations
+    set status = 'expired'
+    where user_id = p_user_id and status = 'reserved' and expires_at < now();
+
+  select plan_type, current_period_start into v_plan_type, v_period_start
+    from public.user_plans
+    where user_id = p_user_id and is_active
+    limit 1;
+  v_user_limit := public.plan_monthly_limit_usd(v_plan_type);
+  v_period_start := coalesce(v_period_start, date_trunc('month', now() at time zone 'utc') at time zone 'utc');
+
+  select coalesce(sum(estimated_cost), 0) into v_user_spent
+    from public.user_api_usage
+    where user_id = p_user_id and created_at >= v_period_start;
+  select coalesce(sum(amount_usd), 0) into v_user_reserved
+    from public.budget_reservations
+    where user_id = p_user_id and status = 'reserved';
+  v_user_available := v_user_limit - v_user_spent - v_user_reserved;
+
+  if p_project_id is not null then
+    select monthly_budget_usd into v_project_limit
+      from public.projects
+      where id = p_project_id and user_id = p_user_id and monthly_budget_usd > 0;
+  end if;
+  if v_project_limit is not null then
+    select coalesce(sum(amount_usd), 0) into v_project_reserved
+      from public.budget_reservations
+      where project_id = p_project_id and status = 'reserved';
+    v_project_available := v_project_limit
+      - public.project_spending_since(p_project_id, p_project_since)
+      - v_project_reserved;
+  end if;
+
+  if p_amount <= v_user_available and (v_project_available is null or p_amount <= v_project_available) then
+    insert into public.budget_reservations (
+      user_id, project_id, conversation_id, model, amount_usd, metadata, expires_at
+    ) values (
+      p_user_id, p_project_id, p_conversation_id, p_model, p_amount, coalesce(p_metadata, '{}'::jsonb),
+      now() + make_interval(secs => greatest(p_ttl_seconds, 60))
+    )
+    returning id into v_id;
+  end if;
+
+  return query select v_id, v_user_limit, v_user_available, v_project_limit, v_project_available;
+end;
+$$;
+
+revoke execute on function public.reserve_budget(uuid, uuid, uuid, text, numeric, timestamptz, integer, jsonb)
+  from public, anon, authenticated;